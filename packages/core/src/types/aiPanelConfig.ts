@@ -24,10 +24,11 @@ export interface AIPanelConfig {
   // Gemini/Kimi-specific (Kimi supports 'default' | 'yolo')
   approvalMode?: 'default' | 'auto_edit' | 'yolo' | 'plan';
 
-  // Per-provider custom configuration (env vars, extra CLI args)
+  // Per-provider custom configuration (env vars, extra CLI args, plugin settings)
   providerConfig?: {
     envVars?: Record<string, string>;
     extraArgs?: string;
+    options?: Record<string, string>;
   };
 
   // Future extensibility - specific config values can be added here
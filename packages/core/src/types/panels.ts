@@ -7,7 +7,12 @@ export interface ToolPanel {
   metadata: ToolPanelMetadata;   // Creation time, position, etc.
 }
 
-export type ToolPanelType = 'terminal' | 'claude' | 'codex' | 'gemini' | 'kimi' | 'diff' | 'editor' | 'logs' | 'dashboard' | 'setup-tasks'; // Will expand later
+export type BuiltinAgentToolType = 'claude' | 'codex' | 'gemini' | 'kimi';
+
+// Executor plugins registered at startup use their own ids, so agent types are open-ended.
+export type AgentToolType = BuiltinAgentToolType | (string & {});
+
+export type ToolPanelType = 'terminal' | AgentToolType | 'diff' | 'editor' | 'logs' | 'dashboard' | 'setup-tasks';
 
 export interface ToolPanelState {
   isActive: boolean;
@@ -1,5 +1,7 @@
 // Session-related types shared between frontend and backend (Application layer - camelCase)
 
+import type { AgentToolType } from './panels';
+
 export interface Session {
   id: string;
   name: string;
@@ -26,7 +28,7 @@ export interface Session {
   displayOrder?: number;
   isFavorite?: boolean;
   autoCommit?: boolean;
-  toolType: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none';
+  toolType: AgentToolType | 'none';
   baseCommit?: string;
   baseBranch?: string;
   commitMode?: 'structured' | 'checkpoint' | 'disabled';
@@ -39,6 +41,7 @@ export interface Session {
   ownerRepo?: string; // Main repo (upstream in fork, origin otherwise)
   isFork?: boolean;
   originOwnerRepo?: string; // Origin repo (only for fork workflow)
+  importedAt?: string; // Set on read-only sessions recreated from an exported bundle
 }
 
 export interface SessionUpdate {
@@ -51,8 +54,11 @@ export interface SessionUpdate {
   worktreeName?: string;
   baseCommit?: string | null;
   baseBranch?: string | null;
+  folderId?: string | null;
+  isFavorite?: boolean;
+  archived?: boolean;
   skipContinueNext?: boolean;
-  toolType?: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none';
+  toolType?: AgentToolType | 'none';
   executionMode?: 'plan' | 'execute';
   currentBranch?: string;
   ownerRepo?: string;
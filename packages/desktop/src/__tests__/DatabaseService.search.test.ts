@@ -0,0 +1,52 @@
+import { randomUUID } from 'node:crypto';
+import { cleanupDatabase, createMockDatabase } from './helpers/mockDatabase';
+import { toFtsQuery, type DatabaseService } from '../infrastructure/database/database';
+
+function createSession(db: DatabaseService, projectId: number, name: string): string {
+  const sessionId = randomUUID();
+  db.createSession({
+    id: sessionId,
+    name,
+    initial_prompt: '',
+    worktree_name: name,
+    worktree_path: '/tmp',
+    project_id: projectId,
+  });
+  return sessionId;
+}
+
+describe('DatabaseService history search', () => {
+  it('quotes words and prefix-matches the last one', () => {
+    expect(toFtsQuery('  ')).toBeNull();
+    expect(toFtsQuery('flaky te')).toBe('"flaky" "te"*');
+    expect(toFtsQuery('say "hi" OR')).toBe('"say" """hi""" "OR"*');
+  });
+
+  it('finds timeline events and diffs, including archived sessions', () => {
+    const db = createMockDatabase();
+    try {
+      const project = db.createProject('Test Project', `/tmp/snowtree-test-${randomUUID()}`);
+      const active = createSession(db, project.id, 'active');
+      const archived = createSession(db, project.id, 'archived');
+
+      db.addTimelineEvent({ session_id: active, timestamp: '2020-01-02T10:00:00.000Z', kind: 'chat.user', content: 'Fix the flaky scheduler test' });
+      db.addTimelineEvent({ session_id: active, timestamp: '2020-01-02T10:01:00.000Z', kind: 'cli.command', command: 'pnpm test scheduler' });
+      db.addTimelineEvent({ session_id: archived, timestamp: '2020-03-01T09:00:00.000Z', kind: 'tool_use', tool_name: 'Read', tool_input: '{"file":"scheduler.ts"}' });
+      db.createExecutionDiff({ session_id: active, execution_sequence: 1, git_diff: '+export const schedulerTimeout = 10;' });
+      db.archiveSession(archived);
+
+      const all = db.searchHistory({ query: 'schedul' });
+      expect(all.map((hit) => hit.kind).sort()).toEqual(['command', 'diff', 'prompt', 'tool']);
+      expect(all.find((hit) => hit.kind === 'tool')).toMatchObject({ session_id: archived, archived: true });
+      expect(all.find((hit) => hit.kind === 'prompt')?.snippet).toContain('\u0002scheduler\u0003');
+      expect(all.find((hit) => hit.kind === 'diff')?.seq).toBe(2);
+
+      expect(db.searchHistory({ query: 'scheduler', kinds: ['command'] }).map((hit) => hit.event_kind)).toEqual(['cli.command']);
+      expect(db.searchHistory({ query: 'scheduler', includeArchived: false }).every((hit) => hit.session_id === active)).toBe(true);
+      expect(db.searchHistory({ query: 'scheduler', since: '2020-02-01', until: '2020-04-01' }).map((hit) => hit.session_id)).toEqual([archived]);
+      expect(db.searchHistory({ query: 'scheduler', projectId: project.id + 1 })).toEqual([]);
+    } finally {
+      cleanupDatabase(db);
+    }
+  });
+});
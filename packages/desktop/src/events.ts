@@ -1,10 +1,14 @@
 import type { BrowserWindow } from 'electron';
 import type { AppServices } from './infrastructure/ipc';
 import type { GitStatus } from '@snowtree/core/types/session';
-import type { NormalizedEntry } from './executors/types';
+import type { ExecutorApprovalRequestEvent, ExecutorToolUseEvent, ExecutorUsageEvent, NormalizedEntry } from './executors/types';
+import { describeBudget } from './features/usage';
+import { describePolicyVerdict } from './features/policy';
+import { executorRegistry } from './executors/registry';
 
 type ExecutorLike = {
   on: (event: string, listener: (...args: unknown[]) => void) => void;
+  kill?: (panelId: string, reason?: 'interrupted' | 'terminated') => Promise<void>;
 };
 
 export function setupEventListeners(services: AppServices, getMainWindow: () => BrowserWindow | null): void {
@@ -45,7 +49,10 @@ export function setupEventListeners(services: AppServices, getMainWindow: () =>
       // When a turn completes (running -> waiting), refresh git status so the right panel updates.
       if ((prev === 'running' || prev === 'initializing') && status === 'waiting') {
         console.log('[events.ts] Agent completed, sending agent:completed event for session:', id);
-        send('agent:completed', { sessionId: id });
+        // No chime during do-not-disturb, or when a desktop notification already announces it.
+        const notifications = services.notificationService;
+        const muted = Boolean(notifications && (notifications.isQuietTime() || notifications.shouldNotify('agentFinished', id)));
+        send('agent:completed', { sessionId: id, muted });
         gitStatusManager.refreshSessionGitStatus(id, false).catch(() => {
           // best-effort
         });
@@ -70,6 +77,54 @@ export function setupEventListeners(services: AppServices, getMainWindow: () =>
     send('timeline:event', data);
   });
 
+  services.promptQueue?.on('updated', (data: unknown) => {
+    send('prompt-queue:updated', data);
+  });
+
+  services.usageTracker?.on('updated', (data: unknown) => {
+    send('usage:updated', data);
+  });
+
+  services.checkpointManager?.on('updated', (data: unknown) => {
+    send('checkpoints:updated', data);
+  });
+
+  services.scriptRunner?.on('updated', (data: unknown) => {
+    send('scripts:updated', data);
+  });
+
+  services.scriptRunner?.on('output', (data: unknown) => {
+    send('scripts:output', data);
+  });
+
+  services.setupRunner?.on('updated', (data: unknown) => {
+    send('setup:updated', data);
+  });
+
+  services.setupRunner?.on('output', (data: unknown) => {
+    send('setup:output', data);
+  });
+
+  services.upstreamWatcher?.on('status-changed', (data: unknown) => {
+    send('upstream:updated', data);
+  });
+
+  services.reviewFeedbackManager?.on('updated', (data: unknown) => {
+    send('review:updated', data);
+  });
+
+  services.diffCommentManager?.on('updated', (data: unknown) => {
+    send('diff-comments:updated', data);
+  });
+
+  services.sessionOrganizer?.on('updated', (data: unknown) => {
+    send('folders:updated', data);
+  });
+
+  services.notificationService?.on('focus', (data: unknown) => {
+    send('notifications:focus', data);
+  });
+
   sessionManager.on('terminal-output', (data: unknown) => {
     send('terminal:output', data);
   });
@@ -252,6 +307,8 @@ export function setupEventListeners(services: AppServices, getMainWindow: () =>
         : null;
       const exitCode = (data as { exitCode?: unknown })?.exitCode;
       const signal = (data as { signal?: unknown })?.signal;
+      // Nobody is left to act on approvals the exited agent was waiting for.
+      if (panelId) services.approvalService?.cancelPanel(panelId);
       if (!sessionId) return;
       const session = sessionManager.getSession(sessionId);
       if (!session) return;
@@ -305,6 +362,49 @@ export function setupEventListeners(services: AppServices, getMainWindow: () =>
       sessionManager.updateSessionStatus(sessionId, 'waiting');
     });
 
+    // Stop a running panel and record why in the session's status message.
+    const interruptPanel = (sessionId: string, panelId: string, reason: string) => {
+      const session = sessionManager.getSession(sessionId);
+      if (!session || session.status === 'stopped') return;
+      // Mark stopped first so the exit handler leaves the status alone.
+      sessionManager.updateSessionStatus(sessionId, 'stopped', reason);
+      executor.kill?.(panelId, 'interrupted').catch(() => {
+        // best-effort
+      });
+    };
+
+    // Hold tool approvals until the user answers; approve outright when approvals are unavailable.
+    // A matching policy rule answers first.
+    executor.on('approvalRequest', (data: unknown) => {
+      const event = data as ExecutorApprovalRequestEvent;
+      const verdict = services.policyEngine?.checkApproval(event);
+      if (verdict) {
+        event.respond(verdict.action === 'allow' ? 'approve' : 'deny');
+        return;
+      }
+      if (!services.approvalService) {
+        event.respond('approve');
+        return;
+      }
+      services.approvalService.request(event);
+    });
+
+    // Interrupt the agent when a tool call it already started hits a deny rule.
+    executor.on('toolUse', (data: unknown) => {
+      const event = data as ExecutorToolUseEvent;
+      if (!services.policyEngine || !event?.panelId || !event?.sessionId) return;
+      const verdict = services.policyEngine.checkToolUse(event);
+      if (verdict) interruptPanel(event.sessionId, event.panelId, describePolicyVerdict(verdict));
+    });
+
+    // Account token usage and interrupt the panel once a hard budget limit is hit.
+    executor.on('usage', (data: unknown) => {
+      const event = data as ExecutorUsageEvent;
+      if (!services.usageTracker || !event?.panelId || !event?.sessionId) return;
+      const result = services.usageTracker.record(event);
+      if (result?.exceeded) interruptPanel(event.sessionId, event.panelId, describeBudget(result.exceeded));
+    });
+
     executor.on('error', (data: unknown) => {
       const sessionId = typeof (data as { sessionId?: unknown })?.sessionId === 'string'
         ? (data as { sessionId: string }).sessionId
@@ -322,4 +422,7 @@ export function setupEventListeners(services: AppServices, getMainWindow: () =>
   wireExecutorLifecycle(codexExecutor);
   wireExecutorLifecycle(geminiExecutor);
   wireExecutorLifecycle(kimiExecutor);
+  for (const executor of executorRegistry.getPluginExecutors()) {
+    wireExecutorLifecycle(executor);
+  }
 }
@@ -20,7 +20,8 @@ import { getShellPath } from '../../infrastructure/command/shellPath';
 import { findNodeExecutable } from '../../infrastructure/utils/nodeFinder';
 import { cliLogger } from '../../infrastructure/logging/cliLogger';
 import type { CliTool } from '../../infrastructure/logging/cliLogger';
-import { DiffMetadataExtractor } from './DiffMetadataExtractor';
+import { DiffMetadataExtractor, DEFAULT_DIFF_TOOL_MAPPING } from './DiffMetadataExtractor';
+import type { DiffToolMapping } from './DiffMetadataExtractor';
 
 import type {
   ExecutorTool,
@@ -32,7 +33,10 @@ import type {
   ExecutorErrorEvent,
   ExecutorSpawnedEvent,
   ExecutorEvents,
+  ExecutorToolUseEvent,
+  ExecutorUsageEvent,
   NormalizedEntry,
+  TokenUsageSample,
 } from '../types';
 
 const execAsync = promisify(exec);
@@ -119,6 +123,15 @@ export abstract class AbstractExecutor extends EventEmitter {
     return 'pty';
   }
 
+  /**
+   * Tool names this executor's parser emits that can be turned into diffs.
+   * Built-in executors share the default mapping; plugins supply their own
+   * (per panel when the mapping depends on the project being run).
+   */
+  protected getDiffToolMapping(_panelId: string): DiffToolMapping {
+    return DEFAULT_DIFF_TOOL_MAPPING;
+  }
+
   /** Get CLI tool type for logging */
   protected getCliLogType(): CliTool {
     const type = this.getToolType();
@@ -594,6 +607,16 @@ export abstract class AbstractExecutor extends EventEmitter {
     });
   }
 
+  /**
+   * Emit a token usage sample parsed from CLI output (ignored when empty).
+   */
+  protected reportUsage(panelId: string, sessionId: string, usage: TokenUsageSample | null): void {
+    if (!usage) return;
+    const total = usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheCreationTokens;
+    if (total <= 0 && !usage.costUsd) return;
+    this.emit('usage', { panelId, sessionId, usage } as ExecutorUsageEvent);
+  }
+
   protected async handleNormalizedEntry(panelId: string, sessionId: string, entry: NormalizedEntry): Promise<void> {
     const entryMeta = {
       ...(entry.metadata || {}),
@@ -635,6 +658,15 @@ export abstract class AbstractExecutor extends EventEmitter {
       const metaCommand = typeof meta.command === 'string' ? meta.command : undefined;
       const metaCommandActions = Array.isArray(meta.commandActions) ? meta.commandActions : undefined;
       const metaChanges = Array.isArray(meta.changes) ? meta.changes : undefined;
+      this.emit('toolUse', {
+        panelId,
+        sessionId,
+        toolName: enriched.toolName,
+        action,
+        paths: (metaChanges as Array<Record<string, unknown>> | undefined)
+          ?.map((change) => (typeof change.path === 'string' ? change.path : ''))
+          .filter(Boolean),
+      } as ExecutorToolUseEvent);
       const display = (() => {
         const base = (enriched.content || '').trim();
         if (entryToolName === 'commandexecution') {
@@ -689,8 +721,11 @@ export abstract class AbstractExecutor extends EventEmitter {
       const cwd = this.sessionManager.getSession(sessionId)?.worktreePath;
       const runtime = this.runtimeMetaByPanel.get(panelId) || {};
 
-      // Extract diff metadata for Edit, Write, Bash rm, and Codex tools
-      const extractor = new DiffMetadataExtractor({ cwd: cwd || process.cwd() });
+      // Extract diff metadata for file edits/writes and `rm` commands
+      const extractor = new DiffMetadataExtractor({
+        cwd: cwd || process.cwd(),
+        toolMapping: this.getDiffToolMapping(panelId),
+      });
       const diffMetadata = await extractor.extract(
         enriched.toolName || '',
         enriched.metadata
@@ -9,15 +9,54 @@ export interface DiffMetadata {
   isNewFile?: boolean;
 }
 
+/**
+ * How a tool call's metadata should be turned into diffs:
+ * - edit:        input.file_path + input.old_string / input.new_string
+ * - write:       input.file_path (or input.path) + input.content, optional input.mode 'append'
+ * - replace:     input.path (or input.file_path) + input.edit as { old, new } or an array of them
+ * - shell:       input.command, only `rm` is turned into delete diffs
+ * - fileChanges: metadata.changes with unified diffs or full content
+ * - command:     metadata.command, only `rm` is turned into delete diffs
+ */
+export type DiffExtractionKind = 'edit' | 'write' | 'replace' | 'shell' | 'fileChanges' | 'command';
+
+/** Tool name (as emitted by the agent's message parser) → extraction kind */
+export type DiffToolMapping = Record<string, DiffExtractionKind>;
+
+export const CLAUDE_DIFF_TOOLS: DiffToolMapping = {
+  Edit: 'edit',
+  Write: 'write',
+  Bash: 'shell',
+};
+
+export const KIMI_DIFF_TOOLS: DiffToolMapping = {
+  StrReplaceFile: 'replace',
+  WriteFile: 'write',
+  Shell: 'shell',
+};
+
+export const CODEX_DIFF_TOOLS: DiffToolMapping = {
+  fileChange: 'fileChanges',
+  commandExecution: 'command',
+};
+
+/** Used when the caller doesn't pass a mapping: every built-in agent's tool names */
+export const DEFAULT_DIFF_TOOL_MAPPING: DiffToolMapping = {
+  ...CLAUDE_DIFF_TOOLS,
+  ...KIMI_DIFF_TOOLS,
+  ...CODEX_DIFF_TOOLS,
+};
+
 export interface DiffExtractionContext {
   cwd: string;
+  toolMapping?: DiffToolMapping;
 }
 
 const MAX_FILE_SIZE = 1024 * 1024; // 1MB limit
 
 /**
  * Extracts diff metadata from normalized tool entries.
- * Supports both Claude and Codex tool formats.
+ * Tool names are resolved through a DiffToolMapping so executor plugins can reuse the extractors.
  */
 export class DiffMetadataExtractor {
   constructor(private context: DiffExtractionContext) {}
@@ -32,40 +71,28 @@ export class DiffMetadataExtractor {
   ): Promise<DiffMetadata[] | null> {
     if (!metadata) return null;
 
-    // Claude tools
-    if (toolName === 'Edit') {
-      return this.extractClaudeEdit(metadata);
-    }
-    if (toolName === 'Write') {
-      return this.extractClaudeWrite(metadata);
-    }
-    if (toolName === 'Bash') {
-      return this.extractClaudeBash(metadata);
-    }
-
-    // Kimi tools
-    if (toolName === 'StrReplaceFile') {
-      return this.extractKimiReplace(metadata);
-    }
-    if (toolName === 'WriteFile') {
-      return this.extractKimiWrite(metadata);
-    }
-    if (toolName === 'Shell') {
-      return this.extractKimiShell(metadata);
-    }
-
-    // Codex tools
-    if (toolName === 'fileChange') {
-      return this.extractCodexFileChange(metadata);
-    }
-    if (toolName === 'commandExecution') {
-      return this.extractCodexCommand(metadata);
+    const mapping = this.context.toolMapping ?? DEFAULT_DIFF_TOOL_MAPPING;
+    const kind = Object.prototype.hasOwnProperty.call(mapping, toolName) ? mapping[toolName] : undefined;
+
+    switch (kind) {
+      case 'edit':
+        return this.extractEdit(metadata);
+      case 'write':
+        return this.extractWrite(metadata);
+      case 'replace':
+        return this.extractReplace(metadata);
+      case 'shell':
+        return this.extractShell(metadata);
+      case 'fileChanges':
+        return this.extractFileChanges(metadata);
+      case 'command':
+        return this.extractCommand(metadata);
+      default:
+        return null;
     }
-
-    return null;
   }
 
-  private async extractClaudeEdit(metadata: Record<string, unknown>): Promise<DiffMetadata[] | null> {
+  private async extractEdit(metadata: Record<string, unknown>): Promise<DiffMetadata[] | null> {
     const input = metadata.input as Record<string, unknown> | undefined;
     if (!input) return null;
 
@@ -85,27 +112,7 @@ export class DiffMetadataExtractor {
     }];
   }
 
-  private async extractClaudeWrite(metadata: Record<string, unknown>): Promise<DiffMetadata[] | null> {
-    const input = metadata.input as Record<string, unknown> | undefined;
-    if (!input) return null;
-
-    const filePath = input.file_path as string | undefined;
-    const newString = input.content as string | undefined;
-
-    if (!filePath || newString === undefined) return null;
-
-    // Read existing content if file exists
-    const oldString = await this.readFileIfExists(filePath);
-
-    return [{
-      filePath,
-      oldString: oldString ?? '',
-      newString,
-      isNewFile: oldString === null,
-    }];
-  }
-
-  private async extractClaudeBash(metadata: Record<string, unknown>): Promise<DiffMetadata[] | null> {
+  private async extractShell(metadata: Record<string, unknown>): Promise<DiffMetadata[] | null> {
     const input = metadata.input as Record<string, unknown> | undefined;
     if (!input) return null;
 
@@ -131,7 +138,7 @@ export class DiffMetadataExtractor {
     return results.length > 0 ? results : null;
   }
 
-  private async extractKimiWrite(metadata: Record<string, unknown>): Promise<DiffMetadata[] | null> {
+  private async extractWrite(metadata: Record<string, unknown>): Promise<DiffMetadata[] | null> {
     const input = metadata.input as Record<string, unknown> | undefined;
     if (!input) return null;
 
@@ -154,7 +161,7 @@ export class DiffMetadataExtractor {
     }];
   }
 
-  private async extractKimiReplace(metadata: Record<string, unknown>): Promise<DiffMetadata[] | null> {
+  private async extractReplace(metadata: Record<string, unknown>): Promise<DiffMetadata[] | null> {
     const input = metadata.input as Record<string, unknown> | undefined;
     if (!input) return null;
 
@@ -179,33 +186,7 @@ export class DiffMetadataExtractor {
     return results.length > 0 ? results : null;
   }
 
-  private async extractKimiShell(metadata: Record<string, unknown>): Promise<DiffMetadata[] | null> {
-    const input = metadata.input as Record<string, unknown> | undefined;
-    if (!input) return null;
-
-    const command = input.command as string | undefined;
-    if (!command) return null;
-
-    const deleteInfo = this.parseDeleteCommand(command);
-    if (!deleteInfo) return null;
-
-    const results: DiffMetadata[] = [];
-    for (const filePath of deleteInfo.files) {
-      const content = await this.readFileIfExists(filePath);
-      if (content !== null) {
-        results.push({
-          filePath,
-          oldString: content,
-          newString: '',
-          isDelete: true,
-        });
-      }
-    }
-
-    return results.length > 0 ? results : null;
-  }
-
-  private extractCodexFileChange(metadata: Record<string, unknown>): DiffMetadata[] | null {
+  private extractFileChanges(metadata: Record<string, unknown>): DiffMetadata[] | null {
     const changes = metadata.changes as Array<Record<string, unknown>> | undefined;
     if (!Array.isArray(changes) || changes.length === 0) return null;
 
@@ -247,11 +228,11 @@ export class DiffMetadataExtractor {
     return results.length > 0 ? results : null;
   }
 
-  private async extractCodexCommand(metadata: Record<string, unknown>): Promise<DiffMetadata[] | null> {
+  private async extractCommand(metadata: Record<string, unknown>): Promise<DiffMetadata[] | null> {
     const command = metadata.command as string | undefined;
     if (!command) return null;
 
-    // Same logic as Claude Bash for rm commands
+    // Same logic as shell tools for rm commands
     const deleteInfo = this.parseDeleteCommand(command);
     if (!deleteInfo) return null;
 
@@ -0,0 +1,78 @@
+/**
+ * JsonLinesExecutor - Base for stdio executors whose CLI emits newline-delimited JSON
+ * Buffers JSON objects split across lines and hands each message to the panel's parser
+ */
+
+import { AbstractExecutor } from './AbstractExecutor';
+import type { ExecutorOutputEvent } from '../types';
+import type { ExecutorMessageParser } from '../registry/types';
+import { cliLogger } from '../../infrastructure/logging/cliLogger';
+
+const MAX_JSON_FRAGMENT_LENGTH = 256_000;
+
+export abstract class JsonLinesExecutor extends AbstractExecutor {
+  protected jsonFragmentByPanel = new Map<string, string>();
+  protected agentSessionEmitted = new Set<string>();
+
+  /**
+   * Parser for a panel's messages; without one, messages are only forwarded as raw output.
+   */
+  protected abstract getMessageParser(panelId: string): ExecutorMessageParser | undefined;
+
+  parseOutput(data: string, panelId: string, sessionId: string): void {
+    const trimmed = String(data ?? '').trim();
+    if (!trimmed) return;
+
+    const prior = this.jsonFragmentByPanel.get(panelId);
+    const combined = prior ? `${prior}\n${trimmed}` : trimmed;
+
+    let message: Record<string, unknown>;
+    try {
+      message = JSON.parse(combined) as Record<string, unknown>;
+    } catch {
+      if (trimmed.startsWith('{') || prior) {
+        if (combined.length > MAX_JSON_FRAGMENT_LENGTH) {
+          this.logger?.warn(`[${this.getToolName()}] Dropping oversized JSON fragment (panel=${panelId.slice(0, 8)} len=${combined.length})`);
+          this.jsonFragmentByPanel.delete(panelId);
+        } else {
+          this.jsonFragmentByPanel.set(panelId, combined);
+        }
+        return;
+      }
+
+      cliLogger.info('CLI', panelId, `Non-JSON output: ${trimmed.slice(0, 200)}${trimmed.length > 200 ? '...' : ''}`);
+      this.emit('output', {
+        panelId,
+        sessionId,
+        type: 'stdout',
+        data: trimmed,
+        timestamp: new Date(),
+      } as ExecutorOutputEvent);
+      return;
+    }
+
+    this.jsonFragmentByPanel.delete(panelId);
+    this.emit('output', {
+      panelId,
+      sessionId,
+      type: 'json',
+      data: message,
+      timestamp: new Date(),
+    } as ExecutorOutputEvent);
+
+    const parser = this.getMessageParser(panelId);
+    if (!parser) return;
+
+    const agentSessionId = parser.getAgentSessionId?.(message);
+    if (agentSessionId && !this.agentSessionEmitted.has(panelId)) {
+      this.agentSessionEmitted.add(panelId);
+      this.emit('agentSessionId', { panelId, sessionId, agentSessionId });
+    }
+
+    for (const entry of parser.parseMessage(message)) {
+      this.handleNormalizedEntry(panelId, sessionId, entry);
+    }
+  }
+}
+
+export default JsonLinesExecutor;
@@ -0,0 +1,67 @@
+/**
+ * TurnUsageAccumulator - Report token usage per model call while a turn runs
+ *
+ * CLIs attach usage to each assistant message and a total to the end-of-turn
+ * result. Reporting each call as it arrives lets budgets interrupt mid-turn;
+ * the result then only contributes what the calls did not already cover, so
+ * nothing is counted twice.
+ */
+
+import type { TokenUsageSample } from '../types';
+
+const FIELDS = ['inputTokens', 'outputTokens', 'cacheReadTokens', 'cacheCreationTokens'] as const;
+
+const emptyUsage = (): TokenUsageSample => ({ inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0 });
+
+interface PanelTurn {
+  reported: TokenUsageSample;
+  byMessage: Map<string, TokenUsageSample>;
+}
+
+export class TurnUsageAccumulator {
+  private turns = new Map<string, PanelTurn>();
+
+  /**
+   * Usage of one model call. A message seen before (same id) only contributes
+   * what it grew by, since CLIs repeat the usage on every content block.
+   */
+  addCall(panelId: string, usage: TokenUsageSample, messageId?: string): TokenUsageSample | null {
+    const turn = this.getTurn(panelId);
+    const seen = messageId ? turn.byMessage.get(messageId) : undefined;
+    const delta = emptyUsage();
+    const latest = { ...(seen ?? emptyUsage()) };
+    for (const field of FIELDS) {
+      delta[field] = Math.max(0, usage[field] - (seen?.[field] ?? 0));
+      latest[field] = Math.max(latest[field], usage[field]);
+      turn.reported[field] += delta[field];
+    }
+    if (messageId) turn.byMessage.set(messageId, latest);
+    return FIELDS.some((field) => delta[field] > 0) ? delta : null;
+  }
+
+  /**
+   * The turn's total from the result message: returns the part not reported
+   * through addCall yet, with the turn's cost, and starts a new turn.
+   */
+  finishTurn(panelId: string, total: TokenUsageSample): TokenUsageSample {
+    const reported = this.turns.get(panelId)?.reported ?? emptyUsage();
+    this.turns.delete(panelId);
+    const remainder = emptyUsage();
+    for (const field of FIELDS) remainder[field] = Math.max(0, total[field] - reported[field]);
+    if (total.costUsd !== undefined) remainder.costUsd = total.costUsd;
+    return remainder;
+  }
+
+  clear(panelId: string): void {
+    this.turns.delete(panelId);
+  }
+
+  private getTurn(panelId: string): PanelTurn {
+    let turn = this.turns.get(panelId);
+    if (!turn) {
+      turn = { reported: emptyUsage(), byMessage: new Map() };
+      this.turns.set(panelId, turn);
+    }
+    return turn;
+  }
+}
@@ -298,6 +298,31 @@ describe('DiffMetadataExtractor', () => {
     });
   });
 
+  describe('custom tool mapping', () => {
+    it('should resolve plugin tool names through the mapping', async () => {
+      const pluginExtractor = new DiffMetadataExtractor({
+        cwd: mockCwd,
+        toolMapping: { edit_file: 'edit' },
+      });
+
+      const result = await pluginExtractor.extract('edit_file', {
+        input: { file_path: 'src/a.ts', old_string: 'a', new_string: 'b' },
+      });
+
+      expect(result).toEqual([{ filePath: 'src/a.ts', oldString: 'a', newString: 'b' }]);
+    });
+
+    it('should ignore built-in tool names that are not in the mapping', async () => {
+      const pluginExtractor = new DiffMetadataExtractor({ cwd: mockCwd, toolMapping: {} });
+
+      const result = await pluginExtractor.extract('Edit', {
+        input: { file_path: 'src/a.ts', old_string: 'a', new_string: 'b' },
+      });
+
+      expect(result).toBeNull();
+    });
+  });
+
   describe('edge cases', () => {
     it('should return null for unknown tool', async () => {
       const result = await extractor.extract('UnknownTool', { input: {} });
@@ -3,3 +3,12 @@
  */
 
 export { AbstractExecutor, default } from './AbstractExecutor';
+export { JsonLinesExecutor } from './JsonLinesExecutor';
+export {
+  DiffMetadataExtractor,
+  DEFAULT_DIFF_TOOL_MAPPING,
+  CLAUDE_DIFF_TOOLS,
+  CODEX_DIFF_TOOLS,
+  KIMI_DIFF_TOOLS,
+} from './DiffMetadataExtractor';
+export type { DiffToolMapping, DiffExtractionKind, DiffMetadata } from './DiffMetadataExtractor';
@@ -181,7 +181,9 @@ export class ClaudeExecutor extends AbstractExecutor {
   }
 
   async cleanupResources(sessionId: string): Promise<void> {
-    // Claude doesn't need specific cleanup
+    for (const [panelId, proc] of this.processes) {
+      if (proc.sessionId === sessionId) this.messageParser.clearUsage(panelId);
+    }
     this.logger?.verbose(`Cleaning up Claude resources for session ${sessionId}`);
   }
 
@@ -279,6 +281,9 @@ export class ClaudeExecutor extends AbstractExecutor {
           this.sessionManager.updateSessionStatus(sessionId, 'waiting');
         }
       }
+
+      // After the status update, so a budget interrupt is not overwritten by 'waiting'.
+      this.reportUsage(panelId, sessionId, this.messageParser.extractUsage(panelId, message));
     } catch (parseError) {
       // Claude is expected to be line-delimited JSON (stream-json). If we fail to parse and it looks like JSON,
       // buffer for the next line; otherwise treat as stdout but surface a warning to aid debugging.
@@ -444,17 +449,12 @@ export class ClaudeExecutor extends AbstractExecutor {
           continue; // Skip regular tool_use handling
         }
 
-        // Special handling for ExitPlanMode - switch execution mode to 'execute'
+        // Special handling for ExitPlanMode - hand the plan in for review. The
+        // session stays in plan mode until the user approves it.
         if (toolName === 'ExitPlanMode') {
-          cliLogger.info('Claude', panelId, 'ExitPlanMode tool called - switching to execute mode');
-
-          // Switch the session's execution mode from 'plan' to 'execute'
-          try {
-            this.sessionManager.updateSession(sessionId, { executionMode: 'execute' });
-          } catch (error) {
-            const err = error instanceof Error ? error : new Error(String(error));
-            this.logger?.error(`Failed to switch execution mode for session ${sessionId}:`, err);
-          }
+          cliLogger.info('Claude', panelId, 'ExitPlanMode tool called - plan proposed for review');
+          const plan = typeof input.plan === 'string' ? input.plan : '';
+          this.emit('plan-proposed', { panelId, sessionId, plan });
 
           // Continue to emit the tool_use entry for timeline display
           // (Don't skip regular handling - we want to show it in the timeline)
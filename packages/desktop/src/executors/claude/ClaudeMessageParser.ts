@@ -4,13 +4,16 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
+import { TurnUsageAccumulator } from '../base/TurnUsageAccumulator';
 import type {
   ClaudeMessage,
   ClaudeContentItem,
   ClaudeStreamEvent,
+  ClaudeUsage,
   NormalizedEntry,
   NormalizedEntryType,
   ActionType,
+  TokenUsageSample,
 } from '../types';
 
 interface StreamingState {
@@ -29,6 +32,7 @@ export class ClaudeMessageParser {
     currentText: '',
     currentThinking: '',
   };
+  private turnUsage = new TurnUsageAccumulator();
 
   /**
    * Parse a Claude message into a normalized entry
@@ -290,10 +294,39 @@ export class ClaudeMessageParser {
     };
   }
 
+  /**
+   * Token usage as the turn runs: each assistant message reports its model
+   * call, and the `result` message adds whatever those did not cover plus the
+   * turn's cost.
+   */
+  extractUsage(panelId: string, message: ClaudeMessage): TokenUsageSample | null {
+    if (message.type === 'assistant' && message.message.usage) {
+      return this.turnUsage.addCall(panelId, this.toUsageSample(message.message.usage), message.message.id);
+    }
+    if (message.type !== 'result' || !message.usage) return null;
+    return this.turnUsage.finishTurn(panelId, {
+      ...this.toUsageSample(message.usage),
+      costUsd: typeof message.total_cost_usd === 'number' ? message.total_cost_usd : undefined,
+    });
+  }
+
+  clearUsage(panelId: string): void {
+    this.turnUsage.clear(panelId);
+  }
+
   // ============================================================================
   // Helper Methods
   // ============================================================================
 
+  private toUsageSample(usage: ClaudeUsage): TokenUsageSample {
+    return {
+      inputTokens: usage.input_tokens ?? 0,
+      outputTokens: usage.output_tokens ?? 0,
+      cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+      cacheCreationTokens: usage.cache_creation_input_tokens ?? 0,
+    };
+  }
+
   private extractTextContent(items: ClaudeContentItem[]): string {
     return items
       .filter((item): item is { type: 'text'; text: string } => item.type === 'text')
@@ -232,4 +232,57 @@ describe('ClaudeMessageParser', () => {
       expect(entry).toBeNull(); // message_start returns null
     });
   });
+
+  describe('extractUsage', () => {
+    it('reads token usage and cost from result messages', () => {
+      const usage = parser.extractUsage('panel-1', {
+        type: 'result',
+        subtype: 'success',
+        usage: {
+          input_tokens: 120,
+          output_tokens: 45,
+          cache_read_input_tokens: 900,
+          cache_creation_input_tokens: 30,
+        },
+        total_cost_usd: 0.0123,
+      });
+
+      expect(usage).toEqual({
+        inputTokens: 120,
+        outputTokens: 45,
+        cacheReadTokens: 900,
+        cacheCreationTokens: 30,
+        costUsd: 0.0123,
+      });
+    });
+
+    it('reports each model call mid-turn and only the remainder with the result', () => {
+      const assistant = (id: string, outputTokens: number) => ({
+        type: 'assistant' as const,
+        message: { id, role: 'assistant', content: [], usage: { input_tokens: 100, output_tokens: outputTokens } },
+      });
+
+      expect(parser.extractUsage('panel-1', assistant('msg-1', 20))).toEqual({
+        inputTokens: 100, outputTokens: 20, cacheReadTokens: 0, cacheCreationTokens: 0,
+      });
+      // Further content blocks of the same message repeat its usage.
+      expect(parser.extractUsage('panel-1', assistant('msg-1', 20))).toBeNull();
+      expect(parser.extractUsage('panel-1', assistant('msg-2', 30))).toMatchObject({ inputTokens: 100, outputTokens: 30 });
+      // Another panel's turn is accounted separately.
+      expect(parser.extractUsage('panel-2', assistant('msg-1', 5))).toMatchObject({ outputTokens: 5 });
+
+      const remainder = parser.extractUsage('panel-1', {
+        type: 'result',
+        subtype: 'success',
+        usage: { input_tokens: 200, output_tokens: 60 },
+        total_cost_usd: 0.02,
+      });
+      expect(remainder).toEqual({ inputTokens: 0, outputTokens: 10, cacheReadTokens: 0, cacheCreationTokens: 0, costUsd: 0.02 });
+    });
+
+    it('ignores messages without usage', () => {
+      expect(parser.extractUsage('panel-1', { type: 'result', subtype: 'success' })).toBeNull();
+      expect(parser.extractUsage('panel-1', { type: 'system', subtype: 'init' })).toBeNull();
+    });
+  });
 });
@@ -15,6 +15,10 @@ import type {
   JsonRpcRequest,
   JsonRpcResponse,
   JsonRpcNotification,
+  ExecutorApprovalRequestEvent,
+  ToolApprovalDecision,
+  ToolApprovalDetails,
+  ToolApprovalKind,
 } from '../types';
 import type { Logger } from '../../infrastructure/logging/logger';
 import type { ConfigManager } from '../../infrastructure/config/configManager';
@@ -31,6 +35,39 @@ interface CodexSpawnOptions extends ExecutorSpawnOptions {
   reasoningEffort?: 'low' | 'medium' | 'high' | 'xhigh';
 }
 
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+/**
+ * Pull the command, cwd, reason and file changes out of v1 (execCommandApproval /
+ * applyPatchApproval) and v2 (item/.../requestApproval) approval params.
+ */
+export function describeApprovalParams(params: unknown): ToolApprovalDetails {
+  const p = (params && typeof params === 'object' ? params : {}) as Record<string, unknown>;
+  const details: ToolApprovalDetails = {};
+
+  const command = Array.isArray(p.command) ? p.command.map(String).join(' ') : asString(p.command);
+  if (command) details.command = command;
+  const cwd = asString(p.cwd);
+  if (cwd) details.cwd = cwd;
+  const reason = asString(p.reason);
+  if (reason) details.reason = reason;
+
+  const changes = (p.fileChanges ?? p.changes) as Record<string, unknown> | undefined;
+  if (changes && typeof changes === 'object' && !Array.isArray(changes)) {
+    details.files = Object.entries(changes).map(([path, change]) => {
+      const c = (change && typeof change === 'object' ? change : {}) as Record<string, unknown>;
+      const nested = (key: string) => (c[key] && typeof c[key] === 'object' ? c[key] as Record<string, unknown> : undefined);
+      const diff = asString(c.unified_diff)
+        ?? asString(nested('update')?.unified_diff)
+        ?? asString(c.content)
+        ?? asString(nested('add')?.content);
+      return diff ? { path, diff } : { path };
+    });
+  }
+  return details;
+}
+
 /**
  * Codex CLI Executor using app-server mode with JSON-RPC
  */
@@ -597,6 +634,8 @@ export class CodexExecutor extends AbstractExecutor {
       }
     }
 
+    this.reportUsage(panelId, sessionId, this.messageParser.extractUsage(method, params));
+
     // v2 notifications (Codex app-server).
     const entry = this.messageParser.parseV2Notification(method, params, panelId);
     if (entry) this.handleNormalizedEntry(panelId, sessionId, entry);
@@ -611,15 +650,22 @@ export class CodexExecutor extends AbstractExecutor {
 
     // Handle approval requests
     if (method === 'applyPatchApproval' || method === 'execCommandApproval') {
-      // Auto-approve for now (can be enhanced with approval service)
-      this.sendRpcResponse(panelId, id, { decision: 'approved' });
+      const kind = method === 'execCommandApproval' ? 'command' : 'file_change';
+      this.requestApproval(panelId, sessionId, kind, describeApprovalParams(params), (decision) => {
+        // v1 ReviewDecision
+        const v1 = { approve: 'approved', approve_for_session: 'approved_for_session', deny: 'denied', cancel: 'abort' } as const;
+        this.sendRpcResponse(panelId, id, { decision: v1[decision] });
+      });
       return;
     }
 
     if (method === 'item/commandExecution/requestApproval' || method === 'item/fileChange/requestApproval') {
-      void params;
-      // Auto-accept (v2 approval decision)
-      this.sendRpcResponse(panelId, id, { decision: 'accept' });
+      const kind = method === 'item/commandExecution/requestApproval' ? 'command' : 'file_change';
+      this.requestApproval(panelId, sessionId, kind, describeApprovalParams(params), (decision) => {
+        // v2 approval decision
+        const v2 = { approve: 'accept', approve_for_session: 'acceptForSession', deny: 'decline', cancel: 'cancel' } as const;
+        this.sendRpcResponse(panelId, id, { decision: v2[decision] });
+      });
       return;
     }
 
@@ -628,6 +674,36 @@ export class CodexExecutor extends AbstractExecutor {
     this.logger?.verbose(`Unhandled Codex request: ${method}`);
   }
 
+  /**
+   * Hand an approval request to whoever listens for `approvalRequest` (the approval
+   * service); without a listener the request is approved, as before manual approvals existed.
+   */
+  private requestApproval(
+    panelId: string,
+    sessionId: string,
+    kind: ToolApprovalKind,
+    details: ToolApprovalDetails,
+    send: (decision: ToolApprovalDecision) => void
+  ): void {
+    let answered = false;
+    const respond = (decision: ToolApprovalDecision) => {
+      if (answered) return;
+      answered = true;
+      try {
+        send(decision);
+      } catch (error) {
+        // The process may already be gone.
+        this.logger?.warn(`[Codex] Failed to answer approval request: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    };
+
+    if (this.listenerCount('approvalRequest') === 0) {
+      respond('approve');
+      return;
+    }
+    this.emit('approvalRequest', { panelId, sessionId, kind, details, respond } as ExecutorApprovalRequestEvent);
+  }
+
   private sendRpcMessage(panelId: string, message: JsonRpcRequest | JsonRpcResponse | JsonRpcNotification): void {
     if (!this.processes.has(panelId)) {
       throw new Error(`No Codex process found for panel ${panelId}`);
@@ -5,6 +5,7 @@
 import { v4 as uuidv4 } from 'uuid';
 import type {
   NormalizedEntry,
+  TokenUsageSample,
 } from '../types';
 
 /**
@@ -119,6 +120,26 @@ export class CodexMessageParser {
     }
   }
 
+  /**
+   * Token usage from `thread/tokenUsage/updated`. Uses `last` (the latest model call)
+   * rather than the running thread total so samples can be summed.
+   */
+  extractUsage(method: string, params: unknown): TokenUsageSample | null {
+    if (method !== 'thread/tokenUsage/updated') return null;
+    const tokenUsage = (params as { tokenUsage?: { last?: Record<string, unknown> } } | null)?.tokenUsage;
+    const last = tokenUsage?.last;
+    if (!last || typeof last !== 'object') return null;
+
+    const num = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+    const cached = num(last.cachedInputTokens);
+    return {
+      inputTokens: Math.max(0, num(last.inputTokens) - cached),
+      outputTokens: num(last.outputTokens),
+      cacheReadTokens: cached,
+      cacheCreationTokens: 0,
+    };
+  }
+
   /**
    * Parse Codex app-server v2 streaming agent message deltas.
    */
@@ -26,7 +26,7 @@ const mockLogger = {
 };
 
 // Import after mocks
-const { CodexExecutor } = await import('../CodexExecutor');
+const { CodexExecutor, describeApprovalParams } = await import('../CodexExecutor');
 
 describe('CodexExecutor', () => {
   let executor: InstanceType<typeof CodexExecutor>;
@@ -169,3 +169,27 @@ describe('CodexExecutor', () => {
     });
   });
 });
+
+describe('describeApprovalParams', () => {
+  it('joins v1 command arrays and keeps cwd and reason', () => {
+    expect(describeApprovalParams({ command: ['npm', 'test'], cwd: '/repo', reason: 'run tests' })).toEqual({
+      command: 'npm test',
+      cwd: '/repo',
+      reason: 'run tests',
+    });
+  });
+
+  it('collects per-file diffs from patch approvals', () => {
+    expect(describeApprovalParams({
+      fileChanges: {
+        'a.ts': { update: { unified_diff: '@@ -1 +1 @@\n-a\n+b' } },
+        'b.ts': { add: { content: 'new file' } },
+        'c.ts': { delete: {} },
+      },
+    }).files).toEqual([
+      { path: 'a.ts', diff: '@@ -1 +1 @@\n-a\n+b' },
+      { path: 'b.ts', diff: 'new file' },
+      { path: 'c.ts' },
+    ]);
+  });
+});
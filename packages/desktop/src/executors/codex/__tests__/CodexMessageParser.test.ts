@@ -85,4 +85,18 @@ describe('CodexMessageParser (v2)', () => {
     expect(b?.entryType).toBe('thinking');
     expect(a?.id).not.toBe(b?.id);
   });
+
+  it('extracts per-call token usage with cached input split out', () => {
+    const parser = new CodexMessageParser();
+    const usage = parser.extractUsage('thread/tokenUsage/updated', {
+      threadId: 't1',
+      tokenUsage: {
+        total: { inputTokens: 5000, cachedInputTokens: 3000, outputTokens: 800, totalTokens: 5800 },
+        last: { inputTokens: 1200, cachedInputTokens: 1000, outputTokens: 150, totalTokens: 1350 },
+      },
+    });
+
+    expect(usage).toEqual({ inputTokens: 200, outputTokens: 150, cacheReadTokens: 1000, cacheCreationTokens: 0 });
+    expect(parser.extractUsage('turn/completed', {})).toBeNull();
+  });
 });
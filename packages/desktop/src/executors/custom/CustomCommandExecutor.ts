@@ -0,0 +1,192 @@
+/**
+ * CustomCommandExecutor - Runs a project-defined CLI that emits newline-delimited JSON
+ * The command line and event mapping come from the project's CustomCommandSpec
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { JsonLinesExecutor } from '../base/JsonLinesExecutor';
+import type { DiffToolMapping } from '../base/DiffMetadataExtractor';
+import type {
+  ExecutorTool,
+  ExecutorSpawnOptions,
+  ExecutorAvailability,
+  ExecutorErrorEvent,
+} from '../types';
+import type { Logger } from '../../infrastructure/logging/logger';
+import type { ConfigManager } from '../../infrastructure/config/configManager';
+import type { SessionManager } from '../../features/session/SessionManager';
+import { findExecutableInPath } from '../../infrastructure/command/shellPath';
+import { CustomCommandMessageParser } from './CustomCommandMessageParser';
+import { buildCustomCommandArgs, parseCustomCommandSpec, type CustomCommandSpec } from './CustomCommandSpec';
+
+export class CustomCommandExecutor extends JsonLinesExecutor {
+  private specByPanel = new Map<string, CustomCommandSpec>();
+  private parserByPanel = new Map<string, CustomCommandMessageParser>();
+  // The command differs per project, so spawns run one at a time and the
+  // availability check / executable lookup read the spec being spawned.
+  private spawnChain: Promise<void> = Promise.resolve();
+  private spawning: { spec: CustomCommandSpec; worktreePath: string } | null = null;
+
+  constructor(
+    sessionManager: SessionManager,
+    logger?: Logger,
+    configManager?: ConfigManager
+  ) {
+    super(sessionManager, logger, configManager);
+
+    this.on('exit', (data: { sessionId: string; exitCode: number | null }) => {
+      const session = this.sessionManager.getSession(data.sessionId);
+      if (!session || session.status === 'stopped') return;
+      if (data.exitCode === null) return;
+
+      if (data.exitCode === 0) {
+        this.sessionManager.updateSessionStatus(data.sessionId, 'waiting');
+      } else {
+        this.sessionManager.updateSessionStatus(data.sessionId, 'error', `Custom command exited with code ${data.exitCode}`);
+      }
+    });
+  }
+
+  getToolType(): ExecutorTool {
+    return 'custom';
+  }
+
+  getToolName(): string {
+    return 'Custom Command';
+  }
+
+  protected getSpawnTransport(): 'pty' | 'stdio' {
+    return 'stdio';
+  }
+
+  protected getDiffToolMapping(panelId: string): DiffToolMapping {
+    return this.specByPanel.get(panelId)?.diffTools ?? {};
+  }
+
+  protected getMessageParser(panelId: string): CustomCommandMessageParser | undefined {
+    return this.parserByPanel.get(panelId);
+  }
+
+  getCommandName(): string {
+    return this.spawning?.spec.command ?? 'custom';
+  }
+
+  getCustomExecutablePath(): string | undefined {
+    return undefined;
+  }
+
+  async getExecutablePath(): Promise<string> {
+    const command = this.getCommandName();
+    if (this.spawning && (command.startsWith('./') || command.startsWith('../'))) {
+      return path.resolve(this.spawning.worktreePath, command);
+    }
+    return command;
+  }
+
+  // Never cached: each project can point at a different command.
+  async getCachedAvailability(): Promise<ExecutorAvailability> {
+    return this.testAvailability();
+  }
+
+  async testAvailability(): Promise<ExecutorAvailability> {
+    if (!this.spawning) {
+      // Configured per repository; checked when a run starts.
+      return { available: true };
+    }
+
+    const command = this.spawning.spec.command;
+    const resolved = command.includes('/') || command.includes('\\')
+      ? await this.getExecutablePath()
+      : findExecutableInPath(command);
+
+    if (!resolved || !fs.existsSync(resolved)) {
+      return { available: false, error: `Command not found: ${command}` };
+    }
+    return { available: true, path: resolved };
+  }
+
+  /**
+   * Load the project's spec for this run, then spawn through the base executor.
+   */
+  async spawn(options: ExecutorSpawnOptions): Promise<void> {
+    const run = this.spawnChain.then(async () => {
+      const { panelId, sessionId, worktreePath, prompt } = options;
+      let spec: CustomCommandSpec;
+      try {
+        spec = this.loadProjectSpec(sessionId);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.emit('error', { panelId, sessionId, error: message } as ExecutorErrorEvent);
+        throw error;
+      }
+
+      this.specByPanel.set(panelId, spec);
+      this.parserByPanel.set(panelId, new CustomCommandMessageParser(spec));
+      this.jsonFragmentByPanel.delete(panelId);
+      this.agentSessionEmitted.delete(panelId);
+
+      this.spawning = { spec, worktreePath };
+      try {
+        await super.spawn(options);
+      } finally {
+        this.spawning = null;
+      }
+
+      if (spec.promptInput === 'stdin') {
+        const proc = this.processes.get(panelId);
+        proc?.stdin?.write(prompt);
+        proc?.stdin?.end();
+      }
+    });
+
+    this.spawnChain = run.catch(() => undefined);
+    return run;
+  }
+
+  private loadProjectSpec(sessionId: string): CustomCommandSpec {
+    const project = this.sessionManager.getProjectForSession(sessionId);
+    const raw = project?.custom_executor_spec;
+    if (!raw || !raw.trim()) {
+      throw new Error('No custom command is configured for this repository. Add one in Settings → Custom Command.');
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new Error('Invalid custom command spec: not valid JSON');
+    }
+    return parseCustomCommandSpec(parsed);
+  }
+
+  buildCommandArgs(options: ExecutorSpawnOptions): string[] {
+    const spec = this.specByPanel.get(options.panelId);
+    if (!spec) {
+      throw new Error(`No custom command spec loaded for panel ${options.panelId}`);
+    }
+    return buildCustomCommandArgs(spec, options);
+  }
+
+  async initializeEnvironment(options: ExecutorSpawnOptions): Promise<Record<string, string>> {
+    return {
+      PWD: options.worktreePath,
+      NO_COLOR: '1',
+      FORCE_COLOR: '0',
+      ...(this.specByPanel.get(options.panelId)?.env ?? {}),
+    };
+  }
+
+  async cleanupResources(sessionId: string): Promise<void> {
+    for (const [panelId, proc] of this.processes) {
+      if (proc.sessionId === sessionId) {
+        this.jsonFragmentByPanel.delete(panelId);
+        this.parserByPanel.delete(panelId);
+      }
+    }
+    this.logger?.verbose(`Cleaned up custom command resources for session ${sessionId}`);
+  }
+}
+
+export default CustomCommandExecutor;
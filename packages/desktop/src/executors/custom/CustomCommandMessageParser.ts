@@ -0,0 +1,156 @@
+/**
+ * CustomCommandMessageParser - Turn JSONL events into normalized entries using a spec's event rules
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { ActionType, NormalizedEntry } from '../types';
+import type { ExecutorMessageParser } from '../registry/types';
+import { getValueAtPath, type CustomCommandSpec, type CustomEventRule } from './CustomCommandSpec';
+
+export class CustomCommandMessageParser implements ExecutorMessageParser {
+  constructor(private spec: CustomCommandSpec) {}
+
+  getAgentSessionId(message: Record<string, unknown>): string | undefined {
+    const value = getValueAtPath(message, this.spec.sessionIdPath);
+    return typeof value === 'string' && value ? value : undefined;
+  }
+
+  parseMessage(message: Record<string, unknown>): NormalizedEntry[] {
+    const entries: NormalizedEntry[] = [];
+    for (const rule of this.spec.events) {
+      if (!this.matches(rule, message)) continue;
+      const entry = this.toEntry(rule, message);
+      if (entry) entries.push(entry);
+    }
+    return entries;
+  }
+
+  private matches(rule: CustomEventRule, message: Record<string, unknown>): boolean {
+    return Object.entries(rule.match ?? {}).every(([path, expected]) => getValueAtPath(message, path) === expected);
+  }
+
+  private toEntry(rule: CustomEventRule, message: Record<string, unknown>): NormalizedEntry | null {
+    const timestamp = new Date().toISOString();
+    const text = this.toText(getValueAtPath(message, rule.text));
+    const toolUseId = this.toText(getValueAtPath(message, rule.toolUseId)) || undefined;
+
+    switch (rule.kind) {
+      case 'assistant':
+      case 'thinking':
+        if (!text.trim()) return null;
+        return {
+          id: uuidv4(),
+          timestamp,
+          entryType: rule.kind === 'assistant' ? 'assistant_message' : 'thinking',
+          content: text,
+        };
+
+      case 'tool_use': {
+        const toolName = this.toText(getValueAtPath(message, rule.toolName)) || 'tool';
+        const input = this.toInput(getValueAtPath(message, rule.input));
+        const actionType = this.inferActionType(toolName, input);
+        return {
+          id: toolUseId || uuidv4(),
+          timestamp,
+          entryType: 'tool_use',
+          content: this.formatToolInput(toolName, input, actionType),
+          toolName,
+          toolUseId,
+          toolStatus: 'pending',
+          actionType,
+          metadata: {
+            input,
+            // Read by the `command` / `fileChanges` diff extractors
+            command: typeof input.command === 'string' ? input.command : undefined,
+            changes: Array.isArray(input.changes) ? input.changes : undefined,
+          },
+        };
+      }
+
+      case 'tool_result': {
+        const isError = Boolean(getValueAtPath(message, rule.isError));
+        return {
+          id: uuidv4(),
+          timestamp,
+          entryType: 'tool_result',
+          content: text,
+          toolUseId,
+          toolStatus: isError ? 'failed' : 'success',
+          metadata: { is_error: isError },
+        };
+      }
+
+      case 'question': {
+        const id = toolUseId || uuidv4();
+        const questions = getValueAtPath(message, rule.questions) ?? this.buildQuestions(text, getValueAtPath(message, rule.options));
+        if (!questions) return null;
+        return {
+          id,
+          timestamp,
+          entryType: 'user_question',
+          content: '',
+          metadata: { tool_use_id: id, questions },
+        };
+      }
+    }
+  }
+
+  /** Wrap a plain question + choices in the AskUserQuestion shape the timeline renders */
+  private buildQuestions(text: string, options: unknown) {
+    if (!text.trim()) return null;
+    const choices = Array.isArray(options)
+      ? options.map((option) => (typeof option === 'string' ? { label: option, description: '' } : option))
+      : [];
+    return [{ question: text, header: 'Question', options: choices, multiSelect: false }];
+  }
+
+  private toText(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    return JSON.stringify(value);
+  }
+
+  private toInput(value: unknown): Record<string, unknown> {
+    if (typeof value === 'string') {
+      try {
+        const parsed = JSON.parse(value);
+        return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : { value };
+      } catch {
+        return { value };
+      }
+    }
+    return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+  }
+
+  private inferActionType(toolName: string, input: Record<string, unknown>): ActionType {
+    const path = String(input.file_path || input.path || input.file || '');
+
+    switch (this.spec.diffTools?.[toolName]) {
+      case 'edit':
+      case 'replace':
+      case 'fileChanges':
+        return { type: 'file_edit', path };
+      case 'write':
+        return { type: 'file_write', path };
+      case 'shell':
+      case 'command':
+        return { type: 'command_run', command: String(input.command || input.cmd || '') };
+    }
+
+    if (typeof input.command === 'string') {
+      return { type: 'command_run', command: input.command };
+    }
+    return { type: 'other', description: toolName };
+  }
+
+  private formatToolInput(toolName: string, input: Record<string, unknown>, action: ActionType): string {
+    if (action.type === 'command_run' && action.command) return action.command;
+    if ((action.type === 'file_edit' || action.type === 'file_write') && action.path) return `${toolName}: ${action.path}`;
+
+    const keys = Object.keys(input).slice(0, 3);
+    if (keys.length === 0) return toolName;
+    const summary = keys.map((key) => `${key}=${this.toText(input[key]).slice(0, 60)}`).join(', ');
+    return `${toolName}: ${summary}`;
+  }
+}
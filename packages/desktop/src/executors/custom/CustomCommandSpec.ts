@@ -0,0 +1,176 @@
+/**
+ * CustomCommandSpec - Declarative description of a JSONL-emitting agent CLI
+ *
+ * Stored per project (projects.custom_executor_spec) and interpreted by the
+ * CustomCommandExecutor, so internal agents work without a dedicated parser class.
+ *
+ * Example:
+ * {
+ *   "command": "my-agent",
+ *   "args": ["run", "--json", "--prompt", "{{prompt}}"],
+ *   "resumeArgs": ["--resume", "{{resumeId}}"],
+ *   "sessionIdPath": "session.id",
+ *   "events": [
+ *     { "match": { "type": "text" }, "kind": "assistant", "text": "content" },
+ *     { "match": { "type": "tool" }, "kind": "tool_use", "toolName": "name", "toolUseId": "id", "input": "args" },
+ *     { "match": { "type": "tool_done" }, "kind": "tool_result", "toolUseId": "id", "text": "output", "isError": "failed" }
+ *   ],
+ *   "diffTools": { "edit_file": "edit", "shell": "shell" }
+ * }
+ */
+
+import type { DiffExtractionKind, DiffToolMapping } from '../base/DiffMetadataExtractor';
+import type { ExecutorSpawnOptions } from '../types';
+
+export type CustomEventKind = 'assistant' | 'thinking' | 'tool_use' | 'tool_result' | 'question';
+
+export const CUSTOM_EVENT_KINDS: CustomEventKind[] = ['assistant', 'thinking', 'tool_use', 'tool_result', 'question'];
+
+const DIFF_EXTRACTION_KINDS: DiffExtractionKind[] = ['edit', 'write', 'replace', 'shell', 'fileChanges', 'command'];
+
+/**
+ * Maps one kind of JSON event to a normalized entry.
+ * All `*` path fields are dot paths into the event (array indexes allowed, e.g. "content.0.text").
+ */
+export interface CustomEventRule {
+  /** Field path → expected value; every pair must match. Omit to match every event. */
+  match?: Record<string, string | number | boolean>;
+  kind: CustomEventKind;
+  /** Text content (assistant/thinking text, tool output, question text) */
+  text?: string;
+  /** tool_use: tool name, looked up in `diffTools` */
+  toolName?: string;
+  /** tool_use/tool_result/question: id linking a call to its result or answer */
+  toolUseId?: string;
+  /** tool_use: arguments object (a JSON string is parsed) */
+  input?: string;
+  /** tool_result: truthy when the tool failed */
+  isError?: string;
+  /** question: list of answer choices (strings or { label, description }) */
+  options?: string;
+  /** question: full AskUserQuestion-style `questions` array, used instead of text/options */
+  questions?: string;
+}
+
+export interface CustomCommandSpec {
+  /** Executable, looked up in PATH; `./` and `../` paths are relative to the worktree */
+  command: string;
+  /** Arguments; supports {{prompt}}, {{resumeId}}, {{model}}, {{worktreePath}} */
+  args?: string[];
+  /** 'arg' appends the prompt unless {{prompt}} is used in `args`; 'stdin' writes it to stdin */
+  promptInput?: 'arg' | 'stdin';
+  /** Appended when resuming a conversation with a known agent session id */
+  resumeArgs?: string[];
+  /** Event field holding the agent's session id, used for `resumeArgs` on follow-ups */
+  sessionIdPath?: string;
+  env?: Record<string, string>;
+  events: CustomEventRule[];
+  /** Tool names (from `toolName`) that edit files or run commands → diff extraction */
+  diffTools?: DiffToolMapping;
+}
+
+const RULE_PATH_FIELDS = ['text', 'toolName', 'toolUseId', 'input', 'isError', 'options', 'questions'] as const;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function fail(message: string): never {
+  throw new Error(`Invalid custom command spec: ${message}`);
+}
+
+/**
+ * Validate an already JSON-parsed spec. Throws with a message pointing at the offending field.
+ */
+export function parseCustomCommandSpec(value: unknown): CustomCommandSpec {
+  if (!isRecord(value)) fail('expected a JSON object');
+
+  if (typeof value.command !== 'string' || !value.command.trim()) fail('"command" is required');
+  if (value.args !== undefined && !isStringArray(value.args)) fail('"args" must be an array of strings');
+  if (value.resumeArgs !== undefined && !isStringArray(value.resumeArgs)) fail('"resumeArgs" must be an array of strings');
+  if (value.promptInput !== undefined && value.promptInput !== 'arg' && value.promptInput !== 'stdin') {
+    fail('"promptInput" must be "arg" or "stdin"');
+  }
+  if (value.sessionIdPath !== undefined && typeof value.sessionIdPath !== 'string') fail('"sessionIdPath" must be a string');
+  if (value.env !== undefined && (!isRecord(value.env) || !Object.values(value.env).every((v) => typeof v === 'string'))) {
+    fail('"env" must map names to strings');
+  }
+
+  if (!Array.isArray(value.events) || value.events.length === 0) fail('"events" must be a non-empty array');
+  value.events.forEach((rule, index) => {
+    if (!isRecord(rule)) fail(`events[${index}] must be an object`);
+    if (!CUSTOM_EVENT_KINDS.includes(rule.kind as CustomEventKind)) {
+      fail(`events[${index}].kind must be one of ${CUSTOM_EVENT_KINDS.join(', ')}`);
+    }
+    if (rule.match !== undefined) {
+      const matchValues = isRecord(rule.match) ? Object.values(rule.match) : null;
+      if (!matchValues || !matchValues.every((v) => ['string', 'number', 'boolean'].includes(typeof v))) {
+        fail(`events[${index}].match must map paths to strings, numbers or booleans`);
+      }
+    }
+    for (const field of RULE_PATH_FIELDS) {
+      if (rule[field] !== undefined && typeof rule[field] !== 'string') fail(`events[${index}].${field} must be a path string`);
+    }
+  });
+
+  if (value.diffTools !== undefined) {
+    if (!isRecord(value.diffTools)) fail('"diffTools" must map tool names to diff kinds');
+    for (const [tool, kind] of Object.entries(value.diffTools)) {
+      if (!DIFF_EXTRACTION_KINDS.includes(kind as DiffExtractionKind)) {
+        fail(`diffTools.${tool} must be one of ${DIFF_EXTRACTION_KINDS.join(', ')}`);
+      }
+    }
+  }
+
+  return value as unknown as CustomCommandSpec;
+}
+
+/** Read a dot path ("a.b.0.c") from a parsed JSON value. */
+export function getValueAtPath(source: unknown, path: string | undefined): unknown {
+  if (!path) return undefined;
+  let current: unknown = source;
+  for (const key of path.split('.')) {
+    if (current === null || current === undefined) return undefined;
+    if (Array.isArray(current)) {
+      current = current[Number(key)];
+    } else if (typeof current === 'object') {
+      current = (current as Record<string, unknown>)[key];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+const PROMPT_PLACEHOLDER = /\{\{\s*prompt\s*\}\}/;
+
+/**
+ * Build the argument list for a run from the spec's templates.
+ */
+export function buildCustomCommandArgs(spec: CustomCommandSpec, options: ExecutorSpawnOptions): string[] {
+  const variables: Record<string, string> = {
+    prompt: options.prompt,
+    resumeId: options.agentSessionId || '',
+    model: options.model || '',
+    worktreePath: options.worktreePath,
+  };
+  const render = (arg: string) => arg.replace(PLACEHOLDER, (match, name: string) => variables[name] ?? match);
+
+  const templates = spec.args ?? [];
+  const args = templates.map(render);
+
+  if (options.isResume && options.agentSessionId && spec.resumeArgs) {
+    args.push(...spec.resumeArgs.map(render));
+  }
+
+  if (spec.promptInput !== 'stdin' && !templates.some((arg) => PROMPT_PLACEHOLDER.test(arg))) {
+    args.push(options.prompt);
+  }
+
+  return args;
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { CustomCommandMessageParser } from '../CustomCommandMessageParser';
+import { buildCustomCommandArgs, parseCustomCommandSpec, type CustomCommandSpec } from '../CustomCommandSpec';
+
+const spec: CustomCommandSpec = parseCustomCommandSpec({
+  command: 'my-agent',
+  args: ['run', '--json'],
+  resumeArgs: ['--resume', '{{resumeId}}'],
+  sessionIdPath: 'session.id',
+  events: [
+    { match: { type: 'text' }, kind: 'assistant', text: 'content' },
+    { match: { type: 'reasoning' }, kind: 'thinking', text: 'content' },
+    { match: { type: 'tool' }, kind: 'tool_use', toolName: 'name', toolUseId: 'id', input: 'args' },
+    { match: { type: 'tool_done' }, kind: 'tool_result', toolUseId: 'id', text: 'output', isError: 'failed' },
+    { match: { type: 'ask' }, kind: 'question', toolUseId: 'id', text: 'question', options: 'choices' },
+  ],
+  diffTools: { edit_file: 'edit', shell: 'shell' },
+});
+
+const spawnOptions = { panelId: 'p', sessionId: 's', worktreePath: '/w', prompt: 'fix it' };
+
+describe('parseCustomCommandSpec', () => {
+  it('rejects specs with missing or malformed fields', () => {
+    expect(() => parseCustomCommandSpec([])).toThrow(/expected a JSON object/);
+    expect(() => parseCustomCommandSpec({ events: [{ kind: 'assistant' }] })).toThrow(/"command" is required/);
+    expect(() => parseCustomCommandSpec({ command: 'a', events: [] })).toThrow(/"events" must be a non-empty array/);
+    expect(() => parseCustomCommandSpec({ command: 'a', events: [{ kind: 'log' }] })).toThrow(/events\[0\]\.kind/);
+    expect(() => parseCustomCommandSpec({ command: 'a', events: [{ kind: 'assistant', text: 1 }] })).toThrow(/events\[0\]\.text/);
+    expect(() => parseCustomCommandSpec({ command: 'a', events: [{ kind: 'assistant' }], diffTools: { x: 'patch' } }))
+      .toThrow(/diffTools\.x/);
+  });
+});
+
+describe('buildCustomCommandArgs', () => {
+  it('appends the prompt unless it is templated or piped via stdin', () => {
+    expect(buildCustomCommandArgs(spec, spawnOptions)).toEqual(['run', '--json', 'fix it']);
+    expect(buildCustomCommandArgs({ ...spec, args: ['-p', '{{prompt}}', '--cwd', '{{worktreePath}}'] }, spawnOptions))
+      .toEqual(['-p', 'fix it', '--cwd', '/w']);
+    expect(buildCustomCommandArgs({ ...spec, promptInput: 'stdin' }, spawnOptions)).toEqual(['run', '--json']);
+  });
+
+  it('adds resume args only when resuming a known agent session', () => {
+    expect(buildCustomCommandArgs(spec, { ...spawnOptions, isResume: true })).toEqual(['run', '--json', 'fix it']);
+    expect(buildCustomCommandArgs(spec, { ...spawnOptions, isResume: true, agentSessionId: 'abc' }))
+      .toEqual(['run', '--json', '--resume', 'abc', 'fix it']);
+  });
+});
+
+describe('CustomCommandMessageParser', () => {
+  const parser = new CustomCommandMessageParser(spec);
+
+  it('reads the agent session id from the configured path', () => {
+    expect(parser.getAgentSessionId({ type: 'init', session: { id: 'abc' } })).toBe('abc');
+    expect(parser.getAgentSessionId({ type: 'text' })).toBeUndefined();
+  });
+
+  it('maps assistant and thinking events, skipping empty text', () => {
+    expect(parser.parseMessage({ type: 'text', content: 'Done.' })).toMatchObject([
+      { entryType: 'assistant_message', content: 'Done.' },
+    ]);
+    expect(parser.parseMessage({ type: 'reasoning', content: 'Look at the tests' })).toMatchObject([
+      { entryType: 'thinking', content: 'Look at the tests' },
+    ]);
+    expect(parser.parseMessage({ type: 'text', content: '  ' })).toEqual([]);
+    expect(parser.parseMessage({ type: 'unknown' })).toEqual([]);
+  });
+
+  it('maps tool calls through diffTools and links results by id', () => {
+    const [edit] = parser.parseMessage({ type: 'tool', name: 'edit_file', id: 't1', args: '{"file_path":"src/a.ts"}' });
+    expect(edit).toMatchObject({
+      id: 't1',
+      entryType: 'tool_use',
+      toolName: 'edit_file',
+      toolUseId: 't1',
+      toolStatus: 'pending',
+      actionType: { type: 'file_edit', path: 'src/a.ts' },
+      metadata: { input: { file_path: 'src/a.ts' } },
+    });
+
+    const [shell] = parser.parseMessage({ type: 'tool', name: 'shell', id: 't2', args: { command: 'pnpm test' } });
+    expect(shell).toMatchObject({
+      content: 'pnpm test',
+      actionType: { type: 'command_run', command: 'pnpm test' },
+      metadata: { command: 'pnpm test' },
+    });
+
+    expect(parser.parseMessage({ type: 'tool_done', id: 't2', output: 'exit 1', failed: true })).toMatchObject([
+      { entryType: 'tool_result', toolUseId: 't2', content: 'exit 1', toolStatus: 'failed' },
+    ]);
+    expect(parser.parseMessage({ type: 'tool_done', id: 't1', output: 'ok' })).toMatchObject([
+      { toolStatus: 'success' },
+    ]);
+  });
+
+  it('wraps questions in the AskUserQuestion shape', () => {
+    expect(parser.parseMessage({ type: 'ask', id: 'q1', question: 'Which DB?', choices: ['sqlite', 'postgres'] })).toMatchObject([{
+      id: 'q1',
+      entryType: 'user_question',
+      metadata: {
+        tool_use_id: 'q1',
+        questions: [{
+          question: 'Which DB?',
+          header: 'Question',
+          options: [{ label: 'sqlite', description: '' }, { label: 'postgres', description: '' }],
+          multiSelect: false,
+        }],
+      },
+    }]);
+  });
+});
@@ -0,0 +1,9 @@
+export { CustomCommandExecutor } from './CustomCommandExecutor';
+export { CustomCommandMessageParser } from './CustomCommandMessageParser';
+export {
+  CUSTOM_EVENT_KINDS,
+  buildCustomCommandArgs,
+  getValueAtPath,
+  parseCustomCommandSpec,
+} from './CustomCommandSpec';
+export type { CustomCommandSpec, CustomEventKind, CustomEventRule } from './CustomCommandSpec';
@@ -168,6 +168,7 @@ export class GeminiExecutor extends AbstractExecutor {
       if (proc.sessionId === sessionId) {
         this.jsonFragmentByPanel.delete(panelId);
         this.messageParser.clearPanel(panelId);
+        this.messageParser.clearUsage(panelId);
       }
     }
     this.logger?.verbose(`Cleaned up Gemini resources for session ${sessionId}`);
@@ -220,6 +221,8 @@ export class GeminiExecutor extends AbstractExecutor {
           this.sessionManager.updateSessionStatus(sessionId, 'waiting');
         }
       }
+
+      this.reportUsage(panelId, sessionId, this.messageParser.extractUsage(panelId, message));
     } catch (parseError) {
       if (trimmed.startsWith('{')) {
         const existing = this.jsonFragmentByPanel.get(panelId);
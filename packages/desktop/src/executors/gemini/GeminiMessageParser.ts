@@ -3,9 +3,11 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
+import { TurnUsageAccumulator } from '../base/TurnUsageAccumulator';
 import type {
   NormalizedEntry,
   ActionType,
+  TokenUsageSample,
 } from '../types';
 
 type GeminiInitEvent = {
@@ -21,6 +23,8 @@ type GeminiMessageEvent = {
   role: 'user' | 'assistant';
   content: string;
   delta?: boolean;
+  /** Usage of the model call that produced the message, when reported. */
+  stats?: Record<string, unknown>;
 };
 
 type GeminiToolUseEvent = {
@@ -77,6 +81,7 @@ type AssistantState = {
 
 export class GeminiMessageParser {
   private assistantByPanel = new Map<string, AssistantState>();
+  private turnUsage = new TurnUsageAccumulator();
 
   parseEvent(event: GeminiStreamEvent, panelId?: string): NormalizedEntry | null {
     const timestamp = event.timestamp || new Date().toISOString();
@@ -165,6 +170,42 @@ export class GeminiMessageParser {
     this.assistantByPanel.delete(panelId);
   }
 
+  /**
+   * Token usage as the turn runs: assistant messages that carry stats report
+   * their model call, and the `result` event adds whatever those did not cover.
+   */
+  extractUsage(panelId: string, event: GeminiStreamEvent): TokenUsageSample | null {
+    if (event.type === 'message' && event.role === 'assistant' && event.stats) {
+      const usage = this.toUsageSample(event.stats);
+      return usage ? this.turnUsage.addCall(panelId, usage) : null;
+    }
+    if (event.type !== 'result' || !event.stats) return null;
+    const total = this.toUsageSample(event.stats);
+    if (!total) {
+      this.turnUsage.clear(panelId);
+      return null;
+    }
+    return this.turnUsage.finishTurn(panelId, total);
+  }
+
+  clearUsage(panelId: string): void {
+    this.turnUsage.clear(panelId);
+  }
+
+  private toUsageSample(stats: Record<string, unknown>): TokenUsageSample | null {
+    const num = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+    const cached = num(stats.cached);
+    const input = num(stats.input_tokens ?? stats.input);
+    const output = num(stats.output_tokens);
+    if (input === 0 && output === 0 && cached === 0) return null;
+    return {
+      inputTokens: Math.max(0, input - cached),
+      outputTokens: output,
+      cacheReadTokens: cached,
+      cacheCreationTokens: 0,
+    };
+  }
+
   private parseMessage(
     event: GeminiMessageEvent,
     timestamp: string,
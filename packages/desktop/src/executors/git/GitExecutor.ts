@@ -21,6 +21,7 @@ export type GitRunOptions = {
   throwOnError?: boolean;
   meta?: Record<string, unknown>;
   encoding?: BufferEncoding;
+  env?: Record<string, string>;
 };
 
 export type GitRunResult = {
@@ -86,6 +87,7 @@ export class GitExecutor {
       PATH: getShellPath(),
       NO_COLOR: '1',
       FORCE_COLOR: '0',
+      ...(options.env || {}),
     } as Record<string, string>;
 
     const cmd = argv[0];
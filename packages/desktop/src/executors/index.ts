@@ -18,6 +18,10 @@
  * - kimi/           - Kimi CLI executor
  *   - GeminiExecutor.ts - Main executor (stream-json)
  *   - GeminiMessageParser.ts - Event parser
+ * - registry/       - Executor plugin descriptors and registry
+ *   - ExecutorRegistry.ts - Registered executors, shared instances
+ *   - PluginExecutor.ts - Generic stdio/JSONL executor for plugins
+ * - plugins/        - Additional CLI agents registered at startup
  */
 
 // Types
@@ -41,32 +45,37 @@ export { KimiExecutor, KimiMessageParser } from './kimi';
 // Git executor (Snowtree-run git operations)
 export { GitExecutor } from './git';
 
+// Executor registry (built-ins + plugins)
+export {
+  ExecutorRegistry,
+  executorRegistry,
+  registerExecutorPlugins,
+  PluginExecutor,
+} from './registry';
+export type {
+  ExecutorMessageParser,
+  ExecutorPluginDescriptor,
+  ExecutorPluginInfo,
+  ExecutorSettingField,
+  ExecutorSettingsSchema,
+} from './registry';
+
 // Factory function
-import { ClaudeExecutor } from './claude';
-import { CodexExecutor } from './codex';
-import { GeminiExecutor } from './gemini';
-import { KimiExecutor } from './kimi';
+import { executorRegistry, registerExecutorPlugins } from './registry';
 import type { ExecutorTool } from './types';
 import type { Logger } from '../infrastructure/logging/logger';
 import type { ConfigManager } from '../infrastructure/config/configManager';
 import type { SessionManager } from '../features/session/SessionManager';
 
+/**
+ * The shared executor for `tool` (see ExecutorRegistry.getExecutor).
+ */
 export function createExecutor(
   tool: ExecutorTool,
   sessionManager: SessionManager,
   logger?: Logger,
   configManager?: ConfigManager
 ) {
-  switch (tool) {
-    case 'claude':
-      return new ClaudeExecutor(sessionManager, logger, configManager);
-    case 'codex':
-      return new CodexExecutor(sessionManager, logger, configManager);
-    case 'gemini':
-      return new GeminiExecutor(sessionManager, logger, configManager);
-    case 'kimi':
-      return new KimiExecutor(sessionManager, logger, configManager);
-    default:
-      throw new Error(`Unknown executor tool: ${tool}`);
-  }
+  registerExecutorPlugins();
+  return executorRegistry.getExecutor(tool, { sessionManager, logger, configManager });
 }
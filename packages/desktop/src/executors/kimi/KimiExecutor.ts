@@ -200,6 +200,7 @@ export class KimiExecutor extends AbstractExecutor {
       for (const entry of entries) {
         this.handleNormalizedEntry(panelId, sessionId, entry);
       }
+      this.reportUsage(panelId, sessionId, this.messageParser.extractUsage(message));
     } catch (parseError) {
       if (trimmed.startsWith('{')) {
         const existing = this.jsonFragmentByPanel.get(panelId);
@@ -3,7 +3,7 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import type { NormalizedEntry, ActionType } from '../types';
+import type { NormalizedEntry, ActionType, TokenUsageSample } from '../types';
 
 type KimiToolCall = {
   id?: string;
@@ -21,6 +21,7 @@ type KimiMessage = {
   content?: unknown;
   tool_calls?: KimiToolCall[];
   tool_call_id?: string;
+  usage?: Record<string, unknown>;
 };
 
 export class KimiMessageParser {
@@ -116,6 +117,28 @@ export class KimiMessageParser {
     return entries;
   }
 
+  /**
+   * Token usage attached to an assistant message, when the CLI reports it.
+   * Accepts both OpenAI-style (`prompt_tokens`) and Anthropic-style (`input_tokens`) fields.
+   */
+  extractUsage(message: KimiMessage): TokenUsageSample | null {
+    const usage = message.usage;
+    if (!usage || typeof usage !== 'object') return null;
+    const num = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+    const details = usage.prompt_tokens_details as { cached_tokens?: unknown } | undefined;
+    const cached = num(usage.cache_read_input_tokens ?? details?.cached_tokens);
+    const input = num(usage.input_tokens ?? usage.prompt_tokens);
+    const output = num(usage.output_tokens ?? usage.completion_tokens);
+    if (input === 0 && output === 0) return null;
+    return {
+      // OpenAI-style prompt_tokens include cached tokens; Anthropic-style input_tokens do not.
+      inputTokens: usage.input_tokens !== undefined ? input : Math.max(0, input - cached),
+      outputTokens: output,
+      cacheReadTokens: cached,
+      cacheCreationTokens: num(usage.cache_creation_input_tokens),
+    };
+  }
+
   private extractText(content: unknown): string {
     if (typeof content === 'string') return content;
     if (!content) return '';
@@ -0,0 +1,18 @@
+/**
+ * Custom command executor: runs whatever JSONL-emitting CLI a project configures
+ * (Settings → Custom Command) without a dedicated parser class.
+ */
+
+import type { ExecutorPluginDescriptor } from '../registry/types';
+import { CustomCommandExecutor } from '../custom';
+
+export const customCommandPlugin: ExecutorPluginDescriptor = {
+  id: 'custom',
+  displayName: 'Custom Command',
+  // Resolved per project from its spec
+  command: '',
+  // Only useful once a repository has a spec
+  enabledByDefault: false,
+  createExecutor: ({ sessionManager, logger, configManager }) =>
+    new CustomCommandExecutor(sessionManager, logger, configManager),
+};
@@ -0,0 +1,15 @@
+/**
+ * Executor plugins
+ *
+ * To add a CLI agent, create a module in this directory exporting an
+ * ExecutorPluginDescriptor (command, arg builder, JSONL message parser,
+ * diff tool mapping, settings) and list it below. The desktop registers it at
+ * startup and the renderer picks it up for the provider list and settings.
+ */
+
+import type { ExecutorPluginDescriptor } from '../registry/types';
+import { customCommandPlugin } from './customCommand';
+
+export const EXECUTOR_PLUGINS: ExecutorPluginDescriptor[] = [
+  customCommandPlugin,
+];
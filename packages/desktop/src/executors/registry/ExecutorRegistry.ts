@@ -0,0 +1,125 @@
+/**
+ * ExecutorRegistry - Single source of truth for which CLI agents exist
+ *
+ * Descriptors are registered once at startup (built-ins first, then plugins).
+ * Executors are instantiated lazily and kept per id so every caller shares one instance.
+ */
+
+import type { AbstractExecutor } from '../base/AbstractExecutor';
+import type { DiffToolMapping } from '../base/DiffMetadataExtractor';
+import { PluginExecutor } from './PluginExecutor';
+import type {
+  ExecutorPluginDependencies,
+  ExecutorPluginDescriptor,
+  ExecutorPluginInfo,
+} from './types';
+
+// Ids that already mean something else as panel types or tool types.
+const RESERVED_IDS = new Set(['terminal', 'diff', 'editor', 'logs', 'dashboard', 'setup-tasks', 'none']);
+const ID_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+export class ExecutorRegistry {
+  private descriptors = new Map<string, ExecutorPluginDescriptor>();
+  private executors = new Map<string, AbstractExecutor>();
+
+  register(descriptor: ExecutorPluginDescriptor): void {
+    const { id } = descriptor;
+    if (!ID_PATTERN.test(id)) {
+      throw new Error(`Invalid executor id "${id}": use lowercase letters, digits and dashes`);
+    }
+    if (RESERVED_IDS.has(id)) {
+      throw new Error(`Executor id "${id}" is reserved`);
+    }
+    if (this.descriptors.has(id)) {
+      throw new Error(`Executor "${id}" is already registered`);
+    }
+    if (!descriptor.createExecutor && (!descriptor.buildArgs || !descriptor.createMessageParser)) {
+      throw new Error(`Executor "${id}" needs either createExecutor or buildArgs + createMessageParser`);
+    }
+    this.descriptors.set(id, descriptor);
+  }
+
+  unregister(id: string): void {
+    this.descriptors.delete(id);
+    this.executors.delete(id);
+  }
+
+  has(id: string): boolean {
+    return this.descriptors.has(id);
+  }
+
+  get(id: string): ExecutorPluginDescriptor | undefined {
+    return this.descriptors.get(id);
+  }
+
+  list(): ExecutorPluginDescriptor[] {
+    return Array.from(this.descriptors.values());
+  }
+
+  /** Ids of registered non-built-in plugins */
+  listPluginIds(): string[] {
+    return this.list().filter((d) => !d.builtIn).map((d) => d.id);
+  }
+
+  listInfo(): ExecutorPluginInfo[] {
+    return this.list().map((d) => ({
+      id: d.id,
+      displayName: d.displayName,
+      command: d.command,
+      builtIn: Boolean(d.builtIn),
+      enabledByDefault: d.enabledByDefault ?? true,
+      settings: d.settings ?? {},
+    }));
+  }
+
+  getDiffToolMapping(id: string): DiffToolMapping {
+    return this.descriptors.get(id)?.diffTools ?? {};
+  }
+
+  /**
+   * Return the shared executor for `id`, creating it on first use.
+   */
+  getExecutor(id: string, deps: ExecutorPluginDependencies): AbstractExecutor {
+    const existing = this.executors.get(id);
+    if (existing) return existing;
+
+    const descriptor = this.descriptors.get(id);
+    if (!descriptor) {
+      throw new Error(`Unknown executor tool: ${id}`);
+    }
+
+    const executor = descriptor.createExecutor
+      ? descriptor.createExecutor(deps)
+      : new PluginExecutor(descriptor, deps);
+    this.executors.set(id, executor);
+    return executor;
+  }
+
+  /**
+   * Shared executor for `id` if it has been created.
+   */
+  findExecutor(id: string): AbstractExecutor | undefined {
+    return this.executors.get(id);
+  }
+
+  /**
+   * Executors created for non-built-in plugins (for lifecycle wiring and shutdown).
+   */
+  getPluginExecutors(): AbstractExecutor[] {
+    return Array.from(this.executors.entries())
+      .filter(([id]) => !this.descriptors.get(id)?.builtIn)
+      .map(([, executor]) => executor);
+  }
+
+  /**
+   * Use an executor constructed elsewhere (e.g. the built-ins created in index.ts).
+   */
+  setExecutor(id: string, executor: AbstractExecutor): void {
+    if (!this.descriptors.has(id)) {
+      throw new Error(`Unknown executor tool: ${id}`);
+    }
+    this.executors.set(id, executor);
+  }
+}
+
+export const executorRegistry = new ExecutorRegistry();
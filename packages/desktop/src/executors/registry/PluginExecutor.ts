@@ -0,0 +1,125 @@
+/**
+ * PluginExecutor - Generic executor for CLI agents described by an ExecutorPluginDescriptor
+ * Runs the CLI over stdio and parses its newline-delimited JSON output with the plugin's parser
+ */
+
+import { exec } from 'child_process';
+import { promisify } from 'util';
+
+import { JsonLinesExecutor } from '../base/JsonLinesExecutor';
+import type { DiffToolMapping } from '../base/DiffMetadataExtractor';
+import type {
+  ExecutorTool,
+  ExecutorSpawnOptions,
+  ExecutorAvailability,
+} from '../types';
+import type { ExecutorMessageParser, ExecutorPluginDependencies, ExecutorPluginDescriptor } from './types';
+import { findExecutableInPath } from '../../infrastructure/command/shellPath';
+
+const execAsync = promisify(exec);
+
+export class PluginExecutor extends JsonLinesExecutor {
+  private messageParser: ExecutorMessageParser;
+
+  constructor(
+    private descriptor: ExecutorPluginDescriptor,
+    deps: ExecutorPluginDependencies
+  ) {
+    super(deps.sessionManager, deps.logger, deps.configManager);
+    if (!descriptor.buildArgs || !descriptor.createMessageParser) {
+      throw new Error(`Executor plugin "${descriptor.id}" needs buildArgs and createMessageParser`);
+    }
+    this.messageParser = descriptor.createMessageParser();
+
+    this.on('exit', (data: { sessionId: string; exitCode: number | null }) => {
+      const session = this.sessionManager.getSession(data.sessionId);
+      if (!session || session.status === 'stopped') return;
+      if (data.exitCode === null) return;
+
+      if (data.exitCode === 0) {
+        this.sessionManager.updateSessionStatus(data.sessionId, 'waiting');
+      } else {
+        this.sessionManager.updateSessionStatus(data.sessionId, 'error', `${this.descriptor.displayName} exited with code ${data.exitCode}`);
+      }
+    });
+  }
+
+  getToolType(): ExecutorTool {
+    return this.descriptor.id;
+  }
+
+  getToolName(): string {
+    return this.descriptor.displayName;
+  }
+
+  protected getSpawnTransport(): 'pty' | 'stdio' {
+    return 'stdio';
+  }
+
+  protected getDiffToolMapping(): DiffToolMapping {
+    return this.descriptor.diffTools ?? {};
+  }
+
+  protected getMessageParser(): ExecutorMessageParser {
+    return this.messageParser;
+  }
+
+  getCommandName(): string {
+    return this.descriptor.command;
+  }
+
+  getCustomExecutablePath(): string | undefined {
+    const config = this.configManager?.getConfig() as Record<string, unknown> | undefined;
+    const value = config?.[`${this.descriptor.id}ExecutablePath`];
+    return typeof value === 'string' && value.trim() ? value : undefined;
+  }
+
+  async testAvailability(customPath?: string): Promise<ExecutorAvailability> {
+    try {
+      const commandName = this.getCommandName();
+      const resolved = customPath || (await findExecutableInPath(commandName)) || commandName;
+      const command = resolved.includes(' ') ? `"${resolved}"` : resolved;
+      const versionArgs = this.descriptor.versionArgs ?? ['--version'];
+      const env = await this.getSystemEnvironment();
+      const { stdout } = await execAsync([command, ...versionArgs].join(' '), {
+        timeout: 15000,
+        env,
+      });
+
+      return {
+        available: true,
+        version: stdout.trim(),
+        path: resolved,
+      };
+    } catch (error) {
+      return {
+        available: false,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  buildCommandArgs(options: ExecutorSpawnOptions): string[] {
+    return this.descriptor.buildArgs!(options);
+  }
+
+  async initializeEnvironment(options: ExecutorSpawnOptions): Promise<Record<string, string>> {
+    return {
+      PWD: options.worktreePath,
+      NO_COLOR: '1',
+      FORCE_COLOR: '0',
+      ...(this.descriptor.env ?? {}),
+    };
+  }
+
+  async cleanupResources(sessionId: string): Promise<void> {
+    for (const [panelId, proc] of this.processes) {
+      if (proc.sessionId === sessionId) {
+        this.jsonFragmentByPanel.delete(panelId);
+      }
+    }
+    this.logger?.verbose(`Cleaned up ${this.descriptor.displayName} resources for session ${sessionId}`);
+  }
+}
+
+export default PluginExecutor;
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@homebridge/node-pty-prebuilt-multiarch', () => ({
+  default: {
+    spawn: vi.fn(),
+  },
+}));
+
+const mockSessionManager = {
+  getSession: vi.fn(),
+  addTimelineEvent: vi.fn(),
+  updateSessionStatus: vi.fn(),
+};
+
+const { ExecutorRegistry, PluginExecutor, registerExecutorPlugins } = await import('..');
+import type { ExecutorPluginDescriptor } from '../types';
+
+const echoPlugin = (overrides: Partial<ExecutorPluginDescriptor> = {}): ExecutorPluginDescriptor => ({
+  id: 'echo-agent',
+  displayName: 'Echo Agent',
+  command: 'echo-agent',
+  buildArgs: (options) => ['--json', '--prompt', options.prompt],
+  createMessageParser: () => ({
+    parseMessage: (message) => message.type === 'text'
+      ? [{ id: String(message.id), entryType: 'assistant_message', content: String(message.text) }]
+      : [],
+    getAgentSessionId: (message) => (typeof message.session === 'string' ? message.session : undefined),
+  }),
+  diffTools: { edit_file: 'edit' },
+  settings: { fields: [{ key: 'endpoint', label: 'Endpoint', type: 'text' }] },
+  ...overrides,
+});
+
+const deps = { sessionManager: mockSessionManager as any };
+
+describe('ExecutorRegistry', () => {
+  let registry: InstanceType<typeof ExecutorRegistry>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    registry = new ExecutorRegistry();
+  });
+
+  it('registers the built-in executors and bundled plugins', () => {
+    registerExecutorPlugins(registry);
+    registerExecutorPlugins(registry);
+
+    expect(registry.list().map((d) => d.id)).toEqual(['claude', 'codex', 'gemini', 'kimi', 'custom']);
+    expect(registry.listPluginIds()).toEqual(['custom']);
+    expect(registry.getDiffToolMapping('claude')).toMatchObject({ Edit: 'edit', Write: 'write', Bash: 'shell' });
+  });
+
+  it('rejects invalid, reserved and duplicate ids', () => {
+    expect(() => registry.register(echoPlugin({ id: 'Echo Agent' }))).toThrow(/Invalid executor id/);
+    expect(() => registry.register(echoPlugin({ id: 'terminal' }))).toThrow(/reserved/);
+
+    registry.register(echoPlugin());
+    expect(() => registry.register(echoPlugin())).toThrow(/already registered/);
+  });
+
+  it('requires an arg builder and parser when no executor factory is given', () => {
+    expect(() => registry.register(echoPlugin({ createMessageParser: undefined }))).toThrow(/buildArgs \+ createMessageParser/);
+  });
+
+  it('exposes serializable plugin info for the renderer', () => {
+    registry.register(echoPlugin());
+
+    expect(registry.listInfo()).toEqual([{
+      id: 'echo-agent',
+      displayName: 'Echo Agent',
+      command: 'echo-agent',
+      builtIn: false,
+      enabledByDefault: true,
+      settings: { fields: [{ key: 'endpoint', label: 'Endpoint', type: 'text' }] },
+    }]);
+  });
+
+  it('creates one shared PluginExecutor per plugin', () => {
+    registry.register(echoPlugin());
+
+    const executor = registry.getExecutor('echo-agent', deps);
+
+    expect(executor).toBeInstanceOf(PluginExecutor);
+    expect(registry.getExecutor('echo-agent', deps)).toBe(executor);
+    expect(registry.findExecutor('echo-agent')).toBe(executor);
+    expect(registry.getPluginExecutors()).toEqual([executor]);
+    expect(() => registry.getExecutor('missing', deps)).toThrow(/Unknown executor tool/);
+  });
+});
+
+describe('PluginExecutor', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('delegates identity, args and diff mapping to the descriptor', () => {
+    const executor = new PluginExecutor(echoPlugin(), deps);
+
+    expect(executor.getToolType()).toBe('echo-agent');
+    expect(executor.getToolName()).toBe('Echo Agent');
+    expect(executor.getCommandName()).toBe('echo-agent');
+    expect(executor.buildCommandArgs({ panelId: 'p', sessionId: 's', worktreePath: '/w', prompt: 'hi' }))
+      .toEqual(['--json', '--prompt', 'hi']);
+    expect((executor as any).getDiffToolMapping()).toEqual({ edit_file: 'edit' });
+  });
+
+  it('parses JSONL output, buffering split lines', () => {
+    const executor = new PluginExecutor(echoPlugin(), deps);
+    const handle = vi.spyOn(executor as any, 'handleNormalizedEntry').mockResolvedValue(undefined);
+    const agentSessionIds: unknown[] = [];
+    executor.on('agentSessionId', (data) => agentSessionIds.push(data));
+
+    executor.parseOutput('{"type":"text","id":1,', 'panel-1', 'session-1');
+    executor.parseOutput('"text":"hello","session":"abc"}', 'panel-1', 'session-1');
+
+    expect(handle).toHaveBeenCalledTimes(1);
+    expect(handle).toHaveBeenCalledWith('panel-1', 'session-1', {
+      id: '1',
+      entryType: 'assistant_message',
+      content: 'hello',
+    });
+    expect(agentSessionIds).toEqual([{ panelId: 'panel-1', sessionId: 'session-1', agentSessionId: 'abc' }]);
+  });
+
+  it('forwards non-JSON output as stdout', () => {
+    const executor = new PluginExecutor(echoPlugin(), deps);
+    const outputs: Array<{ type: string; data: unknown }> = [];
+    executor.on('output', (event) => outputs.push(event));
+
+    executor.parseOutput('Loading model...', 'panel-1', 'session-1');
+
+    expect(outputs).toMatchObject([{ type: 'stdout', data: 'Loading model...' }]);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Descriptors for the built-in executors. They keep their protocol-specific
+ * executor classes and only contribute metadata to the registry.
+ */
+
+import { ClaudeExecutor } from '../claude';
+import { CodexExecutor } from '../codex';
+import { GeminiExecutor } from '../gemini';
+import { KimiExecutor } from '../kimi';
+import { CLAUDE_DIFF_TOOLS, CODEX_DIFF_TOOLS, KIMI_DIFF_TOOLS } from '../base/DiffMetadataExtractor';
+import type { ExecutorPluginDescriptor } from './types';
+
+export const BUILTIN_EXECUTOR_PLUGINS: ExecutorPluginDescriptor[] = [
+  {
+    id: 'claude',
+    displayName: 'Claude',
+    command: 'claude',
+    builtIn: true,
+    diffTools: CLAUDE_DIFF_TOOLS,
+    settings: { extraArgsPlaceholder: 'e.g. --settings ~/.claude/settings.json --model sonnet' },
+    createExecutor: ({ sessionManager, logger, configManager }) => new ClaudeExecutor(sessionManager, logger, configManager),
+  },
+  {
+    id: 'codex',
+    displayName: 'Codex',
+    command: 'codex',
+    builtIn: true,
+    diffTools: CODEX_DIFF_TOOLS,
+    settings: { extraArgsPlaceholder: 'e.g. -c model="o3" -p my-profile' },
+    createExecutor: ({ sessionManager, logger, configManager }) => new CodexExecutor(sessionManager, logger, configManager),
+  },
+  {
+    id: 'gemini',
+    displayName: 'Gemini',
+    command: 'gemini',
+    builtIn: true,
+    diffTools: {},
+    settings: { extraArgsPlaceholder: 'e.g. --model gemini-2.5-pro --sandbox' },
+    createExecutor: ({ sessionManager, logger, configManager }) => new GeminiExecutor(sessionManager, logger, configManager),
+  },
+  {
+    id: 'kimi',
+    displayName: 'Kimi',
+    command: 'kimi',
+    builtIn: true,
+    diffTools: KIMI_DIFF_TOOLS,
+    settings: { extraArgsPlaceholder: 'e.g. --config-file ~/.kimi/custom.toml --model k2' },
+    createExecutor: ({ sessionManager, logger, configManager }) => new KimiExecutor(sessionManager, logger, configManager),
+  },
+];
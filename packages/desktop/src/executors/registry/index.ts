@@ -0,0 +1,31 @@
+/**
+ * Executor Registry Module
+ */
+
+import { executorRegistry, type ExecutorRegistry } from './ExecutorRegistry';
+import { BUILTIN_EXECUTOR_PLUGINS } from './builtins';
+import { EXECUTOR_PLUGINS } from '../plugins';
+
+export { ExecutorRegistry, executorRegistry } from './ExecutorRegistry';
+export { PluginExecutor } from './PluginExecutor';
+export { BUILTIN_EXECUTOR_PLUGINS } from './builtins';
+export type {
+  ExecutorMessageParser,
+  ExecutorPluginDependencies,
+  ExecutorPluginDescriptor,
+  ExecutorPluginInfo,
+  ExecutorSettingField,
+  ExecutorSettingsSchema,
+} from './types';
+
+/**
+ * Register the built-in executors followed by everything listed in executors/plugins.
+ * Safe to call more than once.
+ */
+export function registerExecutorPlugins(registry: ExecutorRegistry = executorRegistry): void {
+  for (const descriptor of [...BUILTIN_EXECUTOR_PLUGINS, ...EXECUTOR_PLUGINS]) {
+    if (!registry.has(descriptor.id)) {
+      registry.register(descriptor);
+    }
+  }
+}
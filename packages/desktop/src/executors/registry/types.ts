@@ -0,0 +1,92 @@
+/**
+ * Executor plugin types
+ *
+ * An executor plugin describes one CLI agent in a single object: how to invoke it,
+ * how to read its output, which of its tools produce file diffs, and which settings
+ * the Providers tab should render for it.
+ */
+
+import type { AbstractExecutor } from '../base/AbstractExecutor';
+import type { DiffToolMapping } from '../base/DiffMetadataExtractor';
+import type { ExecutorSpawnOptions, ExecutorTool, NormalizedEntry } from '../types';
+import type { Logger } from '../../infrastructure/logging/logger';
+import type { ConfigManager } from '../../infrastructure/config/configManager';
+import type { SessionManager } from '../../features/session/SessionManager';
+
+/**
+ * A plugin-specific setting rendered in Settings → Providers.
+ * Values are stored in `providerConfigs[<id>].options[<key>]` and passed to
+ * the executor as `ExecutorSpawnOptions.providerConfig.options`.
+ */
+export interface ExecutorSettingField {
+  key: string;
+  label: string;
+  type: 'text' | 'password' | 'select';
+  placeholder?: string;
+  description?: string;
+  defaultValue?: string;
+  options?: Array<{ value: string; label: string }>;
+}
+
+export interface ExecutorSettingsSchema {
+  /** Placeholder for the "Extra CLI Arguments" input every provider gets */
+  extraArgsPlaceholder?: string;
+  fields?: ExecutorSettingField[];
+}
+
+/**
+ * Turns one JSON line of CLI output into zero or more normalized entries.
+ */
+export interface ExecutorMessageParser {
+  parseMessage(message: Record<string, unknown>): NormalizedEntry[];
+  /** Agent-side session/thread id carried by a message, used to resume later runs */
+  getAgentSessionId?(message: Record<string, unknown>): string | undefined;
+}
+
+export interface ExecutorPluginDependencies {
+  sessionManager: SessionManager;
+  logger?: Logger;
+  configManager?: ConfigManager;
+}
+
+export interface ExecutorPluginDescriptor {
+  /** Stable id, used as panel type, session tool type and settings key */
+  id: ExecutorTool;
+  displayName: string;
+  /**
+   * Executable looked up in PATH (overridable via `<id>ExecutablePath` in config).
+   * Empty when a custom `createExecutor` resolves the command itself.
+   */
+  command: string;
+  builtIn?: boolean;
+  /** Initial state of the provider toggle in settings; defaults to true */
+  enabledByDefault?: boolean;
+  /** Arguments used to probe availability; defaults to ['--version'] */
+  versionArgs?: string[];
+  /**
+   * Build CLI arguments for a run. Extra args from settings are appended by the base executor.
+   * Required unless `createExecutor` is provided.
+   */
+  buildArgs?: (options: ExecutorSpawnOptions) => string[];
+  /** Parser for the CLI's newline-delimited JSON output. Required unless `createExecutor` is provided. */
+  createMessageParser?: () => ExecutorMessageParser;
+  /** Extra environment for every run */
+  env?: Record<string, string>;
+  /** Tool names emitted by the parser that should be recorded as diffs */
+  diffTools?: DiffToolMapping;
+  settings?: ExecutorSettingsSchema;
+  /** Custom executor implementation; built-ins use this to keep their protocol-specific classes */
+  createExecutor?: (deps: ExecutorPluginDependencies) => AbstractExecutor;
+}
+
+/**
+ * Serializable subset sent to the renderer.
+ */
+export interface ExecutorPluginInfo {
+  id: string;
+  displayName: string;
+  command: string;
+  builtIn: boolean;
+  enabledByDefault: boolean;
+  settings: ExecutorSettingsSchema;
+}
@@ -10,7 +10,10 @@ import type { ChildProcessWithoutNullStreams } from 'child_process';
 // Executor Types
 // ============================================================================
 
-export type ExecutorTool = 'claude' | 'codex' | 'gemini' | 'kimi';
+export type BuiltinExecutorTool = 'claude' | 'codex' | 'gemini' | 'kimi';
+
+/** Built-in tools plus any plugin id registered in the executor registry */
+export type ExecutorTool = BuiltinExecutorTool | (string & {});
 
 export interface ExecutorSpawnOptions {
   panelId: string;
@@ -33,10 +36,11 @@ export interface ExecutorSpawnOptions {
   approvalMode?: string;
   // Plan mode: only plan, don't execute code modifications
   planMode?: boolean;
-  // Per-provider custom configuration (env vars, extra CLI args from settings)
+  // Per-provider custom configuration (env vars, extra CLI args, plugin settings)
   providerConfig?: {
     envVars?: Record<string, string>;
     extraArgs?: string;
+    options?: Record<string, string>;
   };
 }
 
@@ -90,6 +94,60 @@ export interface ExecutorSpawnedEvent {
   fullCommand?: string;
 }
 
+export type ToolApprovalKind = 'command' | 'file_change';
+
+/** 'cancel' is sent when the request can no longer be answered (e.g. the agent exited). */
+export type ToolApprovalDecision = 'approve' | 'approve_for_session' | 'deny' | 'cancel';
+
+export interface ToolApprovalDetails {
+  command?: string;
+  cwd?: string;
+  reason?: string;
+  files?: Array<{ path: string; diff?: string }>;
+}
+
+/**
+ * An agent asking before it runs a command or applies a patch. Exactly one call to
+ * `respond` answers the agent.
+ */
+export interface ExecutorApprovalRequestEvent {
+  panelId: string;
+  sessionId: string;
+  kind: ToolApprovalKind;
+  details: ToolApprovalDetails;
+  respond: (decision: ToolApprovalDecision) => void;
+}
+
+/**
+ * A tool call parsed from agent output. `paths` lists every file a multi-file
+ * change touches when the action itself only names one.
+ */
+export interface ExecutorToolUseEvent {
+  panelId: string;
+  sessionId: string;
+  toolName?: string;
+  action: ActionType;
+  paths?: string[];
+}
+
+/**
+ * Token usage for one turn (or one model call), normalized across CLIs.
+ * `inputTokens` excludes cached input; cache reads/writes are reported separately.
+ */
+export interface TokenUsageSample {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd?: number;
+}
+
+export interface ExecutorUsageEvent {
+  panelId: string;
+  sessionId: string;
+  usage: TokenUsageSample;
+}
+
 // ============================================================================
 // Protocol Types (Stream JSON / JSON-RPC)
 // ============================================================================
@@ -117,6 +175,7 @@ export interface ClaudeAssistantMessage {
     model?: string;
     content: ClaudeContentItem[];
     stop_reason?: string;
+    usage?: ClaudeUsage;
   };
   session_id?: string;
 }
@@ -160,6 +219,8 @@ export interface ClaudeResultMessage {
   result?: unknown;
   error?: string;
   session_id?: string;
+  usage?: ClaudeUsage;
+  total_cost_usd?: number;
 }
 
 export type ClaudeMessage =
@@ -310,4 +371,10 @@ export interface ExecutorEvents {
   // Normalized entry events for UI
   entry: (entry: NormalizedEntry) => void;
   entryUpdate: (id: string, updates: Partial<NormalizedEntry>) => void;
+  // Token usage reported by the CLI (one sample per turn or model call)
+  usage: (event: ExecutorUsageEvent) => void;
+  // Tool approval requested by the CLI (Codex app-server with a manual approval policy)
+  approvalRequest: (event: ExecutorApprovalRequestEvent) => void;
+  // Tool call parsed from the CLI's output (after the CLI has started it)
+  toolUse: (event: ExecutorToolUseEvent) => void;
 }
@@ -0,0 +1,145 @@
+/**
+ * ApprovalService - Interactive approvals for agent tool calls
+ *
+ * Executors emit `approvalRequest` when the agent wants to run a command or
+ * apply a patch. Each request is recorded as a pending `approval_request`
+ * timeline event (keyed by its id through `tool_use_id`) and held here until it
+ * is answered from the timeline or Telegram, or the agent exits. The answer and
+ * where it came from are written back onto the same event.
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import type {
+  ExecutorApprovalRequestEvent,
+  ToolApprovalDecision,
+  ToolApprovalDetails,
+  ToolApprovalKind,
+} from '../../executors/types';
+import type { Logger } from '../../infrastructure/logging/logger';
+import type { SessionManager } from '../session/SessionManager';
+
+export type ApprovalSource = 'timeline' | 'telegram';
+
+export interface PendingApproval {
+  id: string;
+  sessionId: string;
+  panelId: string;
+  kind: ToolApprovalKind;
+  details: ToolApprovalDetails;
+  requestedAt: string;
+}
+
+export interface ApprovalResolution {
+  id: string;
+  sessionId: string;
+  panelId: string;
+  decision: ToolApprovalDecision;
+  source: ApprovalSource | 'system';
+}
+
+interface PendingEntry extends PendingApproval {
+  respond: (decision: ToolApprovalDecision) => void;
+}
+
+export class ApprovalService extends EventEmitter {
+  private pending = new Map<string, PendingEntry>();
+
+  constructor(
+    private sessionManager: SessionManager,
+    private logger?: Logger
+  ) {
+    super();
+  }
+
+  request(event: ExecutorApprovalRequestEvent): PendingApproval {
+    const entry: PendingEntry = {
+      id: randomUUID(),
+      sessionId: event.sessionId,
+      panelId: event.panelId,
+      kind: event.kind,
+      details: event.details,
+      requestedAt: new Date().toISOString(),
+      respond: event.respond,
+    };
+    this.pending.set(entry.id, entry);
+    this.record(entry, 'pending');
+
+    const approval = this.toPublic(entry);
+    this.emit('requested', approval);
+    return approval;
+  }
+
+  /**
+   * Answer a pending request. Throws when it was already answered or the agent is gone.
+   */
+  resolve(id: string, decision: Exclude<ToolApprovalDecision, 'cancel'>, source: ApprovalSource): ApprovalResolution {
+    const entry = this.pending.get(id);
+    if (!entry) throw new Error('Approval request is no longer pending');
+    return this.finish(entry, decision, source);
+  }
+
+  /**
+   * Cancel everything still waiting on a panel, e.g. after its agent exited.
+   */
+  cancelPanel(panelId: string): void {
+    for (const entry of Array.from(this.pending.values())) {
+      if (entry.panelId === panelId) this.finish(entry, 'cancel', 'system');
+    }
+  }
+
+  listPending(sessionId?: string): PendingApproval[] {
+    return Array.from(this.pending.values())
+      .filter((entry) => !sessionId || entry.sessionId === sessionId)
+      .map((entry) => this.toPublic(entry));
+  }
+
+  getPending(id: string): PendingApproval | null {
+    const entry = this.pending.get(id);
+    return entry ? this.toPublic(entry) : null;
+  }
+
+  private finish(entry: PendingEntry, decision: ToolApprovalDecision, source: ApprovalResolution['source']): ApprovalResolution {
+    this.pending.delete(entry.id);
+    try {
+      entry.respond(decision);
+    } catch (error) {
+      this.logger?.warn(`[Approvals] Failed to deliver decision for ${entry.id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    this.record(entry, 'answered', { decision, source });
+
+    const resolution: ApprovalResolution = { id: entry.id, sessionId: entry.sessionId, panelId: entry.panelId, decision, source };
+    this.emit('resolved', resolution);
+    return resolution;
+  }
+
+  private record(entry: PendingEntry, status: 'pending' | 'answered', answer?: { decision: ToolApprovalDecision; source: string }): void {
+    try {
+      this.sessionManager.addTimelineEvent({
+        session_id: entry.sessionId,
+        panel_id: entry.panelId,
+        kind: 'approval_request',
+        status,
+        tool_use_id: entry.id,
+        action_type: entry.kind,
+        command: entry.details.command,
+        cwd: entry.details.cwd,
+        tool_input: JSON.stringify(entry.details),
+        answers: answer ? JSON.stringify(answer) : undefined,
+      });
+    } catch (error) {
+      this.logger?.warn(`[Approvals] Failed to record approval ${entry.id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private toPublic(entry: PendingEntry): PendingApproval {
+    return {
+      id: entry.id,
+      sessionId: entry.sessionId,
+      panelId: entry.panelId,
+      kind: entry.kind,
+      details: entry.details,
+      requestedAt: entry.requestedAt,
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import { randomUUID } from 'node:crypto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { cleanupDatabase, createMockDatabase } from '../../../__tests__/helpers/mockDatabase';
+import type { DatabaseService } from '../../../infrastructure/database/database';
+import type { CreateTimelineEventData } from '../../../infrastructure/database/models';
+import { ApprovalService } from '../ApprovalService';
+
+describe('ApprovalService', () => {
+  let db: DatabaseService;
+  let sessionId: string;
+  let service: ApprovalService;
+
+  const approvalEvents = () => db.getTimelineEvents(sessionId).filter((event) => event.kind === 'approval_request');
+
+  beforeEach(() => {
+    db = createMockDatabase();
+    const project = db.createProject('Test Project', `/tmp/snowtree-test-${randomUUID()}`);
+    sessionId = randomUUID();
+    db.createSession({ id: sessionId, name: 's', initial_prompt: '', worktree_name: 's', worktree_path: '/repo', project_id: project.id });
+
+    const sessionManager = {
+      addTimelineEvent: vi.fn((data: Omit<CreateTimelineEventData, 'timestamp'>) =>
+        db.addTimelineEvent({ ...data, timestamp: new Date().toISOString() })),
+    };
+    service = new ApprovalService(sessionManager as never);
+  });
+
+  afterEach(() => {
+    cleanupDatabase(db);
+  });
+
+  it('records a pending request and answers the agent once resolved', () => {
+    const respond = vi.fn();
+    const resolved = vi.fn();
+    service.on('resolved', resolved);
+
+    const approval = service.request({
+      panelId: 'p1',
+      sessionId,
+      kind: 'command',
+      details: { command: 'rm -rf build', cwd: '/repo' },
+      respond,
+    });
+
+    expect(service.listPending(sessionId)).toEqual([approval]);
+    expect(approvalEvents()).toEqual([
+      expect.objectContaining({ status: 'pending', tool_use_id: approval.id, action_type: 'command', command: 'rm -rf build' }),
+    ]);
+
+    service.resolve(approval.id, 'approve_for_session', 'timeline');
+
+    expect(respond).toHaveBeenCalledWith('approve_for_session');
+    expect(resolved).toHaveBeenCalledWith(expect.objectContaining({ id: approval.id, decision: 'approve_for_session', source: 'timeline' }));
+    expect(service.listPending()).toEqual([]);
+
+    // The pending row is updated in place rather than duplicated.
+    const events = approvalEvents();
+    expect(events).toHaveLength(1);
+    expect(events[0].status).toBe('answered');
+    expect(JSON.parse(events[0].answers!)).toEqual({ decision: 'approve_for_session', source: 'timeline' });
+  });
+
+  it('refuses to answer the same request twice', () => {
+    const respond = vi.fn();
+    const approval = service.request({ panelId: 'p1', sessionId, kind: 'file_change', details: { files: [{ path: 'a.ts' }] }, respond });
+
+    service.resolve(approval.id, 'deny', 'telegram');
+    expect(() => service.resolve(approval.id, 'approve', 'timeline')).toThrow('Approval request is no longer pending');
+    expect(respond).toHaveBeenCalledTimes(1);
+    expect(respond).toHaveBeenCalledWith('deny');
+  });
+
+  it('cancels requests left pending when the panel exits', () => {
+    const first = vi.fn();
+    const other = vi.fn();
+    service.request({ panelId: 'p1', sessionId, kind: 'command', details: { command: 'ls' }, respond: first });
+    service.request({ panelId: 'p2', sessionId, kind: 'command', details: { command: 'pwd' }, respond: other });
+
+    service.cancelPanel('p1');
+
+    expect(first).toHaveBeenCalledWith('cancel');
+    expect(other).not.toHaveBeenCalled();
+    expect(service.listPending().map((approval) => approval.panelId)).toEqual(['p2']);
+    const cancelled = approvalEvents().find((event) => event.command === 'ls');
+    expect(JSON.parse(cancelled!.answers!)).toEqual({ decision: 'cancel', source: 'system' });
+  });
+});
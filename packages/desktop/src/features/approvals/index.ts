@@ -0,0 +1,2 @@
+export { ApprovalService } from './ApprovalService';
+export type { ApprovalResolution, ApprovalSource, PendingApproval } from './ApprovalService';
@@ -0,0 +1,199 @@
+/**
+ * SessionBundle - Portable export/import of a session for review
+ *
+ * A bundle is a single JSON document holding the session row, its panels,
+ * timeline, prompt markers and execution diffs, plus the git state at export
+ * time: the commits made on the session branch and one patch from the base to
+ * the worktree (uncommitted and untracked files included). Importing recreates
+ * the session as an archived, read-only copy with fresh ids.
+ */
+
+import { randomUUID } from 'crypto';
+import { existsSync } from 'fs';
+import type { ToolPanel } from '@snowtree/core/types/panels';
+import type { GitExecutor } from '../../executors/git';
+import type { DatabaseService } from '../../infrastructure/database/database';
+import type {
+  ExecutionDiff,
+  PromptMarker,
+  Session as DbSession,
+  SessionImportCommit,
+  TimelineEvent,
+} from '../../infrastructure/database/models';
+import type { Logger } from '../../infrastructure/logging/logger';
+import { snapshotWorktreeTree } from '../git/WorktreeSnapshot';
+
+export const SESSION_BUNDLE_FORMAT = 'snowtree-session-bundle';
+export const SESSION_BUNDLE_VERSION = 1;
+
+export interface SessionBundle {
+  format: typeof SESSION_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  project: { name: string | null };
+  session: DbSession;
+  toolPanels: ToolPanel[];
+  timelineEvents: TimelineEvent[];
+  promptMarkers: PromptMarker[];
+  executionDiffs: ExecutionDiff[];
+  /** Commit or branch the final diff and commit list are relative to. */
+  baseRef: string | null;
+  finalDiff: string;
+  commits: SessionImportCommit[];
+}
+
+const FIELD_SEPARATOR = '\u001f';
+
+export function parseCommitLog(output: string): SessionImportCommit[] {
+  return output
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => {
+      const [hash = '', author = '', date = '', ...message] = line.split(FIELD_SEPARATOR);
+      return { hash, author, date, message: message.join(FIELD_SEPARATOR) };
+    });
+}
+
+/**
+ * Parse and validate bundle JSON. Throws with a user-facing message when the file is not a bundle.
+ */
+export function parseSessionBundle(json: string): SessionBundle {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Not a Snowtree session bundle: invalid JSON');
+  }
+  const bundle = data as Partial<SessionBundle> | null;
+  if (!bundle || typeof bundle !== 'object' || bundle.format !== SESSION_BUNDLE_FORMAT) {
+    throw new Error('Not a Snowtree session bundle');
+  }
+  if (typeof bundle.version !== 'number' || bundle.version > SESSION_BUNDLE_VERSION) {
+    throw new Error(`Unsupported session bundle version: ${String(bundle.version)}`);
+  }
+  if (!bundle.session || typeof bundle.session.id !== 'string') {
+    throw new Error('Session bundle is missing its session');
+  }
+  for (const key of ['toolPanels', 'timelineEvents', 'promptMarkers', 'executionDiffs', 'commits'] as const) {
+    if (!Array.isArray(bundle[key])) {
+      throw new Error(`Session bundle is missing ${key}`);
+    }
+  }
+  return {
+    ...bundle,
+    baseRef: bundle.baseRef ?? null,
+    finalDiff: bundle.finalDiff ?? '',
+  } as SessionBundle;
+}
+
+export class SessionBundleService {
+  constructor(
+    private db: DatabaseService,
+    private gitExecutor: GitExecutor,
+    private logger?: Logger
+  ) {}
+
+  async exportSession(sessionId: string): Promise<SessionBundle> {
+    const session = this.db.getSession(sessionId);
+    if (!session) throw new Error('Session not found');
+    const project = session.project_id ? this.db.getProject(session.project_id) : undefined;
+
+    const bundle: SessionBundle = {
+      format: SESSION_BUNDLE_FORMAT,
+      version: SESSION_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      project: { name: project?.name ?? null },
+      session,
+      toolPanels: this.db.getPanelsForSession(sessionId),
+      timelineEvents: this.db.getTimelineEvents(sessionId),
+      promptMarkers: this.db.getPromptMarkers(sessionId),
+      executionDiffs: this.db.getExecutionDiffs(sessionId),
+      baseRef: session.base_commit || session.base_branch || null,
+      finalDiff: '',
+      commits: [],
+    };
+
+    // Re-exporting an imported session passes its recorded git state along.
+    const imported = this.db.getSessionImport(sessionId);
+    if (imported) {
+      bundle.project.name = imported.source_project_name ?? bundle.project.name;
+      bundle.baseRef = imported.base_ref;
+      bundle.finalDiff = imported.final_diff;
+      bundle.commits = imported.commits;
+      return bundle;
+    }
+
+    if (bundle.baseRef && session.worktree_path && existsSync(session.worktree_path)) {
+      try {
+        Object.assign(bundle, await this.collectGitState(session.worktree_path, bundle.baseRef));
+      } catch (error) {
+        this.logger?.warn(`[SessionBundle] Failed to collect git state for ${sessionId}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return bundle;
+  }
+
+  importBundle(bundle: SessionBundle, projectId: number): DbSession {
+    if (!this.db.getProject(projectId)) throw new Error(`Project with ID ${projectId} not found`);
+
+    const sessionId = randomUUID();
+    const panelIds = new Map(bundle.toolPanels.map((panel) => [panel.id, randomUUID()]));
+    const source = bundle.session;
+
+    return this.db.importSession({
+      session: {
+        id: sessionId,
+        name: source.name,
+        initial_prompt: source.initial_prompt ?? '',
+        worktree_name: source.worktree_name ?? source.name,
+        project_id: projectId,
+        tool_type: source.tool_type || 'claude',
+        base_commit: source.base_commit ?? null,
+        base_branch: source.base_branch ?? null,
+        created_at: source.created_at,
+      },
+      panels: bundle.toolPanels.map((panel) => ({
+        id: panelIds.get(panel.id)!,
+        type: panel.type,
+        title: panel.title,
+        state: panel.state,
+        metadata: panel.metadata,
+      })),
+      timelineEvents: bundle.timelineEvents.map((event) => ({
+        ...event,
+        session_id: sessionId,
+        panel_id: event.panel_id ? panelIds.get(event.panel_id) : undefined,
+      })),
+      promptMarkers: bundle.promptMarkers,
+      executionDiffs: bundle.executionDiffs,
+      provenance: {
+        source_session_id: source.id,
+        source_project_name: bundle.project.name,
+        exported_at: bundle.exportedAt,
+        base_ref: bundle.baseRef,
+        final_diff: bundle.finalDiff,
+        commits: bundle.commits,
+      },
+    });
+  }
+
+  private async collectGitState(cwd: string, baseRef: string): Promise<Pick<SessionBundle, 'finalDiff' | 'commits'>> {
+    const meta = { source: 'audit', operation: 'export' };
+    const log = await this.gitExecutor.run({
+      cwd,
+      argv: ['git', 'log', '--reverse', `--format=%H${FIELD_SEPARATOR}%an${FIELD_SEPARATOR}%aI${FIELD_SEPARATOR}%s`, `${baseRef}..HEAD`],
+      op: 'read',
+      recordTimeline: false,
+      meta,
+    });
+    const tree = await snapshotWorktreeTree(this.gitExecutor, cwd, meta);
+    const diff = await this.gitExecutor.run({
+      cwd,
+      argv: ['git', 'diff', '--no-color', '--no-ext-diff', '--binary', baseRef, tree],
+      op: 'read',
+      recordTimeline: false,
+      meta,
+    });
+    return { finalDiff: diff.stdout, commits: parseCommitLog(log.stdout) };
+  }
+}
@@ -0,0 +1,95 @@
+import { randomUUID } from 'node:crypto';
+import { describe, it, expect, vi } from 'vitest';
+import { cleanupDatabase, createMockDatabase } from '../../../__tests__/helpers/mockDatabase';
+import { SessionBundleService, parseCommitLog, parseSessionBundle } from '../SessionBundle';
+import { renderSessionHtml, renderSessionMarkdown } from '../renderTimeline';
+
+describe('SessionBundle', () => {
+  it('rejects files that are not bundles', () => {
+    expect(() => parseSessionBundle('nope')).toThrow('invalid JSON');
+    expect(() => parseSessionBundle('{"format":"other"}')).toThrow('Not a Snowtree session bundle');
+    expect(() => parseSessionBundle('{"format":"snowtree-session-bundle","version":99}')).toThrow('Unsupported session bundle version');
+    expect(() => parseSessionBundle('{"format":"snowtree-session-bundle","version":1,"session":{"id":"s"}}')).toThrow('missing toolPanels');
+  });
+
+  it('parses commit log lines', () => {
+    expect(parseCommitLog('abc\u001fAda\u001f2020-01-01T00:00:00Z\u001fFix bug\n\n')).toEqual([
+      { hash: 'abc', author: 'Ada', date: '2020-01-01T00:00:00Z', message: 'Fix bug' },
+    ]);
+  });
+
+  it('round-trips a session through export and import as a read-only copy', async () => {
+    const db = createMockDatabase();
+    try {
+      const project = db.createProject('Test Project', `/tmp/snowtree-test-${randomUUID()}`);
+      const sourceId = randomUUID();
+      db.createSession({ id: sourceId, name: 'fix-login', initial_prompt: 'Fix login', worktree_name: 'fix-login', worktree_path: '', project_id: project.id });
+      const panelId = randomUUID();
+      db.createPanel({ id: panelId, sessionId: sourceId, type: 'claude', title: 'Claude' });
+      db.addTimelineEvent({ session_id: sourceId, panel_id: panelId, timestamp: '2020-01-02T10:00:00.000Z', kind: 'chat.user', command: 'Fix <login>' });
+      db.addTimelineEvent({ session_id: sourceId, panel_id: panelId, timestamp: '2020-01-02T10:01:00.000Z', kind: 'chat.assistant', command: 'Done.' });
+      const markerId = db.addPromptMarker(sourceId, 'Fix login', 0);
+      db.createExecutionDiff({ session_id: sourceId, prompt_marker_id: markerId, execution_sequence: 1, git_diff: '+ok' });
+
+      const gitExecutor = { run: vi.fn() };
+      const service = new SessionBundleService(db, gitExecutor as never);
+      const bundle = parseSessionBundle(JSON.stringify(await service.exportSession(sourceId)));
+      expect(gitExecutor.run).not.toHaveBeenCalled();
+      bundle.finalDiff = 'diff --git a/x b/x\n+ok';
+      bundle.commits = [{ hash: 'abc1234', author: 'Ada', date: '2020-01-02T10:02:00Z', message: 'Fix login' }];
+
+      const imported = service.importBundle(bundle, project.id);
+      expect(imported.id).not.toBe(sourceId);
+      expect(imported).toMatchObject({ name: 'fix-login', worktree_path: '' });
+      expect(Boolean(imported.archived)).toBe(true);
+      expect(imported.imported_at).toBeTruthy();
+
+      const [panel] = db.getPanelsForSession(imported.id);
+      expect(panel.id).not.toBe(panelId);
+      expect(db.getTimelineEvents(imported.id).map((e) => [e.seq, e.kind, e.panel_id])).toEqual([
+        [1, 'chat.user', panel.id],
+        [2, 'chat.assistant', panel.id],
+      ]);
+      const [marker] = db.getPromptMarkers(imported.id);
+      expect(db.getExecutionDiffs(imported.id)[0].prompt_marker_id).toBe(marker.id);
+      expect(db.getSessionImport(imported.id)).toMatchObject({ source_session_id: sourceId, source_project_name: 'Test Project', commits: bundle.commits });
+
+      // Re-exporting carries the recorded git state along.
+      const again = await service.exportSession(imported.id);
+      expect(again.finalDiff).toBe(bundle.finalDiff);
+      expect(again.commits).toEqual(bundle.commits);
+    } finally {
+      cleanupDatabase(db);
+    }
+  });
+
+  it('renders the timeline as Markdown and escaped HTML', () => {
+    const bundle = parseSessionBundle(JSON.stringify({
+      format: 'snowtree-session-bundle',
+      version: 1,
+      exportedAt: '2020-01-03T00:00:00.000Z',
+      project: { name: 'demo' },
+      session: { id: 's1', name: 'fix-login', tool_type: 'codex', created_at: '2020-01-02T00:00:00.000Z' },
+      toolPanels: [],
+      timelineEvents: [
+        { id: 2, session_id: 's1', seq: 2, timestamp: 't2', kind: 'tool_use', tool_name: 'Bash', tool_input: '{"cmd":"ls"}', tool_use_id: 'u1' },
+        { id: 1, session_id: 's1', seq: 1, timestamp: 't1', kind: 'chat.user', command: 'Fix <login>' },
+        { id: 3, session_id: 's1', seq: 3, timestamp: 't3', kind: 'tool_result', tool_use_id: 'u1', content: 'x'.repeat(2100), is_error: 1 },
+      ],
+      promptMarkers: [],
+      executionDiffs: [],
+      baseRef: 'main',
+      finalDiff: '+added',
+      commits: [],
+    }));
+
+    const markdown = renderSessionMarkdown(bundle);
+    expect(markdown.indexOf('> Fix <login>')).toBeLessThan(markdown.indexOf('Failed tool: Bash'));
+    expect(markdown).toContain('(100 more characters)');
+    expect(markdown).toContain('_No commits._');
+
+    const html = renderSessionHtml(bundle);
+    expect(html).toContain('Fix &lt;login&gt;');
+    expect(html).toContain('<span class="add">+added</span>');
+  });
+});
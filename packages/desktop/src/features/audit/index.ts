@@ -0,0 +1,3 @@
+export { SessionBundleService, parseSessionBundle, parseCommitLog, SESSION_BUNDLE_FORMAT, SESSION_BUNDLE_VERSION } from './SessionBundle';
+export type { SessionBundle } from './SessionBundle';
+export { renderSessionMarkdown, renderSessionHtml, buildTimelineBlocks } from './renderTimeline';
@@ -0,0 +1,174 @@
+/**
+ * Render a session bundle as Markdown or standalone HTML for attaching to a PR.
+ *
+ * Both renderers walk the same list of blocks: prompts and replies verbatim,
+ * commands and tool calls as one-liners (tool output truncated), then the
+ * commit list and the final patch.
+ */
+
+import type { TimelineEvent } from '../../infrastructure/database/models';
+import type { SessionBundle } from './SessionBundle';
+
+const MAX_TOOL_OUTPUT_CHARS = 2000;
+
+type TimelineBlock =
+  | { type: 'prompt'; timestamp: string; text: string }
+  | { type: 'reply'; timestamp: string; text: string }
+  | { type: 'command'; timestamp: string; command: string; exitCode?: number }
+  | { type: 'tool'; timestamp: string; name: string; input?: string; output?: string; isError: boolean };
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}\n… (${text.length - max} more characters)` : text;
+}
+
+export function buildTimelineBlocks(events: TimelineEvent[]): TimelineBlock[] {
+  const blocks: TimelineBlock[] = [];
+  const toolBlocks = new Map<string, Extract<TimelineBlock, { type: 'tool' }>>();
+
+  for (const event of [...events].sort((a, b) => a.seq - b.seq)) {
+    switch (event.kind) {
+      case 'chat.user':
+        blocks.push({ type: 'prompt', timestamp: event.timestamp, text: event.command || '' });
+        break;
+      case 'chat.assistant':
+        if (event.command?.trim()) blocks.push({ type: 'reply', timestamp: event.timestamp, text: event.command });
+        break;
+      case 'cli.command':
+      case 'git.command':
+      case 'worktree.command':
+        if (event.command) blocks.push({ type: 'command', timestamp: event.timestamp, command: event.command, exitCode: event.exit_code });
+        break;
+      case 'tool_use': {
+        const block = { type: 'tool' as const, timestamp: event.timestamp, name: event.tool_name || 'tool', input: event.tool_input, isError: false };
+        toolBlocks.set(event.tool_use_id || String(event.id), block);
+        blocks.push(block);
+        break;
+      }
+      case 'tool_result': {
+        const block = toolBlocks.get(event.tool_use_id || '');
+        if (block) {
+          block.output = event.content ?? event.tool_result;
+          block.isError = Boolean(event.is_error);
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+  return blocks;
+}
+
+function describeSession(bundle: SessionBundle): Array<[string, string]> {
+  const rows: Array<[string, string]> = [
+    ['Session', bundle.session.name],
+    ['Agent', bundle.session.tool_type || 'claude'],
+  ];
+  if (bundle.project.name) rows.push(['Project', bundle.project.name]);
+  if (bundle.baseRef) rows.push(['Base', bundle.baseRef]);
+  rows.push(['Started', bundle.session.created_at]);
+  rows.push(['Exported', bundle.exportedAt]);
+  return rows;
+}
+
+function fence(text: string, lang = ''): string {
+  const longest = Math.max(2, ...Array.from(text.matchAll(/`+/g), (m) => m[0].length));
+  const ticks = '`'.repeat(longest + 1);
+  return `${ticks}${lang}\n${text.replace(/\n$/, '')}\n${ticks}`;
+}
+
+export function renderSessionMarkdown(bundle: SessionBundle): string {
+  const out: string[] = [`# ${bundle.session.name}`, ''];
+  for (const [label, value] of describeSession(bundle)) out.push(`- **${label}:** ${value}`);
+  out.push('', '## Timeline', '');
+
+  for (const block of buildTimelineBlocks(bundle.timelineEvents)) {
+    if (block.type === 'prompt') {
+      out.push(`### Prompt · ${block.timestamp}`, '', block.text.split('\n').map((line) => `> ${line}`).join('\n'), '');
+    } else if (block.type === 'reply') {
+      out.push(block.text, '');
+    } else if (block.type === 'command') {
+      const exit = block.exitCode !== undefined && block.exitCode !== 0 ? ` (exit ${block.exitCode})` : '';
+      out.push(`${fence(`$ ${block.command}`, 'sh')}${exit}`, '');
+    } else {
+      out.push(`<details><summary>${block.isError ? 'Failed tool' : 'Tool'}: ${block.name}</summary>`, '');
+      if (block.input) out.push(fence(truncate(block.input, MAX_TOOL_OUTPUT_CHARS), 'json'), '');
+      if (block.output) out.push(fence(truncate(block.output, MAX_TOOL_OUTPUT_CHARS)), '');
+      out.push('</details>', '');
+    }
+  }
+
+  out.push('## Commits', '');
+  if (bundle.commits.length === 0) out.push('_No commits._');
+  for (const commit of bundle.commits) out.push(`- \`${commit.hash.slice(0, 10)}\` ${commit.message} — ${commit.author}`);
+  out.push('', '## Final diff', '', bundle.finalDiff ? fence(bundle.finalDiff, 'diff') : '_No changes._', '');
+  return out.join('\n');
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const HTML_STYLE = `
+body{font:14px/1.5 -apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;max-width:960px;margin:32px auto;padding:0 16px;color:#1f2328}
+pre{background:#f6f8fa;padding:12px;border-radius:6px;overflow:auto;font:12px/1.45 ui-monospace,SFMono-Regular,Menlo,monospace}
+.prompt{border-left:3px solid #0969da;padding:4px 12px;background:#f0f6ff;white-space:pre-wrap}
+.reply{white-space:pre-wrap}.meta{color:#59636e;font-size:12px}.error{color:#cf222e}
+.add{color:#1a7f37}.del{color:#cf222e}.hunk{color:#8250df}
+`;
+
+function renderDiffHtml(diff: string): string {
+  return diff
+    .split('\n')
+    .map((line) => {
+      const text = escapeHtml(line);
+      if (line.startsWith('+') && !line.startsWith('+++')) return `<span class="add">${text}</span>`;
+      if (line.startsWith('-') && !line.startsWith('---')) return `<span class="del">${text}</span>`;
+      if (line.startsWith('@@')) return `<span class="hunk">${text}</span>`;
+      return text;
+    })
+    .join('\n');
+}
+
+export function renderSessionHtml(bundle: SessionBundle): string {
+  const out: string[] = [
+    '<!DOCTYPE html>',
+    '<html lang="en"><head><meta charset="utf-8">',
+    `<title>${escapeHtml(bundle.session.name)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head><body>',
+    `<h1>${escapeHtml(bundle.session.name)}</h1>`,
+    '<ul>',
+    ...describeSession(bundle).map(([label, value]) => `<li><strong>${label}:</strong> ${escapeHtml(value)}</li>`),
+    '</ul>',
+    '<h2>Timeline</h2>',
+  ];
+
+  for (const block of buildTimelineBlocks(bundle.timelineEvents)) {
+    if (block.type === 'prompt') {
+      out.push(`<p class="meta">Prompt · ${escapeHtml(block.timestamp)}</p>`, `<div class="prompt">${escapeHtml(block.text)}</div>`);
+    } else if (block.type === 'reply') {
+      out.push(`<div class="reply">${escapeHtml(block.text)}</div>`);
+    } else if (block.type === 'command') {
+      const exit = block.exitCode !== undefined && block.exitCode !== 0 ? ` <span class="error">exit ${block.exitCode}</span>` : '';
+      out.push(`<pre>$ ${escapeHtml(block.command)}</pre>${exit}`);
+    } else {
+      const summary = `${block.isError ? '<span class="error">Failed tool</span>' : 'Tool'}: ${escapeHtml(block.name)}`;
+      out.push(`<details><summary>${summary}</summary>`);
+      if (block.input) out.push(`<pre>${escapeHtml(truncate(block.input, MAX_TOOL_OUTPUT_CHARS))}</pre>`);
+      if (block.output) out.push(`<pre>${escapeHtml(truncate(block.output, MAX_TOOL_OUTPUT_CHARS))}</pre>`);
+      out.push('</details>');
+    }
+  }
+
+  out.push('<h2>Commits</h2>');
+  if (bundle.commits.length === 0) {
+    out.push('<p><em>No commits.</em></p>');
+  } else {
+    out.push('<ul>', ...bundle.commits.map((commit) =>
+      `<li><code>${escapeHtml(commit.hash.slice(0, 10))}</code> ${escapeHtml(commit.message)} — ${escapeHtml(commit.author)}</li>`
+    ), '</ul>');
+  }
+  out.push('<h2>Final diff</h2>', bundle.finalDiff ? `<pre>${renderDiffHtml(bundle.finalDiff)}</pre>` : '<p><em>No changes.</em></p>');
+  out.push('</body></html>', '');
+  return out.join('\n');
+}
@@ -0,0 +1,278 @@
+/**
+ * CheckpointManager - Per-prompt worktree checkpoints with rollback and redo
+ *
+ * Before each prompt is sent, the worktree (tracked, modified and untracked
+ * files), the index and HEAD are captured as a stash-shaped commit kept alive by
+ * a hidden ref under refs/snowtree/checkpoints. Restoring a round moves HEAD back
+ * with a soft reset and rewrites the files; the index is only replaced when the
+ * caller asks for it. The state from before the first restore is kept in a
+ * single redo slot until redo is used or a new round starts. A session's
+ * checkpoints and refs are dropped when it is deleted or archived.
+ */
+
+import { EventEmitter } from 'events';
+import type { Session } from '@snowtree/core/types/session';
+import type { GitExecutor } from '../../executors/git';
+import type { DatabaseService } from '../../infrastructure/database/database';
+import type { SessionCheckpoint } from '../../infrastructure/database/models';
+import type { Logger } from '../../infrastructure/logging/logger';
+import type { SessionManager } from '../session/SessionManager';
+import { restoreWorktreeTree, snapshotWorktreeTree } from '../git/WorktreeSnapshot';
+
+export const CHECKPOINT_REF_PREFIX = 'refs/snowtree/checkpoints';
+
+export interface SessionCheckpoints {
+  sessionId: string;
+  rounds: SessionCheckpoint[];
+  redo: SessionCheckpoint | null;
+}
+
+export interface RestoreCheckpointOptions {
+  /** Also reset the index to the checkpoint's staged snapshot. */
+  restoreStaged?: boolean;
+}
+
+interface WorktreeState {
+  head: string;
+  snapshot: string;
+  worktreeTree: string;
+}
+
+// commit-tree needs an identity; checkpoints must work in repos without user.name set.
+const CHECKPOINT_IDENTITY = {
+  GIT_AUTHOR_NAME: 'snowtree',
+  GIT_AUTHOR_EMAIL: 'snowtree@localhost',
+  GIT_COMMITTER_NAME: 'snowtree',
+  GIT_COMMITTER_EMAIL: 'snowtree@localhost',
+};
+
+const BUSY_STATUSES = new Set<Session['status']>(['running', 'initializing']);
+
+export class CheckpointManager extends EventEmitter {
+  constructor(
+    private db: DatabaseService,
+    private sessionManager: SessionManager,
+    private gitExecutor: GitExecutor,
+    private logger?: Logger
+  ) {
+    super();
+    this.sessionManager.on('session-deleted', (data: { id?: string } | string) => {
+      const sessionId = typeof data === 'string' ? data : data?.id;
+      if (sessionId) void this.dropSession(sessionId);
+    });
+  }
+
+  list(sessionId: string): SessionCheckpoints {
+    return {
+      sessionId,
+      rounds: this.db.getSessionCheckpoints(sessionId, 'round'),
+      redo: this.db.getSessionCheckpoints(sessionId, 'redo')[0] ?? null,
+    };
+  }
+
+  /**
+   * Snapshot the worktree before the prompt just recorded on `panelId` runs.
+   * Failures are logged and swallowed so a checkpoint never blocks a prompt.
+   */
+  async captureRound(sessionId: string, panelId: string, worktreePath: string): Promise<SessionCheckpoint | null> {
+    try {
+      const state = await this.snapshot(sessionId, worktreePath);
+      if (!state) return null;
+
+      // A new round moves the session past the state the redo slot would return to.
+      await this.clearRedo(sessionId, worktreePath);
+
+      const checkpoint = this.db.addSessionCheckpoint({
+        session_id: sessionId,
+        panel_id: panelId,
+        kind: 'round',
+        prompt_seq: this.db.getLatestTimelineSeq(sessionId, 'chat.user', panelId),
+        head_commit: state.head,
+        snapshot_commit: state.snapshot,
+        ref_name: await this.pin(sessionId, worktreePath, state.snapshot),
+      });
+      this.emitUpdated(sessionId);
+      return checkpoint;
+    } catch (error) {
+      this.logger?.warn(`[Checkpoints] Failed to capture checkpoint for ${sessionId}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+
+  /**
+   * Put the worktree back to how it was before the given round started.
+   */
+  async restore(sessionId: string, checkpointId: number, options: RestoreCheckpointOptions = {}): Promise<void> {
+    const checkpoint = this.db.getSessionCheckpoint(checkpointId);
+    if (!checkpoint || checkpoint.session_id !== sessionId || checkpoint.kind !== 'round') {
+      throw new Error('Checkpoint not found');
+    }
+    const worktreePath = this.requireIdleWorktree(sessionId);
+
+    let current: WorktreeState | null;
+    if (this.db.getSessionCheckpoints(sessionId, 'redo').length === 0) {
+      current = await this.snapshot(sessionId, worktreePath);
+      if (!current) throw new Error('Cannot checkpoint a repository without commits');
+      this.db.addSessionCheckpoint({
+        session_id: sessionId,
+        panel_id: null,
+        kind: 'redo',
+        prompt_seq: null,
+        head_commit: current.head,
+        snapshot_commit: current.snapshot,
+        ref_name: await this.pin(sessionId, worktreePath, current.snapshot),
+      });
+    } else {
+      current = await this.currentState(worktreePath);
+    }
+
+    await this.apply(sessionId, worktreePath, current, checkpoint, options);
+    this.emitUpdated(sessionId);
+  }
+
+  /**
+   * Return to the state from before the first restore, then empty the redo slot.
+   */
+  async redo(sessionId: string, options: RestoreCheckpointOptions = {}): Promise<void> {
+    const redo = this.db.getSessionCheckpoints(sessionId, 'redo')[0];
+    if (!redo) throw new Error('Nothing to redo');
+    const worktreePath = this.requireIdleWorktree(sessionId);
+
+    await this.apply(sessionId, worktreePath, await this.currentState(worktreePath), redo, options);
+    await this.clearRedo(sessionId, worktreePath);
+    this.emitUpdated(sessionId);
+  }
+
+  /**
+   * Forget a session's checkpoints and delete the refs that keep their snapshots
+   * alive. The session row may already be gone, so every project's repository is
+   * searched for refs under the session's prefix.
+   */
+  async dropSession(sessionId: string): Promise<void> {
+    for (const kind of ['round', 'redo'] as const) {
+      for (const checkpoint of this.db.getSessionCheckpoints(sessionId, kind)) {
+        this.db.deleteSessionCheckpoint(checkpoint.id);
+      }
+    }
+
+    const prefix = `${CHECKPOINT_REF_PREFIX}/${sessionId}/`;
+    const meta = { source: 'checkpoints', operation: 'unpin', sessionId };
+    for (const project of this.db.getAllProjects()) {
+      try {
+        const refs = await this.readOutput(project.path, ['git', 'for-each-ref', '--format=%(refname)', prefix], meta);
+        for (const ref of refs.split('\n').filter(Boolean)) {
+          await this.readOutput(project.path, ['git', 'update-ref', '-d', ref], meta);
+        }
+      } catch (error) {
+        this.logger?.warn(`[Checkpoints] Failed to delete checkpoint refs of ${sessionId} in ${project.path}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  private requireIdleWorktree(sessionId: string): string {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session?.worktreePath) throw new Error('Session worktree not available');
+    if (BUSY_STATUSES.has(session.status)) throw new Error('Stop the agent before restoring a checkpoint');
+    return session.worktreePath;
+  }
+
+  private async apply(
+    sessionId: string,
+    cwd: string,
+    current: WorktreeState,
+    target: SessionCheckpoint,
+    options: RestoreCheckpointOptions
+  ): Promise<void> {
+    const meta = { source: 'checkpoints', operation: 'restore', checkpointId: target.id };
+    if (current.head !== target.head_commit) {
+      await this.gitExecutor.run({
+        sessionId,
+        cwd,
+        argv: ['git', 'reset', '--soft', target.head_commit],
+        op: 'write',
+        meta,
+      });
+    }
+    await restoreWorktreeTree(this.gitExecutor, cwd, current.worktreeTree, await this.revParse(cwd, `${target.snapshot_commit}^{tree}`), meta);
+    if (options.restoreStaged) {
+      await this.gitExecutor.run({
+        sessionId,
+        cwd,
+        argv: ['git', 'read-tree', `${target.snapshot_commit}^2^{tree}`],
+        op: 'write',
+        meta,
+      });
+    }
+  }
+
+  private async currentState(cwd: string): Promise<WorktreeState> {
+    const meta = { source: 'checkpoints', operation: 'snapshot' };
+    const worktreeTree = await snapshotWorktreeTree(this.gitExecutor, cwd, meta);
+    return { head: await this.revParse(cwd, 'HEAD'), snapshot: '', worktreeTree };
+  }
+
+  /**
+   * Record HEAD, the index and the worktree as one commit, laid out like `git stash`:
+   * the worktree tree with HEAD and an index commit as parents. Null when there is no HEAD yet.
+   */
+  private async snapshot(sessionId: string, cwd: string): Promise<WorktreeState | null> {
+    const meta = { source: 'checkpoints', operation: 'snapshot', sessionId };
+    let head: string;
+    try {
+      head = await this.revParse(cwd, 'HEAD');
+    } catch {
+      return null;
+    }
+
+    const worktreeTree = await snapshotWorktreeTree(this.gitExecutor, cwd, meta);
+    const indexTree = await this.readOutput(cwd, ['git', 'write-tree'], meta);
+    const indexCommit = await this.readOutput(
+      cwd,
+      ['git', 'commit-tree', indexTree, '-p', head, '-m', 'snowtree checkpoint index'],
+      meta
+    );
+    const snapshot = await this.readOutput(
+      cwd,
+      ['git', 'commit-tree', worktreeTree, '-p', head, '-p', indexCommit, '-m', 'snowtree checkpoint'],
+      meta
+    );
+    return { head, snapshot, worktreeTree };
+  }
+
+  private async pin(sessionId: string, cwd: string, snapshot: string): Promise<string> {
+    const refName = `${CHECKPOINT_REF_PREFIX}/${sessionId}/${snapshot}`;
+    await this.readOutput(cwd, ['git', 'update-ref', refName, snapshot], { source: 'checkpoints', operation: 'pin' });
+    return refName;
+  }
+
+  private async clearRedo(sessionId: string, cwd: string): Promise<void> {
+    for (const redo of this.db.getSessionCheckpoints(sessionId, 'redo')) {
+      this.db.deleteSessionCheckpoint(redo.id);
+      try {
+        await this.readOutput(cwd, ['git', 'update-ref', '-d', redo.ref_name], { source: 'checkpoints', operation: 'unpin' });
+      } catch (error) {
+        this.logger?.warn(`[Checkpoints] Failed to delete ${redo.ref_name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  private revParse(cwd: string, rev: string): Promise<string> {
+    return this.readOutput(cwd, ['git', 'rev-parse', '--verify', rev]);
+  }
+
+  private async readOutput(cwd: string, argv: string[], meta?: Record<string, unknown>): Promise<string> {
+    const { stdout } = await this.gitExecutor.run({
+      cwd,
+      argv,
+      op: 'read',
+      recordTimeline: false,
+      env: CHECKPOINT_IDENTITY,
+      meta,
+    });
+    return stdout.trim();
+  }
+
+  private emitUpdated(sessionId: string): void {
+    this.emit('updated', this.list(sessionId));
+  }
+}
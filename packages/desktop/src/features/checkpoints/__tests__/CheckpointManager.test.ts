@@ -0,0 +1,129 @@
+import { randomUUID } from 'node:crypto';
+import { EventEmitter } from 'node:events';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { cleanupDatabase, createMockDatabase } from '../../../__tests__/helpers/mockDatabase';
+import type { DatabaseService } from '../../../infrastructure/database/database';
+import { CheckpointManager } from '../CheckpointManager';
+
+const ok = (stdout = '') => ({ commandDisplay: '', commandCopy: '', stdout, stderr: '', exitCode: 0, durationMs: 0, operationId: 'op' });
+
+describe('CheckpointManager', () => {
+  let db: DatabaseService;
+  let sessionId: string;
+  let head: string;
+  let status: string;
+  let commits: number;
+  let gitExecutor: { run: ReturnType<typeof vi.fn> };
+  let sessionManager: EventEmitter;
+  let repoPath: string;
+  let manager: CheckpointManager;
+
+  const calls = () => gitExecutor.run.mock.calls.map(([opts]) => (opts.argv as string[]).join(' '));
+
+  beforeEach(() => {
+    db = createMockDatabase();
+    repoPath = `/tmp/snowtree-test-${randomUUID()}`;
+    const project = db.createProject('Test Project', repoPath);
+    sessionId = randomUUID();
+    db.createSession({ id: sessionId, name: 's', initial_prompt: '', worktree_name: 's', worktree_path: '/repo', project_id: project.id });
+    db.addTimelineEvent({ session_id: sessionId, panel_id: 'p1', timestamp: '2020-01-01T00:00:00.000Z', kind: 'chat.user', command: 'first' });
+
+    head = 'head1';
+    status = 'waiting';
+    commits = 0;
+    gitExecutor = {
+      run: vi.fn(async ({ argv, env }: { argv: string[]; env?: Record<string, string> }) => {
+        const cmd = argv.slice(1).join(' ');
+        if (cmd === 'rev-parse --verify HEAD') return ok(`${head}\n`);
+        if (cmd.startsWith('rev-parse --verify')) return ok('target-tree\n');
+        if (cmd === 'rev-parse --git-path index') return ok('.git/index\n');
+        if (cmd === 'write-tree') return ok(env?.GIT_INDEX_FILE ? `worktree-of-${head}\n` : 'index-tree\n');
+        if (cmd.startsWith('commit-tree')) return ok(`commit${++commits}\n`);
+        if (cmd.startsWith('for-each-ref')) return ok(`refs/snowtree/checkpoints/${sessionId}/commit2\nrefs/snowtree/checkpoints/${sessionId}/commit4\n`);
+        return ok();
+      }),
+    };
+    sessionManager = Object.assign(new EventEmitter(), {
+      getSession: vi.fn(() => ({ id: sessionId, worktreePath: '/repo', status })),
+    });
+    manager = new CheckpointManager(db, sessionManager as never, gitExecutor as never);
+  });
+
+  afterEach(() => {
+    cleanupDatabase(db);
+  });
+
+  it('captures a pinned, stash-shaped checkpoint for the prompt round', async () => {
+    const updated = vi.fn();
+    manager.on('updated', updated);
+
+    const checkpoint = await manager.captureRound(sessionId, 'p1', '/repo');
+
+    expect(checkpoint).toMatchObject({ kind: 'round', prompt_seq: 1, head_commit: 'head1', snapshot_commit: 'commit2' });
+    expect(calls()).toContain('git commit-tree worktree-of-head1 -p head1 -p commit1 -m snowtree checkpoint');
+    expect(calls()).toContain(`git update-ref refs/snowtree/checkpoints/${sessionId}/commit2 commit2`);
+    expect(updated).toHaveBeenCalledWith(expect.objectContaining({ sessionId, rounds: [checkpoint], redo: null }));
+  });
+
+  it('does not block the prompt when capturing fails', async () => {
+    gitExecutor.run.mockRejectedValue(new Error('not a git repository'));
+    await expect(manager.captureRound(sessionId, 'p1', '/repo')).resolves.toBeNull();
+    expect(manager.list(sessionId).rounds).toEqual([]);
+  });
+
+  it('restores a round without touching the index, then redoes', async () => {
+    const checkpoint = (await manager.captureRound(sessionId, 'p1', '/repo'))!;
+    head = 'head2';
+
+    await manager.restore(sessionId, checkpoint.id);
+    expect(calls()).toContain('git reset --soft head1');
+    expect(calls()).toContain('git checkout-index --all --force');
+    expect(calls().some((c) => c.startsWith('git read-tree commit'))).toBe(false);
+    const redo = manager.list(sessionId).redo;
+    expect(redo).toMatchObject({ kind: 'redo', head_commit: 'head2' });
+
+    // A second restore keeps the original redo state.
+    await manager.restore(sessionId, checkpoint.id, { restoreStaged: true });
+    expect(calls()).toContain(`git read-tree ${checkpoint.snapshot_commit}^2^{tree}`);
+    expect(manager.list(sessionId).redo?.id).toBe(redo!.id);
+
+    head = 'head1';
+    gitExecutor.run.mockClear();
+    await manager.redo(sessionId);
+    expect(calls()).toContain('git reset --soft head2');
+    expect(calls()).toContain(`git update-ref -d ${redo!.ref_name}`);
+    expect(manager.list(sessionId).redo).toBeNull();
+  });
+
+  it('drops the redo slot when a new round starts', async () => {
+    const checkpoint = (await manager.captureRound(sessionId, 'p1', '/repo'))!;
+    await manager.restore(sessionId, checkpoint.id);
+    expect(manager.list(sessionId).redo).not.toBeNull();
+
+    await manager.captureRound(sessionId, 'p1', '/repo');
+    expect(manager.list(sessionId).redo).toBeNull();
+    expect(manager.list(sessionId).rounds).toHaveLength(2);
+  });
+
+  it('refuses to restore while the agent is running', async () => {
+    const checkpoint = (await manager.captureRound(sessionId, 'p1', '/repo'))!;
+    status = 'running';
+    await expect(manager.restore(sessionId, checkpoint.id)).rejects.toThrow('Stop the agent');
+    await expect(manager.restore(sessionId, 999)).rejects.toThrow('Checkpoint not found');
+  });
+
+  it('deletes the checkpoints and their refs when the session is deleted or archived', async () => {
+    await manager.captureRound(sessionId, 'p1', '/repo');
+    gitExecutor.run.mockClear();
+
+    sessionManager.emit('session-deleted', { id: sessionId });
+
+    await vi.waitFor(() => expect(calls()).toContain(`git update-ref -d refs/snowtree/checkpoints/${sessionId}/commit4`));
+    expect(gitExecutor.run).toHaveBeenCalledWith(expect.objectContaining({
+      cwd: repoPath,
+      argv: ['git', 'for-each-ref', '--format=%(refname)', `refs/snowtree/checkpoints/${sessionId}/`],
+    }));
+    expect(calls()).toContain(`git update-ref -d refs/snowtree/checkpoints/${sessionId}/commit2`);
+    expect(manager.list(sessionId).rounds).toEqual([]);
+  });
+});
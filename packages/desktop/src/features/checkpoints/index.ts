@@ -0,0 +1,2 @@
+export { CheckpointManager, CHECKPOINT_REF_PREFIX } from './CheckpointManager';
+export type { SessionCheckpoints, RestoreCheckpointOptions } from './CheckpointManager';
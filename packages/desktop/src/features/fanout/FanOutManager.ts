@@ -0,0 +1,235 @@
+/**
+ * FanOutManager - Compare and resolve sibling sessions started from one prompt
+ *
+ * A fan-out groups its sessions in a folder and starts every worktree from the
+ * same base commit. To compare results, each worktree (including uncommitted and
+ * untracked files) is snapshotted into a tree object (see WorktreeSnapshot),
+ * so siblings can be diffed against the base and against each other without
+ * touching the worktrees themselves.
+ */
+
+import type { Session } from '@snowtree/core/types/session';
+import type { GitExecutor } from '../../executors/git';
+import type { DatabaseService } from '../../infrastructure/database/database';
+import type { Logger } from '../../infrastructure/logging/logger';
+import type { GitDiffStats } from '../git/DiffManager';
+import { snapshotWorktreeTree } from '../git/WorktreeSnapshot';
+import type { SessionManager } from '../session/SessionManager';
+import type { WorktreeManager } from '../worktree/WorktreeManager';
+
+export interface FanOutSibling {
+  sessionId: string;
+  name: string;
+  toolType?: string;
+  status: Session['status'];
+  stats: GitDiffStats;
+  files: string[];
+  error?: string;
+}
+
+export interface FanOutPair {
+  a: string;
+  b: string;
+  stats: GitDiffStats;
+}
+
+export interface FanOutComparison {
+  folderId: string;
+  baseCommit: string | null;
+  siblings: FanOutSibling[];
+  pairs: FanOutPair[];
+}
+
+const EMPTY_STATS: GitDiffStats = { additions: 0, deletions: 0, filesChanged: 0 };
+
+export function parseShortstat(output: string): GitDiffStats {
+  const files = output.match(/(\d+) files? changed/);
+  const additions = output.match(/(\d+) insertions?\(\+\)/);
+  const deletions = output.match(/(\d+) deletions?\(-\)/);
+  return {
+    filesChanged: files ? Number(files[1]) : 0,
+    additions: additions ? Number(additions[1]) : 0,
+    deletions: deletions ? Number(deletions[1]) : 0,
+  };
+}
+
+export class FanOutManager {
+  constructor(
+    private db: DatabaseService,
+    private sessionManager: SessionManager,
+    private worktreeManager: WorktreeManager,
+    private gitExecutor: GitExecutor,
+    private logger?: Logger
+  ) {}
+
+  /**
+   * Active (non-archived) sessions in a fan-out folder, oldest first.
+   */
+  getSiblings(folderId: string): Session[] {
+    return this.sessionManager
+      .getAllSessions()
+      .filter((session) => session.folderId === folderId)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  /**
+   * Diff stats for every sibling against the shared base, plus pairwise stats between siblings.
+   */
+  async compare(folderId: string): Promise<FanOutComparison> {
+    const siblings = this.requireSiblings(folderId);
+    const baseCommit = siblings.find((s) => s.baseCommit)?.baseCommit ?? null;
+    const repoPath = this.getRepoPath(siblings[0]);
+
+    const trees = new Map<string, string>();
+    const results: FanOutSibling[] = [];
+    for (const session of siblings) {
+      const result: FanOutSibling = {
+        sessionId: session.id,
+        name: session.name,
+        toolType: session.toolType,
+        status: session.status,
+        stats: EMPTY_STATS,
+        files: [],
+      };
+      try {
+        const tree = await this.snapshotTree(session);
+        trees.set(session.id, tree);
+        if (baseCommit) {
+          result.stats = await this.diffStats(repoPath, baseCommit, tree);
+          result.files = await this.changedFiles(repoPath, baseCommit, tree);
+        }
+      } catch (error) {
+        result.error = error instanceof Error ? error.message : String(error);
+        this.logger?.warn(`[FanOut] Failed to snapshot session ${session.id}: ${result.error}`);
+      }
+      results.push(result);
+    }
+
+    const pairs: FanOutPair[] = [];
+    for (let i = 0; i < siblings.length; i++) {
+      for (let j = i + 1; j < siblings.length; j++) {
+        const a = trees.get(siblings[i].id);
+        const b = trees.get(siblings[j].id);
+        if (!a || !b) continue;
+        pairs.push({ a: siblings[i].id, b: siblings[j].id, stats: await this.diffStats(repoPath, a, b) });
+      }
+    }
+
+    return { folderId, baseCommit, siblings: results, pairs };
+  }
+
+  /**
+   * Unified diff from one sibling (or the shared base when `fromSessionId` is null) to another.
+   */
+  async diff(folderId: string, fromSessionId: string | null, toSessionId: string): Promise<string> {
+    const siblings = this.requireSiblings(folderId);
+    const to = this.requireSibling(siblings, toSessionId);
+    const repoPath = this.getRepoPath(to);
+
+    let fromRef: string;
+    if (fromSessionId) {
+      fromRef = await this.snapshotTree(this.requireSibling(siblings, fromSessionId));
+    } else {
+      const baseCommit = siblings.find((s) => s.baseCommit)?.baseCommit;
+      if (!baseCommit) throw new Error('Fan-out base commit is unknown');
+      fromRef = baseCommit;
+    }
+    const toRef = await this.snapshotTree(to);
+
+    const res = await this.gitExecutor.run({
+      cwd: repoPath,
+      argv: ['git', 'diff', '--no-color', '--no-ext-diff', fromRef, toRef],
+      op: 'read',
+      recordTimeline: false,
+      meta: { source: 'fanout', operation: 'diff' },
+    });
+    return res.stdout;
+  }
+
+  /**
+   * Keep the winner as a regular session and archive the other siblings.
+   * Loser worktrees are removed but their branches are kept, so results stay recoverable.
+   */
+  async promote(
+    folderId: string,
+    winnerSessionId: string,
+    stopSession?: (sessionId: string) => Promise<void>
+  ): Promise<{ archivedSessionIds: string[] }> {
+    const siblings = this.requireSiblings(folderId);
+    const winner = this.requireSibling(siblings, winnerSessionId);
+
+    const archivedSessionIds: string[] = [];
+    for (const session of siblings) {
+      if (session.id === winner.id) continue;
+      try {
+        await stopSession?.(session.id);
+      } catch (error) {
+        this.logger?.warn(`[FanOut] Failed to stop session ${session.id}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      const project = this.sessionManager.getProjectForSession(session.id);
+      if (project?.path && session.worktreePath && session.worktreePath !== project.path) {
+        try {
+          await this.worktreeManager.removeWorktreePath(project.path, session.worktreePath, session.id);
+        } catch (error) {
+          this.logger?.warn(`[FanOut] Failed to remove worktree ${session.worktreePath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      await this.sessionManager.archiveSession(session.id);
+      archivedSessionIds.push(session.id);
+    }
+
+    this.sessionManager.updateSession(winner.id, { folderId: null });
+    this.db.deleteFolder(folderId);
+
+    return { archivedSessionIds };
+  }
+
+  // Write the worktree's current contents to a tree object without touching its real index.
+  private async snapshotTree(session: Session): Promise<string> {
+    const cwd = session.worktreePath;
+    if (!cwd) throw new Error(`Session ${session.id} has no worktree`);
+    return snapshotWorktreeTree(this.gitExecutor, cwd, { source: 'fanout', operation: 'snapshot' });
+  }
+
+  private async diffStats(cwd: string, from: string, to: string): Promise<GitDiffStats> {
+    const res = await this.gitExecutor.run({
+      cwd,
+      argv: ['git', 'diff', '--shortstat', from, to],
+      op: 'read',
+      recordTimeline: false,
+    });
+    return parseShortstat(res.stdout);
+  }
+
+  private async changedFiles(cwd: string, from: string, to: string): Promise<string[]> {
+    const res = await this.gitExecutor.run({
+      cwd,
+      argv: ['git', 'diff', '--name-only', from, to],
+      op: 'read',
+      recordTimeline: false,
+    });
+    return res.stdout.split('\n').map((line) => line.trim()).filter(Boolean);
+  }
+
+  private getRepoPath(session: Session): string {
+    return this.sessionManager.getProjectForSession(session.id)?.path || session.worktreePath;
+  }
+
+  private requireSiblings(folderId: string): Session[] {
+    const siblings = this.getSiblings(folderId);
+    if (siblings.length === 0) {
+      throw new Error('No sessions found for this fan-out');
+    }
+    return siblings;
+  }
+
+  private requireSibling(siblings: Session[], sessionId: string): Session {
+    const session = siblings.find((s) => s.id === sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} is not part of this fan-out`);
+    }
+    return session;
+  }
+}
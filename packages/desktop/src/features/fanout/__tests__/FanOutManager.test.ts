@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { FanOutManager, parseShortstat } from '../FanOutManager';
+
+const ok = (stdout = '') => ({ commandDisplay: '', commandCopy: '', stdout, stderr: '', exitCode: 0, durationMs: 0, operationId: 'op' });
+
+const session = (id: string, createdAt: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  name: `oslo-${id}`,
+  worktreePath: `/repo/worktrees/${id}`,
+  status: 'waiting',
+  toolType: 'claude',
+  createdAt: new Date(createdAt),
+  folderId: 'folder-1',
+  baseCommit: 'base123',
+  ...overrides,
+});
+
+describe('FanOutManager', () => {
+  let sessions: ReturnType<typeof session>[];
+  let sessionManager: any;
+  let gitExecutor: any;
+  let worktreeManager: any;
+  let db: any;
+  let manager: FanOutManager;
+
+  beforeEach(() => {
+    sessions = [
+      session('b', '2026-01-01T00:00:02Z', { toolType: 'codex' }),
+      session('a', '2026-01-01T00:00:01Z'),
+      session('other', '2026-01-01T00:00:00Z', { folderId: undefined }),
+    ];
+    sessionManager = {
+      getAllSessions: vi.fn(() => sessions),
+      getProjectForSession: vi.fn(() => ({ id: 1, path: '/repo' })),
+      archiveSession: vi.fn(async () => undefined),
+      updateSession: vi.fn(),
+    };
+    gitExecutor = {
+      run: vi.fn(async ({ cwd, argv }: { cwd: string; argv: string[] }) => {
+        const cmd = argv.join(' ');
+        if (cmd === 'git rev-parse --git-path index') return ok('/nonexistent/index\n');
+        if (cmd === 'git write-tree') return ok(`tree-${cwd.split('/').pop()}\n`);
+        if (cmd.startsWith('git diff --shortstat base123')) return ok(' 2 files changed, 5 insertions(+), 1 deletion(-)\n');
+        if (cmd.startsWith('git diff --shortstat')) return ok(' 1 file changed, 3 insertions(+)\n');
+        if (cmd.startsWith('git diff --name-only')) return ok('src/a.ts\nsrc/b.ts\n');
+        return ok();
+      }),
+    };
+    worktreeManager = { removeWorktreePath: vi.fn(async () => undefined) };
+    db = { deleteFolder: vi.fn() };
+    manager = new FanOutManager(db, sessionManager, worktreeManager, gitExecutor);
+  });
+
+  it('parses git shortstat output', () => {
+    expect(parseShortstat(' 3 files changed, 10 insertions(+), 2 deletions(-)')).toEqual({ filesChanged: 3, additions: 10, deletions: 2 });
+    expect(parseShortstat(' 1 file changed, 1 deletion(-)')).toEqual({ filesChanged: 1, additions: 0, deletions: 1 });
+    expect(parseShortstat('')).toEqual({ filesChanged: 0, additions: 0, deletions: 0 });
+  });
+
+  it('compares siblings against the base and each other using worktree snapshots', async () => {
+    const result = await manager.compare('folder-1');
+
+    expect(result.baseCommit).toBe('base123');
+    expect(result.siblings.map((s) => s.sessionId)).toEqual(['a', 'b']);
+    expect(result.siblings[0]).toMatchObject({
+      toolType: 'claude',
+      stats: { filesChanged: 2, additions: 5, deletions: 1 },
+      files: ['src/a.ts', 'src/b.ts'],
+    });
+    expect(result.pairs).toEqual([{ a: 'a', b: 'b', stats: { filesChanged: 1, additions: 3, deletions: 0 } }]);
+
+    // Snapshots go through a throwaway index so the worktree's own index is untouched.
+    const addCall = gitExecutor.run.mock.calls.find(([opts]: any[]) => opts.argv.join(' ') === 'git add -A')[0];
+    expect(addCall.env.GIT_INDEX_FILE).toMatch(/snowtree-snapshot-.*\.index$/);
+    expect(gitExecutor.run).toHaveBeenCalledWith(expect.objectContaining({ argv: ['git', 'diff', '--shortstat', 'tree-a', 'tree-b'] }));
+  });
+
+  it('diffs a sibling against the base commit or another sibling', async () => {
+    await manager.diff('folder-1', null, 'b');
+    expect(gitExecutor.run).toHaveBeenLastCalledWith(expect.objectContaining({
+      cwd: '/repo',
+      argv: ['git', 'diff', '--no-color', '--no-ext-diff', 'base123', 'tree-b'],
+    }));
+
+    await manager.diff('folder-1', 'a', 'b');
+    expect(gitExecutor.run).toHaveBeenLastCalledWith(expect.objectContaining({
+      argv: ['git', 'diff', '--no-color', '--no-ext-diff', 'tree-a', 'tree-b'],
+    }));
+
+    await expect(manager.diff('folder-1', null, 'other')).rejects.toThrow(/not part of this fan-out/);
+  });
+
+  it('promotes the winner and archives the other siblings', async () => {
+    const stopSession = vi.fn(async () => undefined);
+
+    const result = await manager.promote('folder-1', 'a', stopSession);
+
+    expect(result).toEqual({ archivedSessionIds: ['b'] });
+    expect(stopSession).toHaveBeenCalledWith('b');
+    expect(worktreeManager.removeWorktreePath).toHaveBeenCalledWith('/repo', '/repo/worktrees/b', 'b');
+    expect(sessionManager.archiveSession).toHaveBeenCalledWith('b');
+    expect(sessionManager.archiveSession).not.toHaveBeenCalledWith('a');
+    expect(sessionManager.updateSession).toHaveBeenCalledWith('a', { folderId: null });
+    expect(db.deleteFolder).toHaveBeenCalledWith('folder-1');
+  });
+});
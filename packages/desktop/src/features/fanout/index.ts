@@ -0,0 +1,2 @@
+export { FanOutManager, parseShortstat } from './FanOutManager';
+export type { FanOutSibling, FanOutPair, FanOutComparison } from './FanOutManager';
@@ -0,0 +1,246 @@
+import type { GitExecutor } from '../../executors/git';
+import type {
+  CreatePullRequestOptions,
+  ForgeCheck,
+  ForgeContext,
+  ForgeHead,
+  ForgeProvider,
+  ForgePullRequest,
+  ForgeRepo,
+  ForgeResult,
+  ForgeReviewComment,
+} from './types';
+
+/**
+ * Parse gh pr checks 'state' field to status and conclusion
+ * gh pr checks state values: SUCCESS, FAILURE, PENDING, IN_PROGRESS, SKIPPED, CANCELLED, etc
+ */
+export function parseGhCheckState(state?: string): Pick<ForgeCheck, 'status' | 'conclusion'> {
+  const s = state?.toUpperCase();
+  switch (s) {
+    case 'PENDING':
+    case 'QUEUED':
+    case 'WAITING':
+      return { status: 'queued', conclusion: null };
+    case 'IN_PROGRESS':
+      return { status: 'in_progress', conclusion: null };
+    case 'SUCCESS':
+      return { status: 'completed', conclusion: 'success' };
+    case 'FAILURE':
+    case 'ERROR':
+      return { status: 'completed', conclusion: 'failure' };
+    case 'CANCELLED':
+      return { status: 'completed', conclusion: 'cancelled' };
+    case 'SKIPPED':
+      return { status: 'completed', conclusion: 'skipped' };
+    case 'NEUTRAL':
+      return { status: 'completed', conclusion: 'neutral' };
+    case 'TIMED_OUT':
+      return { status: 'completed', conclusion: 'timed_out' };
+    case 'ACTION_REQUIRED':
+      return { status: 'completed', conclusion: 'action_required' };
+    default:
+      // Unknown state, treat as completed with null conclusion
+      return { status: 'completed', conclusion: null };
+  }
+}
+
+const REVIEW_THREADS_QUERY = `query($owner: String!, $name: String!, $number: Int!) {
+  repository(owner: $owner, name: $name) {
+    pullRequest(number: $number) {
+      reviewThreads(first: 100) {
+        nodes {
+          id
+          isResolved
+          path
+          line
+          comments(first: 50) {
+            nodes { author { login } body url createdAt }
+          }
+        }
+      }
+    }
+  }
+}`;
+
+type GhReviewThread = {
+  id?: string;
+  isResolved?: boolean;
+  path?: string;
+  line?: number | null;
+  comments?: { nodes?: Array<{ author?: { login?: string } | null; body?: string; url?: string; createdAt?: string }> };
+};
+
+/**
+ * GitHub through the `gh` CLI (github.com and GitHub Enterprise hosts).
+ */
+export class GitHubForge implements ForgeProvider {
+  readonly kind = 'github' as const;
+
+  constructor(private gitExecutor: GitExecutor) {}
+
+  async findPullRequest(ctx: ForgeContext, repo: ForgeRepo, head: ForgeHead): Promise<ForgePullRequest | null> {
+    const res = await this.gh(ctx, ['pr', 'view', '--repo', this.repoArg(repo), this.headRef(head), '--json', 'number,url,state,isDraft,title,body'], 'remote-pr');
+    if (res.exitCode !== 0) return null;
+
+    const raw = (res.stdout || '').trim();
+    if (!raw) return null;
+
+    try {
+      const parsed = JSON.parse(raw) as { number?: unknown; url?: unknown; state?: unknown; isDraft?: unknown; title?: unknown; body?: unknown } | null;
+      const number = parsed && typeof parsed.number === 'number' ? parsed.number : null;
+      const url = parsed && typeof parsed.url === 'string' ? parsed.url : '';
+      if (!number || !url) return null;
+
+      const ghState = typeof parsed?.state === 'string' ? parsed.state.toUpperCase() : '';
+      const isDraft = typeof parsed?.isDraft === 'boolean' ? parsed.isDraft : false;
+      return {
+        number,
+        url,
+        state: ghState === 'MERGED' ? 'merged' : isDraft ? 'draft' : 'open',
+        title: typeof parsed?.title === 'string' ? parsed.title : '',
+        body: typeof parsed?.body === 'string' ? parsed.body : '',
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  async getChecks(ctx: ForgeContext, repo: ForgeRepo, head: ForgeHead): Promise<ForgeCheck[] | null> {
+    // gh pr checks --json returns: name, workflow, state (SUCCESS/FAILURE/PENDING/etc), startedAt, completedAt, link
+    const res = await this.gh(ctx, [
+      'pr', 'checks',
+      '--repo', this.repoArg(repo),
+      this.headRef(head),
+      '--json', 'name,state,startedAt,completedAt,link,workflow',
+    ], 'ci-status-checks');
+    if (res.exitCode !== 0) return null;
+
+    const raw = res.stdout?.trim();
+    if (!raw) return null;
+
+    try {
+      const checksData = JSON.parse(raw) as Array<{
+        name?: string;
+        workflow?: string;
+        state?: string;
+        startedAt?: string;
+        completedAt?: string;
+        link?: string;
+      }>;
+      if (!Array.isArray(checksData)) return null;
+
+      // gh pr checks uses 'state' for the combined status/conclusion
+      return checksData.map((c, idx) => ({
+        id: idx,
+        name: c.name || 'Unknown',
+        workflow: c.workflow || null,
+        ...parseGhCheckState(c.state),
+        startedAt: c.startedAt || null,
+        completedAt: c.completedAt || null,
+        detailsUrl: c.link || null,
+      }));
+    } catch {
+      return null;
+    }
+  }
+
+  async markReady(ctx: ForgeContext, repo: ForgeRepo, head: ForgeHead): Promise<ForgeResult> {
+    const res = await this.gh(ctx, ['pr', 'ready', '--repo', this.repoArg(repo), this.headRef(head)], 'mark-pr-ready', 'write');
+    if (res.exitCode === 0) return { success: true };
+    return { success: false, error: (res.stderr || res.stdout).trim() || 'gh pr ready failed' };
+  }
+
+  async createPullRequest(ctx: ForgeContext, repo: ForgeRepo, options: CreatePullRequestOptions): Promise<ForgePullRequest> {
+    const argv = [
+      'pr', 'create',
+      '--repo', this.repoArg(repo),
+      '--base', options.base,
+      '--head', this.headRef(options.head),
+      '--title', options.title,
+      '--body', options.body,
+    ];
+    if (options.draft) argv.push('--draft');
+
+    const res = await this.gh(ctx, argv, 'create-pr', 'write');
+    if (res.exitCode !== 0) {
+      throw new Error((res.stderr || res.stdout).trim() || 'gh pr create failed');
+    }
+    const created = await this.findPullRequest(ctx, repo, options.head);
+    if (created) return created;
+
+    const url = res.stdout.trim().split('\n').pop() || '';
+    const number = parseInt(url.split('/').pop() || '', 10);
+    return { number, url, state: options.draft ? 'draft' : 'open', title: options.title, body: options.body };
+  }
+
+  async getReviewComments(ctx: ForgeContext, repo: ForgeRepo, number: number): Promise<ForgeReviewComment[] | null> {
+    // Resolution state of review threads is only exposed through GraphQL
+    const argv = [
+      'api', 'graphql',
+      '-f', `query=${REVIEW_THREADS_QUERY}`,
+      '-F', `owner=${repo.owner}`,
+      '-F', `name=${repo.name}`,
+      '-F', `number=${number}`,
+    ];
+    if (repo.host !== 'github.com') argv.push('--hostname', repo.host);
+
+    const res = await this.gh(ctx, argv, 'review-comments');
+    if (res.exitCode !== 0) return null;
+
+    try {
+      const parsed = JSON.parse(res.stdout.trim()) as {
+        data?: { repository?: { pullRequest?: { reviewThreads?: { nodes?: GhReviewThread[] } } | null } | null };
+      };
+      const threads = parsed.data?.repository?.pullRequest?.reviewThreads?.nodes;
+      if (!Array.isArray(threads)) return null;
+
+      const comments: ForgeReviewComment[] = [];
+      for (const thread of threads) {
+        const [first, ...rest] = thread.comments?.nodes ?? [];
+        if (thread.isResolved || !thread.id || !thread.path || !first) continue;
+        comments.push({
+          id: thread.id,
+          path: thread.path,
+          line: typeof thread.line === 'number' ? thread.line : null,
+          author: first.author?.login || 'unknown',
+          body: first.body || '',
+          url: first.url || null,
+          createdAt: first.createdAt || null,
+          replies: rest.map((c) => ({ author: c.author?.login || 'unknown', body: c.body || '' })),
+        });
+      }
+      return comments;
+    } catch {
+      return null;
+    }
+  }
+
+  commitUrl(repo: ForgeRepo, commitHash: string): string {
+    return `https://${repo.host}/${repo.owner}/${repo.name}/commit/${commitHash}`;
+  }
+
+  /** gh takes OWNER/REPO for github.com and HOST/OWNER/REPO for Enterprise hosts. */
+  private repoArg(repo: ForgeRepo): string {
+    const ownerRepo = `${repo.owner}/${repo.name}`;
+    return repo.host === 'github.com' ? ownerRepo : `${repo.host}/${ownerRepo}`;
+  }
+
+  /** Branches of a fork are addressed as "<owner>:<branch>" on the target repository. */
+  private headRef(head: ForgeHead): string {
+    return head.owner ? `${head.owner}:${head.branch}` : head.branch;
+  }
+
+  private gh(ctx: ForgeContext, args: string[], operation: string, op: 'read' | 'write' = 'read') {
+    return this.gitExecutor.run({
+      sessionId: ctx.sessionId,
+      cwd: ctx.cwd,
+      argv: ['gh', ...args],
+      op,
+      recordTimeline: op === 'write',
+      throwOnError: false,
+      timeoutMs: op === 'write' ? 30_000 : 8_000,
+      meta: { source: 'ipc.git', operation },
+    });
+  }
+}
@@ -0,0 +1,216 @@
+import type { GitExecutor } from '../../executors/git';
+import type {
+  CreatePullRequestOptions,
+  ForgeCheck,
+  ForgeContext,
+  ForgeHead,
+  ForgeProvider,
+  ForgePullRequest,
+  ForgeRepo,
+  ForgeResult,
+  ForgeReviewComment,
+} from './types';
+
+type GlabMergeRequest = {
+  iid?: unknown;
+  web_url?: unknown;
+  state?: unknown;
+  draft?: unknown;
+  work_in_progress?: unknown;
+  title?: unknown;
+  description?: unknown;
+};
+
+type GlabJob = {
+  id?: number;
+  name?: string;
+  stage?: string;
+  status?: string;
+  started_at?: string | null;
+  finished_at?: string | null;
+  web_url?: string;
+};
+
+type GlabNote = {
+  id?: number;
+  body?: string;
+  author?: { username?: string } | null;
+  created_at?: string;
+  system?: boolean;
+  resolvable?: boolean;
+  resolved?: boolean;
+  position?: { new_path?: string; old_path?: string; new_line?: number | null } | null;
+};
+
+/**
+ * Map a GitLab job status to check status and conclusion.
+ * Job statuses: created, pending, waiting_for_resource, preparing, scheduled,
+ * manual, running, success, failed, canceled, skipped
+ */
+export function parseGitLabJobStatus(status?: string): Pick<ForgeCheck, 'status' | 'conclusion'> {
+  switch (status?.toLowerCase()) {
+    case 'created':
+    case 'pending':
+    case 'waiting_for_resource':
+    case 'preparing':
+    case 'scheduled':
+      return { status: 'queued', conclusion: null };
+    case 'running':
+      return { status: 'in_progress', conclusion: null };
+    case 'success':
+      return { status: 'completed', conclusion: 'success' };
+    case 'failed':
+      return { status: 'completed', conclusion: 'failure' };
+    case 'canceled':
+      return { status: 'completed', conclusion: 'cancelled' };
+    case 'skipped':
+      return { status: 'completed', conclusion: 'skipped' };
+    case 'manual':
+      return { status: 'completed', conclusion: 'action_required' };
+    default:
+      return { status: 'completed', conclusion: null };
+  }
+}
+
+/**
+ * GitLab (gitlab.com and self-hosted) through the `glab` CLI. Merge requests
+ * are looked up by source branch; glab finds them for fork branches as well.
+ */
+export class GitLabForge implements ForgeProvider {
+  readonly kind = 'gitlab' as const;
+
+  constructor(private gitExecutor: GitExecutor) {}
+
+  async findPullRequest(ctx: ForgeContext, repo: ForgeRepo, head: ForgeHead): Promise<ForgePullRequest | null> {
+    const res = await this.glab(ctx, repo, ['mr', 'view', head.branch, '--repo', this.repoArg(repo), '--output', 'json'], 'remote-pr');
+    if (res.exitCode !== 0) return null;
+
+    try {
+      const mr = JSON.parse(res.stdout.trim()) as GlabMergeRequest | null;
+      const number = typeof mr?.iid === 'number' ? mr.iid : null;
+      const url = typeof mr?.web_url === 'string' ? mr.web_url : '';
+      if (!number || !url) return null;
+
+      const isDraft = mr?.draft === true || mr?.work_in_progress === true;
+      return {
+        number,
+        url,
+        state: mr?.state === 'merged' ? 'merged' : isDraft ? 'draft' : 'open',
+        title: typeof mr?.title === 'string' ? mr.title : '',
+        body: typeof mr?.description === 'string' ? mr.description : '',
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  async getChecks(ctx: ForgeContext, repo: ForgeRepo, head: ForgeHead): Promise<ForgeCheck[] | null> {
+    // Jobs of the latest pipeline on the branch
+    const res = await this.glab(ctx, repo, ['ci', 'get', '--branch', head.branch, '--repo', this.repoArg(repo), '--output', 'json'], 'ci-status-checks');
+    if (res.exitCode !== 0) return null;
+
+    try {
+      const pipeline = JSON.parse(res.stdout.trim()) as { jobs?: GlabJob[] } | null;
+      if (!pipeline || !Array.isArray(pipeline.jobs)) return null;
+      return pipeline.jobs.map((job, idx) => ({
+        id: typeof job.id === 'number' ? job.id : idx,
+        name: job.name || 'Unknown',
+        workflow: job.stage || null,
+        ...parseGitLabJobStatus(job.status),
+        startedAt: job.started_at || null,
+        completedAt: job.finished_at || null,
+        detailsUrl: job.web_url || null,
+      }));
+    } catch {
+      return null;
+    }
+  }
+
+  async markReady(ctx: ForgeContext, repo: ForgeRepo, head: ForgeHead): Promise<ForgeResult> {
+    const res = await this.glab(ctx, repo, ['mr', 'update', head.branch, '--ready', '--repo', this.repoArg(repo)], 'mark-pr-ready', 'write');
+    if (res.exitCode === 0) return { success: true };
+    return { success: false, error: (res.stderr || res.stdout).trim() || 'glab mr update failed' };
+  }
+
+  async createPullRequest(ctx: ForgeContext, repo: ForgeRepo, options: CreatePullRequestOptions): Promise<ForgePullRequest> {
+    const argv = [
+      'mr', 'create',
+      '--repo', this.repoArg(repo),
+      '--source-branch', options.head.branch,
+      '--target-branch', options.base,
+      '--title', options.title,
+      '--description', options.body,
+      '--yes',
+    ];
+    if (options.head.owner) argv.push('--head', `${options.head.owner}/${repo.name}`);
+    if (options.draft) argv.push('--draft');
+
+    const res = await this.glab(ctx, repo, argv, 'create-pr', 'write');
+    if (res.exitCode !== 0) {
+      throw new Error((res.stderr || res.stdout).trim() || 'glab mr create failed');
+    }
+    const created = await this.findPullRequest(ctx, repo, options.head);
+    if (created) return created;
+
+    const url = res.stdout.match(/https?:\/\/\S+\/-\/merge_requests\/\d+/)?.[0] || '';
+    const number = parseInt(url.split('/').pop() || '', 10);
+    return { number, url, state: options.draft ? 'draft' : 'open', title: options.title, body: options.body };
+  }
+
+  async getReviewComments(ctx: ForgeContext, repo: ForgeRepo, number: number): Promise<ForgeReviewComment[] | null> {
+    const project = encodeURIComponent(`${repo.owner}/${repo.name}`);
+    const res = await this.glab(ctx, repo, ['api', `projects/${project}/merge_requests/${number}/discussions?per_page=100`], 'review-comments');
+    if (res.exitCode !== 0) return null;
+
+    try {
+      const discussions = JSON.parse(res.stdout.trim()) as Array<{ id?: string; notes?: GlabNote[] }>;
+      if (!Array.isArray(discussions)) return null;
+
+      const comments: ForgeReviewComment[] = [];
+      for (const discussion of discussions) {
+        const notes = (discussion.notes ?? []).filter((note) => !note.system);
+        const [first, ...rest] = notes;
+        // Only diff discussions that still need resolving
+        const path = first?.position?.new_path || first?.position?.old_path;
+        if (!discussion.id || !first || !path || !first.resolvable || first.resolved) continue;
+        comments.push({
+          id: discussion.id,
+          path,
+          line: typeof first.position?.new_line === 'number' ? first.position.new_line : null,
+          author: first.author?.username || 'unknown',
+          body: first.body || '',
+          url: first.id ? `https://${repo.host}/${repo.owner}/${repo.name}/-/merge_requests/${number}#note_${first.id}` : null,
+          createdAt: first.created_at || null,
+          replies: rest.map((note) => ({ author: note.author?.username || 'unknown', body: note.body || '' })),
+        });
+      }
+      return comments;
+    } catch {
+      return null;
+    }
+  }
+
+  commitUrl(repo: ForgeRepo, commitHash: string): string {
+    return `https://${repo.host}/${repo.owner}/${repo.name}/-/commit/${commitHash}`;
+  }
+
+  /** glab takes GROUP/REPO on gitlab.com and the full URL for self-hosted instances. */
+  private repoArg(repo: ForgeRepo): string {
+    const path = `${repo.owner}/${repo.name}`;
+    return repo.host === 'gitlab.com' ? path : `https://${repo.host}/${path}`;
+  }
+
+  private glab(ctx: ForgeContext, repo: ForgeRepo, args: string[], operation: string, op: 'read' | 'write' = 'read') {
+    return this.gitExecutor.run({
+      sessionId: ctx.sessionId,
+      cwd: ctx.cwd,
+      argv: ['glab', ...args],
+      op,
+      recordTimeline: op === 'write',
+      throwOnError: false,
+      timeoutMs: op === 'write' ? 30_000 : 8_000,
+      env: { GITLAB_HOST: repo.host, NO_PROMPT: '1' },
+      meta: { source: 'ipc.git', operation },
+    });
+  }
+}
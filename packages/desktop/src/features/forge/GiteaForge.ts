@@ -0,0 +1,231 @@
+import type {
+  CreatePullRequestOptions,
+  ForgeCheck,
+  ForgeContext,
+  ForgeHead,
+  ForgeHostConfig,
+  ForgeProvider,
+  ForgePullRequest,
+  ForgeRepo,
+  ForgeResult,
+  ForgeReviewComment,
+} from './types';
+
+type GiteaPullRequest = {
+  number: number;
+  html_url: string;
+  state: 'open' | 'closed';
+  merged?: boolean;
+  draft?: boolean;
+  title?: string;
+  body?: string;
+  head?: { ref?: string; sha?: string; repo?: { owner?: { login?: string } } | null };
+};
+
+type GiteaCommitStatus = {
+  id?: number;
+  context?: string;
+  status?: string;
+  target_url?: string;
+  created_at?: string;
+  updated_at?: string;
+};
+
+type GiteaReviewComment = {
+  id?: number;
+  body?: string;
+  user?: { login?: string } | null;
+  path?: string;
+  position?: number;
+  html_url?: string;
+  created_at?: string;
+  resolver?: unknown;
+};
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const PULL_PAGE_SIZE = 50;
+
+// Gitea marks work-in-progress pull requests with a title prefix.
+const WIP_PREFIX = /^\s*(?:WIP:|\[WIP\])\s*/i;
+
+/**
+ * Map a Gitea commit status to check status and conclusion.
+ * Statuses: pending, success, error, failure, warning
+ */
+export function parseGiteaCommitStatus(status?: string): Pick<ForgeCheck, 'status' | 'conclusion'> {
+  switch (status?.toLowerCase()) {
+    case 'pending':
+      return { status: 'queued', conclusion: null };
+    case 'success':
+      return { status: 'completed', conclusion: 'success' };
+    case 'error':
+    case 'failure':
+      return { status: 'completed', conclusion: 'failure' };
+    case 'warning':
+      return { status: 'completed', conclusion: 'neutral' };
+    default:
+      return { status: 'completed', conclusion: null };
+  }
+}
+
+function toPullRequest(pr: GiteaPullRequest): ForgePullRequest {
+  const title = pr.title || '';
+  const isDraft = pr.draft === true || WIP_PREFIX.test(title);
+  return {
+    number: pr.number,
+    url: pr.html_url,
+    state: pr.merged ? 'merged' : isDraft ? 'draft' : 'open',
+    title,
+    body: pr.body || '',
+  };
+}
+
+/**
+ * Gitea and Forgejo (including Codeberg) through the REST API. The token and
+ * API URL come from the configured forge host. GITEA_TOKEN is only sent to a
+ * configured host or the one named in GITEA_HOST; hosts recognized by name
+ * alone are queried without a token.
+ */
+export class GiteaForge implements ForgeProvider {
+  readonly kind = 'gitea' as const;
+
+  constructor(private hosts: () => ForgeHostConfig[] = () => []) {}
+
+  async findPullRequest(_ctx: ForgeContext, repo: ForgeRepo, head: ForgeHead): Promise<ForgePullRequest | null> {
+    const pr = await this.findGiteaPull(repo, head).catch(() => null);
+    return pr ? toPullRequest(pr) : null;
+  }
+
+  async getChecks(_ctx: ForgeContext, repo: ForgeRepo, head: ForgeHead): Promise<ForgeCheck[] | null> {
+    try {
+      const pr = await this.findGiteaPull(repo, head);
+      const sha = pr?.head?.sha;
+      if (!sha) return null;
+
+      const combined = await this.request<{ statuses?: GiteaCommitStatus[] }>(repo, 'GET', `${this.repoPath(repo)}/commits/${encodeURIComponent(sha)}/status`);
+      if (!Array.isArray(combined.statuses)) return null;
+      return combined.statuses.map((s, idx) => {
+        const parsed = parseGiteaCommitStatus(s.status);
+        return {
+          id: typeof s.id === 'number' ? s.id : idx,
+          name: s.context || 'Unknown',
+          workflow: null,
+          ...parsed,
+          startedAt: s.created_at || null,
+          completedAt: parsed.status === 'completed' ? s.updated_at || null : null,
+          detailsUrl: s.target_url || null,
+        };
+      });
+    } catch {
+      return null;
+    }
+  }
+
+  async markReady(_ctx: ForgeContext, repo: ForgeRepo, head: ForgeHead): Promise<ForgeResult> {
+    try {
+      const pr = await this.findGiteaPull(repo, head);
+      if (!pr) return { success: false, error: 'No pull request found for this branch' };
+      const title = pr.title || '';
+      if (!WIP_PREFIX.test(title)) return { success: true };
+      await this.request(repo, 'PATCH', `${this.repoPath(repo)}/pulls/${pr.number}`, { title: title.replace(WIP_PREFIX, '') });
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to mark pull request ready' };
+    }
+  }
+
+  async createPullRequest(_ctx: ForgeContext, repo: ForgeRepo, options: CreatePullRequestOptions): Promise<ForgePullRequest> {
+    const pr = await this.request<GiteaPullRequest>(repo, 'POST', `${this.repoPath(repo)}/pulls`, {
+      head: options.head.owner ? `${options.head.owner}:${options.head.branch}` : options.head.branch,
+      base: options.base,
+      title: options.draft ? `WIP: ${options.title}` : options.title,
+      body: options.body,
+    });
+    return toPullRequest(pr);
+  }
+
+  async getReviewComments(_ctx: ForgeContext, repo: ForgeRepo, number: number): Promise<ForgeReviewComment[] | null> {
+    try {
+      const pullPath = `${this.repoPath(repo)}/pulls/${number}`;
+      const reviews = await this.request<Array<{ id?: number }>>(repo, 'GET', `${pullPath}/reviews`);
+      if (!Array.isArray(reviews)) return null;
+
+      const comments: ForgeReviewComment[] = [];
+      for (const review of reviews) {
+        if (typeof review.id !== 'number') continue;
+        const reviewComments = await this.request<GiteaReviewComment[]>(repo, 'GET', `${pullPath}/reviews/${review.id}/comments`);
+        for (const c of Array.isArray(reviewComments) ? reviewComments : []) {
+          // Gitea has no threads; every unresolved line comment stands alone
+          if (typeof c.id !== 'number' || !c.path || c.resolver) continue;
+          comments.push({
+            id: String(c.id),
+            path: c.path,
+            line: typeof c.position === 'number' && c.position > 0 ? c.position : null,
+            author: c.user?.login || 'unknown',
+            body: c.body || '',
+            url: c.html_url || null,
+            createdAt: c.created_at || null,
+            replies: [],
+          });
+        }
+      }
+      return comments.sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || ''));
+    } catch {
+      return null;
+    }
+  }
+
+  commitUrl(repo: ForgeRepo, commitHash: string): string {
+    return `https://${repo.host}/${repo.owner}/${repo.name}/commit/${commitHash}`;
+  }
+
+  /** Most recently updated pull request from the branch, open ones first. */
+  private async findGiteaPull(repo: ForgeRepo, head: ForgeHead): Promise<GiteaPullRequest | null> {
+    const pulls = await this.request<GiteaPullRequest[]>(
+      repo,
+      'GET',
+      `${this.repoPath(repo)}/pulls?state=all&sort=recentupdate&limit=${PULL_PAGE_SIZE}`
+    );
+    if (!Array.isArray(pulls)) return null;
+    const matches = pulls.filter((pr) => {
+      if (pr.head?.ref !== head.branch) return false;
+      const owner = pr.head.repo?.owner?.login;
+      return head.owner ? owner === head.owner : !owner || owner === repo.owner;
+    });
+    return matches.find((pr) => pr.state === 'open') ?? matches[0] ?? null;
+  }
+
+  private repoPath(repo: ForgeRepo): string {
+    return `/repos/${encodeURIComponent(repo.owner)}/${encodeURIComponent(repo.name)}`;
+  }
+
+  private async request<T>(repo: ForgeRepo, method: string, apiPath: string, body?: unknown): Promise<T> {
+    const config = this.hosts().find((h) => h.host.toLowerCase() === repo.host);
+    const apiUrl = (config?.apiUrl || `https://${repo.host}/api/v1`).replace(/\/+$/, '');
+    const envHost = process.env.GITEA_HOST?.trim().toLowerCase();
+    const envToken = config || (envHost && envHost === repo.host) ? process.env.GITEA_TOKEN : undefined;
+    const token = config?.token || envToken;
+
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (token) headers.Authorization = `token ${token}`;
+    if (body !== undefined) headers['Content-Type'] = 'application/json';
+
+    const res = await fetch(`${apiUrl}${apiPath}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!res.ok) {
+      const text = await res.text().catch(() => '');
+      let message = text;
+      try {
+        message = (JSON.parse(text) as { message?: string }).message || text;
+      } catch {
+        // Not JSON
+      }
+      throw new Error(`Gitea API ${method} ${apiPath} failed (${res.status})${message ? `: ${message}` : ''}`);
+    }
+    return (await res.json()) as T;
+  }
+}
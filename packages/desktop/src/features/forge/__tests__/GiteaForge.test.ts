@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { GiteaForge } from '../GiteaForge';
+import type { ForgeRepo } from '../types';
+
+type Pull = {
+  number: number;
+  html_url: string;
+  state: 'open' | 'closed';
+  merged?: boolean;
+  title: string;
+  body?: string;
+  head: { ref: string; sha: string; repo: { owner: { login: string } } };
+};
+
+const ctx = { sessionId: 's1', cwd: '/wt/s1' };
+
+describe('GiteaForge', () => {
+  let server: http.Server;
+  let host: string;
+  let repo: ForgeRepo;
+  let pulls: Pull[];
+  let requests: Array<{ method: string; url: string; auth?: string; body?: any }>;
+
+  const pull = (number: number, ref: string, extra: Partial<Pull> = {}): Pull => ({
+    number,
+    html_url: `http://${host}/owner/repo/pulls/${number}`,
+    state: 'open',
+    title: `PR ${number}`,
+    head: { ref, sha: `sha${number}`, repo: { owner: { login: 'owner' } } },
+    ...extra,
+  });
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => { raw += chunk; });
+      req.on('end', () => {
+        const body = raw ? JSON.parse(raw) : undefined;
+        requests.push({ method: req.method || '', url: req.url || '', auth: req.headers.authorization, body });
+        const send = (status: number, data: unknown) => {
+          res.writeHead(status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(data));
+        };
+
+        const url = req.url || '';
+        if (req.method === 'GET' && url.startsWith('/api/v1/repos/owner/repo/pulls?')) return send(200, pulls);
+        if (req.method === 'GET' && url === '/api/v1/repos/owner/repo/commits/sha2/status') {
+          return send(200, {
+            statuses: [
+              { id: 7, context: 'ci/build', status: 'success', target_url: 'http://ci/7', created_at: 'a', updated_at: 'b' },
+              { id: 8, context: 'ci/test', status: 'pending', created_at: 'c', updated_at: 'd' },
+            ],
+          });
+        }
+        if (req.method === 'PATCH' && url === '/api/v1/repos/owner/repo/pulls/2') return send(200, { ...pulls[1], ...body });
+        if (req.method === 'POST' && url === '/api/v1/repos/owner/repo/pulls') {
+          if (!body.title) return send(422, { message: 'title is required' });
+          return send(201, pull(9, 'feature', { title: body.title, body: body.body }));
+        }
+        send(404, { message: 'not found' });
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    host = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+    repo = { kind: 'gitea', host, owner: 'owner', name: 'repo' };
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    pulls = [
+      pull(1, 'feature', { state: 'closed' }),
+      pull(2, 'feature', { title: 'WIP: Add feature' }),
+      pull(3, 'other'),
+    ];
+  });
+
+  const createForge = () => new GiteaForge(() => [{ host, kind: 'gitea', apiUrl: `http://${host}/api/v1`, token: 'secret' }]);
+
+  it('finds the open pull request of the branch and sends the configured token', async () => {
+    const pr = await createForge().findPullRequest(ctx, repo, { branch: 'feature', owner: null });
+
+    expect(pr).toEqual({ number: 2, url: `http://${host}/owner/repo/pulls/2`, state: 'draft', title: 'WIP: Add feature', body: '' });
+    expect(requests[0].auth).toBe('token secret');
+  });
+
+  it('sends GITEA_TOKEN only to configured hosts and GITEA_HOST', async () => {
+    const saved = { token: process.env.GITEA_TOKEN, host: process.env.GITEA_HOST };
+    process.env.GITEA_TOKEN = 'env-secret';
+    delete process.env.GITEA_HOST;
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    try {
+      await new GiteaForge(() => [{ host, kind: 'gitea', apiUrl: `http://${host}/api/v1` }]).findPullRequest(ctx, repo, { branch: 'feature', owner: null });
+      expect(requests[0].auth).toBe('token env-secret');
+
+      // Codeberg is recognized by name only, so the token could belong to another server.
+      fetchSpy.mockImplementation(async () => new Response('[]', { status: 200 }));
+      const codeberg: ForgeRepo = { kind: 'gitea', host: 'codeberg.org', owner: 'owner', name: 'repo' };
+      const authOf = (call: number) => (fetchSpy.mock.calls[call][1]?.headers as Record<string, string>).Authorization;
+      await new GiteaForge().findPullRequest(ctx, codeberg, { branch: 'feature', owner: null });
+      expect(authOf(1)).toBeUndefined();
+
+      process.env.GITEA_HOST = 'codeberg.org';
+      await new GiteaForge().findPullRequest(ctx, codeberg, { branch: 'feature', owner: null });
+      expect(authOf(2)).toBe('token env-secret');
+    } finally {
+      fetchSpy.mockRestore();
+      for (const [key, value] of [['GITEA_TOKEN', saved.token], ['GITEA_HOST', saved.host]] as const) {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+      }
+    }
+  });
+
+  it('matches fork branches by the head repository owner', async () => {
+    const pr = await createForge().findPullRequest(ctx, repo, { branch: 'feature', owner: 'someone-else' });
+    expect(pr).toBeNull();
+  });
+
+  it('maps commit statuses of the pull request head to checks', async () => {
+    const checks = await createForge().getChecks(ctx, repo, { branch: 'feature', owner: null });
+
+    expect(checks).toEqual([
+      { id: 7, name: 'ci/build', workflow: null, status: 'completed', conclusion: 'success', startedAt: 'a', completedAt: 'b', detailsUrl: 'http://ci/7' },
+      { id: 8, name: 'ci/test', workflow: null, status: 'queued', conclusion: null, startedAt: 'c', completedAt: null, detailsUrl: null },
+    ]);
+  });
+
+  it('marks a pull request ready by dropping the WIP prefix', async () => {
+    const result = await createForge().markReady(ctx, repo, { branch: 'feature', owner: null });
+
+    expect(result).toEqual({ success: true });
+    expect(requests.at(-1)).toMatchObject({ method: 'PATCH', url: '/api/v1/repos/owner/repo/pulls/2', body: { title: 'Add feature' } });
+  });
+
+  it('creates draft pull requests with a WIP title', async () => {
+    const pr = await createForge().createPullRequest(ctx, repo, {
+      head: { branch: 'feature', owner: null }, base: 'main', title: 'Add feature', body: 'Details', draft: true,
+    });
+
+    expect(pr).toMatchObject({ number: 9, state: 'draft', title: 'WIP: Add feature', body: 'Details' });
+    expect(requests.at(-1)?.body).toEqual({ head: 'feature', base: 'main', title: 'WIP: Add feature', body: 'Details' });
+  });
+
+  it('surfaces API errors with the server message', async () => {
+    await expect(createForge().createPullRequest(ctx, repo, {
+      head: { branch: 'feature', owner: null }, base: 'main', title: '', body: '', draft: false,
+    })).rejects.toThrow('Gitea API POST /repos/owner/repo/pulls failed (422): title is required');
+  });
+});
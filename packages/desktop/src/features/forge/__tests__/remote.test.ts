@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { detectForgeKind, formatForgeRepo, parseForgeRemote, parseForgeRepo } from '../remote';
+
+describe('forge remotes', () => {
+  it('parses GitHub SSH and HTTPS remotes', () => {
+    expect(parseForgeRemote('git@github.com:owner/repo.git')).toEqual({ kind: 'github', host: 'github.com', owner: 'owner', name: 'repo' });
+    expect(parseForgeRemote('https://github.com/owner/repo')).toEqual({ kind: 'github', host: 'github.com', owner: 'owner', name: 'repo' });
+  });
+
+  it('keeps nested GitLab groups in the owner', () => {
+    expect(parseForgeRemote('git@gitlab.com:group/sub/repo.git')).toEqual({ kind: 'gitlab', host: 'gitlab.com', owner: 'group/sub', name: 'repo' });
+  });
+
+  it('recognizes Gitea hosts and keeps the web port of HTTP remotes', () => {
+    expect(parseForgeRemote('https://codeberg.org/owner/repo.git')?.kind).toBe('gitea');
+    expect(parseForgeRemote('ssh://git@gitea.internal:2222/owner/repo.git')).toEqual({ kind: 'gitea', host: 'gitea.internal', owner: 'owner', name: 'repo' });
+    expect(parseForgeRemote('http://localhost:3000/owner/repo.git', [{ host: 'localhost:3000', kind: 'gitea' }])).toEqual({
+      kind: 'gitea', host: 'localhost:3000', owner: 'owner', name: 'repo',
+    });
+  });
+
+  it('returns null for unknown hosts and local paths', () => {
+    expect(parseForgeRemote('git@git.example.com:owner/repo.git')).toBeNull();
+    expect(parseForgeRemote('/srv/git/repo.git')).toBeNull();
+    expect(parseForgeRemote('')).toBeNull();
+  });
+
+  it('lets configured hosts override detection', () => {
+    expect(detectForgeKind('git.example.com', [{ host: 'git.example.com', kind: 'gitlab' }])).toBe('gitlab');
+    expect(detectForgeKind('github.example.com', [{ host: 'github.example.com', kind: 'gitea' }])).toBe('gitea');
+  });
+
+  it('round-trips repositories through the stored slug', () => {
+    const github = { kind: 'github' as const, host: 'github.com', owner: 'owner', name: 'repo' };
+    const gitlab = { kind: 'gitlab' as const, host: 'gitlab.example.com', owner: 'group/sub', name: 'repo' };
+
+    expect(formatForgeRepo(github)).toBe('owner/repo');
+    expect(formatForgeRepo(gitlab)).toBe('gitlab.example.com/group/sub/repo');
+    expect(parseForgeRepo('owner/repo')).toEqual(github);
+    expect(parseForgeRepo('gitlab.example.com/group/sub/repo')).toEqual(gitlab);
+    expect(parseForgeRepo('git.example.com/owner/repo')).toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+import type { GitExecutor } from '../../executors/git';
+import { GitHubForge } from './GitHubForge';
+import { GitLabForge } from './GitLabForge';
+import { GiteaForge } from './GiteaForge';
+import { parseForgeRepo, readForgeHosts } from './remote';
+import type { ForgeHostConfig, ForgeKind, ForgeProvider, ForgeRepo } from './types';
+
+/**
+ * Picks the forge provider for a repository stored with a session.
+ * Configured hosts are re-read on every lookup so Settings changes apply at once.
+ */
+export class ForgeRegistry {
+  private providers: Record<ForgeKind, ForgeProvider>;
+
+  constructor(gitExecutor: GitExecutor, private hosts: () => ForgeHostConfig[] = readForgeHosts) {
+    this.providers = {
+      github: new GitHubForge(gitExecutor),
+      gitlab: new GitLabForge(gitExecutor),
+      gitea: new GiteaForge(hosts),
+    };
+  }
+
+  resolve(ownerRepo: string | null | undefined): { provider: ForgeProvider; repo: ForgeRepo } | null {
+    const repo = parseForgeRepo(ownerRepo, this.hosts());
+    return repo ? { provider: this.providers[repo.kind], repo } : null;
+  }
+}
+
+export { GitHubForge, parseGhCheckState } from './GitHubForge';
+export { GitLabForge, parseGitLabJobStatus } from './GitLabForge';
+export { GiteaForge, parseGiteaCommitStatus } from './GiteaForge';
+export { parseForgeRemote, parseForgeRepo, formatForgeRepo, detectForgeKind, forgeRepoUrl, readForgeHosts } from './remote';
+export type {
+  ForgeKind,
+  ForgeRepo,
+  ForgeProvider,
+  ForgePullRequest,
+  ForgePullRequestState,
+  ForgeCheck,
+  ForgeReviewComment,
+  ForgeReviewReply,
+  ForgeHead,
+  ForgeContext,
+  ForgeResult,
+  ForgeHostConfig,
+  CreatePullRequestOptions,
+} from './types';
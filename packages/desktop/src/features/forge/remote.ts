@@ -0,0 +1,116 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { ForgeHostConfig, ForgeKind, ForgeRepo } from './types';
+
+const SETTINGS_FILE = path.join(os.homedir(), '.snowtree', 'settings.json');
+
+const FORGE_KINDS: ForgeKind[] = ['github', 'gitlab', 'gitea'];
+
+// scp-like SSH remotes: git@host:owner/repo.git
+const SCP_LIKE_REMOTE = /^(?:[^@/\s]+@)?([^:/\s]+):(?!\/)(.+)$/;
+
+/**
+ * Self-hosted forges configured in Settings (`forgeHosts` in ~/.snowtree/settings.json).
+ */
+export function readForgeHosts(): ForgeHostConfig[] {
+  try {
+    if (!fs.existsSync(SETTINGS_FILE)) return [];
+    const settings = JSON.parse(fs.readFileSync(SETTINGS_FILE, 'utf8'));
+    const hosts: unknown = settings?.forgeHosts;
+    if (!Array.isArray(hosts)) return [];
+    return hosts.filter((h): h is ForgeHostConfig =>
+      Boolean(h) && typeof h.host === 'string' && h.host.trim() !== '' && FORGE_KINDS.includes(h.kind)
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Which forge serves `host`. Configured hosts win; otherwise the well-known
+ * hosts and host names mentioning the forge are recognized.
+ */
+export function detectForgeKind(host: string, hosts: ForgeHostConfig[] = []): ForgeKind | null {
+  const normalized = host.trim().toLowerCase();
+  const configured = hosts.find((h) => h.host.trim().toLowerCase() === normalized);
+  if (configured) return configured.kind;
+
+  const hostname = normalized.split(':')[0];
+  if (hostname.includes('github')) return 'github';
+  if (hostname.includes('gitlab')) return 'gitlab';
+  if (hostname === 'codeberg.org' || hostname.includes('gitea') || hostname.includes('forgejo')) return 'gitea';
+  return null;
+}
+
+function splitRepoPath(kind: ForgeKind, repoPath: string): { owner: string; name: string } | null {
+  const segments = repoPath.replace(/\/+$/, '').replace(/\.git$/, '').split('/').filter(Boolean);
+  if (segments.length < 2) return null;
+  // Only GitLab nests repositories in (sub)groups.
+  if (kind !== 'gitlab' && segments.length !== 2) return null;
+  const name = segments.pop() as string;
+  return { owner: segments.join('/'), name };
+}
+
+/**
+ * Parse a git remote URL (scp-like SSH, ssh://, https://) into a forge repository.
+ * Returns null for local paths and hosts that are not a known forge.
+ */
+export function parseForgeRemote(remoteUrl: string, hosts: ForgeHostConfig[] = []): ForgeRepo | null {
+  const trimmed = remoteUrl.trim();
+  if (!trimmed) return null;
+
+  let host: string;
+  let repoPath: string;
+  const scp = !trimmed.includes('://') ? trimmed.match(SCP_LIKE_REMOTE) : null;
+  if (scp) {
+    host = scp[1];
+    repoPath = scp[2];
+  } else {
+    try {
+      const url = new URL(trimmed);
+      // The port of an SSH remote is not the web port.
+      host = url.protocol === 'http:' || url.protocol === 'https:' ? url.host : url.hostname;
+      repoPath = decodeURIComponent(url.pathname);
+    } catch {
+      return null;
+    }
+  }
+
+  host = host.toLowerCase();
+  if (!host) return null;
+  const kind = detectForgeKind(host, hosts);
+  if (!kind) return null;
+  const parts = splitRepoPath(kind, repoPath);
+  return parts ? { kind, host, ...parts } : null;
+}
+
+/**
+ * The repository as stored with the session (`owner_repo`): `owner/name` on
+ * github.com, `host/owner/name` anywhere else.
+ */
+export function formatForgeRepo(repo: ForgeRepo): string {
+  const ownerRepo = `${repo.owner}/${repo.name}`;
+  return repo.kind === 'github' && repo.host === 'github.com' ? ownerRepo : `${repo.host}/${ownerRepo}`;
+}
+
+/**
+ * Inverse of formatForgeRepo.
+ */
+export function parseForgeRepo(slug: string | null | undefined, hosts: ForgeHostConfig[] = []): ForgeRepo | null {
+  const segments = (slug || '').trim().split('/').filter(Boolean);
+  if (segments.length === 2) {
+    return { kind: 'github', host: 'github.com', owner: segments[0], name: segments[1] };
+  }
+  if (segments.length < 3) return null;
+  const host = segments[0].toLowerCase();
+  const kind = detectForgeKind(host, hosts);
+  if (!kind) return null;
+  const parts = splitRepoPath(kind, segments.slice(1).join('/'));
+  return parts ? { kind, host, ...parts } : null;
+}
+
+/** Web URL of the repository. */
+export function forgeRepoUrl(repo: ForgeRepo): string {
+  return `https://${repo.host}/${repo.owner}/${repo.name}`;
+}
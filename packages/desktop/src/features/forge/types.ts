@@ -0,0 +1,107 @@
+export type ForgeKind = 'github' | 'gitlab' | 'gitea';
+
+/** A repository on a forge, parsed from a git remote URL. */
+export interface ForgeRepo {
+  kind: ForgeKind;
+  host: string;
+  /** User, organization or (GitLab) group path */
+  owner: string;
+  name: string;
+}
+
+/** Closed but unmerged pull requests count as open. */
+export type ForgePullRequestState = 'draft' | 'open' | 'merged';
+
+export interface ForgePullRequest {
+  number: number;
+  url: string;
+  state: ForgePullRequestState;
+  title: string;
+  body: string;
+}
+
+export interface ForgeCheck {
+  id: number;
+  name: string;
+  workflow: string | null;
+  status: 'queued' | 'in_progress' | 'completed';
+  conclusion: 'success' | 'failure' | 'neutral' | 'cancelled' | 'skipped' | 'timed_out' | 'action_required' | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  detailsUrl: string | null;
+}
+
+/** A reply in a review thread. */
+export interface ForgeReviewReply {
+  author: string;
+  body: string;
+}
+
+/**
+ * An unresolved review comment thread on a pull request, anchored to a file
+ * line. `line` is on the new side of the diff, or null when the thread is on
+ * the whole file or its line no longer exists.
+ */
+export interface ForgeReviewComment {
+  /** Forge-specific id of the thread, stable across fetches */
+  id: string;
+  path: string;
+  line: number | null;
+  author: string;
+  body: string;
+  url: string | null;
+  createdAt: string | null;
+  replies: ForgeReviewReply[];
+}
+
+/** The branch a pull request comes from. */
+export interface ForgeHead {
+  branch: string;
+  /** Owner of the fork holding the branch, when it is not the target repository */
+  owner: string | null;
+}
+
+export interface CreatePullRequestOptions {
+  head: ForgeHead;
+  base: string;
+  title: string;
+  body: string;
+  draft: boolean;
+}
+
+/** Where forge CLIs run; commands are attributed to the session. */
+export interface ForgeContext {
+  sessionId: string;
+  cwd: string;
+}
+
+export interface ForgeResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Pull request and CI operations of one forge. Lookups resolve with null when
+ * there is nothing to show (no PR, CLI missing, not signed in); actions report
+ * failures in their result.
+ */
+export interface ForgeProvider {
+  readonly kind: ForgeKind;
+  findPullRequest(ctx: ForgeContext, repo: ForgeRepo, head: ForgeHead): Promise<ForgePullRequest | null>;
+  getChecks(ctx: ForgeContext, repo: ForgeRepo, head: ForgeHead): Promise<ForgeCheck[] | null>;
+  markReady(ctx: ForgeContext, repo: ForgeRepo, head: ForgeHead): Promise<ForgeResult>;
+  createPullRequest(ctx: ForgeContext, repo: ForgeRepo, options: CreatePullRequestOptions): Promise<ForgePullRequest>;
+  /** Unresolved review threads on pull request `number`, oldest first. */
+  getReviewComments(ctx: ForgeContext, repo: ForgeRepo, number: number): Promise<ForgeReviewComment[] | null>;
+  commitUrl(repo: ForgeRepo, commitHash: string): string;
+}
+
+/** A self-hosted forge the host name alone does not identify. */
+export interface ForgeHostConfig {
+  host: string;
+  kind: ForgeKind;
+  /** Gitea API base URL; defaults to https://<host>/api/v1 */
+  apiUrl?: string;
+  /** Gitea access token */
+  token?: string;
+}
@@ -0,0 +1,272 @@
+import { EventEmitter } from 'events';
+import type { Session } from '@snowtree/core/types/session';
+import type { Logger } from '../../infrastructure/logging/logger';
+import type { SessionManager } from '../session/SessionManager';
+import type { GitExecutor, GitRunResult } from '../../executors/git';
+import type { GitStatusManager } from './StatusManager';
+import type { GitWorkflowManager } from './WorkflowManager';
+
+export interface SessionUpstreamStatus {
+  sessionId: string;
+  /** Remote-tracking ref the session is compared with, e.g. origin/main */
+  baseRef: string;
+  /** Commits on baseRef the session branch does not have */
+  behind: number;
+  /** No uncommitted changes to tracked files */
+  clean: boolean;
+  /** Files a merge with baseRef would conflict in; [] when it merges cleanly, null when unknown */
+  conflicts: string[] | null;
+}
+
+export interface ProjectUpstreamStatus {
+  projectId: number;
+  /** When the last check finished (ISO); null before the first one */
+  checkedAt: string | null;
+  /** Why the last fetch failed (offline, auth); the previous results are kept */
+  error: string | null;
+  /** Tip of each base ref after the last successful fetch */
+  heads: Record<string, string>;
+  sessions: SessionUpstreamStatus[];
+}
+
+export interface UpstreamRebaseResult {
+  sessionId: string;
+  success: boolean;
+  error?: string;
+  conflict?: boolean;
+}
+
+export interface UpstreamWatcherSettings {
+  /** Minutes between background fetches; 0 turns the watcher off */
+  intervalMinutes: number;
+}
+
+const FETCH_TIMEOUT_MS = 60_000;
+
+type BaseGroup = { remote: string; baseBranch: string; sessions: Session[] };
+
+type CachedComparison = { key: string; behind: number; conflicts: string[] | null };
+
+/**
+ * UpstreamWatcher - Notice when the remote base branch moves
+ *
+ * Periodically fetches each project's base branches (origin, or upstream for
+ * forks) from the main repository and compares every session worktree with
+ * the remote-tracking ref: how far behind it is, whether it has local
+ * changes, and which files a rebase would conflict in (predicted with
+ * `git merge-tree`, without touching the worktree). A failed fetch keeps the
+ * previous results so the watcher stays quiet offline. Clean sessions that
+ * would not conflict can be rebased in one batch.
+ */
+export class UpstreamWatcher extends EventEmitter {
+  private statuses = new Map<number, ProjectUpstreamStatus>();
+  private inFlight = new Map<number, Promise<ProjectUpstreamStatus>>();
+  /** Last comparison per session, reused while neither HEAD nor the base ref moved */
+  private comparisons = new Map<string, CachedComparison>();
+  private timer: NodeJS.Timeout | null = null;
+  private intervalMinutes = 0;
+
+  constructor(
+    private sessionManager: SessionManager,
+    private gitExecutor: GitExecutor,
+    private gitWorkflowManager: GitWorkflowManager,
+    private gitStatusManager: GitStatusManager,
+    private logger?: Logger
+  ) {
+    super();
+  }
+
+  /**
+   * Apply the fetch interval. Restarts the timer and checks right away when it changed.
+   */
+  configure(settings: UpstreamWatcherSettings): void {
+    const minutes = Number.isFinite(settings.intervalMinutes) ? Math.max(0, settings.intervalMinutes) : 0;
+    if (minutes === this.intervalMinutes && (this.timer || minutes === 0)) return;
+
+    this.stop();
+    this.intervalMinutes = minutes;
+    if (minutes === 0) return;
+
+    this.timer = setInterval(() => void this.checkAll(), minutes * 60_000);
+    void this.checkAll();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getStatus(projectId: number): ProjectUpstreamStatus {
+    return this.statuses.get(projectId) ?? { projectId, checkedAt: null, error: null, heads: {}, sessions: [] };
+  }
+
+  async checkAll(): Promise<void> {
+    const projectIds = new Set(
+      this.sessionManager.getAllSessions()
+        .map((s) => s.projectId)
+        .filter((id): id is number => typeof id === 'number')
+    );
+    for (const projectId of projectIds) {
+      await this.checkProject(projectId).catch((error) => {
+        this.logger?.warn(`[Upstream] Check failed for project ${projectId}: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }
+  }
+
+  /**
+   * Fetch the project's base branches and compare every session worktree with them.
+   * Concurrent calls for the same project share one run.
+   */
+  checkProject(projectId: number, options: { fetch?: boolean } = {}): Promise<ProjectUpstreamStatus> {
+    const running = this.inFlight.get(projectId);
+    if (running) return running;
+
+    const run = this.runCheck(projectId, options.fetch ?? true).finally(() => {
+      this.inFlight.delete(projectId);
+    });
+    this.inFlight.set(projectId, run);
+    return run;
+  }
+
+  /**
+   * Rebase every session that is behind, has no local changes, is not running
+   * and would not conflict. Sessions are updated one at a time.
+   */
+  async rebaseCleanSessions(projectId: number): Promise<UpstreamRebaseResult[]> {
+    const status = await this.checkProject(projectId, { fetch: false });
+    const results: UpstreamRebaseResult[] = [];
+
+    for (const entry of status.sessions) {
+      if (entry.behind === 0 || !entry.clean || !entry.conflicts || entry.conflicts.length > 0) continue;
+      const session = this.sessionManager.getSession(entry.sessionId);
+      if (!session?.worktreePath || session.status === 'running' || session.status === 'initializing') continue;
+
+      const slash = entry.baseRef.indexOf('/');
+      const result = await this.gitWorkflowManager.updateFromBase({
+        worktreePath: session.worktreePath,
+        sessionId: session.id,
+        remote: entry.baseRef.slice(0, slash),
+        baseBranch: entry.baseRef.slice(slash + 1),
+        strategy: 'rebase',
+      });
+      results.push({ sessionId: session.id, success: result.success, error: result.error, conflict: result.conflict });
+      void this.gitStatusManager.refreshSessionGitStatus(session.id, false);
+    }
+
+    if (results.length > 0) {
+      await this.checkProject(projectId, { fetch: false });
+    }
+    return results;
+  }
+
+  private async runCheck(projectId: number, fetch: boolean): Promise<ProjectUpstreamStatus> {
+    const project = this.sessionManager.getProjectById(projectId);
+    const previous = this.getStatus(projectId);
+    if (!project?.path) return previous;
+
+    const groups = this.groupSessions(projectId);
+    const heads: Record<string, string> = {};
+    const sessions: SessionUpstreamStatus[] = [];
+    let error: string | null = null;
+
+    for (const group of groups.values()) {
+      const baseRef = `${group.remote}/${group.baseBranch}`;
+
+      if (fetch) {
+        const fetchRes = await this.git(project.path, ['git', 'fetch', '--quiet', group.remote, group.baseBranch], 'write', FETCH_TIMEOUT_MS);
+        if (fetchRes.exitCode !== 0) {
+          error = (fetchRes.stderr || fetchRes.stdout).trim() || `git fetch ${group.remote} failed`;
+          this.logger?.verbose(`[Upstream] Fetch of ${baseRef} failed for project ${projectId}: ${error}`);
+          sessions.push(...previous.sessions.filter((s) => s.baseRef === baseRef));
+          if (previous.heads[baseRef]) heads[baseRef] = previous.heads[baseRef];
+          continue;
+        }
+      }
+
+      const headRes = await this.git(project.path, ['git', 'rev-parse', '--verify', '--quiet', `refs/remotes/${baseRef}`]);
+      const head = headRes.exitCode === 0 ? headRes.stdout.trim() : '';
+      if (!head) continue;
+      heads[baseRef] = head;
+      if (previous.heads[baseRef] && previous.heads[baseRef] !== head) {
+        this.logger?.info(`[Upstream] ${baseRef} moved to ${head.slice(0, 8)} in project ${projectId}`);
+      }
+
+      for (const session of group.sessions) {
+        const entry = await this.compareSession(session, baseRef, head);
+        if (entry) sessions.push(entry);
+      }
+    }
+
+    const status: ProjectUpstreamStatus = {
+      projectId,
+      checkedAt: new Date().toISOString(),
+      error,
+      heads,
+      sessions,
+    };
+    this.statuses.set(projectId, status);
+    this.emit('status-changed', status);
+    return status;
+  }
+
+  private groupSessions(projectId: number): Map<string, BaseGroup> {
+    const groups = new Map<string, BaseGroup>();
+    for (const session of this.sessionManager.getSessionsForProject(projectId)) {
+      if (session.archived || session.importedAt || !session.worktreePath) continue;
+      const remote = session.isFork ? 'upstream' : 'origin';
+      const baseBranch = session.baseBranch || 'main';
+      const key = `${remote}/${baseBranch}`;
+      const group = groups.get(key) ?? { remote, baseBranch, sessions: [] };
+      group.sessions.push(session);
+      groups.set(key, group);
+    }
+    return groups;
+  }
+
+  private async compareSession(session: Session, baseRef: string, baseHead: string): Promise<SessionUpstreamStatus | null> {
+    const cwd = session.worktreePath;
+    const headRes = await this.git(cwd, ['git', 'rev-parse', 'HEAD']);
+    if (headRes.exitCode !== 0) return null;
+
+    const statusRes = await this.git(cwd, ['git', 'status', '--porcelain', '--untracked-files=no']);
+    const clean = statusRes.exitCode === 0 && !statusRes.stdout.trim();
+
+    const key = `${headRes.stdout.trim()}:${baseHead}`;
+    let comparison = this.comparisons.get(session.id);
+    if (comparison?.key !== key) {
+      const countRes = await this.git(cwd, ['git', 'rev-list', '--count', `HEAD..${baseHead}`]);
+      const behind = countRes.exitCode === 0 ? parseInt(countRes.stdout.trim(), 10) || 0 : 0;
+      const conflicts = behind > 0 ? await this.predictConflicts(cwd, baseHead) : [];
+      comparison = { key, behind, conflicts };
+      this.comparisons.set(session.id, comparison);
+    }
+
+    return { sessionId: session.id, baseRef, behind: comparison.behind, clean, conflicts: comparison.conflicts };
+  }
+
+  /**
+   * Dry-run merge of HEAD and the base tip. Exit 1 lists the conflicted files
+   * after the tree id; anything else (e.g. git older than 2.38) is unknown.
+   */
+  private async predictConflicts(cwd: string, baseHead: string): Promise<string[] | null> {
+    const res = await this.git(cwd, ['git', 'merge-tree', '--write-tree', '--name-only', '--no-messages', 'HEAD', baseHead]);
+    if (res.exitCode === 0) return [];
+    if (res.exitCode !== 1) return null;
+    const [, ...files] = res.stdout.split('\n').map((l) => l.trim()).filter(Boolean);
+    return Array.from(new Set(files));
+  }
+
+  private git(cwd: string, argv: string[], op: 'read' | 'write' = 'read', timeoutMs?: number): Promise<GitRunResult> {
+    return this.gitExecutor.run({
+      cwd,
+      argv,
+      op,
+      timeoutMs,
+      recordTimeline: false,
+      throwOnError: false,
+      meta: { source: 'upstreamWatcher' },
+    });
+  }
+}
@@ -0,0 +1,209 @@
+import type { GitExecutor, GitRunResult } from '../../executors/git';
+
+export type UpdateStrategy = 'rebase' | 'merge';
+
+export interface DirectCommitOptions {
+  worktreePath: string;
+  sessionId: string;
+  messageTemplate: string;
+}
+
+export interface DirectPushOptions {
+  worktreePath: string;
+  sessionId: string;
+  remote: string;
+  branch?: string | null;
+}
+
+export interface DirectUpdateOptions {
+  worktreePath: string;
+  sessionId: string;
+  remote: string;
+  baseBranch: string;
+  strategy: UpdateStrategy;
+}
+
+export interface GitWorkflowResult {
+  success: boolean;
+  error?: string;
+  /** Commit message used (commit only) */
+  message?: string;
+  /** Short hash of the new commit (commit only) */
+  commitHash?: string;
+  /** True when an update stopped on conflicts and was aborted */
+  conflict?: boolean;
+  conflictedFiles?: string[];
+}
+
+export const DEFAULT_COMMIT_MESSAGE_TEMPLATE = 'Update {{files}}';
+
+const MAX_FILES_IN_MESSAGE = 3;
+
+/**
+ * Render a commit message template. Supported variables:
+ * {{files}} (short list of staged files), {{fileCount}}, {{branch}}.
+ */
+export function renderCommitMessage(template: string, vars: { files: string[]; branch: string }): string {
+  const names = vars.files.map((f) => f.split('/').pop() || f);
+  const shown = names.slice(0, MAX_FILES_IN_MESSAGE).join(', ');
+  const rest = names.length - MAX_FILES_IN_MESSAGE;
+  const files = rest > 0 ? `${shown} and ${rest} more` : shown;
+
+  const values: Record<string, string> = {
+    files,
+    fileCount: String(vars.files.length),
+    branch: vars.branch,
+  };
+
+  const rendered = (template.trim() || DEFAULT_COMMIT_MESSAGE_TEMPLATE)
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => values[name] ?? match)
+    .trim();
+  return rendered || `Update ${files}`;
+}
+
+/**
+ * Deterministic (non-AI) implementations of the workspace Commit / Push / Update actions.
+ * Every mutating command goes through GitExecutor so it shows up as a git.command timeline event.
+ */
+export class GitWorkflowManager {
+  constructor(private gitExecutor: GitExecutor) {}
+
+  /**
+   * Commit exactly what is staged; never stages additional files.
+   */
+  async commitStaged(options: DirectCommitOptions): Promise<GitWorkflowResult> {
+    const { worktreePath, sessionId } = options;
+
+    const stagedRes = await this.read(sessionId, worktreePath, ['git', 'diff', '--cached', '--name-only']);
+    const stagedFiles = stagedRes.stdout.split('\n').map((l) => l.trim()).filter(Boolean);
+    if (stagedFiles.length === 0) {
+      return { success: false, error: 'Nothing is staged. Stage files or hunks first.' };
+    }
+
+    const branch = await this.getCurrentBranch(sessionId, worktreePath);
+    const message = renderCommitMessage(options.messageTemplate, { files: stagedFiles, branch: branch || 'HEAD' });
+
+    const commitRes = await this.write(sessionId, worktreePath, ['git', 'commit', '-m', message], 'direct-commit');
+    if (commitRes.exitCode !== 0) {
+      return { success: false, error: this.errorText(commitRes, 'git commit failed'), message };
+    }
+
+    const hashRes = await this.read(sessionId, worktreePath, ['git', 'rev-parse', '--short', 'HEAD']);
+
+    return { success: true, message, commitHash: hashRes.stdout.trim() || undefined };
+  }
+
+  /**
+   * Push the current branch and set upstream tracking.
+   */
+  async push(options: DirectPushOptions): Promise<GitWorkflowResult> {
+    const { worktreePath, sessionId, remote } = options;
+
+    const branch = options.branch || await this.getCurrentBranch(sessionId, worktreePath);
+    if (!branch) {
+      return { success: false, error: 'Cannot push a detached HEAD' };
+    }
+
+    const pushRes = await this.write(
+      sessionId,
+      worktreePath,
+      ['git', 'push', '--set-upstream', remote, branch],
+      'direct-push',
+      { timeoutMs: 180_000 }
+    );
+    if (pushRes.exitCode !== 0) {
+      return { success: false, error: this.errorText(pushRes, 'git push failed') };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Rebase onto (or merge) `<remote>/<baseBranch>`.
+   * On conflicts the operation is aborted so the worktree is left as it was;
+   * callers can then hand conflict resolution to an agent.
+   */
+  async updateFromBase(options: DirectUpdateOptions): Promise<GitWorkflowResult> {
+    const { worktreePath, sessionId, remote, baseBranch, strategy } = options;
+
+    const statusRes = await this.read(sessionId, worktreePath, ['git', 'status', '--porcelain', '--untracked-files=no']);
+    if (statusRes.stdout.trim()) {
+      return { success: false, error: 'Working tree has uncommitted changes. Commit or stash them first.' };
+    }
+
+    const fetchRes = await this.write(
+      sessionId,
+      worktreePath,
+      ['git', 'fetch', remote, baseBranch],
+      'direct-update-fetch',
+      { timeoutMs: 180_000 }
+    );
+    if (fetchRes.exitCode !== 0) {
+      return { success: false, error: this.errorText(fetchRes, 'git fetch failed') };
+    }
+
+    const upstreamRef = `${remote}/${baseBranch}`;
+    const argv = strategy === 'merge'
+      ? ['git', 'merge', '--no-edit', upstreamRef]
+      : ['git', 'rebase', upstreamRef];
+    const updateRes = await this.write(sessionId, worktreePath, argv, `direct-update-${strategy}`);
+
+    if (updateRes.exitCode === 0) {
+      return { success: true };
+    }
+
+    const conflictRes = await this.read(sessionId, worktreePath, ['git', 'diff', '--name-only', '--diff-filter=U']);
+    const conflictedFiles = conflictRes.stdout.split('\n').map((l) => l.trim()).filter(Boolean);
+
+    await this.write(sessionId, worktreePath, ['git', strategy, '--abort'], `direct-update-${strategy}-abort`);
+
+    return {
+      success: false,
+      conflict: conflictedFiles.length > 0,
+      conflictedFiles,
+      error: conflictedFiles.length > 0
+        ? `${strategy === 'merge' ? 'Merge' : 'Rebase'} stopped on conflicts and was aborted`
+        : this.errorText(updateRes, `git ${strategy} failed`),
+    };
+  }
+
+  private async getCurrentBranch(sessionId: string, worktreePath: string): Promise<string> {
+    const res = await this.read(sessionId, worktreePath, ['git', 'branch', '--show-current']);
+    return res.stdout.trim();
+  }
+
+  private read(sessionId: string, cwd: string, argv: string[]): Promise<GitRunResult> {
+    return this.gitExecutor.run({
+      sessionId,
+      cwd,
+      argv,
+      op: 'read',
+      recordTimeline: false,
+      throwOnError: false,
+      meta: { source: 'gitWorkflow', operation: 'probe' },
+    });
+  }
+
+  private write(
+    sessionId: string,
+    cwd: string,
+    argv: string[],
+    operation: string,
+    extra?: { timeoutMs?: number }
+  ): Promise<GitRunResult> {
+    return this.gitExecutor.run({
+      sessionId,
+      cwd,
+      argv,
+      op: 'write',
+      recordTimeline: true,
+      throwOnError: false,
+      timeoutMs: extra?.timeoutMs,
+      meta: { source: 'gitWorkflow', operation },
+    });
+  }
+
+  private errorText(result: GitRunResult, fallback: string): string {
+    return (result.stderr || result.stdout || '').trim() || fallback;
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * WorktreeSnapshot - Capture a worktree's full contents as a git tree object
+ *
+ * Tracked, modified and untracked (non-ignored) files are written through a
+ * throwaway index seeded from the real one, so the worktree and its staging
+ * area are left untouched. Restoring goes through a throwaway index as well.
+ */
+
+import { randomUUID } from 'crypto';
+import { copyFile, rm } from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { GitExecutor } from '../../executors/git';
+
+export async function snapshotWorktreeTree(
+  gitExecutor: GitExecutor,
+  cwd: string,
+  meta?: Record<string, unknown>
+): Promise<string> {
+  const indexFile = path.join(os.tmpdir(), `snowtree-snapshot-${randomUUID()}.index`);
+  try {
+    // Seed from the real index so unchanged files are not re-hashed.
+    const { stdout } = await gitExecutor.run({
+      cwd,
+      argv: ['git', 'rev-parse', '--git-path', 'index'],
+      op: 'read',
+      recordTimeline: false,
+    });
+    try {
+      await copyFile(path.resolve(cwd, stdout.trim()), indexFile);
+    } catch {
+      // No index yet; `git add` builds one from scratch.
+    }
+
+    const env = { GIT_INDEX_FILE: indexFile };
+    await gitExecutor.run({
+      cwd,
+      argv: ['git', 'add', '-A'],
+      op: 'read',
+      recordTimeline: false,
+      env,
+      meta,
+    });
+    const tree = await gitExecutor.run({
+      cwd,
+      argv: ['git', 'write-tree'],
+      op: 'read',
+      recordTimeline: false,
+      env,
+      meta,
+    });
+    return tree.stdout.trim();
+  } finally {
+    await rm(indexFile, { force: true });
+  }
+}
+
+/**
+ * Make the worktree's files match `toTree`, given that they currently match `fromTree`
+ * (both as produced by snapshotWorktreeTree). HEAD and the real index are not touched.
+ */
+export async function restoreWorktreeTree(
+  gitExecutor: GitExecutor,
+  cwd: string,
+  fromTree: string,
+  toTree: string,
+  meta?: Record<string, unknown>
+): Promise<void> {
+  if (fromTree === toTree) return;
+
+  // Files that exist now but not in the target; checkout-index only writes files.
+  const { stdout } = await gitExecutor.run({
+    cwd,
+    argv: ['git', 'diff', '--name-only', '-z', '--no-renames', '--diff-filter=D', fromTree, toTree],
+    op: 'read',
+    recordTimeline: false,
+    meta,
+  });
+  for (const file of stdout.split('\0').filter(Boolean)) {
+    await rm(path.join(cwd, file), { force: true });
+  }
+
+  const indexFile = path.join(os.tmpdir(), `snowtree-restore-${randomUUID()}.index`);
+  try {
+    const env = { GIT_INDEX_FILE: indexFile };
+    await gitExecutor.run({
+      cwd,
+      argv: ['git', 'read-tree', toTree],
+      op: 'read',
+      recordTimeline: false,
+      env,
+      meta,
+    });
+    await gitExecutor.run({
+      cwd,
+      argv: ['git', 'checkout-index', '--all', '--force'],
+      op: 'read',
+      recordTimeline: false,
+      env,
+      meta,
+    });
+  } finally {
+    await rm(indexFile, { force: true });
+  }
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { UpstreamWatcher } from '../UpstreamWatcher';
+import type { GitExecutor } from '../../../executors/git';
+import type { GitWorkflowManager } from '../WorkflowManager';
+import type { GitStatusManager } from '../StatusManager';
+
+type RunResponder = (cwd: string, argv: string[]) => { exitCode: number; stdout?: string; stderr?: string } | undefined;
+
+const createExecutor = (respond: RunResponder): GitExecutor => ({
+  run: vi.fn(async ({ cwd, argv }: { cwd: string; argv: string[] }) => {
+    const res = respond(cwd, argv) || { exitCode: 0 };
+    return { stdout: '', stderr: '', ...res } as any;
+  }),
+} as any);
+
+const commandsRun = (executor: GitExecutor) =>
+  vi.mocked(executor.run).mock.calls.map((c) => `${(c[0] as any).cwd}: ${(c[0] as any).argv.join(' ')}`);
+
+describe('UpstreamWatcher', () => {
+  let originHead: string;
+  let fetchFails: boolean;
+  let executor: GitExecutor;
+  let workflow: { updateFromBase: ReturnType<typeof vi.fn> };
+  let statusManager: { refreshSessionGitStatus: ReturnType<typeof vi.fn> };
+  let watcher: UpstreamWatcher;
+
+  const sessions = [
+    { id: 's1', projectId: 1, status: 'waiting', worktreePath: '/wt/s1', baseBranch: 'main' },
+    { id: 's2', projectId: 1, status: 'waiting', worktreePath: '/wt/s2', baseBranch: 'main' },
+    { id: 's3', projectId: 1, status: 'waiting', worktreePath: '/wt/s3', baseBranch: 'main' },
+    { id: 's4', projectId: 1, status: 'waiting', worktreePath: '/wt/s4', baseBranch: 'main', archived: true },
+  ];
+
+  beforeEach(() => {
+    originHead = 'aaa111';
+    fetchFails = false;
+    executor = createExecutor((cwd, argv) => {
+      if (argv[1] === 'fetch') return fetchFails ? { exitCode: 128, stderr: 'Could not resolve host: github.com' } : undefined;
+      if (argv[1] === 'rev-parse') return { exitCode: 0, stdout: cwd === '/repo' ? `${originHead}\n` : `head-${cwd}\n` };
+      if (argv[1] === 'status') return { exitCode: 0, stdout: cwd === '/wt/s3' ? ' M src/a.ts\n' : '' };
+      if (argv[1] === 'rev-list') return { exitCode: 0, stdout: originHead === 'aaa111' ? '0\n' : '2\n' };
+      if (argv[1] === 'merge-tree') {
+        return cwd === '/wt/s2'
+          ? { exitCode: 1, stdout: 'tree123\nsrc/app.ts\nsrc/app.ts\n' }
+          : { exitCode: 0, stdout: 'tree456\n' };
+      }
+      return undefined;
+    });
+    workflow = { updateFromBase: vi.fn(async () => ({ success: true })) };
+    statusManager = { refreshSessionGitStatus: vi.fn(async () => null) };
+    const sessionManager = {
+      getAllSessions: vi.fn(() => sessions.filter((s) => !s.archived)),
+      getSessionsForProject: vi.fn(() => sessions),
+      getSession: vi.fn((id: string) => sessions.find((s) => s.id === id)),
+      getProjectById: vi.fn(() => ({ id: 1, path: '/repo' })),
+    };
+    watcher = new UpstreamWatcher(
+      sessionManager as never,
+      executor,
+      workflow as unknown as GitWorkflowManager,
+      statusManager as unknown as GitStatusManager
+    );
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    vi.useRealTimers();
+  });
+
+  it('fetches the base branch once and flags behind and conflicting worktrees', async () => {
+    await watcher.checkProject(1);
+    originHead = 'bbb222';
+    const status = await watcher.checkProject(1);
+
+    expect(status).toMatchObject({ projectId: 1, error: null, heads: { 'origin/main': 'bbb222' } });
+    expect(status.sessions).toEqual([
+      { sessionId: 's1', baseRef: 'origin/main', behind: 2, clean: true, conflicts: [] },
+      { sessionId: 's2', baseRef: 'origin/main', behind: 2, clean: true, conflicts: ['src/app.ts'] },
+      { sessionId: 's3', baseRef: 'origin/main', behind: 2, clean: false, conflicts: [] },
+    ]);
+    const fetches = commandsRun(executor).filter((cmd) => cmd.includes('git fetch'));
+    expect(fetches).toEqual(['/repo: git fetch --quiet origin main', '/repo: git fetch --quiet origin main']);
+    expect(commandsRun(executor).some((cmd) => cmd.startsWith('/wt/s4'))).toBe(false);
+    expect(vi.mocked(executor.run).mock.calls.every((c) => (c[0] as any).recordTimeline === false)).toBe(true);
+  });
+
+  it('keeps the last results when the fetch fails', async () => {
+    originHead = 'bbb222';
+    await watcher.checkProject(1);
+    fetchFails = true;
+    const status = await watcher.checkProject(1);
+
+    expect(status.error).toContain('Could not resolve host');
+    expect(status.heads).toEqual({ 'origin/main': 'bbb222' });
+    expect(status.sessions.map((s) => [s.sessionId, s.behind])).toEqual([['s1', 2], ['s2', 2], ['s3', 2]]);
+  });
+
+  it('rebases only clean sessions that would not conflict', async () => {
+    originHead = 'bbb222';
+    await watcher.checkProject(1);
+
+    const results = await watcher.rebaseCleanSessions(1);
+
+    expect(results).toEqual([{ sessionId: 's1', success: true, error: undefined, conflict: undefined }]);
+    expect(workflow.updateFromBase).toHaveBeenCalledTimes(1);
+    expect(workflow.updateFromBase).toHaveBeenCalledWith({
+      worktreePath: '/wt/s1',
+      sessionId: 's1',
+      remote: 'origin',
+      baseBranch: 'main',
+      strategy: 'rebase',
+    });
+    expect(statusManager.refreshSessionGitStatus).toHaveBeenCalledWith('s1', false);
+  });
+
+  it('checks on the configured interval and stops when set to 0', async () => {
+    vi.useFakeTimers();
+    const checkAll = vi.spyOn(watcher, 'checkAll').mockResolvedValue();
+
+    watcher.configure({ intervalMinutes: 5 });
+    expect(checkAll).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(5 * 60_000);
+    expect(checkAll).toHaveBeenCalledTimes(2);
+
+    watcher.configure({ intervalMinutes: 0 });
+    vi.advanceTimersByTime(10 * 60_000);
+    expect(checkAll).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GitWorkflowManager, renderCommitMessage } from '../WorkflowManager';
+import type { GitExecutor } from '../../../executors/git';
+
+type RunResponder = (argv: string[]) => { exitCode: number; stdout?: string; stderr?: string } | undefined;
+
+const createExecutor = (respond: RunResponder): GitExecutor => ({
+  run: vi.fn(async ({ argv }: { argv: string[] }) => {
+    const res = respond(argv) || { exitCode: 0 };
+    return { stdout: '', stderr: '', ...res } as any;
+  }),
+} as any);
+
+const commandsRun = (executor: GitExecutor) =>
+  vi.mocked(executor.run).mock.calls.map((c) => (c[0] as any).argv.join(' '));
+
+describe('renderCommitMessage', () => {
+  it('fills files, fileCount and branch', () => {
+    expect(renderCommitMessage('{{branch}}: update {{fileCount}} files ({{files}})', {
+      files: ['src/a.ts', 'src/b.ts'],
+      branch: 'feature',
+    })).toBe('feature: update 2 files (a.ts, b.ts)');
+  });
+
+  it('truncates long file lists and falls back to the default template', () => {
+    expect(renderCommitMessage('', { files: ['a', 'b', 'c', 'd', 'e'], branch: 'x' }))
+      .toBe('Update a, b, c and 2 more');
+  });
+});
+
+describe('GitWorkflowManager', () => {
+  it('refuses to commit when nothing is staged', async () => {
+    const executor = createExecutor(() => undefined);
+    const manager = new GitWorkflowManager(executor);
+
+    const result = await manager.commitStaged({ worktreePath: '/repo', sessionId: 's1', messageTemplate: '' });
+
+    expect(result.success).toBe(false);
+    expect(commandsRun(executor).some((cmd) => cmd.startsWith('git commit'))).toBe(false);
+  });
+
+  it('commits the staged snapshot and records it on the timeline', async () => {
+    const executor = createExecutor((argv) => {
+      if (argv[1] === 'diff') return { exitCode: 0, stdout: 'src/a.ts\n' };
+      if (argv[1] === 'branch') return { exitCode: 0, stdout: 'feature\n' };
+      if (argv[1] === 'rev-parse') return { exitCode: 0, stdout: 'abc1234\n' };
+      return undefined;
+    });
+    const manager = new GitWorkflowManager(executor);
+
+    const result = await manager.commitStaged({ worktreePath: '/repo', sessionId: 's1', messageTemplate: 'Update {{files}}' });
+
+    expect(result).toMatchObject({ success: true, message: 'Update a.ts', commitHash: 'abc1234' });
+    const commitCall = vi.mocked(executor.run).mock.calls.find((c) => (c[0] as any).argv[1] === 'commit');
+    expect(commitCall?.[0]).toMatchObject({
+      argv: ['git', 'commit', '-m', 'Update a.ts'],
+      op: 'write',
+      recordTimeline: true,
+    });
+  });
+
+  it('pushes with upstream tracking', async () => {
+    const executor = createExecutor(() => undefined);
+    const manager = new GitWorkflowManager(executor);
+
+    const result = await manager.push({ worktreePath: '/repo', sessionId: 's1', remote: 'origin', branch: 'feature' });
+
+    expect(result.success).toBe(true);
+    expect(commandsRun(executor)).toContain('git push --set-upstream origin feature');
+  });
+
+  it('refuses to update a dirty working tree', async () => {
+    const executor = createExecutor((argv) => (argv[1] === 'status' ? { exitCode: 0, stdout: ' M a.ts\n' } : undefined));
+    const manager = new GitWorkflowManager(executor);
+
+    const result = await manager.updateFromBase({ worktreePath: '/repo', sessionId: 's1', remote: 'origin', baseBranch: 'main', strategy: 'rebase' });
+
+    expect(result.success).toBe(false);
+    expect(commandsRun(executor).some((cmd) => cmd.startsWith('git fetch'))).toBe(false);
+  });
+
+  it('aborts the rebase and reports conflicted files', async () => {
+    const executor = createExecutor((argv) => {
+      if (argv[1] === 'rebase' && argv[2] !== '--abort') return { exitCode: 1, stderr: 'CONFLICT (content)' };
+      if (argv[1] === 'diff') return { exitCode: 0, stdout: 'src/a.ts\nsrc/b.ts\n' };
+      return undefined;
+    });
+    const manager = new GitWorkflowManager(executor);
+
+    const result = await manager.updateFromBase({ worktreePath: '/repo', sessionId: 's1', remote: 'upstream', baseBranch: 'main', strategy: 'rebase' });
+
+    expect(result).toMatchObject({ success: false, conflict: true, conflictedFiles: ['src/a.ts', 'src/b.ts'] });
+    expect(commandsRun(executor)).toEqual(expect.arrayContaining([
+      'git fetch upstream main',
+      'git rebase upstream/main',
+      'git rebase --abort',
+    ]));
+  });
+
+  it('merges instead of rebasing when requested', async () => {
+    const executor = createExecutor(() => undefined);
+    const manager = new GitWorkflowManager(executor);
+
+    const result = await manager.updateFromBase({ worktreePath: '/repo', sessionId: 's1', remote: 'origin', baseBranch: 'main', strategy: 'merge' });
+
+    expect(result.success).toBe(true);
+    expect(commandsRun(executor)).toContain('git merge --no-edit origin/main');
+  });
+});
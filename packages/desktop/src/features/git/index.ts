@@ -3,3 +3,6 @@ export { GitStatusManager } from './StatusManager';
 export { GitStagingManager } from './StagingManager';
 export { GitStatusLogger } from './StatusLogger';
 export { GitFileWatcher } from './FileWatcher';
+export { GitWorkflowManager } from './WorkflowManager';
+export { UpstreamWatcher } from './UpstreamWatcher';
+export { snapshotWorktreeTree, restoreWorktreeTree } from './WorktreeSnapshot';
@@ -0,0 +1,288 @@
+/**
+ * NotificationService - Desktop notifications for sessions that need attention
+ *
+ * Shows a native notification when an agent finishes, asks a question, waits
+ * for an approval, when a run fails and when a session's CI result changes.
+ * Each event can be switched off globally or per project, and nothing is shown
+ * during the do-not-disturb window. Clicking a notification brings the window
+ * forward and emits `focus` so the renderer selects the session and panel.
+ *
+ * The app badge counts sessions whose finished run hasn't been looked at yet
+ * (`completed_unviewed`).
+ */
+
+import { EventEmitter } from 'events';
+import type { Session } from '@snowtree/core/types/session';
+import type { TimelineEvent } from '../../infrastructure/database/models';
+import type { Logger } from '../../infrastructure/logging/logger';
+import type { ApprovalService, PendingApproval } from '../approvals/ApprovalService';
+import type { RunScriptsUpdate, ScriptRunner } from '../scripts/ScriptRunner';
+import type { SessionManager } from '../session/SessionManager';
+
+export type NotificationEventKind = 'agentFinished' | 'question' | 'approval' | 'runFailed' | 'ciChanged';
+
+export type NotificationRules = Record<NotificationEventKind, boolean>;
+
+export interface DoNotDisturbSchedule {
+  enabled: boolean;
+  /** Local time as HH:MM. The window may wrap past midnight (22:00 - 08:00). */
+  start: string;
+  end: string;
+}
+
+export interface NotificationSettings {
+  enabled: boolean;
+  /** Skip notifications while the snowtree window has focus */
+  onlyWhenUnfocused: boolean;
+  showBadge: boolean;
+  rules: NotificationRules;
+  /** Overrides of `rules` keyed by project id */
+  projectRules: Record<string, Partial<NotificationRules>>;
+  doNotDisturb: DoNotDisturbSchedule;
+}
+
+export interface NotificationFocusTarget {
+  sessionId: string;
+  panelId: string | null;
+}
+
+/**
+ * What the service needs from the desktop shell; Electron's implementation is
+ * in electronNotifier.ts.
+ */
+export interface Notifier {
+  show(notification: { title: string; body: string }, onClick: () => void): void;
+  setBadgeCount(count: number): void;
+  isAppFocused(): boolean;
+  focusApp(): void;
+}
+
+export type CIRollupState = 'pending' | 'in_progress' | 'success' | 'failure' | 'neutral';
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: true,
+  onlyWhenUnfocused: true,
+  showBadge: true,
+  rules: { agentFinished: true, question: true, approval: true, runFailed: true, ciChanged: true },
+  projectRules: {},
+  doNotDisturb: { enabled: false, start: '22:00', end: '08:00' },
+};
+
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})$/;
+
+function minutesOfDay(value: string): number | null {
+  const match = TIME_PATTERN.exec(value.trim());
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether `now` falls inside the schedule. An empty window (start equals end)
+ * never matches.
+ */
+export function isWithinSchedule(schedule: DoNotDisturbSchedule, now: Date): boolean {
+  if (!schedule.enabled) return false;
+  const start = minutesOfDay(schedule.start);
+  const end = minutesOfDay(schedule.end);
+  if (start === null || end === null || start === end) return false;
+  const current = now.getHours() * 60 + now.getMinutes();
+  return start < end ? current >= start && current < end : current >= start || current < end;
+}
+
+/**
+ * Fill in defaults for settings sent by the renderer.
+ */
+export function normalizeNotificationSettings(raw: Partial<NotificationSettings> | null | undefined): NotificationSettings {
+  const defaults = DEFAULT_NOTIFICATION_SETTINGS;
+  const flag = (value: unknown, fallback: boolean) => (typeof value === 'boolean' ? value : fallback);
+  const projectRules: NotificationSettings['projectRules'] = {};
+  for (const [projectId, rules] of Object.entries(raw?.projectRules || {})) {
+    if (rules && typeof rules === 'object') projectRules[projectId] = { ...rules };
+  }
+  return {
+    enabled: flag(raw?.enabled, defaults.enabled),
+    onlyWhenUnfocused: flag(raw?.onlyWhenUnfocused, defaults.onlyWhenUnfocused),
+    showBadge: flag(raw?.showBadge, defaults.showBadge),
+    rules: { ...defaults.rules, ...(raw?.rules || {}) },
+    projectRules,
+    doNotDisturb: { ...defaults.doNotDisturb, ...(raw?.doNotDisturb || {}) },
+  };
+}
+
+function firstQuestion(raw: string | undefined): string {
+  if (!raw) return '';
+  try {
+    const parsed = JSON.parse(raw) as Array<{ question?: unknown }>;
+    const question = Array.isArray(parsed) ? parsed[0]?.question : undefined;
+    return typeof question === 'string' ? question : '';
+  } catch {
+    return '';
+  }
+}
+
+export class NotificationService extends EventEmitter {
+  private settings: NotificationSettings = DEFAULT_NOTIFICATION_SETTINGS;
+  private lastStatusBySession = new Map<string, string>();
+  private lastPanelBySession = new Map<string, string>();
+  private lastCiStateBySession = new Map<string, CIRollupState>();
+  private lastScriptStatus = new Map<string, string>();
+  private notifiedQuestions = new Set<string>();
+  private badgeCount = 0;
+
+  constructor(
+    private sessionManager: SessionManager,
+    private notifier: Notifier,
+    approvalService?: ApprovalService,
+    scriptRunner?: ScriptRunner,
+    private logger?: Logger,
+    private now: () => Date = () => new Date()
+  ) {
+    super();
+    this.sessionManager.on('sessions-loaded', (sessions: Session[]) => {
+      for (const session of sessions) this.lastStatusBySession.set(session.id, session.status);
+      this.updateBadge();
+    });
+    this.sessionManager.on('session-created', (session: Session) => {
+      this.lastStatusBySession.set(session.id, session.status);
+      this.updateBadge();
+    });
+    this.sessionManager.on('session-updated', (session: Session) => this.handleSessionUpdated(session));
+    this.sessionManager.on('session-deleted', (data: { id?: string } | string) => {
+      const sessionId = typeof data === 'string' ? data : data?.id;
+      if (sessionId) this.forget(sessionId);
+      this.updateBadge();
+    });
+    this.sessionManager.on('timeline:event', (data: { sessionId: string; event: TimelineEvent }) => this.handleTimelineEvent(data));
+    approvalService?.on('requested', (approval: PendingApproval) => this.handleApproval(approval));
+    scriptRunner?.on('updated', (update: RunScriptsUpdate) => this.handleScripts(update));
+  }
+
+  configure(settings: NotificationSettings): void {
+    this.settings = settings;
+    this.updateBadge();
+  }
+
+  isQuietTime(): boolean {
+    return isWithinSchedule(this.settings.doNotDisturb, this.now());
+  }
+
+  /**
+   * Whether an event of `kind` for the session would be shown right now.
+   */
+  shouldNotify(kind: NotificationEventKind, sessionId: string): boolean {
+    const { enabled, onlyWhenUnfocused, rules, projectRules } = this.settings;
+    if (!enabled || this.isQuietTime()) return false;
+    if (onlyWhenUnfocused && this.notifier.isAppFocused()) return false;
+    const projectId = this.sessionManager.getSession(sessionId)?.projectId;
+    const override = projectId !== undefined ? projectRules[String(projectId)]?.[kind] : undefined;
+    return override ?? rules[kind];
+  }
+
+  /**
+   * Record the CI rollup the renderer just fetched; a change to passed or
+   * failed is worth a notification.
+   */
+  noteCiStatus(sessionId: string, state: CIRollupState | null): void {
+    const previous = this.lastCiStateBySession.get(sessionId);
+    if (!state) {
+      this.lastCiStateBySession.delete(sessionId);
+      return;
+    }
+    this.lastCiStateBySession.set(sessionId, state);
+    if (!previous || previous === state || (state !== 'success' && state !== 'failure')) return;
+    this.notify('ciChanged', sessionId, state === 'success' ? 'CI passed' : 'CI failed');
+  }
+
+  private handleSessionUpdated(session: Session): void {
+    const previous = this.lastStatusBySession.get(session.id);
+    this.lastStatusBySession.set(session.id, session.status);
+    if (previous !== session.status) this.updateBadge();
+
+    const wasRunning = previous === 'running' || previous === 'initializing';
+    if (wasRunning && (session.status === 'waiting' || session.status === 'completed_unviewed')) {
+      this.notify('agentFinished', session.id, 'Agent finished');
+    } else if (session.status === 'error' && previous !== undefined && previous !== 'error') {
+      this.notify('runFailed', session.id, 'Run failed', session.error || session.statusMessage);
+    }
+  }
+
+  private handleTimelineEvent({ sessionId, event }: { sessionId: string; event: TimelineEvent }): void {
+    if (!event) return;
+    if (event.panel_id) this.lastPanelBySession.set(sessionId, event.panel_id);
+    if (event.kind !== 'user_question' || !event.tool_use_id) return;
+
+    // Pending questions are upserted as they stream in; notify once per question.
+    const key = `${sessionId}:${event.tool_use_id}`;
+    if (event.status !== 'pending') {
+      this.notifiedQuestions.delete(key);
+      return;
+    }
+    if (this.notifiedQuestions.has(key)) return;
+    this.notifiedQuestions.add(key);
+    this.notify('question', sessionId, 'Agent asked a question', firstQuestion(event.questions), event.panel_id);
+  }
+
+  private handleApproval(approval: PendingApproval): void {
+    const detail = approval.kind === 'command'
+      ? approval.details.command
+      : approval.details.files?.map((f) => f.path).join(', ');
+    this.notify('approval', approval.sessionId, 'Approval needed', detail || approval.details.reason, approval.panelId);
+  }
+
+  private handleScripts(update: RunScriptsUpdate): void {
+    for (const script of update.scripts) {
+      const key = `${update.sessionId}:${script.id}`;
+      const previous = this.lastScriptStatus.get(key);
+      this.lastScriptStatus.set(key, script.status);
+      if (script.status === 'failed' && previous && previous !== 'failed') {
+        const exit = script.exitCode !== null ? `exited with code ${script.exitCode}` : 'was killed';
+        this.notify('runFailed', update.sessionId, `${script.name} failed`, `${script.command} ${exit}`);
+      }
+    }
+  }
+
+  private notify(kind: NotificationEventKind, sessionId: string, title: string, detail?: string, panelId?: string): void {
+    if (!this.shouldNotify(kind, sessionId)) return;
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) return;
+
+    const target: NotificationFocusTarget = { sessionId, panelId: panelId || this.lastPanelBySession.get(sessionId) || null };
+    const projectName = this.sessionManager.getProjectForSession(sessionId)?.name;
+    const body = [detail, projectName].filter(Boolean).join('\n');
+    try {
+      this.notifier.show(
+        { title: `${session.name}: ${title}`, body },
+        () => {
+          this.notifier.focusApp();
+          this.emit('focus', target);
+        }
+      );
+    } catch (error) {
+      this.logger?.warn(`[Notifications] Failed to show notification: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private updateBadge(): void {
+    const count = this.settings.showBadge
+      ? this.sessionManager.getAllSessions().filter((s) => s.status === 'completed_unviewed').length
+      : 0;
+    if (count === this.badgeCount) return;
+    this.badgeCount = count;
+    this.notifier.setBadgeCount(count);
+  }
+
+  private forget(sessionId: string): void {
+    this.lastStatusBySession.delete(sessionId);
+    this.lastPanelBySession.delete(sessionId);
+    this.lastCiStateBySession.delete(sessionId);
+    for (const key of [...this.lastScriptStatus.keys()]) {
+      if (key.startsWith(`${sessionId}:`)) this.lastScriptStatus.delete(key);
+    }
+    for (const key of [...this.notifiedQuestions]) {
+      if (key.startsWith(`${sessionId}:`)) this.notifiedQuestions.delete(key);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { EventEmitter } from 'events';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  NotificationService,
+  isWithinSchedule,
+  normalizeNotificationSettings,
+} from '../NotificationService';
+
+type FakeSession = { id: string; name: string; projectId: number; status: string; error?: string };
+
+describe('NotificationService', () => {
+  let sessions: FakeSession[];
+  let sessionManager: EventEmitter & Record<string, unknown>;
+  let approvals: EventEmitter;
+  let scripts: EventEmitter;
+  let notifier: { show: ReturnType<typeof vi.fn>; setBadgeCount: ReturnType<typeof vi.fn>; isAppFocused: ReturnType<typeof vi.fn>; focusApp: ReturnType<typeof vi.fn> };
+  let now: Date;
+  let service: NotificationService;
+
+  const update = (id: string, status: string, extra: Partial<FakeSession> = {}) => {
+    const session = sessions.find((s) => s.id === id)!;
+    Object.assign(session, { status, ...extra });
+    sessionManager.emit('session-updated', { ...session });
+  };
+
+  beforeEach(() => {
+    sessions = [
+      { id: 's1', name: 'fix-login', projectId: 1, status: 'waiting' },
+      { id: 's2', name: 'docs', projectId: 2, status: 'waiting' },
+    ];
+    sessionManager = Object.assign(new EventEmitter(), {
+      getSession: vi.fn((id: string) => sessions.find((s) => s.id === id)),
+      getProjectForSession: vi.fn(() => ({ id: 1, name: 'snowtree' })),
+      getAllSessions: vi.fn(() => sessions),
+    });
+    approvals = new EventEmitter();
+    scripts = new EventEmitter();
+    notifier = { show: vi.fn(), setBadgeCount: vi.fn(), isAppFocused: vi.fn(() => false), focusApp: vi.fn() };
+    now = new Date(2026, 0, 10, 14, 0);
+    service = new NotificationService(sessionManager as never, notifier, approvals as never, scripts as never, undefined, () => now);
+    sessionManager.emit('sessions-loaded', sessions.map((s) => ({ ...s })));
+  });
+
+  it('announces a finished agent and focuses its session and panel on click', () => {
+    const focus = vi.fn();
+    service.on('focus', focus);
+    sessionManager.emit('timeline:event', { sessionId: 's1', event: { kind: 'chat.assistant', panel_id: 'p1' } });
+
+    update('s1', 'running');
+    update('s1', 'waiting');
+
+    expect(notifier.show).toHaveBeenCalledTimes(1);
+    expect(notifier.show.mock.calls[0][0]).toEqual({ title: 'fix-login: Agent finished', body: 'snowtree' });
+    notifier.show.mock.calls[0][1]();
+    expect(notifier.focusApp).toHaveBeenCalled();
+    expect(focus).toHaveBeenCalledWith({ sessionId: 's1', panelId: 'p1' });
+  });
+
+  it('applies per-project rules, focus suppression and the do-not-disturb window', () => {
+    service.configure(normalizeNotificationSettings({
+      projectRules: { '2': { runFailed: false } },
+      doNotDisturb: { enabled: true, start: '22:00', end: '08:00' },
+    }));
+
+    update('s2', 'error', { error: 'Exited with code 1' });
+    expect(notifier.show).not.toHaveBeenCalled();
+
+    update('s1', 'error', { error: 'Exited with code 1' });
+    expect(notifier.show).toHaveBeenLastCalledWith({ title: 'fix-login: Run failed', body: 'Exited with code 1\nsnowtree' }, expect.any(Function));
+
+    now = new Date(2026, 0, 10, 23, 30);
+    expect(service.isQuietTime()).toBe(true);
+    expect(service.shouldNotify('agentFinished', 's1')).toBe(false);
+
+    now = new Date(2026, 0, 10, 9, 0);
+    notifier.isAppFocused.mockReturnValue(true);
+    expect(service.shouldNotify('agentFinished', 's1')).toBe(false);
+  });
+
+  it('notifies once per pending question and for approvals and failed scripts', () => {
+    const question = { kind: 'user_question', status: 'pending', tool_use_id: 't1', panel_id: 'p2', questions: JSON.stringify([{ question: 'Use Postgres or SQLite?' }]) };
+    sessionManager.emit('timeline:event', { sessionId: 's1', event: question });
+    sessionManager.emit('timeline:event', { sessionId: 's1', event: question });
+    expect(notifier.show).toHaveBeenCalledTimes(1);
+    expect(notifier.show.mock.calls[0][0].body).toBe('Use Postgres or SQLite?\nsnowtree');
+
+    approvals.emit('requested', { id: 'a1', sessionId: 's1', panelId: 'p2', kind: 'command', details: { command: 'rm -rf dist' } });
+    expect(notifier.show.mock.calls[1][0]).toMatchObject({ title: 'fix-login: Approval needed', body: 'rm -rf dist\nsnowtree' });
+
+    const script = { id: 'dev', name: 'Dev server', command: 'pnpm dev', exitCode: null as number | null };
+    scripts.emit('updated', { sessionId: 's1', scripts: [{ ...script, status: 'running' }] });
+    scripts.emit('updated', { sessionId: 's1', scripts: [{ ...script, status: 'failed', exitCode: 1 }] });
+    expect(notifier.show.mock.calls[2][0]).toMatchObject({ title: 'fix-login: Dev server failed', body: 'pnpm dev exited with code 1\nsnowtree' });
+  });
+
+  it('reports CI changes to passed or failed and counts unviewed sessions on the badge', () => {
+    service.noteCiStatus('s1', 'in_progress');
+    service.noteCiStatus('s1', 'in_progress');
+    expect(notifier.show).not.toHaveBeenCalled();
+    service.noteCiStatus('s1', 'failure');
+    expect(notifier.show.mock.calls[0][0].title).toBe('fix-login: CI failed');
+
+    update('s1', 'completed_unviewed');
+    update('s2', 'completed_unviewed');
+    expect(notifier.setBadgeCount).toHaveBeenLastCalledWith(2);
+
+    service.configure({ ...DEFAULT_NOTIFICATION_SETTINGS, showBadge: false });
+    expect(notifier.setBadgeCount).toHaveBeenLastCalledWith(0);
+  });
+});
+
+describe('isWithinSchedule', () => {
+  it('handles windows within a day and across midnight', () => {
+    const at = (h: number, m = 0) => new Date(2026, 0, 10, h, m);
+    expect(isWithinSchedule({ enabled: true, start: '12:00', end: '13:30' }, at(13, 15))).toBe(true);
+    expect(isWithinSchedule({ enabled: true, start: '12:00', end: '13:30' }, at(13, 30))).toBe(false);
+    expect(isWithinSchedule({ enabled: true, start: '22:00', end: '08:00' }, at(7, 59))).toBe(true);
+    expect(isWithinSchedule({ enabled: true, start: '22:00', end: '08:00' }, at(12))).toBe(false);
+    expect(isWithinSchedule({ enabled: false, start: '00:00', end: '23:59' }, at(12))).toBe(false);
+  });
+});
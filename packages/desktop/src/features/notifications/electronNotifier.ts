@@ -0,0 +1,41 @@
+import { app, Notification, type BrowserWindow } from 'electron';
+import type { Notifier } from './NotificationService';
+
+/**
+ * Native notifications and the dock/taskbar badge through Electron.
+ */
+export function createElectronNotifier(getMainWindow: () => BrowserWindow | null): Notifier {
+  // Electron drops click handlers of notifications that get garbage collected.
+  const shown = new Set<Notification>();
+
+  return {
+    show({ title, body }, onClick) {
+      if (!Notification.isSupported()) return;
+      const notification = new Notification({ title, body });
+      shown.add(notification);
+      notification.on('click', () => {
+        shown.delete(notification);
+        onClick();
+      });
+      notification.on('close', () => shown.delete(notification));
+      notification.show();
+    },
+
+    setBadgeCount(count) {
+      app.setBadgeCount(count);
+    },
+
+    isAppFocused() {
+      const win = getMainWindow();
+      return Boolean(win && !win.isDestroyed() && win.isFocused());
+    },
+
+    focusApp() {
+      const win = getMainWindow();
+      if (!win || win.isDestroyed()) return;
+      if (win.isMinimized()) win.restore();
+      win.show();
+      win.focus();
+    },
+  };
+}
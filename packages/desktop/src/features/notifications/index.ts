@@ -0,0 +1,11 @@
+export { NotificationService, DEFAULT_NOTIFICATION_SETTINGS, isWithinSchedule, normalizeNotificationSettings } from './NotificationService';
+export { createElectronNotifier } from './electronNotifier';
+export type {
+  CIRollupState,
+  DoNotDisturbSchedule,
+  NotificationEventKind,
+  NotificationFocusTarget,
+  NotificationRules,
+  NotificationSettings,
+  Notifier,
+} from './NotificationService';
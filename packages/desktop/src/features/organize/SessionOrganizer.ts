@@ -0,0 +1,212 @@
+/**
+ * SessionOrganizer - folders, favorites and the archive behind the sidebar
+ *
+ * Folders nest inside a project and hold sessions; deleting a folder moves
+ * its sessions back to the project root. Archiving removes a session's
+ * worktree but keeps its branch and timeline, so the session can be browsed
+ * later and restored by checking the branch out again at the same path.
+ */
+
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import type { Session } from '@snowtree/core/types/session';
+import type { GitExecutor } from '../../executors/git';
+import type { DatabaseService } from '../../infrastructure/database/database';
+import type { Folder } from '../../infrastructure/database/models';
+import type { Logger } from '../../infrastructure/logging/logger';
+import type { SessionManager } from '../session/SessionManager';
+import type { WorktreeManager } from '../worktree/WorktreeManager';
+
+// Matches the depth check in DatabaseService.createFolder (5 levels).
+const MAX_FOLDER_DEPTH = 4;
+
+export class SessionOrganizer extends EventEmitter {
+  constructor(
+    private db: DatabaseService,
+    private sessionManager: SessionManager,
+    private worktreeManager: WorktreeManager,
+    private gitExecutor: GitExecutor,
+    private logger?: Logger
+  ) {
+    super();
+  }
+
+  listFolders(projectId: number): Folder[] {
+    return this.db.getFoldersForProject(projectId);
+  }
+
+  createFolder(projectId: number, name: string, parentFolderId?: string | null): Folder[] {
+    const trimmed = name?.trim();
+    if (!trimmed) throw new Error('Folder name cannot be empty');
+    if (!this.db.getProject(projectId)) throw new Error('Project not found');
+    this.db.createFolder(trimmed, projectId, parentFolderId || null);
+    return this.emitUpdate(projectId);
+  }
+
+  renameFolder(folderId: string, name: string): Folder[] {
+    const folder = this.requireFolder(folderId);
+    const trimmed = name?.trim();
+    if (!trimmed) throw new Error('Folder name cannot be empty');
+    this.db.updateFolder(folder.id, { name: trimmed });
+    return this.emitUpdate(folder.project_id);
+  }
+
+  /**
+   * Nest `folderId` under another folder of the same project, or move it to the root.
+   */
+  moveFolder(folderId: string, parentFolderId: string | null): Folder[] {
+    const folder = this.requireFolder(folderId);
+    if (parentFolderId) {
+      const parent = this.requireFolder(parentFolderId);
+      if (parent.project_id !== folder.project_id) throw new Error('Folders belong to different projects');
+      if (this.db.wouldCreateCircularReference(folder.id, parent.id)) {
+        throw new Error('Cannot move a folder into itself');
+      }
+      if (this.db.getFolderDepth(parent.id) + 1 + this.subtreeHeight(folder) > MAX_FOLDER_DEPTH) {
+        throw new Error('Maximum nesting depth (5 levels) reached');
+      }
+    }
+    this.db.updateFolder(folder.id, { parent_folder_id: parentFolderId || null });
+    return this.emitUpdate(folder.project_id);
+  }
+
+  reorderFolders(projectId: number, orderedIds: string[]): Folder[] {
+    this.db.reorderFolders(projectId, orderedIds.map((id, index) => ({ id, displayOrder: index })));
+    return this.emitUpdate(projectId);
+  }
+
+  /**
+   * Delete a folder and its subfolders. Their sessions move to the project root.
+   */
+  deleteFolder(folderId: string): Folder[] {
+    const folder = this.requireFolder(folderId);
+    this.db.deleteFolder(folder.id);
+    return this.emitUpdate(folder.project_id);
+  }
+
+  moveSession(sessionId: string, folderId: string | null): void {
+    const session = this.requireSession(sessionId);
+    if (folderId) {
+      const folder = this.requireFolder(folderId);
+      if (folder.project_id !== session.projectId) throw new Error('Folder belongs to a different project');
+    }
+    this.sessionManager.updateSession(session.id, { folderId: folderId || null });
+  }
+
+  setFavorite(sessionId: string, isFavorite: boolean): void {
+    const session = this.requireSession(sessionId);
+    this.sessionManager.updateSession(session.id, { isFavorite: Boolean(isFavorite) });
+  }
+
+  listArchived(projectId: number): Session[] {
+    return this.sessionManager.getArchivedSessions(projectId);
+  }
+
+  /**
+   * Archive instead of deleting: remove the worktree, keep its branch and the
+   * session's timeline. Callers stop the session's agents first.
+   *
+   * Only the branch survives, so a worktree with uncommitted or untracked
+   * changes, or with a detached HEAD, is refused rather than thrown away.
+   */
+  async archive(sessionId: string): Promise<void> {
+    const session = this.requireSession(sessionId);
+    const project = this.sessionManager.getProjectForSession(session.id);
+
+    if (project?.path && session.worktreePath && session.worktreePath !== project.path && fs.existsSync(session.worktreePath)) {
+      // Remember the branch so restore can check it out again, even after a rename.
+      const branch = await this.currentBranch(session.id, session.worktreePath);
+      if (!branch) {
+        throw new Error('Cannot archive a workspace with a detached HEAD. Check out a branch first.');
+      }
+      if (await this.hasLocalChanges(session.id, session.worktreePath)) {
+        throw new Error('Cannot archive a workspace with uncommitted or untracked changes. Commit or discard them first.');
+      }
+      this.db.updateSession(session.id, { current_branch: branch });
+      try {
+        await this.worktreeManager.removeWorktreePath(project.path, session.worktreePath, session.id);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger?.warn(`[Organizer] Failed to remove worktree ${session.worktreePath}: ${message}`);
+        throw new Error(`Failed to remove worktree: ${message}`);
+      }
+    }
+
+    await this.sessionManager.archiveSession(session.id);
+  }
+
+  /**
+   * Bring an archived session back, recreating its worktree from the branch if it was removed.
+   */
+  async restore(sessionId: string): Promise<Session> {
+    const dbSession = this.db.getSession(sessionId);
+    if (!dbSession) throw new Error('Session not found');
+    if (!dbSession.archived) throw new Error('Session is not archived');
+
+    const project = dbSession.project_id ? this.db.getProject(dbSession.project_id) : undefined;
+    const worktreePath = dbSession.worktree_path;
+    if (project?.path && worktreePath && worktreePath !== project.path && !fs.existsSync(worktreePath)) {
+      const branch = dbSession.current_branch || dbSession.worktree_name;
+      await this.worktreeManager.restoreWorktree(project.path, worktreePath, branch, dbSession.id);
+    }
+
+    return this.sessionManager.restoreSession(dbSession.id);
+  }
+
+  private async currentBranch(sessionId: string, worktreePath: string): Promise<string | null> {
+    try {
+      const result = await this.gitExecutor.run({
+        sessionId,
+        cwd: worktreePath,
+        argv: ['git', 'branch', '--show-current'],
+        op: 'read',
+        recordTimeline: false,
+        meta: { source: 'organizer', operation: 'archive-branch-probe' },
+      });
+      return (result.stdout ?? '').trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Unknown counts as changed so a failed probe never leads to lost work.
+  private async hasLocalChanges(sessionId: string, worktreePath: string): Promise<boolean> {
+    try {
+      const result = await this.gitExecutor.run({
+        sessionId,
+        cwd: worktreePath,
+        argv: ['git', 'status', '--porcelain', '--untracked-files=all'],
+        op: 'read',
+        recordTimeline: false,
+        meta: { source: 'organizer', operation: 'archive-status-probe' },
+      });
+      return (result.stdout ?? '').trim() !== '';
+    } catch {
+      return true;
+    }
+  }
+
+  // Levels below `folder`: 0 for a folder without subfolders.
+  private subtreeHeight(folder: Folder): number {
+    const children = this.db.getFoldersForProject(folder.project_id).filter((f) => f.parent_folder_id === folder.id);
+    return children.reduce((height, child) => Math.max(height, 1 + this.subtreeHeight(child)), 0);
+  }
+
+  private requireFolder(folderId: string): Folder {
+    const folder = this.db.getFolder(folderId);
+    if (!folder) throw new Error('Folder not found');
+    return folder;
+  }
+
+  private requireSession(sessionId: string): Session {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) throw new Error('Session not found');
+    return session;
+  }
+
+  private emitUpdate(projectId: number): Folder[] {
+    const folders = this.db.getFoldersForProject(projectId);
+    this.emit('updated', { projectId, folders });
+    return folders;
+  }
+}
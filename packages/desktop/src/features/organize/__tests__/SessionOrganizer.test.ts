@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { cleanupDatabase, createMockDatabase } from '../../../__tests__/helpers/mockDatabase';
+import type { DatabaseService } from '../../../infrastructure/database/database';
+import { SessionOrganizer } from '../SessionOrganizer';
+
+describe('SessionOrganizer', () => {
+  let db: DatabaseService;
+  let repo: string;
+  let worktree: string;
+  let projectId: number;
+  let sessionManager: Record<string, ReturnType<typeof vi.fn>>;
+  let worktreeManager: { removeWorktreePath: ReturnType<typeof vi.fn>; restoreWorktree: ReturnType<typeof vi.fn> };
+  let gitExecutor: { run: ReturnType<typeof vi.fn> };
+  let gitOutput: Record<string, string>;
+  let organizer: SessionOrganizer;
+
+  beforeEach(() => {
+    db = createMockDatabase();
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'snowtree-organizer-'));
+    worktree = path.join(repo, 'worktrees', 'feature');
+    fs.mkdirSync(worktree, { recursive: true });
+    projectId = db.createProject('Test Project', repo).id;
+    db.createSession({ id: 's1', name: 'feature', initial_prompt: '', worktree_name: 'feature', worktree_path: worktree, project_id: projectId });
+
+    sessionManager = {
+      getSession: vi.fn((id: string) => (id === 's1' ? { id, projectId, worktreePath: worktree } : undefined)),
+      getProjectForSession: vi.fn(() => ({ id: projectId, path: repo })),
+      updateSession: vi.fn(),
+      archiveSession: vi.fn(async (id: string) => { db.archiveSession(id); }),
+      restoreSession: vi.fn((id: string) => { db.restoreSession(id); return { id }; }),
+      getArchivedSessions: vi.fn(() => []),
+    };
+    worktreeManager = {
+      removeWorktreePath: vi.fn(async () => { fs.rmSync(worktree, { recursive: true, force: true }); }),
+      restoreWorktree: vi.fn(async () => undefined),
+    };
+    gitOutput = { 'git branch --show-current': 'feature-renamed\n', 'git status --porcelain --untracked-files=all': '' };
+    gitExecutor = { run: vi.fn(async ({ argv }: { argv: string[] }) => ({ exitCode: 0, stdout: gitOutput[argv.join(' ')] ?? '', stderr: '' })) };
+    organizer = new SessionOrganizer(db, sessionManager as never, worktreeManager as never, gitExecutor as never);
+  });
+
+  afterEach(() => {
+    cleanupDatabase(db);
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('nests folders and refuses to move a folder into its own subfolder', () => {
+    const updated = vi.fn();
+    organizer.on('updated', updated);
+
+    const [parent] = organizer.createFolder(projectId, '  Experiments ');
+    const folders = organizer.createFolder(projectId, 'Spikes', parent.id);
+    const child = folders.find((f) => f.name === 'Spikes')!;
+
+    expect(parent.name).toBe('Experiments');
+    expect(child.parent_folder_id).toBe(parent.id);
+    expect(updated).toHaveBeenLastCalledWith({ projectId, folders });
+    expect(() => organizer.moveFolder(parent.id, child.id)).toThrow('Cannot move a folder into itself');
+
+    organizer.moveFolder(child.id, null);
+    expect(organizer.listFolders(projectId).every((f) => f.parent_folder_id === null)).toBe(true);
+  });
+
+  it('keeps folder trees within the nesting limit when moving them', () => {
+    let parentId: string | null = null;
+    for (const name of ['1', '2', '3', '4', '5']) {
+      parentId = organizer.createFolder(projectId, name, parentId).find((f) => f.name === name)!.id;
+    }
+    const other = organizer.createFolder(projectId, 'Other').find((f) => f.name === 'Other')!;
+    const inner = organizer.createFolder(projectId, 'Inner', other.id).find((f) => f.name === 'Inner')!;
+    const second = organizer.listFolders(projectId).find((f) => f.name === '2')!;
+
+    // '2' has three levels below it: fits under 'Other', not under 'Other/Inner'.
+    expect(() => organizer.moveFolder(second.id, inner.id)).toThrow('Maximum nesting depth');
+    organizer.moveFolder(second.id, other.id);
+    expect(organizer.listFolders(projectId).find((f) => f.id === second.id)?.parent_folder_id).toBe(other.id);
+  });
+
+  it('only moves sessions into folders of their own project', () => {
+    const [folder] = organizer.createFolder(projectId, 'Review');
+    organizer.moveSession('s1', folder.id);
+    expect(sessionManager.updateSession).toHaveBeenCalledWith('s1', { folderId: folder.id });
+
+    const otherProject = db.createProject('Other', path.join(repo, 'other')).id;
+    const [foreign] = organizer.createFolder(otherProject, 'Elsewhere');
+    expect(() => organizer.moveSession('s1', foreign.id)).toThrow('Folder belongs to a different project');
+  });
+
+  it('archives by removing the worktree but remembering its branch', async () => {
+    await organizer.archive('s1');
+
+    expect(gitExecutor.run).toHaveBeenCalledWith(expect.objectContaining({ cwd: worktree, argv: ['git', 'branch', '--show-current'] }));
+    expect(worktreeManager.removeWorktreePath).toHaveBeenCalledWith(repo, worktree, 's1');
+    expect(db.getSession('s1')).toMatchObject({ current_branch: 'feature-renamed' });
+    expect(Boolean(db.getSession('s1')?.archived)).toBe(true);
+  });
+
+  it('refuses to archive a worktree with local changes or a detached HEAD', async () => {
+    gitOutput['git status --porcelain --untracked-files=all'] = ' M src/app.ts\n?? notes.md\n';
+    await expect(organizer.archive('s1')).rejects.toThrow('uncommitted or untracked changes');
+
+    gitOutput['git status --porcelain --untracked-files=all'] = '';
+    gitOutput['git branch --show-current'] = '\n';
+    await expect(organizer.archive('s1')).rejects.toThrow('detached HEAD');
+
+    expect(worktreeManager.removeWorktreePath).not.toHaveBeenCalled();
+    expect(sessionManager.archiveSession).not.toHaveBeenCalled();
+    expect(fs.existsSync(worktree)).toBe(true);
+  });
+
+  it('keeps the session when the worktree cannot be removed', async () => {
+    worktreeManager.removeWorktreePath.mockRejectedValueOnce(new Error('worktree is locked'));
+
+    await expect(organizer.archive('s1')).rejects.toThrow('Failed to remove worktree: worktree is locked');
+    expect(sessionManager.archiveSession).not.toHaveBeenCalled();
+    expect(Boolean(db.getSession('s1')?.archived)).toBe(false);
+  });
+
+  it('recreates the worktree from the branch when restoring', async () => {
+    await organizer.archive('s1');
+    await organizer.restore('s1');
+
+    expect(worktreeManager.restoreWorktree).toHaveBeenCalledWith(repo, worktree, 'feature-renamed', 's1');
+    expect(sessionManager.restoreSession).toHaveBeenCalledWith('s1');
+    await expect(organizer.restore('s1')).rejects.toThrow('Session is not archived');
+  });
+});
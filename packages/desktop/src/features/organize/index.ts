@@ -0,0 +1 @@
+export { SessionOrganizer } from './SessionOrganizer';
@@ -0,0 +1,65 @@
+import { EventEmitter } from 'node:events';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CodexPanelManager } from '../ai/CodexPanelManager';
+
+describe('CodexPanelManager rounds', () => {
+  let status: string;
+  let sessionManager: EventEmitter & { getSession: ReturnType<typeof vi.fn>; updateSessionStatus: (id: string, next: string) => void };
+  let executor: EventEmitter & { spawn: ReturnType<typeof vi.fn> };
+  let verifyRunner: { onRoundStarted: ReturnType<typeof vi.fn>; onPanelIdle: ReturnType<typeof vi.fn> };
+  let manager: CodexPanelManager;
+
+  const continueRound = () => manager.continuePanel({ panelId: 'p1', worktreePath: '/tmp/wt', prompt: 'Add it', conversationHistory: [] });
+
+  beforeEach(() => {
+    status = 'waiting';
+    sessionManager = Object.assign(new EventEmitter(), {
+      getSession: vi.fn((id: string) => ({ id, status })),
+      updateSessionStatus: (id: string, next: string) => {
+        status = next;
+        sessionManager.emit('session-updated', { id, status });
+      },
+    });
+    // Codex keeps its app-server alive between turns, so a round never emits 'exit'.
+    executor = Object.assign(new EventEmitter(), { spawn: vi.fn(async () => sessionManager.updateSessionStatus('s1', 'running')) });
+    verifyRunner = { onRoundStarted: vi.fn(), onPanelIdle: vi.fn(async () => null) };
+
+    manager = new CodexPanelManager(executor as never, sessionManager as never);
+    manager.setVerifyRunner(verifyRunner as never);
+    manager.registerPanel('p1', 's1', undefined, false);
+  });
+
+  it('verifies a turn that ends without the process exiting', async () => {
+    await continueRound();
+    expect(verifyRunner.onRoundStarted).toHaveBeenCalledWith('p1', 's1');
+    expect(verifyRunner.onPanelIdle).not.toHaveBeenCalled();
+
+    sessionManager.updateSessionStatus('s1', 'waiting');
+    expect(verifyRunner.onPanelIdle).toHaveBeenCalledWith('p1', 's1');
+
+    // Later updates of the idle session do not verify the same round again.
+    sessionManager.updateSessionStatus('s1', 'waiting');
+    expect(verifyRunner.onPanelIdle).toHaveBeenCalledTimes(1);
+  });
+
+  it('captures the plan of a plan-mode turn instead of verifying it', async () => {
+    const planManager = { onRoundStarted: vi.fn(), onPlanProposed: vi.fn(), onPlanRoundFinished: vi.fn(async () => null) };
+    manager.setPlanManager(planManager as never);
+
+    await manager.continuePanel({ panelId: 'p1', worktreePath: '/tmp/wt', prompt: 'Plan it', conversationHistory: [], planMode: true });
+    sessionManager.updateSessionStatus('s1', 'waiting');
+
+    expect(planManager.onPlanRoundFinished).toHaveBeenCalledWith('p1', 's1');
+    expect(verifyRunner.onPanelIdle).not.toHaveBeenCalled();
+  });
+
+  it('drops rounds that end in an error or a stop', async () => {
+    await continueRound();
+    sessionManager.updateSessionStatus('s1', 'error');
+    await continueRound();
+    sessionManager.updateSessionStatus('s1', 'stopped');
+    sessionManager.updateSessionStatus('s1', 'waiting');
+
+    expect(verifyRunner.onPanelIdle).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,34 @@
+import { AbstractAIPanelManager, PanelMapping } from '../base/AbstractAIPanelManager';
+import type { AbstractExecutor } from '../../../executors';
+import type { ExecutorSpawnOptions } from '../../../executors/types';
+import type { Logger } from '../../../infrastructure/logging/logger';
+import type { ConfigManager } from '../../../infrastructure/config/configManager';
+import type { AIPanelConfig } from '@snowtree/core/types/aiPanelConfig';
+
+/**
+ * Manager for panels of executor plugins registered in the executor registry
+ */
+export class PluginPanelManager extends AbstractAIPanelManager {
+  constructor(
+    executor: AbstractExecutor,
+    sessionManager: import('../../session').SessionManager,
+    logger?: Logger,
+    configManager?: ConfigManager
+  ) {
+    super(executor, sessionManager, logger, configManager);
+  }
+
+  protected getAgentName(): string {
+    return this.executor.getToolName();
+  }
+
+  protected extractSpawnOptions(config: AIPanelConfig, _mapping: PanelMapping): Partial<ExecutorSpawnOptions> {
+    return {
+      model: config.model,
+      approvalMode: config.approvalMode,
+      planMode: config.planMode,
+    };
+  }
+}
+
+export default PluginPanelManager;
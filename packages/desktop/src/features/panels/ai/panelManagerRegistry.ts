@@ -3,13 +3,19 @@ import { ClaudePanelManager } from './ClaudePanelManager';
 import { CodexPanelManager } from './CodexPanelManager';
 import { GeminiPanelManager } from './GeminiPanelManager';
 import { KimiPanelManager } from './KimiPanelManager';
+import { PluginPanelManager } from './PluginPanelManager';
 import type { ClaudeExecutor } from '../../../executors/claude';
 import type { CodexExecutor } from '../../../executors/codex';
 import type { GeminiExecutor } from '../../../executors/gemini';
 import type { KimiExecutor } from '../../../executors/kimi';
+import type { AbstractExecutor } from '../../../executors/base/AbstractExecutor';
+import { executorRegistry } from '../../../executors/registry';
 import type { Logger } from '../../../infrastructure/logging/logger';
 import type { ConfigManager } from '../../../infrastructure/config/configManager';
 import type { SessionManager } from '../../session';
+import type { VerifyRunner } from '../../verify';
+import type { PlanManager } from '../../plans';
+import type { AbstractAIPanelManager } from '../base/AbstractAIPanelManager';
 
 export interface PanelManagerDependencies {
   sessionManager: SessionManager;
@@ -19,6 +25,8 @@ export interface PanelManagerDependencies {
   kimiExecutor: KimiExecutor;
   logger?: Logger;
   configManager?: ConfigManager;
+  verifyRunner?: VerifyRunner;
+  planManager?: PlanManager;
 }
 
 let deps: PanelManagerDependencies | null = null;
@@ -27,6 +35,7 @@ export let claudePanelManager: ClaudePanelManager | null = null;
 export let codexPanelManager: CodexPanelManager | null = null;
 export let geminiPanelManager: GeminiPanelManager | null = null;
 export let kimiPanelManager: KimiPanelManager | null = null;
+const pluginPanelManagers = new Map<string, PluginPanelManager>();
 
 export const initPanelManagerRegistry = (nextDeps: PanelManagerDependencies): void => {
   if (!deps) {
@@ -41,15 +50,21 @@ const requireDeps = (): PanelManagerDependencies => {
   return deps;
 };
 
+const withRoundServices = <T extends AbstractAIPanelManager>(manager: T): T => {
+  if (deps?.verifyRunner) manager.setVerifyRunner(deps.verifyRunner);
+  if (deps?.planManager) manager.setPlanManager(deps.planManager);
+  return manager;
+};
+
 export const getClaudePanelManager = (): ClaudePanelManager => {
   const current = requireDeps();
   if (!claudePanelManager) {
-    claudePanelManager = new ClaudePanelManager(
+    claudePanelManager = withRoundServices(new ClaudePanelManager(
       current.claudeExecutor,
       current.sessionManager,
       current.logger,
       current.configManager
-    );
+    ));
   }
   return claudePanelManager;
 };
@@ -57,12 +72,12 @@ export const getClaudePanelManager = (): ClaudePanelManager => {
 export const getCodexPanelManager = (): CodexPanelManager => {
   const current = requireDeps();
   if (!codexPanelManager) {
-    codexPanelManager = new CodexPanelManager(
+    codexPanelManager = withRoundServices(new CodexPanelManager(
       current.codexExecutor,
       current.sessionManager,
       current.logger,
       current.configManager
-    );
+    ));
   }
   return codexPanelManager;
 };
@@ -70,12 +85,12 @@ export const getCodexPanelManager = (): CodexPanelManager => {
 export const getGeminiPanelManager = (): GeminiPanelManager => {
   const current = requireDeps();
   if (!geminiPanelManager) {
-    geminiPanelManager = new GeminiPanelManager(
+    geminiPanelManager = withRoundServices(new GeminiPanelManager(
       current.geminiExecutor,
       current.sessionManager,
       current.logger,
       current.configManager
-    );
+    ));
   }
   return geminiPanelManager;
 };
@@ -83,19 +98,38 @@ export const getGeminiPanelManager = (): GeminiPanelManager => {
 export const getKimiPanelManager = (): KimiPanelManager => {
   const current = requireDeps();
   if (!kimiPanelManager) {
-    kimiPanelManager = new KimiPanelManager(
+    kimiPanelManager = withRoundServices(new KimiPanelManager(
       current.kimiExecutor,
       current.sessionManager,
       current.logger,
       current.configManager
-    );
+    ));
   }
   return kimiPanelManager;
 };
 
+/**
+ * Panel manager for an executor plugin, or null if no plugin with that id is registered.
+ */
+export const getPluginPanelManager = (type: string): { manager: PluginPanelManager; executor: AbstractExecutor } | null => {
+  const current = requireDeps();
+  if (!executorRegistry.has(type)) return null;
+  const executor = executorRegistry.getExecutor(type, {
+    sessionManager: current.sessionManager,
+    logger: current.logger,
+    configManager: current.configManager,
+  });
+  let manager = pluginPanelManagers.get(type);
+  if (!manager) {
+    manager = withRoundServices(new PluginPanelManager(executor, current.sessionManager, current.logger, current.configManager));
+    pluginPanelManagers.set(type, manager);
+  }
+  return { manager, executor };
+};
+
 export const getPanelManagerForType = (type: ToolPanelType): {
-  manager: ClaudePanelManager | CodexPanelManager | GeminiPanelManager | KimiPanelManager;
-  executor: ClaudeExecutor | CodexExecutor | GeminiExecutor | KimiExecutor;
+  manager: ClaudePanelManager | CodexPanelManager | GeminiPanelManager | KimiPanelManager | PluginPanelManager;
+  executor: ClaudeExecutor | CodexExecutor | GeminiExecutor | KimiExecutor | AbstractExecutor;
 } | null => {
   const current = requireDeps();
   switch (type) {
@@ -108,6 +142,6 @@ export const getPanelManagerForType = (type: ToolPanelType): {
     case 'kimi':
       return { manager: getKimiPanelManager(), executor: current.kimiExecutor };
     default:
-      return null;
+      return getPluginPanelManager(type);
   }
 };
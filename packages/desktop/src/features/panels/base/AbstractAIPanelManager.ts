@@ -4,6 +4,9 @@ import type { ExecutorSpawnOptions
 import type { Logger } from '../../../infrastructure/logging/logger';
 import type { ConfigManager } from '../../../infrastructure/config/configManager';
 import type { ConversationMessage } from '../../../infrastructure/database/models';
+import type { VerifyRunner } from '../../verify';
+import type { PlanManager } from '../../plans';
+import type { Session } from '@snowtree/core/types/session';
 import { AIPanelConfig, StartPanelConfig, ContinuePanelConfig, AIPanelState } from '@snowtree/core/types/aiPanelConfig';
 
 /**
@@ -25,6 +28,16 @@ export abstract class AbstractAIPanelManager {
   protected panelMappings = new Map<string, PanelMapping>();
   protected resumeIdToPanel = new Map<string, string>();
   protected promptStartTimes = new Map<string, number>();
+  protected verifyRunner?: VerifyRunner;
+  protected planManager?: PlanManager;
+
+  /**
+   * Panels whose round has not ended yet. A round ends when its session goes
+   * from running to waiting, which long-lived agents (Codex's app-server) do
+   * without exiting.
+   */
+  protected openRounds = new Set<string>();
+  private lastStatusBySession = new Map<string, Session['status']>();
 
   /**
    * Pending agent session IDs that haven't been confirmed yet.
@@ -45,6 +58,24 @@ export abstract class AbstractAIPanelManager {
   ) {
     this.setupEventHandlers();
     this.setupAnalyticsEventHandlers();
+    this.sessionManager.on('session-updated', (session: Session) => this.handleSessionUpdated(session));
+    this.sessionManager.on('session-deleted', (data: { id?: string }) => {
+      if (data?.id) this.lastStatusBySession.delete(data.id);
+    });
+  }
+
+  /**
+   * Run the project's verify command whenever a round ends cleanly
+   */
+  setVerifyRunner(verifyRunner: VerifyRunner): void {
+    this.verifyRunner = verifyRunner;
+  }
+
+  /**
+   * Capture the plan of every plan-mode round as a reviewable plan version
+   */
+  setPlanManager(planManager: PlanManager): void {
+    this.planManager = planManager;
   }
 
   /**
@@ -157,6 +188,13 @@ export abstract class AbstractAIPanelManager {
       this.executor.emit('panel-exit', { panelId, sessionId: resolvedSessionId, exitCode, signal });
     });
 
+    // Plans handed in explicitly (Claude's ExitPlanMode) replace the round's chat text
+    this.executor.on('plan-proposed', (data: { panelId: string; plan: string }) => {
+      if (data?.panelId && this.panelMappings.has(data.panelId) && typeof data.plan === 'string') {
+        this.planManager?.onPlanProposed(data.panelId, data.plan);
+      }
+    });
+
     // Forward error events
     this.executor.on('error', (data: { panelId: string; sessionId: string; error: Error | string }) => {
       const { panelId, sessionId, error } = data;
@@ -181,6 +219,48 @@ export abstract class AbstractAIPanelManager {
     });
   }
 
+  /**
+   * End the open rounds of a session that went from running to waiting: a
+   * plan-mode round proposed a plan to review, any other round is checked with
+   * the verify command. Errors and stops drop the round.
+   */
+  private handleSessionUpdated(session: Session): void {
+    const prev = this.lastStatusBySession.get(session.id);
+    this.lastStatusBySession.set(session.id, session.status);
+    if (session.status === prev || session.status === 'running' || session.status === 'initializing') return;
+
+    const finished = prev === 'running' || prev === 'initializing';
+    for (const panelId of [...this.openRounds]) {
+      const mapping = this.panelMappings.get(panelId);
+      if (mapping?.sessionId !== session.id) continue;
+      this.openRounds.delete(panelId);
+      if (finished && session.status === 'waiting') this.onRoundFinished(mapping);
+    }
+  }
+
+  private onRoundFinished(mapping: PanelMapping): void {
+    const { panelId, sessionId } = mapping;
+    if (mapping.config?.planMode && this.planManager) {
+      this.planManager.onPlanRoundFinished(panelId, sessionId).catch((error) => {
+        this.logger?.warn(`[${this.getAgentName()}PanelManager] Failed to capture plan for panel ${panelId}: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    } else {
+      this.verifyRunner?.onPanelIdle(panelId, sessionId).catch((error) => {
+        this.logger?.warn(`[${this.getAgentName()}PanelManager] Verify failed for panel ${panelId}: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }
+  }
+
+  /**
+   * A prompt started a round on the panel; it ends when the session turns idle.
+   */
+  private beginRound(panelId: string, sessionId: string): void {
+    this.openRounds.add(panelId);
+    const status = this.sessionManager.getSession(sessionId)?.status;
+    if (status) this.lastStatusBySession.set(sessionId, status);
+    this.verifyRunner?.onRoundStarted(panelId, sessionId);
+  }
+
   /**
    * Setup analytics event handlers
    */
@@ -232,6 +312,7 @@ export abstract class AbstractAIPanelManager {
         this.resumeIdToPanel.delete(mapping.resumeId);
       }
       this.panelMappings.delete(panelId);
+      this.openRounds.delete(panelId);
       this.logger?.info(`[${this.getAgentName()}PanelManager] Unregistered panel ${panelId}`);
     }
   }
@@ -252,6 +333,8 @@ export abstract class AbstractAIPanelManager {
 
     this.logger?.info(`[${this.getAgentName()}PanelManager] Starting panel ${panelId} (session: ${resolvedSessionId})`);
     this.trackPromptSubmission(panelId, prompt);
+    this.beginRound(panelId, resolvedSessionId);
+    this.planManager?.onRoundStarted(panelId);
 
     // Build spawn options
     const imagePaths =
@@ -296,6 +379,8 @@ export abstract class AbstractAIPanelManager {
 
     this.trackPromptSubmission(panelId, prompt);
     this.trackConversationTurn(panelId, dbConversationHistory);
+    this.beginRound(panelId, mapping.sessionId);
+    this.planManager?.onRoundStarted(panelId);
 
     const hasResumeToken = typeof mapping.agentSessionId === 'string' && mapping.agentSessionId.length > 0;
 
@@ -366,6 +451,7 @@ export abstract class AbstractAIPanelManager {
 
       // Update timeline event to 'answered' status
       await this.executor.updateQuestionStatus(panelId, mapping.sessionId, answers);
+      this.beginRound(panelId, mapping.sessionId);
 
       // Get the session's worktree path
       const session = this.sessionManager.getSession(mapping.sessionId);
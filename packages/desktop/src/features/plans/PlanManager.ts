@@ -0,0 +1,169 @@
+/**
+ * PlanManager - Plan-then-execute with an approvable plan document
+ *
+ * When an agent round sent in plan mode ends cleanly, the plan it proposed is
+ * saved as the next version of the session's plan: the ExitPlanMode plan when
+ * the agent called it, otherwise the assistant text of the round. The user can
+ * edit the draft (each save is a new version) and approve it, which switches
+ * the session to execute mode and sends the approved plan to the same panel.
+ * Every version is recorded in the timeline as a `plan` event.
+ */
+
+import { EventEmitter } from 'events';
+import type { DatabaseService } from '../../infrastructure/database/database';
+import type { SessionPlan } from '../../infrastructure/database/models';
+import type { Logger } from '../../infrastructure/logging/logger';
+import type { SessionManager } from '../session/SessionManager';
+
+export type PlanPromptDispatcher = (panelId: string, prompt: string) => Promise<{ success: boolean; error?: string }>;
+
+export type PlanChange = 'proposed' | 'edited' | 'approved';
+
+export interface PlanUpdate {
+  sessionId: string;
+  change: PlanChange;
+  plan: SessionPlan;
+}
+
+export function buildPlanExecutionPrompt(content: string): string {
+  return [
+    'The plan below has been reviewed and approved. Implement it now, step by step. Where it differs from what you proposed earlier, follow this version.',
+    '',
+    content,
+  ].join('\n');
+}
+
+export class PlanManager extends EventEmitter {
+  /** ExitPlanMode plans reported during the current round, by panel */
+  private proposed = new Map<string, string>();
+  private dispatcher: PlanPromptDispatcher | null = null;
+
+  constructor(
+    private db: DatabaseService,
+    private sessionManager: SessionManager,
+    private logger?: Logger
+  ) {
+    super();
+  }
+
+  /**
+   * Set how the approved plan is sent to its panel (the `panels:continue` path).
+   */
+  setDispatcher(dispatcher: PlanPromptDispatcher): void {
+    this.dispatcher = dispatcher;
+  }
+
+  getPlans(sessionId: string): SessionPlan[] {
+    return this.db.getSessionPlans(sessionId);
+  }
+
+  /**
+   * A plan-mode round started on `panelId`; forget a plan left from an earlier round.
+   */
+  onRoundStarted(panelId: string): void {
+    this.proposed.delete(panelId);
+  }
+
+  /**
+   * The agent handed in a plan explicitly (Claude's ExitPlanMode tool). It is
+   * preferred over the round's chat text when the round ends.
+   */
+  onPlanProposed(panelId: string, plan: string): void {
+    if (plan.trim()) this.proposed.set(panelId, plan.trim());
+  }
+
+  /**
+   * Capture the plan of the plan-mode round that just ended on `panelId`.
+   * Resolves with null when the round produced no text. Waits a tick so the
+   * round's final assistant message has been persisted.
+   */
+  async onPlanRoundFinished(panelId: string, sessionId: string): Promise<SessionPlan | null> {
+    await new Promise<void>((resolve) => setImmediate(resolve));
+
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session || session.importedAt) return null;
+    if (session.status === 'stopped' || session.status === 'error') return null;
+
+    const content = this.proposed.get(panelId) ?? this.getRoundText(panelId);
+    this.proposed.delete(panelId);
+    if (!content) return null;
+
+    const plan = this.db.addSessionPlan(sessionId, panelId, content, 'agent');
+    this.publish(sessionId, 'proposed', plan);
+    return plan;
+  }
+
+  /**
+   * Save an edit of the session's draft as a new version.
+   */
+  updatePlan(sessionId: string, planId: number, content: string): SessionPlan {
+    const draft = this.requireDraft(sessionId, planId);
+    const text = content.trim();
+    if (!text) throw new Error('The plan is empty');
+    if (text === draft.content) return draft;
+
+    const plan = this.db.addSessionPlan(sessionId, draft.panel_id, text, 'user');
+    this.publish(sessionId, 'edited', plan);
+    return plan;
+  }
+
+  /**
+   * Approve the session's draft, saving `content` first when it was edited,
+   * then switch the session to execute mode and send the plan to its panel.
+   */
+  async approvePlan(sessionId: string, planId: number, content?: string): Promise<SessionPlan> {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) throw new Error('Session not found');
+    if (session.status === 'running' || session.status === 'initializing') {
+      throw new Error('Wait for the agent to finish before approving the plan');
+    }
+    if (!this.dispatcher) throw new Error('Plans cannot be sent to the agent');
+
+    const draft = content === undefined ? this.requireDraft(sessionId, planId) : this.updatePlan(sessionId, planId, content);
+    const approved = this.db.approveSessionPlan(draft.id) ?? draft;
+    this.sessionManager.updateSession(sessionId, { executionMode: 'execute' });
+    this.publish(sessionId, 'approved', approved);
+
+    const res = await this.dispatcher(approved.panel_id, buildPlanExecutionPrompt(approved.content));
+    if (!res.success) {
+      this.logger?.warn(`[Plan] Failed to send approved plan for session ${sessionId}: ${res.error ?? 'unknown error'}`);
+      throw new Error(res.error || 'Failed to send the plan to the agent');
+    }
+    return approved;
+  }
+
+  private requireDraft(sessionId: string, planId: number): SessionPlan {
+    const plan = this.db.getSessionPlan(planId);
+    if (!plan || plan.session_id !== sessionId) throw new Error('Plan not found');
+    if (plan.status !== 'draft') throw new Error(`Plan v${plan.version} is ${plan.status}; only the latest draft can change`);
+    return plan;
+  }
+
+  /** Assistant messages after the last user message of the panel. */
+  private getRoundText(panelId: string): string {
+    const messages = this.sessionManager.getPanelConversationMessages(panelId);
+    const lastPrompt = messages.map((m) => m.message_type).lastIndexOf('user');
+    return messages
+      .slice(lastPrompt + 1)
+      .filter((m) => m.message_type === 'assistant')
+      .map((m) => m.content.trim())
+      .filter(Boolean)
+      .join('\n\n');
+  }
+
+  private publish(sessionId: string, change: PlanChange, plan: SessionPlan): void {
+    try {
+      this.sessionManager.addTimelineEvent({
+        session_id: sessionId,
+        panel_id: plan.panel_id,
+        kind: 'plan',
+        status: change === 'approved' ? 'finished' : 'pending',
+        content: plan.content,
+        meta: { planId: plan.id, version: plan.version, source: plan.source, planChange: change },
+      });
+    } catch (error) {
+      this.logger?.warn(`[Plan] Failed to record plan v${plan.version} for ${sessionId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    this.emit('plan-updated', { sessionId, change, plan } satisfies PlanUpdate);
+  }
+}
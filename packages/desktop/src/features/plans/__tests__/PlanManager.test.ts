@@ -0,0 +1,101 @@
+import { EventEmitter } from 'node:events';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { cleanupDatabase, createMockDatabase } from '../../../__tests__/helpers/mockDatabase';
+import type { DatabaseService } from '../../../infrastructure/database/database';
+import type { ConversationMessage } from '../../../infrastructure/database/models';
+import { PlanManager } from '../PlanManager';
+
+describe('PlanManager', () => {
+  let db: DatabaseService;
+  let status: string;
+  let messages: ConversationMessage[];
+  let manager: PlanManager;
+  let sessionManager: EventEmitter & {
+    getSession: ReturnType<typeof vi.fn>;
+    updateSession: ReturnType<typeof vi.fn>;
+    addTimelineEvent: ReturnType<typeof vi.fn>;
+    getPanelConversationMessages: ReturnType<typeof vi.fn>;
+  };
+
+  const message = (message_type: 'user' | 'assistant', content: string): ConversationMessage =>
+    ({ id: messages.length + 1, session_id: 's1', message_type, content, timestamp: 'now' });
+
+  beforeEach(() => {
+    db = createMockDatabase();
+    const projectId = db.createProject('Test Project', '/tmp/repo').id;
+    db.createSession({ id: 's1', name: 'feature', initial_prompt: 'Add it', worktree_name: 'feature', worktree_path: '/tmp/repo', project_id: projectId });
+    status = 'waiting';
+    messages = [];
+    sessionManager = Object.assign(new EventEmitter(), {
+      getSession: vi.fn((id: string) => ({ id, status })),
+      updateSession: vi.fn(),
+      addTimelineEvent: vi.fn(),
+      getPanelConversationMessages: vi.fn(() => messages),
+    });
+    manager = new PlanManager(db, sessionManager as never);
+  });
+
+  afterEach(() => {
+    cleanupDatabase(db);
+  });
+
+  it('captures the round text as a new draft version', async () => {
+    messages = [message('user', 'Plan the old thing'), message('assistant', 'Old plan')];
+    const first = await manager.onPlanRoundFinished('p1', 's1');
+    messages.push(message('user', 'Plan the login page'), message('assistant', '1. Add the form'), message('assistant', '2. Wire the API'));
+    const second = await manager.onPlanRoundFinished('p1', 's1');
+
+    expect(second).toMatchObject({ version: 2, content: '1. Add the form\n\n2. Wire the API', source: 'agent', status: 'draft' });
+    expect(db.getSessionPlans('s1').map((plan) => [plan.version, plan.status])).toEqual([[1, 'superseded'], [2, 'draft']]);
+    const events = sessionManager.addTimelineEvent.mock.calls.map(([event]) => event);
+    expect(events.map((event) => [event.kind, event.status, event.meta.planChange, event.meta.version])).toEqual([
+      ['plan', 'pending', 'proposed', 1],
+      ['plan', 'pending', 'proposed', 2],
+    ]);
+    expect(events[0].meta.planId).toBe(first?.id);
+  });
+
+  it('prefers the plan handed in with ExitPlanMode and skips empty or stopped rounds', async () => {
+    messages = [message('user', 'Plan it'), message('assistant', 'Here is my plan')];
+    manager.onPlanProposed('p1', '  ## Plan\n- step one  ');
+    await expect(manager.onPlanRoundFinished('p1', 's1')).resolves.toMatchObject({ content: '## Plan\n- step one' });
+
+    messages.push(message('user', 'Again'));
+    await expect(manager.onPlanRoundFinished('p1', 's1')).resolves.toBeNull();
+
+    messages.push(message('assistant', 'Partial plan'));
+    status = 'stopped';
+    await expect(manager.onPlanRoundFinished('p1', 's1')).resolves.toBeNull();
+    expect(db.getSessionPlans('s1')).toHaveLength(1);
+  });
+
+  it('saves edits as versions and sends the approved plan in execute mode', async () => {
+    messages = [message('user', 'Plan it'), message('assistant', 'Step one')];
+    const draft = await manager.onPlanRoundFinished('p1', 's1');
+    if (!draft) throw new Error('expected a draft');
+
+    await expect(manager.approvePlan('s1', draft.id)).rejects.toThrow('Plans cannot be sent to the agent');
+    const dispatcher = vi.fn(async () => ({ success: true }));
+    manager.setDispatcher(dispatcher);
+
+    const edited = manager.updatePlan('s1', draft.id, 'Step one\nStep two');
+    expect(edited).toMatchObject({ version: 2, source: 'user', status: 'draft' });
+    expect(() => manager.updatePlan('s1', draft.id, 'Other')).toThrow('Plan v1 is superseded');
+
+    status = 'running';
+    await expect(manager.approvePlan('s1', edited.id)).rejects.toThrow('Wait for the agent to finish');
+    status = 'waiting';
+    const approved = await manager.approvePlan('s1', edited.id, 'Step one\nStep two\nStep three');
+
+    expect(approved).toMatchObject({ version: 3, source: 'user', status: 'approved' });
+    expect(approved.approved_at).toBeTruthy();
+    expect(sessionManager.updateSession).toHaveBeenCalledWith('s1', { executionMode: 'execute' });
+    expect(dispatcher).toHaveBeenCalledTimes(1);
+    const [panelId, prompt] = dispatcher.mock.calls[0] as unknown as [string, string];
+    expect(panelId).toBe('p1');
+    expect(prompt).toContain('Step one\nStep two\nStep three');
+    const changes = sessionManager.addTimelineEvent.mock.calls.map(([event]) => event.meta.planChange);
+    expect(changes).toEqual(['proposed', 'edited', 'edited', 'approved']);
+    expect(() => manager.updatePlan('s1', approved.id, 'Late edit')).toThrow('Plan v3 is approved');
+  });
+});
@@ -0,0 +1,2 @@
+export { PlanManager, buildPlanExecutionPrompt } from './PlanManager';
+export type { PlanPromptDispatcher, PlanChange, PlanUpdate } from './PlanManager';
@@ -0,0 +1,296 @@
+/**
+ * PolicyEngine - Per-project allow/deny rules for agent commands and file changes
+ *
+ * For each command or path, rules are checked in order and the first enabled
+ * rule that matches decides it. A request touching several subjects is denied
+ * if any of them is denied and allowed only if every one of them is allowed;
+ * otherwise it goes to the user. Shell wrappers (`bash -lc '...'`) and compound
+ * commands are split into the commands they run before matching.
+ *
+ * Approval requests decided by the rules never reach the user. Tool calls
+ * parsed from agent output can no longer be stopped before they run, so only
+ * deny rules apply to them and the caller interrupts the agent. Every rule
+ * that fires is recorded as a `policy_decision` timeline event naming the rule.
+ */
+
+import type { ActionType, ExecutorApprovalRequestEvent, ExecutorToolUseEvent } from '../../executors/types';
+import type { DatabaseService } from '../../infrastructure/database/database';
+import type { PolicyRule } from '../../infrastructure/database/models';
+import type { Logger } from '../../infrastructure/logging/logger';
+import type { SessionManager } from '../session/SessionManager';
+
+export interface PolicySubject {
+  target: PolicyRule['target'];
+  value: string;
+}
+
+export interface PolicyVerdict {
+  rule: PolicyRule;
+  action: PolicyRule['action'];
+  /** The command or path the rule matched. */
+  subject: PolicySubject;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+const normalizeCommand = (command: string) => command.trim().replace(/\s+/g, ' ');
+
+/**
+ * Compile a glob. For commands `*` matches anything and the whole command must
+ * match. For paths `*` stays within a segment, `**` crosses segments, a trailing
+ * `/` matches everything below a directory, and a pattern without `/` matches at
+ * any depth (like .gitignore).
+ */
+export function globToRegExp(pattern: string, target: PolicyRule['target']): RegExp {
+  if (target === 'command') {
+    const body = normalizeCommand(pattern).split('').map((ch) => {
+      if (ch === '*') return '.*';
+      if (ch === '?') return '.';
+      return escapeRegExp(ch);
+    }).join('');
+    return new RegExp(`^${body}$`);
+  }
+
+  let glob = pattern.trim().replace(/\\/g, '/').replace(/^\.\//, '');
+  if (glob.endsWith('/')) glob += '**';
+  const anyDepth = !glob.replace(/\/\*\*$/, '').includes('/');
+  glob = glob.replace(/^\//, '');
+
+  let body = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*' && glob[i + 1] === '*') {
+      if (glob[i + 2] === '/') {
+        body += '(?:.*/)?';
+        i += 2;
+      } else {
+        body += '.*';
+        i += 1;
+      }
+    } else if (ch === '*') {
+      body += '[^/]*';
+    } else if (ch === '?') {
+      body += '[^/]';
+    } else {
+      body += escapeRegExp(ch);
+    }
+  }
+  return new RegExp(`^${anyDepth ? '(?:.*/)?' : ''}${body}$`);
+}
+
+/** Throws with a readable message when a rule's pattern does not compile. */
+export function compilePolicyRule(rule: Pick<PolicyRule, 'name' | 'target' | 'pattern_type' | 'pattern'>): RegExp {
+  if (!rule.pattern.trim()) throw new Error(`Rule "${rule.name}" has an empty pattern`);
+  try {
+    return rule.pattern_type === 'regex' ? new RegExp(rule.pattern) : globToRegExp(rule.pattern, rule.target);
+  } catch (error) {
+    throw new Error(`Rule "${rule.name}" has an invalid pattern: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+const SHELLS = new Set(['sh', 'bash', 'zsh', 'dash', 'ksh']);
+const CONTROL_OPERATORS = ['&&', '||', ';', '|', '&', '\n'];
+
+// Split on control operators and words outside quotes; quotes are removed from words.
+function splitShell(command: string): string[][] {
+  const segments: string[][] = [];
+  let words: string[] = [];
+  let word: string | null = null;
+  let quote: '"' | "'" | null = null;
+  const endWord = () => {
+    if (word !== null) words.push(word);
+    word = null;
+  };
+  const endSegment = () => {
+    endWord();
+    if (words.length > 0) segments.push(words);
+    words = [];
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const ch = command[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+      else if (ch === '\\' && quote === '"' && i + 1 < command.length) word += command[++i];
+      else word += ch;
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      quote = ch;
+      word = word ?? '';
+      continue;
+    }
+    if (ch === '\\' && i + 1 < command.length) {
+      word = (word ?? '') + command[++i];
+      continue;
+    }
+    const operator = CONTROL_OPERATORS.find((op) => command.startsWith(op, i));
+    // `2>&1` and `<&3` are redirections, not background operators.
+    if (operator && !(operator === '&' && /[<>]$/.test(word ?? ''))) {
+      endSegment();
+      i += operator.length - 1;
+      continue;
+    }
+    if (/\s/.test(ch)) {
+      endWord();
+      continue;
+    }
+    word = (word ?? '') + ch;
+  }
+  endSegment();
+  return segments;
+}
+
+/**
+ * The simple commands a command line runs, unwrapping `sh -c` / `bash -lc`
+ * scripts. Returns the command itself when it is a single simple command.
+ */
+export function expandCommand(command: string, depth = 0): string[] {
+  const segments = splitShell(command);
+  if (segments.length === 0) return [normalizeCommand(command)];
+
+  const commands: string[] = [];
+  for (const words of segments) {
+    const shell = words[0].split('/').pop() ?? '';
+    const flagIndex = SHELLS.has(shell) ? words.findIndex((w, i) => i > 0 && /^-[a-z]*c[a-z]*$/.test(w)) : -1;
+    if (flagIndex !== -1 && flagIndex + 1 < words.length && depth < 4) {
+      // Commands given as an argv array reach us joined with spaces, so take the rest of the line.
+      commands.push(...expandCommand(words.slice(flagIndex + 1).join(' '), depth + 1));
+    } else {
+      commands.push(words.join(' '));
+    }
+  }
+  return commands;
+}
+
+interface CompiledRule {
+  rule: PolicyRule;
+  matcher: RegExp;
+}
+
+function firstMatch(rules: CompiledRule[], target: PolicyRule['target'], value: string): PolicyRule | null {
+  for (const { rule, matcher } of rules) {
+    if (rule.target === target && matcher.test(value)) return rule;
+  }
+  return null;
+}
+
+export function evaluatePolicy(rules: PolicyRule[], subjects: PolicySubject[]): PolicyVerdict | null {
+  const compiled: CompiledRule[] = [];
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    try {
+      compiled.push({ rule, matcher: compilePolicyRule(rule) });
+    } catch {
+      // Invalid rules are rejected when saved; skip any that slipped through.
+    }
+  }
+  if (compiled.length === 0) return null;
+
+  let allowed: PolicyVerdict | null = null;
+  let uncovered = false;
+  for (const subject of subjects) {
+    if (subject.target === 'command') {
+      // Rules written against the full line can still deny it.
+      const whole = normalizeCommand(subject.value);
+      const wholeRule = firstMatch(compiled, 'command', whole);
+      if (wholeRule?.action === 'deny') return { rule: wholeRule, action: 'deny', subject: { target: 'command', value: whole } };
+    }
+    const values = subject.target === 'command' ? expandCommand(subject.value) : [subject.value];
+    for (const value of values) {
+      const rule = firstMatch(compiled, subject.target, value);
+      const verdict: PolicyVerdict | null = rule ? { rule, action: rule.action, subject: { target: subject.target, value } } : null;
+      if (verdict?.action === 'deny') return verdict;
+      if (verdict) allowed = allowed ?? verdict;
+      else uncovered = true;
+    }
+  }
+  return uncovered ? null : allowed;
+}
+
+export function describePolicyVerdict(verdict: PolicyVerdict): string {
+  return `Blocked by policy rule "${verdict.rule.name}": ${verdict.subject.value}`;
+}
+
+function describeAction(action: ActionType, extraPaths: string[] = []): PolicySubject[] {
+  const subjects: PolicySubject[] = extraPaths.map((value) => ({ target: 'path', value }));
+  if (action.type === 'command_run' && action.command) {
+    subjects.push({ target: 'command', value: action.command });
+  } else if ((action.type === 'file_edit' || action.type === 'file_write') && action.path) {
+    subjects.push({ target: 'path', value: action.path });
+  }
+  return subjects;
+}
+
+export class PolicyEngine {
+  constructor(
+    private db: DatabaseService,
+    private sessionManager: SessionManager,
+    private logger?: Logger
+  ) {}
+
+  /**
+   * Decide an approval request from the rules, or return null to ask the user.
+   */
+  checkApproval(event: ExecutorApprovalRequestEvent): PolicyVerdict | null {
+    const subjects: PolicySubject[] = [];
+    if (event.details.command) subjects.push({ target: 'command', value: event.details.command });
+    for (const file of event.details.files ?? []) subjects.push({ target: 'path', value: file.path });
+
+    const verdict = this.evaluate(event.sessionId, subjects);
+    if (verdict) this.record(event.sessionId, event.panelId, verdict, 'approval');
+    return verdict;
+  }
+
+  /**
+   * Check a tool call the agent has already started. Only deny rules apply.
+   */
+  checkToolUse(event: ExecutorToolUseEvent): PolicyVerdict | null {
+    const subjects = describeAction(event.action, event.paths);
+    const verdict = this.evaluate(event.sessionId, subjects);
+    if (!verdict || verdict.action !== 'deny') return null;
+    this.record(event.sessionId, event.panelId, verdict, 'tool_use');
+    return verdict;
+  }
+
+  private evaluate(sessionId: string, subjects: PolicySubject[]): PolicyVerdict | null {
+    if (subjects.length === 0) return null;
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session?.projectId) return null;
+    const rules = this.db.getPolicyRules(session.projectId);
+    if (rules.length === 0) return null;
+
+    const root = session.worktreePath ? `${session.worktreePath.replace(/\\/g, '/').replace(/\/+$/, '')}/` : null;
+    const relative = subjects.map((subject) => {
+      if (subject.target !== 'path') return subject;
+      let value = subject.value.replace(/\\/g, '/');
+      if (root && value.startsWith(root)) value = value.slice(root.length);
+      return { ...subject, value: value.replace(/^\.\//, '') };
+    });
+    return evaluatePolicy(rules, relative);
+  }
+
+  private record(sessionId: string, panelId: string, verdict: PolicyVerdict, source: 'approval' | 'tool_use'): void {
+    try {
+      this.sessionManager.addTimelineEvent({
+        session_id: sessionId,
+        panel_id: panelId,
+        kind: 'policy_decision',
+        status: verdict.action === 'allow' ? 'finished' : 'failed',
+        command: verdict.subject.value,
+        tool_name: verdict.rule.name,
+        action_type: verdict.action,
+        meta: {
+          ruleId: verdict.rule.id,
+          rule: verdict.rule.name,
+          action: verdict.action,
+          target: verdict.rule.target,
+          pattern: verdict.rule.pattern,
+          source,
+        },
+      });
+    } catch (error) {
+      this.logger?.warn(`[Policy] Failed to record decision for ${sessionId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
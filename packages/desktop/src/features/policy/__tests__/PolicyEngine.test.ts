@@ -0,0 +1,155 @@
+import { randomUUID } from 'node:crypto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { cleanupDatabase, createMockDatabase } from '../../../__tests__/helpers/mockDatabase';
+import type { DatabaseService } from '../../../infrastructure/database/database';
+import type { CreateTimelineEventData, PolicyRuleInput } from '../../../infrastructure/database/models';
+import { PolicyEngine, compilePolicyRule, expandCommand, globToRegExp } from '../PolicyEngine';
+
+const rule = (overrides: Partial<PolicyRuleInput>): PolicyRuleInput => ({
+  name: 'rule',
+  action: 'deny',
+  target: 'command',
+  pattern_type: 'glob',
+  pattern: '*',
+  enabled: true,
+  ...overrides,
+});
+
+describe('globToRegExp', () => {
+  it('matches whole commands with * spanning arguments', () => {
+    const force = globToRegExp('git push --force*', 'command');
+    expect(force.test('git push --force origin main')).toBe(true);
+    expect(force.test('git push origin main')).toBe(false);
+    expect(force.test('echo git push --force')).toBe(false);
+  });
+
+  it('treats path globs like .gitignore', () => {
+    const migrations = globToRegExp('migrations/', 'path');
+    expect(migrations.test('migrations/001.sql')).toBe(true);
+    expect(migrations.test('db/migrations/001.sql')).toBe(true);
+    expect(migrations.test('src/migrations.ts')).toBe(false);
+
+    const rooted = globToRegExp('/src/*.ts', 'path');
+    expect(rooted.test('src/a.ts')).toBe(true);
+    expect(rooted.test('src/nested/a.ts')).toBe(false);
+    expect(rooted.test('lib/src/a.ts')).toBe(false);
+
+    expect(globToRegExp('src/**/*.sql', 'path').test('src/a/b/c.sql')).toBe(true);
+  });
+
+  it('unwraps shell scripts and splits compound commands', () => {
+    expect(expandCommand(`bash -lc 'git push --force'`)).toEqual(['git push --force']);
+    expect(expandCommand(`/bin/sh -c "cd app && pnpm test 2>&1 | tail"; ls`)).toEqual(['cd app', 'pnpm test 2>&1', 'tail', 'ls']);
+    expect(expandCommand('bash -lc git push --force')).toEqual(['git push --force']);
+    expect(expandCommand(`echo 'a && b'`)).toEqual(['echo a && b']);
+  });
+
+  it('reports invalid regex patterns by rule name', () => {
+    expect(() => compilePolicyRule(rule({ name: 'broken', pattern_type: 'regex', pattern: '(' }))).toThrow('Rule "broken" has an invalid pattern');
+  });
+});
+
+describe('PolicyEngine', () => {
+  let db: DatabaseService;
+  let projectId: number;
+  let sessionId: string;
+  let addTimelineEvent: ReturnType<typeof vi.fn>;
+  let engine: PolicyEngine;
+
+  beforeEach(() => {
+    db = createMockDatabase();
+    projectId = db.createProject('Test Project', `/tmp/snowtree-test-${randomUUID()}`).id;
+    sessionId = randomUUID();
+    addTimelineEvent = vi.fn((data: Omit<CreateTimelineEventData, 'timestamp'>) => data);
+    const sessionManager = {
+      getSession: vi.fn(() => ({ id: sessionId, projectId, worktreePath: '/repo/worktrees/s' })),
+      addTimelineEvent,
+    };
+    engine = new PolicyEngine(db, sessionManager as never);
+  });
+
+  afterEach(() => {
+    cleanupDatabase(db);
+  });
+
+  const approval = (details: { command?: string; files?: Array<{ path: string }> }) => ({
+    panelId: 'p1',
+    sessionId,
+    kind: details.command ? 'command' as const : 'file_change' as const,
+    details,
+    respond: vi.fn(),
+  });
+
+  it('uses the first matching rule in order and records it', () => {
+    db.setPolicyRules(projectId, [
+      rule({ name: 'tests ok', action: 'allow', pattern: 'pnpm test*' }),
+      rule({ name: 'no pnpm', pattern: 'pnpm *' }),
+    ]);
+
+    expect(engine.checkApproval(approval({ command: 'pnpm  test --run' }))?.rule.name).toBe('tests ok');
+    expect(engine.checkApproval(approval({ command: 'pnpm publish' }))?.action).toBe('deny');
+    expect(engine.checkApproval(approval({ command: 'ls' }))).toBeNull();
+
+    expect(addTimelineEvent).toHaveBeenCalledTimes(2);
+    expect(addTimelineEvent).toHaveBeenLastCalledWith(expect.objectContaining({
+      kind: 'policy_decision',
+      status: 'failed',
+      command: 'pnpm publish',
+      tool_name: 'no pnpm',
+      meta: expect.objectContaining({ action: 'deny', source: 'approval' }),
+    }));
+  });
+
+  it('matches patch paths relative to the worktree and skips disabled rules', () => {
+    db.setPolicyRules(projectId, [
+      rule({ name: 'off', target: 'path', pattern: '*', enabled: false }),
+      rule({ name: 'migrations', target: 'path', pattern: 'migrations/' }),
+    ]);
+
+    const verdict = engine.checkApproval(approval({ files: [{ path: 'README.md' }, { path: '/repo/worktrees/s/db/migrations/002.sql' }] }));
+    expect(verdict?.rule.name).toBe('migrations');
+    expect(verdict?.subject.value).toBe('db/migrations/002.sql');
+  });
+
+  it('denies a patch when any file is denied and allows it only when every file is allowed', () => {
+    db.setPolicyRules(projectId, [
+      rule({ name: 'src ok', action: 'allow', target: 'path', pattern: 'src/**' }),
+      rule({ name: 'migrations', target: 'path', pattern: 'migrations/**' }),
+    ]);
+
+    const mixed = engine.checkApproval(approval({ files: [{ path: 'src/app.ts' }, { path: 'migrations/003.sql' }] }));
+    expect(mixed?.action).toBe('deny');
+    expect(mixed?.rule.name).toBe('migrations');
+
+    expect(engine.checkApproval(approval({ files: [{ path: 'src/app.ts' }, { path: 'README.md' }] }))).toBeNull();
+    expect(engine.checkApproval(approval({ files: [{ path: 'src/app.ts' }, { path: 'src/lib/util.ts' }] }))?.action).toBe('allow');
+  });
+
+  it('matches the commands inside shell wrappers', () => {
+    db.setPolicyRules(projectId, [
+      rule({ name: 'no force push', pattern: 'git push *--force*' }),
+      rule({ name: 'git ok', action: 'allow', pattern: 'git *' }),
+    ]);
+
+    const wrapped = engine.checkApproval(approval({ command: `bash -lc 'git push origin --force'` }));
+    expect(wrapped?.rule.name).toBe('no force push');
+    expect(wrapped?.subject.value).toBe('git push origin --force');
+    expect(engine.checkToolUse({ panelId: 'p1', sessionId, action: { type: 'command_run', command: `zsh -c "git fetch && git push --force"` } })?.rule.name)
+      .toBe('no force push');
+    expect(engine.checkApproval(approval({ command: `bash -lc 'git status && git diff'` }))?.action).toBe('allow');
+    expect(engine.checkApproval(approval({ command: `bash -lc 'git status && rm -rf build'` }))).toBeNull();
+  });
+
+  it('only reports deny rules for tool calls already running', () => {
+    db.setPolicyRules(projectId, [
+      rule({ name: 'allow ls', action: 'allow', pattern: 'ls*' }),
+      rule({ name: 'no force push', pattern: 'git push *--force*' }),
+    ]);
+
+    expect(engine.checkToolUse({ panelId: 'p1', sessionId, action: { type: 'command_run', command: 'ls -la' } })).toBeNull();
+    expect(engine.checkToolUse({ panelId: 'p1', sessionId, action: { type: 'command_run', command: 'git push origin --force' } })?.rule.name)
+      .toBe('no force push');
+    expect(addTimelineEvent).toHaveBeenCalledTimes(1);
+    expect(addTimelineEvent).toHaveBeenCalledWith(expect.objectContaining({ meta: expect.objectContaining({ source: 'tool_use' }) }));
+  });
+});
@@ -0,0 +1,2 @@
+export { PolicyEngine, compilePolicyRule, describePolicyVerdict, evaluatePolicy, expandCommand, globToRegExp } from './PolicyEngine';
+export type { PolicySubject, PolicyVerdict } from './PolicyEngine';
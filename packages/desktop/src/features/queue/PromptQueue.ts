@@ -0,0 +1,153 @@
+/**
+ * PromptQueue - Follow-up prompts queued per session
+ *
+ * Prompts are persisted in SQLite so they survive restarts, and are sent one at a
+ * time: the next prompt is dispatched when the session finishes a turn
+ * (running -> waiting). Errors and manual stops pause the queue. Queues of
+ * sessions that are idle at startup are drained by resumeIdleSessions.
+ */
+
+import { EventEmitter } from 'events';
+import type { Session } from '@snowtree/core/types/session';
+import type { DatabaseService } from '../../infrastructure/database/database';
+import type { QueuedPrompt } from '../../infrastructure/database/models';
+import type { Logger } from '../../infrastructure/logging/logger';
+import type { SessionManager } from '../session/SessionManager';
+
+export type QueuedPromptDispatcher = (item: QueuedPrompt) => Promise<{ success: boolean; error?: string }>;
+
+export type PromptQueueHold = (sessionId: string) => boolean;
+
+export interface PromptQueueUpdate {
+  sessionId: string;
+  items: QueuedPrompt[];
+}
+
+const BUSY_STATUSES = new Set<Session['status']>(['running', 'initializing']);
+// Idle after a finished turn; stopped and errored sessions keep their queue paused.
+const IDLE_STATUSES = new Set<Session['status']>(['waiting', 'ready', 'completed_unviewed']);
+
+export class PromptQueue extends EventEmitter {
+  private dispatcher: QueuedPromptDispatcher | null = null;
+  private isHeld: PromptQueueHold = () => false;
+  private dispatching = new Set<string>();
+  private lastStatusBySession = new Map<string, Session['status']>();
+
+  constructor(
+    private db: DatabaseService,
+    private sessionManager: SessionManager,
+    private logger?: Logger
+  ) {
+    super();
+    this.sessionManager.on('session-updated', (session: Session) => this.handleSessionUpdated(session));
+    this.sessionManager.on('session-deleted', (data: { id?: string }) => {
+      if (data?.id) this.lastStatusBySession.delete(data.id);
+    });
+  }
+
+  /**
+   * Set how a queued prompt is sent to its panel (the `panels:continue` path).
+   */
+  setDispatcher(dispatcher: QueuedPromptDispatcher): void {
+    this.dispatcher = dispatcher;
+  }
+
+  /**
+   * Keep prompts queued while the idle session is still busy with its last
+   * turn, e.g. running the verify command. Call runNext once it is done.
+   */
+  setHold(isHeld: PromptQueueHold): void {
+    this.isHeld = isHeld;
+  }
+
+  list(sessionId: string): QueuedPrompt[] {
+    return this.db.getQueuedPrompts(sessionId);
+  }
+
+  /**
+   * Append a prompt; it is sent right away when the session is idle.
+   */
+  enqueue(sessionId: string, panelId: string, prompt: string, options?: { planMode?: boolean }): QueuedPrompt {
+    if (!prompt.trim()) {
+      throw new Error('Cannot queue an empty prompt');
+    }
+    if (!this.sessionManager.getSession(sessionId)) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const item = this.db.addQueuedPrompt(sessionId, panelId, prompt, options?.planMode ?? false);
+    this.emitUpdate(sessionId);
+    void this.runNext(sessionId);
+    return item;
+  }
+
+  remove(id: number): void {
+    const item = this.db.getQueuedPrompt(id);
+    if (!item) return;
+    this.db.deleteQueuedPrompt(id);
+    this.emitUpdate(item.session_id);
+  }
+
+  reorder(sessionId: string, orderedIds: number[]): void {
+    this.db.reorderQueuedPrompts(sessionId, orderedIds);
+    this.emitUpdate(sessionId);
+  }
+
+  /**
+   * Send the first queued prompt if the session is idle.
+   * The prompt stays queued when dispatch fails so it can be retried or removed.
+   */
+  async runNext(sessionId: string): Promise<boolean> {
+    if (!this.dispatcher || this.dispatching.has(sessionId)) return false;
+
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session || BUSY_STATUSES.has(session.status) || this.isHeld(sessionId)) return false;
+
+    const [next] = this.db.getQueuedPrompts(sessionId);
+    if (!next) return false;
+
+    this.dispatching.add(sessionId);
+    try {
+      const result = await this.dispatcher(next);
+      if (!result.success) {
+        this.logger?.warn(`[PromptQueue] Failed to send queued prompt ${next.id} for session ${sessionId}: ${result.error ?? 'unknown error'}`);
+        return false;
+      }
+      this.db.deleteQueuedPrompt(next.id);
+      this.emitUpdate(sessionId);
+      return true;
+    } catch (error) {
+      this.logger?.warn(`[PromptQueue] Failed to send queued prompt ${next.id} for session ${sessionId}: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    } finally {
+      this.dispatching.delete(sessionId);
+    }
+  }
+
+  /**
+   * Send the next prompt for every idle session that still has queued prompts,
+   * e.g. after a restart, when no session finishes a turn to trigger it.
+   */
+  async resumeIdleSessions(): Promise<void> {
+    for (const sessionId of this.db.getSessionIdsWithQueuedPrompts()) {
+      const session = this.sessionManager.getSession(sessionId);
+      if (!session || session.archived || !IDLE_STATUSES.has(session.status)) continue;
+      await this.runNext(sessionId);
+    }
+  }
+
+  private handleSessionUpdated(session: Session): void {
+    const prev = this.lastStatusBySession.get(session.id);
+    this.lastStatusBySession.set(session.id, session.status);
+
+    if (prev && BUSY_STATUSES.has(prev) && session.status === 'waiting') {
+      // After the other listeners saw the turn end, so work they start for it can hold the queue.
+      setImmediate(() => void this.runNext(session.id));
+    }
+  }
+
+  private emitUpdate(sessionId: string): void {
+    const update: PromptQueueUpdate = { sessionId, items: this.list(sessionId) };
+    this.emit('updated', update);
+  }
+}
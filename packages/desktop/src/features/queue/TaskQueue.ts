@@ -14,12 +14,15 @@ import * as os from 'os';
 import { panelManager } from '../panels/PanelManager';
 import type { AIPanelState } from '@snowtree/core/types/aiPanelConfig';
 import type { Session } from '@snowtree/core/types/session';
-import type { ToolPanel } from '@snowtree/core/types/panels';
+import type { AgentToolType, ToolPanel } from '@snowtree/core/types/panels';
 import type { Database as DatabaseService } from '../../infrastructure/database';
-import type { Project } from '../../infrastructure/database';
+import type { Project, Folder } from '../../infrastructure/database';
 import { fetchAndCacheRepoInfo } from '../../infrastructure/ipc/git';
 import { readProviderConfig } from '../../infrastructure/ipc/session';
 import { getPanelManagerForType } from '../panels/ai/panelManagerRegistry';
+import { executorRegistry } from '../../executors/registry';
+import type { SetupRunner } from '../setup';
+import type { CheckpointManager } from '../checkpoints';
 
 interface TaskQueueOptions {
   sessionManager: SessionManager;
@@ -30,9 +33,11 @@ interface TaskQueueOptions {
   worktreeNameGenerator: WorktreeNameGenerator;
   getMainWindow: () => Electron.BrowserWindow | null;
   gitExecutor: import('../../executors/git').GitExecutor;
+  setupRunner?: SetupRunner;
+  checkpointManager?: CheckpointManager;
 }
 
-interface CreateSessionJob {
+export interface CreateSessionJob {
   sessionId?: string;
   prompt: string;
   worktreeTemplate: string;
@@ -41,10 +46,12 @@ interface CreateSessionJob {
   projectId?: number;
   folderId?: string;
   baseBranch?: string;
+  baseCommit?: string; // Pin the worktree to this commit (fan-out siblings share one base)
   autoCommit?: boolean;
-  toolType?: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none';
+  toolType?: AgentToolType | 'none';
   commitMode?: 'structured' | 'checkpoint' | 'disabled';
   commitModeSettings?: string; // JSON string of CommitModeSettings
+  planMode?: boolean; // Run the initial prompt in plan mode
   codexConfig?: {
     model?: string;
     modelProvider?: string;
@@ -167,7 +174,7 @@ export class TaskQueue {
     const sessionConcurrency = isLinux ? 1 : 5;
     
     this.sessionQueue.process(sessionConcurrency, async (job) => {
-      const { prompt, worktreeTemplate, index, permissionMode, projectId, baseBranch, autoCommit, toolType, codexConfig, claudeConfig, geminiConfig, kimiConfig } = job.data;
+      const { prompt, worktreeTemplate, index, permissionMode, projectId, baseBranch, baseCommit: pinnedBaseCommit, autoCommit, toolType, codexConfig, claudeConfig, geminiConfig, kimiConfig } = job.data;
       const { sessionManager, worktreeManager, claudeExecutor } = this.options;
 
       // Processing session creation job - verbose debug logging removed
@@ -274,7 +281,8 @@ export class TaskQueue {
               undefined,
               baseBranch,
               targetProject.worktree_folder || undefined,
-              sessionId
+              sessionId,
+              pinnedBaseCommit && baseBranch ? { commit: pinnedBaseCommit, branch: baseBranch } : undefined
             );
             worktreePath = result.worktreePath;
             baseCommit = result.baseCommit;
@@ -371,172 +379,22 @@ export class TaskQueue {
         // Panels are created lazily when the user sends input.
         // Worktree creation commands are recorded as timeline events.
 
-        // Run build script after session is visible in UI
-        if (targetProject.build_script) {
-          console.log(`[TaskQueue] Running build script for session ${session.id}`);
-
-          // Update status message
-          sessionManager.updateSessionStatus(session.id, 'initializing', 'Running build script...');
-
-          // Add a "waiting for build" message to output
-          const buildWaitingMessage = `\x1b[36m[${formatForDisplay(new Date())}]\x1b[0m \x1b[1m\x1b[33m⏳ Waiting for build script to complete...\x1b[0m\r\n\r\n`;
-          await sessionManager.addSessionOutput(session.id, {
-            type: 'stdout',
-            data: buildWaitingMessage,
-            timestamp: new Date()
-          });
-
-          const buildCommands = targetProject.build_script.split('\n').filter(cmd => cmd.trim());
-          const buildResult = await sessionManager.runBuildScript(session.id, buildCommands, worktreePath);
-          console.log(`[TaskQueue] Build script completed. Success: ${buildResult.success}`);
-        }
-
-        // Only start an AI panel if there's a prompt
-        if (prompt && prompt.trim().length > 0) {
-          const resolvedToolType: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none' = toolType || 'claude';
-
-          if (resolvedToolType === 'codex') {
-            // Update status message
-            sessionManager.updateSessionStatus(session.id, 'initializing', 'Starting Codex...');
-
-            const codexPanel = await this.ensureAiPanel(session.id, 'codex');
-            const { manager } = this.ensureAiPanelManager(codexPanel, session.id);
-
-            // Record initial prompt in panel conversation history
-            try {
-              sessionManager.addPanelConversationMessage(codexPanel.id, 'user', prompt);
-            } catch (e) {
-              console.warn('[TaskQueue] Failed to add initial panel conversation message:', e);
-            }
-
-            try {
-              await manager.startPanel({
-                panelId: codexPanel.id,
-                worktreePath: session.worktreePath,
-                prompt,
-                model: codexConfig?.model,
-                modelProvider: codexConfig?.modelProvider,
-                approvalPolicy: codexConfig?.approvalPolicy,
-                sandboxMode: codexConfig?.sandboxMode,
-                webSearch: codexConfig?.webSearch,
-                thinkingLevel: codexConfig?.thinkingLevel,
-                providerConfig: readProviderConfig('codex'),
-              });
-            } catch (error) {
-              console.error('[TaskQueue] Failed to start Codex via panel manager:', error);
-              throw new Error(`Failed to start Codex panel: ${error}`);
-            }
-          } else if (resolvedToolType === 'claude') {
-            // Update status message
-            sessionManager.updateSessionStatus(session.id, 'initializing', 'Starting Claude Code...');
-
-            const claudePanel = await this.ensureAiPanel(session.id, 'claude');
-            const { manager } = this.ensureAiPanelManager(claudePanel, session.id);
-
-            // Record the initial prompt in panel conversation history
-            try {
-              sessionManager.addPanelConversationMessage(claudePanel.id, 'user', prompt);
-            } catch (e) {
-              console.warn('[TaskQueue] Failed to add initial panel conversation message:', e);
-            }
-
-            try {
-              // Use the claude panel manager directly instead of calling IPC handlers
-              // Model is now managed at panel level
-              const modelToUse = claudeConfig?.model || 'auto';
-              await manager.startPanel({
-                panelId: claudePanel.id,
-                worktreePath: session.worktreePath,
-                prompt,
-                permissionMode,
-                model: modelToUse,
-                providerConfig: readProviderConfig('claude'),
-              });
-            } catch (error) {
-              console.error(`[TaskQueue] Failed to start Claude via panel manager:`, error);
-              throw new Error(`Failed to start Claude panel: ${error}`);
-            }
-          } else if (resolvedToolType === 'gemini') {
-            // Update status message
-            sessionManager.updateSessionStatus(session.id, 'initializing', 'Starting Gemini CLI...');
-
-            const geminiPanel = await this.ensureAiPanel(session.id, 'gemini');
-            const { manager } = this.ensureAiPanelManager(geminiPanel, session.id);
-
-            try {
-              sessionManager.addPanelConversationMessage(geminiPanel.id, 'user', prompt);
-            } catch (e) {
-              console.warn('[TaskQueue] Failed to add initial panel conversation message:', e);
-            }
-
-            try {
-              await manager.startPanel({
-                panelId: geminiPanel.id,
-                worktreePath: session.worktreePath,
-                prompt,
-                model: geminiConfig?.model,
-                approvalMode: geminiConfig?.approvalMode,
-                providerConfig: readProviderConfig('gemini'),
-              });
-            } catch (error) {
-              console.error('[TaskQueue] Failed to start Gemini via panel manager:', error);
-              throw new Error(`Failed to start Gemini panel: ${error}`);
-            }
-          } else if (resolvedToolType === 'kimi') {
-            // Update status message
-            sessionManager.updateSessionStatus(session.id, 'initializing', 'Starting Kimi CLI...');
-
-            const kimiPanel = await this.ensureAiPanel(session.id, 'kimi');
-            const { manager } = this.ensureAiPanelManager(kimiPanel, session.id);
-
-            try {
-              sessionManager.addPanelConversationMessage(kimiPanel.id, 'user', prompt);
-            } catch (e) {
-              console.warn('[TaskQueue] Failed to add initial panel conversation message:', e);
-            }
-
-            try {
-              await manager.startPanel({
-                panelId: kimiPanel.id,
-                worktreePath: session.worktreePath,
-                prompt,
-                model: kimiConfig?.model,
-                approvalMode: kimiConfig?.approvalMode,
-                providerConfig: readProviderConfig('kimi'),
-              });
-            } catch (error) {
-              console.error('[TaskQueue] Failed to start Kimi via panel manager:', error);
-              throw new Error(`Failed to start Kimi panel: ${error}`);
-            }
-          } else if (resolvedToolType === 'none') {
-            // No AI tool selected - update session status to stopped
-            console.log(`[TaskQueue] Session ${session.id} has no AI tool configured, marking as stopped`);
-            await sessionManager.updateSession(session.id, { status: 'stopped', statusMessage: undefined });
-
-            // Add an informational message to the output
-            const timestamp = formatForDisplay(new Date());
-            const noToolMessage = `\r\n\x1b[36m[${timestamp}]\x1b[0m \x1b[1m\x1b[90m ℹ️  NO AI TOOL CONFIGURED \x1b[0m\r\n` +
-                                  `\x1b[90mThis session was created without an AI tool.\x1b[0m\r\n` +
-                                  `\x1b[90mYou can use the terminal and other features without AI assistance.\x1b[0m\r\n\r\n`;
-            await sessionManager.addSessionOutput(session.id, {
-              type: 'stdout',
-              data: noToolMessage,
-              timestamp: new Date()
-            });
-          }
-        } else {
-          // No prompt provided - set status based on toolType
-          const resolvedToolType: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none' = toolType || 'claude';
-          if (resolvedToolType === 'none') {
-            console.log(`[TaskQueue] Session ${session.id} has no prompt and no AI tool, marking as stopped`);
-            await sessionManager.updateSession(session.id, { status: 'stopped', statusMessage: undefined });
-          } else {
-            // Has AI tool configured but no initial prompt - set to waiting for user input
-            console.log(`[TaskQueue] Session ${session.id} created without prompt, marking as waiting`);
-            await sessionManager.updateSession(session.id, { status: 'waiting', statusMessage: undefined });
+        // Prepare the worktree (copy env files, link caches, install) before any agent starts.
+        const { setupRunner } = this.options;
+        if (setupRunner?.hasSteps(targetProject.id)) {
+          sessionManager.updateSessionStatus(session.id, 'initializing', 'Running setup tasks...');
+          const setupOk = await setupRunner.run(session.id);
+          if (!setupOk) {
+            // The initial prompt is held until the failed step is retried or skipped.
+            console.warn(`[TaskQueue] Setup failed for session ${session.id}, agent start deferred`);
+            setupRunner.whenReady(session.id, () => this.startInitialAgent(session, job.data));
+            sessionManager.updateSessionStatus(session.id, 'error', setupRunner.getBlockingReason(session.id) ?? 'Workspace setup failed');
+            return { sessionId: session.id };
           }
         }
 
+        await this.startInitialAgent(session, job.data);
+
         return { sessionId: session.id };
       } catch (error) {
         console.error(`[TaskQueue] Failed to create session:`, error);
@@ -592,7 +450,7 @@ export class TaskQueue {
     projectId?: number,
     baseBranch?: string,
     autoCommit?: boolean,
-    toolType?: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none',
+    toolType?: AgentToolType | 'none',
     commitMode?: 'structured' | 'checkpoint' | 'disabled',
     commitModeSettings?: string,
     codexConfig?: {
@@ -646,18 +504,7 @@ export class TaskQueue {
         
         const folder = db.createFolder(folderName, numericProjectId);
         folderId = folder.id;
-        
-        // Emit folder created event immediately and wait for it to be processed
-        const getMainWindow = this.options.getMainWindow;
-        const mainWindow = getMainWindow();
-        if (mainWindow && !mainWindow.isDestroyed()) {
-          mainWindow.webContents.send('folder:created', folder);
-          
-          // Wait a bit to ensure the frontend has processed the folder event
-          await new Promise(resolve => setTimeout(resolve, 200));
-        } else {
-          console.warn(`[TaskQueue] Could not emit folder:created event - main window not available`);
-        }
+        await this.emitFolderCreated(folder);
       } catch (error) {
         console.error('[TaskQueue] Failed to create folder for multi-session prompt:', error);
         // Continue without folder - sessions will be created at project level
@@ -673,6 +520,279 @@ export class TaskQueue {
     return Promise.all(jobs);
   }
 
+  /**
+   * Fan one prompt out to several agents (or several runs of one agent).
+   * Every sibling worktree starts from the same base commit, and the sessions
+   * are grouped in a folder so their results can be compared.
+   */
+  async createFanOutSessions(request: {
+    projectId: number;
+    prompt: string;
+    runs: AgentToolType[];
+    baseBranch?: string;
+  }): Promise<{ folderId: string; baseCommit: string; sessionIds: string[] }> {
+    const { sessionManager, worktreeManager, worktreeNameGenerator } = this.options;
+    const project = sessionManager.getProjectById(request.projectId);
+    if (!project) {
+      throw new Error(`Project with ID ${request.projectId} not found`);
+    }
+    if (!request.prompt || !request.prompt.trim()) {
+      throw new Error('A fan-out needs a prompt');
+    }
+    if (!Array.isArray(request.runs) || request.runs.length < 2) {
+      throw new Error('A fan-out needs at least two runs');
+    }
+
+    const { baseCommit, baseBranch } = await worktreeManager.resolveBaseCommit(project.path, request.baseBranch);
+
+    const groupName = worktreeNameGenerator.generateSessionName();
+    const db = sessionManager.db as DatabaseService;
+    const folder = db.createFolder(`${groupName} fan-out`, project.id);
+    await this.emitFolderCreated(folder);
+
+    const totals = new Map<string, number>();
+    for (const toolType of request.runs) {
+      totals.set(toolType, (totals.get(toolType) ?? 0) + 1);
+    }
+
+    const seen = new Map<string, number>();
+    const sessionIds: string[] = [];
+    for (const toolType of request.runs) {
+      const runIndex = (seen.get(toolType) ?? 0) + 1;
+      seen.set(toolType, runIndex);
+      const label = totals.get(toolType) > 1 ? `${groupName} ${toolType} ${runIndex}` : `${groupName} ${toolType}`;
+
+      const sessionId = randomUUID();
+      await this.sessionQueue.add({
+        sessionId,
+        prompt: request.prompt,
+        worktreeTemplate: worktreeNameGenerator.generateWorktreeNameFromSessionName(label),
+        projectId: project.id,
+        folderId: folder.id,
+        baseBranch,
+        baseCommit,
+        toolType,
+      });
+      sessionIds.push(sessionId);
+    }
+
+    return { folderId: folder.id, baseCommit, sessionIds };
+  }
+
+  /**
+   * Start the agent a new session was created with and send it the initial
+   * prompt, or mark the session idle when there is nothing to start.
+   */
+  private async startInitialAgent(session: Session, job: CreateSessionJob): Promise<void> {
+    const { prompt, permissionMode, planMode, toolType, codexConfig, claudeConfig, geminiConfig, kimiConfig } = job;
+    const { sessionManager, checkpointManager } = this.options;
+
+    // Keep the session in plan mode so the composer and follow-ups match the first prompt
+    if (planMode) {
+      await sessionManager.updateSession(session.id, { executionMode: 'plan' });
+    }
+
+    // Only start an AI panel if there's a prompt
+    if (prompt && prompt.trim().length > 0) {
+      const resolvedToolType: AgentToolType | 'none' = toolType || 'claude';
+
+      if (resolvedToolType === 'codex') {
+        // Update status message
+        sessionManager.updateSessionStatus(session.id, 'initializing', 'Starting Codex...');
+
+        const codexPanel = await this.ensureAiPanel(session.id, 'codex');
+        const { manager } = this.ensureAiPanelManager(codexPanel, session.id);
+
+        // Record initial prompt in panel conversation history
+        try {
+          sessionManager.addPanelConversationMessage(codexPanel.id, 'user', prompt);
+        } catch (e) {
+          console.warn('[TaskQueue] Failed to add initial panel conversation message:', e);
+        }
+
+        // Checkpoint the worktree before the first round too, so it can be rewound.
+        await checkpointManager?.captureRound(session.id, codexPanel.id, session.worktreePath);
+
+        try {
+          await manager.startPanel({
+            panelId: codexPanel.id,
+            worktreePath: session.worktreePath,
+            prompt,
+            model: codexConfig?.model,
+            modelProvider: codexConfig?.modelProvider,
+            approvalPolicy: codexConfig?.approvalPolicy,
+            sandboxMode: codexConfig?.sandboxMode,
+            webSearch: codexConfig?.webSearch,
+            thinkingLevel: codexConfig?.thinkingLevel,
+            planMode,
+            providerConfig: readProviderConfig('codex'),
+          });
+        } catch (error) {
+          console.error('[TaskQueue] Failed to start Codex via panel manager:', error);
+          throw new Error(`Failed to start Codex panel: ${error}`);
+        }
+      } else if (resolvedToolType === 'claude') {
+        // Update status message
+        sessionManager.updateSessionStatus(session.id, 'initializing', 'Starting Claude Code...');
+
+        const claudePanel = await this.ensureAiPanel(session.id, 'claude');
+        const { manager } = this.ensureAiPanelManager(claudePanel, session.id);
+
+        // Record the initial prompt in panel conversation history
+        try {
+          sessionManager.addPanelConversationMessage(claudePanel.id, 'user', prompt);
+        } catch (e) {
+          console.warn('[TaskQueue] Failed to add initial panel conversation message:', e);
+        }
+
+        await checkpointManager?.captureRound(session.id, claudePanel.id, session.worktreePath);
+
+        try {
+          // Use the claude panel manager directly instead of calling IPC handlers
+          // Model is now managed at panel level
+          const modelToUse = claudeConfig?.model || 'auto';
+          await manager.startPanel({
+            panelId: claudePanel.id,
+            worktreePath: session.worktreePath,
+            prompt,
+            permissionMode,
+            model: modelToUse,
+            planMode,
+            providerConfig: readProviderConfig('claude'),
+          });
+        } catch (error) {
+          console.error(`[TaskQueue] Failed to start Claude via panel manager:`, error);
+          throw new Error(`Failed to start Claude panel: ${error}`);
+        }
+      } else if (resolvedToolType === 'gemini') {
+        // Update status message
+        sessionManager.updateSessionStatus(session.id, 'initializing', 'Starting Gemini CLI...');
+
+        const geminiPanel = await this.ensureAiPanel(session.id, 'gemini');
+        const { manager } = this.ensureAiPanelManager(geminiPanel, session.id);
+
+        try {
+          sessionManager.addPanelConversationMessage(geminiPanel.id, 'user', prompt);
+        } catch (e) {
+          console.warn('[TaskQueue] Failed to add initial panel conversation message:', e);
+        }
+
+        await checkpointManager?.captureRound(session.id, geminiPanel.id, session.worktreePath);
+
+        try {
+          await manager.startPanel({
+            panelId: geminiPanel.id,
+            worktreePath: session.worktreePath,
+            prompt,
+            model: geminiConfig?.model,
+            approvalMode: geminiConfig?.approvalMode,
+            planMode,
+            providerConfig: readProviderConfig('gemini'),
+          });
+        } catch (error) {
+          console.error('[TaskQueue] Failed to start Gemini via panel manager:', error);
+          throw new Error(`Failed to start Gemini panel: ${error}`);
+        }
+      } else if (resolvedToolType === 'kimi') {
+        // Update status message
+        sessionManager.updateSessionStatus(session.id, 'initializing', 'Starting Kimi CLI...');
+
+        const kimiPanel = await this.ensureAiPanel(session.id, 'kimi');
+        const { manager } = this.ensureAiPanelManager(kimiPanel, session.id);
+
+        try {
+          sessionManager.addPanelConversationMessage(kimiPanel.id, 'user', prompt);
+        } catch (e) {
+          console.warn('[TaskQueue] Failed to add initial panel conversation message:', e);
+        }
+
+        await checkpointManager?.captureRound(session.id, kimiPanel.id, session.worktreePath);
+
+        try {
+          await manager.startPanel({
+            panelId: kimiPanel.id,
+            worktreePath: session.worktreePath,
+            prompt,
+            model: kimiConfig?.model,
+            approvalMode: kimiConfig?.approvalMode,
+            planMode,
+            providerConfig: readProviderConfig('kimi'),
+          });
+        } catch (error) {
+          console.error('[TaskQueue] Failed to start Kimi via panel manager:', error);
+          throw new Error(`Failed to start Kimi panel: ${error}`);
+        }
+      } else if (resolvedToolType !== 'none' && executorRegistry.has(resolvedToolType)) {
+        // Executor plugin
+        const displayName = executorRegistry.get(resolvedToolType)?.displayName || resolvedToolType;
+        sessionManager.updateSessionStatus(session.id, 'initializing', `Starting ${displayName}...`);
+
+        const pluginPanel = await this.ensureAiPanel(session.id, resolvedToolType);
+        const { manager } = this.ensureAiPanelManager(pluginPanel, session.id);
+
+        try {
+          sessionManager.addPanelConversationMessage(pluginPanel.id, 'user', prompt);
+        } catch (e) {
+          console.warn('[TaskQueue] Failed to add initial panel conversation message:', e);
+        }
+
+        await checkpointManager?.captureRound(session.id, pluginPanel.id, session.worktreePath);
+
+        try {
+          await manager.startPanel({
+            panelId: pluginPanel.id,
+            worktreePath: session.worktreePath,
+            prompt,
+            planMode,
+            providerConfig: readProviderConfig(resolvedToolType),
+          });
+        } catch (error) {
+          console.error(`[TaskQueue] Failed to start ${displayName} via panel manager:`, error);
+          throw new Error(`Failed to start ${displayName} panel: ${error}`);
+        }
+      } else if (resolvedToolType === 'none') {
+        // No AI tool selected - update session status to stopped
+        console.log(`[TaskQueue] Session ${session.id} has no AI tool configured, marking as stopped`);
+        await sessionManager.updateSession(session.id, { status: 'stopped', statusMessage: undefined });
+
+        // Add an informational message to the output
+        const timestamp = formatForDisplay(new Date());
+        const noToolMessage = `\r\n\x1b[36m[${timestamp}]\x1b[0m \x1b[1m\x1b[90m ℹ️  NO AI TOOL CONFIGURED \x1b[0m\r\n` +
+                              `\x1b[90mThis session was created without an AI tool.\x1b[0m\r\n` +
+                              `\x1b[90mYou can use the terminal and other features without AI assistance.\x1b[0m\r\n\r\n`;
+        await sessionManager.addSessionOutput(session.id, {
+          type: 'stdout',
+          data: noToolMessage,
+          timestamp: new Date()
+        });
+      }
+    } else {
+      // No prompt provided - set status based on toolType
+      const resolvedToolType: AgentToolType | 'none' = toolType || 'claude';
+      if (resolvedToolType === 'none') {
+        console.log(`[TaskQueue] Session ${session.id} has no prompt and no AI tool, marking as stopped`);
+        await sessionManager.updateSession(session.id, { status: 'stopped', statusMessage: undefined });
+      } else {
+        // Has AI tool configured but no initial prompt - set to waiting for user input
+        console.log(`[TaskQueue] Session ${session.id} created without prompt, marking as waiting`);
+        await sessionManager.updateSession(session.id, { status: 'waiting', statusMessage: undefined });
+      }
+    }
+  }
+
+  private async emitFolderCreated(folder: Folder): Promise<void> {
+    // Emit folder created event immediately and wait for it to be processed
+    const mainWindow = this.options.getMainWindow();
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('folder:created', folder);
+
+      // Wait a bit to ensure the frontend has processed the folder event
+      await new Promise(resolve => setTimeout(resolve, 200));
+    } else {
+      console.warn(`[TaskQueue] Could not emit folder:created event - main window not available`);
+    }
+  }
+
   async sendInput(sessionId: string, input: string): Promise<Bull.Job<SendInputJob> | { id: string; data: SendInputJob; status: string }> {
     return this.inputQueue.add({ sessionId, input });
   }
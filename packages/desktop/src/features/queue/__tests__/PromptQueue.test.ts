@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PromptQueue } from '../PromptQueue';
+import { SessionManager } from '../../session/SessionManager';
+import { createMockDatabase, cleanupDatabase } from '../../../__tests__/helpers/mockDatabase';
+import type { DatabaseService } from '../../../infrastructure/database/database';
+
+describe('PromptQueue', () => {
+  let db: DatabaseService;
+  let sessionManager: SessionManager;
+  let queue: PromptQueue;
+  let sessionId: string;
+  let dispatch: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    db = createMockDatabase();
+    const project = db.createProject('Test Project', '/tmp/test-project');
+    db.setActiveProject(project.id);
+    sessionManager = new SessionManager(db);
+    const session = await sessionManager.createSession({
+      name: 'Queue Session',
+      worktreePath: '/tmp/test',
+      prompt: 'first',
+      toolType: 'claude',
+    });
+    sessionId = session.id;
+
+    queue = new PromptQueue(db, sessionManager);
+    dispatch = vi.fn(async () => {
+      sessionManager.updateSessionStatus(sessionId, 'running');
+      return { success: true };
+    });
+    queue.setDispatcher(dispatch);
+  });
+
+  afterEach(() => {
+    cleanupDatabase(db);
+  });
+
+  it('persists queued prompts in order and supports reorder and removal', () => {
+    sessionManager.updateSessionStatus(sessionId, 'running');
+    const tests = queue.enqueue(sessionId, 'panel-1', 'now add tests');
+    const docs = queue.enqueue(sessionId, 'panel-1', 'now update docs', { planMode: true });
+    const lint = queue.enqueue(sessionId, 'panel-1', 'fix lint');
+
+    expect(db.getQueuedPrompts(sessionId).map((p) => p.prompt)).toEqual(['now add tests', 'now update docs', 'fix lint']);
+    expect(queue.list(sessionId)[1].plan_mode).toBe(true);
+
+    queue.reorder(sessionId, [lint.id, tests.id, docs.id]);
+    expect(queue.list(sessionId).map((p) => p.id)).toEqual([lint.id, tests.id, docs.id]);
+
+    queue.remove(tests.id);
+    expect(queue.list(sessionId).map((p) => p.id)).toEqual([lint.id, docs.id]);
+    expect(dispatch).not.toHaveBeenCalled();
+  });
+
+  it('dispatches the next prompt each time the session finishes a turn', async () => {
+    const updates: number[] = [];
+    queue.on('updated', (update: { items: unknown[] }) => updates.push(update.items.length));
+
+    sessionManager.updateSessionStatus(sessionId, 'running');
+    queue.enqueue(sessionId, 'panel-1', 'now add tests');
+    queue.enqueue(sessionId, 'panel-1', 'now update docs');
+
+    sessionManager.updateSessionStatus(sessionId, 'waiting');
+    await vi.waitFor(() => expect(dispatch).toHaveBeenCalledTimes(1));
+    expect(dispatch.mock.calls[0][0]).toMatchObject({ panel_id: 'panel-1', prompt: 'now add tests' });
+    await vi.waitFor(() => expect(queue.list(sessionId)).toHaveLength(1));
+
+    sessionManager.updateSessionStatus(sessionId, 'waiting');
+    await vi.waitFor(() => expect(dispatch).toHaveBeenCalledTimes(2));
+    await vi.waitFor(() => expect(queue.list(sessionId)).toHaveLength(0));
+    expect(updates).toEqual([1, 2, 1, 0]);
+  });
+
+  it('sends immediately when the session is idle and keeps prompts whose dispatch fails', async () => {
+    dispatch.mockResolvedValueOnce({ success: false, error: 'Panel not found' });
+
+    queue.enqueue(sessionId, 'panel-1', 'now add tests');
+    await vi.waitFor(() => expect(dispatch).toHaveBeenCalledTimes(1));
+    expect(queue.list(sessionId)).toHaveLength(1);
+
+    await expect(queue.runNext(sessionId)).resolves.toBe(true);
+    expect(queue.list(sessionId)).toHaveLength(0);
+  });
+
+  it('holds queued prompts while the finished turn is verified', async () => {
+    let verifying = false;
+    queue.setHold(() => verifying);
+    // Verify starts from a listener registered after the queue's own.
+    sessionManager.on('session-updated', (session: { status: string }) => {
+      if (session.status === 'waiting') verifying = true;
+    });
+
+    sessionManager.updateSessionStatus(sessionId, 'running');
+    queue.enqueue(sessionId, 'panel-1', 'now add tests');
+    sessionManager.updateSessionStatus(sessionId, 'waiting');
+    await new Promise<void>((resolve) => setImmediate(resolve));
+    expect(dispatch).not.toHaveBeenCalled();
+
+    verifying = false;
+    await expect(queue.runNext(sessionId)).resolves.toBe(true);
+    expect(dispatch).toHaveBeenCalledTimes(1);
+  });
+
+  it('pauses after errors and manual stops', async () => {
+    sessionManager.updateSessionStatus(sessionId, 'running');
+    queue.enqueue(sessionId, 'panel-1', 'now add tests');
+
+    sessionManager.updateSessionStatus(sessionId, 'error', 'Exited with code 1');
+    sessionManager.updateSessionStatus(sessionId, 'running');
+    sessionManager.updateSessionStatus(sessionId, 'stopped');
+    await Promise.resolve();
+
+    expect(dispatch).not.toHaveBeenCalled();
+    expect(queue.list(sessionId)).toHaveLength(1);
+  });
+
+  it('drains queues of idle sessions on startup and leaves paused ones alone', async () => {
+    const stopped = await sessionManager.createSession({
+      name: 'Stopped Session',
+      worktreePath: '/tmp/test-stopped',
+      prompt: 'first',
+      toolType: 'claude',
+    });
+    sessionManager.updateSessionStatus(stopped.id, 'stopped');
+    // Left over from the previous run.
+    db.addQueuedPrompt(sessionId, 'panel-1', 'now add tests', false);
+    db.addQueuedPrompt(sessionId, 'panel-1', 'now update docs', false);
+    db.addQueuedPrompt(stopped.id, 'panel-2', 'keep waiting', false);
+    sessionManager.updateSessionStatus(sessionId, 'waiting');
+
+    const restarted = new PromptQueue(db, sessionManager);
+    restarted.setDispatcher(dispatch);
+    await restarted.resumeIdleSessions();
+
+    expect(dispatch).toHaveBeenCalledTimes(1);
+    expect(dispatch.mock.calls[0][0]).toMatchObject({ session_id: sessionId, prompt: 'now add tests' });
+    expect(restarted.list(sessionId).map((p) => p.prompt)).toEqual(['now update docs']);
+    expect(restarted.list(stopped.id)).toHaveLength(1);
+  });
+
+  it('rejects empty prompts', () => {
+    expect(() => queue.enqueue(sessionId, 'panel-1', '   ')).toThrow(/empty prompt/);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('bull', () => ({
+  default: class {
+    on() {}
+    process() {}
+    add() {}
+  },
+}));
+
+vi.mock('../../panels/PanelManager', () => ({
+  panelManager: {
+    getPanelsForSession: vi.fn(() => []),
+    createPanel: vi.fn(async ({ sessionId, type }: { sessionId: string; type: string }) => ({ id: 'panel-1', sessionId, type, state: {} })),
+  },
+}));
+
+const manager = {
+  getPanelState: vi.fn(() => null),
+  registerPanel: vi.fn(),
+  startPanel: vi.fn(async () => undefined),
+};
+
+vi.mock('../../panels/ai/panelManagerRegistry', () => ({
+  getPanelManagerForType: vi.fn(() => ({ manager })),
+}));
+
+vi.mock('../../../infrastructure/ipc/session', () => ({
+  readProviderConfig: vi.fn(() => undefined),
+}));
+
+vi.mock('../../../infrastructure/ipc/git', () => ({
+  fetchAndCacheRepoInfo: vi.fn(),
+}));
+
+const { TaskQueue } = await import('../TaskQueue');
+
+describe('TaskQueue', () => {
+  const sessionManager = {
+    updateSession: vi.fn(),
+    updateSessionStatus: vi.fn(),
+    addPanelConversationMessage: vi.fn(),
+    getPanelAgentSessionId: vi.fn(() => undefined),
+  };
+  const checkpointManager = { captureRound: vi.fn(async () => null) };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('checkpoints the worktree before sending the initial prompt', async () => {
+    const queue = new TaskQueue({ sessionManager, checkpointManager } as never);
+    const session = { id: 's1', worktreePath: '/tmp/wt' };
+
+    await (queue as unknown as { startInitialAgent: (session: unknown, job: unknown) => Promise<void> })
+      .startInitialAgent(session, { prompt: 'Add it', worktreeTemplate: 'feature', toolType: 'codex' });
+
+    expect(checkpointManager.captureRound).toHaveBeenCalledWith('s1', 'panel-1', '/tmp/wt');
+    expect(manager.startPanel).toHaveBeenCalledWith(expect.objectContaining({ panelId: 'panel-1', prompt: 'Add it' }));
+    expect(checkpointManager.captureRound.mock.invocationCallOrder[0]).toBeLessThan(manager.startPanel.mock.invocationCallOrder[0]);
+  });
+});
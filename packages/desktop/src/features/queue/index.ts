@@ -1,5 +1,8 @@
 export { TaskQueue } from './TaskQueue';
+export type { CreateSessionJob } from './TaskQueue';
 export { InMemoryQueue } from './InMemoryQueue';
 export { ExecutionTracker } from './ExecutionTracker';
+export { PromptQueue } from './PromptQueue';
+export type { QueuedPromptDispatcher, PromptQueueHold, PromptQueueUpdate } from './PromptQueue';
 export { ScriptExecutionTracker, scriptExecutionTracker } from './ScriptExecutionTracker';
 export type { ScriptType, RunningScriptInfo } from './ScriptExecutionTracker';
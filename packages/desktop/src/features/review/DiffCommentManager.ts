@@ -0,0 +1,234 @@
+/**
+ * DiffCommentManager - local review comments on the session's diffs
+ *
+ * Comments are anchored to a line or hunk range of a working-tree or commit
+ * diff and stored per session. Each comment keeps the text of its first line,
+ * so pending working-tree comments follow that line as the agent (or the user)
+ * edits the file; when the line is gone the comment is flagged outdated.
+ * Comments on a commit stay on that commit's version. Sending turns
+ * every pending comment into one prompt with file:line context.
+ */
+
+import { EventEmitter } from 'events';
+import * as fs from 'fs/promises';
+import { isAbsolute, join, relative } from 'path';
+import type { Session } from '@snowtree/core/types/session';
+import type { DatabaseService } from '../../infrastructure/database/database';
+import type { DiffComment } from '../../infrastructure/database/models';
+import type { Logger } from '../../infrastructure/logging/logger';
+import type { GitExecutor } from '../../executors/git';
+import type { SessionManager } from '../session/SessionManager';
+import type { ReviewPromptDispatcher } from './ReviewFeedbackManager';
+
+export interface DiffCommentInput {
+  filePath: string;
+  side?: DiffComment['side'];
+  startLine: number;
+  /** Last line of a hunk comment; omitted for a single line */
+  endLine?: number;
+  /** Commit whose diff is commented; omitted for the working tree */
+  commitHash?: string | null;
+  body: string;
+}
+
+const BUSY_STATUSES = new Set<Session['status']>(['running', 'initializing']);
+
+function splitLines(content: string): string[] {
+  return content.split('\n').map((line) => line.replace(/\r$/, ''));
+}
+
+/**
+ * Where `anchorText` is now: the original line if it still matches, otherwise
+ * the closest line with the same text. Null when no line matches.
+ */
+export function reanchorLine(lines: string[], line: number, anchorText: string): number | null {
+  if (lines[line - 1] === anchorText) return line;
+  for (let distance = 1; line - 1 - distance >= 0 || line - 1 + distance < lines.length; distance++) {
+    if (lines[line - 1 - distance] === anchorText) return line - distance;
+    if (lines[line - 1 + distance] === anchorText) return line + distance;
+  }
+  return null;
+}
+
+export function buildDiffCommentsPrompt(comments: DiffComment[]): string {
+  const lines = ['I reviewed your changes and left the comments below. Address each one in the code.'];
+  comments.forEach((comment, index) => {
+    const range = comment.end_line > comment.start_line ? `${comment.start_line}-${comment.end_line}` : `${comment.start_line}`;
+    const location = comment.side === 'deletions'
+      ? `${comment.file_path} (removed line ${range} of ${comment.commit_hash ? `${comment.commit_hash.slice(0, 7)}^` : 'HEAD'})`
+      : `${comment.file_path}:${range}${comment.commit_hash ? ` in commit ${comment.commit_hash.slice(0, 7)}` : ''}`;
+    lines.push('', `${index + 1}. ${location}${comment.outdated ? ' (the line has changed since the comment)' : ''}`);
+    if (comment.anchor_text?.trim()) lines.push(`   > ${comment.anchor_text.trim()}`);
+    lines.push(...comment.body.trim().split('\n').map((line) => (line ? `   ${line}` : line)));
+  });
+  return lines.join('\n');
+}
+
+export class DiffCommentManager extends EventEmitter {
+  private dispatcher: ReviewPromptDispatcher | null = null;
+
+  constructor(
+    private db: DatabaseService,
+    private sessionManager: SessionManager,
+    private gitExecutor: GitExecutor,
+    private logger?: Logger
+  ) {
+    super();
+  }
+
+  /**
+   * Set how the prompt is sent to the agent panel (the `panels:continue` path).
+   */
+  setDispatcher(dispatcher: ReviewPromptDispatcher): void {
+    this.dispatcher = dispatcher;
+  }
+
+  /**
+   * The session's comments, with pending ones moved to where their line is now.
+   */
+  async list(sessionId: string): Promise<DiffComment[]> {
+    const worktreePath = this.getWorktreePath(sessionId);
+    const comments = this.db.getDiffComments(sessionId);
+    const contents = new Map<string, string[] | null>();
+
+    let moved = false;
+    for (const comment of comments) {
+      if (comment.status !== 'pending' || comment.side !== 'additions' || comment.commit_hash || comment.anchor_text === null) continue;
+      // Blank lines match almost anywhere; leave those comments where they are.
+      if (!comment.anchor_text.trim()) continue;
+
+      if (!contents.has(comment.file_path)) {
+        const content = await this.readWorktreeFile(worktreePath, comment.file_path);
+        contents.set(comment.file_path, content === null ? null : splitLines(content));
+      }
+      const lines = contents.get(comment.file_path);
+      const line = lines ? reanchorLine(lines, comment.start_line, comment.anchor_text) : null;
+      const outdated = line === null;
+      const startLine = line ?? comment.start_line;
+      if (startLine === comment.start_line && outdated === comment.outdated) continue;
+
+      const endLine = comment.end_line + (startLine - comment.start_line);
+      this.db.updateDiffCommentAnchor(comment.id, startLine, endLine, outdated);
+      moved = true;
+    }
+
+    const result = moved ? this.db.getDiffComments(sessionId) : comments;
+    if (moved) this.emit('updated', { sessionId, comments: result });
+    return result;
+  }
+
+  async add(sessionId: string, input: DiffCommentInput): Promise<DiffComment[]> {
+    const worktreePath = this.getWorktreePath(sessionId);
+    const filePath = input.filePath?.trim();
+    const body = input.body?.trim();
+    if (!filePath) throw new Error('File path is required');
+    if (!body) throw new Error('Comment cannot be empty');
+    if (!Number.isInteger(input.startLine) || input.startLine < 1) throw new Error('Invalid line number');
+
+    const side = input.side === 'deletions' ? 'deletions' : 'additions';
+    const commitHash = input.commitHash?.trim() || null;
+    const endLine = Math.max(input.startLine, input.endLine ?? input.startLine);
+
+    const content = side === 'additions'
+      ? commitHash
+        ? await this.readCommitFile(sessionId, worktreePath, commitHash, filePath)
+        : await this.readWorktreeFile(worktreePath, filePath)
+      : await this.readCommitFile(sessionId, worktreePath, commitHash ? `${commitHash}^` : 'HEAD', filePath);
+    const anchorText = content === null ? null : splitLines(content)[input.startLine - 1] ?? null;
+
+    this.db.addDiffComment({
+      session_id: sessionId,
+      file_path: filePath,
+      side,
+      start_line: input.startLine,
+      end_line: endLine,
+      anchor_text: anchorText,
+      commit_hash: commitHash,
+      body,
+    });
+    return this.emitUpdate(sessionId);
+  }
+
+  async update(sessionId: string, id: number, body: string): Promise<DiffComment[]> {
+    const comment = this.getOwnComment(sessionId, id);
+    if (!body?.trim()) throw new Error('Comment cannot be empty');
+    this.db.updateDiffCommentBody(comment.id, body.trim());
+    return this.emitUpdate(sessionId);
+  }
+
+  async delete(sessionId: string, id: number): Promise<DiffComment[]> {
+    const comment = this.getOwnComment(sessionId, id);
+    this.db.deleteDiffComment(comment.id);
+    return this.emitUpdate(sessionId);
+  }
+
+  /**
+   * Send every pending comment to `panelId` as one prompt and mark them sent.
+   */
+  async send(sessionId: string, panelId: string): Promise<DiffComment[]> {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) throw new Error('Session not found');
+    if (BUSY_STATUSES.has(session.status)) {
+      throw new Error('Wait for the agent to finish before sending the review');
+    }
+    if (!this.dispatcher) throw new Error('Review comments cannot be sent to the agent');
+
+    const pending = (await this.list(sessionId)).filter((comment) => comment.status === 'pending');
+    if (pending.length === 0) throw new Error('There are no pending review comments');
+
+    const res = await this.dispatcher(panelId, buildDiffCommentsPrompt(pending));
+    if (!res.success) {
+      this.logger?.warn(`[Review] Failed to send diff comments for session ${sessionId}: ${res.error ?? 'unknown error'}`);
+      throw new Error(res.error || 'Failed to send the review to the agent');
+    }
+
+    this.db.markDiffCommentsSent(pending.map((comment) => comment.id));
+    return this.emitUpdate(sessionId);
+  }
+
+  private getWorktreePath(sessionId: string): string {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session?.worktreePath) throw new Error('Session worktree not found');
+    return session.worktreePath;
+  }
+
+  private getOwnComment(sessionId: string, id: number): DiffComment {
+    const comment = this.db.getDiffComment(id);
+    if (!comment || comment.session_id !== sessionId) throw new Error('Comment not found');
+    return comment;
+  }
+
+  private async readWorktreeFile(worktreePath: string, filePath: string): Promise<string | null> {
+    const abs = join(worktreePath, filePath);
+    const rel = relative(worktreePath, abs);
+    if (!rel || rel.startsWith('..') || isAbsolute(rel)) return null;
+    try {
+      return await fs.readFile(abs, 'utf8');
+    } catch {
+      return null;
+    }
+  }
+
+  private async readCommitFile(sessionId: string, worktreePath: string, ref: string, filePath: string): Promise<string | null> {
+    try {
+      const result = await this.gitExecutor.run({
+        sessionId,
+        cwd: worktreePath,
+        argv: ['git', 'show', '--format=', `${ref}:${filePath}`],
+        op: 'read',
+        recordTimeline: false,
+        meta: { source: 'review', operation: 'read-commented-file', ref, filePath },
+        timeoutMs: 15_000,
+      });
+      return result.exitCode === 0 ? result.stdout ?? '' : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private emitUpdate(sessionId: string): DiffComment[] {
+    const comments = this.db.getDiffComments(sessionId);
+    this.emit('updated', { sessionId, comments });
+    return comments;
+  }
+}
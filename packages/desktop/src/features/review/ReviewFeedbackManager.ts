@@ -0,0 +1,162 @@
+/**
+ * ReviewFeedbackManager - PR review comments dispatched to the agent
+ *
+ * Unresolved review threads of the session's pull request are fetched from the
+ * forge (see ipc/review.ts) and kept here per session. Selected comments are
+ * sent to the agent panel as one structured prompt and marked `sent`; when the
+ * agent round that received them ends (running -> waiting) they become
+ * `addressed`. Only that state is persisted, keyed by the forge's thread id.
+ */
+
+import { EventEmitter } from 'events';
+import type { Session } from '@snowtree/core/types/session';
+import type { DatabaseService } from '../../infrastructure/database/database';
+import type { Logger } from '../../infrastructure/logging/logger';
+import type { SessionManager } from '../session/SessionManager';
+import type { ForgeReviewComment } from '../forge';
+
+export type ReviewPromptDispatcher = (panelId: string, prompt: string) => Promise<{ success: boolean; error?: string }>;
+
+export type ReviewCommentStatus = 'open' | 'sent' | 'addressed';
+
+export interface ReviewComment extends ForgeReviewComment {
+  status: ReviewCommentStatus;
+}
+
+export interface ReviewFeedback {
+  sessionId: string;
+  pullRequest: { number: number; url: string } | null;
+  comments: ReviewComment[];
+  /** When the comments were last fetched; null before the first fetch */
+  fetchedAt: string | null;
+  error: string | null;
+}
+
+export interface FetchedReviewComments {
+  pullRequest: { number: number; url: string } | null;
+  comments: ForgeReviewComment[];
+  error?: string | null;
+}
+
+const BUSY_STATUSES = new Set<Session['status']>(['running', 'initializing']);
+
+function indent(text: string, prefix: string): string {
+  return text.trim().split('\n').map((line) => (line ? `${prefix}${line}` : line)).join('\n');
+}
+
+export function buildReviewFeedbackPrompt(pullRequestNumber: number | null, comments: ForgeReviewComment[]): string {
+  const source = pullRequestNumber ? `pull request #${pullRequestNumber}` : 'the pull request';
+  const lines = [
+    `Reviewers left the comments below on ${source}. Address each one in the code. If you disagree with a comment, leave the code as it is and explain why in your reply.`,
+  ];
+  comments.forEach((comment, index) => {
+    const location = comment.line ? `${comment.path}:${comment.line}` : comment.path;
+    lines.push('', `${index + 1}. ${location} (@${comment.author})`, indent(comment.body, '   '));
+    for (const reply of comment.replies) {
+      lines.push(`   Reply from @${reply.author}:`, indent(reply.body, '     '));
+    }
+  });
+  return lines.join('\n');
+}
+
+export class ReviewFeedbackManager extends EventEmitter {
+  private fetched = new Map<string, FetchedReviewComments & { fetchedAt: string }>();
+  private dispatcher: ReviewPromptDispatcher | null = null;
+  private lastStatusBySession = new Map<string, Session['status']>();
+
+  constructor(
+    private db: DatabaseService,
+    private sessionManager: SessionManager,
+    private logger?: Logger
+  ) {
+    super();
+    this.sessionManager.on('session-updated', (session: Session) => this.handleSessionUpdated(session));
+    this.sessionManager.on('session-deleted', (data: { id?: string }) => {
+      if (!data?.id) return;
+      this.fetched.delete(data.id);
+      this.lastStatusBySession.delete(data.id);
+    });
+  }
+
+  /**
+   * Set how the prompt is sent to the agent panel (the `panels:continue` path).
+   */
+  setDispatcher(dispatcher: ReviewPromptDispatcher): void {
+    this.dispatcher = dispatcher;
+  }
+
+  get(sessionId: string): ReviewFeedback {
+    const fetched = this.fetched.get(sessionId);
+    const states = new Map(this.db.getReviewCommentStates(sessionId).map((s) => [s.comment_id, s.status]));
+    return {
+      sessionId,
+      pullRequest: fetched?.pullRequest ?? null,
+      comments: (fetched?.comments ?? []).map((comment) => ({ ...comment, status: states.get(comment.id) ?? 'open' })),
+      fetchedAt: fetched?.fetchedAt ?? null,
+      error: fetched?.error ?? null,
+    };
+  }
+
+  /**
+   * Replace the session's comments with a fresh fetch from the forge.
+   */
+  setFetched(sessionId: string, result: FetchedReviewComments): ReviewFeedback {
+    this.fetched.set(sessionId, { ...result, fetchedAt: new Date().toISOString() });
+    return this.emitUpdate(sessionId);
+  }
+
+  /**
+   * Send the selected comments to `panelId` as one prompt and mark them sent.
+   */
+  async send(sessionId: string, panelId: string, commentIds: string[]): Promise<ReviewFeedback> {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) throw new Error('Session not found');
+    if (BUSY_STATUSES.has(session.status)) {
+      throw new Error('Wait for the agent to finish before sending review feedback');
+    }
+    if (!this.dispatcher) throw new Error('Review feedback cannot be sent to the agent');
+
+    const feedback = this.get(sessionId);
+    const ids = new Set(commentIds);
+    const selected = feedback.comments.filter((comment) => ids.has(comment.id));
+    if (selected.length === 0) throw new Error('Select at least one review comment');
+
+    const res = await this.dispatcher(panelId, buildReviewFeedbackPrompt(feedback.pullRequest?.number ?? null, selected));
+    if (!res.success) {
+      this.logger?.warn(`[Review] Failed to send review feedback for session ${sessionId}: ${res.error ?? 'unknown error'}`);
+      throw new Error(res.error || 'Failed to send review feedback to the agent');
+    }
+
+    this.db.setReviewCommentStatus(sessionId, selected.map((comment) => comment.id), 'sent');
+    return this.emitUpdate(sessionId);
+  }
+
+  /**
+   * Mark comments addressed by hand, or reopen them.
+   */
+  setStatus(sessionId: string, commentIds: string[], status: 'open' | 'addressed'): ReviewFeedback {
+    if (status === 'open') {
+      this.db.clearReviewCommentStatus(sessionId, commentIds);
+    } else {
+      this.db.setReviewCommentStatus(sessionId, commentIds, status);
+    }
+    return this.emitUpdate(sessionId);
+  }
+
+  private handleSessionUpdated(session: Session): void {
+    const prev = this.lastStatusBySession.get(session.id);
+    this.lastStatusBySession.set(session.id, session.status);
+
+    if (prev && BUSY_STATUSES.has(prev) && session.status === 'waiting') {
+      if (this.db.markSentReviewCommentsAddressed(session.id) > 0) {
+        this.emitUpdate(session.id);
+      }
+    }
+  }
+
+  private emitUpdate(sessionId: string): ReviewFeedback {
+    const feedback = this.get(sessionId);
+    this.emit('updated', feedback);
+    return feedback;
+  }
+}
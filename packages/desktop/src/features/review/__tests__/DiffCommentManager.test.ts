@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { cleanupDatabase, createMockDatabase } from '../../../__tests__/helpers/mockDatabase';
+import type { DatabaseService } from '../../../infrastructure/database/database';
+import { DiffCommentManager, reanchorLine } from '../DiffCommentManager';
+
+describe('DiffCommentManager', () => {
+  let db: DatabaseService;
+  let worktree: string;
+  let status: string;
+  let manager: DiffCommentManager;
+  let dispatcher: ReturnType<typeof vi.fn>;
+  let gitExecutor: { run: ReturnType<typeof vi.fn> };
+
+  const writeFile = (content: string) => fs.writeFileSync(path.join(worktree, 'app.ts'), content);
+
+  beforeEach(() => {
+    db = createMockDatabase();
+    worktree = fs.mkdtempSync(path.join(os.tmpdir(), 'snowtree-diff-comments-'));
+    const projectId = db.createProject('Test Project', worktree).id;
+    db.createSession({ id: 's1', name: 'feature', initial_prompt: 'Add it', worktree_name: 'feature', worktree_path: worktree, project_id: projectId });
+    status = 'waiting';
+    const sessionManager = { getSession: vi.fn((id: string) => ({ id, status, worktreePath: worktree })) };
+    gitExecutor = { run: vi.fn(async () => ({ exitCode: 0, stdout: 'const removed = true;\n', stderr: '' })) };
+    dispatcher = vi.fn(async () => ({ success: true }));
+    manager = new DiffCommentManager(db, sessionManager as never, gitExecutor as never);
+    manager.setDispatcher(dispatcher);
+    writeFile('import a from "a";\nconst value = a();\nexport default value;\n');
+  });
+
+  afterEach(() => {
+    cleanupDatabase(db);
+    fs.rmSync(worktree, { recursive: true, force: true });
+  });
+
+  it('follows the commented line as the file changes and flags it when the line is gone', async () => {
+    await manager.add('s1', { filePath: 'app.ts', startLine: 2, endLine: 3, body: 'Name this better' });
+
+    writeFile('// header\n\nimport a from "a";\nconst value = a();\nexport default value;\n');
+    let [comment] = await manager.list('s1');
+    expect(comment).toMatchObject({ start_line: 4, end_line: 5, anchor_text: 'const value = a();', outdated: false });
+
+    writeFile('export default 1;\n');
+    [comment] = await manager.list('s1');
+    expect(comment).toMatchObject({ start_line: 4, outdated: true });
+  });
+
+  it('anchors comments on removed lines to the old version without moving them', async () => {
+    await manager.add('s1', { filePath: 'app.ts', side: 'deletions', startLine: 1, commitHash: 'abc1234def', body: 'Why remove this?' });
+
+    expect(gitExecutor.run).toHaveBeenCalledWith(expect.objectContaining({ argv: ['git', 'show', '--format=', 'abc1234def^:app.ts'] }));
+    const [comment] = await manager.list('s1');
+    expect(comment).toMatchObject({ side: 'deletions', start_line: 1, anchor_text: 'const removed = true;', outdated: false });
+  });
+
+  it('sends the pending comments as one prompt with file:line context', async () => {
+    await manager.add('s1', { filePath: 'app.ts', startLine: 2, body: 'Handle errors from a()' });
+    await manager.add('s1', { filePath: 'app.ts', side: 'deletions', startLine: 1, body: 'Keep this' });
+
+    const comments = await manager.send('s1', 'p1');
+
+    const prompt = dispatcher.mock.calls[0][1] as string;
+    expect(dispatcher).toHaveBeenCalledWith('p1', expect.any(String));
+    expect(prompt).toContain('1. app.ts (removed line 1 of HEAD)\n   > const removed = true;\n   Keep this');
+    expect(prompt).toContain('2. app.ts:2\n   > const value = a();\n   Handle errors from a()');
+    expect(comments.map((c) => c.status)).toEqual(['sent', 'sent']);
+    await expect(manager.send('s1', 'p1')).rejects.toThrow('no pending review comments');
+  });
+
+  it('refuses to send while the agent is busy and keeps comments pending on failure', async () => {
+    await manager.add('s1', { filePath: 'app.ts', startLine: 1, body: 'Sort imports' });
+
+    status = 'running';
+    await expect(manager.send('s1', 'p1')).rejects.toThrow('Wait for the agent to finish');
+
+    status = 'waiting';
+    dispatcher.mockResolvedValueOnce({ success: false, error: 'panel gone' });
+    await expect(manager.send('s1', 'p1')).rejects.toThrow('panel gone');
+    expect((await manager.list('s1'))[0].status).toBe('pending');
+  });
+
+  it('re-anchors to the closest matching line', () => {
+    expect(reanchorLine(['x', 'a', 'y', 'a'], 3, 'a')).toBe(2);
+    expect(reanchorLine(['a', 'b'], 2, 'b')).toBe(2);
+    expect(reanchorLine(['a', 'b'], 5, 'a')).toBe(1);
+    expect(reanchorLine(['a', 'b'], 5, 'c')).toBeNull();
+  });
+});
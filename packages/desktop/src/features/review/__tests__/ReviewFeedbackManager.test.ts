@@ -0,0 +1,91 @@
+import { EventEmitter } from 'node:events';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { cleanupDatabase, createMockDatabase } from '../../../__tests__/helpers/mockDatabase';
+import type { DatabaseService } from '../../../infrastructure/database/database';
+import type { ForgeReviewComment } from '../../forge';
+import { ReviewFeedbackManager, buildReviewFeedbackPrompt } from '../ReviewFeedbackManager';
+
+describe('ReviewFeedbackManager', () => {
+  let db: DatabaseService;
+  let status: string;
+  let manager: ReviewFeedbackManager;
+  let dispatcher: ReturnType<typeof vi.fn>;
+  let sessionManager: EventEmitter & { getSession: ReturnType<typeof vi.fn> };
+
+  const comment = (id: string, extra: Partial<ForgeReviewComment> = {}): ForgeReviewComment => ({
+    id,
+    path: 'src/app.ts',
+    line: 12,
+    author: 'alice',
+    body: `Fix ${id}`,
+    url: null,
+    createdAt: null,
+    replies: [],
+    ...extra,
+  });
+
+  const setStatus = (next: string) => {
+    status = next;
+    sessionManager.emit('session-updated', { id: 's1', status: next });
+  };
+
+  beforeEach(() => {
+    db = createMockDatabase();
+    const projectId = db.createProject('Test Project', '/tmp/repo').id;
+    db.createSession({ id: 's1', name: 'feature', initial_prompt: 'Add it', worktree_name: 'feature', worktree_path: '/tmp/repo', project_id: projectId });
+    status = 'waiting';
+    sessionManager = Object.assign(new EventEmitter(), {
+      getSession: vi.fn((id: string) => ({ id, status })),
+    });
+    dispatcher = vi.fn(async () => ({ success: true }));
+    manager = new ReviewFeedbackManager(db, sessionManager as never);
+    manager.setDispatcher(dispatcher);
+    manager.setFetched('s1', { pullRequest: { number: 7, url: 'https://github.com/o/r/pull/7' }, comments: [comment('t1'), comment('t2')] });
+  });
+
+  afterEach(() => {
+    cleanupDatabase(db);
+  });
+
+  it('sends the selected comments as one prompt and marks them addressed after the next round', async () => {
+    const sent = await manager.send('s1', 'p1', ['t2']);
+
+    expect(dispatcher).toHaveBeenCalledWith('p1', expect.stringContaining('pull request #7'));
+    expect(dispatcher.mock.calls[0][1]).toContain('1. src/app.ts:12 (@alice)\n   Fix t2');
+    expect(dispatcher.mock.calls[0][1]).not.toContain('Fix t1');
+    expect(sent.comments.map((c) => [c.id, c.status])).toEqual([['t1', 'open'], ['t2', 'sent']]);
+
+    setStatus('running');
+    expect(manager.get('s1').comments[1].status).toBe('sent');
+    setStatus('waiting');
+    expect(manager.get('s1').comments.map((c) => c.status)).toEqual(['open', 'addressed']);
+  });
+
+  it('keeps the state across fetches and lets comments be reopened', async () => {
+    await manager.send('s1', 'p1', ['t1']);
+    manager.setFetched('s1', { pullRequest: { number: 7, url: 'u' }, comments: [comment('t1'), comment('t3')] });
+    expect(manager.get('s1').comments.map((c) => [c.id, c.status])).toEqual([['t1', 'sent'], ['t3', 'open']]);
+
+    manager.setStatus('s1', ['t1'], 'open');
+    expect(manager.get('s1').comments[0].status).toBe('open');
+  });
+
+  it('refuses to send while the agent is busy or when dispatch fails', async () => {
+    status = 'running';
+    await expect(manager.send('s1', 'p1', ['t1'])).rejects.toThrow('Wait for the agent to finish');
+
+    status = 'waiting';
+    dispatcher.mockResolvedValueOnce({ success: false, error: 'panel gone' });
+    await expect(manager.send('s1', 'p1', ['t1'])).rejects.toThrow('panel gone');
+    expect(manager.get('s1').comments[0].status).toBe('open');
+  });
+
+  it('includes replies and file-level comments in the prompt', () => {
+    const prompt = buildReviewFeedbackPrompt(null, [
+      comment('t1', { line: null, path: 'README.md', body: 'Document this', replies: [{ author: 'bob', body: 'Agreed' }] }),
+    ]);
+
+    expect(prompt).toContain('the pull request');
+    expect(prompt).toContain('1. README.md (@alice)\n   Document this\n   Reply from @bob:\n     Agreed');
+  });
+});
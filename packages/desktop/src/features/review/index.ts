@@ -0,0 +1,10 @@
+export { ReviewFeedbackManager, buildReviewFeedbackPrompt } from './ReviewFeedbackManager';
+export { DiffCommentManager, buildDiffCommentsPrompt, reanchorLine } from './DiffCommentManager';
+export type { DiffCommentInput } from './DiffCommentManager';
+export type {
+  ReviewPromptDispatcher,
+  ReviewCommentStatus,
+  ReviewComment,
+  ReviewFeedback,
+  FetchedReviewComments,
+} from './ReviewFeedbackManager';
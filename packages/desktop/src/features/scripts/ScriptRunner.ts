@@ -0,0 +1,398 @@
+/**
+ * ScriptRunner - Run scripts for each session side by side
+ *
+ * A session can run every run command configured for its project at the same
+ * time. Each command gets its own process group and log buffer, and no session
+ * can stop another session's scripts. Each script gets a free port in
+ * SNOWTREE_PORT. The session keeps that port across restarts, so parallel
+ * worktrees can run the same dev server without colliding.
+ *
+ * Every run is recorded as a `cli.command` timeline event with its exit code
+ * and duration.
+ */
+
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { spawn, exec, type ChildProcess } from 'child_process';
+import * as net from 'net';
+import type { DatabaseService } from '../../infrastructure/database/database';
+import type { Logger } from '../../infrastructure/logging/logger';
+import { ShellDetector } from '../../infrastructure/command/shellDetector';
+import { getShellPath } from '../../infrastructure/command/shellPath';
+import type { SessionManager } from '../session/SessionManager';
+
+export type RunScriptStatus = 'idle' | 'running' | 'stopping' | 'exited' | 'failed';
+
+export interface RunScriptDefinition {
+  /** Run command id, or `run_script` for the project's legacy run script. */
+  id: string;
+  name: string;
+  command: string;
+}
+
+export interface RunScriptState extends RunScriptDefinition {
+  sessionId: string;
+  status: RunScriptStatus;
+  pid: number | null;
+  port: number | null;
+  exitCode: number | null;
+  startedAt: string | null;
+  endedAt: string | null;
+}
+
+export interface RunScriptLogLine {
+  stream: 'stdout' | 'stderr' | 'system';
+  text: string;
+  timestamp: string;
+}
+
+export interface RunScriptsUpdate {
+  sessionId: string;
+  scripts: RunScriptState[];
+}
+
+export interface RunScriptOutput {
+  sessionId: string;
+  scriptId: string;
+  lines: RunScriptLogLine[];
+}
+
+export interface ScriptRunnerOptions {
+  /** First port handed out through SNOWTREE_PORT. */
+  portRangeStart?: number;
+  portRangeSize?: number;
+  /** How long a script gets to exit after SIGTERM before it is killed. */
+  stopGraceMs?: number;
+}
+
+interface RunningScript {
+  operationId: string;
+  state: RunScriptState;
+  logs: RunScriptLogLine[];
+  child: ChildProcess | null;
+  exited: Promise<void>;
+}
+
+export const LEGACY_RUN_SCRIPT_ID = 'run_script';
+
+const MAX_LOG_LINES = 2000;
+const DEFAULTS: Required<ScriptRunnerOptions> = {
+  portRangeStart: 4100,
+  portRangeSize: 900,
+  stopGraceMs: 3000,
+};
+
+const keyOf = (sessionId: string, scriptId: string) => `${sessionId}:${scriptId}`;
+
+function isPortFree(port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const server = net.createServer();
+    server.unref();
+    server.once('error', () => resolve(false));
+    server.listen(port, () => server.close(() => resolve(true)));
+  });
+}
+
+export class ScriptRunner extends EventEmitter {
+  private scripts = new Map<string, RunningScript>();
+  private ports = new Map<string, number>();
+  private options: Required<ScriptRunnerOptions>;
+
+  constructor(
+    private db: DatabaseService,
+    private sessionManager: SessionManager,
+    private logger?: Logger,
+    options: ScriptRunnerOptions = {}
+  ) {
+    super();
+    this.options = { ...DEFAULTS, ...options };
+    this.sessionManager.on('session-deleted', (data: { id?: string }) => {
+      if (data?.id) void this.stopSession(data.id);
+    });
+  }
+
+  /**
+   * The project's run commands for a session, merged with their current state.
+   * Falls back to the project's run script when no run commands are configured.
+   */
+  list(sessionId: string): RunScriptState[] {
+    const definitions = this.getDefinitions(sessionId);
+    const states = definitions.map((definition) => {
+      const running = this.scripts.get(keyOf(sessionId, definition.id));
+      return running ? { ...running.state, name: definition.name } : this.idleState(sessionId, definition);
+    });
+
+    // Keep scripts whose command was removed while they were still running.
+    for (const running of this.scripts.values()) {
+      if (running.state.sessionId !== sessionId) continue;
+      if (definitions.some((definition) => definition.id === running.state.id)) continue;
+      if (running.state.status === 'running' || running.state.status === 'stopping') states.push({ ...running.state });
+    }
+    return states;
+  }
+
+  getLogs(sessionId: string, scriptId: string): RunScriptLogLine[] {
+    return [...(this.scripts.get(keyOf(sessionId, scriptId))?.logs ?? [])];
+  }
+
+  async start(sessionId: string, scriptId: string): Promise<RunScriptState> {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) throw new Error(`Session ${sessionId} not found`);
+    if (!session.worktreePath) throw new Error('Session has no worktree to run scripts in');
+
+    const definition = this.getDefinitions(sessionId).find((candidate) => candidate.id === scriptId);
+    if (!definition) throw new Error(`Run command ${scriptId} not found`);
+
+    const key = keyOf(sessionId, scriptId);
+    const existing = this.scripts.get(key);
+    if (existing && (existing.state.status === 'running' || existing.state.status === 'stopping')) {
+      throw new Error(`"${definition.name}" is already running`);
+    }
+
+    const port = await this.allocatePort(key);
+    const { shell, args } = ShellDetector.getShellCommandArgs(definition.command);
+    const child = spawn(shell, args, {
+      cwd: session.worktreePath,
+      stdio: 'pipe',
+      detached: true, // Own process group so the whole tree can be stopped
+      env: {
+        ...process.env,
+        PATH: getShellPath(),
+        SNOWTREE_PORT: String(port),
+      },
+    });
+
+    const running: RunningScript = {
+      operationId: randomUUID(),
+      state: {
+        ...definition,
+        sessionId,
+        status: 'running',
+        pid: child.pid ?? null,
+        port,
+        exitCode: null,
+        startedAt: new Date().toISOString(),
+        endedAt: null,
+      },
+      logs: [],
+      child,
+      exited: Promise.resolve(),
+    };
+    this.scripts.set(key, running);
+
+    running.exited = new Promise((resolve) => {
+      const finish = (status: RunScriptStatus, exitCode: number | null, message: string, stopped = false) => {
+        if (running.child !== child) return resolve();
+        running.child = null;
+        running.state = { ...running.state, status, exitCode, endedAt: new Date().toISOString() };
+        this.append(running, 'system', message);
+        this.recordCommand(running, status === 'failed' ? 'failed' : 'finished', stopped ? { termination: 'stopped' } : undefined);
+        this.emitUpdate(sessionId);
+        resolve();
+      };
+
+      // 'close' rather than 'exit' so trailing output is logged before the exit line.
+      child.on('close', (code, signal) => {
+        const stopped = running.state.status === 'stopping';
+        const status = stopped || code === 0 ? 'exited' : 'failed';
+        finish(status, code, stopped ? 'Stopped' : `Exited with ${code !== null ? `code ${code}` : `signal ${signal}`}`, stopped);
+      });
+      child.on('error', (error) => {
+        finish('failed', null, `Error: ${error.message}`);
+      });
+    });
+
+    this.pipeLines(running, child.stdout, 'stdout');
+    this.pipeLines(running, child.stderr, 'stderr');
+
+    this.append(running, 'system', `$ ${definition.command}  (SNOWTREE_PORT=${port})`);
+    this.recordCommand(running, 'started');
+    this.logger?.info(`[Scripts] Started "${definition.name}" for session ${sessionId} on port ${port}`);
+    this.emitUpdate(sessionId);
+    return { ...running.state };
+  }
+
+  /**
+   * Stop a script and every process it started: SIGTERM to its process group,
+   * then SIGKILL once the grace period runs out.
+   */
+  async stop(sessionId: string, scriptId: string): Promise<void> {
+    const running = this.scripts.get(keyOf(sessionId, scriptId));
+    const child = running?.child;
+    if (!running || !child || running.state.status !== 'running') {
+      await running?.exited;
+      return;
+    }
+
+    running.state = { ...running.state, status: 'stopping' };
+    this.append(running, 'system', 'Stopping…');
+    this.emitUpdate(sessionId);
+
+    this.signal(child, 'SIGTERM');
+    const timedOut = await Promise.race([
+      running.exited.then(() => false),
+      new Promise<boolean>((resolve) => setTimeout(() => resolve(true), this.options.stopGraceMs)),
+    ]);
+    if (timedOut) {
+      this.append(running, 'system', 'Did not exit in time, killing');
+      this.signal(child, 'SIGKILL');
+      await running.exited;
+    }
+  }
+
+  async restart(sessionId: string, scriptId: string): Promise<RunScriptState> {
+    await this.stop(sessionId, scriptId);
+    return this.start(sessionId, scriptId);
+  }
+
+  /**
+   * Stop all of a session's scripts and forget their logs and ports.
+   */
+  async stopSession(sessionId: string): Promise<void> {
+    const ids = [...this.scripts.values()]
+      .filter((running) => running.state.sessionId === sessionId)
+      .map((running) => running.state.id);
+    await Promise.all(ids.map((id) => this.stop(sessionId, id)));
+    for (const id of ids) this.scripts.delete(keyOf(sessionId, id));
+    for (const key of [...this.ports.keys()]) {
+      if (key.startsWith(`${sessionId}:`)) this.ports.delete(key);
+    }
+    if (ids.length > 0) this.emitUpdate(sessionId);
+  }
+
+  /**
+   * Tell every session of a project that its run commands changed.
+   */
+  refreshProject(projectId: number): void {
+    for (const session of this.sessionManager.getSessionsForProject(projectId)) {
+      this.emitUpdate(session.id);
+    }
+  }
+
+  async stopAll(): Promise<void> {
+    const sessionIds = new Set([...this.scripts.values()].map((running) => running.state.sessionId));
+    await Promise.all([...sessionIds].map((sessionId) => this.stopSession(sessionId)));
+  }
+
+  private getDefinitions(sessionId: string): RunScriptDefinition[] {
+    const projectId = this.sessionManager.getSession(sessionId)?.projectId;
+    if (!projectId) return [];
+
+    const commands = this.db.getProjectRunCommands(projectId);
+    if (commands.length > 0) {
+      return commands.map((command) => ({
+        id: String(command.id),
+        name: command.display_name?.trim() || command.command,
+        command: command.command,
+      }));
+    }
+
+    const runScript = this.db.getProject(projectId)?.run_script;
+    const lines = runScript?.split('\n').map((line) => line.trim()).filter(Boolean) ?? [];
+    if (lines.length === 0) return [];
+    return [{ id: LEGACY_RUN_SCRIPT_ID, name: 'Run', command: lines.join(' && ') }];
+  }
+
+  private idleState(sessionId: string, definition: RunScriptDefinition): RunScriptState {
+    return {
+      ...definition,
+      sessionId,
+      status: 'idle',
+      pid: null,
+      port: this.ports.get(keyOf(sessionId, definition.id)) ?? null,
+      exitCode: null,
+      startedAt: null,
+      endedAt: null,
+    };
+  }
+
+  /**
+   * Reuse the port this script had before when it is still free, otherwise take
+   * the first free port in the range that no other script holds.
+   */
+  private async allocatePort(key: string): Promise<number> {
+    const previous = this.ports.get(key);
+    const taken = new Set([...this.ports.entries()].filter(([owner]) => owner !== key).map(([, port]) => port));
+    if (previous !== undefined && !taken.has(previous) && await isPortFree(previous)) return previous;
+
+    const { portRangeStart, portRangeSize } = this.options;
+    for (let port = portRangeStart; port < portRangeStart + portRangeSize; port++) {
+      if (taken.has(port) || port === previous) continue;
+      if (await isPortFree(port)) {
+        this.ports.set(key, port);
+        return port;
+      }
+    }
+    throw new Error(`No free port between ${portRangeStart} and ${portRangeStart + portRangeSize - 1}`);
+  }
+
+  private signal(child: ChildProcess, signal: NodeJS.Signals): void {
+    if (!child.pid) return;
+    if (process.platform === 'win32') {
+      exec(`taskkill /F /T /PID ${child.pid}`, () => {
+        // Already gone
+      });
+      return;
+    }
+    try {
+      process.kill(-child.pid, signal);
+    } catch {
+      try {
+        child.kill(signal);
+      } catch {
+        // Already gone
+      }
+    }
+  }
+
+  private pipeLines(running: RunningScript, stream: NodeJS.ReadableStream | null, name: 'stdout' | 'stderr'): void {
+    if (!stream) return;
+    let partial = '';
+    stream.on('data', (data: Buffer) => {
+      const lines = (partial + data.toString()).split(/\r?\n/);
+      partial = lines.pop() ?? '';
+      for (const line of lines) this.append(running, name, line);
+    });
+    stream.on('end', () => {
+      if (partial) this.append(running, name, partial);
+      partial = '';
+    });
+  }
+
+  private append(running: RunningScript, stream: RunScriptLogLine['stream'], text: string): void {
+    const line: RunScriptLogLine = { stream, text, timestamp: new Date().toISOString() };
+    running.logs.push(line);
+    if (running.logs.length > MAX_LOG_LINES) running.logs.splice(0, running.logs.length - MAX_LOG_LINES);
+    this.emit('output', { sessionId: running.state.sessionId, scriptId: running.state.id, lines: [line] } satisfies RunScriptOutput);
+  }
+
+  private recordCommand(running: RunningScript, status: 'started' | 'finished' | 'failed', extraMeta?: Record<string, unknown>): void {
+    const { state } = running;
+    try {
+      this.sessionManager.addTimelineEvent({
+        session_id: state.sessionId,
+        kind: 'cli.command',
+        status,
+        command: state.command,
+        cwd: this.sessionManager.getSession(state.sessionId)?.worktreePath,
+        tool: 'script',
+        duration_ms: status === 'started' || !state.startedAt ? undefined : Date.now() - Date.parse(state.startedAt),
+        exit_code: state.exitCode ?? undefined,
+        meta: {
+          operationId: running.operationId,
+          source: 'run_command',
+          scriptId: state.id,
+          scriptName: state.name,
+          port: state.port,
+          ...extraMeta,
+        },
+      });
+    } catch (error) {
+      this.logger?.warn(`[Scripts] Failed to record "${state.name}" for ${state.sessionId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private emitUpdate(sessionId: string): void {
+    this.emit('updated', { sessionId, scripts: this.list(sessionId) } satisfies RunScriptsUpdate);
+  }
+}
@@ -0,0 +1,113 @@
+import { randomUUID } from 'node:crypto';
+import { EventEmitter } from 'node:events';
+import * as os from 'node:os';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { cleanupDatabase, createMockDatabase } from '../../../__tests__/helpers/mockDatabase';
+import type { DatabaseService } from '../../../infrastructure/database/database';
+import type { CreateTimelineEventData } from '../../../infrastructure/database/models';
+import { ScriptRunner, LEGACY_RUN_SCRIPT_ID } from '../ScriptRunner';
+
+describe('ScriptRunner', () => {
+  let db: DatabaseService;
+  let projectId: number;
+  let sessionManager: EventEmitter & { getSession: ReturnType<typeof vi.fn>; addTimelineEvent: ReturnType<typeof vi.fn> };
+  let runner: ScriptRunner;
+
+  const output = (sessionId: string, scriptId: string) =>
+    runner.getLogs(sessionId, scriptId).map((line) => line.text).join('\n');
+
+  beforeEach(() => {
+    db = createMockDatabase();
+    projectId = db.createProject('Test Project', `/tmp/snowtree-test-${randomUUID()}`).id;
+    sessionManager = Object.assign(new EventEmitter(), {
+      getSession: vi.fn((id: string) => ({ id, projectId, worktreePath: os.tmpdir() })),
+      getSessionsForProject: vi.fn(() => [{ id: 's1' }, { id: 's2' }]),
+      addTimelineEvent: vi.fn((data: Omit<CreateTimelineEventData, 'timestamp'>) => data),
+    });
+    runner = new ScriptRunner(db, sessionManager as never, undefined, { portRangeStart: 47100, portRangeSize: 50, stopGraceMs: 500 });
+  });
+
+  afterEach(async () => {
+    await runner.stopAll();
+    cleanupDatabase(db);
+  });
+
+  it('runs the same command in two sessions at once on different ports', async () => {
+    const dev = db.createRunCommand(projectId, 'echo "port=$SNOWTREE_PORT"; sleep 30', 'dev');
+    const id = String(dev.id);
+
+    const first = await runner.start('s1', id);
+    const second = await runner.start('s2', id);
+    expect(first.port).not.toBe(second.port);
+    await vi.waitFor(() => expect(output('s1', id)).toContain(`port=${first.port}`));
+    await vi.waitFor(() => expect(output('s2', id)).toContain(`port=${second.port}`));
+
+    await runner.stop('s1', id);
+    expect(runner.list('s1')).toEqual([expect.objectContaining({ id, name: 'dev', status: 'exited' })]);
+    expect(runner.list('s2')).toEqual([expect.objectContaining({ id, status: 'running' })]);
+    await expect(runner.start('s2', id)).rejects.toThrow('"dev" is already running');
+  });
+
+  it('keeps the port across restarts and reports failed exits', async () => {
+    const server = db.createRunCommand(projectId, 'sleep 30', 'server');
+    const broken = db.createRunCommand(projectId, 'echo boom >&2; exit 3', 'broken');
+
+    const started = await runner.start('s1', String(server.id));
+    const restarted = await runner.restart('s1', String(server.id));
+    expect(restarted.port).toBe(started.port);
+    expect(restarted.pid).not.toBe(started.pid);
+
+    await runner.start('s1', String(broken.id));
+    await vi.waitFor(() =>
+      expect(runner.list('s1').find((script) => script.id === String(broken.id))).toMatchObject({ status: 'failed', exitCode: 3 })
+    );
+    expect(runner.getLogs('s1', String(broken.id))).toContainEqual(expect.objectContaining({ stream: 'stderr', text: 'boom' }));
+  });
+
+  it('falls back to the project run script and stops scripts of deleted sessions', async () => {
+    db.updateProject(projectId, { run_script: 'echo one\nsleep 30' });
+    expect(runner.list('s1')).toEqual([
+      expect.objectContaining({ id: LEGACY_RUN_SCRIPT_ID, name: 'Run', command: 'echo one && sleep 30', status: 'idle' }),
+    ]);
+
+    const updated = vi.fn();
+    runner.on('updated', updated);
+    await runner.start('s1', LEGACY_RUN_SCRIPT_ID);
+
+    sessionManager.emit('session-deleted', { id: 's1' });
+    await vi.waitFor(() => expect(updated).toHaveBeenLastCalledWith({ sessionId: 's1', scripts: [expect.objectContaining({ status: 'idle', port: null })] }));
+    expect(runner.getLogs('s1', LEGACY_RUN_SCRIPT_ID)).toEqual([]);
+  });
+
+  it('records each run as a cli.command timeline event with exit code and duration', async () => {
+    const test = db.createRunCommand(projectId, 'exit 2', 'test');
+    await runner.start('s1', String(test.id));
+    await vi.waitFor(() => expect(sessionManager.addTimelineEvent).toHaveBeenCalledTimes(2));
+
+    const [started, finished] = sessionManager.addTimelineEvent.mock.calls.map(([event]) => event);
+    expect(started).toMatchObject({ session_id: 's1', kind: 'cli.command', status: 'started', command: 'exit 2', tool: 'script' });
+    expect(finished).toMatchObject({ status: 'failed', exit_code: 2, meta: { operationId: started.meta.operationId, scriptName: 'test' } });
+    expect(finished.duration_ms).toEqual(expect.any(Number));
+  });
+
+  it('keeps command ids when saved commands are edited and reordered', () => {
+    const lint = db.createRunCommand(projectId, 'make lint', 'lint');
+    const test = db.createRunCommand(projectId, 'pnpm test', 'test', 1);
+
+    const saved = db.setProjectRunCommands(projectId, [
+      { id: test.id, command: 'pnpm test --run', display_name: '' },
+      { command: 'pnpm dev' },
+    ]);
+
+    expect(saved.map((command) => [command.id === test.id, command.command, command.display_name ?? null])).toEqual([
+      [true, 'pnpm test --run', null],
+      [false, 'pnpm dev', null],
+    ]);
+    expect(db.getRunCommand(lint.id)).toBeUndefined();
+
+    const updated = vi.fn();
+    runner.on('updated', updated);
+    runner.refreshProject(projectId);
+    expect(updated).toHaveBeenCalledWith({ sessionId: 's2', scripts: [expect.objectContaining({ name: 'pnpm test --run' }), expect.objectContaining({ name: 'pnpm dev' })] });
+  });
+});
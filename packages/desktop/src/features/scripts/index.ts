@@ -0,0 +1,10 @@
+export { ScriptRunner, LEGACY_RUN_SCRIPT_ID } from './ScriptRunner';
+export type {
+  RunScriptStatus,
+  RunScriptDefinition,
+  RunScriptState,
+  RunScriptLogLine,
+  RunScriptsUpdate,
+  RunScriptOutput,
+  ScriptRunnerOptions,
+} from './ScriptRunner';
@@ -1,17 +1,13 @@
 // @ts-nocheck
 import { randomUUID } from 'crypto';
 import { EventEmitter } from 'events';
-import { spawn, ChildProcess, exec, execSync } from 'child_process';
-import { ShellDetector } from '../../infrastructure/command/shellDetector';
 import type { Session, SessionUpdate, SessionOutput } from '@snowtree/core/types/session';
 import type { DatabaseService } from '../../infrastructure/database/database';
 import type { Session as DbSession, CreateSessionData, UpdateSessionData, ConversationMessage, PromptMarker, ExecutionDiff, CreateExecutionDiffData, Project, CreateTimelineEventData, TimelineEvent } from '../../infrastructure/database/models';
-import { getShellPath } from '../../infrastructure/command/shellPath';
 import { TerminalManager } from './TerminalManager';
-import { TerminalPanelCoordinator } from './TerminalPanelCoordinator';
-import type { BaseAIPanelState, ToolPanelState, ToolPanel } from '@snowtree/core/types/panels';
+import { TerminalPanelCoordinator, type CreateTerminalPanelOptions } from './TerminalPanelCoordinator';
+import type { AgentToolType, BaseAIPanelState, TerminalPanelState, ToolPanelState, ToolPanel } from '@snowtree/core/types/panels';
 import { formatForDisplay } from '../../infrastructure/utils/timestampUtils';
-import { scriptExecutionTracker } from '../queue/ScriptExecutionTracker';
 
 // Interface for generic JSON message data that can contain various properties
 interface GenericMessageData {
@@ -44,7 +40,6 @@ interface PanelStateWithCustomData extends ToolPanelState {
 }
 import { withLock } from '../../infrastructure/utils/mutex';
 import * as fs from 'fs';
-import * as os from 'os';
 import { panelManager } from '../panels/PanelManager';
 
 const addSessionLog = (..._args: unknown[]) => undefined;
@@ -52,8 +47,6 @@ const cleanupSessionLogs = (..._args: unknown[]) => undefined;
 
 export class SessionManager extends EventEmitter {
   private activeSessions: Map<string, Session> = new Map();
-  private runningScriptProcess: ChildProcess | null = null;
-  private currentRunningSessionId: string | null = null;
   private activeProject: Project | null = null;
   private terminalSessionManager: TerminalManager;
   private terminalPanels: TerminalPanelCoordinator;
@@ -69,9 +62,9 @@ export class SessionManager extends EventEmitter {
     this.terminalPanels = new TerminalPanelCoordinator(db);
     
     // Forward terminal output events to the terminal display
-    this.terminalSessionManager.on('terminal-output', ({ sessionId, data, type }) => {
+    this.terminalSessionManager.on('terminal-output', ({ terminalId, sessionId, data, type }) => {
       const outputData = typeof data === 'string' ? data : String(data);
-      const { panelId, outputId } = this.terminalPanels.recordOutput(sessionId, type, outputData);
+      const { panelId, outputId } = this.terminalPanels.recordOutput(sessionId, type, outputData, terminalId);
 
       this.emit('terminal-output', {
         sessionId,
@@ -83,9 +76,13 @@ export class SessionManager extends EventEmitter {
       });
     });
 
-    // Forward terminal exit events
-    this.terminalSessionManager.on('terminal-exit', (data) => {
-      this.emit('terminal-exit', data);
+    // Save the scrollback of a shell that exited, then forward the exit
+    this.terminalSessionManager.on('terminal-exit', ({ terminalId, sessionId, exitCode, signal }) => {
+      this.terminalPanels.persistScrollback(terminalId)
+        .catch(error => console.warn(`[SessionManager] Failed to save terminal scrollback for ${terminalId}:`, error))
+        .finally(() => {
+          this.emit('terminal-exit', { sessionId, panelId: terminalId, exitCode, signal });
+        });
     });
 
     // Forward zombie process detection events
@@ -103,20 +100,98 @@ export class SessionManager extends EventEmitter {
     return event;
   }
 
-  async ensureTerminalPanel(sessionId: string): Promise<ToolPanel> {
+  async ensureTerminalPanel(sessionId: string, options?: CreateTerminalPanelOptions): Promise<ToolPanel> {
     const existing = this.terminalPanels.getPanel(sessionId);
     if (existing) return existing;
 
+    return this.terminalPanels.ensurePanel(sessionId, this.getTerminalWorktreePath(sessionId), options);
+  }
+
+  listTerminalPanels(sessionId: string): ToolPanel[] {
+    return this.terminalPanels.getPanels(sessionId);
+  }
+
+  async createTerminalPanel(sessionId: string, options?: CreateTerminalPanelOptions): Promise<ToolPanel> {
+    const worktreePath = this.getTerminalWorktreePath(sessionId);
+    if (this.terminalPanels.getPanels(sessionId).length === 0) {
+      return this.terminalPanels.ensurePanel(sessionId, worktreePath, options);
+    }
+    return this.terminalPanels.createPanel(sessionId, worktreePath, options);
+  }
+
+  async renameTerminalPanel(sessionId: string, panelId: string, title: string): Promise<void> {
+    const panel = this.requireTerminalPanel(sessionId, panelId);
+    const trimmed = title.trim();
+    if (!trimmed) {
+      throw new Error('Terminal name is required');
+    }
+    await panelManager.updatePanel(panel.id, { title: trimmed });
+  }
+
+  /**
+   * Close one terminal tab: its shell, its tmux session and its history.
+   */
+  async closeTerminalPanel(sessionId: string, panelId: string): Promise<void> {
+    const panel = this.requireTerminalPanel(sessionId, panelId);
+    const tmuxSessionId = (panel.state?.customState as TerminalPanelState | undefined)?.tmuxSessionId;
+
+    await panelManager.deletePanel(panel.id);
+    this.db.clearPanelOutputs(panel.id);
+    this.terminalPanels.clearSession(sessionId);
+
+    // Killing the process tree can take a while; the tab is already gone
+    void this.terminalSessionManager.closeTerminalSession(panel.id).then(async () => {
+      if (tmuxSessionId) await this.terminalSessionManager.killTmuxSession(tmuxSessionId);
+    });
+  }
+
+  getTerminalOutputs(panelId: string, limit?: number): SessionOutput[] {
+    return this.terminalPanels.getHistory(panelId, limit).map(dbOutput => ({
+      id: dbOutput.id,
+      sessionId: dbOutput.session_id,
+      panelId: dbOutput.panel_id,
+      type: dbOutput.type as 'stdout' | 'stderr' | 'json' | 'error',
+      data: (dbOutput.type === 'json' || dbOutput.type === 'error') ? JSON.parse(dbOutput.data) : dbOutput.data,
+      timestamp: new Date(dbOutput.timestamp)
+    }));
+  }
+
+  private getTerminalWorktreePath(sessionId: string): string | undefined {
     const session = this.getSession(sessionId);
     const dbSession = session ? null : this.db.getSession(sessionId);
     if ((session && session.archived) || (!session && dbSession?.archived)) {
       throw new Error('Cannot access terminal for archived session');
     }
-    const worktreePath = session?.worktreePath || dbSession?.worktree_path;
+    return session?.worktreePath || dbSession?.worktree_path;
+  }
+
+  private requireTerminalPanel(sessionId: string, panelId: string): ToolPanel {
+    const panel = this.terminalPanels.getPanelById(sessionId, panelId);
+    if (!panel) {
+      throw new Error('Terminal not found');
+    }
+    return panel;
+  }
+
+  /**
+   * The terminal a call refers to: the given panel, or the session's first
+   * terminal for callers that predate multiple terminals.
+   */
+  private async resolveTerminalPanel(sessionId: string, panelId?: string): Promise<ToolPanel> {
+    if (panelId) return this.requireTerminalPanel(sessionId, panelId);
+    return this.ensureTerminalPanel(sessionId);
+  }
 
-    return this.terminalPanels.ensurePanel(sessionId, worktreePath);
+  private async startTerminal(panel: ToolPanel, worktreePath: string): Promise<boolean> {
+    if (this.terminalSessionManager.hasSession(panel.id)) return false;
+    const customState = (panel.state?.customState || {}) as TerminalPanelState;
+    await this.terminalSessionManager.createTerminalSession(panel.id, panel.sessionId, worktreePath, {
+      tmuxSessionName: customState.tmuxSessionId
+    });
+    return true;
   }
 
+
   upsertStreamingAssistantTimeline(panelId: string, sessionId: string, tool: string | undefined, content: string, timestamp?: string): TimelineEvent {
     const ts = typeof timestamp === 'string' && timestamp ? timestamp : new Date().toISOString();
     const existingId = this.streamingAssistantTimelineEventByPanel.get(panelId);
@@ -378,6 +453,8 @@ export class SessionManager extends EventEmitter {
     let cleaned = 0;
     for (const session of allSessions) {
       if (session.is_main_repo) continue;
+      // Archived sessions keep their timeline after the worktree is removed.
+      if (session.archived) continue;
       if (!session.worktree_path) continue;
       if (fs.existsSync(session.worktree_path)) continue;
       try {
@@ -393,16 +470,11 @@ export class SessionManager extends EventEmitter {
   }
 
   private convertDbSessionToSession(dbSession: DbSession): Session {
-    const toolTypeFromDb = (dbSession as DbSession & { tool_type?: string }).tool_type as 'claude' | 'codex' | 'gemini' | 'kimi' | 'none' | null | undefined;
-    const normalizedToolType: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none' = toolTypeFromDb === 'codex'
-      ? 'codex'
-      : toolTypeFromDb === 'gemini'
-        ? 'gemini'
-        : toolTypeFromDb === 'kimi'
-          ? 'kimi'
-          : toolTypeFromDb === 'none'
-            ? 'none'
-            : 'claude';
+    const toolTypeFromDb = (dbSession as DbSession & { tool_type?: string }).tool_type as AgentToolType | 'none' | null | undefined;
+    // Anything other than a known value is an executor plugin id; legacy rows without a tool type were Claude.
+    const normalizedToolType: AgentToolType | 'none' = typeof toolTypeFromDb === 'string' && toolTypeFromDb.trim()
+      ? toolTypeFromDb
+      : 'claude';
     const executionModeFromDb = (dbSession as DbSession & { execution_mode?: 'plan' | 'execute' | null }).execution_mode;
     const normalizedExecutionMode: 'plan' | 'execute' = executionModeFromDb === 'plan' ? 'plan' : 'execute';
 
@@ -447,6 +519,7 @@ export class SessionManager extends EventEmitter {
       ownerRepo: dbSession.owner_repo || undefined,
       isFork: dbSession.is_fork || undefined,
       originOwnerRepo: dbSession.origin_owner_repo || undefined,
+      importedAt: dbSession.imported_at || undefined,
     };
   }
 
@@ -498,6 +571,10 @@ export class SessionManager extends EventEmitter {
       .filter(session => !session.archived); // Exclude archived sessions by default
   }
 
+  getArchivedSessions(projectId?: number): Session[] {
+    return this.db.getArchivedSessions(projectId).map(this.convertDbSessionToSession.bind(this));
+  }
+
   getSessionsForProject(projectId: number): Session[] {
     const dbSessions = this.db.getAllSessions(projectId);
     return dbSessions.map(this.convertDbSessionToSession.bind(this));
@@ -530,7 +607,7 @@ export class SessionManager extends EventEmitter {
       isMainRepo?: boolean;
       autoCommit?: boolean;
       folderId?: string;
-      toolType?: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none';
+      toolType?: AgentToolType | 'none';
       baseCommit?: string;
       baseBranch?: string;
       commitMode?: 'structured' | 'checkpoint' | 'disabled';
@@ -544,7 +621,7 @@ export class SessionManager extends EventEmitter {
     isMainRepo?: boolean,
     autoCommit?: boolean,
     folderId?: string,
-    toolType?: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none',
+    toolType?: AgentToolType | 'none',
     baseCommit?: string,
     baseBranch?: string,
     commitMode?: 'structured' | 'checkpoint' | 'disabled',
@@ -560,7 +637,7 @@ export class SessionManager extends EventEmitter {
     let resolvedIsMainRepo: boolean | undefined;
     let resolvedAutoCommit: boolean | undefined;
     let resolvedFolderId: string | undefined;
-    let resolvedToolType: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none' | undefined;
+    let resolvedToolType: AgentToolType | 'none' | undefined;
     let resolvedBaseCommit: string | undefined;
     let resolvedBaseBranch: string | undefined;
     let resolvedCommitMode: 'structured' | 'checkpoint' | 'disabled' | undefined;
@@ -633,7 +710,7 @@ export class SessionManager extends EventEmitter {
       isMainRepo?: boolean;
       autoCommit?: boolean;
       folderId?: string;
-      toolType?: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none';
+      toolType?: AgentToolType | 'none';
       baseCommit?: string;
       baseBranch?: string;
       commitMode?: 'structured' | 'checkpoint' | 'disabled';
@@ -647,7 +724,7 @@ export class SessionManager extends EventEmitter {
     isMainRepo?: boolean,
     autoCommit?: boolean,
     folderId?: string,
-    toolType?: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none',
+    toolType?: AgentToolType | 'none',
     baseCommit?: string,
     baseBranch?: string,
     commitMode?: 'structured' | 'checkpoint' | 'disabled',
@@ -663,7 +740,7 @@ export class SessionManager extends EventEmitter {
     let resolvedIsMainRepo: boolean | undefined;
     let resolvedAutoCommit: boolean | undefined;
     let resolvedFolderId: string | undefined;
-    let resolvedToolType: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none' | undefined;
+    let resolvedToolType: AgentToolType | 'none' | undefined;
     let resolvedBaseCommit: string | undefined;
     let resolvedBaseBranch: string | undefined;
     let resolvedCommitMode: 'structured' | 'checkpoint' | 'disabled' | undefined;
@@ -735,7 +812,7 @@ export class SessionManager extends EventEmitter {
     isMainRepo?: boolean,
     autoCommit?: boolean,
     folderId?: string,
-    toolType?: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none',
+    toolType?: AgentToolType | 'none',
     baseCommit?: string,
     baseBranch?: string,
     commitMode?: 'structured' | 'checkpoint' | 'disabled',
@@ -887,6 +964,14 @@ export class SessionManager extends EventEmitter {
       dbUpdate.base_branch = update.baseBranch;
     }
 
+    if (update.folderId !== undefined) {
+      dbUpdate.folder_id = update.folderId;
+    }
+
+    if (update.isFavorite !== undefined) {
+      dbUpdate.is_favorite = update.isFavorite;
+    }
+
     if (update.toolType !== undefined) {
       dbUpdate.tool_type = update.toolType;
     }
@@ -1177,19 +1262,43 @@ export class SessionManager extends EventEmitter {
       console.error(`[SessionManager] Error stopping AI panels for session ${id}:`, error);
     }
 
-    // Close terminal session if it exists
-    await this.terminalSessionManager.closeTerminalSession(id);
-    
+    // Close the session's terminals, including tmux-backed ones
+    try {
+      await this.closeTerminalSession(id);
+    } catch (error) {
+      console.error(`[SessionManager] Error closing terminals for session ${id}:`, error);
+    }
+
     this.activeSessions.delete(id);
     this.terminalPanels.clearSession(id);
     this.emit('session-deleted', { id }); // Keep the same event name for frontend compatibility
   }
 
-  stopSession(id: string): void {
+  /**
+   * Bring an archived session back to the session list.
+   */
+  restoreSession(id: string): Session {
+    if (!this.db.restoreSession(id)) {
+      throw new Error(`Session ${id} not found`);
+    }
+    this.activeSessions.delete(id);
+    const session = this.getSession(id);
+    if (!session) throw new Error(`Session ${id} not found`);
+    this.emit('session-created', session);
+    return session;
+  }
+
+    stopSession(id: string): void {
     this.updateSession(id, { status: 'stopped' });
   }
 
   deleteSessionPermanently(id: string): void {
+    let tmuxSessionIds: string[] = [];
+    try {
+      tmuxSessionIds = this.getTmuxSessionIds(id);
+    } catch (error) {
+      console.error(`[SessionManager] Failed to look up tmux sessions for session ${id}:`, error);
+    }
     try {
       this.db.deleteSessionPermanently(id);
     } catch (error) {
@@ -1199,6 +1308,9 @@ export class SessionManager extends EventEmitter {
 
     this.activeSessions.delete(id);
     this.terminalPanels.clearSession(id);
+    for (const name of tmuxSessionIds) {
+      void this.terminalSessionManager.killTmuxSession(name);
+    }
     this.emit('session-deleted', { id });
   }
 
@@ -1497,189 +1609,6 @@ export class SessionManager extends EventEmitter {
     return null;
   }
 
-  getProjectBuildScript(sessionId: string): string[] | null {
-    const dbSession = this.getDbSession(sessionId);
-    if (dbSession?.project_id) {
-      const project = this.getProjectById(dbSession.project_id);
-      if (project?.build_script) {
-        // Split by newlines to get array of commands
-        return project.build_script.split('\n').filter(cmd => cmd.trim());
-      }
-    }
-    return null;
-  }
-
-  async runScript(sessionId: string, commands: string[], workingDirectory: string): Promise<void> {
-    // Stop any currently running script and wait for it to fully terminate
-    await this.stopRunningScript();
-
-    // Clear previous logs when starting a new run
-    cleanupSessionLogs(sessionId);
-
-    // Mark session as running
-    this.setSessionRunning(sessionId, true);
-    this.currentRunningSessionId = sessionId;
-
-    // Track in shared script execution tracker
-    scriptExecutionTracker.start('session', sessionId);
-    
-    // Join commands with && to run them sequentially
-    const command = commands.join(' && ');
-    
-    // Get enhanced shell PATH
-    const shellPath = getShellPath();
-    
-    // Get the user's default shell and command arguments
-    const { shell, args } = ShellDetector.getShellCommandArgs(command);
-    
-    // Spawn the process with its own process group for easier termination
-    this.runningScriptProcess = spawn(shell, args, {
-      cwd: workingDirectory,
-      stdio: 'pipe',
-      detached: true, // Create a new process group
-      env: {
-        ...process.env,
-        PATH: shellPath
-      }
-    });
-
-    // Handle output - send to logs instead of terminal
-    this.runningScriptProcess.stdout?.on('data', (data: Buffer) => {
-      const output = data.toString();
-      // Split by lines and add each as a log entry
-      const lines = output.split('\n').filter(line => line.trim());
-      lines.forEach(line => {
-        addSessionLog(sessionId, 'info', line, 'Application');
-      });
-      // Log output is now handled via addSessionLog above
-    });
-
-    this.runningScriptProcess.stderr?.on('data', (data: Buffer) => {
-      const output = data.toString();
-      // Split by lines and add each as a log entry
-      const lines = output.split('\n').filter(line => line.trim());
-      lines.forEach(line => {
-        addSessionLog(sessionId, 'error', line, 'Application');
-      });
-      // Log output is now handled via addSessionLog above
-    });
-
-    // Handle process exit
-    this.runningScriptProcess.on('exit', (code) => {
-      addSessionLog(sessionId, 'info', `Process exited with code: ${code}`, 'Application');
-
-      this.setSessionRunning(sessionId, false);
-      this.currentRunningSessionId = null;
-      this.runningScriptProcess = null;
-
-      // Update shared tracker
-      scriptExecutionTracker.stop('session', sessionId);
-    });
-
-    this.runningScriptProcess.on('error', (error) => {
-      addSessionLog(sessionId, 'error', `Error: ${error.message}`, 'Application');
-
-      this.setSessionRunning(sessionId, false);
-      this.currentRunningSessionId = null;
-      this.runningScriptProcess = null;
-
-      // Update shared tracker
-      scriptExecutionTracker.stop('session', sessionId);
-    });
-  }
-
-  async runBuildScript(sessionId: string, commands: string[], workingDirectory: string): Promise<{ success: boolean; output: string }> {
-    // Get enhanced shell PATH
-    const shellPath = getShellPath();
-    
-    // Add build start message to logs
-    const timestamp = new Date().toLocaleTimeString();
-    addSessionLog(sessionId, 'info', `🔨 BUILD SCRIPT RUNNING at ${timestamp}`, 'Build');
-    
-    // Show PATH information for debugging in logs
-    addSessionLog(sessionId, 'debug', `Using PATH: ${shellPath.split(':').slice(0, 5).join(':')}...`, 'Build');
-    
-    // Check if yarn is available
-    try {
-      const { stdout: yarnPath } = await this.execWithShellPath('which yarn', { cwd: workingDirectory });
-      if (yarnPath.trim()) {
-        addSessionLog(sessionId, 'debug', `yarn found at: ${yarnPath.trim()}`, 'Build');
-      }
-    } catch {
-      addSessionLog(sessionId, 'warn', `yarn not found in PATH`, 'Build');
-    }
-    
-    let allOutput = '';
-    let overallSuccess = true;
-    
-    // Run commands sequentially
-    for (const command of commands) {
-      if (command.trim()) {
-        console.log(`[SessionManager] Executing build command: ${command}`);
-        
-        // Add command to logs
-        addSessionLog(sessionId, 'info', `$ ${command}`, 'Build');
-        
-        try {
-          const { stdout, stderr } = await this.execWithShellPath(command, { cwd: workingDirectory });
-          
-          if (stdout) {
-            allOutput += stdout;
-            // Split stdout by lines and add to logs
-            const lines = stdout.split('\n').filter(line => line.trim());
-            lines.forEach(line => {
-              addSessionLog(sessionId, 'info', line, 'Build');
-            });
-          }
-          if (stderr) {
-            allOutput += stderr;
-            // Split stderr by lines and add to logs
-            const lines = stderr.split('\n').filter(line => line.trim());
-            lines.forEach(line => {
-              addSessionLog(sessionId, 'warn', line, 'Build');
-            });
-          }
-        } catch (cmdError: unknown) {
-          console.error(`[SessionManager] Build command failed: ${command}`, cmdError);
-          const error = cmdError as { stderr?: string; stdout?: string; message?: string };
-          const errorMessage = error.stderr || error.stdout || error.message || String(cmdError);
-          allOutput += errorMessage;
-          
-          addSessionLog(sessionId, 'error', `Command failed: ${command}`, 'Build');
-          addSessionLog(sessionId, 'error', errorMessage, 'Build');
-          
-          overallSuccess = false;
-          // Continue with next command instead of stopping entirely
-        }
-      }
-    }
-    
-    // Add completion message to logs
-    const buildEndTimestamp = new Date().toLocaleTimeString();
-    if (overallSuccess) {
-      addSessionLog(sessionId, 'info', `✅ BUILD COMPLETED at ${buildEndTimestamp}`, 'Build');
-    } else {
-      addSessionLog(sessionId, 'error', `❌ BUILD FAILED at ${buildEndTimestamp}`, 'Build');
-    }
-    
-    return { success: overallSuccess, output: allOutput };
-  }
-  
-  private async execWithShellPath(command: string, options?: { cwd?: string }): Promise<{ stdout: string; stderr: string }> {
-    const { exec } = require('child_process');
-    const { promisify } = require('util');
-    const execAsync = promisify(exec);
-    
-    const shellPath = getShellPath();
-    return execAsync(command, {
-      ...options,
-      env: {
-        ...process.env,
-        PATH: shellPath
-      }
-    });
-  }
-
   addScriptOutput(sessionId: string, data: string, type: 'stdout' | 'stderr' = 'stdout'): void {
     // Send output to logs instead of terminal
     const lines = data.split('\n').filter(line => line.trim());
@@ -1689,263 +1618,15 @@ export class SessionManager extends EventEmitter {
     });
   }
 
-  /**
-   * Recursively gets all descendant PIDs of a parent process.
-   * This handles deeply nested process trees where processes spawn children
-   * that spawn their own children, etc.
-   * 
-   * @param parentPid The parent process ID
-   * @returns Array of all descendant PIDs
-   */
-  private getAllDescendantPids(parentPid: number): number[] {
-    const descendants: number[] = [];
-    const platform = os.platform();
-    
-    try {
-      if (platform === 'win32') {
-        // On Windows, use wmic to get process tree
-        const output = execSync(`wmic process where (ParentProcessId=${parentPid}) get ProcessId`, { encoding: 'utf8' });
-        const lines = output.split('\n').filter(line => line.trim());
-        for (let i = 1; i < lines.length; i++) { // Skip header
-          const pid = parseInt(lines[i].trim());
-          if (!isNaN(pid)) {
-            descendants.push(pid);
-            // Recursively get children of this process
-            descendants.push(...this.getAllDescendantPids(pid));
-          }
-        }
-      } else {
-        // On Unix-like systems, use ps to get children
-        const output = execSync(`ps -o pid= --ppid ${parentPid}`, { encoding: 'utf8' });
-        const pids = output.split('\n')
-          .map(line => parseInt(line.trim()))
-          .filter(pid => !isNaN(pid));
-        
-        for (const pid of pids) {
-          descendants.push(pid);
-          // Recursively get children of this process
-          descendants.push(...this.getAllDescendantPids(pid));
-        }
-      }
-    } catch (error) {
-      // Command might fail if no children exist, which is fine
-    }
-    
-    return descendants;
-  }
-
-  /**
-   * Stops the currently running script and ensures all child processes are terminated.
-   * This method uses multiple approaches to ensure complete cleanup:
-   * 1. Gets all descendant PIDs recursively before killing
-   * 2. Uses platform-specific commands (taskkill on Windows, kill on Unix)
-   * 3. Kills the process group (Unix) or process tree (Windows)
-   * 4. Kills individual descendant processes as a fallback
-   * 5. Uses graceful SIGTERM first, then forceful SIGKILL
-   * @returns Promise that resolves when the script has been stopped
-   */
-  stopRunningScript(): Promise<void> {
-    return new Promise((resolve) => {
-      if (!this.runningScriptProcess || !this.currentRunningSessionId) {
-        resolve();
-        return;
-      }
-
-      const sessionId = this.currentRunningSessionId;
-      const process = this.runningScriptProcess;
-
-      // Mark as closing in shared tracker
-      scriptExecutionTracker.markClosing('session', sessionId);
-
-      // Immediately clear references to prevent new output
-      this.currentRunningSessionId = null;
-      this.runningScriptProcess = null;
-      
-      // Kill the entire process group to ensure all child processes are terminated
+  async cleanup(options?: { fast?: boolean }): Promise<void> {
+    // Save scrollback before the shells go away; tmux-backed terminals keep running
+    for (const terminalId of this.terminalSessionManager.getTerminalIds()) {
       try {
-        if (process.pid) {
-          // First, get all descendant PIDs before we start killing
-          const descendantPids = this.getAllDescendantPids(process.pid);
-          
-          // Add a simple log entry for stopping the script
-          addSessionLog(sessionId, 'info', `Stopping application process...`, 'Application');
-          
-          const platform = os.platform();
-          
-          if (platform === 'win32') {
-            // On Windows, use taskkill to terminate the process tree
-            addSessionLog(sessionId, 'info', `[Using taskkill to terminate process tree ${process.pid}]`, 'System');
-            
-            exec(`taskkill /F /T /PID ${process.pid}`, (error) => {
-              if (error) {
-                console.warn(`Error killing Windows process tree: ${error.message}`);
-                addSessionLog(sessionId, 'error', `[Error terminating process tree: ${error.message}]`, 'System');
-                
-                // Fallback: kill individual processes
-                try {
-                  process.kill('SIGKILL');
-                } catch (killError) {
-                  console.warn('Fallback kill failed:', killError);
-                }
-                
-                // Kill descendants individually
-                let killedCount = 0;
-                let processedCount = 0;
-                
-                if (descendantPids.length === 0) {
-                  // No descendants, we're done
-                  this.finishStopScript(sessionId);
-                  resolve();
-                  return;
-                }
-                
-                descendantPids.forEach(pid => {
-                  exec(`taskkill /F /PID ${pid}`, (err) => {
-                    if (!err) killedCount++;
-                    processedCount++;
-                    
-                    // Report after all attempts
-                    if (processedCount === descendantPids.length) {
-                      addSessionLog(sessionId, 'info', `[Terminated ${killedCount} processes using fallback method]`, 'System');
-                      this.finishStopScript(sessionId);
-                      resolve();
-                    }
-                  });
-                });
-              } else {
-                addSessionLog(sessionId, 'info', '[Successfully terminated process tree]', 'System');
-                this.finishStopScript(sessionId);
-                resolve();
-              }
-            });
-          } else {
-            // On Unix-like systems (macOS, Linux)
-            // First, try SIGTERM for graceful shutdown
-            addSessionLog(sessionId, 'info', `[Sending SIGTERM to process ${process.pid} and its group]`, 'System');
-            
-            try {
-              process.kill('SIGTERM');
-            } catch (error) {
-              console.warn('SIGTERM failed:', error);
-            }
-            
-            // Kill the entire process group using negative PID
-            exec(`kill -TERM -${process.pid}`, (error) => {
-              if (error) {
-                console.warn(`Error sending SIGTERM to process group: ${error.message}`);
-              }
-            });
-            
-            // Give processes a chance to clean up gracefully
-            addSessionLog(sessionId, 'info', '[Waiting 10 seconds for graceful shutdown...]', 'System');
-            
-            // Use a shorter timeout for faster cleanup
-            setTimeout(() => {
-              addSessionLog(sessionId, 'info', '\n[Grace period expired, using forceful termination]', 'System');
-              
-              // Now forcefully kill the main process
-              try {
-                process.kill('SIGKILL');
-                addSessionLog(sessionId, 'info', `[Sent SIGKILL to process ${process.pid}]`, 'System');
-              } catch (error) {
-                // Process might already be dead
-                addSessionLog(sessionId, 'info', `[Process ${process.pid} already terminated]`, 'System');
-              }
-              
-              // Kill the process group with SIGKILL
-              exec(`kill -9 -${process.pid}`, (error) => {
-                if (error) {
-                  console.warn(`Error sending SIGKILL to process group: ${error.message}`);
-                  addSessionLog(sessionId, 'warn', `[Warning: Could not kill process group: ${error.message}]`, 'System');
-                } else {
-                  addSessionLog(sessionId, 'info', `[Sent SIGKILL to process group ${process.pid}]`, 'System');
-                }
-              });
-              
-              // Kill all known descendants individually to be sure
-              let killedCount = 0;
-              let alreadyDeadCount = 0;
-              
-              descendantPids.forEach(pid => {
-                exec(`kill -9 ${pid}`, (error) => {
-                  if (error) {
-                    alreadyDeadCount++;
-                  } else {
-                    killedCount++;
-                  }
-                  
-                  // Report results after processing all descendants
-                  if (killedCount + alreadyDeadCount === descendantPids.length) {
-                    if (killedCount > 0) {
-                      addSessionLog(sessionId, 'info', `[Forcefully terminated ${killedCount} child process${killedCount > 1 ? 'es' : ''}]`, 'System');
-                    }
-                    if (alreadyDeadCount > 0) {
-                      addSessionLog(sessionId, 'info', `[${alreadyDeadCount} process${alreadyDeadCount > 1 ? 'es' : ''} had already terminated gracefully]`, 'System');
-                    }
-                  }
-                });
-              });
-              
-              // Final cleanup attempt using pkill
-              exec(`pkill -9 -P ${process.pid}`, () => {
-                // Ignore errors - processes might already be dead
-              });
-              
-              // Check for zombie processes after a short delay
-              setTimeout(() => {
-                if (process.pid) {
-                  const remainingPids = this.getAllDescendantPids(process.pid);
-                  if (remainingPids.length > 0) {
-                    addSessionLog(sessionId, 'warn', `[WARNING: ${remainingPids.length} zombie process${remainingPids.length > 1 ? 'es' : ''} could not be terminated: ${remainingPids.join(', ')}]`, 'System');
-                    addSessionLog(sessionId, 'error', `[Please manually kill these processes using: kill -9 ${remainingPids.join(' ')}]`, 'System');
-                  } else {
-                    addSessionLog(sessionId, 'info', '\n[All processes terminated successfully]', 'System');
-                  }
-                }
-                this.finishStopScript(sessionId);
-                resolve();
-              }, 500);
-            }, 2000); // Reduced from 10 seconds to 2 seconds for faster cleanup
-          }
-        } else {
-          // No process PID
-          this.finishStopScript(sessionId);
-          resolve();
-        }
+        await this.terminalPanels.persistScrollback(terminalId);
       } catch (error) {
-        console.warn('Error killing script process:', error);
-        this.finishStopScript(sessionId);
-        resolve();
+        console.warn(`[SessionManager] Failed to save terminal scrollback for ${terminalId}:`, error);
       }
-    });
-  }
-
-  private finishStopScript(sessionId: string): void {
-    // Update session state
-    this.setSessionRunning(sessionId, false);
-
-    // Update shared tracker
-    scriptExecutionTracker.stop('session', sessionId);
-
-    // Emit a final message to indicate the script was stopped
-    addSessionLog(sessionId, 'info', '\n[Script stopped by user]', 'System');
-  }
-
-  private setSessionRunning(sessionId: string, isRunning: boolean): void {
-    const session = this.activeSessions.get(sessionId);
-    if (session) {
-      session.isRunning = isRunning;
-      this.emit('session-updated', session);
     }
-  }
-
-  getCurrentRunningSessionId(): string | null {
-    // Use shared tracker for consistency
-    return scriptExecutionTracker.getRunningScriptId('session') as string | null;
-  }
-
-  async cleanup(options?: { fast?: boolean }): Promise<void> {
-    this.stopRunningScript();
     await this.terminalSessionManager.cleanup(options);
   }
 
@@ -1966,24 +1647,18 @@ export class SessionManager extends EventEmitter {
       throw new Error('Session not found');
     }
 
-    // Don't allow running commands while a script is active
-    if (this.currentRunningSessionId === sessionId && this.runningScriptProcess) {
-      throw new Error('Cannot run terminal commands while a script is running');
-    }
-
     const worktreePath = session.worktreePath;
 
     try {
-      await this.ensureTerminalPanel(sessionId);
+      const panel = await this.ensureTerminalPanel(sessionId);
       // Create terminal session if it doesn't exist
-      if (!this.terminalSessionManager.hasSession(sessionId)) {
-        await this.terminalSessionManager.createTerminalSession(sessionId, worktreePath);
+      if (await this.startTerminal(panel, worktreePath)) {
         // Give the terminal a moment to initialize
         await new Promise(resolve => setTimeout(resolve, 100));
       }
 
       // Send the command to the persistent terminal session
-      this.terminalSessionManager.sendCommand(sessionId, command);
+      this.terminalSessionManager.sendCommand(panel.id, command);
     } catch (error) {
       // Don't write error to terminal for archived sessions
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -1994,7 +1669,7 @@ export class SessionManager extends EventEmitter {
     }
   }
 
-  async sendTerminalInput(sessionId: string, data: string): Promise<void> {
+  async sendTerminalInput(sessionId: string, data: string, panelId?: string): Promise<void> {
     let session = this.activeSessions.get(sessionId);
     let worktreePath: string;
     
@@ -2016,16 +1691,15 @@ export class SessionManager extends EventEmitter {
     }
 
     try {
-      await this.ensureTerminalPanel(sessionId);
-      // Create terminal session if it doesn't exist
-      if (!this.terminalSessionManager.hasSession(sessionId)) {
-        await this.terminalSessionManager.createTerminalSession(sessionId, worktreePath);
+      const panel = await this.resolveTerminalPanel(sessionId, panelId);
+      // Create terminal session if it doesn't exist (or restart one whose shell exited)
+      if (await this.startTerminal(panel, worktreePath)) {
         // Give the terminal a moment to initialize
         await new Promise(resolve => setTimeout(resolve, 100));
       }
 
       // Send the raw input to the persistent terminal session
-      this.terminalSessionManager.sendInput(sessionId, data);
+      this.terminalSessionManager.sendInput(panel.id, data);
     } catch (error) {
       // Don't write error to terminal for archived sessions
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -2036,19 +1710,28 @@ export class SessionManager extends EventEmitter {
     }
   }
 
+  /**
+   * Close every terminal of a session, ending tmux-backed ones as well.
+   */
   async closeTerminalSession(sessionId: string): Promise<void> {
-    await this.terminalSessionManager.closeTerminalSession(sessionId);
+    const tmuxSessionIds = this.getTmuxSessionIds(sessionId);
+    await this.terminalSessionManager.closeSessionTerminals(sessionId);
+    await Promise.all(tmuxSessionIds.map(name => this.terminalSessionManager.killTmuxSession(name)));
   }
 
   hasTerminalSession(sessionId: string): boolean {
-    return this.terminalSessionManager.hasSession(sessionId);
+    return this.terminalSessionManager.getTerminalIds(sessionId)
+      .some(terminalId => this.terminalSessionManager.hasSession(terminalId));
   }
 
-  resizeTerminal(sessionId: string, cols: number, rows: number): void {
-    this.terminalSessionManager.resizeTerminal(sessionId, cols, rows);
+  resizeTerminal(sessionId: string, cols: number, rows: number, panelId?: string): void {
+    const terminalId = panelId ?? this.terminalPanels.getPanel(sessionId)?.id;
+    if (terminalId) {
+      this.terminalSessionManager.resizeTerminal(terminalId, cols, rows);
+    }
   }
 
-  async preCreateTerminalSession(sessionId: string): Promise<void> {
+  async preCreateTerminalSession(sessionId: string, panelId?: string): Promise<void> {
     let session = this.activeSessions.get(sessionId);
     let worktreePath: string;
     
@@ -2070,11 +1753,9 @@ export class SessionManager extends EventEmitter {
     }
 
     try {
-      const panel = await this.ensureTerminalPanel(sessionId);
+      const panel = await this.resolveTerminalPanel(sessionId, panelId);
       // Create terminal session if it doesn't exist
-      if (!this.terminalSessionManager.hasSession(sessionId)) {
-        await this.terminalSessionManager.createTerminalSession(sessionId, worktreePath);
-      }
+      await this.startTerminal(panel, worktreePath);
       if (panel) {
         const customState = (panel.state?.customState || {}) as Record<string, unknown>;
         await panelManager.updatePanel(panel.id, {
@@ -2093,4 +1774,10 @@ export class SessionManager extends EventEmitter {
       // Don't throw - this is a best-effort optimization
     }
   }
+
+  private getTmuxSessionIds(sessionId: string): string[] {
+    return this.terminalPanels.getPanels(sessionId)
+      .map(panel => (panel.state?.customState as TerminalPanelState | undefined)?.tmuxSessionId)
+      .filter((name): name is string => Boolean(name));
+  }
 }
@@ -3,18 +3,30 @@ import * as pty from '@homebridge/node-pty-prebuilt-multiarch';
 import { getShellPath } from '../../infrastructure/command/shellPath';
 import { ShellDetector } from '../../infrastructure/command/shellDetector';
 import * as os from 'os';
-import { exec } from 'child_process';
+import { exec, execSync } from 'child_process';
 import { promisify } from 'util';
 
 interface TerminalSession {
   pty: pty.IPty;
+  terminalId: string;
   sessionId: string;
   cwd: string;
+  tmuxSessionName?: string;
   exited?: boolean;
 }
 
+export interface CreateTerminalOptions {
+  /** Run the shell inside this tmux session, attaching when it already exists. */
+  tmuxSessionName?: string;
+}
+
+/**
+ * PTYs keyed by terminal id (the terminal panel id), so a session can have
+ * several shells open in its worktree at once.
+ */
 export class TerminalManager extends EventEmitter {
   private terminalSessions: Map<string, TerminalSession> = new Map();
+  private tmuxAvailable: boolean | null = null;
   
   constructor() {
     super();
@@ -22,16 +34,16 @@ export class TerminalManager extends EventEmitter {
     this.setMaxListeners(50);
   }
 
-  async createTerminalSession(sessionId: string, worktreePath: string): Promise<void> {
+  async createTerminalSession(terminalId: string, sessionId: string, worktreePath: string, options?: CreateTerminalOptions): Promise<void> {
     // Check if session already exists and is not exited
-    const existingSession = this.terminalSessions.get(sessionId);
+    const existingSession = this.terminalSessions.get(terminalId);
     if (existingSession && !existingSession.exited) {
       return;
     }
 
     // If session exists but exited, clean it up first
     if (existingSession?.exited) {
-      this.terminalSessions.delete(sessionId);
+      this.terminalSessions.delete(terminalId);
     }
 
     // For Linux, use the current PATH to avoid slow shell detection
@@ -40,10 +52,30 @@ export class TerminalManager extends EventEmitter {
     
     // Get the user's default shell
     const shellInfo = ShellDetector.getDefaultShell();
-    console.log(`Using shell: ${shellInfo.path} (${shellInfo.name})`);
+    let file = shellInfo.path;
+    let args = shellInfo.args || [];
+    let tmuxSessionName: string | undefined;
+    if (options?.tmuxSessionName) {
+      if (this.isTmuxAvailable(shellPath)) {
+        tmuxSessionName = options.tmuxSessionName;
+        file = 'tmux';
+        args = ['new-session', '-A', '-s', tmuxSessionName, '-c', worktreePath];
+        console.log(`Using tmux session: ${tmuxSessionName}`);
+      } else {
+        this.emit('terminal-output', {
+          terminalId,
+          sessionId,
+          data: '\r\n[tmux was not found on PATH; this terminal will not survive a restart]\r\n',
+          type: 'stdout',
+        });
+      }
+    }
+    if (!tmuxSessionName) {
+      console.log(`Using shell: ${shellInfo.path} (${shellInfo.name})`);
+    }
     
     // Create a new PTY instance with proper terminal settings
-    const ptyProcess = pty.spawn(shellInfo.path, shellInfo.args || [], {
+    const ptyProcess = pty.spawn(file, args, {
       name: 'xterm-256color',  // Better terminal emulation
       cwd: worktreePath,
       cols: 80,
@@ -59,33 +91,35 @@ export class TerminalManager extends EventEmitter {
     });
 
     // Store the session
-    this.terminalSessions.set(sessionId, {
+    this.terminalSessions.set(terminalId, {
       pty: ptyProcess,
+      terminalId,
       sessionId,
       cwd: worktreePath,
+      tmuxSessionName,
     });
 
     // Handle data from the PTY
     ptyProcess.onData((data: string) => {
-      this.emit('terminal-output', { sessionId, data, type: 'stdout' });
+      this.emit('terminal-output', { terminalId, sessionId, data, type: 'stdout' });
     });
 
     // Handle PTY exit
     ptyProcess.onExit(({ exitCode, signal }: { exitCode: number; signal?: number }) => {
-      console.log(`Terminal session ${sessionId} exited with code ${exitCode}, signal ${signal}`);
-      const session = this.terminalSessions.get(sessionId);
-      if (session) {
-        session.exited = true;
-      }
-      this.emit('terminal-exit', { sessionId, exitCode, signal });
+      console.log(`Terminal ${terminalId} (session ${sessionId}) exited with code ${exitCode}, signal ${signal}`);
+      const session = this.terminalSessions.get(terminalId);
+      // Terminals closed through closeTerminalSession are already gone from the map
+      if (!session || session.pty !== ptyProcess) return;
+      session.exited = true;
+      this.emit('terminal-exit', { terminalId, sessionId, exitCode, signal });
     });
 
     // Don't send any initial input - let the user interact with the terminal
     // This prevents unnecessary terminal output and activity indicators
   }
 
-  sendCommand(sessionId: string, command: string): void {
-    const session = this.terminalSessions.get(sessionId);
+  sendCommand(terminalId: string, command: string): void {
+    const session = this.terminalSessions.get(terminalId);
     if (!session) {
       throw new Error('Terminal session not found');
     }
@@ -97,8 +131,8 @@ export class TerminalManager extends EventEmitter {
     session.pty.write(command + '\r');
   }
 
-  sendInput(sessionId: string, data: string): void {
-    const session = this.terminalSessions.get(sessionId);
+  sendInput(terminalId: string, data: string): void {
+    const session = this.terminalSessions.get(terminalId);
     if (!session) {
       throw new Error('Terminal session not found');
     }
@@ -110,17 +144,21 @@ export class TerminalManager extends EventEmitter {
     session.pty.write(data);
   }
 
-  resizeTerminal(sessionId: string, cols: number, rows: number): void {
-    const session = this.terminalSessions.get(sessionId);
-    if (session) {
+  resizeTerminal(terminalId: string, cols: number, rows: number): void {
+    const session = this.terminalSessions.get(terminalId);
+    if (session && !session.exited) {
       session.pty.resize(cols, rows);
     }
   }
 
-  async closeTerminalSession(sessionId: string, options?: { fast?: boolean }): Promise<void> {
-    const session = this.terminalSessions.get(sessionId);
+  /**
+   * Stop a terminal's PTY. A tmux-backed terminal only loses its client here,
+   * so its processes keep running until killTmuxSession is called.
+   */
+  async closeTerminalSession(terminalId: string, options?: { fast?: boolean }): Promise<void> {
+    const session = this.terminalSessions.get(terminalId);
     if (session) {
-      this.terminalSessions.delete(sessionId);
+      this.terminalSessions.delete(terminalId);
 
       try {
         const pid = session.pty.pid;
@@ -137,31 +175,72 @@ export class TerminalManager extends EventEmitter {
           const success = await this.killProcessTree(pid, options);
           if (!success) {
             this.emit('zombie-processes-detected', {
-              sessionId,
+              sessionId: session.sessionId,
               message: `Warning: Some child processes could not be terminated. Check system process list.`
             });
           }
         }
       } catch (error) {
-        console.warn(`Error killing terminal session ${sessionId}:`, error);
+        console.warn(`Error killing terminal ${terminalId}:`, error);
       }
     }
   }
 
-  hasSession(sessionId: string): boolean {
-    const session = this.terminalSessions.get(sessionId);
+  async closeSessionTerminals(sessionId: string, options?: { fast?: boolean }): Promise<void> {
+    await Promise.all(this.getTerminalIds(sessionId).map(terminalId => this.closeTerminalSession(terminalId, options)));
+  }
+
+  hasSession(terminalId: string): boolean {
+    const session = this.terminalSessions.get(terminalId);
     return session !== undefined && !session.exited;
   }
 
+  /**
+   * Ids of the terminals with a PTY for a session, running or exited.
+   */
+  getTerminalIds(sessionId?: string): string[] {
+    return [...this.terminalSessions.values()]
+      .filter(session => sessionId === undefined || session.sessionId === sessionId)
+      .map(session => session.terminalId);
+  }
+
+  async killTmuxSession(name: string): Promise<void> {
+    if (!this.isTmuxAvailable()) return;
+    try {
+      await promisify(exec)(`tmux kill-session -t ${JSON.stringify(`=${name}`)}`, {
+        env: { ...process.env, PATH: process.platform === 'linux' ? (process.env.PATH || '') : getShellPath() },
+      });
+    } catch {
+      // Session already gone
+    }
+  }
+
   async cleanup(options?: { fast?: boolean }): Promise<void> {
     // Close all terminal sessions
     const closePromises = [];
-    for (const sessionId of this.terminalSessions.keys()) {
-      closePromises.push(this.closeTerminalSession(sessionId, options));
+    for (const terminalId of this.terminalSessions.keys()) {
+      closePromises.push(this.closeTerminalSession(terminalId, options));
     }
     await Promise.all(closePromises);
   }
 
+  private isTmuxAvailable(shellPath?: string): boolean {
+    if (process.platform === 'win32') return false;
+    if (this.tmuxAvailable === null) {
+      try {
+        execSync('tmux -V', {
+          stdio: 'ignore',
+          timeout: 3000,
+          env: { ...process.env, PATH: shellPath ?? (process.platform === 'linux' ? (process.env.PATH || '') : getShellPath()) },
+        });
+        this.tmuxAvailable = true;
+      } catch {
+        this.tmuxAvailable = false;
+      }
+    }
+    return this.tmuxAvailable;
+  }
+
   /**
    * Get all descendant PIDs of a parent process recursively
    * This is critical for ensuring all child processes are killed
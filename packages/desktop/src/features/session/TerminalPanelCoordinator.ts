@@ -1,9 +1,42 @@
-import type { ToolPanel } from '@snowtree/core/types/panels';
+import type { TerminalPanelState, ToolPanel } from '@snowtree/core/types/panels';
 import type { DatabaseService } from '../../infrastructure/database/database';
+import type { SessionOutput } from '../../infrastructure/database/models';
 import { panelManager as defaultPanelManager } from '../panels/PanelManager';
 
 type TerminalOutputType = 'stdout' | 'stderr' | 'system' | 'json' | 'error';
 
+export interface CreateTerminalPanelOptions {
+  title?: string;
+  /** Back the terminal with a tmux session so its processes survive a restart. */
+  tmux?: boolean;
+}
+
+export const DEFAULT_TERMINAL_SCROLLBACK_LINES = 10000;
+
+/**
+ * Keep the last `maxLines` lines of a terminal transcript.
+ */
+export function trimScrollback(data: string, maxLines = DEFAULT_TERMINAL_SCROLLBACK_LINES): string {
+  let index = data.length;
+  for (let lines = 0; lines < maxLines; lines++) {
+    index = data.lastIndexOf('\n', index - 1);
+    if (index <= 0) return data;
+  }
+  return data.slice(index + 1);
+}
+
+const getScrollback = (state: TerminalPanelState): string => {
+  const buffer = state.scrollbackBuffer;
+  if (Array.isArray(buffer)) return buffer.join('');
+  return typeof buffer === 'string' ? buffer : '';
+};
+
+const terminalNumber = (title: string): number => {
+  if (title === 'Terminal') return 1;
+  const match = /^Terminal (\d+)$/.exec(title);
+  return match ? Number(match[1]) : 0;
+};
+
 export class TerminalPanelCoordinator {
   private panelIdBySession = new Map<string, string>();
 
@@ -28,26 +61,56 @@ export class TerminalPanelCoordinator {
     return terminalPanel;
   }
 
-  async ensurePanel(sessionId: string, worktreePath?: string): Promise<ToolPanel> {
+  getPanels(sessionId: string): ToolPanel[] {
+    return this.panels.getPanelsForSession(sessionId).filter(panel => panel.type === 'terminal');
+  }
+
+  /**
+   * Look up a terminal panel by id, making sure it belongs to the session.
+   */
+  getPanelById(sessionId: string, panelId: string): ToolPanel | null {
+    const panel = this.panels.getPanel(panelId);
+    if (!panel || panel.type !== 'terminal' || panel.sessionId !== sessionId) return null;
+    return panel;
+  }
+
+  async ensurePanel(sessionId: string, worktreePath?: string, options?: CreateTerminalPanelOptions): Promise<ToolPanel> {
     const existing = this.getPanel(sessionId);
     if (existing) return existing;
 
-    const panel = await this.panels.createPanel({
+    const panel = await this.createPanel(sessionId, worktreePath, { ...options, title: options?.title ?? 'Terminal' });
+    this.panelIdBySession.set(sessionId, panel.id);
+    return panel;
+  }
+
+  /**
+   * Add another terminal to the session, named after the next free number.
+   */
+  async createPanel(sessionId: string, worktreePath?: string, options?: CreateTerminalPanelOptions): Promise<ToolPanel> {
+    let title = options?.title?.trim();
+    if (!title) {
+      const next = Math.max(0, ...this.getPanels(sessionId).map(panel => terminalNumber(panel.title))) + 1;
+      title = next === 1 ? 'Terminal' : `Terminal ${next}`;
+    }
+
+    const initialState: TerminalPanelState = {
+      isInitialized: false,
+      cwd: worktreePath
+    };
+    if (options?.tmux) {
+      initialState.tmuxSessionId = `snowtree-${sessionId.slice(0, 8)}-${Date.now().toString(36)}`;
+    }
+
+    return this.panels.createPanel({
       sessionId,
       type: 'terminal',
-      title: 'Terminal',
-      initialState: {
-        isInitialized: false,
-        cwd: worktreePath
-      }
+      title,
+      initialState
     }, { activate: false });
-
-    this.panelIdBySession.set(sessionId, panel.id);
-    return panel;
   }
 
-  recordOutput(sessionId: string, type: TerminalOutputType, data: string): { panelId?: string; outputId?: number } {
-    const terminalPanel = this.getPanel(sessionId);
+  recordOutput(sessionId: string, type: TerminalOutputType, data: string, panelId?: string): { panelId?: string; outputId?: number } {
+    const terminalPanel = panelId ? this.getPanelById(sessionId, panelId) : this.getPanel(sessionId);
     if (!terminalPanel) {
       this.db.addSessionOutput(sessionId, type, data);
       return {};
@@ -63,6 +126,62 @@ export class TerminalPanelCoordinator {
     }
   }
 
+  /**
+   * Fold the output recorded since the last save into the panel's
+   * scrollbackBuffer, then drop those rows. Called when a terminal's shell
+   * exits and before the app quits.
+   */
+  async persistScrollback(panelId: string): Promise<void> {
+    const panel = this.panels.getPanel(panelId);
+    if (!panel || panel.type !== 'terminal') return;
+
+    const outputs = this.db.getPanelOutputs(panelId);
+    if (outputs.length === 0) return;
+
+    const customState = (panel.state.customState || {}) as TerminalPanelState;
+    const scrollback = trimScrollback(
+      getScrollback(customState) + outputs.map(output => output.data).join(''),
+      customState.outputSizeLimit ?? DEFAULT_TERMINAL_SCROLLBACK_LINES
+    );
+    await this.panels.updatePanel(panelId, {
+      state: {
+        ...panel.state,
+        customState: {
+          ...customState,
+          scrollbackBuffer: scrollback,
+          lastActivityTime: new Date().toISOString()
+        }
+      }
+    });
+    this.db.clearPanelOutputs(panelId);
+  }
+
+  /**
+   * Output to replay when a terminal is opened: the saved scrollback first,
+   * then whatever was recorded since.
+   */
+  getHistory(panelId: string, limit?: number): SessionOutput[] {
+    const outputs = this.db.getPanelOutputs(panelId, limit);
+    const panel = this.panels.getPanel(panelId);
+    if (!panel || panel.type !== 'terminal') return outputs;
+
+    const customState = (panel.state.customState || {}) as TerminalPanelState;
+    const scrollback = getScrollback(customState);
+    if (!scrollback) return outputs;
+
+    return [
+      {
+        id: 0,
+        session_id: panel.sessionId,
+        panel_id: panelId,
+        type: 'stdout',
+        data: scrollback,
+        timestamp: customState.lastActivityTime ?? panel.metadata.createdAt,
+      },
+      ...outputs,
+    ];
+  }
+
   clearSession(sessionId: string): void {
     this.panelIdBySession.delete(sessionId);
   }
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { TerminalPanelCoordinator } from '../TerminalPanelCoordinator';
+import { TerminalPanelCoordinator, trimScrollback } from '../TerminalPanelCoordinator';
 import type { ToolPanel } from '@snowtree/core/types/panels';
 import type { DatabaseService } from '../../../infrastructure/database/database';
 
@@ -14,19 +14,32 @@ const buildPanel = (overrides?: Partial<ToolPanel>): ToolPanel => ({
 });
 
 describe('TerminalPanelCoordinator', () => {
-  let db: { addSessionOutput: ReturnType<typeof vi.fn>; addPanelOutput: ReturnType<typeof vi.fn> };
-  let panels: { getPanel: ReturnType<typeof vi.fn>; getPanelsForSession: ReturnType<typeof vi.fn>; createPanel: ReturnType<typeof vi.fn> };
+  let db: {
+    addSessionOutput: ReturnType<typeof vi.fn>;
+    addPanelOutput: ReturnType<typeof vi.fn>;
+    getPanelOutputs: ReturnType<typeof vi.fn>;
+    clearPanelOutputs: ReturnType<typeof vi.fn>;
+  };
+  let panels: {
+    getPanel: ReturnType<typeof vi.fn>;
+    getPanelsForSession: ReturnType<typeof vi.fn>;
+    createPanel: ReturnType<typeof vi.fn>;
+    updatePanel: ReturnType<typeof vi.fn>;
+  };
   let coordinator: TerminalPanelCoordinator;
 
   beforeEach(() => {
     db = {
       addSessionOutput: vi.fn(),
       addPanelOutput: vi.fn(),
+      getPanelOutputs: vi.fn().mockReturnValue([]),
+      clearPanelOutputs: vi.fn(),
     };
     panels = {
       getPanel: vi.fn(),
       getPanelsForSession: vi.fn(),
       createPanel: vi.fn(),
+      updatePanel: vi.fn().mockResolvedValue(undefined),
     };
     coordinator = new TerminalPanelCoordinator(db as unknown as DatabaseService, panels as any);
   });
@@ -115,4 +128,63 @@ describe('TerminalPanelCoordinator', () => {
     expect(panels.getPanel).not.toHaveBeenCalled();
     expect(panels.getPanelsForSession).toHaveBeenCalledWith('s1');
   });
+
+  it('numbers additional terminals and backs them with tmux on request', async () => {
+    panels.getPanelsForSession.mockReturnValue([
+      buildPanel(),
+      buildPanel({ id: 'p3', title: 'Terminal 3' }),
+      buildPanel({ id: 'c1', type: 'claude', title: 'Claude' }),
+    ]);
+    panels.createPanel.mockResolvedValue(buildPanel({ id: 'p4' }));
+
+    await coordinator.createPanel('s1', '/tmp/worktree', { tmux: true });
+
+    const [request] = panels.createPanel.mock.calls[0];
+    expect(request.title).toBe('Terminal 4');
+    expect(request.initialState.tmuxSessionId).toMatch(/^snowtree-s1-/);
+  });
+
+  it('records output on the given terminal of the session', () => {
+    const second = buildPanel({ id: 'p2', title: 'Terminal 2' });
+    panels.getPanel.mockImplementation((id: string) => (id === 'p2' ? second : null));
+    db.addPanelOutput.mockReturnValue(7);
+
+    expect(coordinator.recordOutput('s1', 'stdout', 'hi', 'p2')).toEqual({ panelId: 'p2', outputId: 7 });
+    expect(db.addPanelOutput).toHaveBeenCalledWith('p2', 'stdout', 'hi');
+
+    expect(coordinator.recordOutput('s2', 'stdout', 'hi', 'p2')).toEqual({});
+    expect(db.addSessionOutput).toHaveBeenCalledWith('s2', 'stdout', 'hi');
+  });
+
+  it('folds recorded output into the saved scrollback', async () => {
+    const panel = buildPanel({ state: { isActive: false, customState: { scrollbackBuffer: 'old\n', outputSizeLimit: 3 } } });
+    panels.getPanel.mockReturnValue(panel);
+    db.getPanelOutputs.mockReturnValue([
+      { id: 1, session_id: 's1', panel_id: 'p1', type: 'stdout', data: 'one\n', timestamp: 'now' },
+      { id: 2, session_id: 's1', panel_id: 'p1', type: 'stdout', data: 'two\n$ ', timestamp: 'now' },
+    ]);
+
+    await coordinator.persistScrollback('p1');
+
+    const [, update] = panels.updatePanel.mock.calls[0];
+    expect(update.state.customState).toMatchObject({ scrollbackBuffer: 'one\ntwo\n$ ', outputSizeLimit: 3 });
+    expect(db.clearPanelOutputs).toHaveBeenCalledWith('p1');
+  });
+
+  it('replays the saved scrollback before newer output', () => {
+    panels.getPanel.mockReturnValue(buildPanel({ state: { isActive: false, customState: { scrollbackBuffer: 'before', lastActivityTime: 'then' } } }));
+    const newer = { id: 9, session_id: 's1', panel_id: 'p1', type: 'stdout', data: 'after', timestamp: 'now' };
+    db.getPanelOutputs.mockReturnValue([newer]);
+
+    const history = coordinator.getHistory('p1', 100);
+
+    expect(db.getPanelOutputs).toHaveBeenCalledWith('p1', 100);
+    expect(history.map(output => output.data)).toEqual(['before', 'after']);
+    expect(history[0]).toMatchObject({ id: 0, timestamp: 'then' });
+  });
+
+  it('trims scrollback to the last lines', () => {
+    expect(trimScrollback('a\nb\nc\n', 2)).toBe('c\n');
+    expect(trimScrollback('a\nb', 5)).toBe('a\nb');
+  });
 });
@@ -0,0 +1,449 @@
+/**
+ * SetupRunner - Prepare a new worktree before an agent works in it
+ *
+ * Each project has an ordered list of setup steps: copy files such as `.env`
+ * from the main checkout, symlink large caches such as `node_modules`, or run a
+ * command such as `pnpm install`. Steps run one at a time in the worktree and
+ * stop at the first failure. A failed step can be retried or skipped. Agents
+ * do not start in the session until every step succeeded or was skipped.
+ *
+ * Projects without setup steps fall back to their build script, one command
+ * per line.
+ */
+
+import { EventEmitter } from 'events';
+import { spawn, exec, type ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DatabaseService } from '../../infrastructure/database/database';
+import type { ProjectSetupStepKind } from '../../infrastructure/database/models';
+import type { Logger } from '../../infrastructure/logging/logger';
+import { ShellDetector } from '../../infrastructure/command/shellDetector';
+import { getShellPath } from '../../infrastructure/command/shellPath';
+import type { SessionManager } from '../session/SessionManager';
+
+export type SetupTaskStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+export type SetupStatus = 'idle' | 'running' | 'succeeded' | 'failed';
+
+export interface SetupTaskDefinition {
+  /** Setup step id, or `build:<line>` for the project's legacy build script. */
+  id: string;
+  name: string;
+  kind: ProjectSetupStepKind;
+  value: string;
+}
+
+export interface SetupTaskState extends SetupTaskDefinition {
+  status: SetupTaskStatus;
+  exitCode: number | null;
+  error: string | null;
+  startedAt: string | null;
+  endedAt: string | null;
+}
+
+export interface SetupState {
+  sessionId: string;
+  status: SetupStatus;
+  tasks: SetupTaskState[];
+}
+
+export interface SetupLogLine {
+  stream: 'stdout' | 'stderr' | 'system';
+  text: string;
+  timestamp: string;
+}
+
+export interface SetupOutput {
+  sessionId: string;
+  taskId: string;
+  lines: SetupLogLine[];
+}
+
+interface SessionSetup {
+  projectPath: string;
+  worktreePath: string;
+  tasks: SetupTaskState[];
+  logs: Map<string, SetupLogLine[]>;
+  running: Promise<boolean> | null;
+  child: ChildProcess | null;
+  cancelled: boolean;
+  onReady: Array<() => unknown>;
+}
+
+const MAX_LOG_LINES = 2000;
+
+const pendingTask = (definition: SetupTaskDefinition): SetupTaskState => ({
+  ...definition,
+  status: 'pending',
+  exitCode: null,
+  error: null,
+  startedAt: null,
+  endedAt: null,
+});
+
+const globToRegExp = (pattern: string): RegExp =>
+  new RegExp(`^${pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+
+/**
+ * Expand a step's path list (one per line, `#` comments allowed) into
+ * repo-relative paths. `*` is only supported in the last path segment.
+ */
+export async function resolveSetupPaths(root: string, value: string): Promise<string[]> {
+  const resolved: string[] = [];
+  for (const raw of value.split('\n')) {
+    const entry = raw.trim();
+    if (!entry || entry.startsWith('#')) continue;
+
+    const normalized = path.normalize(entry);
+    if (path.isAbsolute(normalized) || normalized === '..' || normalized.startsWith(`..${path.sep}`)) {
+      throw new Error(`"${entry}" must be a path inside the repository`);
+    }
+
+    const base = path.basename(normalized);
+    if (!base.includes('*')) {
+      resolved.push(normalized);
+      continue;
+    }
+
+    const dir = path.dirname(normalized);
+    const matcher = globToRegExp(base);
+    const names = await fs.promises.readdir(path.join(root, dir)).catch(() => [] as string[]);
+    for (const name of names.sort()) {
+      if (matcher.test(name)) resolved.push(dir === '.' ? name : path.join(dir, name));
+    }
+  }
+  return resolved;
+}
+
+export class SetupRunner extends EventEmitter {
+  private setups = new Map<string, SessionSetup>();
+
+  constructor(
+    private db: DatabaseService,
+    private sessionManager: SessionManager,
+    private logger?: Logger
+  ) {
+    super();
+    this.sessionManager.on('session-deleted', (data: { id?: string }) => {
+      if (data?.id) this.cancel(data.id);
+    });
+  }
+
+  hasSteps(projectId: number): boolean {
+    return this.getDefinitions(projectId).length > 0;
+  }
+
+  /**
+   * The session's setup tasks. Before the first run this lists the project's
+   * steps as pending.
+   */
+  getState(sessionId: string): SetupState {
+    const setup = this.setups.get(sessionId);
+    if (!setup) {
+      const projectId = this.sessionManager.getSession(sessionId)?.projectId;
+      const tasks = projectId ? this.getDefinitions(projectId).map(pendingTask) : [];
+      return { sessionId, status: 'idle', tasks };
+    }
+    return { sessionId, status: this.statusOf(setup), tasks: setup.tasks.map((task) => ({ ...task })) };
+  }
+
+  getLogs(sessionId: string, taskId: string): SetupLogLine[] {
+    return [...(this.setups.get(sessionId)?.logs.get(taskId) ?? [])];
+  }
+
+  /**
+   * Why an agent may not start in this session yet, or null when it may.
+   */
+  getBlockingReason(sessionId: string): string | null {
+    const setup = this.setups.get(sessionId);
+    if (!setup) return null;
+    const status = this.statusOf(setup);
+    if (status === 'running') return 'Workspace setup is still running';
+    if (status === 'failed') {
+      const failed = setup.tasks.find((task) => task.status === 'failed');
+      return `Workspace setup failed at "${failed?.name}". Retry or skip it in the Setup panel first.`;
+    }
+    return null;
+  }
+
+  /**
+   * Run every setup step from the start. Resolves to whether all steps
+   * succeeded; a run already in progress is joined rather than restarted.
+   */
+  async run(sessionId: string): Promise<boolean> {
+    const existing = this.setups.get(sessionId);
+    if (existing?.running) return existing.running;
+
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) throw new Error(`Session ${sessionId} not found`);
+    if (!session.worktreePath) throw new Error('Session has no worktree to set up');
+    const project = session.projectId ? this.db.getProject(session.projectId) : undefined;
+    if (!project) throw new Error('Session has no project');
+
+    const setup: SessionSetup = {
+      projectPath: project.path,
+      worktreePath: session.worktreePath,
+      tasks: this.getDefinitions(project.id).map(pendingTask),
+      logs: new Map(),
+      running: null,
+      child: null,
+      cancelled: false,
+      onReady: existing?.onReady ?? [],
+    };
+    this.setups.set(sessionId, setup);
+    return this.runFrom(sessionId, setup, 0);
+  }
+
+  /**
+   * Run a failed step again (the first failed one by default) and continue
+   * with the steps after it.
+   */
+  async retry(sessionId: string, taskId?: string): Promise<boolean> {
+    const setup = this.setups.get(sessionId);
+    if (!setup) return this.run(sessionId);
+    if (setup.running) throw new Error('Workspace setup is already running');
+
+    const index = taskId
+      ? setup.tasks.findIndex((task) => task.id === taskId)
+      : setup.tasks.findIndex((task) => task.status === 'failed');
+    if (index === -1) throw new Error('No failed setup step to retry');
+
+    for (let i = index; i < setup.tasks.length; i++) {
+      setup.tasks[i] = pendingTask(setup.tasks[i]);
+    }
+    return this.runFrom(sessionId, setup, index);
+  }
+
+  /**
+   * Mark a failed step as skipped and continue with the steps after it.
+   */
+  async skip(sessionId: string, taskId: string): Promise<boolean> {
+    const setup = this.setups.get(sessionId);
+    if (!setup) throw new Error('Workspace setup has not run');
+    if (setup.running) throw new Error('Workspace setup is already running');
+
+    const index = setup.tasks.findIndex((task) => task.id === taskId);
+    const task = setup.tasks[index];
+    if (!task || task.status !== 'failed') throw new Error('Only failed setup steps can be skipped');
+
+    setup.tasks[index] = { ...task, status: 'skipped' };
+    this.append(sessionId, setup, task.id, 'system', 'Skipped');
+    return this.runFrom(sessionId, setup, index + 1);
+  }
+
+  /**
+   * Call `callback` once setup succeeds. Used to hold back the initial prompt
+   * of a session whose setup failed until the user fixes it.
+   */
+  whenReady(sessionId: string, callback: () => unknown): void {
+    const setup = this.setups.get(sessionId);
+    if (setup && this.statusOf(setup) === 'succeeded') {
+      void Promise.resolve().then(callback);
+      return;
+    }
+    if (setup) setup.onReady.push(callback);
+  }
+
+  /**
+   * Stop a session's setup and forget it.
+   */
+  cancel(sessionId: string): void {
+    const setup = this.setups.get(sessionId);
+    if (!setup) return;
+    setup.cancelled = true;
+    setup.onReady = [];
+    if (setup.child) this.kill(setup.child);
+    this.setups.delete(sessionId);
+  }
+
+  cancelAll(): void {
+    for (const sessionId of [...this.setups.keys()]) this.cancel(sessionId);
+  }
+
+  private getDefinitions(projectId: number): SetupTaskDefinition[] {
+    const steps = this.db.getSetupSteps(projectId).filter((step) => step.enabled);
+    if (steps.length > 0) {
+      return steps.map((step) => ({ id: String(step.id), name: step.name, kind: step.kind, value: step.value }));
+    }
+
+    const buildScript = this.db.getProject(projectId)?.build_script;
+    const lines = buildScript?.split('\n').map((line) => line.trim()).filter(Boolean) ?? [];
+    return lines.map((line, index) => ({ id: `build:${index}`, name: line, kind: 'command' as const, value: line }));
+  }
+
+  private statusOf(setup: SessionSetup): SetupStatus {
+    if (setup.running) return 'running';
+    if (setup.tasks.some((task) => task.status === 'failed')) return 'failed';
+    if (setup.tasks.every((task) => task.status === 'succeeded' || task.status === 'skipped')) return 'succeeded';
+    return 'idle';
+  }
+
+  private runFrom(sessionId: string, setup: SessionSetup, start: number): Promise<boolean> {
+    // Deferred a tick so the run counts as in progress before the first task reports.
+    const run = Promise.resolve().then(async () => {
+      for (let i = start; i < setup.tasks.length; i++) {
+        if (setup.tasks[i].status === 'succeeded' || setup.tasks[i].status === 'skipped') continue;
+        const ok = await this.runTask(sessionId, setup, i);
+        if (!ok || setup.cancelled) return false;
+      }
+      return true;
+    });
+
+    setup.running = run;
+    this.emitUpdate(sessionId, setup);
+
+    return run.then((ok) => {
+      setup.running = null;
+      if (setup.cancelled) return false;
+      this.emitUpdate(sessionId, setup);
+      if (ok) {
+        for (const callback of setup.onReady.splice(0)) {
+          void Promise.resolve().then(callback).catch((error) => {
+            this.logger?.error(`[Setup] Failed to continue session ${sessionId} after setup`, error instanceof Error ? error : undefined);
+          });
+        }
+      }
+      return ok;
+    });
+  }
+
+  private async runTask(sessionId: string, setup: SessionSetup, index: number): Promise<boolean> {
+    const task = setup.tasks[index];
+    setup.logs.set(task.id, []);
+    setup.tasks[index] = { ...task, status: 'running', startedAt: new Date().toISOString() };
+    this.emitUpdate(sessionId, setup);
+
+    let exitCode: number | null = null;
+    let error: string | null = null;
+    try {
+      if (task.kind === 'command') {
+        exitCode = await this.runCommand(sessionId, setup, task);
+        if (exitCode !== 0) error = exitCode === null ? 'Command was killed' : `Exited with code ${exitCode}`;
+      } else {
+        await this.linkPaths(sessionId, setup, task);
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      this.append(sessionId, setup, task.id, 'system', `Error: ${error}`);
+    }
+
+    setup.tasks[index] = {
+      ...setup.tasks[index],
+      status: error ? 'failed' : 'succeeded',
+      exitCode,
+      error,
+      endedAt: new Date().toISOString(),
+    };
+    if (error) this.logger?.warn(`[Setup] "${task.name}" failed for session ${sessionId}: ${error}`);
+    this.emitUpdate(sessionId, setup);
+    return !error;
+  }
+
+  private async linkPaths(sessionId: string, setup: SessionSetup, task: SetupTaskDefinition): Promise<void> {
+    const paths = await resolveSetupPaths(setup.projectPath, task.value);
+    if (paths.length === 0) {
+      this.append(sessionId, setup, task.id, 'system', 'Nothing matched in the main checkout');
+      return;
+    }
+
+    for (const relative of paths) {
+      const source = path.join(setup.projectPath, relative);
+      const target = path.join(setup.worktreePath, relative);
+      const stat = await fs.promises.stat(source).catch(() => null);
+      if (!stat) {
+        this.append(sessionId, setup, task.id, 'system', `${relative}: not found in the main checkout, skipped`);
+        continue;
+      }
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+
+      if (task.kind === 'copy') {
+        await fs.promises.cp(source, target, { recursive: true, force: true });
+        this.append(sessionId, setup, task.id, 'stdout', `Copied ${relative}`);
+        continue;
+      }
+
+      if (await fs.promises.lstat(target).catch(() => null)) {
+        this.append(sessionId, setup, task.id, 'system', `${relative}: already exists in the worktree, left as is`);
+        continue;
+      }
+      const type = process.platform === 'win32' ? (stat.isDirectory() ? 'junction' : 'file') : undefined;
+      await fs.promises.symlink(source, target, type);
+      this.append(sessionId, setup, task.id, 'stdout', `Linked ${relative}`);
+    }
+  }
+
+  private runCommand(sessionId: string, setup: SessionSetup, task: SetupTaskDefinition): Promise<number | null> {
+    this.append(sessionId, setup, task.id, 'system', `$ ${task.value}`);
+    const { shell, args } = ShellDetector.getShellCommandArgs(task.value);
+    const child = spawn(shell, args, {
+      cwd: setup.worktreePath,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: process.platform !== 'win32', // Own process group so cancel stops installs it started
+      env: { ...process.env, PATH: getShellPath() },
+    });
+    setup.child = child;
+
+    this.pipeLines(sessionId, setup, task.id, child.stdout, 'stdout');
+    this.pipeLines(sessionId, setup, task.id, child.stderr, 'stderr');
+
+    return new Promise((resolve, reject) => {
+      child.on('error', (error) => {
+        setup.child = null;
+        reject(error);
+      });
+      child.on('close', (code) => {
+        setup.child = null;
+        this.append(sessionId, setup, task.id, 'system', `Exited with ${code !== null ? `code ${code}` : 'a signal'}`);
+        resolve(code);
+      });
+    });
+  }
+
+  private kill(child: ChildProcess): void {
+    if (!child.pid) return;
+    if (process.platform === 'win32') {
+      exec(`taskkill /F /T /PID ${child.pid}`, () => {
+        // Already gone
+      });
+      return;
+    }
+    try {
+      process.kill(-child.pid, 'SIGTERM');
+    } catch {
+      try {
+        child.kill('SIGTERM');
+      } catch {
+        // Already gone
+      }
+    }
+  }
+
+  private pipeLines(sessionId: string, setup: SessionSetup, taskId: string, stream: NodeJS.ReadableStream | null, name: 'stdout' | 'stderr'): void {
+    if (!stream) return;
+    let partial = '';
+    stream.on('data', (data: Buffer) => {
+      const lines = (partial + data.toString()).split(/\r?\n/);
+      partial = lines.pop() ?? '';
+      for (const line of lines) this.append(sessionId, setup, taskId, name, line);
+    });
+    stream.on('end', () => {
+      if (partial) this.append(sessionId, setup, taskId, name, partial);
+      partial = '';
+    });
+  }
+
+  private append(sessionId: string, setup: SessionSetup, taskId: string, stream: SetupLogLine['stream'], text: string): void {
+    const line: SetupLogLine = { stream, text, timestamp: new Date().toISOString() };
+    const logs = setup.logs.get(taskId) ?? [];
+    logs.push(line);
+    if (logs.length > MAX_LOG_LINES) logs.splice(0, logs.length - MAX_LOG_LINES);
+    setup.logs.set(taskId, logs);
+    this.emit('output', { sessionId, taskId, lines: [line] } satisfies SetupOutput);
+  }
+
+  private emitUpdate(sessionId: string, setup: SessionSetup): void {
+    if (this.setups.get(sessionId) !== setup) return;
+    this.emit('updated', this.getState(sessionId) satisfies SetupState);
+  }
+}
@@ -0,0 +1,108 @@
+import { EventEmitter } from 'node:events';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { cleanupDatabase, createMockDatabase } from '../../../__tests__/helpers/mockDatabase';
+import type { DatabaseService } from '../../../infrastructure/database/database';
+import { SetupRunner, resolveSetupPaths } from '../SetupRunner';
+
+describe('SetupRunner', () => {
+  let db: DatabaseService;
+  let root: string;
+  let repo: string;
+  let worktree: string;
+  let projectId: number;
+  let runner: SetupRunner;
+  let sessionManager: EventEmitter & { getSession: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'snowtree-setup-'));
+    repo = path.join(root, 'repo');
+    worktree = path.join(repo, 'worktrees', 'feature');
+    fs.mkdirSync(path.join(repo, 'node_modules', 'left-pad'), { recursive: true });
+    fs.mkdirSync(worktree, { recursive: true });
+    fs.writeFileSync(path.join(repo, '.env'), 'TOKEN=1\n');
+    fs.writeFileSync(path.join(repo, '.env.local'), 'LOCAL=1\n');
+
+    db = createMockDatabase();
+    projectId = db.createProject('Test Project', repo).id;
+    sessionManager = Object.assign(new EventEmitter(), {
+      getSession: vi.fn((id: string) => ({ id, projectId, worktreePath: worktree })),
+    });
+    runner = new SetupRunner(db, sessionManager as never);
+  });
+
+  afterEach(() => {
+    runner.cancelAll();
+    cleanupDatabase(db);
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('copies env files, links caches and runs commands in order', async () => {
+    db.setSetupSteps(projectId, [
+      { name: 'env', kind: 'copy', value: '.env*\n# comment\nmissing.json', enabled: true },
+      { name: 'deps', kind: 'symlink', value: 'node_modules', enabled: true },
+      { name: 'disabled', kind: 'command', value: 'exit 1', enabled: false },
+      { name: 'check', kind: 'command', value: 'cat .env && ls node_modules', enabled: true },
+    ]);
+
+    expect(runner.getState('s1')).toMatchObject({ status: 'idle', tasks: [{ name: 'env' }, { name: 'deps' }, { name: 'check' }] });
+    await expect(runner.run('s1')).resolves.toBe(true);
+
+    expect(fs.readFileSync(path.join(worktree, '.env.local'), 'utf8')).toBe('LOCAL=1\n');
+    expect(fs.lstatSync(path.join(worktree, 'node_modules')).isSymbolicLink()).toBe(true);
+    const [env, , check] = runner.getState('s1').tasks;
+    expect(runner.getLogs('s1', env.id).map((line) => line.text)).toEqual([
+      'Copied .env',
+      'Copied .env.local',
+      'missing.json: not found in the main checkout, skipped',
+    ]);
+    expect(runner.getLogs('s1', check.id).map((line) => line.text)).toEqual(expect.arrayContaining(['TOKEN=1', 'left-pad']));
+    expect(runner.getState('s1').status).toBe('succeeded');
+    expect(runner.getBlockingReason('s1')).toBeNull();
+  });
+
+  it('stops at a failed step and holds agents until a retry succeeds', async () => {
+    db.setSetupSteps(projectId, [
+      { name: 'install', kind: 'command', value: 'test -f ready || { echo "lockfile out of date" >&2; exit 4; }', enabled: true },
+      { name: 'after', kind: 'command', value: 'echo done', enabled: true },
+    ]);
+
+    await expect(runner.run('s1')).resolves.toBe(false);
+    const state = runner.getState('s1');
+    expect(state.status).toBe('failed');
+    expect(state.tasks.map((task) => task.status)).toEqual(['failed', 'pending']);
+    expect(state.tasks[0]).toMatchObject({ exitCode: 4, error: 'Exited with code 4' });
+    expect(runner.getLogs('s1', state.tasks[0].id)).toContainEqual(expect.objectContaining({ stream: 'stderr', text: 'lockfile out of date' }));
+    expect(runner.getBlockingReason('s1')).toContain('failed at "install"');
+
+    const ready = vi.fn();
+    runner.whenReady('s1', ready);
+    fs.writeFileSync(path.join(worktree, 'ready'), '');
+    await expect(runner.retry('s1')).resolves.toBe(true);
+
+    expect(runner.getState('s1').tasks.map((task) => task.status)).toEqual(['succeeded', 'succeeded']);
+    await vi.waitFor(() => expect(ready).toHaveBeenCalledTimes(1));
+    expect(runner.getBlockingReason('s1')).toBeNull();
+  });
+
+  it('continues after a skipped step and falls back to the build script', async () => {
+    db.updateProject(projectId, { build_script: 'exit 2\necho built > built.txt' });
+
+    await expect(runner.run('s1')).resolves.toBe(false);
+    const [failed] = runner.getState('s1').tasks;
+    expect(failed).toMatchObject({ id: 'build:0', kind: 'command', status: 'failed' });
+
+    await expect(runner.skip('s1', failed.id)).resolves.toBe(true);
+    expect(runner.getState('s1').tasks.map((task) => task.status)).toEqual(['skipped', 'succeeded']);
+    expect(fs.readFileSync(path.join(worktree, 'built.txt'), 'utf8')).toBe('built\n');
+    await expect(runner.skip('s1', failed.id)).rejects.toThrow('Only failed setup steps can be skipped');
+  });
+
+  it('only resolves paths inside the repository', async () => {
+    await expect(resolveSetupPaths(repo, 'config/*.json')).resolves.toEqual([]);
+    await expect(resolveSetupPaths(repo, '.env*')).resolves.toEqual(['.env', '.env.local']);
+    await expect(resolveSetupPaths(repo, '../secrets')).rejects.toThrow('must be a path inside the repository');
+  });
+});
@@ -0,0 +1,10 @@
+export { SetupRunner, resolveSetupPaths } from './SetupRunner';
+export type {
+  SetupTaskStatus,
+  SetupStatus,
+  SetupTaskDefinition,
+  SetupTaskState,
+  SetupState,
+  SetupLogLine,
+  SetupOutput,
+} from './SetupRunner';
@@ -0,0 +1,137 @@
+/**
+ * SessionTemplates - Per-project presets for recurring kinds of work
+ *
+ * A template names the agent, model, approval/commit modes and plan mode a new
+ * session starts with, plus a prompt scaffold. `{{name}}` placeholders in the
+ * prompt are filled in when the session is created: `{{project}}` and
+ * `{{date}}` automatically, anything else from values the user supplies.
+ */
+
+import type { AgentToolType } from '@snowtree/core/types/panels';
+import type { ProjectSessionTemplate } from '../../infrastructure/database/models';
+import type { CreateSessionJob } from '../queue/TaskQueue';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const VALUE_PAIR_PATTERN = /^(\w+)=(?:"([^"]*)"|(\S+))\s*/;
+
+/** Placeholders filled in without asking the user. */
+export const BUILTIN_TEMPLATE_VARIABLES = ['project', 'date'];
+
+export type TemplateSessionJob = Pick<
+  CreateSessionJob,
+  'prompt' | 'toolType' | 'baseBranch' | 'commitMode' | 'permissionMode' | 'planMode' | 'codexConfig' | 'claudeConfig' | 'geminiConfig' | 'kimiConfig'
+>;
+
+export interface TemplateInvocation {
+  /** Template name or prefix, as typed */
+  template: string;
+  values: Record<string, string>;
+  /** Free text after the `key=value` pairs */
+  text: string;
+}
+
+/** Placeholders the user has to fill in, in order of first appearance. */
+export function getTemplatePlaceholders(prompt: string): string[] {
+  const names: string[] = [];
+  for (const match of prompt.matchAll(PLACEHOLDER_PATTERN)) {
+    const name = match[1];
+    if (!names.includes(name) && !BUILTIN_TEMPLATE_VARIABLES.includes(name)) names.push(name);
+  }
+  return names;
+}
+
+export function getMissingTemplateValues(prompt: string, values: Record<string, string>): string[] {
+  return getTemplatePlaceholders(prompt).filter((name) => !values[name]?.trim());
+}
+
+/** Unknown placeholders are left as written. */
+export function renderTemplatePrompt(prompt: string, values: Record<string, string>): string {
+  return prompt.replace(PLACEHOLDER_PATTERN, (match, name: string) => values[name] ?? match);
+}
+
+const pick = <T extends string>(value: string | null, allowed: readonly T[]): T | undefined =>
+  allowed.find((candidate) => candidate === value);
+
+/**
+ * The CreateSessionJob fields a template pre-fills. Throws when a placeholder
+ * has no value.
+ */
+export function buildTemplateSessionJob(
+  template: ProjectSessionTemplate,
+  options: { projectName: string; values: Record<string, string> }
+): TemplateSessionJob {
+  const missing = getMissingTemplateValues(template.prompt, options.values);
+  if (missing.length > 0) {
+    throw new Error(`Template "${template.name}" needs a value for: ${missing.join(', ')}`);
+  }
+
+  const values: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(options.values).map(([name, value]) => [name, value.trim()])),
+    project: options.projectName,
+    date: new Date().toISOString().slice(0, 10),
+  };
+
+  const toolType: AgentToolType | 'none' = template.tool_type || 'claude';
+  const model = template.model || undefined;
+  const mode = template.approval_mode;
+  const job: TemplateSessionJob = {
+    prompt: renderTemplatePrompt(template.prompt, values).trim(),
+    toolType,
+    baseBranch: template.base_branch || undefined,
+    commitMode: template.commit_mode || undefined,
+    planMode: template.plan_mode || undefined,
+  };
+
+  if (toolType === 'claude') {
+    const permissionMode = pick(mode, ['approve', 'ignore'] as const);
+    job.permissionMode = permissionMode;
+    job.claudeConfig = { model, permissionMode };
+  } else if (toolType === 'codex') {
+    job.codexConfig = {
+      model,
+      approvalPolicy: pick(mode, ['auto', 'manual'] as const),
+      thinkingLevel: template.thinking_level || undefined,
+    };
+  } else if (toolType === 'gemini') {
+    job.geminiConfig = { model, approvalMode: pick(mode, ['default', 'auto_edit', 'yolo', 'plan'] as const) };
+  } else if (toolType === 'kimi') {
+    job.kimiConfig = { model, approvalMode: pick(mode, ['default', 'yolo'] as const) };
+  }
+
+  return job;
+}
+
+/** `Bugfix (Codex)` -> `bugfix-codex`, the form templates are typed as in chat. */
+export const slugifyTemplateName = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+/**
+ * Templates matching a typed name: an exact match on the slugged name wins,
+ * otherwise every template whose slug starts with the query.
+ */
+export function findSessionTemplates(templates: ProjectSessionTemplate[], query: string): ProjectSessionTemplate[] {
+  const wanted = slugifyTemplateName(query);
+  if (!wanted) return [];
+  const exact = templates.filter((t) => slugifyTemplateName(t.name) === wanted);
+  if (exact.length > 0) return exact;
+  return templates.filter((t) => slugifyTemplateName(t.name).startsWith(wanted));
+}
+
+/**
+ * Parse `#template key=value key="two words" free text`, as typed in chat
+ * channels. Returns null when the text doesn't start with `#`.
+ */
+export function parseTemplateInvocation(text: string): TemplateInvocation | null {
+  const match = text.trim().match(/^#(\S*)\s*([\s\S]*)$/);
+  if (!match) return null;
+
+  const values: Record<string, string> = {};
+  let rest = match[2];
+  let pair = rest.match(VALUE_PAIR_PATTERN);
+  while (pair) {
+    values[pair[1]] = pair[2] ?? pair[3];
+    rest = rest.slice(pair[0].length);
+    pair = rest.match(VALUE_PAIR_PATTERN);
+  }
+
+  return { template: match[1], values, text: rest.trim() };
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import type { ProjectSessionTemplate } from '../../../infrastructure/database/models';
+import {
+  buildTemplateSessionJob,
+  findSessionTemplates,
+  getTemplatePlaceholders,
+  parseTemplateInvocation,
+  renderTemplatePrompt,
+} from '../SessionTemplates';
+
+const makeTemplate = (overrides: Partial<ProjectSessionTemplate> = {}): ProjectSessionTemplate => ({
+  id: 1,
+  project_id: 1,
+  name: 'Bugfix',
+  prompt: '',
+  tool_type: 'claude',
+  model: null,
+  approval_mode: null,
+  thinking_level: null,
+  plan_mode: false,
+  commit_mode: null,
+  base_branch: null,
+  order_index: 0,
+  created_at: 'now',
+  ...overrides,
+});
+
+describe('SessionTemplates', () => {
+  it('lists user placeholders once, in order, without the built-ins', () => {
+    expect(getTemplatePlaceholders('{{ issue }} in {{project}} on {{date}}: {{input}} ({{issue}})')).toEqual(['issue', 'input']);
+  });
+
+  it('leaves unknown placeholders as written', () => {
+    expect(renderTemplatePrompt('Fix {{issue}} for {{owner}}', { issue: '#12' })).toBe('Fix #12 for {{owner}}');
+  });
+
+  it('maps a codex template onto the session job', () => {
+    const job = buildTemplateSessionJob(
+      makeTemplate({
+        prompt: 'In {{project}}, fix {{issue}}',
+        tool_type: 'codex',
+        model: 'gpt-5',
+        approval_mode: 'manual',
+        thinking_level: 'high',
+        plan_mode: true,
+        commit_mode: 'checkpoint',
+        base_branch: 'develop',
+      }),
+      { projectName: 'shop', values: { issue: ' #12 ' } }
+    );
+
+    expect(job).toEqual({
+      prompt: 'In shop, fix #12',
+      toolType: 'codex',
+      baseBranch: 'develop',
+      commitMode: 'checkpoint',
+      planMode: true,
+      codexConfig: { model: 'gpt-5', approvalPolicy: 'manual', thinkingLevel: 'high' },
+    });
+  });
+
+  it('ignores approval modes the agent does not support', () => {
+    const job = buildTemplateSessionJob(makeTemplate({ tool_type: 'gemini', approval_mode: 'ignore' }), { projectName: 'shop', values: {} });
+    expect(job.geminiConfig).toEqual({ model: undefined, approvalMode: undefined });
+
+    const claude = buildTemplateSessionJob(makeTemplate({ approval_mode: 'ignore' }), { projectName: 'shop', values: {} });
+    expect(claude.permissionMode).toBe('ignore');
+    expect(claude.claudeConfig).toEqual({ model: undefined, permissionMode: 'ignore' });
+  });
+
+  it('refuses to build a job with unfilled placeholders', () => {
+    expect(() => buildTemplateSessionJob(
+      makeTemplate({ prompt: '{{issue}} {{area}}' }),
+      { projectName: 'shop', values: { issue: '1', area: '  ' } }
+    )).toThrow('needs a value for: area');
+  });
+
+  it('finds templates by exact slug first, then by prefix', () => {
+    const templates = [
+      makeTemplate({ id: 1, name: 'Bugfix' }),
+      makeTemplate({ id: 2, name: 'Bugfix (Codex, high)' }),
+      makeTemplate({ id: 3, name: 'Docs update' }),
+    ];
+    expect(findSessionTemplates(templates, 'bugfix').map((t) => t.id)).toEqual([1]);
+    expect(findSessionTemplates(templates, 'Bugfix-codex').map((t) => t.id)).toEqual([2]);
+    expect(findSessionTemplates(templates, 'bug').map((t) => t.id)).toEqual([1, 2]);
+    expect(findSessionTemplates(templates, '')).toEqual([]);
+  });
+
+  it('parses chat invocations', () => {
+    expect(parseTemplateInvocation('#bugfix issue=42 area="checkout page" it crashes')).toEqual({
+      template: 'bugfix',
+      values: { issue: '42', area: 'checkout page' },
+      text: 'it crashes',
+    });
+    expect(parseTemplateInvocation('#')).toEqual({ template: '', values: {}, text: '' });
+    expect(parseTemplateInvocation('fix #42')).toBeNull();
+  });
+});
@@ -0,0 +1,11 @@
+export {
+  BUILTIN_TEMPLATE_VARIABLES,
+  buildTemplateSessionJob,
+  findSessionTemplates,
+  getMissingTemplateValues,
+  getTemplatePlaceholders,
+  parseTemplateInvocation,
+  renderTemplatePrompt,
+  slugifyTemplateName,
+} from './SessionTemplates';
+export type { TemplateInvocation, TemplateSessionJob } from './SessionTemplates';
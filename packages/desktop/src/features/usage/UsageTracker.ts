@@ -0,0 +1,251 @@
+/**
+ * UsageTracker - Token/cost accounting and budgets for agent panels
+ *
+ * Executors report one usage sample per turn (or model call). Samples are stored
+ * per panel and rolled up per session and per project. A budget caps tokens
+ * (input + output; cache reads/writes are reported but not counted) and/or cost,
+ * warns once usage crosses `warnRatio` of a limit, and marks the scope exceeded
+ * at 100% so the caller can interrupt the running agent.
+ */
+
+import { EventEmitter } from 'events';
+import type { DatabaseService } from '../../infrastructure/database/database';
+import type { TokenUsageTotals, UsageBudget, UsageBudgetScope } from '../../infrastructure/database/models';
+import type { Logger } from '../../infrastructure/logging/logger';
+import type { ExecutorUsageEvent } from '../../executors/types';
+import type { SessionManager } from '../session/SessionManager';
+
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd: number;
+  samples: number;
+}
+
+export type BudgetState = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetStatus {
+  scope: UsageBudgetScope;
+  scopeId: string;
+  tokenLimit: number | null;
+  costLimitUsd: number | null;
+  warnRatio: number;
+  tokensUsed: number;
+  costUsd: number;
+  /** Highest fraction of any configured limit that has been used. */
+  ratio: number;
+  state: BudgetState;
+}
+
+export interface PanelUsage {
+  panelId: string;
+  toolType: string | null;
+  title: string | null;
+  totals: UsageTotals;
+}
+
+export interface UsageReport {
+  sessionId: string;
+  projectId: number | null;
+  session: UsageTotals;
+  project: UsageTotals | null;
+  panels: PanelUsage[];
+  budgets: {
+    session: BudgetStatus | null;
+    project: BudgetStatus | null;
+  };
+}
+
+export interface UsageBudgetInput {
+  tokenLimit?: number | null;
+  costLimitUsd?: number | null;
+  warnRatio?: number;
+}
+
+export interface UsageUpdate {
+  sessionId: string | null;
+  projectId: number | null;
+}
+
+const DEFAULT_WARN_RATIO = 0.8;
+
+const toTotals = (row: TokenUsageTotals): UsageTotals => ({
+  inputTokens: row.input_tokens ?? 0,
+  outputTokens: row.output_tokens ?? 0,
+  cacheReadTokens: row.cache_read_tokens ?? 0,
+  cacheCreationTokens: row.cache_creation_tokens ?? 0,
+  costUsd: row.cost_usd ?? 0,
+  samples: row.samples ?? 0,
+});
+
+export const countedTokens = (totals: UsageTotals): number => totals.inputTokens + totals.outputTokens;
+
+export function evaluateBudget(budget: UsageBudget, totals: UsageTotals): BudgetStatus {
+  const tokensUsed = countedTokens(totals);
+  const ratios: number[] = [];
+  if (budget.token_limit && budget.token_limit > 0) ratios.push(tokensUsed / budget.token_limit);
+  if (budget.cost_limit_usd && budget.cost_limit_usd > 0) ratios.push(totals.costUsd / budget.cost_limit_usd);
+  const ratio = ratios.length > 0 ? Math.max(...ratios) : 0;
+  const warnRatio = budget.warn_ratio ?? DEFAULT_WARN_RATIO;
+
+  return {
+    scope: budget.scope,
+    scopeId: budget.scope_id,
+    tokenLimit: budget.token_limit,
+    costLimitUsd: budget.cost_limit_usd,
+    warnRatio,
+    tokensUsed,
+    costUsd: totals.costUsd,
+    ratio,
+    state: ratio >= 1 ? 'exceeded' : ratio >= warnRatio ? 'warning' : 'ok',
+  };
+}
+
+export function describeBudget(status: BudgetStatus): string {
+  const label = status.scope === 'session' ? 'Session' : 'Project';
+  const parts: string[] = [];
+  if (status.tokenLimit) parts.push(`${status.tokensUsed.toLocaleString('en-US')}/${status.tokenLimit.toLocaleString('en-US')} tokens`);
+  if (status.costLimitUsd) parts.push(`$${status.costUsd.toFixed(2)}/$${status.costLimitUsd.toFixed(2)}`);
+  const verb = status.state === 'exceeded' ? 'budget exceeded' : 'budget almost used';
+  return `${label} ${verb} (${parts.join(', ')})`;
+}
+
+export class UsageTracker extends EventEmitter {
+  // Scopes already warned about, so each crossing is reported once.
+  private warned = new Set<string>();
+
+  constructor(
+    private db: DatabaseService,
+    private sessionManager: SessionManager,
+    private logger?: Logger
+  ) {
+    super();
+  }
+
+  /**
+   * Store a usage sample and evaluate budgets. Returns the first exceeded budget, if any,
+   * so the caller can interrupt the panel that reported it.
+   */
+  record(event: ExecutorUsageEvent): { report: UsageReport; exceeded: BudgetStatus | null } | null {
+    const projectId = this.getProjectId(event.sessionId);
+    if (projectId === null) {
+      this.logger?.warn(`[Usage] Dropping usage sample for unknown session ${event.sessionId}`);
+      return null;
+    }
+
+    const { usage } = event;
+    this.db.addTokenUsage({
+      session_id: event.sessionId,
+      panel_id: event.panelId,
+      project_id: projectId,
+      tool_type: this.db.getPanel(event.panelId)?.type ?? null,
+      input_tokens: usage.inputTokens,
+      output_tokens: usage.outputTokens,
+      cache_read_tokens: usage.cacheReadTokens,
+      cache_creation_tokens: usage.cacheCreationTokens,
+      cost_usd: usage.costUsd ?? null,
+    });
+
+    const report = this.getReport(event.sessionId);
+    let exceeded: BudgetStatus | null = null;
+    for (const status of [report.budgets.session, report.budgets.project]) {
+      if (!status || status.state === 'ok') continue;
+      if (status.state === 'exceeded' && !exceeded) exceeded = status;
+
+      const key = `${status.scope}:${status.scopeId}:${status.state}`;
+      if (this.warned.has(key)) continue;
+      this.warned.add(key);
+      this.logger?.info(`[Usage] ${describeBudget(status)} for session ${event.sessionId}`);
+      this.emit(status.state === 'exceeded' ? 'exceeded' : 'warning', { sessionId: event.sessionId, status });
+    }
+
+    this.emit('updated', { sessionId: event.sessionId, projectId } as UsageUpdate);
+    return { report, exceeded };
+  }
+
+  getReport(sessionId: string): UsageReport {
+    const projectId = this.getProjectId(sessionId);
+    const session = toTotals(this.db.getTokenUsageTotals('session', sessionId));
+    const project = projectId !== null ? toTotals(this.db.getTokenUsageTotals('project', String(projectId))) : null;
+
+    const panels = this.db.getPanelTokenUsage(sessionId).map((row) => ({
+      panelId: row.panel_id,
+      toolType: row.tool_type,
+      title: this.db.getPanel(row.panel_id)?.title ?? null,
+      totals: toTotals(row),
+    }));
+
+    const sessionBudget = this.db.getUsageBudget('session', sessionId);
+    const projectBudget = projectId !== null ? this.db.getUsageBudget('project', String(projectId)) : null;
+
+    return {
+      sessionId,
+      projectId,
+      session,
+      project,
+      panels,
+      budgets: {
+        session: sessionBudget ? evaluateBudget(sessionBudget, session) : null,
+        project: projectBudget && project ? evaluateBudget(projectBudget, project) : null,
+      },
+    };
+  }
+
+  /**
+   * Set or clear a budget. Clearing both limits removes the budget.
+   */
+  setBudget(scope: UsageBudgetScope, scopeId: string, input: UsageBudgetInput): UsageBudget | null {
+    const tokenLimit = input.tokenLimit ?? null;
+    const costLimitUsd = input.costLimitUsd ?? null;
+    const warnRatio = input.warnRatio ?? DEFAULT_WARN_RATIO;
+
+    if (tokenLimit !== null && (!Number.isFinite(tokenLimit) || tokenLimit <= 0)) {
+      throw new Error('Token limit must be a positive number');
+    }
+    if (costLimitUsd !== null && (!Number.isFinite(costLimitUsd) || costLimitUsd <= 0)) {
+      throw new Error('Cost limit must be a positive number');
+    }
+    if (!Number.isFinite(warnRatio) || warnRatio <= 0 || warnRatio > 1) {
+      throw new Error('Warning threshold must be between 0 and 1');
+    }
+
+    for (const key of Array.from(this.warned)) {
+      if (key.startsWith(`${scope}:${scopeId}:`)) this.warned.delete(key);
+    }
+
+    let budget: UsageBudget | null = null;
+    if (tokenLimit === null && costLimitUsd === null) {
+      this.db.deleteUsageBudget(scope, scopeId);
+    } else {
+      budget = this.db.setUsageBudget(scope, scopeId, {
+        token_limit: tokenLimit === null ? null : Math.floor(tokenLimit),
+        cost_limit_usd: costLimitUsd,
+        warn_ratio: warnRatio,
+      });
+    }
+
+    const update: UsageUpdate = scope === 'session'
+      ? { sessionId: scopeId, projectId: this.getProjectId(scopeId) }
+      : { sessionId: null, projectId: Number(scopeId) };
+    this.emit('updated', update);
+    return budget;
+  }
+
+  /**
+   * Why a new prompt may not start in this session, or null when it is within budget.
+   */
+  getBlockingReason(sessionId: string): string | null {
+    const { budgets } = this.getReport(sessionId);
+    const exceeded = [budgets.session, budgets.project].find((status) => status?.state === 'exceeded');
+    return exceeded ? `${describeBudget(exceeded)}. Raise or clear the budget to continue.` : null;
+  }
+
+  private getProjectId(sessionId: string): number | null {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) return null;
+    if (typeof session.projectId === 'number') return session.projectId;
+    return this.sessionManager.getProjectForSession(sessionId)?.id ?? null;
+  }
+}
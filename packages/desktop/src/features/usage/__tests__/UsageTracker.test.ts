@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { UsageTracker } from '../UsageTracker';
+import { SessionManager } from '../../session/SessionManager';
+import { createMockDatabase, cleanupDatabase } from '../../../__tests__/helpers/mockDatabase';
+import type { DatabaseService } from '../../../infrastructure/database/database';
+import type { TokenUsageSample } from '../../../executors/types';
+
+const sample = (inputTokens: number, outputTokens: number, costUsd?: number): TokenUsageSample => ({
+  inputTokens,
+  outputTokens,
+  cacheReadTokens: 0,
+  cacheCreationTokens: 0,
+  costUsd,
+});
+
+describe('UsageTracker', () => {
+  let db: DatabaseService;
+  let sessionManager: SessionManager;
+  let tracker: UsageTracker;
+  let projectId: number;
+  let sessionId: string;
+  let otherSessionId: string;
+
+  beforeEach(async () => {
+    db = createMockDatabase();
+    const project = db.createProject('Test Project', '/tmp/test-project');
+    projectId = project.id;
+    db.setActiveProject(project.id);
+    sessionManager = new SessionManager(db);
+    const session = await sessionManager.createSession({ name: 'Usage A', worktreePath: '/tmp/a', prompt: 'a', toolType: 'claude' });
+    const other = await sessionManager.createSession({ name: 'Usage B', worktreePath: '/tmp/b', prompt: 'b', toolType: 'codex' });
+    sessionId = session.id;
+    otherSessionId = other.id;
+    tracker = new UsageTracker(db, sessionManager);
+  });
+
+  afterEach(() => {
+    cleanupDatabase(db);
+  });
+
+  it('accounts usage per panel, per session and per project', () => {
+    tracker.record({ panelId: 'panel-1', sessionId, usage: { ...sample(100, 20, 0.01), cacheReadTokens: 500 } });
+    tracker.record({ panelId: 'panel-1', sessionId, usage: sample(50, 10, 0.02) });
+    tracker.record({ panelId: 'panel-2', sessionId, usage: sample(30, 5) });
+    tracker.record({ panelId: 'panel-3', sessionId: otherSessionId, usage: sample(1000, 100) });
+
+    const report = tracker.getReport(sessionId);
+    expect(report.projectId).toBe(projectId);
+    expect(report.session).toMatchObject({ inputTokens: 180, outputTokens: 35, cacheReadTokens: 500, samples: 3 });
+    expect(report.session.costUsd).toBeCloseTo(0.03);
+    expect(report.panels.map((p) => [p.panelId, p.totals.inputTokens])).toEqual([['panel-1', 150], ['panel-2', 30]]);
+    expect(report.project).toMatchObject({ inputTokens: 1180, outputTokens: 135, samples: 4 });
+    expect(report.budgets).toEqual({ session: null, project: null });
+  });
+
+  it('warns once past the threshold and reports the exceeded budget at the limit', () => {
+    tracker.setBudget('session', sessionId, { tokenLimit: 1000, warnRatio: 0.5 });
+    const warning = vi.fn();
+    const exceeded = vi.fn();
+    tracker.on('warning', warning);
+    tracker.on('exceeded', exceeded);
+
+    expect(tracker.record({ panelId: 'panel-1', sessionId, usage: sample(300, 100) })?.exceeded).toBeNull();
+    expect(warning).not.toHaveBeenCalled();
+
+    const warned = tracker.record({ panelId: 'panel-1', sessionId, usage: sample(150, 50) });
+    expect(warned?.exceeded).toBeNull();
+    expect(warned?.report.budgets.session?.state).toBe('warning');
+    tracker.record({ panelId: 'panel-1', sessionId, usage: sample(100, 0) });
+    expect(warning).toHaveBeenCalledTimes(1);
+    expect(tracker.getBlockingReason(sessionId)).toBeNull();
+
+    const over = tracker.record({ panelId: 'panel-1', sessionId, usage: sample(200, 100) });
+    expect(over?.exceeded).toMatchObject({ scope: 'session', state: 'exceeded', tokensUsed: 1000 });
+    expect(exceeded).toHaveBeenCalledTimes(1);
+    expect(tracker.getBlockingReason(sessionId)).toMatch(/Session budget exceeded/);
+
+    // Raising the limit unblocks the session.
+    tracker.setBudget('session', sessionId, { tokenLimit: 5000 });
+    expect(tracker.getBlockingReason(sessionId)).toBeNull();
+  });
+
+  it('enforces project cost budgets across sessions and clears budgets without limits', () => {
+    tracker.setBudget('project', String(projectId), { costLimitUsd: 1 });
+    tracker.record({ panelId: 'panel-1', sessionId, usage: sample(10, 10, 0.6) });
+    const result = tracker.record({ panelId: 'panel-2', sessionId: otherSessionId, usage: sample(10, 10, 0.5) });
+
+    expect(result?.exceeded).toMatchObject({ scope: 'project', scopeId: String(projectId) });
+    expect(tracker.getBlockingReason(sessionId)).toMatch(/Project budget exceeded/);
+
+    expect(tracker.setBudget('project', String(projectId), { tokenLimit: null, costLimitUsd: null })).toBeNull();
+    expect(tracker.getReport(sessionId).budgets.project).toBeNull();
+  });
+
+  it('rejects invalid budgets', () => {
+    expect(() => tracker.setBudget('session', sessionId, { tokenLimit: -5 })).toThrow(/Token limit/);
+    expect(() => tracker.setBudget('session', sessionId, { costLimitUsd: 2, warnRatio: 1.5 })).toThrow(/Warning threshold/);
+  });
+});
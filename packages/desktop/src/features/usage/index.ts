@@ -0,0 +1,2 @@
+export { UsageTracker, evaluateBudget, describeBudget, countedTokens } from './UsageTracker';
+export type { UsageTotals, BudgetState, BudgetStatus, PanelUsage, UsageReport, UsageBudgetInput, UsageUpdate } from './UsageTracker';
@@ -0,0 +1,329 @@
+/**
+ * VerifyRunner - Check every agent round with the project's verify command
+ *
+ * When an agent panel goes idle after a clean exit, the project's verify
+ * command (tests, lint, type-check) runs in the session's worktree. The result
+ * is stored on a new execution_diffs entry for the round and shown in the
+ * timeline as a `verify_result` event. With auto-fix enabled, a failure is sent
+ * back to the same panel as a follow-up prompt carrying the trimmed output, up
+ * to the project's iteration limit. A prompt from the user resets the count.
+ */
+
+import { EventEmitter } from 'events';
+import { spawn, exec, type ChildProcess } from 'child_process';
+import type { DatabaseService } from '../../infrastructure/database/database';
+import type { ExecutionVerifyStatus } from '../../infrastructure/database/models';
+import type { Logger } from '../../infrastructure/logging/logger';
+import { ShellDetector } from '../../infrastructure/command/shellDetector';
+import { getShellPath } from '../../infrastructure/command/shellPath';
+import type { SessionManager } from '../session/SessionManager';
+
+export type VerifyFollowUpDispatcher = (panelId: string, prompt: string) => Promise<{ success: boolean; error?: string }>;
+
+export interface VerifySettings {
+  command: string | null;
+  autoFix: boolean;
+  maxIterations: number;
+}
+
+export interface VerifyResult {
+  sessionId: string;
+  panelId: string;
+  diffId: number;
+  command: string;
+  status: ExecutionVerifyStatus;
+  exitCode: number | null;
+  output: string;
+  /** Automatic follow-ups already sent for this streak of failures. */
+  iteration: number;
+  durationMs: number;
+  followUp: boolean;
+}
+
+interface RunningVerify {
+  child: ChildProcess | null;
+  cancelled: boolean;
+}
+
+export const DEFAULT_VERIFY_MAX_ITERATIONS = 3;
+export const MAX_VERIFY_ITERATIONS = 10;
+
+const OUTPUT_MAX_LINES = 80;
+const OUTPUT_MAX_CHARS = 4000;
+const CAPTURE_MAX_CHARS = 256 * 1024;
+const VERIFY_TIMEOUT_MS = 15 * 60 * 1000;
+
+const ANSI_PATTERN = /\u001b\[[0-9;?]*[ -/]*[@-~]/g;
+
+/**
+ * Keep the end of a command's output, where test runners and linters print
+ * their summary, without colour codes.
+ */
+export function trimVerifyOutput(output: string, maxLines = OUTPUT_MAX_LINES, maxChars = OUTPUT_MAX_CHARS): string {
+  const lines = output.replace(ANSI_PATTERN, '').replace(/\r\n?/g, '\n').split('\n');
+  while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop();
+
+  let kept = lines.slice(-maxLines);
+  while (kept.length > 1 && kept.join('\n').length > maxChars) kept = kept.slice(1);
+  let text = kept.join('\n');
+  if (text.length > maxChars) text = text.slice(-maxChars);
+
+  const omitted = lines.length - kept.length;
+  return omitted > 0 ? `… ${omitted} earlier line${omitted === 1 ? '' : 's'} omitted\n${text}` : text;
+}
+
+export function buildVerifyFollowUpPrompt(command: string, exitCode: number | null, output: string): string {
+  const outcome = exitCode === null ? 'was stopped' : `exited with code ${exitCode}`;
+  return [
+    `The verify command \`${command}\` ${outcome} after your last changes. Fix the failures below; the command runs again when you finish.`,
+    '',
+    '```',
+    output || '(no output)',
+    '```',
+  ].join('\n');
+}
+
+export class VerifyRunner extends EventEmitter {
+  private running = new Map<string, RunningVerify>();
+  private iterations = new Map<string, number>();
+  private sendingFollowUp = new Set<string>();
+  private dispatcher: VerifyFollowUpDispatcher | null = null;
+
+  constructor(
+    private db: DatabaseService,
+    private sessionManager: SessionManager,
+    private logger?: Logger
+  ) {
+    super();
+    this.sessionManager.on('session-deleted', (data: { id?: string }) => {
+      if (data?.id) this.cancel(data.id);
+    });
+  }
+
+  /**
+   * Set how a follow-up prompt is sent to its panel (the `panels:continue` path).
+   */
+  setDispatcher(dispatcher: VerifyFollowUpDispatcher): void {
+    this.dispatcher = dispatcher;
+  }
+
+  getSettings(projectId: number): VerifySettings {
+    const project = this.db.getProject(projectId);
+    const max = Number(project?.verify_max_iterations ?? DEFAULT_VERIFY_MAX_ITERATIONS);
+    return {
+      command: project?.verify_command?.trim() || null,
+      autoFix: Boolean(project?.verify_auto_fix),
+      maxIterations: Number.isInteger(max) && max >= 0 ? Math.min(max, MAX_VERIFY_ITERATIONS) : DEFAULT_VERIFY_MAX_ITERATIONS,
+    };
+  }
+
+  isRunning(sessionId: string): boolean {
+    return this.running.has(sessionId);
+  }
+
+  /**
+   * A prompt started a new round on `panelId`. A verify still running for the
+   * previous round is cancelled, and a prompt that is not an automatic
+   * follow-up resets the iteration count.
+   */
+  onRoundStarted(panelId: string, sessionId: string): void {
+    if (!this.sendingFollowUp.has(panelId)) this.iterations.delete(panelId);
+    this.cancel(sessionId);
+  }
+
+  /**
+   * Verify the round that just ended on `panelId`. Resolves with null when the
+   * project has no verify command or the session was stopped or failed.
+   */
+  async onPanelIdle(panelId: string, sessionId: string): Promise<VerifyResult | null> {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session?.worktreePath || session.projectId == null || session.importedAt) return null;
+    if (session.status === 'stopped' || session.status === 'error') return null;
+
+    const settings = this.getSettings(session.projectId);
+    if (!settings.command) return null;
+
+    this.cancel(sessionId);
+    const run: RunningVerify = { child: null, cancelled: false };
+    this.running.set(sessionId, run);
+
+    const iteration = this.iterations.get(panelId) ?? 0;
+    const diff = this.db.createExecutionDiff({
+      session_id: sessionId,
+      panel_id: panelId,
+      execution_sequence: this.db.getNextExecutionSequence(sessionId),
+      verify_status: 'running',
+      verify_iteration: iteration,
+    });
+    const operationId = `verify-${diff.id}`;
+    const meta = {
+      operationId,
+      diffId: diff.id,
+      iteration,
+      maxIterations: settings.autoFix ? settings.maxIterations : undefined,
+    };
+    this.record(sessionId, panelId, settings.command, session.worktreePath, 'started', { ...meta, verifyStatus: 'running' });
+
+    const startedAt = Date.now();
+    let exitCode: number | null = null;
+    let output = '';
+    try {
+      ({ exitCode, output } = await this.execute(run, settings.command, session.worktreePath));
+    } catch (error) {
+      output = error instanceof Error ? error.message : String(error);
+    }
+    if (this.running.get(sessionId) === run) this.running.delete(sessionId);
+
+    const status: ExecutionVerifyStatus = run.cancelled ? 'cancelled' : exitCode === 0 ? 'passed' : 'failed';
+    const trimmed = trimVerifyOutput(output);
+    this.db.updateExecutionVerify(diff.id, { verify_status: status, verify_exit_code: exitCode, verify_output: trimmed });
+
+    if (status === 'passed') this.iterations.delete(panelId);
+    const wantsFollowUp = status === 'failed' && settings.autoFix && this.dispatcher !== null;
+    const followUp = wantsFollowUp && iteration < settings.maxIterations && this.sessionManager.getSession(sessionId)?.status === 'waiting';
+
+    const result: VerifyResult = {
+      sessionId,
+      panelId,
+      diffId: diff.id,
+      command: settings.command,
+      status,
+      exitCode,
+      output: trimmed,
+      iteration,
+      durationMs: Date.now() - startedAt,
+      followUp,
+    };
+    this.record(sessionId, panelId, settings.command, session.worktreePath, status === 'failed' ? 'failed' : 'finished', {
+      ...meta,
+      verifyStatus: status,
+      output: trimmed,
+      followUp,
+      limitReached: wantsFollowUp && iteration >= settings.maxIterations,
+    }, result);
+    this.emit('completed', result);
+
+    if (followUp) {
+      result.followUp = await this.sendFollowUp(panelId, sessionId, iteration + 1, buildVerifyFollowUpPrompt(settings.command, exitCode, trimmed));
+    }
+    return result;
+  }
+
+  /**
+   * Stop a session's running verify; its round is recorded as cancelled.
+   */
+  cancel(sessionId: string): void {
+    const run = this.running.get(sessionId);
+    if (!run) return;
+    run.cancelled = true;
+    if (run.child) this.kill(run.child);
+    this.running.delete(sessionId);
+  }
+
+  cancelAll(): void {
+    for (const sessionId of [...this.running.keys()]) this.cancel(sessionId);
+  }
+
+  private async sendFollowUp(panelId: string, sessionId: string, iteration: number, prompt: string): Promise<boolean> {
+    if (!this.dispatcher) return false;
+    this.iterations.set(panelId, iteration);
+    this.sendingFollowUp.add(panelId);
+    try {
+      const res = await this.dispatcher(panelId, prompt);
+      if (!res.success) {
+        this.logger?.warn(`[Verify] Failed to send follow-up for session ${sessionId}: ${res.error ?? 'unknown error'}`);
+      }
+      return res.success;
+    } catch (error) {
+      this.logger?.warn(`[Verify] Failed to send follow-up for session ${sessionId}: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    } finally {
+      this.sendingFollowUp.delete(panelId);
+    }
+  }
+
+  private execute(run: RunningVerify, command: string, cwd: string): Promise<{ exitCode: number | null; output: string }> {
+    const { shell, args } = ShellDetector.getShellCommandArgs(command);
+    const child = spawn(shell, args, {
+      cwd,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: process.platform !== 'win32', // Own process group so cancel stops test workers too
+      // Test runners otherwise may wait for input in watch mode.
+      env: { ...process.env, CI: process.env.CI ?? '1', PATH: getShellPath() },
+    });
+    run.child = child;
+
+    let output = '';
+    const capture = (data: Buffer) => {
+      output += data.toString();
+      if (output.length > CAPTURE_MAX_CHARS) output = output.slice(-CAPTURE_MAX_CHARS);
+    };
+    child.stdout?.on('data', capture);
+    child.stderr?.on('data', capture);
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      this.kill(child);
+    }, VERIFY_TIMEOUT_MS);
+
+    return new Promise((resolve, reject) => {
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        run.child = null;
+        reject(error);
+      });
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        run.child = null;
+        if (timedOut) output += `\nTimed out after ${VERIFY_TIMEOUT_MS / 60000} minutes`;
+        resolve({ exitCode: code, output });
+      });
+    });
+  }
+
+  private kill(child: ChildProcess): void {
+    if (!child.pid) return;
+    if (process.platform === 'win32') {
+      exec(`taskkill /F /T /PID ${child.pid}`, () => {
+        // Already gone
+      });
+      return;
+    }
+    try {
+      process.kill(-child.pid, 'SIGTERM');
+    } catch {
+      try {
+        child.kill('SIGTERM');
+      } catch {
+        // Already gone
+      }
+    }
+  }
+
+  private record(
+    sessionId: string,
+    panelId: string,
+    command: string,
+    cwd: string,
+    status: 'started' | 'finished' | 'failed',
+    meta: Record<string, unknown>,
+    result?: VerifyResult
+  ): void {
+    try {
+      this.sessionManager.addTimelineEvent({
+        session_id: sessionId,
+        panel_id: panelId,
+        kind: 'verify_result',
+        status,
+        command,
+        cwd,
+        duration_ms: result?.durationMs,
+        exit_code: result?.exitCode ?? undefined,
+        meta,
+      });
+    } catch (error) {
+      this.logger?.warn(`[Verify] Failed to record verify result for ${sessionId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { EventEmitter } from 'node:events';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { cleanupDatabase, createMockDatabase } from '../../../__tests__/helpers/mockDatabase';
+import type { DatabaseService } from '../../../infrastructure/database/database';
+import { VerifyRunner, trimVerifyOutput } from '../VerifyRunner';
+
+describe('VerifyRunner', () => {
+  let db: DatabaseService;
+  let worktree: string;
+  let projectId: number;
+  let status: string;
+  let runner: VerifyRunner;
+  let sessionManager: EventEmitter & { getSession: ReturnType<typeof vi.fn>; addTimelineEvent: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    worktree = fs.mkdtempSync(path.join(os.tmpdir(), 'snowtree-verify-'));
+    db = createMockDatabase();
+    projectId = db.createProject('Test Project', worktree).id;
+    db.createSession({ id: 's1', name: 'feature', initial_prompt: 'Add it', worktree_name: 'feature', worktree_path: worktree, project_id: projectId });
+    status = 'waiting';
+    sessionManager = Object.assign(new EventEmitter(), {
+      getSession: vi.fn((id: string) => ({ id, projectId, worktreePath: worktree, status })),
+      addTimelineEvent: vi.fn(),
+    });
+    runner = new VerifyRunner(db, sessionManager as never);
+  });
+
+  afterEach(() => {
+    runner.cancelAll();
+    cleanupDatabase(db);
+    fs.rmSync(worktree, { recursive: true, force: true });
+  });
+
+  it('records the result on the round and in the timeline', async () => {
+    await expect(runner.onPanelIdle('p1', 's1')).resolves.toBeNull();
+
+    db.updateProject(projectId, { verify_command: 'echo "\u001b[32mall good\u001b[0m"' });
+    const result = await runner.onPanelIdle('p1', 's1');
+
+    expect(result).toMatchObject({ status: 'passed', exitCode: 0, output: 'all good', followUp: false });
+    expect(db.getExecutionDiffs('s1')).toEqual([
+      expect.objectContaining({ id: result?.diffId, panel_id: 'p1', verify_status: 'passed', verify_exit_code: 0, verify_output: 'all good', verify_iteration: 0 }),
+    ]);
+    const events = sessionManager.addTimelineEvent.mock.calls.map(([event]) => event);
+    expect(events.map((event) => [event.kind, event.status, event.meta.verifyStatus])).toEqual([
+      ['verify_result', 'started', 'running'],
+      ['verify_result', 'finished', 'passed'],
+    ]);
+    expect(events[0].meta.operationId).toBe(events[1].meta.operationId);
+  });
+
+  it('sends failures back to the same panel until the iteration limit', async () => {
+    db.updateProject(projectId, { verify_command: 'echo "expected 2 to be 3" >&2; exit 3', verify_auto_fix: true, verify_max_iterations: 1 });
+    const dispatcher = vi.fn(async (panelId: string) => {
+      runner.onRoundStarted(panelId, 's1');
+      return { success: true };
+    });
+    runner.setDispatcher(dispatcher);
+
+    await expect(runner.onPanelIdle('p1', 's1')).resolves.toMatchObject({ status: 'failed', exitCode: 3, iteration: 0, followUp: true });
+    expect(dispatcher).toHaveBeenCalledTimes(1);
+    const [panelId, prompt] = dispatcher.mock.calls[0] as unknown as [string, string];
+    expect(panelId).toBe('p1');
+    expect(prompt).toContain('`echo "expected 2 to be 3" >&2; exit 3` exited with code 3');
+    expect(prompt).toContain('expected 2 to be 3');
+
+    await expect(runner.onPanelIdle('p1', 's1')).resolves.toMatchObject({ status: 'failed', iteration: 1, followUp: false });
+    expect(dispatcher).toHaveBeenCalledTimes(1);
+    const last = sessionManager.addTimelineEvent.mock.calls.at(-1)?.[0];
+    expect(last.meta).toMatchObject({ verifyStatus: 'failed', iteration: 1, maxIterations: 1, limitReached: true });
+
+    // A prompt from the user starts a new streak.
+    runner.onRoundStarted('p1', 's1');
+    await expect(runner.onPanelIdle('p1', 's1')).resolves.toMatchObject({ iteration: 0, followUp: true });
+    expect(dispatcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not verify stopped sessions and cancels when a new round starts', async () => {
+    db.updateProject(projectId, { verify_command: 'sleep 5', verify_auto_fix: true });
+    const dispatcher = vi.fn(async () => ({ success: true }));
+    runner.setDispatcher(dispatcher);
+
+    status = 'stopped';
+    await expect(runner.onPanelIdle('p1', 's1')).resolves.toBeNull();
+
+    status = 'waiting';
+    const pending = runner.onPanelIdle('p1', 's1');
+    await vi.waitFor(() => expect(runner.isRunning('s1')).toBe(true));
+    runner.onRoundStarted('p1', 's1');
+
+    await expect(pending).resolves.toMatchObject({ status: 'cancelled', followUp: false });
+    expect(db.getExecutionDiffs('s1')[0].verify_status).toBe('cancelled');
+    expect(dispatcher).not.toHaveBeenCalled();
+  });
+
+  it('keeps the end of long output', () => {
+    const output = Array.from({ length: 200 }, (_, i) => `line ${i + 1}`).join('\n');
+    const trimmed = trimVerifyOutput(`${output}\n\n`, 3);
+    expect(trimmed).toBe('… 197 earlier lines omitted\nline 198\nline 199\nline 200');
+    expect(trimVerifyOutput('x'.repeat(50), 10, 20)).toBe('x'.repeat(20));
+  });
+});
@@ -0,0 +1,8 @@
+export {
+  VerifyRunner,
+  trimVerifyOutput,
+  buildVerifyFollowUpPrompt,
+  DEFAULT_VERIFY_MAX_ITERATIONS,
+  MAX_VERIFY_ITERATIONS,
+} from './VerifyRunner';
+export type { VerifyFollowUpDispatcher, VerifySettings, VerifyResult } from './VerifyRunner';
@@ -92,7 +92,8 @@ export class WorktreeManager {
     branch?: string,
     baseBranch?: string,
     worktreeFolder?: string,
-    sessionId?: string
+    sessionId?: string,
+    pinnedBase?: { commit: string; branch: string }
   ): Promise<{ worktreePath: string; baseCommit: string; baseBranch: string; branchName: string }> {
     return await withLock(`worktree-create-${projectPath}-${name}`, async () => {
       const { baseDir } = this.getProjectPaths(projectPath, worktreeFolder);
@@ -164,142 +165,199 @@ export class WorktreeManager {
         });
       }
 
-      const getRemoteUrl = async (remoteName: string): Promise<string | null> => {
-        try {
-          const { stdout } = await this.runGit({
-            cwd: projectPath,
-            argv: ['git', 'remote', 'get-url', remoteName],
-            op: 'read',
-          });
-          const trimmed = stdout.trim();
-          return trimmed ? trimmed : null;
-        } catch {
-          return null;
-        }
-      };
-
-      const originUrl = await getRemoteUrl('origin');
-      const upstreamUrl = await getRemoteUrl('upstream');
-      const originExists = Boolean(originUrl);
-      const upstreamExists = Boolean(upstreamUrl);
-
-      let baseRemote: 'origin' | 'upstream' | null = null;
-      if (originExists && upstreamExists && originUrl && upstreamUrl && isForkOfUpstream(originUrl, upstreamUrl)) {
-        baseRemote = 'upstream';
-      } else if (originExists) {
-        baseRemote = 'origin';
-      } else if (upstreamExists) {
-        baseRemote = 'upstream';
+      const { baseRef, baseBranch: actualBaseBranch } = pinnedBase
+        ? { baseRef: pinnedBase.commit, baseBranch: pinnedBase.branch }
+        : await this.resolveBaseRef(projectPath, baseBranch, name, sessionId);
+
+      // Ensure we create a fresh branch for this workspace.
+      const branchCheckResult = await this.runGit({
+        cwd: projectPath,
+        argv: ['git', 'show-ref', '--verify', '--quiet', `refs/heads/${branchName}`],
+        op: 'read',
+        throwOnError: false,
+      });
+      if (branchCheckResult.exitCode === 0) {
+        throw new Error(`Branch already exists: ${branchName}`);
       }
 
-      if (baseRemote) {
-        await this.runGit({
-          sessionId,
+      const baseCommit = (await this.runGit({ cwd: projectPath, argv: ['git', 'rev-parse', baseRef], op: 'read' })).stdout.trim();
+
+      await this.runGit({
+        sessionId,
+        cwd: projectPath,
+        argv: ['git', 'worktree', 'add', '-b', branchName, worktreePath, baseRef],
+        op: 'write',
+        meta: { source: 'worktree', worktreeName: name, phase: 'worktree-add', branch: branchName, base: baseRef },
+      });
+
+      return { worktreePath, baseCommit, baseBranch: actualBaseBranch, branchName };
+    });
+  }
+
+  /**
+   * Resolve the commit a new worktree would branch from, without creating one.
+   * Used to start several sibling worktrees from the same base.
+   */
+  async resolveBaseCommit(projectPath: string, baseBranch?: string, sessionId?: string): Promise<{ baseCommit: string; baseBranch: string }> {
+    const { baseRef, baseBranch: resolvedBranch } = await this.resolveBaseRef(projectPath, baseBranch, 'base', sessionId);
+    const baseCommit = (await this.runGit({ cwd: projectPath, argv: ['git', 'rev-parse', baseRef], op: 'read' })).stdout.trim();
+    return { baseCommit, baseBranch: resolvedBranch };
+  }
+
+  // Fetch the base remote and pick the ref new worktrees branch from.
+  private async resolveBaseRef(
+    projectPath: string,
+    baseBranch: string | undefined,
+    name: string,
+    sessionId?: string
+  ): Promise<{ baseRef: string; baseBranch: string }> {
+    const getRemoteUrl = async (remoteName: string): Promise<string | null> => {
+      try {
+        const { stdout } = await this.runGit({
           cwd: projectPath,
-          argv: ['git', 'fetch', baseRemote],
-          op: 'write',
-          meta: { source: 'worktree', worktreeName: name, phase: 'fetch' },
+          argv: ['git', 'remote', 'get-url', remoteName],
+          op: 'read',
         });
+        const trimmed = stdout.trim();
+        return trimmed ? trimmed : null;
+      } catch {
+        return null;
       }
+    };
 
-      // Determine base branch (prefer <remote>/HEAD, then <remote>/main|master, then local HEAD).
-      let mainBranchName = baseBranch;
-      if (!mainBranchName) {
-        if (baseRemote) {
-          try {
-            const remoteHead = (
+    const originUrl = await getRemoteUrl('origin');
+    const upstreamUrl = await getRemoteUrl('upstream');
+    const originExists = Boolean(originUrl);
+    const upstreamExists = Boolean(upstreamUrl);
+
+    let baseRemote: 'origin' | 'upstream' | null = null;
+    if (originExists && upstreamExists && originUrl && upstreamUrl && isForkOfUpstream(originUrl, upstreamUrl)) {
+      baseRemote = 'upstream';
+    } else if (originExists) {
+      baseRemote = 'origin';
+    } else if (upstreamExists) {
+      baseRemote = 'upstream';
+    }
+
+    if (baseRemote) {
+      await this.runGit({
+        sessionId,
+        cwd: projectPath,
+        argv: ['git', 'fetch', baseRemote],
+        op: 'write',
+        meta: { source: 'worktree', worktreeName: name, phase: 'fetch' },
+      });
+    }
+
+    // Determine base branch (prefer <remote>/HEAD, then <remote>/main|master, then local HEAD).
+    let mainBranchName = baseBranch;
+    if (!mainBranchName) {
+      if (baseRemote) {
+        try {
+          const remoteHead = (
+            await this.runGit({
+              cwd: projectPath,
+              argv: ['git', 'symbolic-ref', `refs/remotes/${baseRemote}/HEAD`],
+              op: 'read',
+            })
+          ).stdout.trim();
+          mainBranchName = remoteHead.replace(`refs/remotes/${baseRemote}/`, '').trim();
+        } catch {
+          // ignore
+        }
+        if (!mainBranchName) {
+          for (const candidate of ['main', 'master']) {
+            try {
               await this.runGit({
                 cwd: projectPath,
-                argv: ['git', 'symbolic-ref', `refs/remotes/${baseRemote}/HEAD`],
+                argv: ['git', 'show-ref', '--verify', '--quiet', `refs/remotes/${baseRemote}/${candidate}`],
                 op: 'read',
-              })
-            ).stdout.trim();
-            mainBranchName = remoteHead.replace(`refs/remotes/${baseRemote}/`, '').trim();
-          } catch {
-            // ignore
-          }
-          if (!mainBranchName) {
-            for (const candidate of ['main', 'master']) {
-              try {
-                await this.runGit({
-                  cwd: projectPath,
-                  argv: ['git', 'show-ref', '--verify', '--quiet', `refs/remotes/${baseRemote}/${candidate}`],
-                  op: 'read',
-                });
-                mainBranchName = candidate;
-                break;
-              } catch {
-                // Try next candidate
-              }
+              });
+              mainBranchName = candidate;
+              break;
+            } catch {
+              // Try next candidate
             }
           }
         }
+      }
 
-        if (!mainBranchName) {
-          try {
-            mainBranchName = (await this.runGit({ cwd: projectPath, argv: ['git', 'rev-parse', '--abbrev-ref', 'HEAD'], op: 'read' })).stdout
-              .trim();
-          } catch {
-            mainBranchName = 'main';
-          }
+      if (!mainBranchName) {
+        try {
+          mainBranchName = (await this.runGit({ cwd: projectPath, argv: ['git', 'rev-parse', '--abbrev-ref', 'HEAD'], op: 'read' })).stdout
+            .trim();
+        } catch {
+          mainBranchName = 'main';
         }
       }
+    }
 
-      const actualBaseBranch = mainBranchName;
-      let baseRef = baseRemote ? `${baseRemote}/${mainBranchName}` : mainBranchName;
+    let baseRef = baseRemote ? `${baseRemote}/${mainBranchName}` : mainBranchName;
 
-      if (baseRemote) {
+    if (baseRemote) {
+      await this.runGit({
+        cwd: projectPath,
+        argv: ['git', 'rev-parse', '--verify', `${baseRef}^{commit}`],
+        op: 'read',
+      });
+    } else {
+      try {
         await this.runGit({
           cwd: projectPath,
-          argv: ['git', 'rev-parse', '--verify', `${baseRef}^{commit}`],
+          argv: ['git', 'show-ref', '--verify', '--quiet', `refs/heads/${mainBranchName}`],
           op: 'read',
         });
-      } else {
-        try {
-          await this.runGit({
-            cwd: projectPath,
-            argv: ['git', 'show-ref', '--verify', '--quiet', `refs/heads/${mainBranchName}`],
-            op: 'read',
-          });
-        } catch {
-          baseRef = 'HEAD';
-        }
+      } catch {
+        baseRef = 'HEAD';
       }
+    }
 
-      // Ensure we create a fresh branch for this workspace.
-      const branchCheckResult = await this.runGit({
+    return { baseRef, baseBranch: mainBranchName };
+  }
+
+  async removeWorktreePath(projectPath: string, worktreePath: string, sessionId?: string): Promise<void> {
+    await withLock(`worktree-remove-${worktreePath}`, async () => {
+      await this.runGit({
+        sessionId,
         cwd: projectPath,
-        argv: ['git', 'show-ref', '--verify', '--quiet', `refs/heads/${branchName}`],
+        argv: ['git', 'worktree', 'remove', worktreePath, '--force'],
+        op: 'write',
+        treatAsSuccessIfOutputIncludes: ['is not a working tree'],
+        meta: { source: 'worktree', operation: 'remove', worktreePath },
+      });
+    });
+  }
+
+  /**
+   * Check an existing branch out again at `worktreePath`, e.g. when an archived
+   * session whose worktree was removed is restored.
+   */
+  async restoreWorktree(projectPath: string, worktreePath: string, branch: string, sessionId?: string): Promise<void> {
+    await withLock(`worktree-create-${worktreePath}`, async () => {
+      const branchCheck = await this.runGit({
+        cwd: projectPath,
+        argv: ['git', 'show-ref', '--verify', '--quiet', `refs/heads/${branch}`],
         op: 'read',
         throwOnError: false,
       });
-      if (branchCheckResult.exitCode === 0) {
-        throw new Error(`Branch already exists: ${branchName}`);
+      if (branchCheck.exitCode !== 0) {
+        throw new Error(`Branch no longer exists: ${branch}`);
       }
 
-      const baseCommit = (await this.runGit({ cwd: projectPath, argv: ['git', 'rev-parse', baseRef], op: 'read' })).stdout.trim();
-
+      // Drop stale metadata left behind when the directory was deleted by hand.
       await this.runGit({
         sessionId,
         cwd: projectPath,
-        argv: ['git', 'worktree', 'add', '-b', branchName, worktreePath, baseRef],
+        argv: ['git', 'worktree', 'prune'],
         op: 'write',
-        meta: { source: 'worktree', worktreeName: name, phase: 'worktree-add', branch: branchName, base: baseRef },
+        meta: { source: 'worktree', operation: 'prune', worktreePath },
       });
-
-      return { worktreePath, baseCommit, baseBranch: actualBaseBranch, branchName };
-    });
-  }
-
-  async removeWorktreePath(projectPath: string, worktreePath: string, sessionId?: string): Promise<void> {
-    await withLock(`worktree-remove-${worktreePath}`, async () => {
       await this.runGit({
         sessionId,
         cwd: projectPath,
-        argv: ['git', 'worktree', 'remove', worktreePath, '--force'],
+        argv: ['git', 'worktree', 'add', worktreePath, branch],
         op: 'write',
-        treatAsSuccessIfOutputIncludes: ['is not a working tree'],
-        meta: { source: 'worktree', operation: 'remove', worktreePath },
+        meta: { source: 'worktree', operation: 'restore', worktreePath, branch },
       });
     });
   }
@@ -185,6 +185,54 @@ describe('WorktreeManager', () => {
         })
       );
     });
+    it('should branch from a pinned base commit without fetching', async () => {
+      (mockGitExecutor.run as any).mockImplementation(createWorktreeMockImplementation());
+
+      const result = await worktreeManager.createWorktree(
+        '/tmp/project',
+        'feature-1',
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { commit: 'abc123def456', branch: 'release' }
+      );
+
+      expect(result.baseBranch).toBe('release');
+      expect(mockGitExecutor.run).not.toHaveBeenCalledWith(
+        expect.objectContaining({ argv: expect.arrayContaining(['fetch']) })
+      );
+      expect(mockGitExecutor.run).toHaveBeenCalledWith(
+        expect.objectContaining({
+          argv: ['git', 'worktree', 'add', '-b', 'feature-1', expect.stringContaining('feature-1'), 'abc123def456'],
+        })
+      );
+    });
+  });
+
+  describe('resolveBaseCommit', () => {
+    it('should resolve the remote base branch to a commit', async () => {
+      (mockGitExecutor.run as any).mockImplementation(
+        createWorktreeMockImplementation({
+          'rev-parse origin/main': (cmd) => Promise.resolve({
+            commandDisplay: cmd,
+            commandCopy: cmd,
+            stdout: 'fedcba987654\n',
+            stderr: '',
+            exitCode: 0,
+            durationMs: 0,
+            operationId: 'test-op-id',
+          }),
+        })
+      );
+
+      const result = await worktreeManager.resolveBaseCommit('/tmp/project');
+
+      expect(result).toEqual({ baseCommit: 'fedcba987654', baseBranch: 'main' });
+      expect(mockGitExecutor.run).not.toHaveBeenCalledWith(
+        expect.objectContaining({ argv: expect.arrayContaining(['worktree']) })
+      );
+    });
   });
 
   describe('removeWorktreePath', () => {
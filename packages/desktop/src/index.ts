@@ -16,8 +16,22 @@ import { TaskQueue } from './features/queue';
 import { SessionManager } from './features/session';
 import { ConfigManager } from './infrastructure/config/configManager';
 import { WorktreeManager, WorktreeNameGenerator } from './features/worktree';
-import { GitDiffManager, GitStatusManager, GitStagingManager } from './features/git';
+import { GitDiffManager, GitStatusManager, GitStagingManager, GitWorkflowManager, UpstreamWatcher } from './features/git';
 import { ExecutionTracker } from './features/queue';
+import { PromptQueue } from './features/queue';
+import { FanOutManager } from './features/fanout';
+import { UsageTracker } from './features/usage';
+import { SessionBundleService } from './features/audit';
+import { CheckpointManager } from './features/checkpoints';
+import { ApprovalService } from './features/approvals';
+import { PolicyEngine } from './features/policy';
+import { ScriptRunner } from './features/scripts';
+import { SetupRunner } from './features/setup';
+import { VerifyRunner } from './features/verify';
+import { PlanManager } from './features/plans';
+import { DiffCommentManager, ReviewFeedbackManager } from './features/review';
+import { SessionOrganizer } from './features/organize';
+import { NotificationService, createElectronNotifier } from './features/notifications';
 import { Database as DatabaseService, initializeDatabaseService } from './infrastructure/database';
 import { Logger } from './infrastructure/logging';
 import { setSnowtreeDirectory } from './infrastructure/utils/snowtreeDirectory';
@@ -30,6 +44,7 @@ import { CodexExecutor } from './executors/codex';
 import { GeminiExecutor } from './executors/gemini';
 import { KimiExecutor } from './executors/kimi';
 import { GitExecutor } from './executors/git';
+import { executorRegistry, registerExecutorPlugins } from './executors/registry';
 import { setupConsoleWrapper } from './infrastructure/logging/consoleWrapper';
 import { panelManager } from './features/panels/PanelManager';
 import { UpdateManager, type UpdateAvailableInfo } from './features/updater/UpdateManager';
@@ -124,7 +139,24 @@ let kimiExecutor: KimiExecutor;
 let gitDiffManager: GitDiffManager;
 let gitStatusManager: GitStatusManager;
 let gitStagingManager: GitStagingManager;
+let gitWorkflowManager: GitWorkflowManager;
+let upstreamWatcher: UpstreamWatcher;
 let executionTracker: ExecutionTracker;
+let promptQueue: PromptQueue;
+let fanOutManager: FanOutManager;
+let usageTracker: UsageTracker;
+let sessionBundleService: SessionBundleService;
+let checkpointManager: CheckpointManager;
+let approvalService: ApprovalService;
+let policyEngine: PolicyEngine;
+let scriptRunner: ScriptRunner;
+let setupRunner: SetupRunner;
+let verifyRunner: VerifyRunner;
+let planManager: PlanManager;
+let reviewFeedbackManager: ReviewFeedbackManager;
+let diffCommentManager: DiffCommentManager;
+let sessionOrganizer: SessionOrganizer;
+let notificationService: NotificationService;
 let worktreeNameGenerator: WorktreeNameGenerator;
 let databaseService: DatabaseService;
 let updateManager: UpdateManager | null = null;
@@ -652,10 +684,43 @@ async function initializeServices() {
   geminiExecutor = new GeminiExecutor(sessionManager, logger, configManager);
   kimiExecutor = new KimiExecutor(sessionManager, logger, configManager);
 
+  // Register executor plugins; built-ins share the instances above
+  registerExecutorPlugins();
+  executorRegistry.setExecutor('claude', claudeExecutor);
+  executorRegistry.setExecutor('codex', codexExecutor);
+  executorRegistry.setExecutor('gemini', geminiExecutor);
+  executorRegistry.setExecutor('kimi', kimiExecutor);
+  for (const descriptor of executorRegistry.list()) {
+    executorRegistry.getExecutor(descriptor.id, { sessionManager, logger, configManager });
+  }
+
   gitDiffManager = new GitDiffManager(gitExecutor, logger);
   gitStatusManager = new GitStatusManager(sessionManager, worktreeManager, gitDiffManager, gitExecutor, logger);
   gitStagingManager = new GitStagingManager(gitExecutor, gitStatusManager);
+  gitWorkflowManager = new GitWorkflowManager(gitExecutor);
+  upstreamWatcher = new UpstreamWatcher(sessionManager, gitExecutor, gitWorkflowManager, gitStatusManager, logger);
   executionTracker = new ExecutionTracker(sessionManager, gitDiffManager);
+  promptQueue = new PromptQueue(databaseService, sessionManager, logger);
+  fanOutManager = new FanOutManager(databaseService, sessionManager, worktreeManager, gitExecutor, logger);
+  usageTracker = new UsageTracker(databaseService, sessionManager, logger);
+  sessionBundleService = new SessionBundleService(databaseService, gitExecutor, logger);
+  checkpointManager = new CheckpointManager(databaseService, sessionManager, gitExecutor, logger);
+  approvalService = new ApprovalService(sessionManager, logger);
+  policyEngine = new PolicyEngine(databaseService, sessionManager, logger);
+  scriptRunner = new ScriptRunner(databaseService, sessionManager, logger);
+  setupRunner = new SetupRunner(databaseService, sessionManager, logger);
+  verifyRunner = new VerifyRunner(databaseService, sessionManager, logger);
+  planManager = new PlanManager(databaseService, sessionManager, logger);
+  reviewFeedbackManager = new ReviewFeedbackManager(databaseService, sessionManager, logger);
+  diffCommentManager = new DiffCommentManager(databaseService, sessionManager, gitExecutor, logger);
+  sessionOrganizer = new SessionOrganizer(databaseService, sessionManager, worktreeManager, gitExecutor, logger);
+  notificationService = new NotificationService(
+    sessionManager,
+    createElectronNotifier(() => mainWindow),
+    approvalService,
+    scriptRunner,
+    logger
+  );
   worktreeNameGenerator = new WorktreeNameGenerator(configManager);
 
   taskQueue = new TaskQueue({
@@ -666,7 +731,9 @@ async function initializeServices() {
     executionTracker,
     worktreeNameGenerator,
     getMainWindow: () => mainWindow,
-    gitExecutor
+    gitExecutor,
+    setupRunner,
+    checkpointManager
   });
 
   // Initialize Telegram service
@@ -678,6 +745,8 @@ async function initializeServices() {
     codexExecutor,
     geminiExecutor,
     kimiExecutor,
+    approvalService,
+    verifyRunner,
     logger,
     configManager,
   });
@@ -696,9 +765,26 @@ async function initializeServices() {
     gitDiffManager,
     gitStatusManager,
     gitStagingManager,
+    gitWorkflowManager,
+    upstreamWatcher,
     executionTracker,
     worktreeNameGenerator,
     taskQueue,
+    promptQueue,
+    fanOutManager,
+    usageTracker,
+    sessionBundleService,
+    checkpointManager,
+    approvalService,
+    policyEngine,
+    scriptRunner,
+    setupRunner,
+    verifyRunner,
+    planManager,
+    reviewFeedbackManager,
+    diffCommentManager,
+    sessionOrganizer,
+    notificationService,
     getMainWindow: () => mainWindow,
     logger,
     updateManager,
@@ -809,6 +895,9 @@ app.whenReady().then(async () => {
   await createWindow();
   console.log('[Main] Window created successfully');
 
+  // Send prompts left queued for sessions that were idle when the app quit.
+  void promptQueue.resumeIdleSessions();
+
   // Forward update events to renderer (production only; updateManager is created in initializeServices).
   if (updateManager) {
     updateManager.on('update-available', (info: UpdateAvailableInfo) => {
@@ -862,6 +951,16 @@ app.on('before-quit', async (event) => {
         // best-effort
       }
     }
+    if (scriptRunner) {
+      try {
+        await scriptRunner.stopAll();
+      } catch {
+        // best-effort
+      }
+    }
+    setupRunner?.cancelAll();
+    verifyRunner?.cancelAll();
+    upstreamWatcher?.stop();
     if (gitStatusManager) {
       gitStatusManager.stopPolling();
     }
@@ -896,6 +995,13 @@ app.on('before-quit', async (event) => {
         // best-effort
       }
     }
+    for (const executor of executorRegistry.getPluginExecutors()) {
+      try {
+        await executor.cleanup();
+      } catch {
+        // best-effort
+      }
+    }
     if (taskQueue) {
       try {
         await taskQueue.close();
@@ -916,6 +1022,20 @@ app.on('before-quit', async (event) => {
     console.log('[Main] Session cleanup complete');
   }
 
+  // Stop run scripts started from any session
+  if (scriptRunner) {
+    console.log('[Main] Stopping run scripts...');
+    await scriptRunner.stopAll();
+    console.log('[Main] Run scripts stopped');
+  }
+
+  // Stop worktree setup and verify commands that are still running
+  setupRunner?.cancelAll();
+  verifyRunner?.cancelAll();
+
+  // Stop background upstream fetches
+  upstreamWatcher?.stop();
+
   // Stop git status polling
   if (gitStatusManager) {
     console.log('[Main] Stopping git status polling...');
@@ -951,6 +1071,10 @@ app.on('before-quit', async (event) => {
     await kimiExecutor.cleanup();
     console.log('[Main] Kimi executor shutdown complete');
   }
+  for (const executor of executorRegistry.getPluginExecutors()) {
+    console.log(`[Main] Shutting down ${executor.getToolName()} executor...`);
+    await executor.cleanup();
+  }
 
   // Close task queue
   if (taskQueue) {
@@ -1,8 +1,8 @@
 import Database from 'better-sqlite3';
 import { readFileSync, mkdirSync } from 'fs';
 import { join, dirname } from 'path';
-import type { Project, ProjectRunCommand, Folder, Session, SessionOutput, CreateSessionData, UpdateSessionData, ConversationMessage, PromptMarker, ExecutionDiff, CreateExecutionDiffData, CreatePanelExecutionDiffData } from './models';
-import type { TimelineEvent, CreateTimelineEventData } from './models';
+import type { Project, ProjectRunCommand, ProjectRunCommandInput, SessionImport, ImportSessionData, SessionCheckpoint, SessionPlan, DiffComment, CreateDiffCommentData, ReviewCommentState, QueuedPrompt, TokenUsageRecord, CreateTokenUsageData, TokenUsageTotals, UsageBudget, UsageBudgetScope, PolicyRule, PolicyRuleInput, ProjectSetupStep, ProjectSetupStepInput, ProjectSessionTemplate, ProjectSessionTemplateInput, Folder, Session, SessionOutput, CreateSessionData, UpdateSessionData, ConversationMessage, PromptMarker, ExecutionDiff, CreateExecutionDiffData, CreatePanelExecutionDiffData, UpdateExecutionVerifyData } from './models';
+import type { TimelineEvent, CreateTimelineEventData, HistorySearchOptions, HistorySearchHit, HistorySearchKind } from './models';
 import type { ToolPanel, ToolPanelType, ToolPanelState, ToolPanelMetadata } from '@snowtree/core/types/panels';
 import { fileLogger } from '../logging/fileLogger';
 
@@ -45,6 +45,35 @@ interface ExecutionDiffRow {
   after_commit_hash?: string;
   commit_message?: string;
   timestamp: string;
+  panel_id?: string | null;
+  verify_status?: ExecutionDiff['verify_status'] | null;
+  verify_exit_code?: number | null;
+  verify_output?: string | null;
+  verify_iteration?: number | null;
+}
+
+const SEARCH_KIND_EVENTS: Record<Exclude<HistorySearchKind, 'diff'>, string[]> = {
+  prompt: ['chat.user'],
+  assistant: ['chat.assistant', 'thinking', 'plan'],
+  command: ['cli.command', 'git.command', 'worktree.command', 'verify_result'],
+  tool: ['tool_use', 'tool_result', 'user_question', 'approval_request', 'policy_decision'],
+};
+
+const searchKindForEvent = (eventKind: string): HistorySearchKind => {
+  for (const [kind, events] of Object.entries(SEARCH_KIND_EVENTS)) {
+    if (events.includes(eventKind)) return kind as HistorySearchKind;
+  }
+  return 'tool';
+};
+
+/**
+ * Turn free text into an FTS5 query: every word must match, the last one as a prefix.
+ * Words are quoted so FTS5 operators and punctuation in the input are taken literally.
+ */
+export function toFtsQuery(input: string): string | null {
+  const words = input.split(/\s+/).map((word) => word.replace(/"/g, '""')).filter(Boolean);
+  if (words.length === 0) return null;
+  return words.map((word, index) => (index === words.length - 1 ? `"${word}"*` : `"${word}"`)).join(' ');
 }
 
 export class DatabaseService {
@@ -126,6 +155,10 @@ export class DatabaseService {
     const migrations: Migration[] = [
       { version: 1, name: 'add_execution_mode', run: () => this.migrate_001_add_execution_mode() },
       { version: 2, name: 'add_repo_info_cache', run: () => this.migrate_002_add_repo_info_cache() },
+      { version: 3, name: 'add_workflow_prompt_templates', run: () => this.migrate_003_add_workflow_prompt_templates() },
+      { version: 4, name: 'add_custom_executor_spec', run: () => this.migrate_004_add_custom_executor_spec() },
+      { version: 5, name: 'add_history_search_index', run: () => this.migrate_005_add_history_search_index() },
+      { version: 6, name: 'add_verify_gate', run: () => this.migrate_006_add_verify_gate() },
       // Future migrations go here
     ];
 
@@ -217,6 +250,131 @@ export class DatabaseService {
     }
   }
 
+  // Migration 003: Add per-project workflow prompt templates (commit/push/update/sync)
+  private migrate_003_add_workflow_prompt_templates(): void {
+    interface SqliteTableInfo {
+      cid: number;
+      name: string;
+      type: string;
+      notnull: number;
+      dflt_value: unknown;
+      pk: number;
+    }
+
+    const tableInfo = this.db.prepare("PRAGMA table_info(projects)").all() as SqliteTableInfo[];
+    const existingColumns = new Set(tableInfo.map((col: SqliteTableInfo) => col.name));
+
+    for (const column of ['commit_prompt_template', 'push_prompt_template', 'update_prompt_template', 'sync_prompt_template']) {
+      if (!existingColumns.has(column)) {
+        this.db.prepare(`ALTER TABLE projects ADD COLUMN ${column} TEXT`).run();
+      }
+    }
+  }
+
+  // Migration 004: Add per-project custom command executor spec (JSON)
+  private migrate_004_add_custom_executor_spec(): void {
+    interface SqliteTableInfo {
+      cid: number;
+      name: string;
+      type: string;
+      notnull: number;
+      dflt_value: unknown;
+      pk: number;
+    }
+
+    const tableInfo = this.db.prepare("PRAGMA table_info(projects)").all() as SqliteTableInfo[];
+    const hasColumn = tableInfo.some((col: SqliteTableInfo) => col.name === 'custom_executor_spec');
+
+    if (!hasColumn) {
+      this.db.prepare('ALTER TABLE projects ADD COLUMN custom_executor_spec TEXT').run();
+    }
+  }
+
+  // Migration 005: Add FTS5 indexes over timeline events and execution diffs.
+  // External-content tables stay in sync through triggers (kept out of schema.sql,
+  // which is split on ';' and cannot hold trigger bodies).
+  private migrate_005_add_history_search_index(): void {
+    this.db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS timeline_events_fts USING fts5(
+        content, command, tool_input, tool_result,
+        content='timeline_events', content_rowid='id', tokenize='unicode61'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS timeline_events_fts_ai AFTER INSERT ON timeline_events BEGIN
+        INSERT INTO timeline_events_fts(rowid, content, command, tool_input, tool_result)
+        VALUES (new.id, new.content, new.command, new.tool_input, new.tool_result);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS timeline_events_fts_ad AFTER DELETE ON timeline_events BEGIN
+        INSERT INTO timeline_events_fts(timeline_events_fts, rowid, content, command, tool_input, tool_result)
+        VALUES ('delete', old.id, old.content, old.command, old.tool_input, old.tool_result);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS timeline_events_fts_au AFTER UPDATE OF content, command, tool_input, tool_result ON timeline_events BEGIN
+        INSERT INTO timeline_events_fts(timeline_events_fts, rowid, content, command, tool_input, tool_result)
+        VALUES ('delete', old.id, old.content, old.command, old.tool_input, old.tool_result);
+        INSERT INTO timeline_events_fts(rowid, content, command, tool_input, tool_result)
+        VALUES (new.id, new.content, new.command, new.tool_input, new.tool_result);
+      END;
+
+      CREATE VIRTUAL TABLE IF NOT EXISTS execution_diffs_fts USING fts5(
+        git_diff, files_changed, commit_message,
+        content='execution_diffs', content_rowid='id', tokenize='unicode61'
+      );
+
+      CREATE TRIGGER IF NOT EXISTS execution_diffs_fts_ai AFTER INSERT ON execution_diffs BEGIN
+        INSERT INTO execution_diffs_fts(rowid, git_diff, files_changed, commit_message)
+        VALUES (new.id, new.git_diff, new.files_changed, new.commit_message);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS execution_diffs_fts_ad AFTER DELETE ON execution_diffs BEGIN
+        INSERT INTO execution_diffs_fts(execution_diffs_fts, rowid, git_diff, files_changed, commit_message)
+        VALUES ('delete', old.id, old.git_diff, old.files_changed, old.commit_message);
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS execution_diffs_fts_au AFTER UPDATE OF git_diff, files_changed, commit_message ON execution_diffs BEGIN
+        INSERT INTO execution_diffs_fts(execution_diffs_fts, rowid, git_diff, files_changed, commit_message)
+        VALUES ('delete', old.id, old.git_diff, old.files_changed, old.commit_message);
+        INSERT INTO execution_diffs_fts(rowid, git_diff, files_changed, commit_message)
+        VALUES (new.id, new.git_diff, new.files_changed, new.commit_message);
+      END;
+
+      INSERT INTO timeline_events_fts(timeline_events_fts) VALUES ('rebuild');
+      INSERT INTO execution_diffs_fts(execution_diffs_fts) VALUES ('rebuild');
+    `);
+  }
+
+  // Migration 006: Add the per-project verify command and per-round verify results
+  private migrate_006_add_verify_gate(): void {
+    interface SqliteTableInfo {
+      cid: number;
+      name: string;
+      type: string;
+      notnull: number;
+      dflt_value: unknown;
+      pk: number;
+    }
+
+    const columnsOf = (table: string) =>
+      new Set((this.db.prepare(`PRAGMA table_info(${table})`).all() as SqliteTableInfo[]).map((col) => col.name));
+
+    const additions: Array<[string, string, string]> = [
+      ['projects', 'verify_command', 'TEXT'],
+      ['projects', 'verify_auto_fix', 'BOOLEAN DEFAULT 0'],
+      ['projects', 'verify_max_iterations', 'INTEGER DEFAULT 3'],
+      ['execution_diffs', 'verify_status', 'TEXT'],
+      ['execution_diffs', 'verify_exit_code', 'INTEGER'],
+      ['execution_diffs', 'verify_output', 'TEXT'],
+      ['execution_diffs', 'verify_iteration', 'INTEGER'],
+    ];
+    const existing = new Map(['projects', 'execution_diffs'].map((table) => [table, columnsOf(table)]));
+    for (const [table, column, type] of additions) {
+      if (!existing.get(table)?.has(column)) {
+        this.db.prepare(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`).run();
+      }
+    }
+  }
+
   private ensureSessionsTableColumns(): void {
     interface SqliteTableInfo {
       cid: number;
@@ -267,6 +425,10 @@ export class DatabaseService {
     if (!existing.has('origin_owner_repo')) {
       addColumnBestEffort("ALTER TABLE sessions ADD COLUMN origin_owner_repo TEXT", 'origin_owner_repo');
     }
+
+    if (!existing.has('imported_at')) {
+      addColumnBestEffort("ALTER TABLE sessions ADD COLUMN imported_at DATETIME", 'imported_at');
+    }
   }
 
   private migrateTimelineMaskedPrompts(): void {
@@ -433,6 +595,38 @@ export class DatabaseService {
       fields.push('commit_checkpoint_prefix = ?');
       values.push(updates.commit_checkpoint_prefix);
     }
+    if (updates.commit_prompt_template !== undefined) {
+      fields.push('commit_prompt_template = ?');
+      values.push(updates.commit_prompt_template);
+    }
+    if (updates.push_prompt_template !== undefined) {
+      fields.push('push_prompt_template = ?');
+      values.push(updates.push_prompt_template);
+    }
+    if (updates.update_prompt_template !== undefined) {
+      fields.push('update_prompt_template = ?');
+      values.push(updates.update_prompt_template);
+    }
+    if (updates.sync_prompt_template !== undefined) {
+      fields.push('sync_prompt_template = ?');
+      values.push(updates.sync_prompt_template);
+    }
+    if (updates.custom_executor_spec !== undefined) {
+      fields.push('custom_executor_spec = ?');
+      values.push(updates.custom_executor_spec);
+    }
+    if (updates.verify_command !== undefined) {
+      fields.push('verify_command = ?');
+      values.push(updates.verify_command);
+    }
+    if (updates.verify_auto_fix !== undefined) {
+      fields.push('verify_auto_fix = ?');
+      values.push(updates.verify_auto_fix ? 1 : 0);
+    }
+    if (updates.verify_max_iterations !== undefined) {
+      fields.push('verify_max_iterations = ?');
+      values.push(updates.verify_max_iterations);
+    }
 
     if (fields.length === 0) {
       return this.getProject(id);
@@ -731,6 +925,220 @@ export class DatabaseService {
     return result.changes > 0;
   }
 
+  /**
+   * Replace a project's run commands with `commands`, in order. Existing commands
+   * keep their ids so running scripts stay attached to them.
+   */
+  setProjectRunCommands(projectId: number, commands: ProjectRunCommandInput[]): ProjectRunCommand[] {
+    const update = this.db.prepare(`
+      UPDATE project_run_commands SET command = ?, display_name = ?, order_index = ?
+      WHERE id = ? AND project_id = ?
+    `);
+    const insert = this.db.prepare(`
+      INSERT INTO project_run_commands (project_id, command, display_name, order_index)
+      VALUES (?, ?, ?, ?)
+    `);
+    this.transaction(() => {
+      const kept = new Set<number>();
+      commands.forEach((command, index) => {
+        const displayName = command.display_name?.trim() || null;
+        if (command.id !== undefined && update.run(command.command, displayName, index, command.id, projectId).changes > 0) {
+          kept.add(command.id);
+        } else {
+          kept.add(Number(insert.run(projectId, command.command, displayName, index).lastInsertRowid));
+        }
+      });
+      for (const existing of this.getProjectRunCommands(projectId)) {
+        if (!kept.has(existing.id)) this.deleteRunCommand(existing.id);
+      }
+    });
+    return this.getProjectRunCommands(projectId);
+  }
+
+  // Checkpoint operations
+  addSessionCheckpoint(data: Omit<SessionCheckpoint, 'id' | 'created_at'>): SessionCheckpoint {
+    const result = this.db.prepare(`
+      INSERT INTO session_checkpoints (session_id, panel_id, kind, prompt_seq, head_commit, snapshot_commit, ref_name)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(data.session_id, data.panel_id, data.kind, data.prompt_seq, data.head_commit, data.snapshot_commit, data.ref_name);
+
+    const checkpoint = this.getSessionCheckpoint(result.lastInsertRowid as number);
+    if (!checkpoint) {
+      throw new Error('Failed to save checkpoint');
+    }
+    return checkpoint;
+  }
+
+  getSessionCheckpoint(id: number): SessionCheckpoint | undefined {
+    return this.db.prepare('SELECT * FROM session_checkpoints WHERE id = ?').get(id) as SessionCheckpoint | undefined;
+  }
+
+  getSessionCheckpoints(sessionId: string, kind: SessionCheckpoint['kind']): SessionCheckpoint[] {
+    return this.db.prepare('SELECT * FROM session_checkpoints WHERE session_id = ? AND kind = ? ORDER BY id ASC').all(sessionId, kind) as SessionCheckpoint[];
+  }
+
+  deleteSessionCheckpoint(id: number): boolean {
+    const result = this.db.prepare('DELETE FROM session_checkpoints WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  // Session plan operations
+  /** Add the next plan version as the session's draft; older drafts are superseded. */
+  addSessionPlan(sessionId: string, panelId: string, content: string, source: SessionPlan['source']): SessionPlan {
+    const id = this.transaction(() => {
+      const row = this.db.prepare('SELECT MAX(version) as max_version FROM session_plans WHERE session_id = ?').get(sessionId) as { max_version: number | null };
+      this.db.prepare("UPDATE session_plans SET status = 'superseded' WHERE session_id = ? AND status = 'draft'").run(sessionId);
+      const result = this.db.prepare(`
+        INSERT INTO session_plans (session_id, panel_id, version, content, source)
+        VALUES (?, ?, ?, ?, ?)
+      `).run(sessionId, panelId, (row?.max_version ?? 0) + 1, content, source);
+      return result.lastInsertRowid as number;
+    });
+
+    const plan = this.getSessionPlan(id);
+    if (!plan) {
+      throw new Error('Failed to save plan');
+    }
+    return plan;
+  }
+
+  getSessionPlan(id: number): SessionPlan | undefined {
+    return this.db.prepare('SELECT * FROM session_plans WHERE id = ?').get(id) as SessionPlan | undefined;
+  }
+
+  getSessionPlans(sessionId: string): SessionPlan[] {
+    return this.db.prepare('SELECT * FROM session_plans WHERE session_id = ? ORDER BY version ASC').all(sessionId) as SessionPlan[];
+  }
+
+  approveSessionPlan(id: number): SessionPlan | undefined {
+    this.db.prepare("UPDATE session_plans SET status = 'approved', approved_at = CURRENT_TIMESTAMP WHERE id = ? AND status = 'draft'").run(id);
+    return this.getSessionPlan(id);
+  }
+
+  // Review comment state operations
+  getReviewCommentStates(sessionId: string): ReviewCommentState[] {
+    return this.db.prepare('SELECT * FROM review_comment_states WHERE session_id = ?').all(sessionId) as ReviewCommentState[];
+  }
+
+  setReviewCommentStatus(sessionId: string, commentIds: string[], status: ReviewCommentState['status']): void {
+    const upsert = this.db.prepare(`
+      INSERT INTO review_comment_states (session_id, comment_id, status, updated_at)
+      VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(session_id, comment_id) DO UPDATE SET status = excluded.status, updated_at = CURRENT_TIMESTAMP
+    `);
+    this.transaction(() => {
+      for (const commentId of commentIds) upsert.run(sessionId, commentId, status);
+    });
+  }
+
+  clearReviewCommentStatus(sessionId: string, commentIds: string[]): void {
+    const remove = this.db.prepare('DELETE FROM review_comment_states WHERE session_id = ? AND comment_id = ?');
+    this.transaction(() => {
+      for (const commentId of commentIds) remove.run(sessionId, commentId);
+    });
+  }
+
+  /** Mark every comment sent to the agent as addressed; returns how many changed. */
+  markSentReviewCommentsAddressed(sessionId: string): number {
+    const result = this.db.prepare(`
+      UPDATE review_comment_states SET status = 'addressed', updated_at = CURRENT_TIMESTAMP
+      WHERE session_id = ? AND status = 'sent'
+    `).run(sessionId);
+    return result.changes;
+  }
+
+  // Diff comment operations
+  addDiffComment(data: CreateDiffCommentData): DiffComment {
+    const result = this.db.prepare(`
+      INSERT INTO diff_comments (session_id, file_path, side, start_line, end_line, anchor_text, commit_hash, body)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(data.session_id, data.file_path, data.side, data.start_line, data.end_line, data.anchor_text, data.commit_hash, data.body);
+
+    const comment = this.getDiffComment(result.lastInsertRowid as number);
+    if (!comment) {
+      throw new Error('Failed to save comment');
+    }
+    return comment;
+  }
+
+  getDiffComment(id: number): DiffComment | undefined {
+    const row = this.db.prepare('SELECT * FROM diff_comments WHERE id = ?').get(id) as (Omit<DiffComment, 'outdated'> & { outdated: number }) | undefined;
+    return row ? { ...row, outdated: Boolean(row.outdated) } : undefined;
+  }
+
+  getDiffComments(sessionId: string): DiffComment[] {
+    const rows = this.db.prepare('SELECT * FROM diff_comments WHERE session_id = ? ORDER BY file_path ASC, start_line ASC, id ASC')
+      .all(sessionId) as Array<Omit<DiffComment, 'outdated'> & { outdated: number }>;
+    return rows.map((row) => ({ ...row, outdated: Boolean(row.outdated) }));
+  }
+
+  updateDiffCommentBody(id: number, body: string): DiffComment | undefined {
+    this.db.prepare('UPDATE diff_comments SET body = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?').run(body, id);
+    return this.getDiffComment(id);
+  }
+
+  /** Move a comment to where its anchored line is now, or flag it when the line is gone. */
+  updateDiffCommentAnchor(id: number, startLine: number, endLine: number, outdated: boolean): void {
+    this.db.prepare('UPDATE diff_comments SET start_line = ?, end_line = ?, outdated = ? WHERE id = ?')
+      .run(startLine, endLine, outdated ? 1 : 0, id);
+  }
+
+  markDiffCommentsSent(ids: number[]): void {
+    const update = this.db.prepare("UPDATE diff_comments SET status = 'sent', updated_at = CURRENT_TIMESTAMP WHERE id = ?");
+    this.transaction(() => {
+      for (const id of ids) update.run(id);
+    });
+  }
+
+  deleteDiffComment(id: number): boolean {
+    const result = this.db.prepare('DELETE FROM diff_comments WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  // Queued prompt operations
+  addQueuedPrompt(sessionId: string, panelId: string, prompt: string, planMode = false): QueuedPrompt {
+    const row = this.db.prepare('SELECT MAX(order_index) as max_order FROM queued_prompts WHERE session_id = ?').get(sessionId) as { max_order: number | null };
+    const result = this.db.prepare(`
+      INSERT INTO queued_prompts (session_id, panel_id, prompt, plan_mode, order_index)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(sessionId, panelId, prompt, planMode ? 1 : 0, (row?.max_order ?? -1) + 1);
+
+    const queued = this.getQueuedPrompt(result.lastInsertRowid as number);
+    if (!queued) {
+      throw new Error('Failed to queue prompt');
+    }
+    return queued;
+  }
+
+  getQueuedPrompt(id: number): QueuedPrompt | undefined {
+    const row = this.db.prepare('SELECT * FROM queued_prompts WHERE id = ?').get(id) as QueuedPrompt | undefined;
+    return row ? { ...row, plan_mode: Boolean(row.plan_mode) } : undefined;
+  }
+
+  getQueuedPrompts(sessionId: string): QueuedPrompt[] {
+    const rows = this.db.prepare('SELECT * FROM queued_prompts WHERE session_id = ? ORDER BY order_index ASC, id ASC').all(sessionId) as QueuedPrompt[];
+    return rows.map((row) => ({ ...row, plan_mode: Boolean(row.plan_mode) }));
+  }
+
+  getSessionIdsWithQueuedPrompts(): string[] {
+    const rows = this.db.prepare('SELECT DISTINCT session_id FROM queued_prompts').all() as Array<{ session_id: string }>;
+    return rows.map((row) => row.session_id);
+  }
+
+  deleteQueuedPrompt(id: number): boolean {
+    const result = this.db.prepare('DELETE FROM queued_prompts WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+
+  reorderQueuedPrompts(sessionId: string, orderedIds: number[]): void {
+    const update = this.db.prepare('UPDATE queued_prompts SET order_index = ? WHERE id = ? AND session_id = ?');
+    this.transaction(() => {
+      orderedIds.forEach((id, index) => {
+        update.run(index, id, sessionId);
+      });
+    });
+  }
+
   // Session operations
   createSession(data: CreateSessionData): Session {
     return this.transaction(() => {
@@ -982,12 +1390,167 @@ export class DatabaseService {
   deleteSessionPermanently(id: string): boolean {
     const tx = this.db.transaction(() => {
       this.db.prepare('DELETE FROM timeline_events WHERE session_id = ?').run(id);
+      this.db.prepare('DELETE FROM queued_prompts WHERE session_id = ?').run(id);
+      this.db.prepare('DELETE FROM session_imports WHERE session_id = ?').run(id);
+      this.db.prepare('DELETE FROM session_checkpoints WHERE session_id = ?').run(id);
+      this.db.prepare('DELETE FROM session_plans WHERE session_id = ?').run(id);
+      this.db.prepare('DELETE FROM review_comment_states WHERE session_id = ?').run(id);
+      this.db.prepare('DELETE FROM diff_comments WHERE session_id = ?').run(id);
       const res = this.db.prepare('DELETE FROM sessions WHERE id = ?').run(id);
       return res.changes > 0;
     });
     return tx();
   }
 
+  /**
+   * Recreate an exported session as an archived, read-only copy. The caller assigns session and
+   * panel ids; prompt markers, diffs and timeline events get fresh row ids here.
+   */
+  importSession(data: ImportSessionData): Session {
+    return this.transaction(() => {
+      const { session, provenance } = data;
+      this.db.prepare(`
+        INSERT INTO sessions (
+          id, name, initial_prompt, worktree_name, worktree_path, status, project_id, tool_type,
+          base_commit, base_branch, archived, created_at, updated_at, last_viewed_at, imported_at
+        )
+        VALUES (?, ?, ?, ?, '', 'stopped', ?, ?, ?, ?, 1, ?, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+      `).run(
+        session.id,
+        session.name,
+        session.initial_prompt,
+        session.worktree_name,
+        session.project_id,
+        session.tool_type,
+        session.base_commit,
+        session.base_branch,
+        session.created_at
+      );
+
+      const insertPanel = this.db.prepare(`
+        INSERT INTO tool_panels (id, session_id, type, title, state, metadata)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `);
+      for (const panel of data.panels) {
+        insertPanel.run(
+          panel.id,
+          session.id,
+          panel.type,
+          panel.title,
+          panel.state ? JSON.stringify(panel.state) : null,
+          panel.metadata ? JSON.stringify(panel.metadata) : null
+        );
+      }
+
+      const markerIds = new Map<number, number>();
+      const insertMarker = this.db.prepare(`
+        INSERT INTO prompt_markers (session_id, prompt_text, output_index, output_line, timestamp, completion_timestamp)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `);
+      for (const marker of data.promptMarkers) {
+        const result = insertMarker.run(
+          session.id,
+          marker.prompt_text,
+          marker.output_index,
+          marker.output_line ?? null,
+          marker.timestamp,
+          marker.completion_timestamp ?? null
+        );
+        markerIds.set(marker.id, Number(result.lastInsertRowid));
+      }
+
+      const insertDiff = this.db.prepare(`
+        INSERT INTO execution_diffs (
+          session_id, prompt_marker_id, execution_sequence, git_diff, files_changed, stats_additions,
+          stats_deletions, stats_files_changed, before_commit_hash, after_commit_hash, commit_message, timestamp,
+          verify_status, verify_exit_code, verify_output, verify_iteration
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      for (const diff of data.executionDiffs) {
+        insertDiff.run(
+          session.id,
+          diff.prompt_marker_id !== undefined ? markerIds.get(diff.prompt_marker_id) ?? null : null,
+          diff.execution_sequence,
+          diff.git_diff ?? null,
+          diff.files_changed ? JSON.stringify(diff.files_changed) : null,
+          diff.stats_additions,
+          diff.stats_deletions,
+          diff.stats_files_changed,
+          diff.before_commit_hash ?? null,
+          diff.after_commit_hash ?? null,
+          diff.commit_message ?? null,
+          diff.timestamp,
+          diff.verify_status ?? null,
+          diff.verify_exit_code ?? null,
+          diff.verify_output ?? null,
+          diff.verify_iteration ?? null
+        );
+      }
+
+      const insertEvent = this.db.prepare(`
+        INSERT INTO timeline_events (
+          session_id, seq, timestamp, kind, status, command, cwd, duration_ms, exit_code, panel_id, tool, meta_json,
+          tool_name, tool_input, tool_result, is_error, content, is_streaming, tool_use_id, questions, answers, action_type, thinking_id
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `);
+      for (const event of data.timelineEvents) {
+        insertEvent.run(
+          session.id,
+          event.seq,
+          event.timestamp,
+          event.kind,
+          event.status ?? null,
+          event.command ?? null,
+          event.cwd ?? null,
+          event.duration_ms ?? null,
+          event.exit_code ?? null,
+          event.panel_id ?? null,
+          event.tool ?? null,
+          event.meta ? JSON.stringify(event.meta) : null,
+          event.tool_name ?? null,
+          event.tool_input ?? null,
+          event.tool_result ?? null,
+          event.is_error ?? 0,
+          event.content ?? null,
+          0,
+          event.tool_use_id ?? null,
+          event.questions ?? null,
+          event.answers ?? null,
+          event.action_type ?? null,
+          event.thinking_id ?? null
+        );
+      }
+
+      this.db.prepare(`
+        INSERT INTO session_imports (session_id, source_session_id, source_project_name, exported_at, base_ref, final_diff, commits_json)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        session.id,
+        provenance.source_session_id,
+        provenance.source_project_name,
+        provenance.exported_at,
+        provenance.base_ref,
+        provenance.final_diff,
+        JSON.stringify(provenance.commits)
+      );
+
+      const created = this.getSession(session.id);
+      if (!created) {
+        throw new Error('Failed to import session');
+      }
+      return created;
+    });
+  }
+
+  getSessionImport(sessionId: string): SessionImport | undefined {
+    const row = this.db.prepare('SELECT * FROM session_imports WHERE session_id = ?').get(sessionId) as
+      (Omit<SessionImport, 'commits'> & { commits_json: string }) | undefined;
+    if (!row) return undefined;
+    const { commits_json, ...rest } = row;
+    return { ...rest, commits: JSON.parse(commits_json) as SessionImport['commits'] };
+  }
+
   // Session output operations
   addSessionOutput(sessionId: string, type: 'stdout' | 'stderr' | 'system' | 'json' | 'error', data: string): void {
     this.db.prepare(`
@@ -1079,10 +1642,10 @@ export class DatabaseService {
       LIMIT 1
     `);
 
-    // Check if tool_use_id exists (for user_question status updates)
+    // Check if tool_use_id exists (for user_question / approval_request status updates)
     const findByToolUseId = this.db.prepare(`
       SELECT id, seq FROM timeline_events
-      WHERE session_id = ? AND tool_use_id = ? AND kind = 'user_question'
+      WHERE session_id = ? AND tool_use_id = ? AND kind = ?
       LIMIT 1
     `);
 
@@ -1208,12 +1771,12 @@ export class DatabaseService {
         // Fall through to INSERT if not found
       }
 
-      // Handle user_question status updates (UPSERT by tool_use_id)
-      if (data.tool_use_id && data.kind === 'user_question') {
-        const existing = findByToolUseId.get(data.session_id, data.tool_use_id) as { id: number; seq: number } | undefined;
+      // Handle user_question / approval_request status updates (UPSERT by tool_use_id)
+      if (data.tool_use_id && (data.kind === 'user_question' || data.kind === 'approval_request')) {
+        const existing = findByToolUseId.get(data.session_id, data.tool_use_id, data.kind) as { id: number; seq: number } | undefined;
 
         if (existing) {
-          // Update existing user_question event (e.g., pending -> answered)
+          // Update existing event (e.g., pending -> answered)
           updateUserQuestion.run(
             data.status ?? null,
             data.answers ?? null,
@@ -1464,6 +2027,100 @@ export class DatabaseService {
     } satisfies TimelineEvent;
   }
 
+  /**
+   * Full-text search over timeline events and execution diffs, archived sessions included.
+   */
+  searchHistory(options: HistorySearchOptions): HistorySearchHit[] {
+    const match = toFtsQuery(options.query ?? '');
+    if (!match) return [];
+    const limit = Math.max(1, Math.min(options.limit ?? 50, 200));
+    const kinds = options.kinds && options.kinds.length > 0 ? options.kinds : null;
+
+    const sessionFilters: string[] = [];
+    const sessionParams: unknown[] = [];
+    if (options.projectId !== undefined) {
+      sessionFilters.push('s.project_id = ?');
+      sessionParams.push(options.projectId);
+    }
+    if (options.sessionId) {
+      sessionFilters.push('s.id = ?');
+      sessionParams.push(options.sessionId);
+    }
+    if (options.includeArchived === false) {
+      sessionFilters.push('(s.archived = 0 OR s.archived IS NULL)');
+    }
+    const dateFilters = (column: string) => {
+      const clauses: string[] = [];
+      const params: unknown[] = [];
+      if (options.since) {
+        clauses.push(`julianday(${column}) >= julianday(?)`);
+        params.push(options.since);
+      }
+      if (options.until) {
+        clauses.push(`julianday(${column}) <= julianday(?)`);
+        params.push(options.until);
+      }
+      return { clauses, params };
+    };
+
+    type Row = Omit<HistorySearchHit, 'archived' | 'kind'> & { archived: number | null };
+    const rows: Row[] = [];
+
+    const eventKinds = kinds
+      ? kinds.filter((kind): kind is Exclude<HistorySearchKind, 'diff'> => kind !== 'diff').flatMap((kind) => SEARCH_KIND_EVENTS[kind])
+      : null;
+    if (!eventKinds || eventKinds.length > 0) {
+      const dates = dateFilters('t.timestamp');
+      const where = ['timeline_events_fts MATCH ?', ...sessionFilters, ...dates.clauses];
+      const params: unknown[] = [match, ...sessionParams, ...dates.params];
+      if (eventKinds) {
+        where.push(`t.kind IN (${eventKinds.map(() => '?').join(', ')})`);
+        params.push(...eventKinds);
+      }
+      rows.push(...this.db.prepare(`
+        SELECT 'timeline' as source, t.id, t.session_id, s.name as session_name, s.project_id, s.archived,
+          t.kind as event_kind, t.seq, t.panel_id, t.timestamp,
+          snippet(timeline_events_fts, -1, char(2), char(3), '…', 16) as snippet,
+          bm25(timeline_events_fts) as rank
+        FROM timeline_events_fts
+        JOIN timeline_events t ON t.id = timeline_events_fts.rowid
+        JOIN sessions s ON s.id = t.session_id
+        WHERE ${where.join(' AND ')}
+        ORDER BY rank
+        LIMIT ?
+      `).all(...params, limit) as Row[]);
+    }
+
+    if (!kinds || kinds.includes('diff')) {
+      const dates = dateFilters('d.timestamp');
+      const where = ['execution_diffs_fts MATCH ?', ...sessionFilters, ...dates.clauses];
+      rows.push(...this.db.prepare(`
+        SELECT 'diff' as source, d.id, d.session_id, s.name as session_name, s.project_id, s.archived,
+          NULL as event_kind,
+          (SELECT MAX(te.seq) FROM timeline_events te
+            WHERE te.session_id = d.session_id AND julianday(te.timestamp) <= julianday(d.timestamp)) as seq,
+          d.panel_id, d.timestamp,
+          snippet(execution_diffs_fts, -1, char(2), char(3), '…', 16) as snippet,
+          bm25(execution_diffs_fts) as rank
+        FROM execution_diffs_fts
+        JOIN execution_diffs d ON d.id = execution_diffs_fts.rowid
+        JOIN sessions s ON s.id = d.session_id
+        WHERE ${where.join(' AND ')}
+        ORDER BY rank
+        LIMIT ?
+      `).all(match, ...sessionParams, ...dates.params, limit) as Row[]);
+    }
+
+    return rows
+      .sort((a, b) => a.rank - b.rank)
+      .slice(0, limit)
+      .map((row) => ({
+        ...row,
+        archived: Boolean(row.archived),
+        kind: row.source === 'diff' ? 'diff' : searchKindForEvent(row.event_kind ?? ''),
+      }));
+  }
+
   getTimelineEvents(sessionId: string): TimelineEvent[] {
     const rows = this.db.prepare(`
       SELECT
@@ -1549,6 +2206,14 @@ export class DatabaseService {
     }));
   }
 
+  getLatestTimelineSeq(sessionId: string, kind: TimelineEvent['kind'], panelId?: string): number | null {
+    const row = this.db.prepare(`
+      SELECT MAX(seq) AS seq FROM timeline_events
+      WHERE session_id = ? AND kind = ? AND (? IS NULL OR panel_id = ?)
+    `).get(sessionId, kind, panelId ?? null, panelId ?? null) as { seq: number | null } | undefined;
+    return row?.seq ?? null;
+  }
+
   getPanelOutputs(panelId: string, limit?: number): SessionOutput[] {
     const effectiveLimit = typeof limit === 'number' ? limit : Number(limit);
     if (Number.isFinite(effectiveLimit) && effectiveLimit > 0) {
@@ -1791,13 +2456,14 @@ export class DatabaseService {
   createExecutionDiff(data: CreateExecutionDiffData): ExecutionDiff {
     const result = this.db.prepare(`
       INSERT INTO execution_diffs (
-        session_id, prompt_marker_id, execution_sequence, git_diff, 
+        session_id, panel_id, prompt_marker_id, execution_sequence, git_diff, 
         files_changed, stats_additions, stats_deletions, stats_files_changed,
-        before_commit_hash, after_commit_hash, commit_message
+        before_commit_hash, after_commit_hash, commit_message, verify_status, verify_iteration
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).run(
       data.session_id,
+      data.panel_id || null,
       data.prompt_marker_id || null,
       data.execution_sequence,
       data.git_diff || null,
@@ -1807,7 +2473,9 @@ export class DatabaseService {
       data.stats_files_changed || 0,
       data.before_commit_hash || null,
       data.after_commit_hash || null,
-      data.commit_message || null
+      data.commit_message || null,
+      data.verify_status || null,
+      data.verify_iteration ?? null
     );
 
     const diff = this.db.prepare('SELECT * FROM execution_diffs WHERE id = ?').get(result.lastInsertRowid) as ExecutionDiffRow | undefined;
@@ -1832,6 +2500,15 @@ export class DatabaseService {
     return row ? this.convertDbExecutionDiff(row) : undefined;
   }
 
+  updateExecutionVerify(id: number, data: UpdateExecutionVerifyData): ExecutionDiff | undefined {
+    this.db.prepare(`
+      UPDATE execution_diffs
+      SET verify_status = ?, verify_exit_code = ?, verify_output = ?
+      WHERE id = ?
+    `).run(data.verify_status, data.verify_exit_code ?? null, data.verify_output ?? null, id);
+    return this.getExecutionDiff(id);
+  }
+
   getNextExecutionSequence(sessionId: string): number {
     const result = this.db.prepare(`
       SELECT MAX(execution_sequence) as max_seq 
@@ -1856,7 +2533,12 @@ export class DatabaseService {
       before_commit_hash: row.before_commit_hash,
       after_commit_hash: row.after_commit_hash,
       commit_message: row.commit_message,
-      timestamp: row.timestamp
+      timestamp: row.timestamp,
+      panel_id: row.panel_id ?? undefined,
+      verify_status: row.verify_status ?? undefined,
+      verify_exit_code: row.verify_exit_code ?? undefined,
+      verify_output: row.verify_output ?? undefined,
+      verify_iteration: row.verify_iteration ?? undefined
     };
   }
 
@@ -2533,6 +3215,171 @@ export class DatabaseService {
     };
   }
 
+  // Token usage accounting
+  addTokenUsage(data: CreateTokenUsageData): TokenUsageRecord {
+    const result = this.db.prepare(`
+      INSERT INTO token_usage (session_id, panel_id, project_id, tool_type, input_tokens, output_tokens, cache_read_tokens, cache_creation_tokens, cost_usd)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      data.session_id,
+      data.panel_id,
+      data.project_id,
+      data.tool_type,
+      data.input_tokens,
+      data.output_tokens,
+      data.cache_read_tokens,
+      data.cache_creation_tokens,
+      data.cost_usd
+    );
+    return this.db.prepare('SELECT * FROM token_usage WHERE id = ?').get(result.lastInsertRowid) as TokenUsageRecord;
+  }
+
+  getTokenUsageTotals(scope: UsageBudgetScope, scopeId: string): TokenUsageTotals {
+    const column = scope === 'session' ? 'session_id' : 'project_id';
+    const row = this.db.prepare(`
+      SELECT
+        COALESCE(SUM(input_tokens), 0) as input_tokens,
+        COALESCE(SUM(output_tokens), 0) as output_tokens,
+        COALESCE(SUM(cache_read_tokens), 0) as cache_read_tokens,
+        COALESCE(SUM(cache_creation_tokens), 0) as cache_creation_tokens,
+        COALESCE(SUM(cost_usd), 0) as cost_usd,
+        COUNT(*) as samples
+      FROM token_usage
+      WHERE ${column} = ?
+    `).get(scope === 'session' ? scopeId : Number(scopeId)) as TokenUsageTotals;
+    return row;
+  }
+
+  getPanelTokenUsage(sessionId: string): Array<TokenUsageTotals & { panel_id: string; tool_type: string | null }> {
+    return this.db.prepare(`
+      SELECT
+        panel_id,
+        MAX(tool_type) as tool_type,
+        SUM(input_tokens) as input_tokens,
+        SUM(output_tokens) as output_tokens,
+        SUM(cache_read_tokens) as cache_read_tokens,
+        SUM(cache_creation_tokens) as cache_creation_tokens,
+        COALESCE(SUM(cost_usd), 0) as cost_usd,
+        COUNT(*) as samples
+      FROM token_usage
+      WHERE session_id = ?
+      GROUP BY panel_id
+      ORDER BY MIN(id) ASC
+    `).all(sessionId) as Array<TokenUsageTotals & { panel_id: string; tool_type: string | null }>;
+  }
+
+  // Policy rule operations
+  getPolicyRules(projectId: number): PolicyRule[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM policy_rules WHERE project_id = ? ORDER BY order_index ASC, id ASC
+    `).all(projectId) as Array<Omit<PolicyRule, 'enabled'> & { enabled: number }>;
+    return rows.map((row) => ({ ...row, enabled: Boolean(row.enabled) }));
+  }
+
+  /** Replace a project's rule list; array order becomes evaluation order. */
+  setPolicyRules(projectId: number, rules: PolicyRuleInput[]): PolicyRule[] {
+    const insert = this.db.prepare(`
+      INSERT INTO policy_rules (project_id, name, action, target, pattern_type, pattern, enabled, order_index)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    this.transaction(() => {
+      this.db.prepare('DELETE FROM policy_rules WHERE project_id = ?').run(projectId);
+      rules.forEach((rule, index) => {
+        insert.run(projectId, rule.name, rule.action, rule.target, rule.pattern_type, rule.pattern, rule.enabled ? 1 : 0, index);
+      });
+    });
+    return this.getPolicyRules(projectId);
+  }
+
+  // Worktree setup step operations
+  getSetupSteps(projectId: number): ProjectSetupStep[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM project_setup_steps WHERE project_id = ? ORDER BY order_index ASC, id ASC
+    `).all(projectId) as Array<Omit<ProjectSetupStep, 'enabled'> & { enabled: number }>;
+    return rows.map((row) => ({ ...row, enabled: Boolean(row.enabled) }));
+  }
+
+  /** Replace a project's setup steps; array order becomes run order. */
+  setSetupSteps(projectId: number, steps: ProjectSetupStepInput[]): ProjectSetupStep[] {
+    const insert = this.db.prepare(`
+      INSERT INTO project_setup_steps (project_id, name, kind, value, enabled, order_index)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    this.transaction(() => {
+      this.db.prepare('DELETE FROM project_setup_steps WHERE project_id = ?').run(projectId);
+      steps.forEach((step, index) => {
+        insert.run(projectId, step.name, step.kind, step.value, step.enabled ? 1 : 0, index);
+      });
+    });
+    return this.getSetupSteps(projectId);
+  }
+
+  // Session template operations
+  getSessionTemplates(projectId: number): ProjectSessionTemplate[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM project_session_templates WHERE project_id = ? ORDER BY order_index ASC, id ASC
+    `).all(projectId) as Array<Omit<ProjectSessionTemplate, 'plan_mode'> & { plan_mode: number }>;
+    return rows.map((row) => ({ ...row, plan_mode: Boolean(row.plan_mode) }));
+  }
+
+  getSessionTemplate(id: number): ProjectSessionTemplate | null {
+    const row = this.db.prepare('SELECT * FROM project_session_templates WHERE id = ?').get(id) as
+      | (Omit<ProjectSessionTemplate, 'plan_mode'> & { plan_mode: number })
+      | undefined;
+    return row ? { ...row, plan_mode: Boolean(row.plan_mode) } : null;
+  }
+
+  /** Replace a project's session templates; array order becomes display order. */
+  setSessionTemplates(projectId: number, templates: ProjectSessionTemplateInput[]): ProjectSessionTemplate[] {
+    const insert = this.db.prepare(`
+      INSERT INTO project_session_templates
+        (project_id, name, prompt, tool_type, model, approval_mode, thinking_level, plan_mode, commit_mode, base_branch, order_index)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    this.transaction(() => {
+      this.db.prepare('DELETE FROM project_session_templates WHERE project_id = ?').run(projectId);
+      templates.forEach((t, index) => {
+        insert.run(
+          projectId,
+          t.name,
+          t.prompt,
+          t.tool_type,
+          t.model,
+          t.approval_mode,
+          t.thinking_level,
+          t.plan_mode ? 1 : 0,
+          t.commit_mode,
+          t.base_branch,
+          index
+        );
+      });
+    });
+    return this.getSessionTemplates(projectId);
+  }
+
+  getUsageBudget(scope: UsageBudgetScope, scopeId: string): UsageBudget | null {
+    const row = this.db.prepare('SELECT * FROM usage_budgets WHERE scope = ? AND scope_id = ?').get(scope, scopeId) as UsageBudget | undefined;
+    return row ?? null;
+  }
+
+  setUsageBudget(scope: UsageBudgetScope, scopeId: string, budget: { token_limit: number | null; cost_limit_usd: number | null; warn_ratio: number }): UsageBudget {
+    this.db.prepare(`
+      INSERT INTO usage_budgets (scope, scope_id, token_limit, cost_limit_usd, warn_ratio, updated_at)
+      VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(scope, scope_id) DO UPDATE SET
+        token_limit = excluded.token_limit,
+        cost_limit_usd = excluded.cost_limit_usd,
+        warn_ratio = excluded.warn_ratio,
+        updated_at = CURRENT_TIMESTAMP
+    `).run(scope, scopeId, budget.token_limit, budget.cost_limit_usd, budget.warn_ratio);
+    return this.getUsageBudget(scope, scopeId)!;
+  }
+
+  deleteUsageBudget(scope: UsageBudgetScope, scopeId: string): boolean {
+    const result = this.db.prepare('DELETE FROM usage_budgets WHERE scope = ? AND scope_id = ?').run(scope, scopeId);
+    return result.changes > 0;
+  }
+
   getSessionOutputCounts(sessionId: string): { json: number; stdout: number; stderr: number } {
     const result = this.db.prepare(`
       SELECT 
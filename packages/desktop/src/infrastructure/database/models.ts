@@ -1,4 +1,5 @@
 import type { SessionOutput } from '@snowtree/core/types/session';
+import type { AgentToolType } from '@snowtree/core/types/panels';
 
 // Re-export for backward compatibility
 export type { SessionOutput };
@@ -27,7 +28,7 @@ export interface Session {
   display_order?: number | null;
   is_favorite?: boolean | null;
   auto_commit?: boolean | null;
-  tool_type?: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none' | null;
+  tool_type?: AgentToolType | 'none' | null;
   base_commit?: string | null;
   base_branch?: string | null;
   commit_mode?: 'structured' | 'checkpoint' | 'disabled' | null;
@@ -39,6 +40,7 @@ export interface Session {
   owner_repo?: string | null;
   is_fork?: boolean | null;
   origin_owner_repo?: string | null;
+  imported_at?: string | null;
 }
 
 export interface Project {
@@ -59,6 +61,16 @@ export interface Project {
   commit_mode?: 'structured' | 'checkpoint' | 'disabled';
   commit_structured_prompt_template?: string;
   commit_checkpoint_prefix?: string;
+  commit_prompt_template?: string | null;
+  push_prompt_template?: string | null;
+  update_prompt_template?: string | null;
+  sync_prompt_template?: string | null;
+  // JSON CustomCommandSpec for the 'custom' executor
+  custom_executor_spec?: string | null;
+  // Command run in the worktree after every agent round (e.g. `pnpm test`)
+  verify_command?: string | null;
+  verify_auto_fix?: boolean;
+  verify_max_iterations?: number;
 }
 
 export interface ProjectRunCommand {
@@ -70,6 +82,185 @@ export interface ProjectRunCommand {
   created_at: string;
 }
 
+/** A saved command as edited in the UI; `id` is set for commands that already exist. */
+export interface ProjectRunCommandInput {
+  id?: number;
+  command: string;
+  display_name?: string | null;
+}
+
+export interface QueuedPrompt {
+  id: number;
+  session_id: string;
+  panel_id: string;
+  prompt: string;
+  plan_mode: boolean;
+  order_index: number;
+  created_at: string;
+}
+
+export interface SessionCheckpoint {
+  id: number;
+  session_id: string;
+  panel_id: string | null;
+  /** 'round' is taken before a prompt is sent; 'redo' holds the state from before the last restore. */
+  kind: 'round' | 'redo';
+  /** seq of the chat.user timeline event that started the round */
+  prompt_seq: number | null;
+  head_commit: string;
+  /** Stash-shaped commit: worktree tree, parents HEAD and a commit of the index tree */
+  snapshot_commit: string;
+  ref_name: string;
+  created_at: string;
+}
+
+export interface SessionPlan {
+  id: number;
+  session_id: string;
+  panel_id: string;
+  /** 1-based, increasing per session across every plan round and edit */
+  version: number;
+  content: string;
+  /** 'agent' when captured from a plan-mode round, 'user' for an edit */
+  source: 'agent' | 'user';
+  /** Only the latest version can be a draft; approving it starts the execute round. */
+  status: 'draft' | 'approved' | 'superseded';
+  created_at: string;
+  approved_at: string | null;
+}
+
+export interface DiffComment {
+  id: number;
+  session_id: string;
+  file_path: string;
+  /** 'deletions' for comments on removed lines; those are not re-anchored */
+  side: 'additions' | 'deletions';
+  start_line: number;
+  /** Equal to start_line for single-line comments */
+  end_line: number;
+  /** Content of start_line when the comment was made, used to follow the line as the file changes */
+  anchor_text: string | null;
+  /** Commit whose diff was commented; null for the working tree */
+  commit_hash: string | null;
+  body: string;
+  status: 'pending' | 'sent';
+  /** The anchored line could no longer be found in the file */
+  outdated: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CreateDiffCommentData = Pick<DiffComment, 'session_id' | 'file_path' | 'side' | 'start_line' | 'end_line' | 'anchor_text' | 'commit_hash' | 'body'>;
+
+export interface ReviewCommentState {
+  session_id: string;
+  /** Forge id of the review thread */
+  comment_id: string;
+  /** 'sent' until the agent round that received the comment ends */
+  status: 'sent' | 'addressed';
+  updated_at: string;
+}
+
+export interface TokenUsageRecord {
+  id: number;
+  session_id: string;
+  panel_id: string;
+  project_id: number;
+  tool_type: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_creation_tokens: number;
+  cost_usd: number | null;
+  created_at: string;
+}
+
+export type CreateTokenUsageData = Omit<TokenUsageRecord, 'id' | 'created_at'>;
+
+export interface TokenUsageTotals {
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_creation_tokens: number;
+  cost_usd: number;
+  samples: number;
+}
+
+export type UsageBudgetScope = 'session' | 'project';
+
+export interface PolicyRule {
+  id: number;
+  project_id: number;
+  name: string;
+  action: 'allow' | 'deny';
+  /** 'command' matches command text; 'path' matches worktree-relative file paths. */
+  target: 'command' | 'path';
+  pattern_type: 'glob' | 'regex';
+  pattern: string;
+  enabled: boolean;
+  order_index: number;
+  created_at: string;
+}
+
+export type PolicyRuleInput = Pick<PolicyRule, 'name' | 'action' | 'target' | 'pattern_type' | 'pattern' | 'enabled'>;
+
+export type ProjectSetupStepKind = 'copy' | 'symlink' | 'command';
+
+export interface ProjectSetupStep {
+  id: number;
+  project_id: number;
+  name: string;
+  /**
+   * 'copy' and 'symlink' take repo-relative paths (one per line, `*` allowed in
+   * the last segment) from the main checkout; 'command' is a shell command.
+   */
+  kind: ProjectSetupStepKind;
+  value: string;
+  enabled: boolean;
+  order_index: number;
+  created_at: string;
+}
+
+export type ProjectSetupStepInput = Pick<ProjectSetupStep, 'name' | 'kind' | 'value' | 'enabled'>;
+
+export interface ProjectSessionTemplate {
+  id: number;
+  project_id: number;
+  name: string;
+  /** Initial prompt; `{{name}}` placeholders are filled in when a session is created. */
+  prompt: string;
+  /** Built-in agent, executor plugin id, or 'none' */
+  tool_type: string;
+  model: string | null;
+  /**
+   * Read per agent: claude 'approve' | 'ignore', codex 'auto' | 'manual',
+   * gemini 'default' | 'auto_edit' | 'yolo' | 'plan', kimi 'default' | 'yolo'.
+   */
+  approval_mode: string | null;
+  /** Codex reasoning effort */
+  thinking_level: 'low' | 'medium' | 'high' | null;
+  /** Run the initial prompt in plan mode */
+  plan_mode: boolean;
+  commit_mode: 'structured' | 'checkpoint' | 'disabled' | null;
+  base_branch: string | null;
+  order_index: number;
+  created_at: string;
+}
+
+export type ProjectSessionTemplateInput = Pick<
+  ProjectSessionTemplate,
+  'name' | 'prompt' | 'tool_type' | 'model' | 'approval_mode' | 'thinking_level' | 'plan_mode' | 'commit_mode' | 'base_branch'
+>;
+
+export interface UsageBudget {
+  scope: UsageBudgetScope;
+  scope_id: string;
+  token_limit: number | null;
+  cost_limit_usd: number | null;
+  warn_ratio: number;
+  updated_at: string;
+}
+
 export interface Folder {
   id: string;
   name: string;
@@ -102,7 +293,7 @@ export interface CreateSessionData {
   is_main_repo?: boolean;
   display_order?: number;
   auto_commit?: boolean;
-  tool_type?: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none';
+  tool_type?: AgentToolType | 'none';
   base_commit?: string;
   base_branch?: string;
   commit_mode?: 'structured' | 'checkpoint' | 'disabled';
@@ -121,7 +312,7 @@ export interface UpdateSessionData {
   run_started_at?: string;
   is_favorite?: boolean;
   auto_commit?: boolean;
-  tool_type?: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none';
+  tool_type?: AgentToolType | 'none';
   commit_mode?: 'structured' | 'checkpoint' | 'disabled';
   commit_mode_settings?: string; // JSON string of CommitModeSettings
   skip_continue_next?: boolean;
@@ -147,6 +338,8 @@ export interface PromptMarker {
   completion_timestamp?: string;
 }
 
+export type ExecutionVerifyStatus = 'running' | 'passed' | 'failed' | 'cancelled';
+
 export interface ExecutionDiff {
   id: number;
   session_id: string;
@@ -161,13 +354,57 @@ export interface ExecutionDiff {
   after_commit_hash?: string;
   commit_message?: string;
   timestamp: string;
+  panel_id?: string;
+  verify_status?: ExecutionVerifyStatus;
+  verify_exit_code?: number;
+  verify_output?: string;
+  verify_iteration?: number;
   comparison_branch?: string;
   history_source?: 'remote' | 'local' | 'branch';
   history_limit_reached?: boolean;
 }
 
+export interface SessionImportCommit {
+  hash: string;
+  message: string;
+  author: string;
+  date: string;
+}
+
+/** Provenance and git state of a session recreated from an exported bundle. */
+export interface SessionImport {
+  session_id: string;
+  source_session_id: string;
+  source_project_name: string | null;
+  exported_at: string;
+  imported_at: string;
+  base_ref: string | null;
+  final_diff: string;
+  commits: SessionImportCommit[];
+}
+
+export interface ImportSessionData {
+  session: {
+    id: string;
+    name: string;
+    initial_prompt: string;
+    worktree_name: string;
+    project_id: number;
+    tool_type: string;
+    base_commit: string | null;
+    base_branch: string | null;
+    created_at: string;
+  };
+  panels: Array<{ id: string; type: string; title: string; state?: unknown; metadata?: unknown }>;
+  timelineEvents: TimelineEvent[];
+  promptMarkers: PromptMarker[];
+  executionDiffs: ExecutionDiff[];
+  provenance: Omit<SessionImport, 'session_id' | 'imported_at'>;
+}
+
 export interface CreateExecutionDiffData {
   session_id: string;
+  panel_id?: string;
   prompt_marker_id?: number;
   execution_sequence: number;
   git_diff?: string;
@@ -178,6 +415,14 @@ export interface CreateExecutionDiffData {
   before_commit_hash?: string;
   after_commit_hash?: string;
   commit_message?: string;
+  verify_status?: ExecutionVerifyStatus;
+  verify_iteration?: number;
+}
+
+export interface UpdateExecutionVerifyData {
+  verify_status: ExecutionVerifyStatus;
+  verify_exit_code?: number | null;
+  verify_output?: string | null;
 }
 
 export interface CreatePanelExecutionDiffData {
@@ -199,7 +444,7 @@ export interface TimelineEvent {
   session_id: string;
   seq: number;
   timestamp: string;
-  kind: 'chat.user' | 'chat.assistant' | 'thinking' | 'tool_use' | 'tool_result' | 'user_question' | 'cli.command' | 'git.command' | 'worktree.command';
+  kind: 'chat.user' | 'chat.assistant' | 'thinking' | 'tool_use' | 'tool_result' | 'user_question' | 'approval_request' | 'policy_decision' | 'verify_result' | 'plan' | 'cli.command' | 'git.command' | 'worktree.command';
   status?: 'started' | 'finished' | 'failed' | 'pending' | 'answered';
   command?: string;
   cwd?: string;
@@ -222,6 +467,38 @@ export interface TimelineEvent {
   thinking_id?: string;  // Unique ID for streaming thinking updates
 }
 
+export type HistorySearchKind = 'prompt' | 'assistant' | 'command' | 'tool' | 'diff';
+
+export interface HistorySearchOptions {
+  query: string;
+  projectId?: number;
+  sessionId?: string;
+  kinds?: HistorySearchKind[];
+  /** ISO date/time bounds (inclusive). */
+  since?: string;
+  until?: string;
+  includeArchived?: boolean;
+  limit?: number;
+}
+
+export interface HistorySearchHit {
+  source: 'timeline' | 'diff';
+  id: number;
+  session_id: string;
+  session_name: string;
+  project_id: number;
+  archived: boolean;
+  kind: HistorySearchKind;
+  event_kind: string | null;
+  /** Timeline seq to jump to; for diffs, the last event recorded before the diff. */
+  seq: number | null;
+  panel_id: string | null;
+  timestamp: string;
+  /** Matched text with hits wrapped in \u0002 ... \u0003. */
+  snippet: string;
+  rank: number;
+}
+
 export interface CreateTimelineEventData {
   session_id: string;
   timestamp: string;
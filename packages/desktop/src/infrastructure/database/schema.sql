@@ -17,7 +17,15 @@ CREATE TABLE IF NOT EXISTS projects (
   lastUsedModel TEXT DEFAULT 'sonnet',
   commit_mode TEXT DEFAULT 'checkpoint',
   commit_structured_prompt_template TEXT,
-  commit_checkpoint_prefix TEXT DEFAULT 'checkpoint: '
+  commit_checkpoint_prefix TEXT DEFAULT 'checkpoint: ',
+  commit_prompt_template TEXT,
+  push_prompt_template TEXT,
+  update_prompt_template TEXT,
+  sync_prompt_template TEXT,
+  custom_executor_spec TEXT,
+  verify_command TEXT,
+  verify_auto_fix BOOLEAN DEFAULT 0,
+  verify_max_iterations INTEGER DEFAULT 3
 );
 
 -- Folders table to organize sessions inside projects (supports nesting)
@@ -131,6 +139,10 @@ CREATE TABLE IF NOT EXISTS execution_diffs (
   after_commit_hash TEXT,
   commit_message TEXT,
   timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+  verify_status TEXT,
+  verify_exit_code INTEGER,
+  verify_output TEXT,
+  verify_iteration INTEGER,
   FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE,
   FOREIGN KEY (prompt_marker_id) REFERENCES prompt_markers(id) ON DELETE SET NULL
 );
@@ -146,6 +158,170 @@ CREATE TABLE IF NOT EXISTS project_run_commands (
   FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
 );
 
+-- Follow-up prompts queued per session, dispatched in order when the agent goes idle
+CREATE TABLE IF NOT EXISTS queued_prompts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,
+  panel_id TEXT NOT NULL,
+  prompt TEXT NOT NULL,
+  plan_mode BOOLEAN DEFAULT 0,
+  order_index INTEGER DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+
+-- Token usage samples reported by agent CLIs (one row per turn or model call)
+CREATE TABLE IF NOT EXISTS token_usage (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,
+  panel_id TEXT NOT NULL,
+  project_id INTEGER NOT NULL,
+  tool_type TEXT,
+  input_tokens INTEGER DEFAULT 0,
+  output_tokens INTEGER DEFAULT 0,
+  cache_read_tokens INTEGER DEFAULT 0,
+  cache_creation_tokens INTEGER DEFAULT 0,
+  cost_usd REAL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+
+-- Token/cost budgets per session or project
+CREATE TABLE IF NOT EXISTS usage_budgets (
+  scope TEXT NOT NULL CHECK (scope IN ('session', 'project')),
+  scope_id TEXT NOT NULL,
+  token_limit INTEGER,
+  cost_limit_usd REAL,
+  warn_ratio REAL DEFAULT 0.8,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (scope, scope_id)
+);
+
+-- Provenance, final diff and commit list of sessions imported from an audit bundle
+CREATE TABLE IF NOT EXISTS session_imports (
+  session_id TEXT PRIMARY KEY,
+  source_session_id TEXT NOT NULL,
+  source_project_name TEXT,
+  exported_at TEXT NOT NULL,
+  imported_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  base_ref TEXT,
+  final_diff TEXT NOT NULL DEFAULT '',
+  commits_json TEXT NOT NULL DEFAULT '[]',
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+
+-- Worktree snapshots taken before each prompt round, plus the per-session redo slot
+CREATE TABLE IF NOT EXISTS session_checkpoints (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,
+  panel_id TEXT,
+  kind TEXT NOT NULL CHECK (kind IN ('round', 'redo')),
+  prompt_seq INTEGER,
+  head_commit TEXT NOT NULL,
+  snapshot_commit TEXT NOT NULL,
+  ref_name TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+
+-- Versioned plan documents proposed by an agent in plan mode. Approving one starts the execute round
+CREATE TABLE IF NOT EXISTS session_plans (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,
+  panel_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('agent', 'user')),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'approved', 'superseded')),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  approved_at DATETIME,
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_plans_session ON session_plans(session_id, version);
+
+-- Review comments from the session's pull request that were sent to the agent. The comments themselves are fetched from the forge
+CREATE TABLE IF NOT EXISTS review_comment_states (
+  session_id TEXT NOT NULL,
+  comment_id TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'addressed')),
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (session_id, comment_id),
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+
+-- Comments left on lines or hunks of the session's diffs, sent to the agent as one review prompt
+CREATE TABLE IF NOT EXISTS diff_comments (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  side TEXT NOT NULL DEFAULT 'additions' CHECK (side IN ('additions', 'deletions')),
+  start_line INTEGER NOT NULL,
+  end_line INTEGER NOT NULL,
+  anchor_text TEXT,
+  commit_hash TEXT,
+  body TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent')),
+  outdated BOOLEAN DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_diff_comments_session_id ON diff_comments(session_id);
+
+-- Per-project allow/deny rules checked against agent commands and file paths (first match wins)
+CREATE TABLE IF NOT EXISTS policy_rules (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  project_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('allow', 'deny')),
+  target TEXT NOT NULL CHECK (target IN ('command', 'path')),
+  pattern_type TEXT NOT NULL DEFAULT 'glob' CHECK (pattern_type IN ('glob', 'regex')),
+  pattern TEXT NOT NULL,
+  enabled BOOLEAN DEFAULT 1,
+  order_index INTEGER DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_policy_rules_project ON policy_rules(project_id, order_index);
+
+-- Per-project steps run in order in every new worktree before an agent starts
+CREATE TABLE IF NOT EXISTS project_setup_steps (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  project_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('copy', 'symlink', 'command')),
+  value TEXT NOT NULL,
+  enabled BOOLEAN DEFAULT 1,
+  order_index INTEGER DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_setup_steps_project ON project_setup_steps(project_id, order_index);
+
+-- Per-project presets that pre-fill new sessions (agent, model, modes, prompt scaffold)
+CREATE TABLE IF NOT EXISTS project_session_templates (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  project_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  prompt TEXT NOT NULL DEFAULT '',
+  tool_type TEXT NOT NULL DEFAULT 'claude',
+  model TEXT,
+  approval_mode TEXT,
+  thinking_level TEXT CHECK (thinking_level IS NULL OR thinking_level IN ('low', 'medium', 'high')),
+  plan_mode BOOLEAN DEFAULT 0,
+  commit_mode TEXT CHECK (commit_mode IS NULL OR commit_mode IN ('structured', 'checkpoint', 'disabled')),
+  base_branch TEXT,
+  order_index INTEGER DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_session_templates_project ON project_session_templates(project_id, order_index);
+
 -- UI state key/value store
 CREATE TABLE IF NOT EXISTS ui_state (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -247,6 +423,13 @@ CREATE INDEX IF NOT EXISTS idx_execution_diffs_timestamp ON execution_diffs(time
 CREATE INDEX IF NOT EXISTS idx_execution_diffs_sequence ON execution_diffs(session_id, execution_sequence);
 CREATE INDEX IF NOT EXISTS idx_execution_diffs_panel_id ON execution_diffs(panel_id);
 
+CREATE INDEX IF NOT EXISTS idx_queued_prompts_session_id ON queued_prompts(session_id, order_index);
+
+CREATE INDEX IF NOT EXISTS idx_session_checkpoints_session_id ON session_checkpoints(session_id, kind);
+
+CREATE INDEX IF NOT EXISTS idx_token_usage_session_id ON token_usage(session_id);
+CREATE INDEX IF NOT EXISTS idx_token_usage_project_id ON token_usage(project_id);
+
 CREATE INDEX IF NOT EXISTS idx_ui_state_key ON ui_state(key);
 CREATE INDEX IF NOT EXISTS idx_app_opens_opened_at ON app_opens(opened_at);
 CREATE INDEX IF NOT EXISTS idx_user_preferences_key ON user_preferences(key);
@@ -215,7 +215,7 @@ describe('Git IPC Handlers - Remote Pull Request', () => {
       });
     });
 
-    it('should handle non-GitHub remotes gracefully', async () => {
+    it('should handle remotes on unknown forges gracefully', async () => {
       // Cache miss - need to provide full fetchAndCacheRepoInfo mocks
       mockGitExecutor.run
         // 1. git branch --show-current (from fetchAndCacheRepoInfo)
@@ -227,7 +227,7 @@ describe('Git IPC Handlers - Remote Pull Request', () => {
         // 2. git remote get-url origin (from fetchAndCacheRepoInfo)
         .mockResolvedValueOnce({
           exitCode: 0,
-          stdout: 'git@gitlab.com:owner/repo.git\n', // GitLab, not GitHub
+          stdout: 'git@git.example.com:owner/repo.git\n', // Not a known forge
           stderr: '',
         } as MockRunResult)
         // 3. git remote get-url upstream (from fetchAndCacheRepoInfo)
@@ -242,10 +242,10 @@ describe('Git IPC Handlers - Remote Pull Request', () => {
           stdout: '',
           stderr: 'fatal: No such remote',
         } as MockRunResult)
-        // 5. git remote get-url origin (second in PR search loop, GitLab URL won't match regex)
+        // 5. git remote get-url origin (second in PR search loop, unknown host won't resolve)
         .mockResolvedValueOnce({
           exitCode: 0,
-          stdout: 'git@gitlab.com:owner/repo.git\n',
+          stdout: 'git@git.example.com:owner/repo.git\n',
           stderr: '',
         } as MockRunResult);
 
@@ -1241,7 +1241,7 @@ describe('Git IPC Handlers - CI Status', () => {
       expect(result).toEqual({ success: true, data: null });
     });
 
-    it('should return null for non-GitHub remotes', async () => {
+    it('should return null for remotes on unknown forges', async () => {
       // Cache miss - provide fetchAndCacheRepoInfo mocks
       mockGitExecutor.run
         // 1. git branch --show-current (from fetchAndCacheRepoInfo)
@@ -1253,7 +1253,7 @@ describe('Git IPC Handlers - CI Status', () => {
         // 2. git remote get-url origin (from fetchAndCacheRepoInfo)
         .mockResolvedValueOnce({
           exitCode: 0,
-          stdout: 'git@gitlab.com:owner/repo.git\n',
+          stdout: 'git@git.example.com:owner/repo.git\n',
           stderr: '',
         } as MockRunResult)
         // 3. git remote get-url upstream (from fetchAndCacheRepoInfo)
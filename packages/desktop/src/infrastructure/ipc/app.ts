@@ -3,6 +3,7 @@ import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 import type { AppServices } from './types';
+import { executorRegistry } from '../../executors/registry';
 
 // Settings file path - use ~/.snowtree for dev persistence
 const SETTINGS_DIR = path.join(os.homedir(), '.snowtree');
@@ -18,10 +19,11 @@ export function registerAppHandlers(ipcMain: IpcMain, services: AppServices): vo
   const { app } = services;
   const { claudeExecutor, codexExecutor, geminiExecutor, kimiExecutor } = services;
 
+  type AiToolStatus = { claude: unknown; codex: unknown; gemini: unknown; kimi: unknown; [pluginId: string]: unknown };
   let cachedAiToolStatus:
-    | { fetchedAtMs: number; data: { claude: unknown; codex: unknown; gemini: unknown; kimi: unknown } }
+    | { fetchedAtMs: number; data: AiToolStatus }
     | null = null;
-  let inFlightAiToolStatus: Promise<{ claude: unknown; codex: unknown; gemini: unknown; kimi: unknown }> | null = null;
+  let inFlightAiToolStatus: Promise<AiToolStatus> | null = null;
 
   // Basic app info handlers
   ipcMain.handle('get-app-version', () => {
@@ -174,7 +176,16 @@ export function registerAppHandlers(ipcMain: IpcMain, services: AppServices): vo
     }
   });
 
-  // AI tool availability probe (claude/codex/gemini)
+  // Registered executors (built-ins + plugins) with their settings schema
+  ipcMain.handle('executors:list', () => {
+    try {
+      return { success: true, data: executorRegistry.listInfo() };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to list executors' };
+    }
+  });
+
+  // AI tool availability probe (built-ins + executor plugins)
   ipcMain.handle('ai-tools:get-status', async (_event, options?: { force?: boolean }) => {
     const force = options?.force === true;
     const ttlMs = 15_000;
@@ -204,7 +215,12 @@ export function registerAppHandlers(ipcMain: IpcMain, services: AppServices): vo
             return kimiExecutor.getCachedAvailability();
           })()
         ]);
+        const plugins = await Promise.all(executorRegistry.getPluginExecutors().map(async (executor) => {
+          if (force) executor.clearAvailabilityCache();
+          return [executor.getToolType(), await executor.getCachedAvailability()] as const;
+        }));
         return {
+          ...Object.fromEntries(plugins),
           claude: claude ?? { available: false, error: 'Claude executor unavailable' },
           codex: codex ?? { available: false, error: 'Codex executor unavailable' },
           gemini: gemini ?? { available: false, error: 'Gemini executor unavailable' },
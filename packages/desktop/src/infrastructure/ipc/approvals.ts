@@ -0,0 +1,32 @@
+import type { IpcMain } from 'electron';
+import type { AppServices } from './types';
+import type { ToolApprovalDecision } from '../../executors/types';
+
+type UserDecision = Exclude<ToolApprovalDecision, 'cancel'>;
+
+const DECISIONS: ReadonlyArray<UserDecision> = ['approve', 'approve_for_session', 'deny'];
+
+export function registerApprovalHandlers(ipcMain: IpcMain, services: AppServices): void {
+  const { approvalService } = services;
+
+  ipcMain.handle('approvals:list-pending', async (_event, sessionId?: string) => {
+    try {
+      if (!approvalService) return { success: false, error: 'Approvals not available' };
+      return { success: true, data: approvalService.listPending(sessionId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to load approvals' };
+    }
+  });
+
+  ipcMain.handle('approvals:resolve', async (_event, id: string, decision: UserDecision) => {
+    try {
+      if (!approvalService) return { success: false, error: 'Approvals not available' };
+      if (!DECISIONS.includes(decision)) {
+        return { success: false, error: `Unknown approval decision: ${String(decision)}` };
+      }
+      return { success: true, data: approvalService.resolve(id, decision, 'timeline') };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to answer approval' };
+    }
+  });
+}
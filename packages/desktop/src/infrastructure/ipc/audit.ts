@@ -0,0 +1,73 @@
+import { dialog, type IpcMain } from 'electron';
+import { readFile, writeFile } from 'fs/promises';
+import type { AppServices } from './types';
+import { parseSessionBundle, renderSessionHtml, renderSessionMarkdown } from '../../features/audit';
+
+type ExportFormat = 'bundle' | 'markdown' | 'html';
+
+const EXPORT_FORMATS: Record<ExportFormat, { extension: string; filterName: string }> = {
+  bundle: { extension: 'snowtree.json', filterName: 'Snowtree session bundle' },
+  markdown: { extension: 'md', filterName: 'Markdown' },
+  html: { extension: 'html', filterName: 'HTML' },
+};
+
+const safeFileName = (name: string) => name.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'session';
+
+export function registerAuditHandlers(ipcMain: IpcMain, services: AppServices): void {
+  const { sessionBundleService, databaseService, getMainWindow } = services;
+
+  ipcMain.handle('sessions:export-bundle', async (_event, sessionId: string, format: ExportFormat = 'bundle') => {
+    try {
+      if (!sessionBundleService) return { success: false, error: 'Session export not available' };
+      const spec = EXPORT_FORMATS[format];
+      if (!spec) return { success: false, error: `Unknown export format: ${String(format)}` };
+      const mainWindow = getMainWindow();
+      if (!mainWindow) return { success: false, error: 'No main window available' };
+
+      const bundle = await sessionBundleService.exportSession(sessionId);
+      const result = await dialog.showSaveDialog(mainWindow, {
+        defaultPath: `${safeFileName(bundle.session.name)}.${spec.extension}`,
+        filters: [{ name: spec.filterName, extensions: [spec.extension.split('.').pop()!] }],
+      });
+      if (result.canceled || !result.filePath) return { success: true, data: null };
+
+      const content = format === 'markdown'
+        ? renderSessionMarkdown(bundle)
+        : format === 'html'
+          ? renderSessionHtml(bundle)
+          : JSON.stringify(bundle, null, 2);
+      await writeFile(result.filePath, content, 'utf-8');
+      return { success: true, data: { path: result.filePath } };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to export session' };
+    }
+  });
+
+  ipcMain.handle('sessions:import-bundle', async (_event, projectId: number) => {
+    try {
+      if (!sessionBundleService) return { success: false, error: 'Session import not available' };
+      const mainWindow = getMainWindow();
+      if (!mainWindow) return { success: false, error: 'No main window available' };
+
+      const result = await dialog.showOpenDialog(mainWindow, {
+        properties: ['openFile'],
+        filters: [{ name: EXPORT_FORMATS.bundle.filterName, extensions: ['json'] }],
+      });
+      if (result.canceled || result.filePaths.length === 0) return { success: true, data: null };
+
+      const bundle = parseSessionBundle(await readFile(result.filePaths[0], 'utf-8'));
+      const session = sessionBundleService.importBundle(bundle, projectId);
+      return { success: true, data: { sessionId: session.id } };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to import session' };
+    }
+  });
+
+  ipcMain.handle('sessions:get-import', async (_event, sessionId: string) => {
+    try {
+      return { success: true, data: databaseService.getSessionImport(sessionId) ?? null };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to load import details' };
+    }
+  });
+}
@@ -0,0 +1,38 @@
+import type { IpcMain } from 'electron';
+import type { AppServices } from './types';
+import type { RestoreCheckpointOptions } from '../../features/checkpoints';
+
+export function registerCheckpointHandlers(ipcMain: IpcMain, services: AppServices): void {
+  const { checkpointManager, gitStatusManager } = services;
+
+  ipcMain.handle('checkpoints:list', async (_event, sessionId: string) => {
+    try {
+      if (!checkpointManager) return { success: false, error: 'Checkpoints not available' };
+      return { success: true, data: checkpointManager.list(sessionId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to load checkpoints' };
+    }
+  });
+
+  ipcMain.handle('checkpoints:restore', async (_event, sessionId: string, checkpointId: number, options?: RestoreCheckpointOptions) => {
+    try {
+      if (!checkpointManager) return { success: false, error: 'Checkpoints not available' };
+      await checkpointManager.restore(sessionId, checkpointId, options);
+      void gitStatusManager.refreshSessionGitStatus(sessionId, false);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to restore checkpoint' };
+    }
+  });
+
+  ipcMain.handle('checkpoints:redo', async (_event, sessionId: string, options?: RestoreCheckpointOptions) => {
+    try {
+      if (!checkpointManager) return { success: false, error: 'Checkpoints not available' };
+      await checkpointManager.redo(sessionId, options);
+      void gitStatusManager.refreshSessionGitStatus(sessionId, false);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to redo' };
+    }
+  });
+}
@@ -0,0 +1,60 @@
+import type { IpcMain } from 'electron';
+import type { AppServices } from './types';
+import type { AgentToolType } from '@snowtree/core/types/panels';
+import { panelManager } from '../../features/panels/PanelManager';
+import { executorRegistry } from '../../executors/registry';
+
+type FanOutCreateRequest = {
+  projectId: number;
+  prompt: string;
+  runs: AgentToolType[];
+  baseBranch?: string;
+};
+
+export function registerFanOutHandlers(ipcMain: IpcMain, services: AppServices): void {
+  const { taskQueue, fanOutManager, sessionManager } = services;
+
+  const stopSession = async (sessionId: string) => {
+    sessionManager.updateSessionStatus(sessionId, 'stopped');
+    for (const panel of panelManager.getPanelsForSession(sessionId)) {
+      await executorRegistry.findExecutor(panel.type)?.kill(panel.id);
+    }
+  };
+
+  ipcMain.handle('fanout:create', async (_event, request: FanOutCreateRequest) => {
+    try {
+      if (!taskQueue) return { success: false, error: 'Task queue not initialized' };
+      const data = await taskQueue.createFanOutSessions(request);
+      return { success: true, data };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to start fan-out' };
+    }
+  });
+
+  ipcMain.handle('fanout:compare', async (_event, folderId: string) => {
+    try {
+      if (!fanOutManager) return { success: false, error: 'Fan-out not available' };
+      return { success: true, data: await fanOutManager.compare(folderId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to compare fan-out results' };
+    }
+  });
+
+  ipcMain.handle('fanout:diff', async (_event, folderId: string, fromSessionId: string | null, toSessionId: string) => {
+    try {
+      if (!fanOutManager) return { success: false, error: 'Fan-out not available' };
+      return { success: true, data: await fanOutManager.diff(folderId, fromSessionId, toSessionId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to load fan-out diff' };
+    }
+  });
+
+  ipcMain.handle('fanout:promote', async (_event, folderId: string, winnerSessionId: string) => {
+    try {
+      if (!fanOutManager) return { success: false, error: 'Fan-out not available' };
+      return { success: true, data: await fanOutManager.promote(folderId, winnerSessionId, stopSession) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to promote session' };
+    }
+  });
+}
@@ -0,0 +1,60 @@
+import type { IpcMain } from 'electron';
+import type { AppServices } from './types';
+
+export function registerFolderHandlers(ipcMain: IpcMain, services: AppServices): void {
+  const { sessionOrganizer } = services;
+
+  ipcMain.handle('folders:list', async (_event, projectId: number) => {
+    try {
+      if (!sessionOrganizer) return { success: false, error: 'Folders not available' };
+      return { success: true, data: sessionOrganizer.listFolders(projectId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to load folders' };
+    }
+  });
+
+  ipcMain.handle('folders:create', async (_event, projectId: number, name: string, parentFolderId?: string | null) => {
+    try {
+      if (!sessionOrganizer) return { success: false, error: 'Folders not available' };
+      return { success: true, data: sessionOrganizer.createFolder(projectId, name, parentFolderId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to create folder' };
+    }
+  });
+
+  ipcMain.handle('folders:rename', async (_event, folderId: string, name: string) => {
+    try {
+      if (!sessionOrganizer) return { success: false, error: 'Folders not available' };
+      return { success: true, data: sessionOrganizer.renameFolder(folderId, name) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to rename folder' };
+    }
+  });
+
+  ipcMain.handle('folders:move', async (_event, folderId: string, parentFolderId: string | null) => {
+    try {
+      if (!sessionOrganizer) return { success: false, error: 'Folders not available' };
+      return { success: true, data: sessionOrganizer.moveFolder(folderId, parentFolderId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to move folder' };
+    }
+  });
+
+  ipcMain.handle('folders:reorder', async (_event, projectId: number, orderedIds: string[]) => {
+    try {
+      if (!sessionOrganizer) return { success: false, error: 'Folders not available' };
+      return { success: true, data: sessionOrganizer.reorderFolders(projectId, orderedIds) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to reorder folders' };
+    }
+  });
+
+  ipcMain.handle('folders:delete', async (_event, folderId: string) => {
+    try {
+      if (!sessionOrganizer) return { success: false, error: 'Folders not available' };
+      return { success: true, data: sessionOrganizer.deleteFolder(folderId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to delete folder' };
+    }
+  });
+}
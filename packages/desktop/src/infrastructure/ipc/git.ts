@@ -3,64 +3,16 @@ import type { AppServices } from './types';
 import { promises as fs } from 'fs';
 import { join } from 'path';
 
-type RemotePullRequest = { number: number; url: string; state: 'draft' | 'open' | 'merged' };
+import { ForgeRegistry, formatForgeRepo, parseForgeRemote, readForgeHosts } from '../../features/forge';
+import type { ForgeHead, ForgeProvider, ForgeRepo } from '../../features/forge';
 
-/**
- * Parse a git remote URL and return the GitHub web URL for the repository.
- * Supports SSH (git@github.com:owner/repo.git) and HTTPS (https://github.com/owner/repo.git) formats.
- */
-function parseGitRemoteToGitHubUrl(remoteUrl: string): string | null {
-  const trimmed = remoteUrl.trim();
-  // SSH format: git@github.com:owner/repo.git
-  const sshMatch = trimmed.match(/^git@github\.com:([^/]+)\/(.+?)(?:\.git)?$/);
-  if (sshMatch) {
-    return `https://github.com/${sshMatch[1]}/${sshMatch[2]}`;
-  }
-  // HTTPS format: https://github.com/owner/repo.git
-  const httpsMatch = trimmed.match(/^https?:\/\/github\.com\/([^/]+)\/(.+?)(?:\.git)?$/);
-  if (httpsMatch) {
-    return `https://github.com/${httpsMatch[1]}/${httpsMatch[2]}`;
-  }
-  return null;
-}
-
-/**
- * Parse a git remote URL and return the owner/repo string for use with gh --repo flag.
- * Supports SSH (git@github.com:owner/repo.git) and HTTPS (https://github.com/owner/repo.git) formats.
- */
-function parseGitRemoteToOwnerRepo(remoteUrl: string): string | null {
-  const trimmed = remoteUrl.trim();
-  // SSH format: git@github.com:owner/repo.git
-  const sshMatch = trimmed.match(/^git@github\.com:([^/]+)\/(.+?)(?:\.git)?$/);
-  if (sshMatch) {
-    return `${sshMatch[1]}/${sshMatch[2]}`;
-  }
-  // HTTPS format: https://github.com/owner/repo.git
-  const httpsMatch = trimmed.match(/^https?:\/\/github\.com\/([^/]+)\/(.+?)(?:\.git)?$/);
-  if (httpsMatch) {
-    return `${httpsMatch[1]}/${httpsMatch[2]}`;
-  }
-  return null;
-}
+type RemotePullRequest = { number: number; url: string; state: 'draft' | 'open' | 'merged' };
 
-type RemoteOwnerRepo = {
-  owner: string;
-  repo: string;
-};
-
-function parseGitRemoteToOwnerRepoParts(remoteUrl: string): RemoteOwnerRepo | null {
-  const ownerRepo = parseGitRemoteToOwnerRepo(remoteUrl);
-  if (!ownerRepo) return null;
-  const [owner, repo] = ownerRepo.split('/');
-  if (!owner || !repo) return null;
-  return { owner, repo };
-}
+type ForgeTarget = { provider: ForgeProvider; repo: ForgeRepo; head: ForgeHead };
 
-function isForkOfUpstream(originUrl: string, upstreamUrl: string): boolean {
-  const origin = parseGitRemoteToOwnerRepoParts(originUrl);
-  const upstream = parseGitRemoteToOwnerRepoParts(upstreamUrl);
+function isForkOfUpstream(origin: ForgeRepo | null, upstream: ForgeRepo | null): boolean {
   if (!origin || !upstream) return false;
-  return origin.repo === upstream.repo && origin.owner !== upstream.owner;
+  return origin.host === upstream.host && origin.name === upstream.name && origin.owner !== upstream.owner;
 }
 
 /**
@@ -116,23 +68,22 @@ export async function fetchAndCacheRepoInfo(
     const upstreamUrl = upstreamRes.exitCode === 0 ? upstreamRes.stdout?.trim() : null;
 
     // Determine owner/repo and fork status
+    const hosts = readForgeHosts();
+    const originRepo = originUrl ? parseForgeRemote(originUrl, hosts) : null;
+    const upstreamRepo = upstreamUrl ? parseForgeRemote(upstreamUrl, hosts) : null;
+    const originOwnerRepo = originRepo ? formatForgeRepo(originRepo) : null;
     let ownerRepo: string | null = null;
-    let originOwnerRepo: string | null = null;
     let isFork = false;
 
-    if (originUrl) {
-      originOwnerRepo = parseGitRemoteToOwnerRepo(originUrl);
-    }
-
     if (originUrl && upstreamUrl) {
       // Check if this is a fork workflow
-      isFork = isForkOfUpstream(originUrl, upstreamUrl);
+      isFork = isForkOfUpstream(originRepo, upstreamRepo);
       // Prefer upstream repo if it's a fork
-      ownerRepo = isFork ? parseGitRemoteToOwnerRepo(upstreamUrl) : originOwnerRepo;
+      ownerRepo = isFork && upstreamRepo ? formatForgeRepo(upstreamRepo) : originOwnerRepo;
     } else if (originUrl) {
       ownerRepo = originOwnerRepo;
-    } else if (upstreamUrl) {
-      ownerRepo = parseGitRemoteToOwnerRepo(upstreamUrl);
+    } else if (upstreamRepo) {
+      ownerRepo = formatForgeRepo(upstreamRepo);
     }
 
     // Cache the results in the session
@@ -154,20 +105,39 @@ export async function fetchAndCacheRepoInfo(
 }
 
 /**
- * Parse git remote -v output and extract owner/repo for the origin remote.
+ * Parse git remote -v output and extract the forge repository of the origin remote.
  */
-function parseOwnerRepoFromRemoteOutput(remoteOutput: string): string | null {
+function parseOriginRepoFromRemoteOutput(remoteOutput: string): ForgeRepo | null {
   const lines = remoteOutput.split('\n');
   for (const line of lines) {
     // Format: "origin\tgit@github.com:owner/repo.git (fetch)"
     const match = line.match(/^origin\s+(\S+)/);
     if (match) {
-      return parseGitRemoteToOwnerRepo(match[1]);
+      return parseForgeRemote(match[1], readForgeHosts());
     }
   }
   return null;
 }
 
+/**
+ * Repositories to look for the session's pull request in, in order. Forks try
+ * the upstream repository (with the fork owner on the head) and then the fork.
+ */
+export function getForgeTargets(
+  forges: ForgeRegistry,
+  branch: string,
+  ownerRepo: string,
+  isFork: boolean,
+  originOwnerRepo: string | null | undefined
+): ForgeTarget[] {
+  const targets: ForgeTarget[] = [];
+  const upstream = forges.resolve(ownerRepo);
+  const origin = isFork ? forges.resolve(originOwnerRepo) : null;
+  if (upstream) targets.push({ ...upstream, head: { branch, owner: origin?.repo.owner ?? null } });
+  if (origin) targets.push({ ...origin, head: { branch, owner: null } });
+  return targets;
+}
+
 function isImageFile(filePath: string): boolean {
   return /\.(png|jpg|jpeg|gif|svg|webp|bmp|ico)$/i.test(filePath);
 }
@@ -177,7 +147,8 @@ function isBinaryFile(filePath: string): boolean {
 }
 
 export function registerGitHandlers(ipcMain: IpcMain, services: AppServices): void {
-  const { sessionManager, gitDiffManager, gitStagingManager, gitStatusManager, gitExecutor } = services;
+  const { sessionManager, gitDiffManager, gitStagingManager, gitWorkflowManager, gitStatusManager, gitExecutor } = services;
+  const forges = new ForgeRegistry(gitExecutor);
 
   ipcMain.handle('sessions:get-executions', async (_event, sessionId: string) => {
     try {
@@ -476,67 +447,12 @@ export function registerGitHandlers(ipcMain: IpcMain, services: AppServices): vo
         return { success: true, data: null };
       }
 
-      // Get origin owner for fork workflow (derive from originOwnerRepo)
-      let originOwner: string | null = null;
-      if (isFork && originOwnerRepo) {
-        originOwner = originOwnerRepo.split('/')[0];
-      }
-
-      // For fork workflow: try upstream first (ownerRepo), then origin (originOwnerRepo)
-      // For non-fork: try origin first, then upstream
-      const repoAttempts: Array<{ repo: string; remoteName: string }> = [];
-
-      if (isFork) {
-        if (ownerRepo) repoAttempts.push({ repo: ownerRepo, remoteName: 'upstream' });
-        if (originOwnerRepo) repoAttempts.push({ repo: originOwnerRepo, remoteName: 'origin' });
-      } else {
-        if (ownerRepo) repoAttempts.push({ repo: ownerRepo, remoteName: 'origin' });
-      }
-
-      for (const { repo, remoteName } of repoAttempts) {
-        // For upstream repo in fork workflow, use "owner:branch" format
-        // For origin repo, use just "branch"
-        const branchArg = remoteName === 'upstream' && originOwner ? `${originOwner}:${branch}` : branch;
-        const repoArgs = ['--repo', repo, branchArg];
-
-        const res = await gitExecutor.run({
-          sessionId,
-          cwd: session.worktreePath,
-          argv: ['gh', 'pr', 'view', ...repoArgs, '--json', 'number,url,state,isDraft'],
-          op: 'read',
-          recordTimeline: false,
-          throwOnError: false,
-          timeoutMs: 8_000,
-          meta: { source: 'ipc.git', operation: 'remote-pr' },
-        });
-
-        if (res.exitCode !== 0) continue; // Try next remote
-
-        const raw = (res.stdout || '').trim();
-        if (!raw) continue; // Try next remote
-
-        try {
-          const parsed = JSON.parse(raw) as { number?: unknown; url?: unknown; state?: unknown; isDraft?: unknown } | null;
-          const number = parsed && typeof parsed.number === 'number' ? parsed.number : null;
-          const url = parsed && typeof parsed.url === 'string' ? parsed.url : '';
-          const ghState = parsed && typeof parsed.state === 'string' ? parsed.state.toUpperCase() : '';
-          const isDraft = parsed && typeof parsed.isDraft === 'boolean' ? parsed.isDraft : false;
-
-          let prState: 'draft' | 'open' | 'merged';
-          if (ghState === 'MERGED') {
-            prState = 'merged';
-          } else if (isDraft) {
-            prState = 'draft';
-          } else {
-            prState = 'open';
-          }
-
-          if (!number || !url) continue; // Try next remote
-          const out: RemotePullRequest = { number, url, state: prState };
-          return { success: true, data: out }; // Found PR, return immediately
-        } catch {
-          continue; // Try next remote
-        }
+      const ctx = { sessionId, cwd: session.worktreePath };
+      for (const { provider, repo, head } of getForgeTargets(forges, branch, ownerRepo, isFork, originOwnerRepo)) {
+        const pr = await provider.findPullRequest(ctx, repo, head);
+        if (!pr) continue; // Try next remote
+        const out: RemotePullRequest = { number: pr.number, url: pr.url, state: pr.state };
+        return { success: true, data: out }; // Found PR, return immediately
       }
 
       // No PR found in any remote
@@ -767,6 +683,82 @@ export function registerGitHandlers(ipcMain: IpcMain, services: AppServices): vo
     }
   });
 
+  // ============================================
+  // Direct Workspace Actions: Commit / Push / Update without an agent
+  // ============================================
+
+  ipcMain.handle('sessions:direct-commit', async (_event, sessionId: string, options?: { messageTemplate?: string }) => {
+    try {
+      const session = sessionManager.getSession(sessionId);
+      if (!session?.worktreePath) {
+        return { success: false, error: 'Session worktree not found' };
+      }
+
+      const result = await gitWorkflowManager.commitStaged({
+        worktreePath: session.worktreePath,
+        sessionId,
+        messageTemplate: options?.messageTemplate || '',
+      });
+      void gitStatusManager.refreshSessionGitStatus(sessionId, false);
+
+      return result.success
+        ? { success: true, data: { message: result.message, commitHash: result.commitHash } }
+        : { success: false, error: result.error };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to commit' };
+    }
+  });
+
+  ipcMain.handle('sessions:direct-push', async (_event, sessionId: string) => {
+    try {
+      const session = sessionManager.getSession(sessionId);
+      if (!session?.worktreePath) {
+        return { success: false, error: 'Session worktree not found' };
+      }
+
+      // Fork workflow pushes to the fork (origin) as well, so origin is always the target.
+      const result = await gitWorkflowManager.push({
+        worktreePath: session.worktreePath,
+        sessionId,
+        remote: 'origin',
+        branch: sessionManager.db.getSession(sessionId)?.current_branch || null,
+      });
+      void gitStatusManager.refreshSessionGitStatus(sessionId, false);
+
+      return result.success ? { success: true } : { success: false, error: result.error };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to push' };
+    }
+  });
+
+  ipcMain.handle('sessions:direct-update', async (_event, sessionId: string, options?: { strategy?: 'rebase' | 'merge' }) => {
+    try {
+      const session = sessionManager.getSession(sessionId);
+      if (!session?.worktreePath) {
+        return { success: false, error: 'Session worktree not found' };
+      }
+
+      const isFork = Boolean(sessionManager.db.getSession(sessionId)?.is_fork);
+      const result = await gitWorkflowManager.updateFromBase({
+        worktreePath: session.worktreePath,
+        sessionId,
+        remote: isFork ? 'upstream' : 'origin',
+        baseBranch: session.baseBranch || 'main',
+        strategy: options?.strategy === 'merge' ? 'merge' : 'rebase',
+      });
+      void gitStatusManager.refreshSessionGitStatus(sessionId, false);
+
+      if (result.success) return { success: true };
+      return {
+        success: false,
+        error: result.error,
+        data: { conflict: Boolean(result.conflict), conflictedFiles: result.conflictedFiles || [] },
+      };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update branch' };
+    }
+  });
+
   // ============================================
   // Sync PR Workflow: Deterministic Operations
   // ============================================
@@ -816,7 +808,7 @@ export function registerGitHandlers(ipcMain: IpcMain, services: AppServices): vo
       const cwd = session.worktreePath;
       const baseBranch = session.baseBranch || 'main';
 
-      // Run git read operations in parallel (excluding gh which needs --repo)
+      // Run git read operations in parallel (the PR lookup needs the remote)
       const [statusRes, branchRes, logRes, diffStatRes, remoteRes] = await Promise.all([
         gitExecutor.run({
           sessionId, cwd, argv: ['git', 'status', '--porcelain'],
@@ -845,30 +837,22 @@ export function registerGitHandlers(ipcMain: IpcMain, services: AppServices): vo
         }),
       ]);
 
-      // Parse owner/repo from remote for gh commands
-      const ownerRepo = parseOwnerRepoFromRemoteOutput(remoteRes.stdout || '');
+      // Look up the PR of the current branch on the origin forge
+      const originRepo = parseOriginRepoFromRemoteOutput(remoteRes.stdout || '');
+      const ownerRepo = originRepo ? formatForgeRepo(originRepo) : null;
+      const branch = branchRes.stdout?.trim() || '';
 
-      // Now fetch PR info with --repo flag if available
       let prInfo: { number: number; url: string; state: string; title: string; body: string } | null = null;
-      if (ownerRepo) {
-        const prRes = await gitExecutor.run({
-          sessionId, cwd,
-          argv: ['gh', 'pr', 'view', '--repo', ownerRepo, '--json', 'number,url,state,title,body'],
-          op: 'read', recordTimeline: false, throwOnError: false, timeoutMs: 8_000,
-          meta: { source: 'ipc.git', operation: 'sync-context-pr' },
-        });
-        if (prRes.exitCode === 0 && prRes.stdout.trim()) {
-          try {
-            prInfo = JSON.parse(prRes.stdout.trim());
-          } catch { /* ignore */ }
-        }
+      const target = branch ? forges.resolve(ownerRepo) : null;
+      if (target) {
+        prInfo = await target.provider.findPullRequest({ sessionId, cwd }, target.repo, { branch, owner: null });
       }
 
       return {
         success: true,
         data: {
           status: statusRes.stdout || '',
-          branch: branchRes.stdout?.trim() || '',
+          branch,
           log: logRes.stdout || '',
           diffStat: diffStatRes.stdout || '',
           prInfo,
@@ -896,8 +880,6 @@ export function registerGitHandlers(ipcMain: IpcMain, services: AppServices): vo
       // Use cached repo info to get owner/repo
       const dbSession = sessionManager.db.getSession(sessionId);
       let ownerRepo = dbSession?.owner_repo;
-      let originOwnerRepo = dbSession?.origin_owner_repo;
-      let isFork = dbSession?.is_fork || false;
 
       // If cache miss, fetch and cache
       if (!ownerRepo) {
@@ -906,27 +888,16 @@ export function registerGitHandlers(ipcMain: IpcMain, services: AppServices): vo
           return { success: false, error: 'No remote configured' };
         }
         ownerRepo = repoInfo.ownerRepo;
-        originOwnerRepo = repoInfo.originOwnerRepo;
-        isFork = repoInfo.isFork;
       }
 
       if (!ownerRepo) {
         return { success: false, error: 'No remote configured' };
       }
 
-      // For fork workflow, prefer upstream, then origin
-      // For non-fork, use ownerRepo (which is already the correct one)
-      const repoCandidates: string[] = [];
-      if (isFork) {
-        if (ownerRepo) repoCandidates.push(ownerRepo); // upstream
-        if (originOwnerRepo) repoCandidates.push(originOwnerRepo); // origin
-      } else {
-        if (ownerRepo) repoCandidates.push(ownerRepo);
-      }
-
-      for (const repo of repoCandidates) {
-        const url = `https://github.com/${repo}/commit/${commitHash}`;
-        return { success: true, data: { url } };
+      // ownerRepo is the upstream repository for forks
+      const target = forges.resolve(ownerRepo);
+      if (target) {
+        return { success: true, data: { url: target.provider.commitUrl(target.repo, commitHash) } };
       }
 
       return { success: false, error: 'No remote configured' };
@@ -1170,7 +1141,6 @@ export function registerGitHandlers(ipcMain: IpcMain, services: AppServices): vo
       let branch = dbSession?.current_branch;
       let ownerRepo = dbSession?.owner_repo;
       let originOwnerRepo = dbSession?.origin_owner_repo;
-      let isFork = dbSession?.is_fork || false;
 
       // If cache miss, fetch and cache
       if (!branch || !ownerRepo) {
@@ -1181,79 +1151,29 @@ export function registerGitHandlers(ipcMain: IpcMain, services: AppServices): vo
         branch = repoInfo.currentBranch;
         ownerRepo = repoInfo.ownerRepo;
         originOwnerRepo = repoInfo.originOwnerRepo;
-        isFork = repoInfo.isFork;
       }
 
       if (!ownerRepo || !branch) {
         return { success: true, data: null };
       }
 
-      // For fork workflow: when PR is on upstream, branch needs origin-owner prefix
-      // e.g., "bohutang:feature-branch" instead of just "feature-branch"
-      let branchRef = branch;
-      if (originOwnerRepo && ownerRepo !== originOwnerRepo) {
-        const originOwner = originOwnerRepo.split('/')[0];
-        branchRef = `${originOwner}:${branch}`;
-      }
-
-      // Use gh pr checks to get CI status
-      // gh pr checks --json returns: name, workflow, state (SUCCESS/FAILURE/PENDING/etc), startedAt, completedAt, link
-      const checksRes = await gitExecutor.run({
-        sessionId,
-        cwd,
-        argv: [
-          'gh', 'pr', 'checks',
-          '--repo', ownerRepo,
-          branchRef,
-          '--json', 'name,state,startedAt,completedAt,link,workflow',
-        ],
-        op: 'read',
-        recordTimeline: false,
-        throwOnError: false,
-        timeoutMs: 8_000,
-        meta: { source: 'ipc.git', operation: 'ci-status-checks' },
-      });
-
-      if (checksRes.exitCode !== 0) {
-        // No PR or no checks
+      const target = forges.resolve(ownerRepo);
+      if (!target) {
         return { success: true, data: null };
       }
 
-      const raw = checksRes.stdout?.trim();
-      if (!raw) {
-        return { success: true, data: null };
-      }
+      // For fork workflow: when PR is on upstream, branch needs origin-owner prefix
+      // e.g., "bohutang:feature-branch" instead of just "feature-branch"
+      const origin = originOwnerRepo && ownerRepo !== originOwnerRepo ? forges.resolve(originOwnerRepo) : null;
+      const head: ForgeHead = { branch, owner: origin?.repo.owner ?? null };
 
       try {
-        const checksData = JSON.parse(raw) as Array<{
-          name?: string;
-          workflow?: string;
-          state?: string;  // SUCCESS, FAILURE, PENDING, IN_PROGRESS, SKIPPED, etc
-          startedAt?: string;
-          completedAt?: string;
-          link?: string;
-        }>;
-
-        if (!Array.isArray(checksData) || checksData.length === 0) {
+        const checks = await target.provider.getChecks({ sessionId, cwd }, target.repo, head);
+        if (!checks || checks.length === 0) {
+          // No PR or no checks
           return { success: true, data: null };
         }
 
-        // Map to our CICheck type
-        // gh pr checks uses 'state' for the combined status/conclusion
-        const checks = checksData.map((c, idx) => {
-          const { status, conclusion } = parseGhCheckState(c.state);
-          return {
-            id: idx,
-            name: c.name || 'Unknown',
-            workflow: c.workflow || null,
-            status,
-            conclusion,
-            startedAt: c.startedAt || null,
-            completedAt: c.completedAt || null,
-            detailsUrl: c.link || null,
-          };
-        });
-
         // Calculate counts
         let successCount = 0;
         let failureCount = 0;
@@ -1283,6 +1203,8 @@ export function registerGitHandlers(ipcMain: IpcMain, services: AppServices): vo
           rollupState = 'neutral';
         }
 
+        services.notificationService?.noteCiStatus(sessionId, rollupState);
+
         return {
           success: true,
           data: {
@@ -1338,52 +1260,19 @@ export function registerGitHandlers(ipcMain: IpcMain, services: AppServices): vo
 
       console.log('[git.ts] Current branch:', branch);
 
-      // Get origin owner for fork workflow
-      let originOwner: string | null = null;
-      if (isFork && originOwnerRepo) {
-        originOwner = originOwnerRepo.split('/')[0];
-      }
-      console.log('[git.ts] Origin owner:', originOwner);
-
       // For fork workflow: try upstream first (ownerRepo), then origin (originOwnerRepo)
       // For non-fork: try origin only
-      const repoAttempts: Array<{ repo: string; remoteName: string }> = [];
-
-      if (isFork) {
-        if (ownerRepo) repoAttempts.push({ repo: ownerRepo, remoteName: 'upstream' });
-        if (originOwnerRepo) repoAttempts.push({ repo: originOwnerRepo, remoteName: 'origin' });
-      } else {
-        if (ownerRepo) repoAttempts.push({ repo: ownerRepo, remoteName: 'origin' });
-      }
-
-      for (const { repo, remoteName } of repoAttempts) {
-        // For upstream repo in fork workflow, use "owner:branch" format
-        // For origin repo, use just "branch"
-        const branchArg = remoteName === 'upstream' && originOwner ? `${originOwner}:${branch}` : branch;
-
-        console.log(`[git.ts] Trying ${remoteName} with repo=${repo}, branch=${branchArg}`);
+      for (const { provider, repo, head } of getForgeTargets(forges, branch, ownerRepo, isFork, originOwnerRepo)) {
+        console.log(`[git.ts] Trying ${provider.kind} repo=${formatForgeRepo(repo)}, branch=${head.owner ? `${head.owner}:` : ''}${head.branch}`);
 
-        // Mark PR as ready for review using gh pr ready
-        const readyRes = await gitExecutor.run({
-          sessionId,
-          cwd: session.worktreePath,
-          argv: ['gh', 'pr', 'ready', '--repo', repo, branchArg],
-          op: 'write',
-          recordTimeline: true,
-          throwOnError: false,
-          timeoutMs: 30_000,
-          meta: { source: 'ipc.git', operation: 'mark-pr-ready' },
-        });
-
-        console.log('[git.ts] gh pr ready result:', { exitCode: readyRes.exitCode, stdout: readyRes.stdout, stderr: readyRes.stderr });
-
-        if (readyRes.exitCode === 0) {
+        const readyRes = await provider.markReady({ sessionId, cwd: session.worktreePath }, repo, head);
+        if (readyRes.success) {
           console.log('[git.ts] Successfully marked PR as ready');
           return { success: true };
         }
 
         // If failed, try next remote
-        console.log(`[git.ts] Failed on ${remoteName}, trying next remote...`);
+        console.log('[git.ts] Mark ready failed, trying next remote...', readyRes.error);
       }
 
       // Failed on all remotes
@@ -1396,39 +1285,54 @@ export function registerGitHandlers(ipcMain: IpcMain, services: AppServices): vo
       };
     }
   });
-}
 
-// Helper: parse gh pr checks 'state' field to status and conclusion
-// gh pr checks state values: SUCCESS, FAILURE, PENDING, IN_PROGRESS, SKIPPED, CANCELLED, etc
-function parseGhCheckState(state?: string): {
-  status: 'queued' | 'in_progress' | 'completed';
-  conclusion: 'success' | 'failure' | 'neutral' | 'cancelled' | 'skipped' | 'timed_out' | 'action_required' | null;
-} {
-  const s = state?.toUpperCase();
-  switch (s) {
-    case 'PENDING':
-    case 'QUEUED':
-    case 'WAITING':
-      return { status: 'queued', conclusion: null };
-    case 'IN_PROGRESS':
-      return { status: 'in_progress', conclusion: null };
-    case 'SUCCESS':
-      return { status: 'completed', conclusion: 'success' };
-    case 'FAILURE':
-    case 'ERROR':
-      return { status: 'completed', conclusion: 'failure' };
-    case 'CANCELLED':
-      return { status: 'completed', conclusion: 'cancelled' };
-    case 'SKIPPED':
-      return { status: 'completed', conclusion: 'skipped' };
-    case 'NEUTRAL':
-      return { status: 'completed', conclusion: 'neutral' };
-    case 'TIMED_OUT':
-      return { status: 'completed', conclusion: 'timed_out' };
-    case 'ACTION_REQUIRED':
-      return { status: 'completed', conclusion: 'action_required' };
-    default:
-      // Unknown state, treat as completed with null conclusion
-      return { status: 'completed', conclusion: null };
-  }
+  ipcMain.handle('sessions:create-pull-request', async (_event, sessionId: string, options: { title: string; body?: string; draft?: boolean }) => {
+    try {
+      const session = sessionManager.getSession(sessionId);
+      if (!session?.worktreePath) {
+        return { success: false, error: 'Session worktree not found' };
+      }
+      if (!options?.title?.trim()) {
+        return { success: false, error: 'Pull request title is required' };
+      }
+
+      const dbSession = sessionManager.db.getSession(sessionId);
+      let branch = dbSession?.current_branch;
+      let ownerRepo = dbSession?.owner_repo;
+      let originOwnerRepo = dbSession?.origin_owner_repo;
+      let isFork = dbSession?.is_fork || false;
+
+      if (!branch || !ownerRepo) {
+        const repoInfo = await fetchAndCacheRepoInfo(sessionId, session.worktreePath, sessionManager, gitExecutor);
+        if (!repoInfo) {
+          return { success: false, error: 'No remote configured' };
+        }
+        branch = repoInfo.currentBranch;
+        ownerRepo = repoInfo.ownerRepo;
+        originOwnerRepo = repoInfo.originOwnerRepo;
+        isFork = repoInfo.isFork;
+      }
+
+      if (!branch || !ownerRepo) {
+        return { success: false, error: 'Branch or owner/repo not found' };
+      }
+
+      // Open against upstream for forks, origin otherwise
+      const [target] = getForgeTargets(forges, branch, ownerRepo, isFork, originOwnerRepo);
+      if (!target) {
+        return { success: false, error: 'Remote is not a supported forge' };
+      }
+
+      const pr = await target.provider.createPullRequest({ sessionId, cwd: session.worktreePath }, target.repo, {
+        head: target.head,
+        base: session.baseBranch || 'main',
+        title: options.title.trim(),
+        body: options.body || '',
+        draft: options.draft === true,
+      });
+      return { success: true, data: pr };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to create pull request' };
+    }
+  });
 }
@@ -7,6 +7,17 @@ import { registerDialogHandlers } from './dialog';
 import { registerGitHandlers } from './git';
 import { registerPanelHandlers } from './panels';
 import { registerTelegramHandlers } from './telegram';
+import { registerFanOutHandlers } from './fanOut';
+import { registerUsageHandlers } from './usage';
+import { registerAuditHandlers } from './audit';
+import { registerCheckpointHandlers } from './checkpoints';
+import { registerApprovalHandlers } from './approvals';
+import { registerScriptHandlers } from './scripts';
+import { registerSetupHandlers } from './setup';
+import { registerUpstreamHandlers } from './upstream';
+import { registerReviewHandlers } from './review';
+import { registerFolderHandlers } from './folders';
+import { registerNotificationHandlers } from './notifications';
 
 export function registerIpcHandlers(services: AppServices): void {
   registerAppHandlers(ipcMain, services);
@@ -16,6 +27,17 @@ export function registerIpcHandlers(services: AppServices): void {
   registerGitHandlers(ipcMain, services);
   registerPanelHandlers(ipcMain);
   registerTelegramHandlers(ipcMain, services);
+  registerFanOutHandlers(ipcMain, services);
+  registerUsageHandlers(ipcMain, services);
+  registerAuditHandlers(ipcMain, services);
+  registerCheckpointHandlers(ipcMain, services);
+  registerApprovalHandlers(ipcMain, services);
+  registerScriptHandlers(ipcMain, services);
+  registerSetupHandlers(ipcMain, services);
+  registerUpstreamHandlers(ipcMain, services);
+  registerReviewHandlers(ipcMain, services);
+  registerFolderHandlers(ipcMain, services);
+  registerNotificationHandlers(ipcMain, services);
 }
 
 // Re-export types
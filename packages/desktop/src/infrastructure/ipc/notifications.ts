@@ -0,0 +1,17 @@
+import type { IpcMain } from 'electron';
+import type { AppServices } from './types';
+import { normalizeNotificationSettings, type NotificationSettings } from '../../features/notifications';
+
+export function registerNotificationHandlers(ipcMain: IpcMain, services: AppServices): void {
+  const { notificationService } = services;
+
+  ipcMain.handle('notifications:configure', async (_event, settings: Partial<NotificationSettings>) => {
+    try {
+      if (!notificationService) return { success: false, error: 'Notifications not available' };
+      notificationService.configure(normalizeNotificationSettings(settings));
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to configure notifications' };
+    }
+  });
+}
@@ -1,6 +1,11 @@
 import type { IpcMain } from 'electron';
 import type { AppServices } from './types';
 import { randomUUID } from 'crypto';
+import { executorRegistry } from '../../executors/registry';
+import { parseCustomCommandSpec } from '../../executors/custom';
+import { compilePolicyRule } from '../../features/policy';
+import { MAX_VERIFY_ITERATIONS, type VerifySettings } from '../../features/verify';
+import type { PolicyRuleInput, ProjectRunCommandInput, ProjectSessionTemplateInput, ProjectSetupStepInput } from '../database/models';
 
 type CreateProjectRequest = {
   name: string;
@@ -8,8 +13,15 @@ type CreateProjectRequest = {
   active: boolean;
 };
 
+type WorkflowPromptTemplates = {
+  commit: string | null;
+  push: string | null;
+  update: string | null;
+  sync: string | null;
+};
+
 export function registerProjectHandlers(ipcMain: IpcMain, services: AppServices): void {
-  const { databaseService, sessionManager, worktreeManager, claudeExecutor, codexExecutor, geminiExecutor, kimiExecutor, gitExecutor, gitStatusManager } = services;
+  const { databaseService, sessionManager, worktreeManager, claudeExecutor, codexExecutor, geminiExecutor, kimiExecutor, gitExecutor, gitStatusManager, verifyRunner } = services;
 
   ipcMain.handle('projects:get-all', async () => {
     try {
@@ -33,6 +45,251 @@ export function registerProjectHandlers(ipcMain: IpcMain, services: AppServices)
     }
   });
 
+  ipcMain.handle('projects:get-workflow-prompts', async (_event, projectId: number) => {
+    try {
+      const project = databaseService.getProject(projectId);
+      if (!project) return { success: false, error: 'Project not found' };
+
+      const templates: WorkflowPromptTemplates = {
+        commit: project.commit_prompt_template ?? null,
+        push: project.push_prompt_template ?? null,
+        update: project.update_prompt_template ?? null,
+        sync: project.sync_prompt_template ?? null,
+      };
+      return { success: true, data: templates };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to get workflow prompts' };
+    }
+  });
+
+  // Empty/whitespace templates are stored as NULL so the built-in default is used.
+  ipcMain.handle('projects:update-workflow-prompts', async (_event, projectId: number, updates: Partial<WorkflowPromptTemplates>) => {
+    try {
+      const project = databaseService.getProject(projectId);
+      if (!project) return { success: false, error: 'Project not found' };
+
+      const normalize = (value: string | null | undefined) => {
+        if (value === undefined) return undefined;
+        return typeof value === 'string' && value.trim() ? value : null;
+      };
+
+      databaseService.updateProject(projectId, {
+        commit_prompt_template: normalize(updates?.commit),
+        push_prompt_template: normalize(updates?.push),
+        update_prompt_template: normalize(updates?.update),
+        sync_prompt_template: normalize(updates?.sync),
+      });
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update workflow prompts' };
+    }
+  });
+
+  ipcMain.handle('projects:get-custom-executor', async (_event, projectId: number) => {
+    try {
+      const project = databaseService.getProject(projectId);
+      if (!project) return { success: false, error: 'Project not found' };
+      return { success: true, data: project.custom_executor_spec ?? null };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to get custom command' };
+    }
+  });
+
+  // The spec is validated here so a broken spec is reported on save rather than on the next run.
+  // An empty spec clears it.
+  ipcMain.handle('projects:update-custom-executor', async (_event, projectId: number, spec: string | null) => {
+    try {
+      const project = databaseService.getProject(projectId);
+      if (!project) return { success: false, error: 'Project not found' };
+
+      const trimmed = typeof spec === 'string' ? spec.trim() : '';
+      if (trimmed) {
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(trimmed);
+        } catch (error) {
+          throw new Error(`Invalid custom command spec: ${error instanceof Error ? error.message : 'not valid JSON'}`);
+        }
+        parseCustomCommandSpec(parsed);
+      }
+
+      databaseService.updateProject(projectId, { custom_executor_spec: trimmed || null });
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update custom command' };
+    }
+  });
+
+  ipcMain.handle('projects:get-verify-settings', async (_event, projectId: number) => {
+    try {
+      const project = databaseService.getProject(projectId);
+      if (!project) return { success: false, error: 'Project not found' };
+      if (!verifyRunner) return { success: false, error: 'Verification not available' };
+      return { success: true, data: verifyRunner.getSettings(projectId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to get verify settings' };
+    }
+  });
+
+  // An empty command turns verification off.
+  ipcMain.handle('projects:update-verify-settings', async (_event, projectId: number, settings: Partial<VerifySettings>) => {
+    try {
+      const project = databaseService.getProject(projectId);
+      if (!project) return { success: false, error: 'Project not found' };
+
+      const maxIterations = settings?.maxIterations;
+      if (maxIterations !== undefined && (!Number.isInteger(maxIterations) || maxIterations < 0 || maxIterations > MAX_VERIFY_ITERATIONS)) {
+        throw new Error(`Max iterations must be a whole number from 0 to ${MAX_VERIFY_ITERATIONS}`);
+      }
+
+      databaseService.updateProject(projectId, {
+        verify_command: settings?.command === undefined ? undefined : (settings.command?.trim() || null),
+        verify_auto_fix: settings?.autoFix === undefined ? undefined : Boolean(settings.autoFix),
+        verify_max_iterations: maxIterations,
+      });
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update verify settings' };
+    }
+  });
+
+  ipcMain.handle('projects:get-policy-rules', async (_event, projectId: number) => {
+    try {
+      return { success: true, data: databaseService.getPolicyRules(projectId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to get policy rules' };
+    }
+  });
+
+  // Rules are validated here so a bad pattern is reported on save rather than silently skipped.
+  ipcMain.handle('projects:update-policy-rules', async (_event, projectId: number, rules: PolicyRuleInput[]) => {
+    try {
+      const project = databaseService.getProject(projectId);
+      if (!project) return { success: false, error: 'Project not found' };
+      if (!Array.isArray(rules)) return { success: false, error: 'Rules must be a list' };
+
+      const normalized = rules.map((rule, index): PolicyRuleInput => {
+        const next: PolicyRuleInput = {
+          name: typeof rule?.name === 'string' && rule.name.trim() ? rule.name.trim() : `Rule ${index + 1}`,
+          action: rule?.action === 'allow' ? 'allow' : 'deny',
+          target: rule?.target === 'path' ? 'path' : 'command',
+          pattern_type: rule?.pattern_type === 'regex' ? 'regex' : 'glob',
+          pattern: typeof rule?.pattern === 'string' ? rule.pattern : '',
+          enabled: rule?.enabled !== false,
+        };
+        compilePolicyRule(next);
+        return next;
+      });
+
+      return { success: true, data: databaseService.setPolicyRules(projectId, normalized) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update policy rules' };
+    }
+  });
+
+  ipcMain.handle('projects:get-run-commands', async (_event, projectId: number) => {
+    try {
+      return { success: true, data: databaseService.getProjectRunCommands(projectId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to get run commands' };
+    }
+  });
+
+  ipcMain.handle('projects:update-run-commands', async (_event, projectId: number, commands: ProjectRunCommandInput[]) => {
+    try {
+      const project = databaseService.getProject(projectId);
+      if (!project) return { success: false, error: 'Project not found' };
+      if (!Array.isArray(commands)) return { success: false, error: 'Commands must be a list' };
+
+      const normalized = commands.map((command, index): ProjectRunCommandInput => {
+        const text = typeof command?.command === 'string' ? command.command.trim() : '';
+        if (!text) throw new Error(`Command ${index + 1} is empty`);
+        return {
+          id: typeof command.id === 'number' ? command.id : undefined,
+          command: text,
+          display_name: typeof command.display_name === 'string' ? command.display_name : null,
+        };
+      });
+
+      const saved = databaseService.setProjectRunCommands(projectId, normalized);
+      services.scriptRunner?.refreshProject(projectId);
+      return { success: true, data: saved };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update run commands' };
+    }
+  });
+
+  ipcMain.handle('projects:get-setup-steps', async (_event, projectId: number) => {
+    try {
+      return { success: true, data: databaseService.getSetupSteps(projectId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to get setup steps' };
+    }
+  });
+
+  ipcMain.handle('projects:update-setup-steps', async (_event, projectId: number, steps: ProjectSetupStepInput[]) => {
+    try {
+      const project = databaseService.getProject(projectId);
+      if (!project) return { success: false, error: 'Project not found' };
+      if (!Array.isArray(steps)) return { success: false, error: 'Setup steps must be a list' };
+
+      const normalized = steps.map((step, index): ProjectSetupStepInput => {
+        const kind = step?.kind === 'copy' || step?.kind === 'symlink' ? step.kind : 'command';
+        const value = typeof step?.value === 'string' ? step.value.trim() : '';
+        if (!value) throw new Error(`Step ${index + 1} has nothing to ${kind === 'command' ? 'run' : kind}`);
+        return {
+          name: typeof step?.name === 'string' && step.name.trim() ? step.name.trim() : value.split('\n')[0],
+          kind,
+          value,
+          enabled: step?.enabled !== false,
+        };
+      });
+
+      return { success: true, data: databaseService.setSetupSteps(projectId, normalized) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update setup steps' };
+    }
+  });
+
+  ipcMain.handle('projects:get-session-templates', async (_event, projectId: number) => {
+    try {
+      return { success: true, data: databaseService.getSessionTemplates(projectId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to get session templates' };
+    }
+  });
+
+  ipcMain.handle('projects:update-session-templates', async (_event, projectId: number, templates: ProjectSessionTemplateInput[]) => {
+    try {
+      const project = databaseService.getProject(projectId);
+      if (!project) return { success: false, error: 'Project not found' };
+      if (!Array.isArray(templates)) return { success: false, error: 'Session templates must be a list' };
+
+      const text = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+      const normalized = templates.map((template, index): ProjectSessionTemplateInput => {
+        const name = text(template?.name);
+        if (!name) throw new Error(`Template ${index + 1} needs a name`);
+        const thinkingLevel = template?.thinking_level;
+        const commitMode = template?.commit_mode;
+        return {
+          name,
+          prompt: typeof template?.prompt === 'string' ? template.prompt.trim() : '',
+          tool_type: text(template?.tool_type) ?? 'claude',
+          model: text(template?.model),
+          approval_mode: text(template?.approval_mode),
+          thinking_level: thinkingLevel === 'low' || thinkingLevel === 'medium' || thinkingLevel === 'high' ? thinkingLevel : null,
+          plan_mode: template?.plan_mode === true,
+          commit_mode: commitMode === 'structured' || commitMode === 'checkpoint' || commitMode === 'disabled' ? commitMode : null,
+          base_branch: text(template?.base_branch),
+        };
+      });
+
+      return { success: true, data: databaseService.setSessionTemplates(projectId, normalized) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update session templates' };
+    }
+  });
+
   ipcMain.handle('projects:delete', async (_event, projectId: number) => {
     try {
       const project = databaseService.getProject(projectId);
@@ -47,9 +304,10 @@ export function registerProjectHandlers(ipcMain: IpcMain, services: AppServices)
           const panels = databaseService.getPanelsForSession(session.id);
           for (const panel of panels) {
             if (panel.type === 'claude') await claudeExecutor.kill(panel.id);
-            if (panel.type === 'codex') await codexExecutor.kill(panel.id);
-            if (panel.type === 'gemini') await geminiExecutor.kill(panel.id);
-            if (panel.type === 'kimi') await kimiExecutor.kill(panel.id);
+            else if (panel.type === 'codex') await codexExecutor.kill(panel.id);
+            else if (panel.type === 'gemini') await geminiExecutor.kill(panel.id);
+            else if (panel.type === 'kimi') await kimiExecutor.kill(panel.id);
+            else await executorRegistry.findExecutor(panel.type)?.kill(panel.id);
           }
         } catch {
           // ignore
@@ -157,9 +415,10 @@ export function registerProjectHandlers(ipcMain: IpcMain, services: AppServices)
           const panels = databaseService.getPanelsForSession(s.id);
           for (const panel of panels) {
             if (panel.type === 'claude') await claudeExecutor.kill(panel.id);
-            if (panel.type === 'codex') await codexExecutor.kill(panel.id);
-            if (panel.type === 'gemini') await geminiExecutor.kill(panel.id);
-            if (panel.type === 'kimi') await kimiExecutor.kill(panel.id);
+            else if (panel.type === 'codex') await codexExecutor.kill(panel.id);
+            else if (panel.type === 'gemini') await geminiExecutor.kill(panel.id);
+            else if (panel.type === 'kimi') await kimiExecutor.kill(panel.id);
+            else await executorRegistry.findExecutor(panel.type)?.kill(panel.id);
           }
         } catch {
           // ignore
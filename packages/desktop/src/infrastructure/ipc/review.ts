@@ -0,0 +1,132 @@
+import type { IpcMain } from 'electron';
+import type { AppServices } from './types';
+import { ForgeRegistry } from '../../features/forge';
+import type { DiffCommentInput, FetchedReviewComments } from '../../features/review';
+import { fetchAndCacheRepoInfo, getForgeTargets } from './git';
+
+export function registerReviewHandlers(ipcMain: IpcMain, services: AppServices): void {
+  const { sessionManager, gitExecutor, reviewFeedbackManager, diffCommentManager } = services;
+  const forges = new ForgeRegistry(gitExecutor);
+
+  /**
+   * Unresolved review threads of the first pull request found for the session's branch.
+   */
+  const fetchReviewComments = async (sessionId: string): Promise<FetchedReviewComments> => {
+    const session = sessionManager.getSession(sessionId);
+    if (!session?.worktreePath) throw new Error('Session worktree not found');
+
+    const dbSession = sessionManager.db.getSession(sessionId);
+    let branch = dbSession?.current_branch;
+    let ownerRepo = dbSession?.owner_repo;
+    let originOwnerRepo = dbSession?.origin_owner_repo;
+    let isFork = dbSession?.is_fork || false;
+
+    if (!branch || !ownerRepo) {
+      const repoInfo = await fetchAndCacheRepoInfo(sessionId, session.worktreePath, sessionManager, gitExecutor);
+      branch = repoInfo?.currentBranch;
+      ownerRepo = repoInfo?.ownerRepo;
+      originOwnerRepo = repoInfo?.originOwnerRepo;
+      isFork = repoInfo?.isFork || false;
+    }
+    if (!branch || !ownerRepo) return { pullRequest: null, comments: [] };
+
+    const ctx = { sessionId, cwd: session.worktreePath };
+    for (const { provider, repo, head } of getForgeTargets(forges, branch, ownerRepo, isFork, originOwnerRepo)) {
+      const pr = await provider.findPullRequest(ctx, repo, head);
+      if (!pr) continue;
+
+      const pullRequest = { number: pr.number, url: pr.url };
+      const comments = await provider.getReviewComments(ctx, repo, pr.number);
+      if (!comments) {
+        return { pullRequest, comments: [], error: `Could not load review comments from ${provider.kind}` };
+      }
+      return { pullRequest, comments };
+    }
+    return { pullRequest: null, comments: [] };
+  };
+
+  ipcMain.handle('review:get-feedback', async (_event, sessionId: string) => {
+    try {
+      if (!reviewFeedbackManager) return { success: false, error: 'Review feedback not available' };
+      return { success: true, data: reviewFeedbackManager.get(sessionId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to load review feedback' };
+    }
+  });
+
+  ipcMain.handle('review:refresh', async (_event, sessionId: string) => {
+    try {
+      if (!reviewFeedbackManager) return { success: false, error: 'Review feedback not available' };
+      const fetched = await fetchReviewComments(sessionId);
+      return { success: true, data: reviewFeedbackManager.setFetched(sessionId, fetched) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to fetch review comments' };
+    }
+  });
+
+  // Resolves once the prompt was handed to the panel; the round itself runs on.
+  ipcMain.handle('review:send', async (_event, sessionId: string, panelId: string, commentIds: string[]) => {
+    try {
+      if (!reviewFeedbackManager) return { success: false, error: 'Review feedback not available' };
+      return { success: true, data: await reviewFeedbackManager.send(sessionId, panelId, commentIds) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to send review feedback' };
+    }
+  });
+
+  ipcMain.handle('review:set-status', async (_event, sessionId: string, commentIds: string[], status: 'open' | 'addressed') => {
+    try {
+      if (!reviewFeedbackManager) return { success: false, error: 'Review feedback not available' };
+      if (status !== 'open' && status !== 'addressed') return { success: false, error: `Unknown status: ${status}` };
+      return { success: true, data: reviewFeedbackManager.setStatus(sessionId, commentIds, status) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update review comments' };
+    }
+  });
+
+  // Local comments left on the session's diffs
+  ipcMain.handle('diff-comments:list', async (_event, sessionId: string) => {
+    try {
+      if (!diffCommentManager) return { success: false, error: 'Diff comments not available' };
+      return { success: true, data: await diffCommentManager.list(sessionId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to load comments' };
+    }
+  });
+
+  ipcMain.handle('diff-comments:add', async (_event, sessionId: string, input: DiffCommentInput) => {
+    try {
+      if (!diffCommentManager) return { success: false, error: 'Diff comments not available' };
+      return { success: true, data: await diffCommentManager.add(sessionId, input) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to add comment' };
+    }
+  });
+
+  ipcMain.handle('diff-comments:update', async (_event, sessionId: string, id: number, body: string) => {
+    try {
+      if (!diffCommentManager) return { success: false, error: 'Diff comments not available' };
+      return { success: true, data: await diffCommentManager.update(sessionId, id, body) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update comment' };
+    }
+  });
+
+  ipcMain.handle('diff-comments:delete', async (_event, sessionId: string, id: number) => {
+    try {
+      if (!diffCommentManager) return { success: false, error: 'Diff comments not available' };
+      return { success: true, data: await diffCommentManager.delete(sessionId, id) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to delete comment' };
+    }
+  });
+
+  ipcMain.handle('diff-comments:send', async (_event, sessionId: string, panelId: string) => {
+    try {
+      if (!diffCommentManager) return { success: false, error: 'Diff comments not available' };
+      return { success: true, data: await diffCommentManager.send(sessionId, panelId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to send review' };
+    }
+  });
+}
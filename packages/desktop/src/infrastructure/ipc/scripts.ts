@@ -0,0 +1,52 @@
+import type { IpcMain } from 'electron';
+import type { AppServices } from './types';
+
+export function registerScriptHandlers(ipcMain: IpcMain, services: AppServices): void {
+  const { scriptRunner } = services;
+
+  ipcMain.handle('scripts:list', async (_event, sessionId: string) => {
+    try {
+      if (!scriptRunner) return { success: false, error: 'Run scripts not available' };
+      return { success: true, data: scriptRunner.list(sessionId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to load run scripts' };
+    }
+  });
+
+  ipcMain.handle('scripts:start', async (_event, sessionId: string, scriptId: string) => {
+    try {
+      if (!scriptRunner) return { success: false, error: 'Run scripts not available' };
+      return { success: true, data: await scriptRunner.start(sessionId, scriptId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to start script' };
+    }
+  });
+
+  ipcMain.handle('scripts:stop', async (_event, sessionId: string, scriptId: string) => {
+    try {
+      if (!scriptRunner) return { success: false, error: 'Run scripts not available' };
+      await scriptRunner.stop(sessionId, scriptId);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to stop script' };
+    }
+  });
+
+  ipcMain.handle('scripts:restart', async (_event, sessionId: string, scriptId: string) => {
+    try {
+      if (!scriptRunner) return { success: false, error: 'Run scripts not available' };
+      return { success: true, data: await scriptRunner.restart(sessionId, scriptId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to restart script' };
+    }
+  });
+
+  ipcMain.handle('scripts:get-logs', async (_event, sessionId: string, scriptId: string) => {
+    try {
+      if (!scriptRunner) return { success: false, error: 'Run scripts not available' };
+      return { success: true, data: scriptRunner.getLogs(sessionId, scriptId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to load script output' };
+    }
+  });
+}
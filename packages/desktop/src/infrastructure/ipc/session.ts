@@ -9,11 +9,17 @@ import {
   getCodexPanelManager,
   getGeminiPanelManager,
   getKimiPanelManager,
+  getPluginPanelManager,
   initPanelManagerRegistry,
 } from '../../features/panels/ai/panelManagerRegistry';
+import { executorRegistry } from '../../executors/registry';
 import type { AIPanelState } from '@snowtree/core/types/aiPanelConfig';
+import type { AgentToolType } from '@snowtree/core/types/panels';
+import type { HistorySearchOptions } from '../database/models';
 import { randomUUID } from 'crypto';
 import { persistRendererImageAttachments } from '../utils/imageAttachments';
+import { buildTemplateSessionJob, type TemplateSessionJob } from '../../features/templates';
+import type { VerifyResult } from '../../features/verify';
 
 export {
   claudePanelManager,
@@ -25,13 +31,17 @@ export {
 type MinimalCreateSessionRequest = {
   projectId: number;
   prompt?: string;
-  toolType?: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none';
+  toolType?: AgentToolType | 'none';
   baseBranch?: string;
+  // Pre-fill the session from a project session template
+  templateId?: number;
+  // Values for the template's {{placeholders}}
+  variables?: Record<string, string>;
 };
 
 const SETTINGS_FILE = path.join(os.homedir(), '.snowtree', 'settings.json');
 
-export function readProviderConfig(toolType: string): { envVars?: Record<string, string>; extraArgs?: string } | undefined {
+export function readProviderConfig(toolType: string): { envVars?: Record<string, string>; extraArgs?: string; options?: Record<string, string> } | undefined {
   try {
     if (!fs.existsSync(SETTINGS_FILE)) return undefined;
     const settings = JSON.parse(fs.readFileSync(SETTINGS_FILE, 'utf8'));
@@ -39,13 +49,25 @@ export function readProviderConfig(toolType: string): { envVars?: Record<string,
     if (!cfg) return undefined;
     const hasEnvVars = cfg.envVars && typeof cfg.envVars === 'object' && Object.keys(cfg.envVars).length > 0;
     const hasExtraArgs = typeof cfg.extraArgs === 'string' && cfg.extraArgs.trim().length > 0;
-    if (!hasEnvVars && !hasExtraArgs) return undefined;
+    const hasOptions = cfg.options && typeof cfg.options === 'object' && Object.keys(cfg.options).length > 0;
+    if (!hasEnvVars && !hasExtraArgs && !hasOptions) return undefined;
     return cfg;
   } catch {
     return undefined;
   }
 }
 
+// Settings → "Archive instead of delete"
+function readArchiveOnDelete(): boolean {
+  try {
+    if (!fs.existsSync(SETTINGS_FILE)) return false;
+    const settings = JSON.parse(fs.readFileSync(SETTINGS_FILE, 'utf8'));
+    return settings?.archiveOnDelete === true;
+  } catch {
+    return false;
+  }
+}
+
 export function registerSessionHandlers(ipcMain: IpcMain, services: AppServices): void {
   const {
     sessionManager,
@@ -59,7 +81,16 @@ export function registerSessionHandlers(ipcMain: IpcMain, services: AppServices)
     configManager,
     worktreeManager,
     databaseService,
-    gitExecutor
+    gitExecutor,
+    promptQueue,
+    usageTracker,
+    checkpointManager,
+    setupRunner,
+    verifyRunner,
+    planManager,
+    reviewFeedbackManager,
+    diffCommentManager,
+    sessionOrganizer
   } = services;
 
   initPanelManagerRegistry({
@@ -70,11 +101,13 @@ export function registerSessionHandlers(ipcMain: IpcMain, services: AppServices)
     kimiExecutor,
     logger,
     configManager,
+    verifyRunner,
+    planManager,
   });
 
-  const resolveDefaultToolType = (): 'claude' | 'codex' | 'gemini' | 'kimi' | 'none' => {
+  const resolveDefaultToolType = (): AgentToolType | 'none' => {
     const pref = databaseService.getUserPreference('defaultToolType');
-    if (pref === 'codex' || pref === 'gemini' || pref === 'kimi' || pref === 'none') {
+    if (pref === 'codex' || pref === 'gemini' || pref === 'kimi' || pref === 'none' || (pref && executorRegistry.has(pref))) {
       return pref;
     }
     return 'claude';
@@ -151,14 +184,30 @@ export function registerSessionHandlers(ipcMain: IpcMain, services: AppServices)
   ipcMain.handle('sessions:create', async (_event, request: MinimalCreateSessionRequest) => {
     try {
       if (!taskQueue) return { success: false, error: 'Task queue not initialized' };
+      let templateJob: TemplateSessionJob | undefined;
+      if (request.templateId !== undefined) {
+        const template = databaseService.getSessionTemplate(request.templateId);
+        if (!template || template.project_id !== request.projectId) {
+          return { success: false, error: 'Session template not found' };
+        }
+        const variables = Object.fromEntries(
+          Object.entries(request.variables ?? {}).filter(([, value]) => typeof value === 'string')
+        );
+        templateJob = buildTemplateSessionJob(template, {
+          projectName: databaseService.getProject(request.projectId)?.name ?? '',
+          values: variables,
+        });
+      }
+
       const sessionId = randomUUID();
       const job = await taskQueue.createSession({
+        ...templateJob,
         sessionId,
-        prompt: request.prompt ?? '',
+        prompt: templateJob?.prompt ?? request.prompt ?? '',
         worktreeTemplate: '',
         projectId: request.projectId,
-        baseBranch: request.baseBranch,
-        toolType: request.toolType ?? resolveDefaultToolType(),
+        baseBranch: request.baseBranch ?? templateJob?.baseBranch,
+        toolType: templateJob?.toolType ?? request.toolType ?? resolveDefaultToolType(),
       });
       void job;
       return { success: true, data: { id: sessionId } };
@@ -181,6 +230,8 @@ export function registerSessionHandlers(ipcMain: IpcMain, services: AppServices)
           await geminiExecutor.kill(panel.id, 'interrupted');
         } else if (panel.type === 'kimi') {
           await kimiExecutor.kill(panel.id, 'interrupted');
+        } else {
+          await executorRegistry.findExecutor(panel.type)?.kill(panel.id, 'interrupted');
         }
       }
       return { success: true };
@@ -189,23 +240,34 @@ export function registerSessionHandlers(ipcMain: IpcMain, services: AppServices)
     }
   });
 
+  const killSessionPanels = async (sessionId: string) => {
+    const panels = panelManager.getPanelsForSession(sessionId);
+    for (const panel of panels) {
+      if (panel.type === 'claude') {
+        await claudeExecutor.kill(panel.id);
+      } else if (panel.type === 'codex') {
+        await codexExecutor.kill(panel.id);
+      } else if (panel.type === 'gemini') {
+        await geminiExecutor.kill(panel.id);
+      } else if (panel.type === 'kimi') {
+        await kimiExecutor.kill(panel.id);
+      } else {
+        await executorRegistry.findExecutor(panel.type)?.kill(panel.id);
+      }
+    }
+  };
+
   ipcMain.handle('sessions:delete', async (_event, sessionId: string) => {
     try {
       const session = sessionManager.getSession(sessionId);
       if (!session) return { success: false, error: 'Session not found' };
 
       // Stop any running panels first
-      const panels = panelManager.getPanelsForSession(sessionId);
-      for (const panel of panels) {
-        if (panel.type === 'claude') {
-          await claudeExecutor.kill(panel.id);
-        } else if (panel.type === 'codex') {
-          await codexExecutor.kill(panel.id);
-        } else if (panel.type === 'gemini') {
-          await geminiExecutor.kill(panel.id);
-        } else if (panel.type === 'kimi') {
-          await kimiExecutor.kill(panel.id);
-        }
+      await killSessionPanels(sessionId);
+
+      if (sessionOrganizer && readArchiveOnDelete()) {
+        await sessionOrganizer.archive(sessionId);
+        return { success: true };
       }
 
       // Remove worktree folder if it's a worktree (never delete the main repo folder)
@@ -228,6 +290,56 @@ export function registerSessionHandlers(ipcMain: IpcMain, services: AppServices)
     }
   });
 
+  ipcMain.handle('sessions:archive', async (_event, sessionId: string) => {
+    try {
+      if (!sessionOrganizer) return { success: false, error: 'Archive not available' };
+      if (!sessionManager.getSession(sessionId)) return { success: false, error: 'Session not found' };
+      await killSessionPanels(sessionId);
+      await sessionOrganizer.archive(sessionId);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to archive session' };
+    }
+  });
+
+  ipcMain.handle('sessions:get-archived', async (_event, projectId: number) => {
+    try {
+      if (!sessionOrganizer) return { success: false, error: 'Archive not available' };
+      return { success: true, data: sessionOrganizer.listArchived(projectId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to load archived sessions' };
+    }
+  });
+
+  ipcMain.handle('sessions:restore', async (_event, sessionId: string) => {
+    try {
+      if (!sessionOrganizer) return { success: false, error: 'Archive not available' };
+      return { success: true, data: await sessionOrganizer.restore(sessionId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to restore session' };
+    }
+  });
+
+  ipcMain.handle('sessions:set-favorite', async (_event, sessionId: string, isFavorite: boolean) => {
+    try {
+      if (!sessionOrganizer) return { success: false, error: 'Favorites not available' };
+      sessionOrganizer.setFavorite(sessionId, isFavorite);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update favorite' };
+    }
+  });
+
+  ipcMain.handle('sessions:move-to-folder', async (_event, sessionId: string, folderId: string | null) => {
+    try {
+      if (!sessionOrganizer) return { success: false, error: 'Folders not available' };
+      sessionOrganizer.moveSession(sessionId, folderId);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to move session' };
+    }
+  });
+
   ipcMain.handle('sessions:update', async (_event, sessionId: string, updates: import('@snowtree/core/types/session').SessionUpdate) => {
     try {
       sessionManager.updateSession(sessionId, updates);
@@ -255,36 +367,79 @@ export function registerSessionHandlers(ipcMain: IpcMain, services: AppServices)
     }
   });
 
-  ipcMain.handle('sessions:terminal-ensure-panel', async (_event, sessionId: string) => {
+  ipcMain.handle('sessions:search', async (_event, options: HistorySearchOptions) => {
     try {
-      const panel = await sessionManager.ensureTerminalPanel(sessionId);
+      return { success: true, data: databaseService.searchHistory(options) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to search history' };
+    }
+  });
+
+  ipcMain.handle('sessions:terminal-ensure-panel', async (_event, sessionId: string, options?: { tmux?: boolean }) => {
+    try {
+      const panel = await sessionManager.ensureTerminalPanel(sessionId, options);
       return { success: true, data: panel };
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : 'Failed to ensure terminal panel' };
     }
   });
 
-  ipcMain.handle('sessions:terminal-precreate', async (_event, sessionId: string) => {
+  ipcMain.handle('sessions:terminal-list', async (_event, sessionId: string) => {
+    try {
+      return { success: true, data: sessionManager.listTerminalPanels(sessionId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to list terminals' };
+    }
+  });
+
+  ipcMain.handle('sessions:terminal-create', async (_event, sessionId: string, options?: { title?: string; tmux?: boolean }) => {
+    try {
+      const panel = await sessionManager.createTerminalPanel(sessionId, options);
+      return { success: true, data: panel };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to create terminal' };
+    }
+  });
+
+  ipcMain.handle('sessions:terminal-rename', async (_event, sessionId: string, panelId: string, title: string) => {
+    try {
+      await sessionManager.renameTerminalPanel(sessionId, panelId, title);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to rename terminal' };
+    }
+  });
+
+  ipcMain.handle('sessions:terminal-close', async (_event, sessionId: string, panelId: string) => {
+    try {
+      await sessionManager.closeTerminalPanel(sessionId, panelId);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to close terminal' };
+    }
+  });
+
+  ipcMain.handle('sessions:terminal-precreate', async (_event, sessionId: string, panelId?: string) => {
     try {
-      await sessionManager.preCreateTerminalSession(sessionId);
+      await sessionManager.preCreateTerminalSession(sessionId, panelId);
       return { success: true };
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : 'Failed to pre-create terminal session' };
     }
   });
 
-  ipcMain.handle('sessions:terminal-input', async (_event, sessionId: string, data: string) => {
+  ipcMain.handle('sessions:terminal-input', async (_event, sessionId: string, data: string, panelId?: string) => {
     try {
-      await sessionManager.sendTerminalInput(sessionId, data);
+      await sessionManager.sendTerminalInput(sessionId, data, panelId);
       return { success: true };
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : 'Failed to send terminal input' };
     }
   });
 
-  ipcMain.handle('sessions:terminal-resize', async (_event, sessionId: string, cols: number, rows: number) => {
+  ipcMain.handle('sessions:terminal-resize', async (_event, sessionId: string, cols: number, rows: number, panelId?: string) => {
     try {
-      sessionManager.resizeTerminal(sessionId, cols, rows);
+      sessionManager.resizeTerminal(sessionId, cols, rows, panelId);
       return { success: true };
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : 'Failed to resize terminal' };
@@ -293,7 +448,7 @@ export function registerSessionHandlers(ipcMain: IpcMain, services: AppServices)
 
   ipcMain.handle('sessions:terminal-get-outputs', async (_event, panelId: string, limit?: number) => {
     try {
-      const outputs = sessionManager.getSessionOutputsForPanel(panelId, limit);
+      const outputs = sessionManager.getTerminalOutputs(panelId, limit);
       const serialized = outputs.map(output => {
         const timestamp = output.timestamp as unknown;
         return {
@@ -307,7 +462,7 @@ export function registerSessionHandlers(ipcMain: IpcMain, services: AppServices)
     }
   });
 
-  ipcMain.handle('panels:continue', async (_event, panelId: string, input: string, _model?: string, options?: { skipCheckpointAutoCommit?: boolean; planMode?: boolean }, images?: Array<{ id: string; filename: string; mime: string; dataUrl: string }>) => {
+  const continuePanel = async (panelId: string, input: string, options?: { skipCheckpointAutoCommit?: boolean; planMode?: boolean }, images?: Array<{ id: string; filename: string; mime: string; dataUrl: string }>) => {
     let sessionIdForError: string | null = null;
     const planMode = options?.planMode ?? false;
     try {
@@ -315,6 +470,7 @@ export function registerSessionHandlers(ipcMain: IpcMain, services: AppServices)
       if (!panel) return { success: false, error: 'Panel not found' };
 
       const session = sessionManager.getSession(panel.sessionId);
+      if (session?.importedAt) return { success: false, error: 'Imported sessions are read-only' };
       if (!session?.worktreePath) return { success: false, error: 'Session worktree not available' };
       sessionIdForError = session.id;
 
@@ -327,6 +483,12 @@ export function registerSessionHandlers(ipcMain: IpcMain, services: AppServices)
         };
       }
 
+      const budgetBlock = usageTracker?.getBlockingReason(session.id);
+      if (budgetBlock) return { success: false, error: budgetBlock };
+
+      const setupBlock = setupRunner?.getBlockingReason(session.id);
+      if (setupBlock) return { success: false, error: setupBlock };
+
       sessionManager.updateSessionStatus(session.id, 'running');
 
       let imagePaths: string[] = [];
@@ -342,6 +504,7 @@ export function registerSessionHandlers(ipcMain: IpcMain, services: AppServices)
       // Keep original message content with [img1], [img2] etc. tags intact
       const messageContent = input;
       sessionManager.addPanelConversationMessage(panelId, 'user', messageContent);
+      await checkpointManager?.captureRound(session.id, panelId, worktreePath);
 
       // IMPORTANT: PanelManager caches panel state; agent resume tokens are persisted via SessionManager/db.
       // Always read the latest persisted agent session id from the database to preserve conversation context.
@@ -449,6 +612,31 @@ export function registerSessionHandlers(ipcMain: IpcMain, services: AppServices)
         return { success: true };
       }
 
+      const plugin = getPluginPanelManager(panel.type);
+      if (plugin) {
+        const { manager, executor } = plugin;
+        manager.registerPanel(panelId, session.id, panel.state?.customState as AIPanelState | undefined, false);
+        if (typeof persistedAgentSessionId === 'string' && persistedAgentSessionId) {
+          manager.setAgentSessionId(panelId, persistedAgentSessionId);
+        }
+
+        if (executor.isRunning(panelId)) {
+          manager.sendInputToPanel(panelId, input, imagePaths);
+        } else {
+          const history = sessionManager.getPanelConversationMessages(panelId);
+          await manager.continuePanel({
+            panelId,
+            worktreePath,
+            prompt: input,
+            conversationHistory: history,
+            planMode,
+            imagePaths,
+            providerConfig,
+          });
+        }
+        return { success: true };
+      }
+
       return { success: false, error: `Unsupported panel type: ${panel.type}` };
     } catch (error) {
       sessionManager.addPanelConversationMessage(panelId, 'assistant', `Error: ${error instanceof Error ? error.message : String(error)}`);
@@ -457,9 +645,112 @@ export function registerSessionHandlers(ipcMain: IpcMain, services: AppServices)
       }
       return { success: false, error: error instanceof Error ? error.message : 'Failed to continue panel' };
     }
+  };
+
+  ipcMain.handle('panels:continue', async (_event, panelId: string, input: string, _model?: string, options?: { skipCheckpointAutoCommit?: boolean; planMode?: boolean }, images?: Array<{ id: string; filename: string; mime: string; dataUrl: string }>) => {
+    return continuePanel(panelId, input, options, images);
+  });
+
+  // Queued follow-up prompts go through the same path as a prompt typed into the panel.
+  promptQueue?.setDispatcher((item) => continuePanel(item.panel_id, item.prompt, { planMode: item.plan_mode }));
+
+  // Failed verify commands are reported back to the agent through the same path.
+  verifyRunner?.setDispatcher((panelId, prompt) => continuePanel(panelId, prompt));
+
+  // Queued prompts wait for the verify of the turn that just ended. An auto-fix
+  // follow-up goes first; the queue then drains after that turn instead.
+  if (promptQueue && verifyRunner) {
+    promptQueue.setHold((sessionId) => verifyRunner.isRunning(sessionId));
+    verifyRunner.on('completed', (result: VerifyResult) => {
+      if (!result.followUp) void promptQueue.runNext(result.sessionId);
+    });
+  }
+
+  // An approved plan starts the execute round the same way.
+  planManager?.setDispatcher((panelId, prompt) => continuePanel(panelId, prompt));
+
+  // So do PR review comments picked in the Review feedback section.
+  reviewFeedbackManager?.setDispatcher((panelId, prompt) => continuePanel(panelId, prompt));
+  diffCommentManager?.setDispatcher((panelId, prompt) => continuePanel(panelId, prompt));
+
+  ipcMain.handle('sessions:get-plans', async (_event, sessionId: string) => {
+    try {
+      if (!planManager) return { success: false, error: 'Plans not available' };
+      return { success: true, data: planManager.getPlans(sessionId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to get plans' };
+    }
+  });
+
+  ipcMain.handle('sessions:update-plan', async (_event, sessionId: string, planId: number, content: string) => {
+    try {
+      if (!planManager) return { success: false, error: 'Plans not available' };
+      if (typeof content !== 'string') return { success: false, error: 'Plan content is required' };
+      return { success: true, data: planManager.updatePlan(sessionId, planId, content) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to save plan' };
+    }
+  });
+
+  ipcMain.handle('sessions:approve-plan', async (_event, sessionId: string, planId: number, content?: string) => {
+    try {
+      if (!planManager) return { success: false, error: 'Plans not available' };
+      if (sessionManager.getSession(sessionId)?.importedAt) return { success: false, error: 'Imported sessions are read-only' };
+      return { success: true, data: await planManager.approvePlan(sessionId, planId, typeof content === 'string' ? content : undefined) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to approve plan' };
+    }
+  });
+
+  ipcMain.handle('sessions:get-prompt-queue', async (_event, sessionId: string) => {
+    try {
+      if (!promptQueue) return { success: false, error: 'Prompt queue not available' };
+      return { success: true, data: promptQueue.list(sessionId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to get prompt queue' };
+    }
+  });
+
+  ipcMain.handle('sessions:enqueue-prompt', async (_event, sessionId: string, panelId: string, prompt: string, options?: { planMode?: boolean }) => {
+    try {
+      if (!promptQueue) return { success: false, error: 'Prompt queue not available' };
+      if (sessionManager.getSession(sessionId)?.importedAt) return { success: false, error: 'Imported sessions are read-only' };
+      return { success: true, data: promptQueue.enqueue(sessionId, panelId, prompt, options) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to queue prompt' };
+    }
   });
 
-  // Answer user question handlers for Claude, Codex, Gemini, and Kimi panels
+  ipcMain.handle('sessions:remove-queued-prompt', async (_event, id: number) => {
+    try {
+      if (!promptQueue) return { success: false, error: 'Prompt queue not available' };
+      promptQueue.remove(id);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to remove queued prompt' };
+    }
+  });
+
+  ipcMain.handle('sessions:reorder-prompt-queue', async (_event, sessionId: string, orderedIds: number[]) => {
+    try {
+      if (!promptQueue) return { success: false, error: 'Prompt queue not available' };
+      promptQueue.reorder(sessionId, orderedIds);
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to reorder prompt queue' };
+    }
+  });
+
+  ipcMain.handle('sessions:run-next-queued-prompt', async (_event, sessionId: string) => {
+    try {
+      if (!promptQueue) return { success: false, error: 'Prompt queue not available' };
+      return { success: true, data: await promptQueue.runNext(sessionId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to run queued prompt' };
+    }
+  });
+
+  // Answer user question handlers for Claude, Codex, Gemini, Kimi and executor plugin panels
   ipcMain.handle('claude-panels:answer-question', async (_event, panelId: string, answers: Record<string, string | string[]>) => {
     try {
       logger?.info(`[IPC] claude-panels:answer-question called for panelId: ${panelId}, answers: ${JSON.stringify(answers)}`);
@@ -595,4 +886,39 @@ export function registerSessionHandlers(ipcMain: IpcMain, services: AppServices)
       return { success: false, error: err.message };
     }
   });
+
+  ipcMain.handle('pluginPanel:answer-question', async (_event, panelId: string, answers: Record<string, string | string[]>) => {
+    try {
+      logger?.info(`[IPC] pluginPanel:answer-question called for panelId: ${panelId}, answers: ${JSON.stringify(answers)}`);
+
+      const panel = panelManager.getPanel(panelId);
+      if (!panel) {
+        throw new Error(`Panel ${panelId} not found`);
+      }
+      const session = sessionManager.getSession(panel.sessionId);
+      if (!session) {
+        throw new Error(`Session ${panel.sessionId} not found`);
+      }
+
+      const plugin = getPluginPanelManager(panel.type);
+      if (!plugin) {
+        throw new Error(`No executor plugin registered for panel type ${panel.type}`);
+      }
+      const { manager } = plugin;
+      if (!manager.getPanelState(panelId)) {
+        manager.registerPanel(panelId, session.id, panel.state?.customState as AIPanelState | undefined, false);
+        const agentSessionId = sessionManager.getPanelAgentSessionId(panelId);
+        if (agentSessionId) {
+          manager.setAgentSessionId(panelId, agentSessionId);
+        }
+      }
+
+      await manager.answerQuestion(panelId, answers);
+      return { success: true };
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      logger?.error(`[IPC] pluginPanel:answer-question failed: ${err.message}`, err);
+      return { success: false, error: err.message };
+    }
+  });
 }
@@ -0,0 +1,55 @@
+import type { IpcMain } from 'electron';
+import type { AppServices } from './types';
+
+export function registerSetupHandlers(ipcMain: IpcMain, services: AppServices): void {
+  const { setupRunner } = services;
+
+  ipcMain.handle('setup:get-state', async (_event, sessionId: string) => {
+    try {
+      if (!setupRunner) return { success: false, error: 'Workspace setup not available' };
+      return { success: true, data: setupRunner.getState(sessionId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to load workspace setup' };
+    }
+  });
+
+  // Run, retry and skip resolve once the remaining steps finished; progress arrives through setup:updated.
+  ipcMain.handle('setup:run', async (_event, sessionId: string) => {
+    try {
+      if (!setupRunner) return { success: false, error: 'Workspace setup not available' };
+      await setupRunner.run(sessionId);
+      return { success: true, data: setupRunner.getState(sessionId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to run workspace setup' };
+    }
+  });
+
+  ipcMain.handle('setup:retry', async (_event, sessionId: string, taskId?: string) => {
+    try {
+      if (!setupRunner) return { success: false, error: 'Workspace setup not available' };
+      await setupRunner.retry(sessionId, taskId);
+      return { success: true, data: setupRunner.getState(sessionId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to retry setup step' };
+    }
+  });
+
+  ipcMain.handle('setup:skip', async (_event, sessionId: string, taskId: string) => {
+    try {
+      if (!setupRunner) return { success: false, error: 'Workspace setup not available' };
+      await setupRunner.skip(sessionId, taskId);
+      return { success: true, data: setupRunner.getState(sessionId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to skip setup step' };
+    }
+  });
+
+  ipcMain.handle('setup:get-logs', async (_event, sessionId: string, taskId: string) => {
+    try {
+      if (!setupRunner) return { success: false, error: 'Workspace setup not available' };
+      return { success: true, data: setupRunner.getLogs(sessionId, taskId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to load setup output' };
+    }
+  });
+}
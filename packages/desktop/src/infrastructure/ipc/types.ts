@@ -7,7 +7,24 @@ import type { WorktreeNameGenerator } from '../../features/worktree/NameGenerato
 import type { GitDiffManager } from '../../features/git/DiffManager';
 import type { GitStatusManager } from '../../features/git/StatusManager';
 import type { GitStagingManager } from '../../features/git/StagingManager';
+import type { GitWorkflowManager } from '../../features/git/WorkflowManager';
+import type { UpstreamWatcher } from '../../features/git/UpstreamWatcher';
 import type { ExecutionTracker } from '../../features/queue/ExecutionTracker';
+import type { PromptQueue } from '../../features/queue/PromptQueue';
+import type { FanOutManager } from '../../features/fanout/FanOutManager';
+import type { UsageTracker } from '../../features/usage/UsageTracker';
+import type { SessionBundleService } from '../../features/audit/SessionBundle';
+import type { CheckpointManager } from '../../features/checkpoints/CheckpointManager';
+import type { ApprovalService } from '../../features/approvals/ApprovalService';
+import type { PolicyEngine } from '../../features/policy/PolicyEngine';
+import type { ScriptRunner } from '../../features/scripts/ScriptRunner';
+import type { SetupRunner } from '../../features/setup/SetupRunner';
+import type { VerifyRunner } from '../../features/verify/VerifyRunner';
+import type { PlanManager } from '../../features/plans/PlanManager';
+import type { ReviewFeedbackManager } from '../../features/review/ReviewFeedbackManager';
+import type { DiffCommentManager } from '../../features/review/DiffCommentManager';
+import type { SessionOrganizer } from '../../features/organize/SessionOrganizer';
+import type { NotificationService } from '../../features/notifications/NotificationService';
 import type { DatabaseService } from '../database/database';
 import type { ClaudeExecutor } from '../../executors/claude';
 import type { CodexExecutor } from '../../executors/codex';
@@ -32,9 +49,26 @@ export interface AppServices {
   gitDiffManager: GitDiffManager;
   gitStatusManager: GitStatusManager;
   gitStagingManager: GitStagingManager;
+  gitWorkflowManager: GitWorkflowManager;
   executionTracker: ExecutionTracker;
   worktreeNameGenerator: WorktreeNameGenerator;
   taskQueue: TaskQueue | null;
+  promptQueue?: PromptQueue;
+  fanOutManager?: FanOutManager;
+  usageTracker?: UsageTracker;
+  sessionBundleService?: SessionBundleService;
+  checkpointManager?: CheckpointManager;
+  approvalService?: ApprovalService;
+  policyEngine?: PolicyEngine;
+  scriptRunner?: ScriptRunner;
+  setupRunner?: SetupRunner;
+  verifyRunner?: VerifyRunner;
+  planManager?: PlanManager;
+  reviewFeedbackManager?: ReviewFeedbackManager;
+  diffCommentManager?: DiffCommentManager;
+  sessionOrganizer?: SessionOrganizer;
+  notificationService?: NotificationService;
+  upstreamWatcher?: UpstreamWatcher;
   getMainWindow: () => BrowserWindow | null;
   logger?: Logger;
   updateManager?: UpdateManager | null;
@@ -0,0 +1,44 @@
+import type { IpcMain } from 'electron';
+import type { AppServices } from './types';
+
+export function registerUpstreamHandlers(ipcMain: IpcMain, services: AppServices): void {
+  const { upstreamWatcher } = services;
+
+  ipcMain.handle('upstream:configure', async (_event, settings: { intervalMinutes?: number }) => {
+    try {
+      if (!upstreamWatcher) return { success: false, error: 'Upstream watcher not available' };
+      upstreamWatcher.configure({ intervalMinutes: Number(settings?.intervalMinutes) || 0 });
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to configure upstream checks' };
+    }
+  });
+
+  ipcMain.handle('upstream:get-status', async (_event, projectId: number) => {
+    try {
+      if (!upstreamWatcher) return { success: false, error: 'Upstream watcher not available' };
+      return { success: true, data: upstreamWatcher.getStatus(projectId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to load upstream status' };
+    }
+  });
+
+  ipcMain.handle('upstream:check', async (_event, projectId: number) => {
+    try {
+      if (!upstreamWatcher) return { success: false, error: 'Upstream watcher not available' };
+      return { success: true, data: await upstreamWatcher.checkProject(projectId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to check upstream' };
+    }
+  });
+
+  // Resolves once every clean session was rebased; per-session results come back in data.
+  ipcMain.handle('upstream:rebase-clean', async (_event, projectId: number) => {
+    try {
+      if (!upstreamWatcher) return { success: false, error: 'Upstream watcher not available' };
+      return { success: true, data: await upstreamWatcher.rebaseCleanSessions(projectId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to rebase sessions' };
+    }
+  });
+}
@@ -0,0 +1,27 @@
+import type { IpcMain } from 'electron';
+import type { AppServices } from './types';
+import type { UsageBudgetScope } from '../database/models';
+import type { UsageBudgetInput } from '../../features/usage';
+
+export function registerUsageHandlers(ipcMain: IpcMain, services: AppServices): void {
+  const { usageTracker } = services;
+
+  ipcMain.handle('usage:get-report', async (_event, sessionId: string) => {
+    try {
+      if (!usageTracker) return { success: false, error: 'Usage tracking not available' };
+      return { success: true, data: usageTracker.getReport(sessionId) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to get usage report' };
+    }
+  });
+
+  ipcMain.handle('usage:set-budget', async (_event, scope: UsageBudgetScope, scopeId: string | number, budget: UsageBudgetInput) => {
+    try {
+      if (!usageTracker) return { success: false, error: 'Usage tracking not available' };
+      if (scope !== 'session' && scope !== 'project') return { success: false, error: `Unknown budget scope: ${String(scope)}` };
+      return { success: true, data: usageTracker.setBudget(scope, String(scopeId), budget ?? {}) };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to set usage budget' };
+    }
+  });
+}
@@ -25,6 +25,10 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.invoke('ai-tools:get-settings'),
   },
 
+  executors: {
+    list: (): Promise<IPCResponse> => ipcRenderer.invoke('executors:list'),
+  },
+
   preferences: {
     get: (key: string): Promise<IPCResponse> => ipcRenderer.invoke('preferences:get', key),
     set: (key: string, value: string): Promise<IPCResponse> => ipcRenderer.invoke('preferences:set', key, value),
@@ -46,6 +50,49 @@ contextBridge.exposeInMainWorld('electronAPI', {
     create: (request: { name: string; path: string; active: boolean }): Promise<IPCResponse> =>
       ipcRenderer.invoke('projects:create', request),
     delete: (projectId: number): Promise<IPCResponse> => ipcRenderer.invoke('projects:delete', projectId),
+    getWorkflowPrompts: (projectId: number): Promise<IPCResponse> => ipcRenderer.invoke('projects:get-workflow-prompts', projectId),
+    updateWorkflowPrompts: (
+      projectId: number,
+      updates: { commit?: string | null; push?: string | null; update?: string | null; sync?: string | null }
+    ): Promise<IPCResponse> => ipcRenderer.invoke('projects:update-workflow-prompts', projectId, updates),
+    getCustomExecutor: (projectId: number): Promise<IPCResponse> => ipcRenderer.invoke('projects:get-custom-executor', projectId),
+    updateCustomExecutor: (projectId: number, spec: string | null): Promise<IPCResponse> =>
+      ipcRenderer.invoke('projects:update-custom-executor', projectId, spec),
+    getPolicyRules: (projectId: number): Promise<IPCResponse> => ipcRenderer.invoke('projects:get-policy-rules', projectId),
+    updatePolicyRules: (
+      projectId: number,
+      rules: Array<{ name: string; action: 'allow' | 'deny'; target: 'command' | 'path'; pattern_type: 'glob' | 'regex'; pattern: string; enabled: boolean }>
+    ): Promise<IPCResponse> => ipcRenderer.invoke('projects:update-policy-rules', projectId, rules),
+    getSetupSteps: (projectId: number): Promise<IPCResponse> => ipcRenderer.invoke('projects:get-setup-steps', projectId),
+    updateSetupSteps: (
+      projectId: number,
+      steps: Array<{ name: string; kind: 'copy' | 'symlink' | 'command'; value: string; enabled: boolean }>
+    ): Promise<IPCResponse> => ipcRenderer.invoke('projects:update-setup-steps', projectId, steps),
+    getSessionTemplates: (projectId: number): Promise<IPCResponse> => ipcRenderer.invoke('projects:get-session-templates', projectId),
+    updateSessionTemplates: (
+      projectId: number,
+      templates: Array<{
+        name: string;
+        prompt: string;
+        tool_type: string;
+        model: string | null;
+        approval_mode: string | null;
+        thinking_level: 'low' | 'medium' | 'high' | null;
+        plan_mode: boolean;
+        commit_mode: 'structured' | 'checkpoint' | 'disabled' | null;
+        base_branch: string | null;
+      }>
+    ): Promise<IPCResponse> => ipcRenderer.invoke('projects:update-session-templates', projectId, templates),
+    getVerifySettings: (projectId: number): Promise<IPCResponse> => ipcRenderer.invoke('projects:get-verify-settings', projectId),
+    updateVerifySettings: (
+      projectId: number,
+      settings: { command?: string | null; autoFix?: boolean; maxIterations?: number }
+    ): Promise<IPCResponse> => ipcRenderer.invoke('projects:update-verify-settings', projectId, settings),
+    getRunCommands: (projectId: number): Promise<IPCResponse> => ipcRenderer.invoke('projects:get-run-commands', projectId),
+    updateRunCommands: (
+      projectId: number,
+      commands: Array<{ id?: number; command: string; display_name?: string | null }>
+    ): Promise<IPCResponse> => ipcRenderer.invoke('projects:update-run-commands', projectId, commands),
     getWorktrees: (projectId: number, sessionId?: string | null): Promise<IPCResponse> =>
       ipcRenderer.invoke('projects:get-worktrees', projectId, sessionId),
     removeWorktree: (projectId: number, worktreePath: string, sessionId?: string | null, autoDeleteBranch?: boolean): Promise<IPCResponse> =>
@@ -57,15 +104,49 @@ contextBridge.exposeInMainWorld('electronAPI', {
   sessions: {
     getAll: (): Promise<IPCResponse> => ipcRenderer.invoke('sessions:get-all'),
     get: (sessionId: string): Promise<IPCResponse> => ipcRenderer.invoke('sessions:get', sessionId),
-    create: (request: { projectId: number; prompt?: string; toolType?: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none'; baseBranch?: string }): Promise<IPCResponse> =>
+    create: (request: { projectId: number; prompt?: string; toolType?: string; baseBranch?: string; templateId?: number; variables?: Record<string, string> }): Promise<IPCResponse> =>
       ipcRenderer.invoke('sessions:create', request),
-    update: (sessionId: string, updates: { toolType?: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none'; executionMode?: 'plan' | 'execute' }): Promise<IPCResponse> =>
+    update: (sessionId: string, updates: { toolType?: string; executionMode?: 'plan' | 'execute' }): Promise<IPCResponse> =>
       ipcRenderer.invoke('sessions:update', sessionId, updates),
     stop: (sessionId: string): Promise<IPCResponse> => ipcRenderer.invoke('sessions:stop', sessionId),
     delete: (sessionId: string): Promise<IPCResponse> => ipcRenderer.invoke('sessions:delete', sessionId),
+    archive: (sessionId: string): Promise<IPCResponse> => ipcRenderer.invoke('sessions:archive', sessionId),
+    getArchived: (projectId: number): Promise<IPCResponse> => ipcRenderer.invoke('sessions:get-archived', projectId),
+    restore: (sessionId: string): Promise<IPCResponse> => ipcRenderer.invoke('sessions:restore', sessionId),
+    setFavorite: (sessionId: string, isFavorite: boolean): Promise<IPCResponse> => ipcRenderer.invoke('sessions:set-favorite', sessionId, isFavorite),
+    moveToFolder: (sessionId: string, folderId: string | null): Promise<IPCResponse> => ipcRenderer.invoke('sessions:move-to-folder', sessionId, folderId),
     openWorktree: (request: { projectId: number; worktreePath: string; branch?: string | null }): Promise<IPCResponse> =>
       ipcRenderer.invoke('sessions:open-worktree', request),
     getTimeline: (sessionId: string): Promise<IPCResponse> => ipcRenderer.invoke('sessions:get-timeline', sessionId),
+    search: (options: {
+      query: string;
+      projectId?: number;
+      sessionId?: string;
+      kinds?: string[];
+      since?: string;
+      until?: string;
+      includeArchived?: boolean;
+      limit?: number;
+    }): Promise<IPCResponse> => ipcRenderer.invoke('sessions:search', options),
+    // Audit bundles
+    exportBundle: (sessionId: string, format: 'bundle' | 'markdown' | 'html'): Promise<IPCResponse> =>
+      ipcRenderer.invoke('sessions:export-bundle', sessionId, format),
+    importBundle: (projectId: number): Promise<IPCResponse> => ipcRenderer.invoke('sessions:import-bundle', projectId),
+    getImport: (sessionId: string): Promise<IPCResponse> => ipcRenderer.invoke('sessions:get-import', sessionId),
+    // Queued follow-up prompts
+    getPromptQueue: (sessionId: string): Promise<IPCResponse> => ipcRenderer.invoke('sessions:get-prompt-queue', sessionId),
+    enqueuePrompt: (sessionId: string, panelId: string, prompt: string, options?: { planMode?: boolean }): Promise<IPCResponse> =>
+      ipcRenderer.invoke('sessions:enqueue-prompt', sessionId, panelId, prompt, options),
+    removeQueuedPrompt: (id: number): Promise<IPCResponse> => ipcRenderer.invoke('sessions:remove-queued-prompt', id),
+    reorderPromptQueue: (sessionId: string, orderedIds: number[]): Promise<IPCResponse> =>
+      ipcRenderer.invoke('sessions:reorder-prompt-queue', sessionId, orderedIds),
+    runNextQueuedPrompt: (sessionId: string): Promise<IPCResponse> => ipcRenderer.invoke('sessions:run-next-queued-prompt', sessionId),
+    // Plan documents from plan-mode rounds
+    getPlans: (sessionId: string): Promise<IPCResponse> => ipcRenderer.invoke('sessions:get-plans', sessionId),
+    updatePlan: (sessionId: string, planId: number, content: string): Promise<IPCResponse> =>
+      ipcRenderer.invoke('sessions:update-plan', sessionId, planId, content),
+    approvePlan: (sessionId: string, planId: number, content?: string): Promise<IPCResponse> =>
+      ipcRenderer.invoke('sessions:approve-plan', sessionId, planId, content),
     getExecutions: (sessionId: string): Promise<IPCResponse> => ipcRenderer.invoke('sessions:get-executions', sessionId),
     getDiff: (sessionId: string, target: { kind: 'working' } | { kind: 'commit'; hash: string }): Promise<IPCResponse> =>
       ipcRenderer.invoke('sessions:get-diff', sessionId, target),
@@ -96,6 +177,13 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.invoke('sessions:get-sync-context', sessionId),
     getPrTemplate: (sessionId: string): Promise<IPCResponse> =>
       ipcRenderer.invoke('sessions:get-pr-template', sessionId),
+    // Direct (non-AI) workspace actions
+    directCommit: (sessionId: string, options?: { messageTemplate?: string }): Promise<IPCResponse> =>
+      ipcRenderer.invoke('sessions:direct-commit', sessionId, options),
+    directPush: (sessionId: string): Promise<IPCResponse> =>
+      ipcRenderer.invoke('sessions:direct-push', sessionId),
+    directUpdate: (sessionId: string, options?: { strategy?: 'rebase' | 'merge' }): Promise<IPCResponse> =>
+      ipcRenderer.invoke('sessions:direct-update', sessionId, options),
     // Branch sync status helpers
     getCommitsBehindMain: (sessionId: string): Promise<IPCResponse> =>
       ipcRenderer.invoke('sessions:get-commits-behind-main', sessionId),
@@ -106,35 +194,47 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.invoke('sessions:get-ci-status', sessionId),
     markPRReady: (sessionId: string): Promise<IPCResponse> =>
       ipcRenderer.invoke('sessions:mark-pr-ready', sessionId),
+    createPullRequest: (sessionId: string, options: { title: string; body?: string; draft?: boolean }): Promise<IPCResponse> =>
+      ipcRenderer.invoke('sessions:create-pull-request', sessionId, options),
     // Terminal helpers
-    ensureTerminalPanel: (sessionId: string): Promise<IPCResponse> =>
-      ipcRenderer.invoke('sessions:terminal-ensure-panel', sessionId),
-    preCreateTerminal: (sessionId: string): Promise<IPCResponse> =>
-      ipcRenderer.invoke('sessions:terminal-precreate', sessionId),
-    sendTerminalInput: (sessionId: string, data: string): Promise<IPCResponse> =>
-      ipcRenderer.invoke('sessions:terminal-input', sessionId, data),
-    resizeTerminal: (sessionId: string, cols: number, rows: number): Promise<IPCResponse> =>
-      ipcRenderer.invoke('sessions:terminal-resize', sessionId, cols, rows),
+    ensureTerminalPanel: (sessionId: string, options?: { tmux?: boolean }): Promise<IPCResponse> =>
+      ipcRenderer.invoke('sessions:terminal-ensure-panel', sessionId, options),
+    listTerminals: (sessionId: string): Promise<IPCResponse> =>
+      ipcRenderer.invoke('sessions:terminal-list', sessionId),
+    createTerminal: (sessionId: string, options?: { title?: string; tmux?: boolean }): Promise<IPCResponse> =>
+      ipcRenderer.invoke('sessions:terminal-create', sessionId, options),
+    renameTerminal: (sessionId: string, panelId: string, title: string): Promise<IPCResponse> =>
+      ipcRenderer.invoke('sessions:terminal-rename', sessionId, panelId, title),
+    closeTerminal: (sessionId: string, panelId: string): Promise<IPCResponse> =>
+      ipcRenderer.invoke('sessions:terminal-close', sessionId, panelId),
+    preCreateTerminal: (sessionId: string, panelId?: string): Promise<IPCResponse> =>
+      ipcRenderer.invoke('sessions:terminal-precreate', sessionId, panelId),
+    sendTerminalInput: (sessionId: string, data: string, panelId?: string): Promise<IPCResponse> =>
+      ipcRenderer.invoke('sessions:terminal-input', sessionId, data, panelId),
+    resizeTerminal: (sessionId: string, cols: number, rows: number, panelId?: string): Promise<IPCResponse> =>
+      ipcRenderer.invoke('sessions:terminal-resize', sessionId, cols, rows, panelId),
     getTerminalOutputs: (panelId: string, limit?: number): Promise<IPCResponse> =>
       ipcRenderer.invoke('sessions:terminal-get-outputs', panelId, limit),
   },
 
   panels: {
-    create: (request: { sessionId: string; type: 'claude' | 'codex' | 'gemini' | 'kimi' | 'terminal'; name?: string }): Promise<IPCResponse> =>
+    create: (request: { sessionId: string; type: string; name?: string }): Promise<IPCResponse> =>
       ipcRenderer.invoke('panels:create', request),
     list: (sessionId: string): Promise<IPCResponse> => ipcRenderer.invoke('panels:list', sessionId),
     update: (panelId: string, updates: { state?: unknown; title?: string; metadata?: unknown }): Promise<IPCResponse> =>
       ipcRenderer.invoke('panels:update', panelId, updates),
     continue: (panelId: string, input: string, model?: string, options?: { skipCheckpointAutoCommit?: boolean; planMode?: boolean }, images?: Array<{ id: string; filename: string; mime: string; dataUrl: string }>): Promise<IPCResponse> =>
       ipcRenderer.invoke('panels:continue', panelId, input, model, options, images),
-    answerQuestion: (panelId: string, panelType: 'claude' | 'codex' | 'gemini' | 'kimi', answers: Record<string, string | string[]>): Promise<IPCResponse> => {
+    answerQuestion: (panelId: string, panelType: string, answers: Record<string, string | string[]>): Promise<IPCResponse> => {
       const ipcPrefix = panelType === 'claude'
         ? 'claude-panels'
         : panelType === 'gemini'
           ? 'geminiPanel'
           : panelType === 'kimi'
             ? 'kimiPanel'
-            : 'codexPanel';
+            : panelType === 'codex'
+              ? 'codexPanel'
+              : 'pluginPanel';
       return ipcRenderer.invoke(`${ipcPrefix}:answer-question`, panelId, answers);
     },
   },
@@ -153,6 +253,99 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.invoke('telegram:restart', settings),
   },
 
+  fanOut: {
+    create: (request: { projectId: number; prompt: string; runs: string[]; baseBranch?: string }): Promise<IPCResponse> =>
+      ipcRenderer.invoke('fanout:create', request),
+    compare: (folderId: string): Promise<IPCResponse> => ipcRenderer.invoke('fanout:compare', folderId),
+    diff: (folderId: string, fromSessionId: string | null, toSessionId: string): Promise<IPCResponse> =>
+      ipcRenderer.invoke('fanout:diff', folderId, fromSessionId, toSessionId),
+    promote: (folderId: string, winnerSessionId: string): Promise<IPCResponse> =>
+      ipcRenderer.invoke('fanout:promote', folderId, winnerSessionId),
+  },
+
+  usage: {
+    getReport: (sessionId: string): Promise<IPCResponse> => ipcRenderer.invoke('usage:get-report', sessionId),
+    setBudget: (
+      scope: 'session' | 'project',
+      scopeId: string | number,
+      budget: { tokenLimit?: number | null; costLimitUsd?: number | null; warnRatio?: number }
+    ): Promise<IPCResponse> => ipcRenderer.invoke('usage:set-budget', scope, scopeId, budget),
+  },
+
+  checkpoints: {
+    list: (sessionId: string): Promise<IPCResponse> => ipcRenderer.invoke('checkpoints:list', sessionId),
+    restore: (sessionId: string, checkpointId: number, options?: { restoreStaged?: boolean }): Promise<IPCResponse> =>
+      ipcRenderer.invoke('checkpoints:restore', sessionId, checkpointId, options),
+    redo: (sessionId: string, options?: { restoreStaged?: boolean }): Promise<IPCResponse> =>
+      ipcRenderer.invoke('checkpoints:redo', sessionId, options),
+  },
+
+  approvals: {
+    listPending: (sessionId?: string): Promise<IPCResponse> => ipcRenderer.invoke('approvals:list-pending', sessionId),
+    resolve: (id: string, decision: 'approve' | 'approve_for_session' | 'deny'): Promise<IPCResponse> =>
+      ipcRenderer.invoke('approvals:resolve', id, decision),
+  },
+
+  scripts: {
+    list: (sessionId: string): Promise<IPCResponse> => ipcRenderer.invoke('scripts:list', sessionId),
+    start: (sessionId: string, scriptId: string): Promise<IPCResponse> => ipcRenderer.invoke('scripts:start', sessionId, scriptId),
+    stop: (sessionId: string, scriptId: string): Promise<IPCResponse> => ipcRenderer.invoke('scripts:stop', sessionId, scriptId),
+    restart: (sessionId: string, scriptId: string): Promise<IPCResponse> => ipcRenderer.invoke('scripts:restart', sessionId, scriptId),
+    getLogs: (sessionId: string, scriptId: string): Promise<IPCResponse> => ipcRenderer.invoke('scripts:get-logs', sessionId, scriptId),
+  },
+
+  setup: {
+    getState: (sessionId: string): Promise<IPCResponse> => ipcRenderer.invoke('setup:get-state', sessionId),
+    run: (sessionId: string): Promise<IPCResponse> => ipcRenderer.invoke('setup:run', sessionId),
+    retry: (sessionId: string, taskId?: string): Promise<IPCResponse> => ipcRenderer.invoke('setup:retry', sessionId, taskId),
+    skip: (sessionId: string, taskId: string): Promise<IPCResponse> => ipcRenderer.invoke('setup:skip', sessionId, taskId),
+    getLogs: (sessionId: string, taskId: string): Promise<IPCResponse> => ipcRenderer.invoke('setup:get-logs', sessionId, taskId),
+  },
+
+  upstream: {
+    configure: (settings: { intervalMinutes: number }): Promise<IPCResponse> => ipcRenderer.invoke('upstream:configure', settings),
+    getStatus: (projectId: number): Promise<IPCResponse> => ipcRenderer.invoke('upstream:get-status', projectId),
+    check: (projectId: number): Promise<IPCResponse> => ipcRenderer.invoke('upstream:check', projectId),
+    rebaseClean: (projectId: number): Promise<IPCResponse> => ipcRenderer.invoke('upstream:rebase-clean', projectId),
+  },
+
+  notifications: {
+    configure: (settings: unknown): Promise<IPCResponse> => ipcRenderer.invoke('notifications:configure', settings),
+  },
+
+  review: {
+    getFeedback: (sessionId: string): Promise<IPCResponse> => ipcRenderer.invoke('review:get-feedback', sessionId),
+    refresh: (sessionId: string): Promise<IPCResponse> => ipcRenderer.invoke('review:refresh', sessionId),
+    send: (sessionId: string, panelId: string, commentIds: string[]): Promise<IPCResponse> => ipcRenderer.invoke('review:send', sessionId, panelId, commentIds),
+    setStatus: (sessionId: string, commentIds: string[], status: 'open' | 'addressed'): Promise<IPCResponse> =>
+      ipcRenderer.invoke('review:set-status', sessionId, commentIds, status),
+  },
+
+  diffComments: {
+    list: (sessionId: string): Promise<IPCResponse> => ipcRenderer.invoke('diff-comments:list', sessionId),
+    add: (sessionId: string, input: {
+      filePath: string;
+      side?: 'additions' | 'deletions';
+      startLine: number;
+      endLine?: number;
+      commitHash?: string | null;
+      body: string;
+    }): Promise<IPCResponse> => ipcRenderer.invoke('diff-comments:add', sessionId, input),
+    update: (sessionId: string, id: number, body: string): Promise<IPCResponse> => ipcRenderer.invoke('diff-comments:update', sessionId, id, body),
+    delete: (sessionId: string, id: number): Promise<IPCResponse> => ipcRenderer.invoke('diff-comments:delete', sessionId, id),
+    send: (sessionId: string, panelId: string): Promise<IPCResponse> => ipcRenderer.invoke('diff-comments:send', sessionId, panelId),
+  },
+
+  folders: {
+    list: (projectId: number): Promise<IPCResponse> => ipcRenderer.invoke('folders:list', projectId),
+    create: (projectId: number, name: string, parentFolderId?: string | null): Promise<IPCResponse> =>
+      ipcRenderer.invoke('folders:create', projectId, name, parentFolderId),
+    rename: (folderId: string, name: string): Promise<IPCResponse> => ipcRenderer.invoke('folders:rename', folderId, name),
+    move: (folderId: string, parentFolderId: string | null): Promise<IPCResponse> => ipcRenderer.invoke('folders:move', folderId, parentFolderId),
+    reorder: (projectId: number, orderedIds: string[]): Promise<IPCResponse> => ipcRenderer.invoke('folders:reorder', projectId, orderedIds),
+    delete: (folderId: string): Promise<IPCResponse> => ipcRenderer.invoke('folders:delete', folderId),
+  },
+
   events: {
     onSessionsLoaded: (cb: (sessions: unknown[]) => void) => on('sessions:loaded', cb),
     onSessionCreated: (cb: (session: unknown) => void) => on('session:created', cb),
@@ -166,7 +359,19 @@ contextBridge.exposeInMainWorld('electronAPI', {
     onAssistantStream: (cb: (data: { sessionId: string; panelId: string; content: string }) => void) => on('assistant:stream', cb),
     onUpdateAvailable: (cb: (info: { version: string; releaseNotes?: string }) => void) => on('update:available', cb),
     onUpdateDownloaded: (cb: () => void) => on('update:downloaded', cb),
-    onAgentCompleted: (cb: (data: { sessionId: string }) => void) => on('agent:completed', cb),
+    onAgentCompleted: (cb: (data: { sessionId: string; muted?: boolean }) => void) => on('agent:completed', cb),
+    onNotificationFocus: (cb: (data: { sessionId: string; panelId: string | null }) => void) => on('notifications:focus', cb),
+    onPromptQueueUpdated: (cb: (data: { sessionId: string; items: unknown[] }) => void) => on('prompt-queue:updated', cb),
+    onUsageUpdated: (cb: (data: { sessionId: string | null; projectId: number | null }) => void) => on('usage:updated', cb),
+    onCheckpointsUpdated: (cb: (data: { sessionId: string; rounds: unknown[]; redo: unknown }) => void) => on('checkpoints:updated', cb),
+    onScriptsUpdated: (cb: (data: { sessionId: string; scripts: unknown[] }) => void) => on('scripts:updated', cb),
+    onScriptOutput: (cb: (data: { sessionId: string; scriptId: string; lines: unknown[] }) => void) => on('scripts:output', cb),
+    onSetupUpdated: (cb: (data: { sessionId: string; status: string; tasks: unknown[] }) => void) => on('setup:updated', cb),
+    onSetupOutput: (cb: (data: { sessionId: string; taskId: string; lines: unknown[] }) => void) => on('setup:output', cb),
+    onUpstreamUpdated: (cb: (data: { projectId: number; sessions: unknown[] }) => void) => on('upstream:updated', cb),
+    onReviewFeedbackUpdated: (cb: (data: { sessionId: string; comments: unknown[] }) => void) => on('review:updated', cb),
+    onDiffCommentsUpdated: (cb: (data: { sessionId: string; comments: unknown[] }) => void) => on('diff-comments:updated', cb),
+    onFoldersUpdated: (cb: (data: { projectId: number; folders: unknown[] }) => void) => on('folders:updated', cb),
     onSessionTodosUpdate: (cb: (data: { sessionId: string; todos: Array<{ status: string; content: string; activeForm?: string }> }) => void) => on('session-todos:update', cb),
     onTelegramStateChanged: (cb: (data: { status: string; error?: string; botUsername?: string }) => void) => on('telegram:state-changed', cb),
   },
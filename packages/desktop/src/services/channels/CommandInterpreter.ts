@@ -1,4 +1,5 @@
 import type { SnowTreeCommandName, SnowTreeCommandRequest, ChannelContext } from './types';
+import { executorRegistry } from '../../executors/registry';
 
 export interface CommandInterpreterDecision {
   command: SnowTreeCommandName;
@@ -66,7 +67,7 @@ export class CommandInterpreter {
 
     // Switch executor
     if (lower.includes('use ')) {
-      const executors = ['claude', 'codex', 'gemini', 'kimi'];
+      const executors = ['claude', 'codex', 'gemini', 'kimi', ...executorRegistry.listPluginIds()];
       for (const exec of executors) {
         if (lower.includes(exec)) {
           return { command: 'switch_executor', args: { executor: exec } };
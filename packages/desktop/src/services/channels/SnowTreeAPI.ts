@@ -1,14 +1,25 @@
 import * as fs from 'fs';
 import { randomUUID } from 'crypto';
 import type { Session } from '@snowtree/core/types/session';
-import type { ToolPanel } from '@snowtree/core/types/panels';
+import type { AgentToolType, ToolPanel } from '@snowtree/core/types/panels';
 import type { AIPanelState } from '@snowtree/core/types/aiPanelConfig';
 import { panelManager } from '../../features/panels/PanelManager';
 import { getPanelManagerForType } from '../../features/panels/ai/panelManagerRegistry';
+import { executorRegistry } from '../../executors/registry';
 import type { SessionManager } from '../../features/session/SessionManager';
 import type { TaskQueue } from '../../features/queue/TaskQueue';
 import type { WorktreeManager } from '../../features/worktree/WorktreeManager';
 import type { Logger } from '../../infrastructure/logging/logger';
+import {
+  buildTemplateSessionJob,
+  findSessionTemplates,
+  getMissingTemplateValues,
+  getTemplatePlaceholders,
+  parseTemplateInvocation,
+  slugifyTemplateName,
+  type TemplateInvocation,
+  type TemplateSessionJob,
+} from '../../features/templates';
 import type {
   SnowTreeCommandRequest,
   SnowTreeCommandResponse,
@@ -173,46 +184,101 @@ export class SnowTreeAPI {
       return { message: 'Please provide a prompt for the new session.' };
     }
 
+    // "#bugfix key=value text" starts from a project session template
+    const invocation = parseTemplateInvocation(prompt);
+    if (invocation) {
+      return this.createSessionFromTemplate(invocation, context);
+    }
+
     return this.createSessionWithPrompt(prompt, context, '🚀 Creating new session');
   }
 
+  private async createSessionFromTemplate(
+    invocation: TemplateInvocation,
+    context: ChannelContext
+  ): Promise<SnowTreeCommandResponse> {
+    const projectId = this.resolveProjectId(context);
+    if (!projectId) {
+      return { message: 'No projects found. Please add a project first.' };
+    }
+
+    const templates = this.deps.sessionManager.db.getSessionTemplates(projectId);
+    if (templates.length === 0) {
+      return { message: 'This project has no session templates. Add them in Settings → Templates.' };
+    }
+
+    const matches = findSessionTemplates(templates, invocation.template);
+    if (matches.length !== 1) {
+      const reason = !invocation.template
+        ? 'Session templates:'
+        : matches.length === 0
+          ? `Template "${invocation.template}" not found. Available:`
+          : `"${invocation.template}" matches several templates:`;
+      const list = (matches.length > 1 ? matches : templates)
+        .map((t) => `#${slugifyTemplateName(t.name)} - ${t.name}`)
+        .join('\n');
+      return { message: `${reason}\n\n${list}` };
+    }
+
+    const template = matches[0];
+    const values = { ...invocation.values };
+    let text = invocation.text;
+    // Free text fills {{input}}; templates without it get the text appended
+    if (text && !values.input && getTemplatePlaceholders(template.prompt).includes('input')) {
+      values.input = text;
+      text = '';
+    }
+
+    const missing = getMissingTemplateValues(template.prompt, values);
+    if (missing.length > 0) {
+      const usage = missing.map((name) => (name === 'input' ? `<${name}>` : `${name}=...`)).join(' ');
+      return {
+        message: `Template "${template.name}" needs: ${missing.join(', ')}\nUsage: /new #${slugifyTemplateName(template.name)} ${usage}`,
+      };
+    }
+
+    const projectName = this.deps.sessionManager.db.getProject(projectId)?.name ?? '';
+    const job = buildTemplateSessionJob(template, { projectName, values });
+    if (text) {
+      job.prompt = job.prompt ? `${job.prompt}\n\n${text}` : text;
+    }
+
+    return this.startSession(job, context, `🚀 Creating ${template.name} session`);
+  }
+
   private async createSessionWithPrompt(
     prompt: string,
     context: ChannelContext,
     label: string
   ): Promise<SnowTreeCommandResponse> {
-    // Auto-select project if not set
-    if (!context.activeProjectId) {
-      const activeProject = this.deps.sessionManager.getActiveProject();
-      if (activeProject) {
-        context.activeProjectId = activeProject.id;
-      } else {
-        const projects = this.deps.sessionManager.db.getAllProjects();
-        if (projects.length > 0) {
-          context.activeProjectId = projects[0].id;
-          this.deps.sessionManager.db.setActiveProject(projects[0].id);
-          this.deps.sessionManager.setActiveProject(projects[0]);
-        } else {
-          return { message: 'No projects found. Please add a project first.' };
-        }
-      }
+    return this.startSession({ prompt, toolType: this.getDefaultToolType() }, context, label);
+  }
+
+  private async startSession(
+    job: TemplateSessionJob,
+    context: ChannelContext,
+    label: string
+  ): Promise<SnowTreeCommandResponse> {
+    const projectId = this.resolveProjectId(context);
+    if (!projectId) {
+      return { message: 'No projects found. Please add a project first.' };
     }
 
     if (!this.deps.taskQueue) {
       return { message: 'Task queue not initialized.' };
     }
 
-    const toolType = this.getDefaultToolType();
+    const toolType = job.toolType ?? this.getDefaultToolType();
     if (toolType !== 'none') {
       getPanelManagerForType(toolType);
     }
 
     const sessionId = randomUUID();
     await this.deps.taskQueue.createSession({
+      ...job,
       sessionId,
-      prompt,
       worktreeTemplate: '',
-      projectId: context.activeProjectId,
+      projectId,
       toolType
     });
 
@@ -224,6 +290,23 @@ export class SnowTreeAPI {
     };
   }
 
+  /** The active project, auto-selecting one when the channel has none yet. */
+  private resolveProjectId(context: ChannelContext): number | null {
+    if (!context.activeProjectId) {
+      const activeProject = this.deps.sessionManager.getActiveProject();
+      if (activeProject) {
+        context.activeProjectId = activeProject.id;
+      } else {
+        const projects = this.deps.sessionManager.db.getAllProjects();
+        if (projects.length === 0) return null;
+        context.activeProjectId = projects[0].id;
+        this.deps.sessionManager.db.setActiveProject(projects[0].id);
+        this.deps.sessionManager.setActiveProject(projects[0]);
+      }
+    }
+    return context.activeProjectId;
+  }
+
   // ===========================================================================
   // Status & Control Commands
   // ===========================================================================
@@ -249,7 +332,7 @@ export class SnowTreeAPI {
 
   private switchExecutor(command: SnowTreeCommandRequest, context: ChannelContext): SnowTreeCommandResponse {
     const executor = command.args?.executor?.toLowerCase()?.trim();
-    const validExecutors = ['claude', 'codex', 'gemini', 'kimi'];
+    const validExecutors = ['claude', 'codex', 'gemini', 'kimi', ...executorRegistry.listPluginIds()];
 
     if (!executor || !validExecutors.includes(executor)) {
       return { message: `Please specify an executor: ${validExecutors.join(', ')}` };
@@ -264,7 +347,7 @@ export class SnowTreeAPI {
       return { message: 'Session not found.' };
     }
 
-    const toolType = executor as 'claude' | 'codex' | 'gemini' | 'kimi';
+    const toolType: AgentToolType = executor;
     this.deps.sessionManager.updateSession(context.activeSessionId, { toolType });
 
     // Create new panel for the executor if needed
@@ -448,6 +531,7 @@ export class SnowTreeAPI {
       '/sessions - List sessions',
       '/select <id> - Select a session',
       '/new <prompt> - Create a new session',
+      '/new #<template> [key=value] <text> - Create from a template',
       '/stop - Stop the active session',
       '/delete <id> - Delete a session',
       '/use <executor> - Switch to claude/codex/gemini/kimi',
@@ -463,9 +547,9 @@ export class SnowTreeAPI {
   // Helpers
   // ===========================================================================
 
-  private getDefaultToolType(): 'claude' | 'codex' | 'gemini' | 'kimi' | 'none' {
+  private getDefaultToolType(): AgentToolType | 'none' {
     const pref = this.deps.sessionManager.db.getUserPreference('defaultToolType');
-    if (pref === 'codex' || pref === 'gemini' || pref === 'kimi' || pref === 'none') {
+    if (pref === 'codex' || pref === 'gemini' || pref === 'kimi' || pref === 'none' || (pref && executorRegistry.has(pref))) {
       return pref;
     }
     return 'claude';
@@ -481,7 +565,8 @@ export class SnowTreeAPI {
     const preferred = panels.find(panel => panel.type === 'claude')
       || panels.find(panel => panel.type === 'codex')
       || panels.find(panel => panel.type === 'gemini')
-      || panels.find(panel => panel.type === 'kimi');
+      || panels.find(panel => panel.type === 'kimi')
+      || panels.find(panel => executorRegistry.has(panel.type));
 
     return preferred || null;
   }
@@ -490,7 +575,8 @@ export class SnowTreeAPI {
     return panel.type === 'claude'
       || panel.type === 'codex'
       || panel.type === 'gemini'
-      || panel.type === 'kimi';
+      || panel.type === 'kimi'
+      || executorRegistry.has(panel.type);
   }
 
   private async resolveWorktreePath(sessionId: string, session: Session): Promise<string | null> {
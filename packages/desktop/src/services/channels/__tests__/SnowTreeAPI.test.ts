@@ -21,6 +21,7 @@ const mockSessionManager = {
     setActiveProject: vi.fn(),
     getUserPreference: vi.fn(),
     getActivePanel: vi.fn(),
+    getSessionTemplates: vi.fn(),
   },
   getSession: vi.fn(),
   getSessionsForProject: vi.fn(),
@@ -207,6 +208,70 @@ describe('SnowTreeAPI', () => {
     });
   });
 
+  describe('new_session', () => {
+    const template = {
+      id: 7,
+      project_id: 1,
+      name: 'Bugfix (Codex)',
+      prompt: 'Fix issue {{issue}} in {{project}}: {{input}}',
+      tool_type: 'codex',
+      model: 'gpt-5',
+      approval_mode: 'auto',
+      thinking_level: 'high',
+      plan_mode: true,
+      commit_mode: null,
+      base_branch: null,
+      order_index: 0,
+      created_at: 'now',
+    };
+
+    beforeEach(() => {
+      context.activeProjectId = 1;
+      mockSessionManager.db.getProject.mockReturnValue({ id: 1, name: 'shop' });
+      mockSessionManager.db.getSessionTemplates.mockReturnValue([template]);
+    });
+
+    it('should create a session with the default executor', async () => {
+      mockSessionManager.db.getUserPreference.mockReturnValue('gemini');
+      const command: SnowTreeCommandRequest = { name: 'new_session', args: { prompt: 'Add tests' } };
+      await api.execute(command, context);
+      expect(mockTaskQueue.createSession).toHaveBeenCalledWith(expect.objectContaining({
+        prompt: 'Add tests',
+        projectId: 1,
+        toolType: 'gemini',
+      }));
+    });
+
+    it('should pre-fill the session from a template', async () => {
+      const command: SnowTreeCommandRequest = { name: 'new_session', args: { prompt: '#bugfix issue=42 checkout crashes' } };
+      const result = await api.execute(command, context);
+      expect(result.message).toContain('Bugfix (Codex)');
+      expect(mockTaskQueue.createSession).toHaveBeenCalledWith(expect.objectContaining({
+        prompt: 'Fix issue 42 in shop: checkout crashes',
+        toolType: 'codex',
+        planMode: true,
+        codexConfig: { model: 'gpt-5', approvalPolicy: 'auto', thinkingLevel: 'high' },
+      }));
+      expect(context.activeSessionId).toBeTruthy();
+    });
+
+    it('should ask for missing template values', async () => {
+      const command: SnowTreeCommandRequest = { name: 'new_session', args: { prompt: '#bugfix checkout crashes' } };
+      const result = await api.execute(command, context);
+      expect(result.message).toContain('needs: issue');
+      expect(result.message).toContain('/new #bugfix-codex issue=...');
+      expect(mockTaskQueue.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should list templates when the name does not match', async () => {
+      const command: SnowTreeCommandRequest = { name: 'new_session', args: { prompt: '#docs update readme' } };
+      const result = await api.execute(command, context);
+      expect(result.message).toContain('not found');
+      expect(result.message).toContain('#bugfix-codex - Bugfix (Codex)');
+      expect(mockTaskQueue.createSession).not.toHaveBeenCalled();
+    });
+  });
+
   describe('help', () => {
     it('should return help message', async () => {
       const command: SnowTreeCommandRequest = { name: 'help', rawText: 'help' };
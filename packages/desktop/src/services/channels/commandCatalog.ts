@@ -21,7 +21,7 @@ export const SNOWTREE_COMMANDS: SnowTreeCommandDefinition[] = [
   },
   {
     name: 'new_session',
-    description: 'Create a new session with a prompt.',
+    description: 'Create a new session with a prompt. A prompt starting with "#<template> key=value ..." uses a project session template.',
     args: '{ prompt: string }'
   },
   {
@@ -14,6 +14,8 @@ import type { KimiExecutor } from '../../executors/kimi';
 import type { Logger } from '../../infrastructure/logging';
 import type { ConfigManager } from '../../infrastructure/config/configManager';
 import type { TimelineEvent } from '../../infrastructure/database/models';
+import type { ApprovalService } from '../../features/approvals';
+import type { VerifyRunner } from '../../features/verify';
 import { initPanelManagerRegistry } from '../../features/panels/ai/panelManagerRegistry';
 import {
   SnowTreeAPI,
@@ -28,6 +30,14 @@ import {
 
 const CHANNEL_TYPE = 'telegram';
 
+// Approval buttons: `approval:<a|s|d>:<request id>` (well under Telegram's 64-byte limit)
+const APPROVAL_CALLBACK_DECISIONS = {
+  a: 'approve',
+  s: 'approve_for_session',
+  d: 'deny',
+} as const;
+const APPROVAL_DIFF_PREVIEW_CHARS = 1500;
+
 // Streaming config
 const STREAM_CHUNK_SIZE = 200; // Send every N characters
 const STREAM_DEBOUNCE_MS = 1500; // Or after N ms of no updates
@@ -47,6 +57,8 @@ interface TelegramServiceDeps {
   codexExecutor: CodexExecutor;
   geminiExecutor: GeminiExecutor;
   kimiExecutor: KimiExecutor;
+  approvalService?: ApprovalService;
+  verifyRunner?: VerifyRunner;
   logger: Logger;
   configManager: ConfigManager;
 }
@@ -87,6 +99,7 @@ export class TelegramService extends EventEmitter implements ChannelAdapter {
       kimiExecutor: deps.kimiExecutor,
       logger: deps.logger,
       configManager: deps.configManager,
+      verifyRunner: deps.verifyRunner,
     });
 
     // Initialize channel-agnostic components
@@ -164,7 +177,7 @@ export class TelegramService extends EventEmitter implements ChannelAdapter {
           { command: 'sessions', description: 'List sessions in active project' },
           { command: 'open', description: 'Open a project: /open <name>' },
           { command: 'select', description: 'Select a session: /select <id>' },
-          { command: 'new', description: 'Create a session: /new <prompt>' },
+          { command: 'new', description: 'Create a session: /new <prompt> or /new #<template> <text>' },
           { command: 'stop', description: 'Stop the active session' },
           { command: 'delete', description: 'Delete a session: /delete <id>' },
           { command: 'use', description: 'Switch executor: /use <claude|codex|gemini|kimi>' },
@@ -296,11 +309,11 @@ export class TelegramService extends EventEmitter implements ChannelAdapter {
       await this.handleCommand(ctx, { name: 'select_session', args: { id } });
     });
 
-    // /new <prompt>
+    // /new <prompt> or /new #<template> [key=value ...] <text>
     bot.command('new', async (ctx) => {
       const prompt = ctx.match?.trim();
       if (!prompt) {
-        await ctx.reply('Usage: /new <prompt for the session>');
+        await ctx.reply('Usage: /new <prompt for the session>\nFrom a template: /new #<template> [key=value ...] <text> (/new # lists them)');
         return;
       }
       await this.handleCommand(ctx, { name: 'new_session', args: { prompt } });
@@ -402,6 +415,23 @@ export class TelegramService extends EventEmitter implements ChannelAdapter {
           });
           await ctx.answerCallbackQuery('Session stopped');
 
+        } else if (data.startsWith('approval:')) {
+          const [, code, id] = data.split(':');
+          const decision = APPROVAL_CALLBACK_DECISIONS[code as keyof typeof APPROVAL_CALLBACK_DECISIONS];
+          if (!decision || !id || !this.deps.approvalService) {
+            await ctx.answerCallbackQuery('Unknown action.');
+            return;
+          }
+          try {
+            this.deps.approvalService.resolve(id, decision, 'telegram');
+          } catch {
+            await ctx.editMessageReplyMarkup();
+            await ctx.answerCallbackQuery('Already answered.');
+            return;
+          }
+          await ctx.editMessageReplyMarkup();
+          await ctx.answerCallbackQuery(decision === 'deny' ? 'Denied' : 'Approved');
+
         } else if (data === 'cmd:projects') {
           await ctx.answerCallbackQuery();
           await this.handleProjectsCommandEdit(ctx, context);
@@ -785,6 +815,11 @@ export class TelegramService extends EventEmitter implements ChannelAdapter {
     const keys = this.contextStore.getKeysForSession(sessionId);
     if (keys.length === 0) return;
 
+    if (event.kind === 'approval_request') {
+      await this.sendApprovalRequest(keys, event);
+      return;
+    }
+
     // Format the event based on its kind
     const formatted = this.formatTimelineEvent(event);
     if (!formatted) return;
@@ -810,6 +845,69 @@ export class TelegramService extends EventEmitter implements ChannelAdapter {
     }
   }
 
+  /**
+   * Pending approvals get Approve / Deny buttons; answered ones a one-line outcome.
+   */
+  private async sendApprovalRequest(keys: string[], event: TimelineEvent) {
+    if (!this.bot || !event.tool_use_id) return;
+
+    let text: string;
+    let keyboard: InlineKeyboard | undefined;
+    if (event.status === 'pending') {
+      text = this.formatApprovalRequest(event);
+      keyboard = new InlineKeyboard()
+        .text('✅ Approve', `approval:a:${event.tool_use_id}`)
+        .text('✅ For session', `approval:s:${event.tool_use_id}`).row()
+        .text('🚫 Deny', `approval:d:${event.tool_use_id}`);
+    } else {
+      let answer: { decision?: string; source?: string } = {};
+      try {
+        answer = JSON.parse(event.answers || '{}');
+      } catch {
+        // ignore
+      }
+      const { decision } = answer;
+      // Answers given from Telegram are already acknowledged on the button press.
+      if (!decision || answer.source === 'telegram') return;
+      text = decision === 'deny' ? '🚫 Approval denied'
+        : decision === 'cancel' ? '⏹ Approval request cancelled'
+          : '✅ Approved';
+    }
+
+    for (const key of keys) {
+      const parsed = this.contextStore.parseKey(key);
+      if (!parsed || parsed.channelType !== CHANNEL_TYPE) continue;
+      try {
+        await this.bot.api.sendMessage(parsed.chatId, text, keyboard ? { reply_markup: keyboard } : undefined);
+      } catch (error) {
+        this.deps.logger.error('Failed to send Telegram approval request:', error as Error);
+      }
+    }
+  }
+
+  private formatApprovalRequest(event: TimelineEvent): string {
+    let details: { command?: string; cwd?: string; reason?: string; files?: Array<{ path: string; diff?: string }> } = {};
+    try {
+      details = JSON.parse(event.tool_input || '{}');
+    } catch {
+      // ignore
+    }
+
+    const lines = [event.action_type === 'file_change' ? '🔐 Approve file changes?' : '🔐 Approve command?'];
+    if (details.reason) lines.push(details.reason);
+    if (details.command) lines.push('', `$ ${details.command}`);
+    if (details.cwd) lines.push(`in ${details.cwd}`);
+    for (const file of details.files ?? []) {
+      lines.push('', `📝 ${file.path}`);
+      if (file.diff) {
+        lines.push(file.diff.length > APPROVAL_DIFF_PREVIEW_CHARS
+          ? `${file.diff.slice(0, APPROVAL_DIFF_PREVIEW_CHARS)}...`
+          : file.diff);
+      }
+    }
+    return lines.join('\n').slice(0, 4000);
+  }
+
   private formatTimelineEvent(event: TimelineEvent): string | null {
     switch (event.kind) {
       case 'chat.assistant': {
@@ -885,6 +983,24 @@ export class TelegramService extends EventEmitter implements ChannelAdapter {
         return null;
       }
 
+      case 'policy_decision': {
+        if (event.action_type !== 'deny') return null;
+        return `🛡 Blocked by policy rule "${event.tool_name || 'unnamed'}":\n${event.command || ''}`;
+      }
+
+      case 'verify_result': {
+        if (event.status !== 'failed') return null;
+        const followUp = event.meta?.followUp === true ? '\nSent the failures back to the agent.' : '';
+        return `🧪 Verify failed (exit ${event.exit_code ?? '?'}): \`${event.command || ''}\`${followUp}`;
+      }
+
+      case 'plan': {
+        if (event.meta?.planChange !== 'proposed') return null;
+        const plan = event.content || '';
+        const truncated = plan.length > 1500 ? plan.slice(0, 1500) + '...' : plan;
+        return `📝 *Plan v${event.meta?.version ?? '?'} ready for review* — approve it in the app to start implementing.\n${truncated}`;
+      }
+
       case 'user_question': {
         if (event.status === 'pending' && event.questions) {
           try {
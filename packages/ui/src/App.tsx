@@ -4,10 +4,12 @@ import { useIPCEvents } from './hooks/useIPCEvents';
 import { useWorkspaceStageSync } from './hooks/useWorkspaceStageSync';
 import { ErrorDialog } from './components/ErrorDialog';
 import { SettingsDialog } from './components/SettingsDialog';
+import { HistorySearchPalette } from './components/search/HistorySearchPalette';
+import { RunCommandPalette } from './components/search/RunCommandPalette';
 import { useErrorStore } from './stores/errorStore';
 import { useSettingsStore } from './stores/settingsStore';
 import { useThemeStore } from './stores/themeStore';
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 
 function getResolvedTheme(themeSetting: 'light' | 'dark' | 'system'): 'light' | 'dark' {
   if (themeSetting !== 'system') return themeSetting;
@@ -24,6 +26,8 @@ export default function App() {
   const { currentError, clearError } = useErrorStore();
   const { settings, isLoaded, loadSettings } = useSettingsStore();
   const { setTheme } = useThemeStore();
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [isRunCommandOpen, setIsRunCommandOpen] = useState(false);
 
   // Load settings from file on mount
   useEffect(() => {
@@ -82,6 +86,36 @@ export default function App() {
     }
   }, [isLoaded, settings.telegram.enabled, settings.telegram.botToken, settings.telegram.allowedChatId]);
 
+  // Background fetches of each project's base branch (stale worktree detection)
+  useEffect(() => {
+    if (!isLoaded) return;
+    void window.electronAPI.upstream.configure({ intervalMinutes: settings.upstreamFetchIntervalMinutes });
+  }, [isLoaded, settings.upstreamFetchIntervalMinutes]);
+
+  // Desktop notification rules, do-not-disturb and the unviewed badge
+  useEffect(() => {
+    if (!isLoaded) return;
+    void window.electronAPI.notifications.configure(settings.notifications);
+  }, [isLoaded, settings.notifications]);
+
+  // Cmd/Ctrl+Shift+F opens the history search palette and Cmd/Ctrl+Shift+P the
+  // run command launcher from anywhere.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || !e.shiftKey || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key === 'f') {
+        e.preventDefault();
+        setIsSearchOpen(true);
+      } else if (key === 'p') {
+        e.preventDefault();
+        setIsRunCommandOpen(true);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   return (
     <div
       className="h-screen w-screen flex overflow-hidden relative"
@@ -115,6 +149,8 @@ export default function App() {
       )}
 
       <SettingsDialog />
+      <HistorySearchPalette isOpen={isSearchOpen} onClose={() => setIsSearchOpen(false)} />
+      <RunCommandPalette isOpen={isRunCommandOpen} onClose={() => setIsRunCommandOpen(false)} />
     </div>
   );
 }
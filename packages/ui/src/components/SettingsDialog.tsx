@@ -1,4 +1,4 @@
-import { Settings, X, Palette, Bot, TerminalSquare, GitBranch, Send } from 'lucide-react';
+import { Settings, X, Palette, Bot, TerminalSquare, GitBranch, Send, FileText, Braces, Shield, Play, Wrench, ListChecks, LayoutTemplate, Bell } from 'lucide-react';
 import { useSettingsStore } from '../stores/settingsStore';
 import { useState } from 'react';
 import { AppearanceTab } from './settings/AppearanceTab';
@@ -6,12 +6,28 @@ import { ProvidersTab } from './settings/ProvidersTab';
 import { TerminalTab } from './settings/TerminalTab';
 import { WorktreeTab } from './settings/WorktreeTab';
 import { TelegramTab } from './settings/TelegramTab';
+import { NotificationsTab } from './settings/NotificationsTab';
+import { WorkflowPromptsTab } from './settings/WorkflowPromptsTab';
+import { CustomCommandTab } from './settings/CustomCommandTab';
+import { PolicyRulesTab } from './settings/PolicyRulesTab';
+import { RunCommandsTab } from './settings/RunCommandsTab';
+import { SetupStepsTab } from './settings/SetupStepsTab';
+import { VerifyTab } from './settings/VerifyTab';
+import { SessionTemplatesTab } from './settings/SessionTemplatesTab';
 
 const tabs = [
   { key: 'appearance', label: 'Appearance', Icon: Palette },
   { key: 'providers', label: 'AI Providers', Icon: Bot },
   { key: 'terminal', label: 'Terminal', Icon: TerminalSquare },
   { key: 'worktree', label: 'Worktree', Icon: GitBranch },
+  { key: 'prompts', label: 'Workflow Prompts', Icon: FileText },
+  { key: 'custom-command', label: 'Custom Command', Icon: Braces },
+  { key: 'templates', label: 'Templates', Icon: LayoutTemplate },
+  { key: 'setup', label: 'Setup', Icon: Wrench },
+  { key: 'run-commands', label: 'Run Commands', Icon: Play },
+  { key: 'verify', label: 'Verify', Icon: ListChecks },
+  { key: 'policy', label: 'Policy', Icon: Shield },
+  { key: 'notifications', label: 'Notifications', Icon: Bell },
   { key: 'telegram', label: 'Telegram', Icon: Send },
 ] as const;
 
@@ -92,6 +108,14 @@ export function SettingsDialog() {
           {activeTab === 'providers' && <ProvidersTab />}
           {activeTab === 'terminal' && <TerminalTab />}
           {activeTab === 'worktree' && <WorktreeTab />}
+          {activeTab === 'prompts' && <WorkflowPromptsTab />}
+          {activeTab === 'custom-command' && <CustomCommandTab />}
+          {activeTab === 'templates' && <SessionTemplatesTab />}
+          {activeTab === 'setup' && <SetupStepsTab />}
+          {activeTab === 'run-commands' && <RunCommandsTab />}
+          {activeTab === 'verify' && <VerifyTab />}
+          {activeTab === 'policy' && <PolicyRulesTab />}
+          {activeTab === 'notifications' && <NotificationsTab />}
           {activeTab === 'telegram' && <TelegramTab />}
         </div>
 
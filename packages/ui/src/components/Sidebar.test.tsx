@@ -10,6 +10,10 @@ vi.mock('../stores/errorStore', () => ({
   useErrorStore: () => ({ showError: vi.fn() }),
 }));
 
+const mockSession = vi.hoisted(() => ({
+  current: {} as Record<string, unknown>,
+}));
+
 vi.mock('../stores/sessionStore', () => ({
   useSessionStore: () => ({
     sessions: [
@@ -17,6 +21,7 @@ vi.mock('../stores/sessionStore', () => ({
         id: 's1',
         status: 'idle',
         worktreePath: '/tmp/repo/readme-long-branch-name-that-should-not-truncate-so-much',
+        ...mockSession.current,
       },
     ],
     activeSessionId: 's1',
@@ -36,6 +41,24 @@ vi.mock('../utils/api', () => ({
     },
     sessions: {
       openWorktree: vi.fn(),
+      getArchived: vi.fn(),
+      restore: vi.fn(),
+      setFavorite: vi.fn(),
+      archive: vi.fn(),
+      delete: vi.fn(),
+      moveToFolder: vi.fn(),
+    },
+    folders: {
+      list: vi.fn(),
+      create: vi.fn(),
+      rename: vi.fn(),
+      move: vi.fn(),
+      delete: vi.fn(),
+    },
+    upstream: {
+      getStatus: vi.fn(),
+      check: vi.fn(),
+      rebaseClean: vi.fn(),
     },
   },
 }));
@@ -45,6 +68,9 @@ import { API } from '../utils/api';
 describe('Sidebar worktree row layout', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockSession.current = {};
+    (API.folders.list as any).mockResolvedValue({ success: true, data: [] });
+    (API.sessions.getArchived as any).mockResolvedValue({ success: true, data: [] });
     (API.projects.getAll as any).mockResolvedValue({
       success: true,
       data: [{ id: 1, name: 'databend', path: '/tmp/repo', active: true }],
@@ -69,6 +95,10 @@ describe('Sidebar worktree row layout', () => {
         },
       ],
     });
+    (API.upstream.getStatus as any).mockResolvedValue({
+      success: true,
+      data: { projectId: 1, checkedAt: null, error: null, heads: {}, sessions: [] },
+    });
   });
 
   it('moves relative time to a second line to give the name more room', async () => {
@@ -89,4 +119,58 @@ describe('Sidebar worktree row layout', () => {
     expect(screen.getByText('+11')).toBeInTheDocument();
     expect(screen.getByText('-14')).toBeInTheDocument();
   });
+
+  it('flags a worktree that is behind its remote base branch', async () => {
+    (API.upstream.getStatus as any).mockResolvedValue({
+      success: true,
+      data: {
+        projectId: 1,
+        checkedAt: '2026-01-10T00:00:00.000Z',
+        error: null,
+        heads: { 'origin/main': 'abc123' },
+        sessions: [{ sessionId: 's1', baseRef: 'origin/main', behind: 4, clean: false, conflicts: ['README.md'] }],
+      },
+    });
+    render(<Sidebar />);
+
+    const badge = await screen.findByTestId('worktree-behind');
+    expect(badge).toHaveTextContent('↓4');
+    expect(badge).toHaveAttribute('title', '4 behind origin/main; rebase would conflict in README.md');
+    expect(screen.getByTestId('upstream-banner')).toHaveTextContent('1 workspace behind origin/main · 1 would conflict');
+    expect(screen.queryByText(/Rebase clean/)).not.toBeInTheDocument();
+  });
+
+  it('groups a workspace under its folder', async () => {
+    mockSession.current = { folderId: 'f1' };
+    (API.folders.list as any).mockResolvedValue({
+      success: true,
+      data: [{
+        id: 'f1',
+        name: 'Experiments',
+        project_id: 1,
+        parent_folder_id: null,
+        display_order: 0,
+        created_at: '2026-01-10T00:00:00.000Z',
+        updated_at: '2026-01-10T00:00:00.000Z',
+      }],
+    });
+    render(<Sidebar />);
+
+    const folder = await screen.findByTestId('sidebar-folder');
+    expect(folder).toHaveTextContent('Experiments');
+    expect(await within(folder).findByTestId('worktree-item')).toBeInTheDocument();
+  });
+
+  it('pins a favorite workspace and lists archived sessions', async () => {
+    mockSession.current = { isFavorite: true };
+    (API.sessions.getArchived as any).mockResolvedValue({
+      success: true,
+      data: [{ id: 's0', name: 'old-spike', projectId: 1, status: 'stopped', createdAt: '2026-01-01T00:00:00.000Z', archived: true }],
+    });
+    render(<Sidebar />);
+
+    expect(await screen.findByTitle('Unpin from top')).toHaveAttribute('aria-pressed', 'true');
+    const archived = await screen.findByTestId('archived-sessions');
+    expect(archived).toHaveTextContent('Archived (1)');
+  });
 });
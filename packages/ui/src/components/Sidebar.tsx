@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { ChevronDown, FolderPlus, Plus, Trash2, Loader2, Sun, Moon, Settings } from 'lucide-react';
+import { Archive, ChevronDown, FolderPlus, LayoutTemplate, Plus, Split, Star, Trash2, Loader2, Sun, Moon, Settings, Upload } from 'lucide-react';
 import { API } from '../utils/api';
 import { useErrorStore } from '../stores/errorStore';
 import { useSessionStore } from '../stores/sessionStore';
@@ -8,7 +8,18 @@ import { StageBadge } from './layout/StageBadge';
 import { useThemeStore } from '../stores/themeStore';
 import { useSettingsStore } from '../stores/settingsStore';
 import { useUpdateStatus } from '../hooks/useUpdateStatus';
+import { useUpstreamStatus } from '../hooks/useUpstreamStatus';
+import { useSessionFolders } from '../hooks/useSessionFolders';
+import { useArchivedSessions } from '../hooks/useArchivedSessions';
 import { SidebarUpdateButton } from './SidebarUpdateButton';
+import { SidebarFolder, SESSION_DRAG_TYPE, isSidebarDrag, readDropItem, type SidebarDropItem } from './SidebarFolder';
+import { ArchivedSessions } from './archive/ArchivedSessions';
+import { ArchivedSessionDialog } from './archive/ArchivedSessionDialog';
+import { UpstreamBanner } from './UpstreamBanner';
+import { FanOutDialog } from './fanout/FanOutDialog';
+import { SessionTemplateDialog } from './templates/SessionTemplateDialog';
+import type { FanOutCreateResultDTO, SessionFolderDTO, SessionUpstreamStatusDTO } from '../types/electron';
+import type { Session } from '../types/session';
 
 type Project = {
   id: number;
@@ -56,6 +67,11 @@ export function Sidebar() {
   const [editingWorktreePath, setEditingWorktreePath] = useState<string | null>(null);
   const [editingWorktreeSessionId, setEditingWorktreeSessionId] = useState<string | null>(null);
   const [draftWorktreeName, setDraftWorktreeName] = useState<string>('');
+  const [fanOutProject, setFanOutProject] = useState<Project | null>(null);
+  const [templateProject, setTemplateProject] = useState<Project | null>(null);
+  const [collapsedFolders, setCollapsedFolders] = useState<Set<string>>(() => new Set());
+  const [newFolderId, setNewFolderId] = useState<string | null>(null);
+  const [archivedPreview, setArchivedPreview] = useState<Session | null>(null);
   const refreshTimersRef = useRef<Record<number, number | null>>({});
   const hasInitializedRenameInputRef = useRef(false);
   const { theme } = useThemeStore();
@@ -79,6 +95,10 @@ export function Sidebar() {
     downloadUpdate,
     installUpdate,
   } = useUpdateStatus();
+  const projectIds = useMemo(() => projects.map((p) => p.id), [projects]);
+  const { statuses: upstreamByProjectId, check: checkUpstream } = useUpstreamStatus(projectIds);
+  const folders = useSessionFolders(projectIds);
+  const { archivedByProjectId, restore: restoreArchivedSession } = useArchivedSessions(projectIds);
   const sidebarPollingTimerRef = useRef<number | null>(null);
   const worktreePollInFlightRef = useRef<Set<number>>(new Set());
   const sessionWorktreePathByIdRef = useRef<Map<string, string>>(new Map());
@@ -230,6 +250,37 @@ export function Sidebar() {
     }
   }, [loadProjects, showError]);
 
+  // Poll until the new worktree(s) show up; creation runs in the background.
+  const scheduleWorktreeRefresh = useCallback((projectId: number) => {
+    const project = projects.find((p) => p.id === projectId);
+    if (!project) return;
+
+    const baselineCount = (worktreesByProjectId[projectId] || []).length;
+    const clearTimer = () => {
+      const t = refreshTimersRef.current[projectId];
+      if (t) window.clearTimeout(t);
+      refreshTimersRef.current[projectId] = null;
+    };
+
+    clearTimer();
+
+    const poll = async (tries: number) => {
+      const fetched = await loadWorktrees(project, { silent: true });
+      if (fetched && fetched.length > baselineCount) {
+        clearTimer();
+        return;
+      }
+      if (tries >= 8) {
+        clearTimer();
+        return;
+      }
+      const delay = Math.min(2400, 260 * Math.pow(1.45, tries));
+      refreshTimersRef.current[projectId] = window.setTimeout(() => void poll(tries + 1), delay);
+    };
+
+    refreshTimersRef.current[projectId] = window.setTimeout(() => void poll(0), 280);
+  }, [projects, loadWorktrees, worktreesByProjectId]);
+
   const handleNewWorkspace = useCallback(async (projectId: number) => {
     try {
       const response = await API.sessions.create({ projectId, prompt: '', toolType: settings.defaultToolType });
@@ -238,37 +289,36 @@ export function Sidebar() {
         return;
       }
       setActiveSession(response.data.id);
-      const project = projects.find((p) => p.id === projectId);
-      if (project) {
-        const baselineCount = (worktreesByProjectId[projectId] || []).length;
-        const clearTimer = () => {
-          const t = refreshTimersRef.current[projectId];
-          if (t) window.clearTimeout(t);
-          refreshTimersRef.current[projectId] = null;
-        };
+      scheduleWorktreeRefresh(projectId);
+    } catch (error) {
+      showError({ title: 'Failed to Create Workspace', error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }, [setActiveSession, showError, scheduleWorktreeRefresh, settings.defaultToolType]);
 
-        clearTimer();
+  const handleFanOutStarted = useCallback((projectId: number, result: FanOutCreateResultDTO) => {
+    setFanOutProject(null);
+    if (result.sessionIds[0]) setActiveSession(result.sessionIds[0]);
+    scheduleWorktreeRefresh(projectId);
+  }, [setActiveSession, scheduleWorktreeRefresh]);
 
-        const poll = async (tries: number) => {
-          const fetched = await loadWorktrees(project, { silent: true });
-          if (fetched && fetched.length > baselineCount) {
-            clearTimer();
-            return;
-          }
-          if (tries >= 8) {
-            clearTimer();
-            return;
-          }
-          const delay = Math.min(2400, 260 * Math.pow(1.45, tries));
-          refreshTimersRef.current[projectId] = window.setTimeout(() => void poll(tries + 1), delay);
-        };
+  const handleTemplateSessionCreated = useCallback((projectId: number, sessionId: string) => {
+    setTemplateProject(null);
+    setActiveSession(sessionId);
+    scheduleWorktreeRefresh(projectId);
+  }, [setActiveSession, scheduleWorktreeRefresh]);
 
-        refreshTimersRef.current[projectId] = window.setTimeout(() => void poll(0), 280);
+  const handleImportSession = useCallback(async (projectId: number) => {
+    try {
+      const res = await API.sessions.importBundle(projectId);
+      if (!res.success) {
+        showError({ title: 'Failed to Import Session', error: res.error || 'Could not import session bundle' });
+        return;
       }
+      if (res.data?.sessionId) setActiveSession(res.data.sessionId);
     } catch (error) {
-      showError({ title: 'Failed to Create Workspace', error: error instanceof Error ? error.message : 'Unknown error' });
+      showError({ title: 'Failed to Import Session', error: error instanceof Error ? error.message : 'Unknown error' });
     }
-  }, [setActiveSession, showError, projects, loadWorktrees, worktreesByProjectId, settings.defaultToolType]);
+  }, [setActiveSession, showError]);
 
   const handleSelectWorktree = useCallback(async (project: Project, worktree: Worktree): Promise<string | null> => {
     try {
@@ -301,7 +351,11 @@ export function Sidebar() {
         ...prev,
         [project.id]: (prev[project.id] || []).filter((w) => w.path !== worktree.path),
       }));
-      const res = await API.projects.removeWorktree(project.id, worktree.path, activeSessionId, settings.autoDeleteBranchOnWorktreeRemove);
+      // sessions:delete archives the session when "Archive instead of delete" is on.
+      const session = settings.archiveOnDelete ? sessions.find((s) => s.worktreePath === worktree.path) : undefined;
+      const res = session
+        ? await API.sessions.delete(session.id)
+        : await API.projects.removeWorktree(project.id, worktree.path, activeSessionId, settings.autoDeleteBranchOnWorktreeRemove);
       if (!res.success) {
         showError({ title: 'Failed to Delete Workspace', error: res.error || 'Could not delete worktree' });
         void loadWorktrees(project, { silent: true });
@@ -311,7 +365,7 @@ export function Sidebar() {
     } catch (error) {
       showError({ title: 'Failed to Delete Workspace', error: error instanceof Error ? error.message : 'Unknown error' });
     }
-  }, [showError, loadWorktrees, activeSessionId, settings.autoDeleteBranchOnWorktreeRemove]);
+  }, [showError, loadWorktrees, activeSessionId, settings.autoDeleteBranchOnWorktreeRemove, settings.archiveOnDelete, sessions]);
 
   const handleDeleteProject = useCallback(async (project: Project) => {
     const res = await API.projects.delete(project.id);
@@ -382,6 +436,109 @@ export function Sidebar() {
     return map;
   }, [sessions]);
 
+  const upstreamBySessionId = useMemo(() => {
+    const map = new Map<string, SessionUpstreamStatusDTO>();
+    for (const status of Object.values(upstreamByProjectId)) {
+      for (const entry of status.sessions) map.set(entry.sessionId, entry);
+    }
+    return map;
+  }, [upstreamByProjectId]);
+
+  const handleRebaseClean = useCallback(async (project: Project) => {
+    const res = await API.upstream.rebaseClean(project.id);
+    if (!res.success) throw new Error(res.error || 'Failed to rebase workspaces');
+    void loadWorktrees(project, { silent: true });
+    return res.data || [];
+  }, [loadWorktrees]);
+
+  const handleToggleFavorite = useCallback(async (sessionId: string, isFavorite: boolean) => {
+    try {
+      const res = await API.sessions.setFavorite(sessionId, isFavorite);
+      if (!res.success) showError({ title: 'Failed to Pin Workspace', error: res.error || 'Could not update favorite' });
+    } catch (error) {
+      showError({ title: 'Failed to Pin Workspace', error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }, [showError]);
+
+  const handleArchiveSession = useCallback(async (project: Project, sessionId: string) => {
+    try {
+      const res = await API.sessions.archive(sessionId);
+      if (!res.success) {
+        showError({ title: 'Failed to Archive Workspace', error: res.error || 'Could not archive workspace' });
+        return;
+      }
+      void loadWorktrees(project, { silent: true });
+    } catch (error) {
+      showError({ title: 'Failed to Archive Workspace', error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }, [loadWorktrees, showError]);
+
+  const handleRestoreSession = useCallback(async (session: Session) => {
+    const restored = await restoreArchivedSession(session.id);
+    setArchivedPreview(null);
+    setActiveSession(restored.id);
+    const project = projects.find((p) => p.id === restored.projectId);
+    if (project) void loadWorktrees(project, { silent: true });
+  }, [restoreArchivedSession, setActiveSession, projects, loadWorktrees]);
+
+  const handleNewFolder = useCallback(async (projectId: number, parentFolderId: string | null) => {
+    try {
+      const before = new Set((folders.foldersByProjectId[projectId] || []).map((f) => f.id));
+      const next = await folders.create(projectId, 'New folder', parentFolderId);
+      const created = next.find((f) => !before.has(f.id));
+      if (created) setNewFolderId(created.id);
+      if (parentFolderId) {
+        setCollapsedFolders((prev) => {
+          const updated = new Set(prev);
+          updated.delete(parentFolderId);
+          return updated;
+        });
+      }
+    } catch (error) {
+      showError({ title: 'Failed to Create Folder', error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }, [folders, showError]);
+
+  const handleRenameFolder = useCallback(async (folderId: string, name: string) => {
+    try {
+      await folders.rename(folderId, name);
+    } catch (error) {
+      showError({ title: 'Failed to Rename Folder', error: error instanceof Error ? error.message : 'Unknown error' });
+      throw error;
+    }
+  }, [folders, showError]);
+
+  const handleDeleteFolder = useCallback(async (folderId: string) => {
+    try {
+      await folders.remove(folderId);
+    } catch (error) {
+      showError({ title: 'Failed to Delete Folder', error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }, [folders, showError]);
+
+  // Drop a workspace or folder into `folderId`, or onto the project root when null.
+  const handleDropOnFolder = useCallback(async (item: SidebarDropItem, folderId: string | null) => {
+    try {
+      if (item.kind === 'session') {
+        const res = await API.sessions.moveToFolder(item.id, folderId);
+        if (!res.success) throw new Error(res.error || 'Could not move workspace');
+      } else {
+        await folders.move(item.id, folderId);
+      }
+    } catch (error) {
+      showError({ title: 'Failed to Move', error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }, [folders, showError]);
+
+  const toggleFolderCollapsed = useCallback((folderId: string) => {
+    setCollapsedFolders((prev) => {
+      const next = new Set(prev);
+      if (next.has(folderId)) next.delete(folderId);
+      else next.add(folderId);
+      return next;
+    });
+  }, []);
+
   const runningWorktreePaths = useMemo(() => {
     const paths = new Set<string>();
     for (const s of sessions) {
@@ -528,6 +685,247 @@ export function Sidebar() {
     }
   }, [draftWorktreeName, cancelRenameWorktree, loadWorktrees, showError, activeSessionId, editingWorktreeSessionId]);
 
+  const renderWorktreeRow = (project: Project, worktree: Worktree) => {
+    const selected = Boolean(
+      (activeWorktreePath && activeWorktreePath === worktree.path) ||
+      (pendingSelectedWorktreePath && pendingSelectedWorktreePath === worktree.path)
+    );
+    const session = sessionsByWorktreePath.get(worktree.path);
+    const displayName = applyBaseCommitSuffix(
+      getWorktreeDisplayName(worktree),
+      session?.baseCommit
+    );
+    const isEditing = editingWorktreePath === worktree.path;
+    const isRunning = runningWorktreePaths.has(worktree.path);
+    const upstream = session ? upstreamBySessionId.get(session.id) : undefined;
+    const upstreamConflicts = upstream?.conflicts?.length ?? 0;
+    return (
+      <div
+        key={worktree.path}
+        role="button"
+        tabIndex={0}
+        draggable={Boolean(session) && !isEditing}
+        onDragStart={(e) => {
+          if (!session) return;
+          e.dataTransfer.setData(SESSION_DRAG_TYPE, session.id);
+          e.dataTransfer.effectAllowed = 'move';
+        }}
+        onClick={() => void handleSelectWorktree(project, worktree)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            void handleSelectWorktree(project, worktree);
+          }
+        }}
+        onDoubleClick={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          void (async () => {
+            const id = await handleSelectWorktree(project, worktree);
+            if (!id) return;
+            beginRenameWorktree(worktree, id);
+          })();
+        }}
+        className={`group flex items-center gap-2 rounded-md px-2 py-2 st-hoverable st-focus-ring ${
+          selected ? 'st-selected' : ''
+        }`}
+        style={{ backgroundColor: selected ? 'color-mix(in srgb, var(--st-selected) 70%, transparent)' : 'transparent' }}
+      >
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center justify-between gap-2">
+            <div className="min-w-0">
+              {isEditing ? (
+                <input
+                  ref={(el) => {
+                    if (el && !hasInitializedRenameInputRef.current) {
+                      hasInitializedRenameInputRef.current = true;
+                      requestAnimationFrame(() => {
+                        el.focus();
+                        el.select();
+                      });
+                    }
+                  }}
+                  value={draftWorktreeName}
+                  onChange={(e) => setDraftWorktreeName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      void commitRenameWorktree(project, worktree);
+                    } else if (e.key === 'Escape') {
+                      e.preventDefault();
+                      cancelRenameWorktree();
+                    }
+                  }}
+                  onBlur={() => void commitRenameWorktree(project, worktree)}
+                  className="w-full text-[12px] font-medium rounded px-2 py-1 outline-none st-focus-ring"
+                  style={{
+                    backgroundColor: 'var(--st-editor)',
+                    color: 'var(--st-text)',
+                    border: '1px solid var(--st-border-variant)',
+                  }}
+                />
+              ) : (
+                <div
+                  className="flex flex-col min-w-0 w-full"
+                  data-testid="worktree-item"
+                  data-worktree-path={worktree.path}
+                >
+                  {/* Row 1: Name + Stage badge */}
+                  <div className="flex items-center gap-2 min-w-0">
+                    <span
+                      data-testid="worktree-name"
+                      className="text-[12px] truncate"
+                      style={{ color: 'var(--st-text)' }}
+                      title={`${displayName} (double-click to rename)`}
+                    >
+                      {displayName}
+                    </span>
+                    {isRunning && (
+                      <Loader2
+                        className="w-3 h-3 animate-spin flex-shrink-0"
+                        style={{ color: 'var(--st-accent)' }}
+                      />
+                    )}
+                    {session?.workspaceStage ? (
+                      <StageBadge stage={session.workspaceStage} />
+                    ) : null}
+                  </div>
+                  {/* Row 2: Time (left) + Diff stats (right) */}
+                  <div className="flex items-center justify-between mt-0.5">
+                    <span data-testid="worktree-relative-time" className="text-[11px] st-text-faint">
+                      {(worktree.createdAt || worktree.lastCommitAt)
+                        ? formatDistanceToNow(worktree.createdAt || worktree.lastCommitAt!)
+                        : ''}
+                    </span>
+                    <div className="flex items-center gap-1 text-[11px] font-mono flex-shrink-0">
+                      {upstream && upstream.behind > 0 && (
+                        <span
+                          data-testid="worktree-behind"
+                          style={{ color: upstreamConflicts > 0 ? 'var(--st-danger)' : 'var(--st-text-faint)' }}
+                          title={upstreamConflicts > 0
+                            ? `${upstream.behind} behind ${upstream.baseRef}; rebase would conflict in ${upstream.conflicts?.join(', ')}`
+                            : `${upstream.behind} behind ${upstream.baseRef}`}
+                        >
+                          ↓{upstream.behind}
+                        </span>
+                      )}
+                      {(worktree.additions > 0 || worktree.deletions > 0) && (
+                        <span className="flex items-center gap-0.5">
+                          {worktree.additions > 0 && (
+                            <span style={{ color: '#98c379' }}>+{worktree.additions}</span>
+                          )}
+                          {worktree.deletions > 0 && (
+                            <span style={{ color: '#e06c75' }}> -{worktree.deletions}</span>
+                          )}
+                        </span>
+                      )}
+                      {worktree.hasChanges && worktree.additions === 0 && worktree.deletions === 0 && (
+                        <span
+                          className="w-1.5 h-1.5 rounded-full"
+                          style={{ backgroundColor: 'var(--st-accent)' }}
+                          title="Has changes"
+                        />
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {session && (
+          <>
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                void handleToggleFavorite(session.id, !session.isFavorite);
+              }}
+              className={`st-icon-button st-focus-ring ${session.isFavorite ? '' : 'opacity-0 group-hover:opacity-100'}`}
+              style={{ color: session.isFavorite ? 'var(--st-warning)' : 'var(--st-text-faint)' }}
+              title={session.isFavorite ? 'Unpin from top' : 'Pin to top'}
+              aria-pressed={Boolean(session.isFavorite)}
+            >
+              <Star className="w-4 h-4" fill={session.isFavorite ? 'currentColor' : 'none'} />
+            </button>
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                void handleArchiveSession(project, session.id);
+              }}
+              className="st-icon-button st-focus-ring opacity-0 group-hover:opacity-100"
+              style={{ color: 'var(--st-text-faint)' }}
+              title="Archive workspace"
+            >
+              <Archive className="w-4 h-4" />
+            </button>
+          </>
+        )}
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            void handleDeleteWorktree(project, worktree);
+          }}
+          className="st-icon-button st-focus-ring opacity-0 group-hover:opacity-100"
+          style={{ color: 'var(--st-text-faint)' }}
+          title="Delete workspace"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    );
+  };
+
+  // Favorites are pinned above the folders; the rest go into their folder or stay at the project root.
+  const groupWorktrees = (worktrees: Worktree[], foldersForProject: SessionFolderDTO[]) => {
+    const folderIds = new Set(foldersForProject.map((f) => f.id));
+    const pinned: Worktree[] = [];
+    const unfiled: Worktree[] = [];
+    const byFolderId = new Map<string, Worktree[]>();
+    for (const worktree of worktrees) {
+      const session = sessionsByWorktreePath.get(worktree.path);
+      if (session?.isFavorite) {
+        pinned.push(worktree);
+      } else if (session?.folderId && folderIds.has(session.folderId)) {
+        byFolderId.set(session.folderId, [...(byFolderId.get(session.folderId) || []), worktree]);
+      } else {
+        unfiled.push(worktree);
+      }
+    }
+    return { pinned, unfiled, byFolderId };
+  };
+
+  const renderFolders = (project: Project, parentId: string | null, byFolderId: Map<string, Worktree[]>) => {
+    const foldersForProject = folders.foldersByProjectId[project.id] || [];
+    const ids = new Set(foldersForProject.map((f) => f.id));
+    return foldersForProject
+      .filter((f) => (parentId ? f.parent_folder_id === parentId : !f.parent_folder_id || !ids.has(f.parent_folder_id)))
+      .map((folder) => {
+        const worktrees = byFolderId.get(folder.id) || [];
+        const subfolderCount = foldersForProject.filter((f) => f.parent_folder_id === folder.id).length;
+        return (
+          <SidebarFolder
+            key={folder.id}
+            folder={folder}
+            itemCount={worktrees.length + subfolderCount}
+            isCollapsed={collapsedFolders.has(folder.id)}
+            onToggle={() => toggleFolderCollapsed(folder.id)}
+            startEditing={newFolderId === folder.id}
+            onRename={(name) => handleRenameFolder(folder.id, name)}
+            onDelete={() => void handleDeleteFolder(folder.id)}
+            onNewSubfolder={() => void handleNewFolder(project.id, folder.id)}
+            onDrop={(item) => void handleDropOnFolder(item, folder.id)}
+          >
+            {renderFolders(project, folder.id, byFolderId)}
+            {worktrees.map((worktree) => renderWorktreeRow(project, worktree))}
+          </SidebarFolder>
+        );
+      });
+  };
+
   return (
     <div
       className="flex-shrink-0 border-r st-hairline st-surface flex flex-col"
@@ -573,6 +971,12 @@ export function Sidebar() {
               const isCollapsed = collapsedProjects.has(project.id);
               const worktreesForProject = worktreesByProjectId[project.id] || [];
               const isLoadingWorktrees = worktreesLoading.has(project.id);
+              const foldersForProject = folders.foldersByProjectId[project.id] || [];
+              const {
+                pinned: pinnedWorktrees,
+                unfiled: unfiledWorktrees,
+                byFolderId: worktreesByFolderId,
+              } = groupWorktrees(worktreesForProject, foldersForProject);
               return (
                 <div
                   key={project.id}
@@ -626,6 +1030,54 @@ export function Sidebar() {
                         >
                           <Plus className="w-4 h-4" />
                         </button>
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            void handleNewFolder(project.id, null);
+                          }}
+                          className="st-icon-button st-focus-ring"
+                          title="New folder"
+                          style={{ width: 28, height: 28, color: 'var(--st-text-muted)' }}
+                        >
+                          <FolderPlus className="w-4 h-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setTemplateProject(project);
+                          }}
+                          className="st-icon-button st-focus-ring"
+                          title="New workspace from template"
+                          style={{ width: 28, height: 28, color: 'var(--st-text-muted)' }}
+                        >
+                          <LayoutTemplate className="w-4 h-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setFanOutProject(project);
+                          }}
+                          className="st-icon-button st-focus-ring"
+                          title="Fan out prompt to several agents"
+                          style={{ width: 28, height: 28, color: 'var(--st-text-muted)' }}
+                        >
+                          <Split className="w-4 h-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            void handleImportSession(project.id);
+                          }}
+                          className="st-icon-button st-focus-ring"
+                          title="Import session bundle"
+                          style={{ width: 28, height: 28, color: 'var(--st-text-muted)' }}
+                        >
+                          <Upload className="w-4 h-4" />
+                        </button>
                         <button
                           type="button"
                           onClick={(e) => {
@@ -640,6 +1092,11 @@ export function Sidebar() {
                         </button>
                       </div>
                     </div>
+                    <UpstreamBanner
+                      status={upstreamByProjectId[project.id]}
+                      onCheck={() => checkUpstream(project.id)}
+                      onRebaseClean={() => handleRebaseClean(project)}
+                    />
                   </div>
 
                   {!isCollapsed && (
@@ -647,157 +1104,35 @@ export function Sidebar() {
                       <div className="pl-9 pr-2 pb-2 pt-2">
                         {isLoadingWorktrees && worktreesForProject.length === 0 ? (
                           <div className="px-2 py-2 text-xs st-text-faint">Loading…</div>
-                        ) : worktreesForProject.length === 0 ? (
-                          <div className="px-2 py-2 text-xs st-text-faint">No worktrees.</div>
                         ) : (
-                          <div className="flex flex-col gap-[2px]">
-                            {worktreesForProject.map((worktree) => {
-                              const selected = Boolean(
-                                (activeWorktreePath && activeWorktreePath === worktree.path) ||
-                                (pendingSelectedWorktreePath && pendingSelectedWorktreePath === worktree.path)
-                              );
-                              const session = sessionsByWorktreePath.get(worktree.path);
-                              const displayName = applyBaseCommitSuffix(
-                                getWorktreeDisplayName(worktree),
-                                session?.baseCommit
-                              );
-                              const isEditing = editingWorktreePath === worktree.path;
-                              const isRunning = runningWorktreePaths.has(worktree.path);
-                              return (
-                                <div
-                                  key={worktree.path}
-                                  role="button"
-                                  tabIndex={0}
-                                  onClick={() => void handleSelectWorktree(project, worktree)}
-                                  onKeyDown={(e) => {
-                                    if (e.key === 'Enter' || e.key === ' ') {
-                                      e.preventDefault();
-                                      void handleSelectWorktree(project, worktree);
-                                    }
-                                  }}
-                                  onDoubleClick={(e) => {
-                                    e.preventDefault();
-                                    e.stopPropagation();
-                                    void (async () => {
-                                      const id = await handleSelectWorktree(project, worktree);
-                                      if (!id) return;
-                                      beginRenameWorktree(worktree, id);
-                                    })();
-                                  }}
-                                  className={`group flex items-center gap-2 rounded-md px-2 py-2 st-hoverable st-focus-ring ${
-                                    selected ? 'st-selected' : ''
-                                  }`}
-                                  style={{ backgroundColor: selected ? 'color-mix(in srgb, var(--st-selected) 70%, transparent)' : 'transparent' }}
-                                >
-                                  <div className="flex-1 min-w-0">
-                                    <div className="flex items-center justify-between gap-2">
-                                      <div className="min-w-0">
-                                        {isEditing ? (
-                                          <input
-                                            ref={(el) => {
-                                              if (el && !hasInitializedRenameInputRef.current) {
-                                                hasInitializedRenameInputRef.current = true;
-                                                requestAnimationFrame(() => {
-                                                  el.focus();
-                                                  el.select();
-                                                });
-                                              }
-                                            }}
-                                            value={draftWorktreeName}
-                                            onChange={(e) => setDraftWorktreeName(e.target.value)}
-                                            onKeyDown={(e) => {
-                                              if (e.key === 'Enter') {
-                                                e.preventDefault();
-                                                void commitRenameWorktree(project, worktree);
-                                              } else if (e.key === 'Escape') {
-                                                e.preventDefault();
-                                                cancelRenameWorktree();
-                                              }
-                                            }}
-                                            onBlur={() => void commitRenameWorktree(project, worktree)}
-                                            className="w-full text-[12px] font-medium rounded px-2 py-1 outline-none st-focus-ring"
-                                            style={{
-                                              backgroundColor: 'var(--st-editor)',
-                                              color: 'var(--st-text)',
-                                              border: '1px solid var(--st-border-variant)',
-                                            }}
-                                          />
-                                        ) : (
-                                          <div
-                                            className="flex flex-col min-w-0 w-full"
-                                            data-testid="worktree-item"
-                                            data-worktree-path={worktree.path}
-                                          >
-                                            {/* Row 1: Name + Stage badge */}
-                                            <div className="flex items-center gap-2 min-w-0">
-                                              <span
-                                                data-testid="worktree-name"
-                                                className="text-[12px] truncate"
-                                                style={{ color: 'var(--st-text)' }}
-                                                title={`${displayName} (double-click to rename)`}
-                                              >
-                                                {displayName}
-                                              </span>
-                                              {isRunning && (
-                                                <Loader2
-                                                  className="w-3 h-3 animate-spin flex-shrink-0"
-                                                  style={{ color: 'var(--st-accent)' }}
-                                                />
-                                              )}
-                                              {session?.workspaceStage ? (
-                                                <StageBadge stage={session.workspaceStage} />
-                                              ) : null}
-                                            </div>
-                                            {/* Row 2: Time (left) + Diff stats (right) */}
-                                            <div className="flex items-center justify-between mt-0.5">
-                                              <span data-testid="worktree-relative-time" className="text-[11px] st-text-faint">
-                                                {(worktree.createdAt || worktree.lastCommitAt)
-                                                  ? formatDistanceToNow(worktree.createdAt || worktree.lastCommitAt!)
-                                                  : ''}
-                                              </span>
-                                              <div className="flex items-center gap-1 text-[11px] font-mono flex-shrink-0">
-                                                {(worktree.additions > 0 || worktree.deletions > 0) && (
-                                                  <span className="flex items-center gap-0.5">
-                                                    {worktree.additions > 0 && (
-                                                      <span style={{ color: '#98c379' }}>+{worktree.additions}</span>
-                                                    )}
-                                                    {worktree.deletions > 0 && (
-                                                      <span style={{ color: '#e06c75' }}> -{worktree.deletions}</span>
-                                                    )}
-                                                  </span>
-                                                )}
-                                                {worktree.hasChanges && worktree.additions === 0 && worktree.deletions === 0 && (
-                                                  <span
-                                                    className="w-1.5 h-1.5 rounded-full"
-                                                    style={{ backgroundColor: 'var(--st-accent)' }}
-                                                    title="Has changes"
-                                                  />
-                                                )}
-                                              </div>
-                                            </div>
-                                          </div>
-                                        )}
-                                      </div>
-                                    </div>
-                                  </div>
-
-                                  <button
-                                    type="button"
-                                    onClick={(e) => {
-                                      e.stopPropagation();
-                                      void handleDeleteWorktree(project, worktree);
-                                    }}
-                                    className="st-icon-button st-focus-ring opacity-0 group-hover:opacity-100"
-                                    style={{ color: 'var(--st-text-faint)' }}
-                                    title="Delete workspace"
-                                  >
-                                    <Trash2 className="w-4 h-4" />
-                                  </button>
-                                </div>
-                              );
-                            })}
+                          <div
+                            className="flex flex-col gap-[2px]"
+                            data-testid="project-workspaces"
+                            onDragOver={(e) => {
+                              if (!isSidebarDrag(e)) return;
+                              e.preventDefault();
+                              e.dataTransfer.dropEffect = 'move';
+                            }}
+                            onDrop={(e) => {
+                              const item = readDropItem(e);
+                              if (!item) return;
+                              e.preventDefault();
+                              void handleDropOnFolder(item, null);
+                            }}
+                          >
+                            {pinnedWorktrees.map((worktree) => renderWorktreeRow(project, worktree))}
+                            {renderFolders(project, null, worktreesByFolderId)}
+                            {unfiledWorktrees.map((worktree) => renderWorktreeRow(project, worktree))}
+                            {worktreesForProject.length === 0 && foldersForProject.length === 0 && (
+                              <div className="px-2 py-2 text-xs st-text-faint">No worktrees.</div>
+                            )}
                           </div>
                         )}
+                        <ArchivedSessions
+                          sessions={archivedByProjectId[project.id] || []}
+                          onRestore={handleRestoreSession}
+                          onOpen={setArchivedPreview}
+                        />
                       </div>
                     </div>
                   )}
@@ -875,6 +1210,34 @@ export function Sidebar() {
           </div>
         )}
       </div>
+
+      {fanOutProject && (
+        <FanOutDialog
+          isOpen
+          projectId={fanOutProject.id}
+          projectName={fanOutProject.name}
+          onClose={() => setFanOutProject(null)}
+          onStarted={(result) => handleFanOutStarted(fanOutProject.id, result)}
+        />
+      )}
+
+      {archivedPreview && (
+        <ArchivedSessionDialog
+          session={archivedPreview}
+          onRestore={handleRestoreSession}
+          onClose={() => setArchivedPreview(null)}
+        />
+      )}
+
+      {templateProject && (
+        <SessionTemplateDialog
+          isOpen
+          projectId={templateProject.id}
+          projectName={templateProject.name}
+          onClose={() => setTemplateProject(null)}
+          onCreated={(sessionId) => handleTemplateSessionCreated(templateProject.id, sessionId)}
+        />
+      )}
     </div>
   );
 }
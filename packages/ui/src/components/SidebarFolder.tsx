@@ -0,0 +1,192 @@
+import { useState, type DragEvent, type ReactNode } from 'react';
+import { ChevronDown, Folder, FolderOpen, FolderPlus, Trash2 } from 'lucide-react';
+import type { SessionFolderDTO } from '../types/electron';
+
+export const SESSION_DRAG_TYPE = 'application/x-snowtree-session';
+export const FOLDER_DRAG_TYPE = 'application/x-snowtree-folder';
+
+export type SidebarDropItem = { kind: 'session' | 'folder'; id: string };
+
+export function readDropItem(e: DragEvent): SidebarDropItem | null {
+  const sessionId = e.dataTransfer.getData(SESSION_DRAG_TYPE);
+  if (sessionId) return { kind: 'session', id: sessionId };
+  const folderId = e.dataTransfer.getData(FOLDER_DRAG_TYPE);
+  if (folderId) return { kind: 'folder', id: folderId };
+  return null;
+}
+
+export function isSidebarDrag(e: DragEvent): boolean {
+  const types = Array.from(e.dataTransfer.types);
+  return types.includes(SESSION_DRAG_TYPE) || types.includes(FOLDER_DRAG_TYPE);
+}
+
+interface SidebarFolderProps {
+  folder: SessionFolderDTO;
+  itemCount: number;
+  isCollapsed: boolean;
+  onToggle: () => void;
+  /** Start renaming right away, e.g. for a folder that was just created */
+  startEditing?: boolean;
+  onRename: (name: string) => Promise<void>;
+  onDelete: () => void;
+  onNewSubfolder: () => void;
+  onDrop: (item: SidebarDropItem) => void;
+  children: ReactNode;
+}
+
+/**
+ * A folder in a project's workspace list. Workspaces and other folders can be
+ * dropped onto it; double-click the name to rename it.
+ */
+export function SidebarFolder({
+  folder,
+  itemCount,
+  isCollapsed,
+  onToggle,
+  startEditing = false,
+  onRename,
+  onDelete,
+  onNewSubfolder,
+  onDrop,
+  children,
+}: SidebarFolderProps) {
+  const [isEditing, setIsEditing] = useState(startEditing);
+  const [draftName, setDraftName] = useState(folder.name);
+  const [isDropTarget, setIsDropTarget] = useState(false);
+
+  const commitRename = async () => {
+    const name = draftName.trim();
+    setIsEditing(false);
+    if (!name || name === folder.name) {
+      setDraftName(folder.name);
+      return;
+    }
+    try {
+      await onRename(name);
+    } catch {
+      setDraftName(folder.name);
+    }
+  };
+
+  return (
+    <div
+      data-testid="sidebar-folder"
+      data-folder-id={folder.id}
+      className="rounded-md"
+      onDragOver={(e) => {
+        if (!isSidebarDrag(e)) return;
+        e.preventDefault();
+        e.stopPropagation();
+        e.dataTransfer.dropEffect = 'move';
+        setIsDropTarget(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDropTarget(false);
+      }}
+      onDrop={(e) => {
+        setIsDropTarget(false);
+        const item = readDropItem(e);
+        if (!item) return;
+        e.preventDefault();
+        e.stopPropagation();
+        if (item.kind === 'folder' && item.id === folder.id) return;
+        onDrop(item);
+      }}
+      style={{
+        backgroundColor: isDropTarget ? 'color-mix(in srgb, var(--st-accent) 12%, transparent)' : 'transparent',
+      }}
+    >
+      <div
+        role="button"
+        tabIndex={0}
+        draggable={!isEditing}
+        onDragStart={(e) => {
+          e.stopPropagation();
+          e.dataTransfer.setData(FOLDER_DRAG_TYPE, folder.id);
+          e.dataTransfer.effectAllowed = 'move';
+        }}
+        onClick={onToggle}
+        onKeyDown={(e) => {
+          if (isEditing) return;
+          if (e.key === 'Enter' || e.key === ' ') {
+            e.preventDefault();
+            onToggle();
+          }
+        }}
+        onDoubleClick={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          setIsEditing(true);
+        }}
+        className="group flex items-center gap-1.5 rounded-md px-2 py-1.5 st-hoverable st-focus-ring"
+        title={isEditing ? undefined : `${folder.name} (double-click to rename)`}
+      >
+        <ChevronDown
+          className={`w-3 h-3 flex-shrink-0 transition-transform ${isCollapsed ? '-rotate-90' : ''}`}
+          style={{ color: 'var(--st-text-faint)' }}
+        />
+        {isCollapsed
+          ? <Folder className="w-3.5 h-3.5 flex-shrink-0" style={{ color: 'var(--st-text-faint)' }} />
+          : <FolderOpen className="w-3.5 h-3.5 flex-shrink-0" style={{ color: 'var(--st-text-faint)' }} />}
+        {isEditing ? (
+          <input
+            autoFocus
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            onClick={(e) => e.stopPropagation()}
+            onFocus={(e) => e.target.select()}
+            onKeyDown={(e) => {
+              e.stopPropagation();
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                void commitRename();
+              } else if (e.key === 'Escape') {
+                e.preventDefault();
+                setDraftName(folder.name);
+                setIsEditing(false);
+              }
+            }}
+            onBlur={() => void commitRename()}
+            aria-label="Folder name"
+            className="flex-1 min-w-0 text-[12px] rounded px-1.5 py-0.5 outline-none st-focus-ring"
+            style={{
+              backgroundColor: 'var(--st-editor)',
+              color: 'var(--st-text)',
+              border: '1px solid var(--st-border-variant)',
+            }}
+          />
+        ) : (
+          <span className="flex-1 min-w-0 text-[12px] truncate" style={{ color: 'var(--st-text-muted)' }}>
+            {folder.name}
+          </span>
+        )}
+        <span className="text-[11px] st-text-faint group-hover:hidden">{itemCount || ''}</span>
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onNewSubfolder();
+          }}
+          className="hidden group-hover:block p-0.5 rounded st-hoverable st-focus-ring"
+          style={{ color: 'var(--st-text-faint)' }}
+          title="New subfolder"
+        >
+          <FolderPlus className="w-3.5 h-3.5" />
+        </button>
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onDelete();
+          }}
+          className="hidden group-hover:block p-0.5 rounded st-hoverable st-focus-ring"
+          style={{ color: 'var(--st-text-faint)' }}
+          title="Delete folder (workspaces move to the project)"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      {!isCollapsed && <div className="pl-3 flex flex-col gap-[2px]">{children}</div>}
+    </div>
+  );
+}
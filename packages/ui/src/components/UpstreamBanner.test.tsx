@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { UpstreamBanner } from './UpstreamBanner';
+import type { ProjectUpstreamStatusDTO, SessionUpstreamStatusDTO } from '../types/electron';
+
+const session = (overrides: Partial<SessionUpstreamStatusDTO>): SessionUpstreamStatusDTO => ({
+  sessionId: 's1',
+  baseRef: 'origin/main',
+  behind: 0,
+  clean: true,
+  conflicts: [],
+  ...overrides,
+});
+
+const status = (sessions: SessionUpstreamStatusDTO[], error: string | null = null): ProjectUpstreamStatusDTO => ({
+  projectId: 1,
+  checkedAt: '2026-01-01T10:00:00.000Z',
+  error,
+  heads: { 'origin/main': 'abc123' },
+  sessions,
+});
+
+describe('UpstreamBanner', () => {
+  it('stays hidden while every workspace is up to date', () => {
+    render(<UpstreamBanner status={status([session({})])} onCheck={vi.fn()} onRebaseClean={vi.fn()} />);
+    expect(screen.queryByTestId('upstream-banner')).not.toBeInTheDocument();
+  });
+
+  it('counts stale and conflicting workspaces and rebases the clean ones', async () => {
+    const onRebaseClean = vi.fn(async () => [{ sessionId: 's1', success: true }]);
+    render(
+      <UpstreamBanner
+        status={status([
+          session({ sessionId: 's1', behind: 3 }),
+          session({ sessionId: 's2', behind: 3, conflicts: ['src/app.ts'] }),
+          session({ sessionId: 's3', behind: 1, clean: false }),
+        ])}
+        onCheck={vi.fn()}
+        onRebaseClean={onRebaseClean}
+      />
+    );
+
+    expect(screen.getByTestId('upstream-banner')).toHaveTextContent('3 workspaces behind origin/main · 1 would conflict');
+    fireEvent.click(screen.getByText('Rebase clean (1)'));
+    await waitFor(() => expect(onRebaseClean).toHaveBeenCalledTimes(1));
+    expect(await screen.findByText(/Rebased 1/)).toBeInTheDocument();
+  });
+
+  it('reports a failed fetch without a rebase action', () => {
+    render(<UpstreamBanner status={status([], 'Could not resolve host: github.com')} onCheck={vi.fn()} onRebaseClean={vi.fn()} />);
+    expect(screen.getByText('Could not reach remote')).toBeInTheDocument();
+    expect(screen.queryByText(/Rebase clean/)).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { GitMerge, Loader2, RefreshCw } from 'lucide-react';
+import type { ProjectUpstreamStatusDTO, UpstreamRebaseResultDTO } from '../types/electron';
+
+interface UpstreamBannerProps {
+  status: ProjectUpstreamStatusDTO | undefined;
+  onCheck: () => Promise<void>;
+  onRebaseClean: () => Promise<UpstreamRebaseResultDTO[]>;
+}
+
+function describeResults(results: UpstreamRebaseResultDTO[]): string {
+  const failed = results.filter((r) => !r.success).length;
+  const rebased = results.length - failed;
+  if (results.length === 0) return 'Nothing to rebase';
+  return failed > 0 ? `Rebased ${rebased}, ${failed} failed` : `Rebased ${rebased}`;
+}
+
+/**
+ * Project-level notice that the remote base branch moved: how many workspaces
+ * are behind it, how many would conflict, and a batch rebase of the clean ones.
+ */
+export function UpstreamBanner({ status, onCheck, onRebaseClean }: UpstreamBannerProps) {
+  const [busy, setBusy] = useState<'check' | 'rebase' | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  if (!status) return null;
+  const behind = status.sessions.filter((s) => s.behind > 0);
+  if (behind.length === 0 && !status.error && !message) return null;
+
+  const conflicting = behind.filter((s) => s.conflicts && s.conflicts.length > 0);
+  const rebasable = behind.filter((s) => s.clean && s.conflicts?.length === 0);
+  const refs = Array.from(new Set(behind.map((s) => s.baseRef)));
+  const target = refs.length === 1 ? refs[0] : 'base';
+
+  const perform = async (kind: 'check' | 'rebase') => {
+    setBusy(kind);
+    setMessage(null);
+    try {
+      if (kind === 'rebase') {
+        setMessage(describeResults(await onRebaseClean()));
+      } else {
+        await onCheck();
+      }
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Upstream check failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div
+      className="mx-1 mb-1 px-2 py-1.5 rounded-md flex items-center gap-2 text-[11px]"
+      style={{ backgroundColor: 'color-mix(in srgb, var(--st-accent) 10%, transparent)', color: 'var(--st-text-muted)' }}
+      data-testid="upstream-banner"
+    >
+      <div className="flex-1 min-w-0 truncate" title={status.error ? `Last fetch failed: ${status.error}` : undefined}>
+        {behind.length > 0 ? (
+          <>
+            {behind.length} {behind.length === 1 ? 'workspace' : 'workspaces'} behind {target}
+            {conflicting.length > 0 && (
+              <span style={{ color: 'var(--st-danger)' }}> · {conflicting.length} would conflict</span>
+            )}
+          </>
+        ) : (
+          <span>{status.error ? 'Could not reach remote' : 'All workspaces up to date'}</span>
+        )}
+        {message && <span className="st-text-faint"> · {message}</span>}
+      </div>
+      <button
+        type="button"
+        onClick={() => void perform('check')}
+        disabled={busy !== null}
+        className="st-icon-button st-focus-ring disabled:opacity-50"
+        title="Fetch now"
+        style={{ width: 22, height: 22, color: 'var(--st-text-faint)' }}
+      >
+        {busy === 'check' ? <Loader2 className="w-3 h-3 animate-spin" /> : <RefreshCw className="w-3 h-3" />}
+      </button>
+      {rebasable.length > 0 && (
+        <button
+          type="button"
+          onClick={() => void perform('rebase')}
+          disabled={busy !== null}
+          className="flex items-center gap-1 px-1.5 py-0.5 rounded st-hoverable st-focus-ring disabled:opacity-50"
+          style={{ color: 'var(--st-accent)' }}
+          title={`Rebase workspaces without local changes or predicted conflicts onto ${target}`}
+        >
+          {busy === 'rebase' ? <Loader2 className="w-3 h-3 animate-spin" /> : <GitMerge className="w-3 h-3" />}
+          Rebase clean ({rebasable.length})
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { Archive, ArchiveRestore, X } from 'lucide-react';
+import { TimelineView } from '../panels/timeline/TimelineView';
+import type { Session } from '../../types/session';
+
+interface ArchivedSessionDialogProps {
+  session: Session;
+  onRestore: (session: Session) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * Read-only timeline of an archived session.
+ */
+export function ArchivedSessionDialog({ session, onRestore, onClose }: ArchivedSessionDialogProps) {
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const restore = async () => {
+    setIsRestoring(true);
+    setError(null);
+    try {
+      await onRestore(session);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore session');
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-6" role="dialog" aria-modal="true" aria-label="Archived session">
+      <div
+        className="w-full max-w-4xl h-[80vh] rounded-xl border shadow-2xl overflow-hidden flex flex-col"
+        style={{
+          borderColor: 'color-mix(in srgb, var(--st-border) 70%, transparent)',
+          backgroundColor: 'var(--st-surface)',
+          color: 'var(--st-text)',
+        }}
+      >
+        <div
+          className="flex items-center justify-between gap-3 px-4 py-3 border-b"
+          style={{ borderColor: 'color-mix(in srgb, var(--st-border) 70%, transparent)' }}
+        >
+          <div className="flex items-center gap-2 min-w-0">
+            <Archive className="w-4 h-4 flex-shrink-0" style={{ color: 'var(--st-text-faint)' }} />
+            <div className="text-sm font-medium truncate">{session.name}</div>
+            <span className="text-[11px] st-text-faint">Archived</span>
+          </div>
+          <div className="flex items-center gap-2">
+            {error && <span className="text-[11px]" style={{ color: 'var(--st-danger)' }}>{error}</span>}
+            <button
+              type="button"
+              onClick={() => void restore()}
+              disabled={isRestoring}
+              className="flex items-center gap-1 px-2 py-1 rounded text-xs font-medium st-focus-ring disabled:opacity-40"
+              style={{ backgroundColor: 'var(--st-accent)', color: '#000000' }}
+            >
+              <ArchiveRestore className="w-3.5 h-3.5" />
+              Restore
+            </button>
+            <button type="button" onClick={onClose} className="p-1.5 rounded st-hoverable st-focus-ring" title="Close">
+              <X className="w-4 h-4" style={{ color: 'var(--st-text-faint)' }} />
+            </button>
+          </div>
+        </div>
+        <div className="flex-1 min-h-0 flex flex-col">
+          <TimelineView sessionId={session.id} session={session} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { ArchiveRestore, ChevronDown, History, Loader2 } from 'lucide-react';
+import { formatDistanceToNow } from '../../utils/timestampUtils';
+import type { Session } from '../../types/session';
+
+interface ArchivedSessionsProps {
+  sessions: Session[];
+  onRestore: (session: Session) => Promise<void>;
+  onOpen: (session: Session) => void;
+}
+
+/**
+ * Collapsible list of a project's archived sessions, below its workspaces.
+ */
+export function ArchivedSessions({ sessions, onRestore, onOpen }: ArchivedSessionsProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (sessions.length === 0) return null;
+
+  const restore = async (session: Session) => {
+    setRestoringId(session.id);
+    setError(null);
+    try {
+      await onRestore(session);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore session');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div className="mt-2" data-testid="archived-sessions">
+      <button
+        type="button"
+        onClick={() => setIsExpanded((prev) => !prev)}
+        className="w-full flex items-center gap-1 px-2 py-1 rounded text-[11px] st-hoverable st-focus-ring"
+        style={{ color: 'var(--st-text-faint)' }}
+        aria-expanded={isExpanded}
+      >
+        <ChevronDown className={`w-3 h-3 transition-transform ${isExpanded ? '' : '-rotate-90'}`} />
+        <span>Archived ({sessions.length})</span>
+      </button>
+
+      {isExpanded && (
+        <div className="flex flex-col gap-[2px] mt-0.5">
+          {error && <div className="px-2 text-[11px]" style={{ color: 'var(--st-danger)' }}>{error}</div>}
+          {sessions.map((session) => (
+            <div
+              key={session.id}
+              className="group flex items-center gap-2 rounded-md px-2 py-1.5 st-hoverable"
+              data-testid="archived-session"
+            >
+              <button
+                type="button"
+                onClick={() => onOpen(session)}
+                className="flex-1 min-w-0 text-left st-focus-ring rounded"
+                title="View timeline"
+              >
+                <div className="text-[12px] truncate" style={{ color: 'var(--st-text-muted)' }}>{session.name}</div>
+                <div className="text-[11px] st-text-faint">{formatDistanceToNow(session.createdAt)}</div>
+              </button>
+              <button
+                type="button"
+                onClick={() => onOpen(session)}
+                className="st-icon-button st-focus-ring opacity-0 group-hover:opacity-100"
+                style={{ color: 'var(--st-text-faint)' }}
+                title="View timeline"
+              >
+                <History className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => void restore(session)}
+                disabled={restoringId !== null}
+                className="st-icon-button st-focus-ring disabled:opacity-40"
+                style={{ color: 'var(--st-text-faint)' }}
+                title="Restore workspace"
+              >
+                {restoringId === session.id
+                  ? <Loader2 className="w-4 h-4 animate-spin" />
+                  : <ArchiveRestore className="w-4 h-4" />}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
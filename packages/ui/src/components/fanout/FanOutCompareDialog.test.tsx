@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { FanOutCompareDialog } from './FanOutCompareDialog';
+import { API } from '../../utils/api';
+import type { FanOutComparisonDTO } from '../../types/electron';
+
+vi.mock('../../utils/api', () => ({
+  API: {
+    fanOut: {
+      compare: vi.fn(),
+      diff: vi.fn(),
+      promote: vi.fn(),
+    },
+  },
+}));
+
+const comparison: FanOutComparisonDTO = {
+  folderId: 'folder-1',
+  baseCommit: 'abc123def456',
+  siblings: [
+    { sessionId: 's1', name: 'oslo-claude-w1', toolType: 'claude', status: 'waiting', stats: { filesChanged: 2, additions: 10, deletions: 1 }, files: ['a.ts', 'b.ts'] },
+    { sessionId: 's2', name: 'oslo-codex-w2', toolType: 'codex', status: 'running', stats: { filesChanged: 1, additions: 4, deletions: 0 }, files: ['a.ts'] },
+  ],
+  pairs: [{ a: 's1', b: 's2', stats: { filesChanged: 2, additions: 3, deletions: 9 } }],
+};
+
+describe('FanOutCompareDialog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(API.fanOut.compare).mockResolvedValue({ success: true, data: comparison });
+  });
+
+  it('lists siblings with their stats and loads pairwise diffs', async () => {
+    vi.mocked(API.fanOut.diff).mockResolvedValue({ success: true, data: 'diff --git a/a.ts b/a.ts\n+added line' });
+    render(<FanOutCompareDialog isOpen folderId="folder-1" activeSessionId="s1" onClose={vi.fn()} onPromoted={vi.fn()} />);
+
+    const rows = await screen.findAllByTestId('fanout-sibling');
+    expect(rows).toHaveLength(2);
+    expect(rows[0].textContent).toContain('oslo-claude-w1(current)');
+    expect(rows[0].textContent).toContain('Claude');
+    expect(screen.getByText('base abc123d')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByTestId('fanout-pair'));
+
+    await waitFor(() => expect(API.fanOut.diff).toHaveBeenCalledWith('folder-1', 's1', 's2'));
+    expect(await screen.findByText('+added line')).toBeInTheDocument();
+  });
+
+  it('asks for confirmation before promoting a sibling', async () => {
+    vi.mocked(API.fanOut.promote).mockResolvedValue({ success: true, data: { archivedSessionIds: ['s1'] } });
+    const onPromoted = vi.fn();
+    render(<FanOutCompareDialog isOpen folderId="folder-1" activeSessionId="s1" onClose={vi.fn()} onPromoted={onPromoted} />);
+
+    await screen.findAllByTestId('fanout-sibling');
+    fireEvent.click(screen.getAllByText('Promote')[1]);
+    expect(API.fanOut.promote).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText('Confirm promote'));
+
+    await waitFor(() => expect(onPromoted).toHaveBeenCalledWith('s2'));
+    expect(API.fanOut.promote).toHaveBeenCalledWith('folder-1', 's2');
+  });
+});
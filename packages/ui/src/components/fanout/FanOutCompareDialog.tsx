@@ -0,0 +1,260 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Crown, GitCompare, RefreshCw, X } from 'lucide-react';
+import { API } from '../../utils/api';
+import { getExecutorDisplayName, useExecutors } from '../../features/executors';
+import type { FanOutComparisonDTO, FanOutDiffStatsDTO } from '../../types/electron';
+
+interface FanOutCompareDialogProps {
+  isOpen: boolean;
+  folderId: string;
+  activeSessionId: string | null;
+  onClose: () => void;
+  onPromoted: (winnerSessionId: string) => void;
+}
+
+type DiffSelection = { from: string | null; to: string };
+
+function Stats({ stats }: { stats: FanOutDiffStatsDTO }) {
+  return (
+    <span className="st-font-mono text-[11px] whitespace-nowrap">
+      <span className="st-text-faint">{stats.filesChanged} files </span>
+      <span style={{ color: 'var(--st-diff-added-marker)' }}>+{stats.additions}</span>{' '}
+      <span style={{ color: 'var(--st-diff-deleted-marker)' }}>-{stats.deletions}</span>
+    </span>
+  );
+}
+
+const lineColor = (line: string): string | undefined => {
+  if (line.startsWith('+++') || line.startsWith('---')) return 'var(--st-text-muted)';
+  if (line.startsWith('+')) return 'var(--st-diff-added-marker)';
+  if (line.startsWith('-')) return 'var(--st-diff-deleted-marker)';
+  if (line.startsWith('@@')) return 'var(--st-accent)';
+  if (line.startsWith('diff --git')) return 'var(--st-text)';
+  return undefined;
+};
+
+export function FanOutCompareDialog({ isOpen, folderId, activeSessionId, onClose, onPromoted }: FanOutCompareDialogProps) {
+  const executors = useExecutors();
+  const [comparison, setComparison] = useState<FanOutComparisonDTO | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selection, setSelection] = useState<DiffSelection | null>(null);
+  const [diffText, setDiffText] = useState<string>('');
+  const [isDiffLoading, setIsDiffLoading] = useState(false);
+  const [armedWinner, setArmedWinner] = useState<string | null>(null);
+  const [isPromoting, setIsPromoting] = useState(false);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await API.fanOut.compare(folderId);
+      if (!res.success || !res.data) {
+        setError(res.error || 'Failed to compare fan-out results');
+        return;
+      }
+      setComparison(res.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare fan-out results');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [folderId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelection(null);
+    setDiffText('');
+    setArmedWinner(null);
+    void load();
+  }, [isOpen, load]);
+
+  useEffect(() => {
+    if (!isOpen || !selection) return;
+    let cancelled = false;
+    setIsDiffLoading(true);
+    API.fanOut.diff(folderId, selection.from, selection.to)
+      .then((res) => {
+        if (cancelled) return;
+        if (!res.success) {
+          setError(res.error || 'Failed to load diff');
+          setDiffText('');
+          return;
+        }
+        setDiffText(res.data ?? '');
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load diff');
+      })
+      .finally(() => {
+        if (!cancelled) setIsDiffLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, folderId, selection]);
+
+  const nameById = useMemo(() => {
+    const map = new Map<string, string>();
+    for (const sibling of comparison?.siblings ?? []) map.set(sibling.sessionId, sibling.name);
+    return map;
+  }, [comparison]);
+
+  if (!isOpen) return null;
+
+  const handlePromote = async (sessionId: string) => {
+    if (armedWinner !== sessionId) {
+      setArmedWinner(sessionId);
+      return;
+    }
+    setIsPromoting(true);
+    setError(null);
+    try {
+      const res = await API.fanOut.promote(folderId, sessionId);
+      if (!res.success) {
+        setError(res.error || 'Failed to promote session');
+        return;
+      }
+      onPromoted(sessionId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to promote session');
+    } finally {
+      setIsPromoting(false);
+      setArmedWinner(null);
+    }
+  };
+
+  const borderColor = 'color-mix(in srgb, var(--st-border) 70%, transparent)';
+  const selectionLabel = selection
+    ? `${selection.from ? nameById.get(selection.from) ?? selection.from : 'base'} → ${nameById.get(selection.to) ?? selection.to}`
+    : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-6" role="dialog" aria-modal="true" aria-label="Compare fan-out results">
+      <div
+        className="w-full max-w-5xl max-h-full flex flex-col rounded-xl border shadow-2xl overflow-hidden"
+        style={{ borderColor, backgroundColor: 'var(--st-surface)', color: 'var(--st-text)' }}
+      >
+        <div className="flex items-center justify-between gap-3 px-4 py-3 border-b" style={{ borderColor }}>
+          <div className="flex items-center gap-2 min-w-0">
+            <GitCompare className="w-4 h-4 flex-shrink-0" style={{ color: 'var(--st-accent)' }} />
+            <div className="text-sm font-medium truncate">Compare fan-out results</div>
+            {comparison?.baseCommit && (
+              <span className="text-[11px] st-font-mono st-text-faint">base {comparison.baseCommit.slice(0, 7)}</span>
+            )}
+          </div>
+          <div className="flex items-center gap-1">
+            <button type="button" onClick={() => void load()} disabled={isLoading} className="p-1.5 rounded st-hoverable st-focus-ring disabled:opacity-50" title="Refresh">
+              <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} style={{ color: 'var(--st-text-faint)' }} />
+            </button>
+            <button type="button" onClick={onClose} className="p-1.5 rounded st-hoverable st-focus-ring" title="Close">
+              <X className="w-4 h-4" style={{ color: 'var(--st-text-faint)' }} />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto min-h-0">
+          {error && (
+            <div className="text-xs p-2 rounded" style={{ backgroundColor: 'var(--st-error-bg)', color: 'var(--st-error)' }}>
+              {error}
+            </div>
+          )}
+
+          {!comparison && isLoading && <div className="text-xs st-text-faint">Snapshotting worktrees…</div>}
+
+          {comparison && (
+            <table className="w-full text-[12px]">
+              <thead>
+                <tr className="text-left st-text-faint">
+                  <th className="font-normal pb-1">Session</th>
+                  <th className="font-normal pb-1">Agent</th>
+                  <th className="font-normal pb-1">Status</th>
+                  <th className="font-normal pb-1">vs base</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.siblings.map((sibling) => (
+                  <tr key={sibling.sessionId} className="border-t" style={{ borderColor }} data-testid="fanout-sibling">
+                    <td className="py-1.5 pr-2 truncate max-w-[220px]" title={sibling.files.join('\n')}>
+                      {sibling.name}
+                      {sibling.sessionId === activeSessionId && <span className="ml-1 st-text-faint">(current)</span>}
+                    </td>
+                    <td className="py-1.5 pr-2">{sibling.toolType ? getExecutorDisplayName(executors, sibling.toolType) : '—'}</td>
+                    <td className="py-1.5 pr-2 st-text-faint">{sibling.status}</td>
+                    <td className="py-1.5 pr-2">
+                      {sibling.error ? (
+                        <span style={{ color: 'var(--st-danger)' }} title={sibling.error}>unavailable</span>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => setSelection({ from: null, to: sibling.sessionId })}
+                          className="rounded st-hoverable st-focus-ring px-1"
+                          title="Show diff against the base commit"
+                        >
+                          <Stats stats={sibling.stats} />
+                        </button>
+                      )}
+                    </td>
+                    <td className="py-1.5 text-right">
+                      <button
+                        type="button"
+                        onClick={() => void handlePromote(sibling.sessionId)}
+                        disabled={isPromoting}
+                        className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-[11px] st-hoverable st-focus-ring disabled:opacity-50"
+                        style={{ color: armedWinner === sibling.sessionId ? 'var(--st-warning)' : 'var(--st-accent)' }}
+                        title="Keep this session and archive the others"
+                      >
+                        <Crown className="w-3 h-3" />
+                        {armedWinner === sibling.sessionId ? 'Confirm promote' : 'Promote'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {comparison && comparison.pairs.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-xs st-text-faint">Between siblings</div>
+              {comparison.pairs.map((pair) => (
+                <button
+                  key={`${pair.a}:${pair.b}`}
+                  type="button"
+                  onClick={() => setSelection({ from: pair.a, to: pair.b })}
+                  className="w-full flex items-center justify-between gap-2 px-2 py-1 rounded text-[12px] st-hoverable st-focus-ring"
+                  data-testid="fanout-pair"
+                >
+                  <span className="truncate">{nameById.get(pair.a)} ↔ {nameById.get(pair.b)}</span>
+                  <Stats stats={pair.stats} />
+                </button>
+              ))}
+            </div>
+          )}
+
+          {selection && (
+            <div className="space-y-1">
+              <div className="text-xs st-text-faint">{selectionLabel}</div>
+              <pre
+                className="text-[11px] st-font-mono rounded-lg p-3 overflow-auto max-h-[50vh] border"
+                style={{ backgroundColor: 'var(--st-editor)', borderColor }}
+                data-testid="fanout-diff"
+              >
+                {isDiffLoading
+                  ? 'Loading diff…'
+                  : diffText
+                    ? diffText.split('\n').map((line, index) => (
+                      <div key={index} style={{ color: lineColor(line) }}>{line || ' '}</div>
+                    ))
+                    : 'No differences'}
+              </pre>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default FanOutCompareDialog;
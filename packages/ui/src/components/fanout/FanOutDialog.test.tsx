@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { FanOutDialog } from './FanOutDialog';
+import { API } from '../../utils/api';
+
+vi.mock('../../utils/api', () => ({
+  API: {
+    fanOut: {
+      create: vi.fn(),
+    },
+  },
+}));
+
+describe('FanOutDialog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('starts one run per built-in agent by default', async () => {
+    vi.mocked(API.fanOut.create).mockResolvedValue({
+      success: true,
+      data: { folderId: 'folder-1', baseCommit: 'abc123', sessionIds: ['s1', 's2', 's3', 's4'] },
+    });
+    const onStarted = vi.fn();
+    render(<FanOutDialog isOpen projectId={7} projectName="snowtree" onClose={vi.fn()} onStarted={onStarted} />);
+
+    expect(screen.getAllByTestId('fanout-agent').map((row) => row.textContent)).toEqual(['Claude1', 'Codex1', 'Gemini1', 'Kimi1']);
+    expect(screen.getByText('Start')).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Fan-out prompt'), { target: { value: 'Fix the flaky test' } });
+    fireEvent.click(screen.getByText('Start'));
+
+    await waitFor(() => expect(onStarted).toHaveBeenCalled());
+    expect(API.fanOut.create).toHaveBeenCalledWith({
+      projectId: 7,
+      prompt: 'Fix the flaky test',
+      runs: ['claude', 'codex', 'gemini', 'kimi'],
+    });
+  });
+
+  it('supports several runs of the same agent and needs at least two runs', () => {
+    render(<FanOutDialog isOpen projectId={7} projectName="snowtree" onClose={vi.fn()} onStarted={vi.fn()} />);
+    fireEvent.change(screen.getByLabelText('Fan-out prompt'), { target: { value: 'Try it' } });
+
+    fireEvent.click(screen.getByLabelText('Fewer Codex runs'));
+    fireEvent.click(screen.getByLabelText('Fewer Gemini runs'));
+    fireEvent.click(screen.getByLabelText('Fewer Kimi runs'));
+    expect(screen.getByText('Pick at least two runs')).toBeInTheDocument();
+    expect(screen.getByText('Start')).toBeDisabled();
+
+    fireEvent.click(screen.getByLabelText('More Claude runs'));
+    expect(screen.getByText('2 runs')).toBeInTheDocument();
+    expect(screen.getByText('Start')).toBeEnabled();
+  });
+
+  it('shows the error when the fan-out fails to start', async () => {
+    vi.mocked(API.fanOut.create).mockResolvedValue({ success: false, error: 'Project with ID 7 not found' });
+    const onStarted = vi.fn();
+    render(<FanOutDialog isOpen projectId={7} projectName="snowtree" onClose={vi.fn()} onStarted={onStarted} />);
+
+    fireEvent.change(screen.getByLabelText('Fan-out prompt'), { target: { value: 'Go' } });
+    fireEvent.click(screen.getByText('Start'));
+
+    expect(await screen.findByText('Project with ID 7 not found')).toBeInTheDocument();
+    expect(onStarted).not.toHaveBeenCalled();
+  });
+});
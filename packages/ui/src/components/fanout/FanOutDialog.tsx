@@ -0,0 +1,178 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Minus, Plus, Split, X } from 'lucide-react';
+import { API } from '../../utils/api';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { isExecutorEnabled, useExecutors, type ExecutorInfo } from '../../features/executors';
+import type { FanOutCreateResultDTO } from '../../types/electron';
+
+const MAX_RUNS_PER_AGENT = 4;
+
+interface FanOutDialogProps {
+  isOpen: boolean;
+  projectId: number;
+  projectName: string;
+  onClose: () => void;
+  onStarted: (result: FanOutCreateResultDTO) => void;
+}
+
+export function FanOutDialog({ isOpen, projectId, projectName, onClose, onStarted }: FanOutDialogProps) {
+  const executors = useExecutors();
+  const enabledProviders = useSettingsStore((state) => state.settings.enabledProviders);
+  const agents = useMemo(
+    () => executors.filter((executor) => isExecutorEnabled(executors, enabledProviders, executor.id)),
+    [executors, enabledProviders]
+  );
+
+  const [prompt, setPrompt] = useState('');
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setPrompt('');
+    setCounts({});
+    setError(null);
+  }, [isOpen]);
+
+  // Default: one run per built-in agent.
+  const countFor = useCallback(
+    (agent: ExecutorInfo) => counts[agent.id] ?? (agent.builtIn ? 1 : 0),
+    [counts]
+  );
+
+  const runs = useMemo(
+    () => agents.flatMap((agent) => Array.from({ length: countFor(agent) }, () => agent.id)),
+    [agents, countFor]
+  );
+
+  if (!isOpen) return null;
+
+  const adjust = (agent: ExecutorInfo, delta: number) => {
+    setCounts((prev) => ({
+      ...prev,
+      [agent.id]: Math.max(0, Math.min(MAX_RUNS_PER_AGENT, countFor(agent) + delta)),
+    }));
+  };
+
+  const canStart = prompt.trim().length > 0 && runs.length >= 2 && !isStarting;
+
+  const handleStart = async () => {
+    if (!canStart) return;
+    setIsStarting(true);
+    setError(null);
+    try {
+      const res = await API.fanOut.create({ projectId, prompt, runs });
+      if (!res.success || !res.data) {
+        setError(res.error || 'Failed to start fan-out');
+        return;
+      }
+      onStarted(res.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start fan-out');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-6" role="dialog" aria-modal="true" aria-label="Fan out prompt">
+      <div
+        className="w-full max-w-lg rounded-xl border shadow-2xl overflow-hidden"
+        style={{
+          borderColor: 'color-mix(in srgb, var(--st-border) 70%, transparent)',
+          backgroundColor: 'var(--st-surface)',
+          color: 'var(--st-text)',
+        }}
+      >
+        <div
+          className="flex items-center justify-between gap-3 px-4 py-3 border-b"
+          style={{ borderColor: 'color-mix(in srgb, var(--st-border) 70%, transparent)' }}
+        >
+          <div className="flex items-center gap-2 min-w-0">
+            <Split className="w-4 h-4 flex-shrink-0" style={{ color: 'var(--st-accent)' }} />
+            <div className="text-sm font-medium truncate">Fan out · {projectName}</div>
+          </div>
+          <button type="button" onClick={onClose} className="p-1.5 rounded st-hoverable st-focus-ring" title="Close">
+            <X className="w-4 h-4" style={{ color: 'var(--st-text-faint)' }} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <div className="text-xs" style={{ color: 'var(--st-text-faint)' }}>
+            Every run gets its own worktree from the same base commit. Compare the results from the workspace header, then promote the winner.
+          </div>
+
+          <textarea
+            aria-label="Fan-out prompt"
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder="What should every agent do?"
+            autoFocus
+            className="w-full px-3 py-2 rounded border text-sm h-28 resize-none st-focus-ring"
+            style={{
+              backgroundColor: 'var(--st-editor)',
+              borderColor: 'var(--st-border)',
+              color: 'var(--st-text)',
+            }}
+          />
+
+          <div className="space-y-1">
+            {agents.map((agent) => {
+              const count = countFor(agent);
+              return (
+                <div key={agent.id} className="flex items-center justify-between text-sm" data-testid="fanout-agent">
+                  <span style={{ color: count > 0 ? 'var(--st-text)' : 'var(--st-text-faint)' }}>{agent.displayName}</span>
+                  <div className="flex items-center gap-1">
+                    <button
+                      type="button"
+                      onClick={() => adjust(agent, -1)}
+                      disabled={count === 0}
+                      className="p-1 rounded st-hoverable st-focus-ring disabled:opacity-30"
+                      aria-label={`Fewer ${agent.displayName} runs`}
+                    >
+                      <Minus className="w-3 h-3" />
+                    </button>
+                    <span className="w-5 text-center st-font-mono text-xs">{count}</span>
+                    <button
+                      type="button"
+                      onClick={() => adjust(agent, 1)}
+                      disabled={count >= MAX_RUNS_PER_AGENT}
+                      className="p-1 rounded st-hoverable st-focus-ring disabled:opacity-30"
+                      aria-label={`More ${agent.displayName} runs`}
+                    >
+                      <Plus className="w-3 h-3" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {error && (
+            <div className="text-xs p-2 rounded" style={{ backgroundColor: 'var(--st-error-bg)', color: 'var(--st-error)' }}>
+              {error}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <span className="text-xs" style={{ color: 'var(--st-text-faint)' }}>
+              {runs.length < 2 ? 'Pick at least two runs' : `${runs.length} runs`}
+            </span>
+            <button
+              type="button"
+              onClick={() => void handleStart()}
+              disabled={!canStart}
+              className="px-3 py-1.5 rounded text-sm font-medium st-focus-ring disabled:opacity-50"
+              style={{ backgroundColor: 'var(--st-accent)', color: 'white' }}
+            >
+              {isStarting ? 'Starting…' : 'Start'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default FanOutDialog;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { X, ArrowLeft, RefreshCw, Copy, Check } from 'lucide-react';
+import { X, ArrowLeft, RefreshCw, Copy, Check, Send } from 'lucide-react';
 import { PierreDiffViewer } from '../panels/diff/PierreDiffViewer';
 import { isPreviewableFile } from '../panels/diff/utils/fileUtils';
 import { API } from '../../utils/api';
@@ -120,6 +120,10 @@ export const DiffOverlay: React.FC<DiffOverlayProps> = React.memo(({
   target,
   files = [],
   onClose,
+  reviewComments,
+  diffComments,
+  onSendDiffComments,
+  isSendDiffCommentsDisabled,
   banner
 }) => {
   const [diff, setDiff] = useState<string | null>(null);
@@ -414,6 +418,7 @@ export const DiffOverlay: React.FC<DiffOverlayProps> = React.memo(({
   if (!isOpen) return null;
 
   const workingScope = target?.kind === 'working' ? (target.scope || 'all') : null;
+  const pendingCommentCount = diffComments?.comments.filter((comment) => comment.status === 'pending').length ?? 0;
 
   function getWorkingTitle(scope: string | null): string {
     switch (scope) {
@@ -502,6 +507,21 @@ export const DiffOverlay: React.FC<DiffOverlayProps> = React.memo(({
 
         {/* Right side buttons */}
         <div className="flex items-center gap-0.5">
+          {onSendDiffComments && pendingCommentCount > 0 && (
+            <button
+              type="button"
+              onClick={onSendDiffComments}
+              disabled={isSendDiffCommentsDisabled}
+              data-testid="diff-overlay-send-review"
+              className="flex items-center gap-1.5 mr-1 px-2 py-1 rounded text-xs font-medium st-focus-ring disabled:opacity-40 disabled:cursor-not-allowed"
+              style={{ backgroundColor: 'var(--st-accent)', color: '#000000' }}
+              title={isSendDiffCommentsDisabled ? 'Wait for the agent to finish' : 'Send the pending comments to the agent'}
+            >
+              <Send className="w-3 h-3" />
+              Send review ({pendingCommentCount})
+            </button>
+          )}
+
           {/* Refresh button */}
           <IconButton
             onClick={refreshNow}
@@ -598,6 +618,11 @@ export const DiffOverlay: React.FC<DiffOverlayProps> = React.memo(({
             previewFileSources={previewSources}
             fileOrder={viewerFileOrder}
             onChanged={refreshNow}
+            reviewComments={reviewComments}
+            comments={diffComments?.comments}
+            onAddComment={diffComments?.add}
+            onUpdateComment={diffComments?.update}
+            onDeleteComment={diffComments?.remove}
           />
         ) : (
           <div
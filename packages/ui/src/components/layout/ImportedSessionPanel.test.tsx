@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { ImportedSessionPanel } from './ImportedSessionPanel';
+import { API } from '../../utils/api';
+
+vi.mock('../../utils/api', () => ({
+  API: {
+    sessions: {
+      getImport: vi.fn(),
+    },
+  },
+}));
+
+describe('ImportedSessionPanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows provenance, commits and the final diff', async () => {
+    vi.mocked(API.sessions.getImport).mockResolvedValue({
+      success: true,
+      data: {
+        session_id: 's2',
+        source_session_id: 's1',
+        source_project_name: 'demo',
+        exported_at: '2020-01-03T00:00:00.000Z',
+        imported_at: '2020-01-04T00:00:00.000Z',
+        base_ref: 'abcdef1234567890',
+        final_diff: 'diff --git a/x b/x\n+added line',
+        commits: [{ hash: 'abc1234def', message: 'Fix login', author: 'Ada', date: '2020-01-02T00:00:00Z' }],
+      },
+    });
+    render(<ImportedSessionPanel sessionId="s2" />);
+
+    expect(await screen.findByText('Fix login')).toBeInTheDocument();
+    expect(API.sessions.getImport).toHaveBeenCalledWith('s2');
+    expect(screen.getByText('demo')).toBeInTheDocument();
+    expect(screen.getByText('abcdef123456')).toBeInTheDocument();
+    expect(screen.getByText('+added line')).toBeInTheDocument();
+  });
+
+  it('shows the error when loading fails', async () => {
+    vi.mocked(API.sessions.getImport).mockResolvedValue({ success: false, error: 'boom' });
+    render(<ImportedSessionPanel sessionId="s2" />);
+
+    expect(await screen.findByText('boom')).toBeInTheDocument();
+  });
+});
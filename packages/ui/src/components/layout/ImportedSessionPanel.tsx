@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { FileArchive, GitCommit } from 'lucide-react';
+import { API } from '../../utils/api';
+import { colors } from './RightPanel/constants';
+import type { SessionImportDTO } from '../../types/electron';
+
+interface ImportedSessionPanelProps {
+  sessionId: string;
+}
+
+const diffLineColor = (line: string): string | undefined => {
+  if (line.startsWith('+') && !line.startsWith('+++')) return colors.text.added;
+  if (line.startsWith('-') && !line.startsWith('---')) return colors.text.deleted;
+  if (line.startsWith('@@')) return colors.accent;
+  return undefined;
+};
+
+/**
+ * Right-hand panel for imported sessions: there is no worktree to inspect,
+ * so show where the bundle came from plus the commits and patch it carried.
+ */
+export const ImportedSessionPanel: React.FC<ImportedSessionPanelProps> = React.memo(({ sessionId }) => {
+  const [details, setDetails] = useState<SessionImportDTO | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDetails(null);
+    setError(null);
+    API.sessions.getImport(sessionId).then((res) => {
+      if (cancelled) return;
+      if (res.success) setDetails(res.data ?? null);
+      else setError(res.error || 'Failed to load import details');
+    }).catch((err) => {
+      if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load import details');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden" style={{ backgroundColor: colors.bg.secondary }} data-testid="imported-session-panel">
+      <div className="flex items-center gap-2 px-3 py-2 border-b st-hairline">
+        <FileArchive className="w-3.5 h-3.5" style={{ color: colors.text.secondary }} />
+        <span className="text-[12px] font-medium" style={{ color: colors.text.primary }}>Imported session</span>
+      </div>
+
+      {error && (
+        <div className="px-3 py-2 text-[11px]" style={{ color: colors.text.deleted }}>{error}</div>
+      )}
+
+      {details && (
+        <div className="flex-1 min-h-0 overflow-y-auto">
+          <dl className="px-3 py-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-[11px]">
+            {details.source_project_name && (
+              <>
+                <dt style={{ color: colors.text.muted }}>Project</dt>
+                <dd className="truncate" style={{ color: colors.text.primary }}>{details.source_project_name}</dd>
+              </>
+            )}
+            {details.base_ref && (
+              <>
+                <dt style={{ color: colors.text.muted }}>Base</dt>
+                <dd className="font-mono truncate" style={{ color: colors.text.primary }}>{details.base_ref.slice(0, 12)}</dd>
+              </>
+            )}
+            <dt style={{ color: colors.text.muted }}>Exported</dt>
+            <dd style={{ color: colors.text.primary }}>{new Date(details.exported_at).toLocaleString()}</dd>
+            <dt style={{ color: colors.text.muted }}>Imported</dt>
+            <dd style={{ color: colors.text.primary }}>{new Date(details.imported_at).toLocaleString()}</dd>
+          </dl>
+
+          <div className="px-3 pt-2 pb-1 text-[11px] font-medium" style={{ color: colors.text.secondary }}>
+            Commits ({details.commits.length})
+          </div>
+          {details.commits.length === 0 ? (
+            <div className="px-3 pb-2 text-[11px]" style={{ color: colors.text.muted }}>No commits</div>
+          ) : (
+            <ul className="pb-2">
+              {details.commits.map((commit) => (
+                <li key={commit.hash} className="flex items-start gap-2 px-3 py-1 text-[11px]" data-testid="imported-commit">
+                  <GitCommit className="w-3 h-3 mt-0.5 flex-shrink-0" style={{ color: colors.text.muted }} />
+                  <span className="min-w-0">
+                    <span className="block truncate" style={{ color: colors.text.primary }}>{commit.message}</span>
+                    <span className="font-mono" style={{ color: colors.text.muted }}>{commit.hash.slice(0, 7)} · {commit.author}</span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="px-3 pt-2 pb-1 text-[11px] font-medium" style={{ color: colors.text.secondary }}>
+            Final diff
+          </div>
+          {details.final_diff ? (
+            <pre
+              className="mx-3 mb-3 p-2 rounded text-[11px] leading-4 font-mono overflow-x-auto"
+              style={{ backgroundColor: colors.bg.primary }}
+              data-testid="imported-final-diff"
+            >
+              {details.final_diff.split('\n').map((line, i) => (
+                <div key={i} style={{ color: diffLineColor(line) ?? colors.text.secondary }}>{line || ' '}</div>
+              ))}
+            </pre>
+          ) : (
+            <div className="px-3 pb-3 text-[11px]" style={{ color: colors.text.muted }}>No changes</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
+ImportedSessionPanel.displayName = 'ImportedSessionPanel';
@@ -1,5 +1,5 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { ChevronDown, Sparkles, Code2, Loader2, Star } from 'lucide-react';
+import { Bot, ChevronDown, Sparkles, Code2, Loader2, Star, Paperclip, X } from 'lucide-react';
 import type { InputBarProps, CLITool, ImageAttachment, ExecutionMode } from './types';
 import { API } from '../../utils/api';
 import { withTimeout } from '../../utils/withTimeout';
@@ -8,6 +8,8 @@ import { clearSessionDraft, getSessionDraft, setSessionDraft } from './sessionDr
 import { InputBarEditor, type InputBarEditorHandle } from './InputBarEditor';
 import { isTerminalEventTarget } from './terminalUtils';
 import { ClaudeIcon, CodexIcon, GeminiIcon, KimiIcon } from '../icons/ProviderIcons';
+import { getExecutorDisplayName, isBuiltinExecutorId, useExecutors } from '../../features/executors';
+import { selectSessionAttachments, usePromptAttachmentStore, withPromptAttachments } from '../../stores/promptAttachmentStore';
 
 const KnightRiderSpinner: React.FC<{ color?: string }> = ({ color = 'var(--st-accent)' }) => {
   const [frame, setFrame] = useState(0);
@@ -55,10 +57,13 @@ type ToolAvailability = {
 type AiToolsStatus = {
   fetchedAt?: string;
   cached?: boolean;
-  claude: ToolAvailability;
-  codex: ToolAvailability;
-  gemini: ToolAvailability;
-  kimi: ToolAvailability;
+  // Built-ins and registered executor plugins, keyed by tool id
+  [tool: string]: ToolAvailability | string | boolean | undefined;
+};
+
+const getToolAvailability = (status: AiToolsStatus | null, tool: CLITool): ToolAvailability | undefined => {
+  const value = status?.[tool];
+  return value && typeof value === 'object' ? value : undefined;
 };
 
 type ToolDisplaySettings = {
@@ -120,7 +125,7 @@ const CLISelector: React.FC<{
   ];
 
   const selectedTool = tools.find(t => t.id === selected) || tools[0];
-  const availabilityForSelected = availability?.[selected];
+  const availabilityForSelected = getToolAvailability(availability, selected);
   const isSelectedAvailable = availabilityLoading ? true : (availabilityForSelected?.available ?? true);
   const isProbing = availabilityLoading || settingsLoading;
 
@@ -163,7 +168,7 @@ const CLISelector: React.FC<{
         />
         {tools.map((tool) => {
           const toolSettings = settings[tool.id];
-          const toolAvailability = availability?.[tool.id];
+          const toolAvailability = getToolAvailability(availability, tool.id);
           const subtitle = [
             toolSettings?.model,
             tool.id === 'codex' ? toolSettings?.level : null,
@@ -213,6 +218,7 @@ export const InputBar: React.FC<InputBarProps> = React.memo(({
   selectedTool,
   onSend,
   onCancel,
+  onQueue,
   isProcessing,
   placeholder,
   focusRequestId,
@@ -220,12 +226,16 @@ export const InputBar: React.FC<InputBarProps> = React.memo(({
 }) => {
   const [isFocused, setIsFocused] = useState(false);
   const [imageAttachments, setImageAttachments] = useState<ImageAttachment[]>([]);
+  const textAttachments = usePromptAttachmentStore(selectSessionAttachments(session.id));
+  const removeTextAttachment = usePromptAttachmentStore((state) => state.removeAttachment);
+  const clearTextAttachments = usePromptAttachmentStore((state) => state.clearAttachments);
   const [executionMode, setExecutionModeInternal] = useState<ExecutionMode>(initialExecutionMode || 'execute');
   const editorRef = useRef<InputBarEditorHandle>(null);
   const [aiToolsStatus, setAiToolsStatus] = useState<AiToolsStatus | null>(null);
   const [, setAiToolsLoading] = useState(false);
   const [, setToolSettingsProbeLoading] = useState(true);
   const [, setToolSettingsTimelineLoading] = useState(true);
+  const executors = useExecutors();
   const [toolSettings, setToolSettings] = useState<Record<CLITool, ToolDisplaySettings>>({
     claude: {},
     codex: {},
@@ -444,14 +454,23 @@ export const InputBar: React.FC<InputBarProps> = React.memo(({
     const editor = editorRef.current;
     if (!editor) return;
 
-    const text = editor.getText().trim();
+    const typed = editor.getText().trim();
+    const text = withPromptAttachments(typed, textAttachments);
     if (!text && imageAttachments.length === 0) return;
-    if (isProcessing) return;
+    if (isProcessing) {
+      // Images are only sent with a live prompt, so they stay in the bar
+      if (!onQueue || !text || imageAttachments.length > 0) return;
+      onQueue(text, executionMode === 'plan');
+      clearSessionDraft(session.id);
+      editor.clear();
+      clearTextAttachments(session.id);
+      return;
+    }
 
-    if (text) {
+    if (typed) {
       const hist = inputHistoryRef.current;
-      if (hist.length === 0 || hist[hist.length - 1] !== text) {
-        inputHistoryRef.current = [...hist, text].slice(-100);
+      if (hist.length === 0 || hist[hist.length - 1] !== typed) {
+        inputHistoryRef.current = [...hist, typed].slice(-100);
       }
     }
 
@@ -459,7 +478,8 @@ export const InputBar: React.FC<InputBarProps> = React.memo(({
     clearSessionDraft(session.id);
     editor.clear();
     clearImageAttachments();
-  }, [imageAttachments, isProcessing, onSend, executionMode, session.id, clearImageAttachments]);
+    clearTextAttachments(session.id);
+  }, [imageAttachments, textAttachments, isProcessing, onSend, onQueue, executionMode, session.id, clearImageAttachments, clearTextAttachments]);
 
   const handleFocusHintClick = useCallback(() => {
     editorRef.current?.focus();
@@ -806,10 +826,10 @@ export const InputBar: React.FC<InputBarProps> = React.memo(({
     void loadAvailability();
   }, [loadAvailability]);
 
-  const agentName = selectedTool === 'claude' ? 'Claude' : selectedTool === 'codex' ? 'Codex' : selectedTool === 'gemini' ? 'Gemini' : 'Kimi';
+  const agentName = getExecutorDisplayName(executors, selectedTool);
   const modeName = executionMode === 'plan' ? 'Plan' : 'Execute';
-  const selectedSettings = toolSettings[selectedTool];
-  const availabilityForSelected = aiToolsStatus?.[selectedTool];
+  const selectedSettings = toolSettings[selectedTool] ?? {};
+  const availabilityForSelected = getToolAvailability(aiToolsStatus, selectedTool);
   const modelInfo = selectedSettings.model || '';
   const levelInfo = selectedTool === 'codex' && selectedSettings.level ? selectedSettings.level : '';
   const versionInfo = formatCliVersion(availabilityForSelected?.version) || '';
@@ -834,11 +854,35 @@ export const InputBar: React.FC<InputBarProps> = React.memo(({
               className="px-3 py-2"
               style={{ backgroundColor: 'var(--st-editor)' }}
             >
+              {textAttachments.length > 0 && (
+                <div className="flex flex-wrap gap-1 mb-1.5">
+                  {textAttachments.map((attachment) => (
+                    <span
+                      key={attachment.id}
+                      className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[11px] st-font-mono"
+                      style={{ backgroundColor: 'var(--st-hover)', color: 'var(--st-text-muted)' }}
+                      title={attachment.content.slice(-2000)}
+                      data-testid="prompt-attachment"
+                    >
+                      <Paperclip className="w-3 h-3" />
+                      {attachment.label}
+                      <button
+                        type="button"
+                        onClick={() => removeTextAttachment(session.id, attachment.id)}
+                        className="rounded st-hoverable st-focus-ring"
+                        title="Remove attachment"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
               <div className="relative">
                 <InputBarEditor
                   ref={editorRef}
                   placeholder={placeholder}
-                  isRunning={isRunning}
+                  isRunning={isRunning && !onQueue}
                   onUpdate={handleEditorUpdate}
                   onSubmit={handleSubmit}
                   inputHistory={inputHistoryRef}
@@ -857,6 +901,7 @@ export const InputBar: React.FC<InputBarProps> = React.memo(({
                   {selectedTool === 'codex' && <CodexIcon className="w-3.5 h-3.5" />}
                   {selectedTool === 'gemini' && <GeminiIcon className="w-3.5 h-3.5" />}
                   {selectedTool === 'kimi' && <KimiIcon className="w-3.5 h-3.5" />}
+                  {!isBuiltinExecutorId(selectedTool) && <Bot className="w-3.5 h-3.5" />}
                   <span data-testid="input-agent">{agentName}</span>
                 </div>
                 <span
@@ -901,6 +946,12 @@ export const InputBar: React.FC<InputBarProps> = React.memo(({
                       {escPending ? 'again to interrupt' : 'interrupt'}
                     </span>
                   </span>
+                  {onQueue && (
+                    <span style={{ color: 'var(--st-text)' }}>
+                      enter{' '}
+                      <span style={{ color: 'var(--st-text-faint)' }}>queue</span>
+                    </span>
+                  )}
                 </>
               )}
             </div>
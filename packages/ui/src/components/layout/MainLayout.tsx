@@ -1,16 +1,28 @@
 import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { Loader2 } from 'lucide-react';
 import { useSessionStore } from '../../stores/sessionStore';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { useErrorStore } from '../../stores/errorStore';
+import { API } from '../../utils/api';
 import { WorkspaceHeader } from './WorkspaceHeader';
 import { ConversationPanel } from './ConversationPanel';
 import { InputBar } from './InputBar';
 import { RightPanel } from './RightPanel/index';
 import { TerminalDock } from './TerminalDock';
 import { DiffOverlay } from './DiffOverlay';
+import { PromptQueue } from './PromptQueue';
 import { useLayoutData } from './useLayoutData';
+import { usePromptQueue } from './usePromptQueue';
+import { useReviewFeedback } from '../../hooks/useReviewFeedback';
+import { useDiffComments } from '../../hooks/useDiffComments';
+import { FanOutCompareDialog } from '../fanout/FanOutCompareDialog';
+import { ImportedSessionPanel } from './ImportedSessionPanel';
 import type { PendingMessage, FileChange } from './types';
+import type { SessionExportFormat } from '../../types/electron';
 import type { DiffTarget } from '../../types/diff';
 import { isTerminalEventTarget } from './terminalUtils';
+import { buildWorkflowPrompt } from '../../features/workflow-prompts';
+import { isAgentToolType } from '../../features/executors';
 
 const RIGHT_PANEL_WIDTH_KEY = 'snowtree-right-panel-width';
 const DEFAULT_RIGHT_PANEL_WIDTH = 340;
@@ -61,7 +73,10 @@ const LoadingState: React.FC<{ title: string; subtitle?: string; onRetry?: () =>
 export const MainLayout: React.FC = React.memo(() => {
   const activeSessionId = useSessionStore(state => state.activeSessionId);
   const sessions = useSessionStore(state => state.sessions);
+  const setActiveSession = useSessionStore(state => state.setActiveSession);
   const sessionTodos = useSessionStore(state => state.sessionTodos);
+  const workspaceActions = useSettingsStore(state => state.settings.workspaceActions);
+  const showError = useErrorStore(state => state.showError);
 
   const {
     session,
@@ -99,6 +114,31 @@ export const MainLayout: React.FC = React.memo(() => {
     };
   }, [session, sessionFromStore, activeSessionId]);
 
+  // Sessions started together by a fan-out share a folder.
+  const fanOutFolderId = useMemo(() => {
+    const folderId = displaySession?.folderId;
+    if (!folderId) return null;
+    return sessions.filter(s => s.folderId === folderId).length > 1 ? folderId : null;
+  }, [displaySession?.folderId, sessions]);
+  const [showFanOutCompare, setShowFanOutCompare] = useState(false);
+
+  const handleFanOutPromoted = useCallback((winnerSessionId: string) => {
+    setShowFanOutCompare(false);
+    setActiveSession(winnerSessionId);
+  }, [setActiveSession]);
+
+  const handleExportSession = useCallback(async (format: SessionExportFormat) => {
+    if (!activeSessionId) return;
+    try {
+      const res = await API.sessions.exportBundle(activeSessionId, format);
+      if (!res.success) {
+        showError({ title: 'Failed to export session', error: res.error || 'Unknown error' });
+      }
+    } catch (error) {
+      showError({ title: 'Failed to export session', error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }, [activeSessionId, showError]);
+
   const activeTodos = useMemo(() => {
     if (!activeSessionId) return [];
     return sessionTodos[activeSessionId] || [];
@@ -122,6 +162,7 @@ export const MainLayout: React.FC = React.memo(() => {
     return DEFAULT_RIGHT_PANEL_WIDTH;
   });
   const [isResizing, setIsResizing] = useState(false);
+  const directActionRunningRef = useRef(false);
   const sessionId = session?.id ?? null;
 
   useEffect(() => {
@@ -190,27 +231,82 @@ export const MainLayout: React.FC = React.memo(() => {
     await sendMessage(message, images, planMode);
   }, [sendMessage]);
 
+  const promptQueue = usePromptQueue(session?.id ?? null);
+  const { enqueue: enqueuePrompt } = promptQueue;
+
+  const handleQueueMessage = useCallback(async (message: string, planMode?: boolean) => {
+    if (!aiPanel) return;
+    try {
+      await enqueuePrompt(aiPanel.id, message, planMode);
+    } catch (error) {
+      showError({ title: 'Failed to queue prompt', error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }, [aiPanel, enqueuePrompt, showError]);
+
+  const reviewFeedback = useReviewFeedback(session?.id);
+  const openReviewComments = useMemo(
+    () => reviewFeedback.feedback?.comments.filter((comment) => comment.status !== 'addressed'),
+    [reviewFeedback.feedback]
+  );
+
+  const handleSendReviewFeedback = useCallback(async (commentIds: string[]) => {
+    if (!session || !aiPanel) return;
+    const res = await API.review.send(session.id, aiPanel.id, commentIds);
+    if (!res.success) throw new Error(res.error || 'Failed to send review feedback');
+  }, [session, aiPanel]);
+
+  const diffComments = useDiffComments(session?.id);
+
+  const handleSendDiffComments = useCallback(async () => {
+    if (!session || !aiPanel) return;
+    try {
+      const res = await API.diffComments.send(session.id, aiPanel.id);
+      if (!res.success) {
+        showError({ title: 'Failed to send review', error: res.error || 'Unknown error' });
+        return;
+      }
+      handleCloseDiff();
+    } catch (error) {
+      showError({ title: 'Failed to send review', error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }, [session, aiPanel, showError, handleCloseDiff]);
+
+  // Direct mode: run a workspace action through git (no agent) and surface failures.
+  const runDirectAction = useCallback(async <T,>(
+    title: string,
+    action: () => Promise<{ success: boolean; error?: string; data?: T }>,
+    options?: { reportConflicts?: boolean }
+  ) => {
+    if (directActionRunningRef.current) return null;
+    directActionRunningRef.current = true;
+    try {
+      const res = await action();
+      const isConflict = Boolean((res.data as { conflict?: boolean } | undefined)?.conflict);
+      if (!res.success && (options?.reportConflicts !== false || !isConflict)) {
+        showError({ title, error: res.error || 'Unknown error' });
+      }
+      return res;
+    } catch (error) {
+      showError({ title, error: error instanceof Error ? error.message : 'Unknown error' });
+      return null;
+    } finally {
+      directActionRunningRef.current = false;
+    }
+  }, [showError]);
+
   // Commit staged changes - AI executes git commit directly
   const handleOpenCommitReview = useCallback(async () => {
     if (!session || isProcessing) return;
 
+    if (workspaceActions.mode === 'direct') {
+      await runDirectAction('Commit Failed', () =>
+        API.sessions.directCommit(session.id, { messageTemplate: workspaceActions.commitMessageTemplate })
+      );
+      return;
+    }
+
     const toolForSession = selectedTool;
-    const commitPrompt = [
-      'Create a git commit from what is currently STAGED (index) in this session.',
-      '',
-      'Do (show the exact commands you run):',
-      '- git status',
-      '- git diff --cached --stat',
-      '- git commit -m "<message>"',
-      '',
-      'Guidelines:',
-      '- Use a clear, short commit message',
-      '- Do NOT mention the CLI/AI tool or add any generated-by/co-author signatures',
-      '- Do NOT stage additional files; only commit what is already staged',
-      '- Use `git diff --cached --stat` as the authoritative check for staged content; if empty, nothing is staged',
-      '- If nothing is staged: stop and ask me to stage hunks/files first',
-      '- If a command fails: paste the exact error and ask me what to do next',
-    ].join('\n');
+    const commitPrompt = await buildWorkflowPrompt('commit', session, branchName);
 
     handleCloseDiff();
     setInputFocusRequestId((prev) => prev + 1);
@@ -220,67 +316,22 @@ export const MainLayout: React.FC = React.memo(() => {
     });
 
     await sendMessageToTool(toolForSession, commitPrompt, { skipCheckpointAutoCommit: true });
-  }, [session, isProcessing, selectedTool, handleCloseDiff, sendMessageToTool]);
+  }, [session, isProcessing, selectedTool, handleCloseDiff, sendMessageToTool, branchName, workspaceActions, runDirectAction]);
 
   // Push and create/update PR - AI executes git push and gh pr directly
   const handleRequestPushPR = useCallback(async () => {
     if (!session || isProcessing) return;
-    if (session.toolType !== 'codex' && session.toolType !== 'claude' && session.toolType !== 'gemini' && session.toolType !== 'kimi') return;
+    if (!isAgentToolType(session.toolType)) return;
+
+    if (workspaceActions.mode === 'direct') {
+      await runDirectAction('Push Failed', () => API.sessions.directPush(session.id));
+      return;
+    }
 
     handleCloseDiff();
     setInputFocusRequestId((prev) => prev + 1);
 
-    const headBranch = branchName || 'main';
-    const baseBranch = session.baseBranch || 'main';
-
-    // Build repo context from session cache
-    const ownerRepo = session.ownerRepo || 'UNKNOWN';
-    const isFork = session.isFork || false;
-    const originOwnerRepo = session.originOwnerRepo;
-    const originOwner = originOwnerRepo ? originOwnerRepo.split('/')[0] : null;
-
-    // Compute pr_ref and pr_head based on fork workflow
-    const prRef = isFork && originOwner ? `${originOwner}:${headBranch}` : headBranch;
-    const prHead = isFork && originOwner ? `${originOwner}:${headBranch}` : headBranch;
-
-    const pushPrompt = [
-      'Push the current branch and update/create a GitHub PR based on committed changes (using `gh`).',
-      '',
-      `Base branch: ${baseBranch}`,
-      `Current branch: ${headBranch}`,
-      `Repository: ${ownerRepo}`,
-      `Fork workflow: ${isFork ? 'yes' : 'no'}`,
-      ...(isFork ? [`Origin repository: ${originOwnerRepo}`] : []),
-      '',
-      'Do (show the exact commands you run):',
-      '1. Check status:',
-      '   - git status',
-      '   - git log -1 --oneline',
-      '',
-      '2. Check for PR template:',
-      '   - Only look for: .github/PULL_REQUEST_TEMPLATE.md',
-      '   - If found, read it with: cat .github/PULL_REQUEST_TEMPLATE.md',
-      '   - Use the template structure for PR body',
-      '',
-      '3. Push branch:',
-      '   - git push origin <branch>',
-      '   - If push fails, show the exact error and ask me what to do next',
-      '',
-      '4. Create or update PR:',
-      `   - Check existing: gh pr view --repo ${ownerRepo} ${prRef} --json number,url,state`,
-      `   - If no PR exists: gh pr create --repo ${ownerRepo} --draft --base ${baseBranch} --head ${prHead} --title "<title>" --body "<body>"`,
-      `   - If PR exists: gh pr edit --repo ${ownerRepo} ${prRef} --title "<title>" --body "<body>" (only if needed)`,
-      '',
-      'Guidelines:',
-      '- ALWAYS use --draft flag when creating new PRs',
-      '- Avoid commands that persist git config (e.g. `git push -u`, `git branch --set-upstream-to`, `git config ...`); in worktrees these may write outside the worktree directory and fail under restricted sandboxes',
-      '- If you need SSH options for a single push, use `GIT_SSH_COMMAND=\"ssh -p 22\" git push origin <branch>` or `git -c core.sshCommand=\"ssh -p 22\" push origin <branch>` (do not persist config)',
-      '- Do NOT mention the CLI/AI tool or add any generated-by/co-author signatures',
-      '- If there are staged/unstaged changes: stop and tell me to commit first',
-      '- If PR template exists: follow its structure exactly',
-      '- If no template: write a clear summary with: What changed, Why, Testing notes',
-      '- If a command fails: paste the exact error and ask me what to do next',
-    ].join('\n');
+    const pushPrompt = await buildWorkflowPrompt('push', session, branchName);
 
     setPendingMessage({
       content: pushPrompt,
@@ -288,54 +339,36 @@ export const MainLayout: React.FC = React.memo(() => {
     });
 
     await sendMessageToTool(selectedTool, pushPrompt, { skipCheckpointAutoCommit: true });
-  }, [session, isProcessing, selectedTool, handleCloseDiff, sendMessageToTool, branchName]);
+  }, [session, isProcessing, selectedTool, handleCloseDiff, sendMessageToTool, branchName, workspaceActions, runDirectAction]);
 
   // Update branch - AI executes git rebase on main
   const handleUpdateBranch = useCallback(async () => {
     if (!session || isProcessing) return;
-    if (session.toolType !== 'codex' && session.toolType !== 'claude' && session.toolType !== 'gemini' && session.toolType !== 'kimi') return;
+    if (!isAgentToolType(session.toolType)) return;
+
+    // Direct mode: only fall back to the agent when the rebase/merge hit conflicts.
+    let conflictNote: string | null = null;
+    if (workspaceActions.mode === 'direct') {
+      const res = await runDirectAction('Update Failed', () =>
+        API.sessions.directUpdate(session.id, { strategy: workspaceActions.updateStrategy }),
+        { reportConflicts: false }
+      );
+      if (!res || res.success || !res.data?.conflict) return;
+      conflictNote = [
+        `A direct \`git ${workspaceActions.updateStrategy}\` stopped on conflicts and was aborted, so the branch is unchanged.`,
+        `Conflicted files: ${res.data.conflictedFiles.join(', ')}`,
+        workspaceActions.updateStrategy === 'merge'
+          ? 'Redo the update with `git merge` (instead of rebase) and resolve the conflicts.'
+          : 'Redo the update and resolve the conflicts.',
+        '',
+      ].join('\n');
+    }
 
     handleCloseDiff();
     setInputFocusRequestId((prev) => prev + 1);
 
-    const baseBranch = session.baseBranch || 'main';
-
-    // Determine remote from session cache
-    const isFork = session.isFork || false;
-    const remoteName = isFork ? 'upstream' : 'origin';
-
-    const updatePrompt = [
-      `Update the current branch with the latest changes from the upstream base branch.`,
-      '',
-      `Base branch: ${baseBranch}`,
-      `Remote: ${remoteName}`,
-      `Fork workflow: ${isFork ? 'yes' : 'no'}`,
-      '',
-      'Do (show the exact commands you run):',
-      '1. Check current state:',
-      '   - git status  # Ensure working tree is clean',
-      '',
-      '2. Fetch and rebase:',
-      `   - git fetch ${remoteName} ${baseBranch}`,
-      `   - git rebase ${remoteName}/${baseBranch}`,
-      '',
-      '3. If conflicts occur:',
-      '   - List conflicted files: git status',
-      '   - For each conflicted file:',
-      '     a. Read the file content to see conflict markers (<<<<<<< ======= >>>>>>>)',
-      '     b. Analyze both sides (HEAD vs incoming)',
-      '     c. Resolve by keeping the best code or merging both',
-      '     d. git add <file>  # Stage the resolved file',
-      '   - git rebase --continue',
-      '   - Repeat until all conflicts are resolved',
-      '',
-      'Guidelines:',
-      '- If working tree is dirty: stop and tell me to commit/stash changes first',
-      '- If rebase succeeds: report success',
-      '- If conflicts occur: analyze and resolve them intelligently',
-      '- Preserve functionality from both sides when possible',
-      '- If a command fails: paste the exact error and ask me what to do next',
-    ].join('\n');
+    const basePrompt = await buildWorkflowPrompt('update', session, branchName);
+    const updatePrompt = conflictNote ? `${conflictNote}\n${basePrompt}` : basePrompt;
 
     setPendingMessage({
       content: updatePrompt,
@@ -343,53 +376,17 @@ export const MainLayout: React.FC = React.memo(() => {
     });
 
     await sendMessageToTool(selectedTool, updatePrompt, { skipCheckpointAutoCommit: true });
-  }, [session, isProcessing, selectedTool, handleCloseDiff, sendMessageToTool]);
+  }, [session, isProcessing, selectedTool, handleCloseDiff, sendMessageToTool, branchName, workspaceActions, runDirectAction]);
 
   // Sync PR changes - AI fetches and rebases remote PR updates
   const handleSyncPR = useCallback(async () => {
     if (!session || isProcessing) return;
-    if (session.toolType !== 'codex' && session.toolType !== 'claude' && session.toolType !== 'gemini' && session.toolType !== 'kimi') return;
+    if (!isAgentToolType(session.toolType)) return;
 
     handleCloseDiff();
     setInputFocusRequestId((prev) => prev + 1);
 
-    const headBranch = branchName || 'HEAD';
-
-    const syncPrompt = [
-      `Sync local branch with the latest changes from the remote PR branch (origin/${headBranch}).`,
-      '',
-      `Current branch: ${headBranch}`,
-      '',
-      'Do (show the exact commands you run):',
-      '1. Check current state:',
-      '   - git status  # Ensure working tree is clean',
-      '',
-      '2. Fetch and check divergence:',
-      `   - git fetch origin ${headBranch}`,
-      `   - git log --oneline HEAD..origin/${headBranch}  # Remote commits to pull`,
-      `   - git log --oneline origin/${headBranch}..HEAD  # Local commits not pushed`,
-      '',
-      '3. Pull with rebase:',
-      `   - git pull --rebase origin ${headBranch}`,
-      '',
-      '4. If conflicts occur:',
-      '   - git status  # List conflicted files',
-      '   - For each conflicted file:',
-      '     a. Read the file content to see conflict markers (<<<<<<< ======= >>>>>>>)',
-      '     b. Analyze both sides (local vs remote)',
-      '     c. Resolve by keeping the best code or merging both',
-      '     d. git add <file>  # Stage the resolved file',
-      '   - git rebase --continue',
-      '   - Repeat until all conflicts are resolved',
-      '',
-      'Guidelines:',
-      '- If working tree is dirty: stop and tell me to commit/stash changes first',
-      '- If pull succeeds: report success',
-      '- If local has unpushed commits and remote has new commits: warn about divergence',
-      '- If conflicts occur: analyze and resolve them intelligently',
-      '- Preserve functionality from both sides when possible',
-      '- If a command fails: paste the exact error and ask me what to do next',
-    ].join('\n');
+    const syncPrompt = await buildWorkflowPrompt('sync', session, branchName);
 
     setPendingMessage({
       content: syncPrompt,
@@ -477,7 +474,8 @@ export const MainLayout: React.FC = React.memo(() => {
     );
   }
 
-  const isCliAgent = displaySession.toolType === 'claude' || displaySession.toolType === 'codex' || displaySession.toolType === 'gemini' || displaySession.toolType === 'kimi';
+  const isCliAgent = isAgentToolType(displaySession.toolType);
+  const isImported = Boolean(displaySession.importedAt);
 
   return (
     <div className="flex-1 flex h-full overflow-hidden st-bg" data-testid="main-layout">
@@ -486,6 +484,8 @@ export const MainLayout: React.FC = React.memo(() => {
           session={displaySession}
           branchName={branchName}
           remoteName={remoteName}
+          onCompareFanOut={fanOutFolderId ? () => setShowFanOutCompare(true) : undefined}
+          onExport={handleExportSession}
         />
 
         {session ? (
@@ -501,16 +501,37 @@ export const MainLayout: React.FC = React.memo(() => {
               />
             </div>
 
-            <InputBar
-              session={session}
-              panelId={aiPanel?.id || null}
-              selectedTool={selectedTool}
-              onSend={handleSendMessage}
-              onCancel={cancelRequest}
-              isProcessing={isProcessing}
-              focusRequestId={inputFocusRequestId}
-              initialExecutionMode={executionMode}
-            />
+            {isImported ? (
+              <div
+                className="px-4 py-3 border-t st-hairline text-[12px]"
+                style={{ color: 'var(--st-text-faint)' }}
+                data-testid="imported-session-notice"
+              >
+                Imported session — read-only. Export it again to share, or start a new session to continue the work.
+              </div>
+            ) : (
+              <>
+                <PromptQueue
+                  items={promptQueue.items}
+                  isRunning={session.status === 'running' || session.status === 'initializing'}
+                  onRemove={promptQueue.remove}
+                  onMove={promptQueue.move}
+                  onRunNext={promptQueue.runNext}
+                />
+
+                <InputBar
+                  session={session}
+                  panelId={aiPanel?.id || null}
+                  selectedTool={selectedTool}
+                  onSend={handleSendMessage}
+                  onCancel={cancelRequest}
+                  onQueue={aiPanel ? handleQueueMessage : undefined}
+                  isProcessing={isProcessing}
+                  focusRequestId={inputFocusRequestId}
+                  initialExecutionMode={executionMode}
+                />
+              </>
+            )}
 
             {terminalPanel && (
               <TerminalDock
@@ -538,7 +559,21 @@ export const MainLayout: React.FC = React.memo(() => {
           target={selectedDiffTarget}
           files={diffFiles}
           onClose={handleCloseDiff}
+          reviewComments={openReviewComments}
+          diffComments={isImported ? undefined : diffComments}
+          onSendDiffComments={isCliAgent && aiPanel ? handleSendDiffComments : undefined}
+          isSendDiffCommentsDisabled={isProcessing}
         />
+
+        {fanOutFolderId && (
+          <FanOutCompareDialog
+            isOpen={showFanOutCompare}
+            folderId={fanOutFolderId}
+            activeSessionId={activeSessionId}
+            onClose={() => setShowFanOutCompare(false)}
+            onPromoted={handleFanOutPromoted}
+          />
+        )}
       </div>
 
       <div
@@ -568,21 +603,28 @@ export const MainLayout: React.FC = React.memo(() => {
         style={{ width: rightPanelWidth }}
         data-testid="right-panel"
       >
-        <RightPanel
-          key={displaySession.id}
-          session={displaySession}
-          todos={activeTodos}
-          onFileClick={handleFileClick}
-          onCommitUncommittedChanges={isCliAgent ? handleOpenCommitReview : undefined}
-          isCommitDisabled={isProcessing}
-          onCommitClick={handleCommitClick}
-          onPushPR={isCliAgent ? handleRequestPushPR : undefined}
-          isPushPRDisabled={isProcessing}
-          onUpdateBranch={isCliAgent ? handleUpdateBranch : undefined}
-          isUpdateBranchDisabled={isProcessing}
-          onSyncPR={isCliAgent ? handleSyncPR : undefined}
-          isSyncPRDisabled={isProcessing}
-        />
+        {isImported ? (
+          <ImportedSessionPanel key={displaySession.id} sessionId={displaySession.id} />
+        ) : (
+          <RightPanel
+            key={displaySession.id}
+            session={displaySession}
+            todos={activeTodos}
+            onFileClick={handleFileClick}
+            onCommitUncommittedChanges={isCliAgent ? handleOpenCommitReview : undefined}
+            isCommitDisabled={isProcessing}
+            onCommitClick={handleCommitClick}
+            onPushPR={isCliAgent ? handleRequestPushPR : undefined}
+            isPushPRDisabled={isProcessing}
+            onUpdateBranch={isCliAgent ? handleUpdateBranch : undefined}
+            isUpdateBranchDisabled={isProcessing}
+            onSyncPR={isCliAgent ? handleSyncPR : undefined}
+            isSyncPRDisabled={isProcessing}
+            reviewFeedback={reviewFeedback}
+            onSendReviewFeedback={isCliAgent && aiPanel ? handleSendReviewFeedback : undefined}
+            isSendReviewFeedbackDisabled={isProcessing}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import React from 'react';
+import { PromptQueue } from './PromptQueue';
+import type { QueuedPromptDTO } from '../../types/electron';
+
+const item = (id: number, prompt: string, planMode = false): QueuedPromptDTO => ({
+  id,
+  session_id: 's1',
+  panel_id: 'p1',
+  prompt,
+  plan_mode: planMode,
+  order_index: id,
+  created_at: '2026-01-01T00:00:00Z',
+});
+
+describe('PromptQueue', () => {
+  const handlers = () => ({ onRemove: vi.fn(), onMove: vi.fn(), onRunNext: vi.fn() });
+
+  it('renders nothing when the queue is empty', () => {
+    const { container } = render(<PromptQueue items={[]} isRunning={false} {...handlers()} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('lists queued prompts in order with reorder and remove controls', () => {
+    const h = handlers();
+    render(<PromptQueue items={[item(1, 'now add tests'), item(2, 'now update docs', true)]} isRunning {...h} />);
+
+    const rows = screen.getAllByTestId('prompt-queue-item');
+    expect(rows.map((row) => row.textContent)).toEqual(['1now add tests', '2plannow update docs']);
+    expect(screen.getByText(/next when idle/)).toBeInTheDocument();
+    expect(screen.queryByText('run next')).not.toBeInTheDocument();
+
+    const moveUp = screen.getAllByLabelText('Move up');
+    const moveDown = screen.getAllByLabelText('Move down');
+    expect(moveUp[0]).toBeDisabled();
+    expect(moveDown[1]).toBeDisabled();
+
+    fireEvent.click(moveUp[1]);
+    expect(h.onMove).toHaveBeenCalledWith(2, -1);
+
+    fireEvent.click(screen.getAllByLabelText('Remove queued prompt')[0]);
+    expect(h.onRemove).toHaveBeenCalledWith(1);
+  });
+
+  it('offers to run the next prompt when the session is idle', () => {
+    const h = handlers();
+    render(<PromptQueue items={[item(1, 'now add tests')]} isRunning={false} {...h} />);
+
+    fireEvent.click(screen.getByText('run next'));
+    expect(h.onRunNext).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,92 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, Play, X } from 'lucide-react';
+import type { QueuedPromptDTO } from '../../types/electron';
+
+export interface PromptQueueProps {
+  items: QueuedPromptDTO[];
+  isRunning: boolean;
+  onRemove: (id: number) => void;
+  onMove: (id: number, offset: -1 | 1) => void;
+  onRunNext: () => void;
+}
+
+export const PromptQueue: React.FC<PromptQueueProps> = React.memo(({
+  items,
+  isRunning,
+  onRemove,
+  onMove,
+  onRunNext,
+}) => {
+  if (items.length === 0) return null;
+
+  return (
+    <div
+      className="mx-4 mb-1 px-3 py-2 rounded border text-[12px] st-font-mono"
+      style={{ backgroundColor: 'var(--st-editor)', borderColor: 'var(--st-border-variant)' }}
+      data-testid="prompt-queue"
+    >
+      <div className="flex items-center justify-between mb-1">
+        <span className="st-text-faint">
+          {isRunning ? 'next when idle' : 'queued'} · {items.length}
+        </span>
+        {!isRunning && (
+          <button
+            type="button"
+            onClick={onRunNext}
+            className="flex items-center gap-1 px-1.5 py-0.5 rounded st-hoverable st-focus-ring"
+            style={{ color: 'var(--st-accent)' }}
+            title="Send the next queued prompt now"
+          >
+            <Play className="w-3 h-3" />
+            run next
+          </button>
+        )}
+      </div>
+      <ol className="space-y-0.5">
+        {items.map((item, index) => (
+          <li key={item.id} className="group flex items-center gap-2 min-w-0" data-testid="prompt-queue-item">
+            <span className="st-text-faint w-4 text-right flex-shrink-0">{index + 1}</span>
+            {item.plan_mode && (
+              <span className="flex-shrink-0" style={{ color: 'var(--st-accent)' }}>plan</span>
+            )}
+            <span className="flex-1 truncate" style={{ color: 'var(--st-text)' }} title={item.prompt}>
+              {item.prompt}
+            </span>
+            <div className="flex items-center gap-0.5 flex-shrink-0 opacity-0 group-hover:opacity-100 focus-within:opacity-100">
+              <button
+                type="button"
+                onClick={() => onMove(item.id, -1)}
+                disabled={index === 0}
+                className="p-0.5 rounded st-hoverable st-focus-ring disabled:opacity-30"
+                aria-label="Move up"
+              >
+                <ArrowUp className="w-3 h-3 st-text-faint" />
+              </button>
+              <button
+                type="button"
+                onClick={() => onMove(item.id, 1)}
+                disabled={index === items.length - 1}
+                className="p-0.5 rounded st-hoverable st-focus-ring disabled:opacity-30"
+                aria-label="Move down"
+              >
+                <ArrowDown className="w-3 h-3 st-text-faint" />
+              </button>
+              <button
+                type="button"
+                onClick={() => onRemove(item.id)}
+                className="p-0.5 rounded st-hoverable st-focus-ring"
+                aria-label="Remove queued prompt"
+              >
+                <X className="w-3 h-3 st-text-faint" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+});
+
+PromptQueue.displayName = 'PromptQueue';
+
+export default PromptQueue;
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ReviewFeedback } from './ReviewFeedback';
+import type { ReviewCommentDTO, ReviewFeedbackDTO } from '../../../types/electron';
+import type { ReviewFeedbackState } from '../../../hooks/useReviewFeedback';
+
+const comment = (overrides: Partial<ReviewCommentDTO>): ReviewCommentDTO => ({
+  id: 't1',
+  path: 'src/app.ts',
+  line: 12,
+  author: 'alice',
+  body: 'Handle the error here',
+  url: null,
+  createdAt: null,
+  replies: [],
+  status: 'open',
+  ...overrides,
+});
+
+const review = (feedback: Partial<ReviewFeedbackDTO> | null): ReviewFeedbackState => ({
+  feedback: feedback && {
+    sessionId: 'session-1',
+    pullRequest: { number: 7, url: 'https://github.com/o/r/pull/7' },
+    comments: [],
+    fetchedAt: new Date().toISOString(),
+    error: null,
+    ...feedback,
+  },
+  isRefreshing: false,
+  refresh: vi.fn(async () => {}),
+  setStatus: vi.fn(async () => {}),
+});
+
+describe('ReviewFeedback', () => {
+  it('renders nothing when the branch has no pull request', () => {
+    const { container } = render(<ReviewFeedback review={review({ pullRequest: null })} onOpenFile={vi.fn()} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('sends the selected open comments and clears the selection', async () => {
+    const onSend = vi.fn(async () => {});
+    render(
+      <ReviewFeedback
+        review={review({ comments: [comment({}), comment({ id: 't2', line: null, path: 'README.md' }), comment({ id: 't3', status: 'sent' })] })}
+        onSend={onSend}
+        onOpenFile={vi.fn()}
+      />
+    );
+
+    expect(screen.getByTestId('review-feedback-count')).toHaveTextContent('2');
+    expect(screen.getAllByRole('checkbox')[2]).toBeDisabled();
+
+    fireEvent.click(screen.getByLabelText('Select comment on README.md'));
+    fireEvent.click(screen.getByTestId('review-feedback-send'));
+
+    await waitFor(() => expect(onSend).toHaveBeenCalledWith(['t2']));
+    await waitFor(() => expect(screen.getByTestId('review-feedback-send')).toHaveTextContent('Select comments to send'));
+  });
+
+  it('shows send failures and opens the commented file', async () => {
+    const onOpenFile = vi.fn();
+    render(
+      <ReviewFeedback
+        review={review({ comments: [comment({})] })}
+        onSend={vi.fn(async () => { throw new Error('Wait for the agent to finish'); })}
+        onOpenFile={onOpenFile}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('checkbox'));
+    fireEvent.click(screen.getByTestId('review-feedback-send'));
+    expect(await screen.findByText('Wait for the agent to finish')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('src/app.ts:12'));
+    expect(onOpenFile).toHaveBeenCalledWith('src/app.ts');
+  });
+
+  it('marks comments addressed and reopens them', () => {
+    const state = review({ comments: [comment({}), comment({ id: 't2', status: 'addressed' })] });
+    render(<ReviewFeedback review={state} onOpenFile={vi.fn()} />);
+
+    fireEvent.click(screen.getByTitle('Mark addressed'));
+    expect(state.setStatus).toHaveBeenCalledWith(['t1'], 'addressed');
+    fireEvent.click(screen.getByTitle('Reopen'));
+    expect(state.setStatus).toHaveBeenCalledWith(['t2'], 'open');
+  });
+});
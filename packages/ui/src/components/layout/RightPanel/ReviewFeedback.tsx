@@ -0,0 +1,223 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Check, ChevronDown, RefreshCw, RotateCcw, Send } from 'lucide-react';
+import type { ReviewCommentDTO } from '../../../types/electron';
+import type { ReviewFeedbackState } from '../../../hooks/useReviewFeedback';
+
+interface ReviewFeedbackProps {
+  review: ReviewFeedbackState;
+  /** Send the selected comments to the agent as one prompt */
+  onSend?: (commentIds: string[]) => Promise<void>;
+  isSendDisabled?: boolean;
+  onOpenFile: (filePath: string) => void;
+}
+
+const colors = {
+  bg: {
+    secondary: 'var(--st-surface)',
+    hover: 'var(--st-hover)',
+  },
+  text: {
+    secondary: 'var(--st-text-muted)',
+    muted: 'var(--st-text-faint)',
+    primary: 'var(--st-text)',
+  },
+  border: 'var(--st-border-variant)',
+  accent: 'var(--st-accent)',
+  success: 'var(--st-success)',
+  warning: 'var(--st-warning)',
+};
+
+const STATUS_LABELS: Record<ReviewCommentDTO['status'], { text: string; color: string } | null> = {
+  open: null,
+  sent: { text: 'sent', color: colors.warning },
+  addressed: { text: 'addressed', color: colors.success },
+};
+
+export function ReviewFeedback({ review, onSend, isSendDisabled, onOpenFile }: ReviewFeedbackProps) {
+  const { feedback, isRefreshing, refresh, setStatus } = review;
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const comments = useMemo(() => feedback?.comments ?? [], [feedback]);
+  const openCount = comments.filter((comment) => comment.status === 'open').length;
+
+  // Only open comments can be selected; drop the rest after sends and refreshes.
+  useEffect(() => {
+    setSelected((prev) => {
+      const open = new Set(comments.filter((c) => c.status === 'open').map((c) => c.id));
+      const next = new Set([...prev].filter((id) => open.has(id)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [comments]);
+
+  if (!feedback || (!feedback.pullRequest && !feedback.error)) return null;
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const perform = async (action: () => Promise<void>, fallback: string) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!onSend || selected.size === 0) return;
+    setIsSending(true);
+    await perform(async () => {
+      await onSend(Array.from(selected));
+      setSelected(new Set());
+    }, 'Failed to send review feedback');
+    setIsSending(false);
+  };
+
+  const shownError = error || feedback.error;
+
+  return (
+    <div className="flex-shrink-0" style={{ borderTop: `1px solid ${colors.border}` }} data-testid="review-feedback">
+      <div className="flex items-center justify-between px-3 py-2" style={{ backgroundColor: colors.bg.secondary }}>
+        <button
+          type="button"
+          onClick={() => setIsCollapsed(!isCollapsed)}
+          className="flex items-center gap-1.5 text-xs font-medium transition-all duration-75 px-1.5 py-0.5 -ml-1.5 rounded st-hoverable st-focus-ring"
+          style={{ color: colors.text.secondary }}
+        >
+          <ChevronDown
+            className={`w-3 h-3 transition-transform ${isCollapsed ? '-rotate-90' : ''}`}
+            style={{ color: colors.text.muted }}
+          />
+          <span>Review feedback</span>
+          {openCount > 0 && (
+            <span
+              className="ml-1 px-1.5 py-0.5 text-[10px] rounded font-mono"
+              style={{ backgroundColor: colors.bg.hover, color: colors.accent }}
+              data-testid="review-feedback-count"
+            >
+              {openCount}
+            </span>
+          )}
+        </button>
+        <div className="flex items-center gap-1">
+          {feedback.pullRequest && (
+            <button
+              type="button"
+              onClick={() => void window.electronAPI?.invoke?.('shell:openExternal', feedback.pullRequest?.url)}
+              className="px-1 text-[11px] font-mono rounded st-hoverable st-focus-ring"
+              style={{ color: colors.text.muted }}
+              title="Open pull request"
+            >
+              #{feedback.pullRequest.number}
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={() => void perform(refresh, 'Failed to fetch review comments')}
+            disabled={isRefreshing}
+            className="p-0.5 rounded st-hoverable st-focus-ring disabled:opacity-40"
+            title="Fetch review comments"
+          >
+            <RefreshCw className={`w-3 h-3 ${isRefreshing ? 'animate-spin' : ''}`} style={{ color: colors.text.secondary }} />
+          </button>
+        </div>
+      </div>
+
+      {!isCollapsed && (
+        <div className="px-3 pb-2 space-y-1.5 text-xs" style={{ backgroundColor: colors.bg.secondary }}>
+          {comments.length === 0 && !feedback.error && (
+            <div className="text-[11px]" style={{ color: colors.text.muted }}>No unresolved review comments.</div>
+          )}
+
+          {comments.map((comment) => {
+            const badge = STATUS_LABELS[comment.status];
+            const location = comment.line ? `${comment.path}:${comment.line}` : comment.path;
+            return (
+              <div key={comment.id} className="flex items-start gap-2" data-testid="review-comment">
+                <input
+                  type="checkbox"
+                  className="mt-0.5 flex-shrink-0"
+                  checked={selected.has(comment.id)}
+                  disabled={comment.status !== 'open'}
+                  onChange={() => toggle(comment.id)}
+                  aria-label={`Select comment on ${location}`}
+                />
+                <div className="flex-1 min-w-0" style={{ opacity: comment.status === 'addressed' ? 0.6 : 1 }}>
+                  <div className="flex items-center gap-1.5">
+                    <button
+                      type="button"
+                      onClick={() => onOpenFile(comment.path)}
+                      className="min-w-0 truncate font-mono text-[11px] text-left rounded st-hoverable st-focus-ring"
+                      style={{ color: colors.text.primary }}
+                      title={location}
+                    >
+                      {location}
+                    </button>
+                    <span className="flex-shrink-0 text-[10px]" style={{ color: colors.text.muted }}>@{comment.author}</span>
+                    {badge && (
+                      <span className="flex-shrink-0 text-[10px] font-mono" style={{ color: badge.color }}>{badge.text}</span>
+                    )}
+                  </div>
+                  <div className="line-clamp-3 whitespace-pre-wrap break-words" style={{ color: colors.text.secondary }} title={comment.body}>
+                    {comment.body}
+                  </div>
+                </div>
+                {comment.status === 'addressed' ? (
+                  <button
+                    type="button"
+                    onClick={() => void perform(() => setStatus([comment.id], 'open'), 'Failed to reopen review comment')}
+                    className="p-0.5 rounded st-hoverable st-focus-ring flex-shrink-0"
+                    title="Reopen"
+                  >
+                    <RotateCcw className="w-3 h-3" style={{ color: colors.text.secondary }} />
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => void perform(() => setStatus([comment.id], 'addressed'), 'Failed to update review comment')}
+                    className="p-0.5 rounded st-hoverable st-focus-ring flex-shrink-0"
+                    title="Mark addressed"
+                  >
+                    <Check className="w-3 h-3" style={{ color: colors.success }} />
+                  </button>
+                )}
+              </div>
+            );
+          })}
+
+          {onSend && openCount > 0 && (
+            <button
+              type="button"
+              onClick={() => void handleSend()}
+              disabled={selected.size === 0 || isSending || isSendDisabled}
+              className="w-full flex items-center justify-center gap-1.5 px-2 py-1 rounded text-[11px] font-medium st-focus-ring disabled:opacity-40"
+              style={{ backgroundColor: 'color-mix(in srgb, var(--st-accent) 16%, transparent)', color: colors.text.primary }}
+              title={isSendDisabled ? 'Wait for the agent to finish' : undefined}
+              data-testid="review-feedback-send"
+            >
+              <Send className="w-3 h-3" />
+              {selected.size > 0 ? `Send ${selected.size} to agent` : 'Select comments to send'}
+            </button>
+          )}
+
+          {shownError && (
+            <div className="text-[11px] p-1.5 rounded" style={{ backgroundColor: 'var(--st-error-bg)', color: 'var(--st-error)' }}>
+              {shownError}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ReviewFeedback;
@@ -155,6 +155,7 @@ describe('RightPanel - Zed-style Changes list', () => {
 
     await waitFor(() => {
       expect(screen.getByTestId('right-panel-sync-remote-pr')).toBeInTheDocument();
+      expect(screen.getByTestId('right-panel-sync-remote-pr')).not.toBeDisabled();
     });
 
     fireEvent.click(screen.getByTestId('right-panel-sync-remote-pr'));
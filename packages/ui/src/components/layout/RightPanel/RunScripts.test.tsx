@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { RunScripts } from './RunScripts';
+import { API } from '../../../utils/api';
+import { usePromptAttachmentStore, withPromptAttachments } from '../../../stores/promptAttachmentStore';
+import type { RunScriptDTO } from '../../../types/electron';
+
+vi.mock('../../../utils/api', () => ({
+  API: {
+    scripts: {
+      list: vi.fn(),
+      start: vi.fn(),
+      stop: vi.fn(),
+      restart: vi.fn(),
+      getLogs: vi.fn(),
+    },
+  },
+}));
+
+const script = (overrides: Partial<RunScriptDTO>): RunScriptDTO => ({
+  id: '1',
+  sessionId: 'session-1',
+  name: 'dev',
+  command: 'pnpm dev --port $SNOWTREE_PORT',
+  status: 'idle',
+  pid: null,
+  port: null,
+  exitCode: null,
+  startedAt: null,
+  endedAt: null,
+  ...overrides,
+});
+
+describe('RunScripts', () => {
+  let onScriptsUpdated: ((data: { sessionId: string; scripts: RunScriptDTO[] }) => void) | undefined;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    onScriptsUpdated = undefined;
+    usePromptAttachmentStore.setState({ attachmentsBySession: {} });
+    (window as any).electronAPI = {
+      events: {
+        onScriptsUpdated: vi.fn((cb) => {
+          onScriptsUpdated = cb;
+          return () => {};
+        }),
+        onScriptOutput: vi.fn(() => () => {}),
+      },
+    };
+    vi.mocked(API.scripts.getLogs).mockResolvedValue({ success: true, data: [] });
+  });
+
+  it('renders nothing when the project has no run commands', async () => {
+    vi.mocked(API.scripts.list).mockResolvedValue({ success: true, data: [] });
+    const { container } = render(<RunScripts sessionId="session-1" />);
+    await waitFor(() => expect(API.scripts.list).toHaveBeenCalledWith('session-1'));
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('lists running scripts with their port and stops or restarts them', async () => {
+    vi.mocked(API.scripts.list).mockResolvedValue({
+      success: true,
+      data: [script({ status: 'running', pid: 42, port: 4101 }), script({ id: '2', name: 'worker' })],
+    });
+    vi.mocked(API.scripts.stop).mockResolvedValue({ success: true });
+    vi.mocked(API.scripts.restart).mockResolvedValue({ success: true, data: script({ status: 'running', port: 4101 }) });
+    render(<RunScripts sessionId="session-1" />);
+
+    expect(await screen.findByText(':4101')).toBeInTheDocument();
+    expect(screen.getByTestId('run-scripts-running')).toHaveTextContent('1 running');
+    expect(screen.getAllByTestId('run-script')).toHaveLength(2);
+    expect(screen.getAllByTitle('Start')).toHaveLength(1);
+
+    fireEvent.click(screen.getByTitle('Stop'));
+    await waitFor(() => expect(API.scripts.stop).toHaveBeenCalledWith('session-1', '1'));
+
+    fireEvent.click(screen.getByTitle('Restart'));
+    await waitFor(() => expect(API.scripts.restart).toHaveBeenCalledWith('session-1', '1'));
+    expect(await screen.findByTestId('run-script-output')).toBeInTheDocument();
+  });
+
+  it('follows updates for its own session and shows start errors', async () => {
+    vi.mocked(API.scripts.list).mockResolvedValue({ success: true, data: [script({})] });
+    vi.mocked(API.scripts.start).mockResolvedValue({ success: false, error: 'No free port between 4100 and 4999' });
+    render(<RunScripts sessionId="session-1" />);
+
+    fireEvent.click(await screen.findByTitle('Start'));
+    expect(await screen.findByText('No free port between 4100 and 4999')).toBeInTheDocument();
+
+    act(() => {
+      onScriptsUpdated?.({ sessionId: 'other', scripts: [] });
+      onScriptsUpdated?.({ sessionId: 'session-1', scripts: [script({ status: 'failed', exitCode: 1 })] });
+    });
+    expect(await screen.findByText('exit 1')).toBeInTheDocument();
+  });
+
+  it('attaches the output of a failed script to the next prompt', async () => {
+    vi.mocked(API.scripts.list).mockResolvedValue({
+      success: true,
+      data: [script({ name: 'test', command: 'pnpm test', status: 'failed', exitCode: 1 })],
+    });
+    vi.mocked(API.scripts.getLogs).mockResolvedValue({
+      success: true,
+      data: [
+        { stream: 'system', text: '$ pnpm test', timestamp: '' },
+        { stream: 'stderr', text: 'FAIL src/a.test.ts', timestamp: '' },
+      ],
+    });
+    render(<RunScripts sessionId="session-1" />);
+
+    fireEvent.click(await screen.findByTitle('Attach output to next prompt'));
+    await waitFor(() => expect(usePromptAttachmentStore.getState().attachmentsBySession['session-1']).toHaveLength(1));
+
+    const [attachment] = usePromptAttachmentStore.getState().attachmentsBySession['session-1'];
+    expect(withPromptAttachments('fix the tests', [attachment])).toBe(
+      'fix the tests\n\nOutput of `pnpm test` (exit 1):\n```\nFAIL src/a.test.ts\n```'
+    );
+  });
+});
@@ -0,0 +1,270 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ChevronDown, Paperclip, Play, RotateCw, Square } from 'lucide-react';
+import { API } from '../../../utils/api';
+import { usePromptAttachmentStore } from '../../../stores/promptAttachmentStore';
+import type { RunScriptDTO, RunScriptLogLineDTO } from '../../../types/electron';
+
+interface RunScriptsProps {
+  sessionId: string;
+}
+
+const MAX_VISIBLE_LINES = 500;
+const MAX_ATTACHED_LINES = 200;
+
+const colors = {
+  bg: {
+    secondary: 'var(--st-surface)',
+    hover: 'var(--st-hover)',
+    editor: 'var(--st-editor)',
+  },
+  text: {
+    secondary: 'var(--st-text-muted)',
+    muted: 'var(--st-text-faint)',
+    primary: 'var(--st-text)',
+  },
+  border: 'var(--st-border-variant)',
+  accent: 'var(--st-accent)',
+  success: 'var(--st-success)',
+  warning: 'var(--st-warning)',
+  danger: 'var(--st-danger)',
+};
+
+const isActive = (script: RunScriptDTO) => script.status === 'running' || script.status === 'stopping';
+
+const statusColor = (script: RunScriptDTO): string => {
+  if (script.status === 'running') return colors.success;
+  if (script.status === 'stopping') return colors.warning;
+  if (script.status === 'failed') return colors.danger;
+  return colors.text.muted;
+};
+
+const statusLabel = (script: RunScriptDTO): string => {
+  if (script.status === 'running') return script.port ? `:${script.port}` : 'running';
+  if (script.status === 'stopping') return 'stopping';
+  if (script.status === 'failed') return script.exitCode !== null ? `exit ${script.exitCode}` : 'failed';
+  if (script.status === 'exited') return 'stopped';
+  return '';
+};
+
+export function RunScripts({ sessionId }: RunScriptsProps) {
+  const [scripts, setScripts] = useState<RunScriptDTO[]>([]);
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [openScriptId, setOpenScriptId] = useState<string | null>(null);
+  const [logs, setLogs] = useState<RunScriptLogLineDTO[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const logRef = useRef<HTMLPreElement>(null);
+  const addAttachment = usePromptAttachmentStore((state) => state.addAttachment);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await API.scripts.list(sessionId);
+      if (res.success && res.data) setScripts(res.data);
+    } catch {
+      // Keep the last list.
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    setScripts([]);
+    setOpenScriptId(null);
+    setError(null);
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    const unsubscribe = window.electronAPI?.events?.onScriptsUpdated?.((data) => {
+      if (data.sessionId === sessionId) setScripts(data.scripts);
+    });
+    return () => unsubscribe?.();
+  }, [sessionId]);
+
+  useEffect(() => {
+    setLogs([]);
+    if (!openScriptId) return;
+    let cancelled = false;
+    API.scripts.getLogs(sessionId, openScriptId)
+      .then((res) => {
+        if (!cancelled && res.success && res.data) setLogs(res.data.slice(-MAX_VISIBLE_LINES));
+      })
+      .catch(() => {
+        // Output arrives through events as well.
+      });
+    const unsubscribe = window.electronAPI?.events?.onScriptOutput?.((data) => {
+      if (data.sessionId !== sessionId || data.scriptId !== openScriptId) return;
+      setLogs((prev) => [...prev, ...data.lines].slice(-MAX_VISIBLE_LINES));
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [sessionId, openScriptId]);
+
+  useEffect(() => {
+    const el = logRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [logs]);
+
+  if (scripts.length === 0) return null;
+
+  const run = async (action: 'start' | 'stop' | 'restart', script: RunScriptDTO) => {
+    setError(null);
+    try {
+      const res = await API.scripts[action](sessionId, script.id);
+      if (!res.success) {
+        setError(res.error || `Failed to ${action} ${script.name}`);
+        return;
+      }
+      if (action !== 'stop') setOpenScriptId(script.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} ${script.name}`);
+    }
+  };
+
+  const attachOutput = async (script: RunScriptDTO) => {
+    setError(null);
+    try {
+      const res = await API.scripts.getLogs(sessionId, script.id);
+      if (!res.success || !res.data) {
+        setError(res.error || 'Failed to load script output');
+        return;
+      }
+      const output = res.data
+        .filter((line) => line.stream !== 'system')
+        .slice(-MAX_ATTACHED_LINES)
+        .map((line) => line.text)
+        .join('\n');
+      addAttachment(sessionId, {
+        id: `script:${script.id}`,
+        label: `Output of \`${script.command}\`${script.exitCode !== null ? ` (exit ${script.exitCode})` : ''}`,
+        content: output || '(no output)',
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load script output');
+    }
+  };
+
+  const runningCount = scripts.filter(isActive).length;
+
+  return (
+    <div className="flex-shrink-0" style={{ borderTop: `1px solid ${colors.border}` }} data-testid="run-scripts">
+      <div className="flex items-center justify-between px-3 py-2" style={{ backgroundColor: colors.bg.secondary }}>
+        <button
+          type="button"
+          onClick={() => setIsCollapsed(!isCollapsed)}
+          className="flex items-center gap-1.5 text-xs font-medium transition-all duration-75 px-1.5 py-0.5 -ml-1.5 rounded st-hoverable st-focus-ring"
+          style={{ color: colors.text.secondary }}
+        >
+          <ChevronDown
+            className={`w-3 h-3 transition-transform ${isCollapsed ? '-rotate-90' : ''}`}
+            style={{ color: colors.text.muted }}
+          />
+          <span>Scripts</span>
+          {runningCount > 0 && (
+            <span
+              className="ml-1 px-1.5 py-0.5 text-[10px] rounded font-mono"
+              style={{ backgroundColor: colors.bg.hover, color: colors.success }}
+              data-testid="run-scripts-running"
+            >
+              {runningCount} running
+            </span>
+          )}
+        </button>
+      </div>
+
+      {!isCollapsed && (
+        <div className="px-3 pb-2 space-y-1 text-xs" style={{ backgroundColor: colors.bg.secondary }}>
+          {scripts.map((script) => (
+            <div key={script.id} data-testid="run-script">
+              <div className="flex items-center gap-2">
+                <span className="w-1.5 h-1.5 rounded-full flex-shrink-0" style={{ backgroundColor: statusColor(script) }} />
+                <button
+                  type="button"
+                  onClick={() => setOpenScriptId(openScriptId === script.id ? null : script.id)}
+                  className="flex-1 min-w-0 text-left truncate rounded st-hoverable st-focus-ring"
+                  style={{ color: colors.text.primary }}
+                  title={script.command}
+                >
+                  {script.name}
+                </button>
+                <span className="font-mono text-[11px]" style={{ color: statusColor(script) }}>{statusLabel(script)}</span>
+                {isActive(script) ? (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => void run('restart', script)}
+                      disabled={script.status === 'stopping'}
+                      className="p-0.5 rounded st-hoverable st-focus-ring disabled:opacity-40"
+                      title="Restart"
+                    >
+                      <RotateCw className="w-3 h-3" style={{ color: colors.text.secondary }} />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => void run('stop', script)}
+                      disabled={script.status === 'stopping'}
+                      className="p-0.5 rounded st-hoverable st-focus-ring disabled:opacity-40"
+                      title="Stop"
+                    >
+                      <Square className="w-3 h-3" style={{ color: colors.danger }} />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    {script.status === 'failed' && (
+                      <button
+                        type="button"
+                        onClick={() => void attachOutput(script)}
+                        className="p-0.5 rounded st-hoverable st-focus-ring"
+                        title="Attach output to next prompt"
+                      >
+                        <Paperclip className="w-3 h-3" style={{ color: colors.text.secondary }} />
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => void run('start', script)}
+                      className="p-0.5 rounded st-hoverable st-focus-ring"
+                      title="Start"
+                    >
+                      <Play className="w-3 h-3" style={{ color: colors.accent }} />
+                    </button>
+                  </>
+                )}
+              </div>
+
+              {openScriptId === script.id && (
+                <pre
+                  ref={logRef}
+                  className="mt-1 max-h-48 overflow-auto p-1.5 rounded font-mono text-[10px] whitespace-pre-wrap break-all"
+                  style={{ backgroundColor: colors.bg.editor, color: colors.text.secondary }}
+                  data-testid="run-script-output"
+                >
+                  {logs.length === 0
+                    ? <span style={{ color: colors.text.muted }}>No output yet.</span>
+                    : logs.map((line, index) => (
+                        <div
+                          key={index}
+                          style={{
+                            color: line.stream === 'stderr' ? colors.danger : line.stream === 'system' ? colors.text.muted : undefined,
+                          }}
+                        >
+                          {line.text}
+                        </div>
+                      ))}
+                </pre>
+              )}
+            </div>
+          ))}
+
+          {error && (
+            <div className="text-[11px] p-1.5 rounded" style={{ backgroundColor: 'var(--st-error-bg)', color: 'var(--st-error)' }}>
+              {error}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default RunScripts;
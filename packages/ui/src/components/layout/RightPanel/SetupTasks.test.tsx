@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { SetupTasks } from './SetupTasks';
+import { API } from '../../../utils/api';
+import type { SetupStateDTO, SetupTaskDTO } from '../../../types/electron';
+
+vi.mock('../../../utils/api', () => ({
+  API: {
+    setup: {
+      getState: vi.fn(),
+      run: vi.fn(),
+      retry: vi.fn(),
+      skip: vi.fn(),
+      getLogs: vi.fn(),
+    },
+  },
+}));
+
+const task = (overrides: Partial<SetupTaskDTO>): SetupTaskDTO => ({
+  id: '1',
+  name: 'env files',
+  kind: 'copy',
+  value: '.env*',
+  status: 'pending',
+  exitCode: null,
+  error: null,
+  startedAt: null,
+  endedAt: null,
+  ...overrides,
+});
+
+const state = (overrides: Partial<SetupStateDTO>): SetupStateDTO => ({
+  sessionId: 'session-1',
+  status: 'idle',
+  tasks: [],
+  ...overrides,
+});
+
+describe('SetupTasks', () => {
+  let onSetupUpdated: ((data: SetupStateDTO) => void) | undefined;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    onSetupUpdated = undefined;
+    (window as any).electronAPI = {
+      events: {
+        onSetupUpdated: vi.fn((cb) => {
+          onSetupUpdated = cb;
+          return () => {};
+        }),
+        onSetupOutput: vi.fn(() => () => {}),
+      },
+    };
+    vi.mocked(API.setup.getLogs).mockResolvedValue({ success: true, data: [] });
+  });
+
+  it('renders nothing when the project has no setup steps', async () => {
+    vi.mocked(API.setup.getState).mockResolvedValue({ success: true, data: state({}) });
+    const { container } = render(<SetupTasks sessionId="session-1" />);
+    await waitFor(() => expect(API.setup.getState).toHaveBeenCalledWith('session-1'));
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('shows progress and opens the output of a step that fails', async () => {
+    vi.mocked(API.setup.getState).mockResolvedValue({
+      success: true,
+      data: state({ status: 'running', tasks: [task({ status: 'succeeded' }), task({ id: '2', name: 'install', kind: 'command', status: 'running' })] }),
+    });
+    vi.mocked(API.setup.getLogs).mockResolvedValue({
+      success: true,
+      data: [{ stream: 'stderr', text: 'ERR_PNPM_OUTDATED_LOCKFILE', timestamp: '' }],
+    });
+    render(<SetupTasks sessionId="session-1" />);
+
+    expect(await screen.findByTestId('setup-tasks-status')).toHaveTextContent('1/2');
+    expect(screen.queryByTitle('Retry')).not.toBeInTheDocument();
+
+    act(() => {
+      onSetupUpdated?.(state({ sessionId: 'other', status: 'failed' }));
+      onSetupUpdated?.(state({
+        status: 'failed',
+        tasks: [task({ status: 'succeeded' }), task({ id: '2', name: 'install', kind: 'command', status: 'failed', exitCode: 1, error: 'Exited with code 1' })],
+      }));
+    });
+
+    expect(await screen.findByText('ERR_PNPM_OUTDATED_LOCKFILE')).toBeInTheDocument();
+    expect(API.setup.getLogs).toHaveBeenCalledWith('session-1', '2');
+    expect(screen.getByTestId('setup-tasks-status')).toHaveTextContent('failed');
+    expect(screen.getByText('Exited with code 1')).toBeInTheDocument();
+  });
+
+  it('retries or skips a failed step', async () => {
+    vi.mocked(API.setup.getState).mockResolvedValue({
+      success: true,
+      data: state({ status: 'failed', tasks: [task({ id: '2', name: 'install', kind: 'command', status: 'failed' })] }),
+    });
+    vi.mocked(API.setup.retry).mockResolvedValue({ success: false, error: 'Workspace setup is already running' });
+    vi.mocked(API.setup.skip).mockResolvedValue({ success: true });
+    render(<SetupTasks sessionId="session-1" />);
+
+    fireEvent.click(await screen.findByTitle('Retry'));
+    expect(await screen.findByText('Workspace setup is already running')).toBeInTheDocument();
+    expect(API.setup.retry).toHaveBeenCalledWith('session-1', '2');
+
+    fireEvent.click(screen.getByTitle('Skip'));
+    await waitFor(() => expect(API.setup.skip).toHaveBeenCalledWith('session-1', '2'));
+  });
+});
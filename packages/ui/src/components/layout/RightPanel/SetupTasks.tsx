@@ -0,0 +1,249 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ChevronDown, Play, RotateCw, SkipForward } from 'lucide-react';
+import { API } from '../../../utils/api';
+import type { RunScriptLogLineDTO, SetupStateDTO, SetupTaskDTO } from '../../../types/electron';
+
+interface SetupTasksProps {
+  sessionId: string;
+}
+
+const MAX_VISIBLE_LINES = 500;
+
+const colors = {
+  bg: {
+    secondary: 'var(--st-surface)',
+    hover: 'var(--st-hover)',
+    editor: 'var(--st-editor)',
+  },
+  text: {
+    secondary: 'var(--st-text-muted)',
+    muted: 'var(--st-text-faint)',
+    primary: 'var(--st-text)',
+  },
+  border: 'var(--st-border-variant)',
+  accent: 'var(--st-accent)',
+  success: 'var(--st-success)',
+  warning: 'var(--st-warning)',
+  danger: 'var(--st-danger)',
+};
+
+const KIND_LABELS: Record<SetupTaskDTO['kind'], string> = {
+  copy: 'copy',
+  symlink: 'link',
+  command: 'run',
+};
+
+const taskColor = (task: SetupTaskDTO): string => {
+  if (task.status === 'succeeded') return colors.success;
+  if (task.status === 'running') return colors.warning;
+  if (task.status === 'failed') return colors.danger;
+  return colors.text.muted;
+};
+
+const summary = (state: SetupStateDTO): { text: string; color: string } | null => {
+  const done = state.tasks.filter((task) => task.status === 'succeeded' || task.status === 'skipped').length;
+  if (state.status === 'running') return { text: `${done}/${state.tasks.length}`, color: colors.warning };
+  if (state.status === 'failed') return { text: 'failed', color: colors.danger };
+  if (state.status === 'succeeded') return { text: 'ready', color: colors.success };
+  return null;
+};
+
+export function SetupTasks({ sessionId }: SetupTasksProps) {
+  const [state, setState] = useState<SetupStateDTO | null>(null);
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [openTaskId, setOpenTaskId] = useState<string | null>(null);
+  const [logs, setLogs] = useState<RunScriptLogLineDTO[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const logRef = useRef<HTMLPreElement>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await API.setup.getState(sessionId);
+      if (res.success && res.data) setState(res.data);
+    } catch {
+      // Keep the last state.
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    setState(null);
+    setOpenTaskId(null);
+    setError(null);
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    const unsubscribe = window.electronAPI?.events?.onSetupUpdated?.((data) => {
+      if (data.sessionId !== sessionId) return;
+      setState(data);
+      // Show the output of a step as soon as it fails.
+      const failed = data.tasks.find((task) => task.status === 'failed');
+      if (failed) {
+        setIsCollapsed(false);
+        setOpenTaskId(failed.id);
+      }
+    });
+    return () => unsubscribe?.();
+  }, [sessionId]);
+
+  useEffect(() => {
+    setLogs([]);
+    if (!openTaskId) return;
+    let cancelled = false;
+    API.setup.getLogs(sessionId, openTaskId)
+      .then((res) => {
+        if (!cancelled && res.success && res.data) setLogs(res.data.slice(-MAX_VISIBLE_LINES));
+      })
+      .catch(() => {
+        // Output arrives through events as well.
+      });
+    const unsubscribe = window.electronAPI?.events?.onSetupOutput?.((data) => {
+      if (data.sessionId !== sessionId || data.taskId !== openTaskId) return;
+      setLogs((prev) => [...prev, ...data.lines].slice(-MAX_VISIBLE_LINES));
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [sessionId, openTaskId]);
+
+  useEffect(() => {
+    const el = logRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [logs]);
+
+  if (!state || state.tasks.length === 0) return null;
+
+  const perform = async (action: () => Promise<{ success: boolean; error?: string }>, fallback: string) => {
+    setError(null);
+    try {
+      const res = await action();
+      if (!res.success) setError(res.error || fallback);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    }
+  };
+
+  const badge = summary(state);
+  const isRunning = state.status === 'running';
+
+  return (
+    <div className="flex-shrink-0" style={{ borderTop: `1px solid ${colors.border}` }} data-testid="setup-tasks">
+      <div className="flex items-center justify-between px-3 py-2" style={{ backgroundColor: colors.bg.secondary }}>
+        <button
+          type="button"
+          onClick={() => setIsCollapsed(!isCollapsed)}
+          className="flex items-center gap-1.5 text-xs font-medium transition-all duration-75 px-1.5 py-0.5 -ml-1.5 rounded st-hoverable st-focus-ring"
+          style={{ color: colors.text.secondary }}
+        >
+          <ChevronDown
+            className={`w-3 h-3 transition-transform ${isCollapsed ? '-rotate-90' : ''}`}
+            style={{ color: colors.text.muted }}
+          />
+          <span>Setup</span>
+          {badge && (
+            <span
+              className="ml-1 px-1.5 py-0.5 text-[10px] rounded font-mono"
+              style={{ backgroundColor: colors.bg.hover, color: badge.color }}
+              data-testid="setup-tasks-status"
+            >
+              {badge.text}
+            </span>
+          )}
+        </button>
+        {(state.status === 'idle' || state.status === 'succeeded') && (
+          <button
+            type="button"
+            onClick={() => void perform(() => API.setup.run(sessionId), 'Failed to run setup')}
+            className="p-0.5 rounded st-hoverable st-focus-ring"
+            title={state.status === 'idle' ? 'Run setup' : 'Run setup again'}
+          >
+            <Play className="w-3 h-3" style={{ color: colors.accent }} />
+          </button>
+        )}
+      </div>
+
+      {!isCollapsed && (
+        <div className="px-3 pb-2 space-y-1 text-xs" style={{ backgroundColor: colors.bg.secondary }}>
+          {state.tasks.map((task) => (
+            <div key={task.id} data-testid="setup-task">
+              <div className="flex items-center gap-2">
+                <span
+                  className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${task.status === 'running' ? 'animate-pulse' : ''}`}
+                  style={{ backgroundColor: taskColor(task) }}
+                />
+                <button
+                  type="button"
+                  onClick={() => setOpenTaskId(openTaskId === task.id ? null : task.id)}
+                  className="flex-1 min-w-0 text-left truncate rounded st-hoverable st-focus-ring"
+                  style={{
+                    color: task.status === 'skipped' ? colors.text.muted : colors.text.primary,
+                    textDecoration: task.status === 'skipped' ? 'line-through' : undefined,
+                  }}
+                  title={task.value}
+                >
+                  {task.name}
+                </button>
+                <span className="font-mono text-[11px]" style={{ color: colors.text.muted }}>{KIND_LABELS[task.kind]}</span>
+                {task.status === 'failed' && !isRunning && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => void perform(() => API.setup.retry(sessionId, task.id), 'Failed to retry setup step')}
+                      className="p-0.5 rounded st-hoverable st-focus-ring"
+                      title="Retry"
+                    >
+                      <RotateCw className="w-3 h-3" style={{ color: colors.accent }} />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => void perform(() => API.setup.skip(sessionId, task.id), 'Failed to skip setup step')}
+                      className="p-0.5 rounded st-hoverable st-focus-ring"
+                      title="Skip"
+                    >
+                      <SkipForward className="w-3 h-3" style={{ color: colors.text.secondary }} />
+                    </button>
+                  </>
+                )}
+              </div>
+
+              {task.status === 'failed' && task.error && (
+                <div className="ml-3.5 text-[11px]" style={{ color: colors.danger }}>{task.error}</div>
+              )}
+
+              {openTaskId === task.id && (
+                <pre
+                  ref={logRef}
+                  className="mt-1 max-h-48 overflow-auto p-1.5 rounded font-mono text-[10px] whitespace-pre-wrap break-all"
+                  style={{ backgroundColor: colors.bg.editor, color: colors.text.secondary }}
+                  data-testid="setup-task-output"
+                >
+                  {logs.length === 0
+                    ? <span style={{ color: colors.text.muted }}>No output yet.</span>
+                    : logs.map((line, index) => (
+                        <div
+                          key={index}
+                          style={{
+                            color: line.stream === 'stderr' ? colors.danger : line.stream === 'system' ? colors.text.muted : undefined,
+                          }}
+                        >
+                          {line.text}
+                        </div>
+                      ))}
+                </pre>
+              )}
+            </div>
+          ))}
+
+          {error && (
+            <div className="text-[11px] p-1.5 rounded" style={{ backgroundColor: 'var(--st-error-bg)', color: 'var(--st-error)' }}>
+              {error}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SetupTasks;
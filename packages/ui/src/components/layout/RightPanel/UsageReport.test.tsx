@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { UsageReport } from './UsageReport';
+import { API } from '../../../utils/api';
+import type { UsageReportDTO, UsageTotalsDTO } from '../../../types/electron';
+
+vi.mock('../../../utils/api', () => ({
+  API: {
+    usage: {
+      getReport: vi.fn(),
+      setBudget: vi.fn(),
+    },
+  },
+}));
+
+const totals = (inputTokens: number, outputTokens: number, costUsd = 0): UsageTotalsDTO => ({
+  inputTokens,
+  outputTokens,
+  cacheReadTokens: 0,
+  cacheCreationTokens: 0,
+  costUsd,
+  samples: 1,
+});
+
+const baseReport: UsageReportDTO = {
+  sessionId: 'session-1',
+  projectId: 7,
+  session: totals(12_000, 3_000, 0.42),
+  project: totals(40_000, 9_000, 1.5),
+  panels: [
+    { panelId: 'p1', toolType: 'claude', title: 'Claude', totals: totals(10_000, 2_000, 0.42) },
+    { panelId: 'p2', toolType: 'codex', title: 'Codex', totals: totals(2_000, 1_000) },
+  ],
+  budgets: { session: null, project: null },
+};
+
+describe('UsageReport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (window as any).electronAPI = { events: { onUsageUpdated: vi.fn(() => () => {}) } };
+  });
+
+  it('shows session totals and a per-panel breakdown', async () => {
+    vi.mocked(API.usage.getReport).mockResolvedValue({ success: true, data: baseReport });
+    render(<UsageReport sessionId="session-1" />);
+
+    expect(await screen.findByTestId('usage-summary')).toHaveTextContent('15.0k · $0.42');
+    fireEvent.click(screen.getByText('Usage'));
+    expect(screen.getAllByTestId('usage-panel')).toHaveLength(2);
+    expect(screen.getByText('Project')).toBeInTheDocument();
+  });
+
+  it('expands automatically when a budget is exceeded', async () => {
+    vi.mocked(API.usage.getReport).mockResolvedValue({
+      success: true,
+      data: {
+        ...baseReport,
+        budgets: {
+          session: {
+            scope: 'session',
+            scopeId: 'session-1',
+            tokenLimit: 10_000,
+            costLimitUsd: null,
+            warnRatio: 0.8,
+            tokensUsed: 15_000,
+            costUsd: 0.42,
+            ratio: 1.5,
+            state: 'exceeded',
+          },
+          project: null,
+        },
+      },
+    });
+    render(<UsageReport sessionId="session-1" />);
+
+    expect(await screen.findByTestId('usage-budget-session')).toHaveTextContent('15.0k/10.0k tokens · limit reached');
+  });
+
+  it('saves a session budget from the editor', async () => {
+    vi.mocked(API.usage.getReport).mockResolvedValue({ success: true, data: baseReport });
+    vi.mocked(API.usage.setBudget).mockResolvedValue({ success: true, data: null });
+    render(<UsageReport sessionId="session-1" />);
+
+    fireEvent.click(await screen.findByText('Usage'));
+    fireEvent.click(screen.getAllByText('Set budget')[0]);
+    fireEvent.change(screen.getByLabelText('Token limit'), { target: { value: '50000' } });
+    fireEvent.change(screen.getByLabelText('Warn at (%)'), { target: { value: '90' } });
+    fireEvent.click(screen.getByText('Save'));
+
+    await waitFor(() =>
+      expect(API.usage.setBudget).toHaveBeenCalledWith('session', 'session-1', { tokenLimit: 50000, costLimitUsd: null, warnRatio: 0.9 })
+    );
+    await waitFor(() => expect(screen.queryByTestId('usage-budget-editor')).not.toBeInTheDocument());
+  });
+});
@@ -0,0 +1,299 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ChevronDown, Gauge } from 'lucide-react';
+import { API } from '../../../utils/api';
+import { formatTokenCount } from './utils';
+import type { UsageBudgetStatusDTO, UsageReportDTO, UsageTotalsDTO } from '../../../types/electron';
+
+interface UsageReportProps {
+  sessionId: string;
+}
+
+type BudgetScope = 'session' | 'project';
+
+type BudgetDraft = { tokenLimit: string; costLimitUsd: string; warnPercent: string };
+
+const colors = {
+  bg: {
+    secondary: 'var(--st-surface)',
+    hover: 'var(--st-hover)',
+    editor: 'var(--st-editor)',
+  },
+  text: {
+    secondary: 'var(--st-text-muted)',
+    muted: 'var(--st-text-faint)',
+    primary: 'var(--st-text)',
+  },
+  border: 'var(--st-border-variant)',
+  accent: 'var(--st-accent)',
+  warning: 'var(--st-warning)',
+  danger: 'var(--st-danger)',
+};
+
+const formatCost = (value: number) => `$${value.toFixed(2)}`;
+
+const countedTokens = (totals: UsageTotalsDTO) => totals.inputTokens + totals.outputTokens;
+
+const stateColor = (status: UsageBudgetStatusDTO | null | undefined): string | undefined => {
+  if (status?.state === 'exceeded') return colors.danger;
+  if (status?.state === 'warning') return colors.warning;
+  return undefined;
+};
+
+const draftFrom = (status: UsageBudgetStatusDTO | null): BudgetDraft => ({
+  tokenLimit: status?.tokenLimit ? String(status.tokenLimit) : '',
+  costLimitUsd: status?.costLimitUsd ? String(status.costLimitUsd) : '',
+  warnPercent: String(Math.round((status?.warnRatio ?? 0.8) * 100)),
+});
+
+function Totals({ totals }: { totals: UsageTotalsDTO }) {
+  return (
+    <span className="font-mono text-[11px]" style={{ color: colors.text.secondary }}>
+      {formatTokenCount(totals.inputTokens)} in · {formatTokenCount(totals.outputTokens)} out
+      {totals.cacheReadTokens > 0 && <> · {formatTokenCount(totals.cacheReadTokens)} cached</>}
+      {totals.costUsd > 0 && <> · {formatCost(totals.costUsd)}</>}
+    </span>
+  );
+}
+
+function BudgetBar({ status }: { status: UsageBudgetStatusDTO }) {
+  const percent = Math.min(100, Math.round(status.ratio * 100));
+  const limits = [
+    status.tokenLimit ? `${formatTokenCount(status.tokensUsed)}/${formatTokenCount(status.tokenLimit)} tokens` : null,
+    status.costLimitUsd ? `${formatCost(status.costUsd)}/${formatCost(status.costLimitUsd)}` : null,
+  ].filter(Boolean).join(' · ');
+  return (
+    <div className="mt-1" data-testid={`usage-budget-${status.scope}`} title={`Warns at ${Math.round(status.warnRatio * 100)}%`}>
+      <div className="h-1 rounded overflow-hidden" style={{ backgroundColor: colors.bg.hover }}>
+        <div className="h-full" style={{ width: `${percent}%`, backgroundColor: stateColor(status) ?? colors.accent }} />
+      </div>
+      <div className="mt-0.5 text-[10px] font-mono" style={{ color: stateColor(status) ?? colors.text.muted }}>
+        {limits}
+        {status.state === 'exceeded' && ' · limit reached'}
+      </div>
+    </div>
+  );
+}
+
+export function UsageReport({ sessionId }: UsageReportProps) {
+  const [report, setReport] = useState<UsageReportDTO | null>(null);
+  const [isCollapsed, setIsCollapsed] = useState(true);
+  const [editingScope, setEditingScope] = useState<BudgetScope | null>(null);
+  const [draft, setDraft] = useState<BudgetDraft>(draftFrom(null));
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await API.usage.getReport(sessionId);
+      if (res.success && res.data) setReport(res.data);
+    } catch {
+      // Usage tracking is best-effort; keep the last report.
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    setReport(null);
+    setEditingScope(null);
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    const unsubscribe = window.electronAPI?.events?.onUsageUpdated?.((data) => {
+      if (data.sessionId === sessionId || (data.sessionId === null && data.projectId !== null && data.projectId === report?.projectId)) {
+        void load();
+      }
+    });
+    return () => unsubscribe?.();
+  }, [sessionId, report?.projectId, load]);
+
+  const worstBudget = [report?.budgets.session, report?.budgets.project]
+    .filter((status): status is UsageBudgetStatusDTO => Boolean(status))
+    .sort((a, b) => b.ratio - a.ratio)[0] ?? null;
+
+  const worstState = worstBudget?.state;
+
+  // Surface budget problems even when the section is collapsed.
+  useEffect(() => {
+    if (worstState === 'warning' || worstState === 'exceeded') setIsCollapsed(false);
+  }, [worstState]);
+
+  if (!report) return null;
+
+  const startEditing = (scope: BudgetScope) => {
+    setError(null);
+    setDraft(draftFrom(scope === 'session' ? report.budgets.session : report.budgets.project));
+    setEditingScope(editingScope === scope ? null : scope);
+  };
+
+  const saveBudget = async (clear: boolean) => {
+    if (!editingScope) return;
+    const scopeId = editingScope === 'session' ? sessionId : report.projectId;
+    if (scopeId === null) return;
+
+    const parse = (value: string) => (value.trim() ? Number(value) : null);
+    const budget = clear
+      ? { tokenLimit: null, costLimitUsd: null }
+      : {
+          tokenLimit: parse(draft.tokenLimit),
+          costLimitUsd: parse(draft.costLimitUsd),
+          warnRatio: (parse(draft.warnPercent) ?? 80) / 100,
+        };
+
+    setError(null);
+    try {
+      const res = await API.usage.setBudget(editingScope, scopeId, budget);
+      if (!res.success) {
+        setError(res.error || 'Failed to save budget');
+        return;
+      }
+      setEditingScope(null);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save budget');
+    }
+  };
+
+  const inputStyle = { backgroundColor: colors.bg.editor, borderColor: colors.border, color: colors.text.primary };
+
+  return (
+    <div className="flex-shrink-0" style={{ borderTop: `1px solid ${colors.border}` }} data-testid="usage-report">
+      <div className="flex items-center justify-between px-3 py-2" style={{ backgroundColor: colors.bg.secondary }}>
+        <button
+          type="button"
+          onClick={() => setIsCollapsed(!isCollapsed)}
+          className="flex items-center gap-1.5 text-xs font-medium transition-all duration-75 px-1.5 py-0.5 -ml-1.5 rounded st-hoverable st-focus-ring"
+          style={{ color: colors.text.secondary }}
+        >
+          <ChevronDown
+            className={`w-3 h-3 transition-transform ${isCollapsed ? '-rotate-90' : ''}`}
+            style={{ color: colors.text.muted }}
+          />
+          <span>Usage</span>
+          <span
+            className="ml-1 px-1.5 py-0.5 text-[10px] rounded font-mono"
+            style={{ backgroundColor: colors.bg.hover, color: stateColor(worstBudget) ?? colors.text.muted }}
+            data-testid="usage-summary"
+          >
+            {formatTokenCount(countedTokens(report.session))}
+            {report.session.costUsd > 0 && ` · ${formatCost(report.session.costUsd)}`}
+          </span>
+        </button>
+      </div>
+
+      {!isCollapsed && (
+        <div className="px-3 pb-2 space-y-2 text-xs" style={{ backgroundColor: colors.bg.secondary }}>
+          <div>
+            <div className="flex items-center justify-between">
+              <span style={{ color: colors.text.primary }}>Session</span>
+              <button
+                type="button"
+                onClick={() => startEditing('session')}
+                className="flex items-center gap-1 px-1 rounded st-hoverable st-focus-ring text-[11px]"
+                style={{ color: colors.accent }}
+              >
+                <Gauge className="w-3 h-3" />
+                {report.budgets.session ? 'Edit budget' : 'Set budget'}
+              </button>
+            </div>
+            <Totals totals={report.session} />
+            {report.budgets.session && <BudgetBar status={report.budgets.session} />}
+          </div>
+
+          {report.panels.length > 1 && (
+            <div className="space-y-0.5">
+              {report.panels.map((panel) => (
+                <div key={panel.panelId} className="flex items-center justify-between gap-2" data-testid="usage-panel">
+                  <span className="truncate" style={{ color: colors.text.muted }}>{panel.title || panel.toolType || 'Panel'}</span>
+                  <span className="font-mono text-[11px]" style={{ color: colors.text.secondary }}>
+                    {formatTokenCount(countedTokens(panel.totals))}
+                    {panel.totals.costUsd > 0 && ` · ${formatCost(panel.totals.costUsd)}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {report.project && report.projectId !== null && (
+            <div>
+              <div className="flex items-center justify-between">
+                <span style={{ color: colors.text.primary }}>Project</span>
+                <button
+                  type="button"
+                  onClick={() => startEditing('project')}
+                  className="flex items-center gap-1 px-1 rounded st-hoverable st-focus-ring text-[11px]"
+                  style={{ color: colors.accent }}
+                >
+                  <Gauge className="w-3 h-3" />
+                  {report.budgets.project ? 'Edit budget' : 'Set budget'}
+                </button>
+              </div>
+              <Totals totals={report.project} />
+              {report.budgets.project && <BudgetBar status={report.budgets.project} />}
+            </div>
+          )}
+
+          {editingScope && (
+            <div className="space-y-1.5 p-2 rounded border" style={{ borderColor: colors.border }} data-testid="usage-budget-editor">
+              <div style={{ color: colors.text.muted }}>
+                {editingScope === 'session' ? 'Session' : 'Project'} budget · agents are interrupted at the limit
+              </div>
+              <div className="grid grid-cols-3 gap-1.5">
+                <input
+                  aria-label="Token limit"
+                  inputMode="numeric"
+                  placeholder="Tokens"
+                  value={draft.tokenLimit}
+                  onChange={(e) => setDraft({ ...draft, tokenLimit: e.target.value })}
+                  className="px-1.5 py-1 rounded border font-mono text-[11px] st-focus-ring"
+                  style={inputStyle}
+                />
+                <input
+                  aria-label="Cost limit (USD)"
+                  inputMode="decimal"
+                  placeholder="USD"
+                  value={draft.costLimitUsd}
+                  onChange={(e) => setDraft({ ...draft, costLimitUsd: e.target.value })}
+                  className="px-1.5 py-1 rounded border font-mono text-[11px] st-focus-ring"
+                  style={inputStyle}
+                />
+                <input
+                  aria-label="Warn at (%)"
+                  inputMode="numeric"
+                  placeholder="Warn %"
+                  value={draft.warnPercent}
+                  onChange={(e) => setDraft({ ...draft, warnPercent: e.target.value })}
+                  className="px-1.5 py-1 rounded border font-mono text-[11px] st-focus-ring"
+                  style={inputStyle}
+                />
+              </div>
+              {error && (
+                <div className="text-[11px] p-1.5 rounded" style={{ backgroundColor: 'var(--st-error-bg)', color: 'var(--st-error)' }}>
+                  {error}
+                </div>
+              )}
+              <div className="flex justify-end gap-1">
+                <button
+                  type="button"
+                  onClick={() => void saveBudget(true)}
+                  className="px-2 py-0.5 rounded st-hoverable st-focus-ring"
+                  style={{ color: colors.text.muted }}
+                >
+                  Clear
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void saveBudget(false)}
+                  className="px-2 py-0.5 rounded st-focus-ring"
+                  style={{ backgroundColor: colors.accent, color: 'white' }}
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default UsageReport;
@@ -10,6 +10,10 @@ import { FileChangeList } from './FileChangeList';
 import type { WorkingTreeScope } from './types';
 import { CIStatusBadge, CIStatusDetails } from '../../../features/ci-status';
 import { TodoList } from './TodoList';
+import { UsageReport } from './UsageReport';
+import { RunScripts } from './RunScripts';
+import { SetupTasks } from './SetupTasks';
+import { ReviewFeedback } from './ReviewFeedback';
 import { useSessionStore } from '../../../stores/sessionStore';
 
 export const RightPanel: React.FC<RightPanelProps> = React.memo(
@@ -26,6 +30,9 @@ export const RightPanel: React.FC<RightPanelProps> = React.memo(
     isUpdateBranchDisabled,
     onSyncPR,
     isSyncPRDisabled,
+    reviewFeedback,
+    onSendReviewFeedback,
+    isSendReviewFeedbackDisabled,
   }) => {
     const [selectedFile, setSelectedFile] = useState<string | null>(null);
     const [selectedFileScope, setSelectedFileScope] = useState<
@@ -750,8 +757,19 @@ export const RightPanel: React.FC<RightPanelProps> = React.memo(
           </div>
         </div>
 
-        {/* 4. Tasks Section (at bottom) */}
+        {/* 4. Setup, Review, Scripts, Usage and Tasks Sections (at bottom) */}
         <div className="mt-auto">
+          <SetupTasks sessionId={session.id} />
+          {reviewFeedback && (
+            <ReviewFeedback
+              review={reviewFeedback}
+              onSend={onSendReviewFeedback}
+              isSendDisabled={isSendReviewFeedbackDisabled}
+              onOpenFile={(filePath) => onFileClick(filePath, selectedTarget ?? { kind: 'working', scope: 'all' })}
+            />
+          )}
+          <RunScripts sessionId={session.id} />
+          <UsageReport sessionId={session.id} />
           <TodoList todos={todos} onClear={handleClearTodos} />
         </div>
       </div>
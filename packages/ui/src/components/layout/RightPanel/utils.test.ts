@@ -5,6 +5,7 @@ import {
   computeTrackedFiles,
   computeUntrackedFiles,
   formatCommitTime,
+  formatTokenCount,
 } from './utils';
 import type { FileChange } from '../types';
 import { FILE_TYPE_INFO } from './constants';
@@ -184,3 +185,11 @@ describe('formatCommitTime', () => {
     expect(result).toMatch(/\d{2,4}[/\-\.]\d{2}[/\-\.]\d{2,4}/);
   });
 });
+
+describe('formatTokenCount', () => {
+  it('formats token counts compactly', () => {
+    expect(formatTokenCount(950)).toBe('950');
+    expect(formatTokenCount(15_000)).toBe('15.0k');
+    expect(formatTokenCount(2_500_000)).toBe('2.5M');
+  });
+});
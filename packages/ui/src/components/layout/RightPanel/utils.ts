@@ -141,3 +141,9 @@ export function formatCommitHoverTitle(commit: CommitData): string {
 
   return lines.join('\n');
 }
+
+export function formatTokenCount(value: number): string {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}k`;
+  return String(value);
+}
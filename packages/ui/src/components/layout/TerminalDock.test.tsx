@@ -1,22 +1,51 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import React from 'react';
 import { TerminalDock } from './TerminalDock';
 import { useTerminalDock } from './useTerminalDock';
+import { useTerminalTabs } from './useTerminalTabs';
 
 vi.mock('./useTerminalDock', () => ({
   useTerminalDock: vi.fn(),
 }));
 
+vi.mock('./useTerminalTabs', () => ({
+  useTerminalTabs: vi.fn(),
+}));
+
 vi.mock('./TerminalPanel', () => ({
-  TerminalPanel: () => <div data-testid="terminal-panel" />,
+  TerminalPanel: ({ panelId, headerContent, onClose }: { panelId: string; headerContent?: React.ReactNode; onClose?: () => void }) => (
+    <div data-testid="terminal-panel" data-panel-id={panelId}>
+      {headerContent}
+      <button type="button" onClick={onClose}>exit</button>
+    </div>
+  ),
 }));
 
+const buildTerminal = (id: string, title: string, tmux = false) => ({
+  id,
+  sessionId: 's1',
+  type: 'terminal',
+  title,
+  state: { isActive: false, customState: tmux ? { tmuxSessionId: `snowtree-${id}` } : {} },
+  metadata: { createdAt: 'now', lastActiveAt: 'now', position: 0 },
+});
+
 describe('TerminalDock', () => {
   const useTerminalDockMock = useTerminalDock as unknown as ReturnType<typeof vi.fn>;
+  const useTerminalTabsMock = useTerminalTabs as unknown as ReturnType<typeof vi.fn>;
+  const tabs = {
+    selectTerminal: vi.fn(),
+    addTerminal: vi.fn(),
+    closeTerminal: vi.fn(),
+    renameTerminal: vi.fn(),
+  };
 
   beforeEach(() => {
     useTerminalDockMock.mockReset();
+    useTerminalTabsMock.mockReset();
+    Object.values(tabs).forEach((fn) => fn.mockReset());
+    useTerminalTabsMock.mockReturnValue({ terminals: [], activePanelId: 'p1', error: null, ...tabs });
   });
 
   it('renders nothing when collapsed', () => {
@@ -51,4 +80,60 @@ describe('TerminalDock', () => {
     expect(screen.getByTestId('terminal-panel')).toBeInTheDocument();
     expect(screen.getByTestId('terminal-resize-handle')).toBeInTheDocument();
   });
+
+  it('shows a tab per terminal and handles add, switch and shell exit', () => {
+    const toggleTerminal = vi.fn();
+    useTerminalDockMock.mockReturnValue({
+      terminalHeight: 240,
+      terminalCollapsed: false,
+      isResizing: false,
+      focusRequestId: 1,
+      handleResizeStart: vi.fn(),
+      toggleTerminal,
+    });
+    useTerminalTabsMock.mockReturnValue({
+      terminals: [buildTerminal('p1', 'Terminal'), buildTerminal('p2', 'Server', true)],
+      activePanelId: 'p2',
+      error: null,
+      ...tabs,
+    });
+
+    const containerRef = { current: document.createElement('div') };
+    render(<TerminalDock sessionId="s1" panelId="p1" containerRef={containerRef} />);
+
+    expect(useTerminalTabsMock).toHaveBeenCalledWith('s1', 'p1');
+    expect(screen.getByTestId('terminal-panel')).toHaveAttribute('data-panel-id', 'p2');
+    expect(screen.getAllByRole('tab').map((tab) => tab.textContent)).toEqual(['Terminal', 'Servertmux']);
+
+    fireEvent.click(screen.getByText('Terminal'));
+    expect(tabs.selectTerminal).toHaveBeenCalledWith('p1');
+
+    fireEvent.click(screen.getByLabelText('New terminal'));
+    expect(tabs.addTerminal).toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText('exit'));
+    expect(tabs.closeTerminal).toHaveBeenCalledWith('p2');
+    expect(toggleTerminal).not.toHaveBeenCalled();
+  });
+
+  it('collapses the dock when the last shell exits', () => {
+    const toggleTerminal = vi.fn();
+    useTerminalDockMock.mockReturnValue({
+      terminalHeight: 240,
+      terminalCollapsed: false,
+      isResizing: false,
+      focusRequestId: 1,
+      handleResizeStart: vi.fn(),
+      toggleTerminal,
+    });
+    useTerminalTabsMock.mockReturnValue({ terminals: [buildTerminal('p1', 'Terminal')], activePanelId: 'p1', error: null, ...tabs });
+
+    const containerRef = { current: document.createElement('div') };
+    render(<TerminalDock sessionId="s1" panelId="p1" containerRef={containerRef} />);
+
+    expect(screen.queryByLabelText('Close Terminal')).toBeNull();
+    fireEvent.click(screen.getByText('exit'));
+    expect(toggleTerminal).toHaveBeenCalled();
+    expect(tabs.closeTerminal).not.toHaveBeenCalled();
+  });
 });
@@ -1,7 +1,10 @@
-import React from 'react';
+import React, { useCallback, useState } from 'react';
 import type { RefObject } from 'react';
+import { Plus, X } from 'lucide-react';
+import type { TerminalPanelState, ToolPanel } from '@snowtree/core/types/panels';
 import { TerminalPanel } from './TerminalPanel';
 import { useTerminalDock } from './useTerminalDock';
+import { useTerminalTabs } from './useTerminalTabs';
 
 export interface TerminalDockProps {
   sessionId: string;
@@ -10,6 +13,98 @@ export interface TerminalDockProps {
   containerRef: RefObject<HTMLElement | null>;
 }
 
+interface TerminalTabsProps {
+  terminals: ToolPanel[];
+  activePanelId: string;
+  onSelect: (panelId: string) => void;
+  onAdd: () => void;
+  onClose: (panelId: string) => void;
+  onRename: (panelId: string, title: string) => void;
+}
+
+const TerminalTabs: React.FC<TerminalTabsProps> = ({ terminals, activePanelId, onSelect, onAdd, onClose, onRename }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const commit = () => {
+    if (editingId && draft.trim()) onRename(editingId, draft);
+    setEditingId(null);
+  };
+
+  return (
+    <div className="flex items-center gap-0.5 min-w-0 overflow-x-auto" role="tablist" data-testid="terminal-tabs">
+      {terminals.map((terminal) => {
+        const isActive = terminal.id === activePanelId;
+        const isTmux = Boolean((terminal.state?.customState as TerminalPanelState | undefined)?.tmuxSessionId);
+        return (
+          <div
+            key={terminal.id}
+            role="tab"
+            aria-selected={isActive}
+            onClick={() => onSelect(terminal.id)}
+            onDoubleClick={() => {
+              setEditingId(terminal.id);
+              setDraft(terminal.title);
+            }}
+            className="group flex items-center gap-1 px-2 py-0.5 rounded text-xs cursor-pointer flex-shrink-0 st-hoverable"
+            style={{
+              color: isActive ? 'var(--st-text)' : 'var(--st-text-faint)',
+              backgroundColor: isActive ? 'color-mix(in srgb, var(--st-hover) 70%, transparent)' : undefined,
+            }}
+            title={isTmux ? `${terminal.title} (tmux)` : terminal.title}
+          >
+            {editingId === terminal.id ? (
+              <input
+                autoFocus
+                aria-label="Terminal name"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commit}
+                onClick={(e) => e.stopPropagation()}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commit();
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="w-24 px-1 rounded border text-xs st-focus-ring"
+                style={{ backgroundColor: 'var(--st-editor)', borderColor: 'var(--st-border)', color: 'var(--st-text)' }}
+              />
+            ) : (
+              <span className={isActive ? 'font-medium' : undefined}>{terminal.title}</span>
+            )}
+            {isTmux && (
+              <span className="text-[9px] font-mono" style={{ color: 'var(--st-text-faint)' }}>tmux</span>
+            )}
+            {terminals.length > 1 && (
+              <button
+                type="button"
+                aria-label={`Close ${terminal.title}`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onClose(terminal.id);
+                }}
+                className="opacity-0 group-hover:opacity-100 rounded st-focus-ring"
+                style={{ color: 'var(--st-text-faint)' }}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        aria-label="New terminal"
+        title="New terminal"
+        onClick={onAdd}
+        className="p-0.5 rounded flex-shrink-0 st-hoverable st-focus-ring"
+        style={{ color: 'var(--st-text-faint)' }}
+      >
+        <Plus className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+};
+
 export const TerminalDock: React.FC<TerminalDockProps> = ({
   sessionId,
   panelId,
@@ -24,6 +119,23 @@ export const TerminalDock: React.FC<TerminalDockProps> = ({
     handleResizeStart,
     toggleTerminal,
   } = useTerminalDock(sessionId, containerRef);
+  const {
+    terminals,
+    activePanelId,
+    selectTerminal,
+    addTerminal,
+    closeTerminal,
+    renameTerminal,
+  } = useTerminalTabs(sessionId, panelId);
+
+  // A shell that exits closes its tab; the last one collapses the dock instead
+  const handleExit = useCallback(() => {
+    if (terminals.length > 1) {
+      void closeTerminal(activePanelId);
+      return;
+    }
+    toggleTerminal();
+  }, [terminals.length, activePanelId, closeTerminal, toggleTerminal]);
 
   if (terminalCollapsed) return null;
 
@@ -51,12 +163,23 @@ export const TerminalDock: React.FC<TerminalDockProps> = ({
         />
       </div>
       <TerminalPanel
+        key={activePanelId}
         sessionId={sessionId}
-        panelId={panelId}
+        panelId={activePanelId}
         worktreePath={worktreePath}
         height={terminalHeight}
         focusRequestId={focusRequestId}
-        onClose={toggleTerminal}
+        headerContent={terminals.length > 0 ? (
+          <TerminalTabs
+            terminals={terminals}
+            activePanelId={activePanelId}
+            onSelect={selectTerminal}
+            onAdd={() => void addTerminal()}
+            onClose={(id) => void closeTerminal(id)}
+            onRename={(id, title) => void renameTerminal(id, title)}
+          />
+        ) : undefined}
+        onClose={handleExit}
       />
     </>
   );
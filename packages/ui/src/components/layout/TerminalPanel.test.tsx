@@ -101,7 +101,7 @@ describe('TerminalPanel', () => {
     await waitFor(() => expect(typeof terminal.onDataHandler).toBe('function'));
 
     terminal.onDataHandler('ls');
-    expect(API.sessions.sendTerminalInput).toHaveBeenCalledWith('s1', 'ls');
+    expect(API.sessions.sendTerminalInput).toHaveBeenCalledWith('s1', 'ls', 'p1');
   });
 
   it('writes output events for the active session panel', async () => {
@@ -131,6 +131,30 @@ describe('TerminalPanel', () => {
     await waitFor(() => expect(terminalInstances[0].writes).toContain('hello'));
   });
 
+  it('closes only when its own shell exits', async () => {
+    const exitHandlers: Array<(event: any) => void> = [];
+    (window as any).electronAPI = {
+      ...(window as any).electronAPI,
+      events: {
+        onTerminalExit: (handler: (event: any) => void) => {
+          exitHandlers.push(handler);
+          return () => undefined;
+        },
+      },
+    };
+    const onClose = vi.fn();
+
+    render(<TerminalPanel sessionId="s1" panelId="p1" height={200} onClose={onClose} />);
+    await waitFor(() => expect(exitHandlers.length).toBe(1));
+    await waitFor(() => expect(API.sessions.preCreateTerminal).toHaveBeenCalledWith('s1', 'p1'));
+
+    exitHandlers[0]({ sessionId: 's1', panelId: 'p2', exitCode: 0 });
+    expect(onClose).not.toHaveBeenCalled();
+
+    exitHandlers[0]({ sessionId: 's1', panelId: 'p1', exitCode: 0 });
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
   describe('OSC Response Filtering', () => {
     it('filters OSC 11 color query responses with BEL terminator', async () => {
       const outputHandlers: Array<(event: any) => void> = [];
@@ -70,6 +70,8 @@ export interface TerminalPanelProps {
   worktreePath?: string;
   height: number;
   focusRequestId?: number;
+  /** Replaces the "Terminal" label, e.g. with the dock's tabs. */
+  headerContent?: React.ReactNode;
   onClose?: () => void;
 }
 
@@ -79,6 +81,7 @@ export const TerminalPanel: React.FC<TerminalPanelProps> = ({
   worktreePath,
   height,
   focusRequestId = 0,
+  headerContent,
   onClose,
 }) => {
   const containerRef = useRef<HTMLDivElement | null>(null);
@@ -171,7 +174,7 @@ export const TerminalPanel: React.FC<TerminalPanelProps> = ({
 
     const disposable = terminal.onData((data) => {
       if (!window.electronAPI) return;
-      void API.sessions.sendTerminalInput(sessionId, data);
+      void API.sessions.sendTerminalInput(sessionId, data, panelId);
     });
 
     return () => {
@@ -183,7 +186,7 @@ export const TerminalPanel: React.FC<TerminalPanelProps> = ({
       fitAddonRef.current = null;
       openedRef.current = false;
     };
-  }, [sessionId, focusTerminal, safeFit]);
+  }, [sessionId, panelId, focusTerminal, safeFit]);
 
   useEffect(() => {
     applyTheme();
@@ -226,8 +229,9 @@ export const TerminalPanel: React.FC<TerminalPanelProps> = ({
 
   // Listen for terminal exit events
   useEffect(() => {
-    const unsubscribe = window.electronAPI?.events?.onTerminalExit?.((event: { sessionId: string; exitCode: number; signal?: number }) => {
+    const unsubscribe = window.electronAPI?.events?.onTerminalExit?.((event: { sessionId: string; panelId?: string; exitCode: number; signal?: number }) => {
       if (event.sessionId !== sessionId) return;
+      if (event.panelId && event.panelId !== panelId) return;
 
       // Close the terminal panel when the shell exits
       if (onClose) {
@@ -238,7 +242,7 @@ export const TerminalPanel: React.FC<TerminalPanelProps> = ({
     return () => {
       if (unsubscribe) unsubscribe();
     };
-  }, [sessionId, onClose]);
+  }, [sessionId, panelId, onClose]);
 
   useEffect(() => {
     let cancelled = false;
@@ -255,7 +259,7 @@ export const TerminalPanel: React.FC<TerminalPanelProps> = ({
         hydratedRef.current = true;
         return;
       }
-      const precreate = await API.sessions.preCreateTerminal(sessionId);
+      const precreate = await API.sessions.preCreateTerminal(sessionId, panelId);
       if (!precreate?.success) {
         terminal.writeln(`\r\nFailed to start terminal: ${precreate?.error || 'unknown error'}\r\n`);
       }
@@ -309,7 +313,7 @@ export const TerminalPanel: React.FC<TerminalPanelProps> = ({
       }
       resizeFrameRef.current = requestAnimationFrame(() => {
         safeFit();
-        void API.sessions.resizeTerminal(sessionId, terminal.cols, terminal.rows);
+        void API.sessions.resizeTerminal(sessionId, terminal.cols, terminal.rows, panelId);
       });
     };
 
@@ -325,7 +329,7 @@ export const TerminalPanel: React.FC<TerminalPanelProps> = ({
         resizeFrameRef.current = null;
       }
     };
-  }, [sessionId, safeFit]);
+  }, [sessionId, panelId, safeFit]);
 
   return (
     <div
@@ -341,8 +345,10 @@ export const TerminalPanel: React.FC<TerminalPanelProps> = ({
         }}
       >
         <div className="flex items-center gap-2 min-w-0">
-          <TerminalIcon className="w-3.5 h-3.5" style={{ color: 'var(--st-text-faint)' }} />
-          <span className="text-xs font-medium" style={{ color: 'var(--st-text)' }}>Terminal</span>
+          <TerminalIcon className="w-3.5 h-3.5 flex-shrink-0" style={{ color: 'var(--st-text-faint)' }} />
+          {headerContent ?? (
+            <span className="text-xs font-medium" style={{ color: 'var(--st-text)' }}>Terminal</span>
+          )}
           <span
             className="text-[10px] font-mono px-1.5 py-0.5 rounded"
             style={{ backgroundColor: 'color-mix(in srgb, var(--st-hover) 45%, transparent)', color: 'var(--st-text-faint)' }}
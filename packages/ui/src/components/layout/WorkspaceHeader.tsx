@@ -1,6 +1,13 @@
-import React, { useMemo, useState } from 'react';
-import { GitBranch, Copy, Check } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GitBranch, GitCompare, Copy, Check, Download } from 'lucide-react';
 import type { WorkspaceHeaderProps } from './types';
+import type { SessionExportFormat } from '../../types/electron';
+
+const EXPORT_OPTIONS: Array<{ format: SessionExportFormat; label: string }> = [
+  { format: 'bundle', label: 'Session bundle (.json)' },
+  { format: 'markdown', label: 'Markdown report' },
+  { format: 'html', label: 'HTML report' },
+];
 
 // Extract repository name from worktree path
 // e.g., /Users/bohu/github/blog-hexo/worktrees/montreal-wphnwwp9 → blog-hexo
@@ -51,7 +58,9 @@ StatusDot.displayName = 'StatusDot';
 export const WorkspaceHeader: React.FC<WorkspaceHeaderProps> = React.memo(({
   session,
   branchName,
-  remoteName
+  remoteName,
+  onCompareFanOut,
+  onExport
 }) => {
   const repositoryName = useMemo(() => {
     return getRepositoryName(session.worktreePath) || session.name;
@@ -71,6 +80,19 @@ export const WorkspaceHeader: React.FC<WorkspaceHeaderProps> = React.memo(({
   const displayBranch = remoteName ? `${remoteName}/${displayBranchName}` : displayBranchName;
 
   const [copied, setCopied] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const exportMenuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!showExportMenu) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (exportMenuRef.current && !exportMenuRef.current.contains(e.target as Node)) {
+        setShowExportMenu(false);
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [showExportMenu]);
 
   const handleCopyPath = async () => {
     if (session.worktreePath) {
@@ -116,6 +138,53 @@ export const WorkspaceHeader: React.FC<WorkspaceHeaderProps> = React.memo(({
       </div>
 
       <div className="flex items-center gap-1" style={{ ['WebkitAppRegion' as never]: 'no-drag' }}>
+        {onCompareFanOut && (
+          <button
+            type="button"
+            onClick={onCompareFanOut}
+            className="p-1.5 rounded st-hoverable st-focus-ring"
+            title="Compare fan-out results"
+          >
+            <GitCompare className="w-3.5 h-3.5" style={{ color: 'var(--st-text-muted)' }} />
+          </button>
+        )}
+        {onExport && (
+          <div className="relative" ref={exportMenuRef}>
+            <button
+              type="button"
+              onClick={() => setShowExportMenu((v) => !v)}
+              className="p-1.5 rounded st-hoverable st-focus-ring"
+              title="Export session"
+              aria-haspopup="menu"
+              aria-expanded={showExportMenu}
+            >
+              <Download className="w-3.5 h-3.5" style={{ color: 'var(--st-text-muted)' }} />
+            </button>
+            {showExportMenu && (
+              <div
+                role="menu"
+                className="absolute right-0 top-full mt-1 z-20 min-w-[180px] py-1 rounded-md border st-hairline shadow-lg"
+                style={{ backgroundColor: 'var(--st-surface)' }}
+              >
+                {EXPORT_OPTIONS.map(({ format, label }) => (
+                  <button
+                    key={format}
+                    type="button"
+                    role="menuitem"
+                    onClick={() => {
+                      setShowExportMenu(false);
+                      onExport(format);
+                    }}
+                    className="w-full text-left px-3 py-1.5 text-[12px] st-hoverable"
+                    style={{ color: 'var(--st-text)' }}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
         <button
           type="button"
           onClick={handleCopyPath}
@@ -1,6 +1,7 @@
 export const TERMINAL_LAYOUT_KEYS = {
   height: 'snowtree-terminal-height',
   collapsed: 'snowtree-terminal-collapsed',
+  activeTab: 'snowtree-terminal-active',
 } as const;
 
 export const TERMINAL_LAYOUT_LIMITS = {
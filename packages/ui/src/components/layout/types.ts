@@ -1,8 +1,14 @@
 import type { Session } from '../../types/session';
 import type { DiffTarget } from '../../types/diff';
+import type { ReviewCommentDTO, SessionExportFormat } from '../../types/electron';
+import type { ReviewFeedbackState } from '../../hooks/useReviewFeedback';
+import type { DiffCommentsState } from '../../hooks/useDiffComments';
 import type { TodoItem } from '../../stores/sessionStore';
 
-export type CLITool = 'claude' | 'codex' | 'gemini' | 'kimi';
+export type BuiltinCLITool = 'claude' | 'codex' | 'gemini' | 'kimi';
+
+// Executor plugins use their own ids
+export type CLITool = BuiltinCLITool | (string & {});
 
 export interface FileChange {
   path: string;
@@ -20,6 +26,8 @@ export interface WorkspaceHeaderProps {
   session: Session;
   branchName: string;
   remoteName: string | null;
+  onCompareFanOut?: () => void;
+  onExport?: (format: SessionExportFormat) => void;
 }
 
 export interface PendingMessage {
@@ -48,6 +56,8 @@ export interface InputBarProps {
   selectedTool: CLITool;
   onSend: (message: string, images?: ImageAttachment[], planMode?: boolean) => void;
   onCancel: () => void;
+  /** Queue a follow-up prompt while the agent is busy */
+  onQueue?: (message: string, planMode?: boolean) => void;
   isProcessing: boolean;
   placeholder?: string;
   focusRequestId?: number;
@@ -67,6 +77,10 @@ export interface RightPanelProps {
   isUpdateBranchDisabled?: boolean;
   onSyncPR?: () => void;
   isSyncPRDisabled?: boolean;
+  /** PR review comments of the session; the section is hidden without it */
+  reviewFeedback?: ReviewFeedbackState;
+  onSendReviewFeedback?: (commentIds: string[]) => Promise<void>;
+  isSendReviewFeedbackDisabled?: boolean;
 }
 
 export interface DiffOverlayProps {
@@ -76,6 +90,12 @@ export interface DiffOverlayProps {
   target: DiffTarget | null;
   files?: FileChange[];
   onClose: () => void;
+  reviewComments?: ReviewCommentDTO[];
+  /** Local review comments; lines can be commented when set */
+  diffComments?: DiffCommentsState;
+  /** Send the pending comments to the agent as one prompt */
+  onSendDiffComments?: () => void;
+  isSendDiffCommentsDisabled?: boolean;
   banner?: {
     title: string;
     description?: string;
@@ -39,7 +39,7 @@ describe('useEnsureTerminalPanel', () => {
 
     render(<Harness session={session} />);
 
-    await waitFor(() => expect(API.sessions.ensureTerminalPanel).toHaveBeenCalledWith('s1'));
+    await waitFor(() => expect(API.sessions.ensureTerminalPanel).toHaveBeenCalledWith('s1', { tmux: false }));
     await waitFor(() => expect(screen.getByTestId('panel-id').textContent).toBe('tp-1'));
   });
 
@@ -1,6 +1,7 @@
 import { useEffect, useRef } from 'react';
 import type { ToolPanel } from '@snowtree/core/types/panels';
 import { API } from '../../utils/api';
+import { useSettingsStore } from '../../stores/settingsStore';
 
 type SessionRef = { id: string };
 
@@ -22,7 +23,8 @@ export const useEnsureTerminalPanel = (
 
     const ensureTerminalPanel = async () => {
       try {
-        const response = await API.sessions.ensureTerminalPanel(session.id);
+        const tmux = useSettingsStore.getState().settings.terminalTmux;
+        const response = await API.sessions.ensureTerminalPanel(session.id, { tmux });
         if (cancelled) return;
         if (response?.success && response.data) {
           setTerminalPanel(response.data as ToolPanel);
@@ -1,8 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
 import { useState } from 'react';
 
 import { useLayoutData } from './useLayoutData';
+import { useSessionStore } from '../../stores/sessionStore';
 import type { CLITool } from './types';
 
 vi.mock('../../utils/withTimeout', () => ({
@@ -116,6 +117,7 @@ describe('useLayoutData', () => {
     render(<Harness sessionId="s1" />);
 
     await waitFor(() => expect(screen.getByTestId('selected').textContent).toBe('claude'));
+    await waitFor(() => expect(screen.getByTestId('session-id').textContent).toBe('s1'));
 
     fireEvent.click(screen.getByText('select-codex'));
 
@@ -127,6 +129,7 @@ describe('useLayoutData', () => {
     render(<Harness sessionId="s1" />);
 
     await waitFor(() => expect(screen.getByTestId('selected').textContent).toBe('claude'));
+    await waitFor(() => expect(screen.getByTestId('session-id').textContent).toBe('s1'));
 
     fireEvent.click(screen.getByText('cycle'));
 
@@ -164,6 +167,7 @@ describe('useLayoutData', () => {
     render(<Harness sessionId="s1" />);
 
     await waitFor(() => expect(screen.getByTestId('selected').textContent).toBe('claude'));
+    await waitFor(() => expect(screen.getByTestId('session-id').textContent).toBe('s1'));
 
     fireEvent.click(screen.getByText('select-codex'));
     await waitFor(() => expect(screen.getByTestId('selected').textContent).toBe('codex'));
@@ -192,6 +196,7 @@ describe('useLayoutData', () => {
     render(<Harness sessionId="s1" />);
 
     await waitFor(() => expect(screen.getByTestId('selected').textContent).toBe('claude'));
+    await waitFor(() => expect(screen.getByTestId('session-id').textContent).toBe('s1'));
 
     const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
@@ -231,6 +236,22 @@ describe('useLayoutData', () => {
     expect(API.sessions.update).toHaveBeenCalledWith('s1', { executionMode: 'plan' });
   });
 
+  it('follows executionMode changes made in the main process', async () => {
+    render(<Harness sessionId="s2" />);
+
+    await waitFor(() => {
+      expect(screen.getByTestId('execution-mode').textContent).toBe('plan');
+    });
+
+    const onSessionUpdated = window.electronAPI.events.onSessionUpdated as unknown as ReturnType<typeof vi.fn>;
+    const handler = onSessionUpdated.mock.calls.at(-1)?.[0] as (session: unknown) => void;
+    act(() => {
+      handler({ id: 's2', name: 's2', status: 'running', createdAt: new Date().toISOString(), toolType: 'codex', executionMode: 'execute' });
+    });
+
+    expect(screen.getByTestId('execution-mode').textContent).toBe('execute');
+  });
+
   it('restores executionMode when switching between sessions', async () => {
     render(<SessionSwitchHarness />);
 
@@ -255,4 +276,21 @@ describe('useLayoutData', () => {
       expect(screen.getByTestId('execution-mode').textContent).toBe('execute');
     });
   });
+
+  it('selects the agent panel a clicked notification points at', async () => {
+    (window.electronAPI.panels.list as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({
+      success: true,
+      data: [
+        { id: 'p1', sessionId: 's1', type: 'claude', name: 'Claude' },
+        { id: 'p3', sessionId: 's1', type: 'codex', name: 'Codex' },
+      ],
+    });
+    useSessionStore.setState({ panelFocus: { sessionId: 's1', panelId: 'p3' } });
+
+    render(<Harness sessionId="s1" />);
+
+    await waitFor(() => expect(screen.getByTestId('selected').textContent).toBe('codex'));
+    expect(useSessionStore.getState().panelFocus).toBeNull();
+    expect(API.sessions.update).not.toHaveBeenCalled();
+  });
 });
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { API } from '../../utils/api';
 import { withTimeout } from '../../utils/withTimeout';
 import type { Session } from '../../types/session';
@@ -6,6 +6,14 @@ import type { ToolPanel, BaseAIPanelState } from '@snowtree/core/types/panels';
 import type { CLITool, ImageAttachment, ExecutionMode } from './types';
 import { useEnsureTerminalPanel } from './useEnsureTerminalPanel';
 import { useSettingsStore } from '../../stores/settingsStore';
+import { useSessionStore } from '../../stores/sessionStore';
+import { getExecutorDisplayName, isAgentPanelType, isExecutorEnabled, useExecutors } from '../../features/executors';
+
+// Built-ins in cycling order; registered plugins follow
+const BUILTIN_TOOL_ORDER: CLITool[] = ['claude', 'codex', 'kimi', 'gemini'];
+
+const toSelectedTool = (toolType: Session['toolType']): CLITool =>
+  toolType && toolType !== 'none' ? toolType : 'claude';
 
 interface UseLayoutDataResult {
   session: Session | null;
@@ -30,6 +38,7 @@ interface UseLayoutDataResult {
 
 export function useLayoutData(sessionId: string | null): UseLayoutDataResult {
   const { settings } = useSettingsStore();
+  const executors = useExecutors();
   const [session, setSession] = useState<Session | null>(null);
   const [aiPanel, setAiPanel] = useState<ToolPanel | null>(null);
   const aiPanelRef = useRef<ToolPanel | null>(null);
@@ -77,6 +86,15 @@ export function useLayoutData(sessionId: string | null): UseLayoutDataResult {
     void setExecutionModeWithPersist(nextMode);
   }, [setExecutionModeWithPersist]);
 
+  // Get list of enabled tools based on settings (unset plugins use their default)
+  const enabledTools = useMemo(() => {
+    const allTools = [
+      ...BUILTIN_TOOL_ORDER,
+      ...executors.filter((executor) => !executor.builtIn).map((executor) => executor.id),
+    ];
+    return allTools.filter((tool) => isExecutorEnabled(executors, settings.enabledProviders, tool));
+  }, [executors, settings.enabledProviders]);
+
   const setSelectedToolWithPersist = useCallback(async (tool: CLITool) => {
     if (!session) return;
 
@@ -93,16 +111,6 @@ export function useLayoutData(sessionId: string | null): UseLayoutDataResult {
   const cycleSelectedTool = useCallback(async () => {
     if (!session) return;
 
-    // Get list of enabled tools based on settings
-    const allTools: CLITool[] = ['claude', 'codex', 'kimi', 'gemini'];
-    const enabledTools = allTools.filter(tool => {
-      if (tool === 'claude') return settings.enabledProviders.claude;
-      if (tool === 'codex') return settings.enabledProviders.codex;
-      if (tool === 'gemini') return settings.enabledProviders.gemini;
-      if (tool === 'kimi') return settings.enabledProviders.kimi;
-      return false;
-    });
-
     // If no tools are enabled, do nothing
     if (enabledTools.length === 0) return;
 
@@ -112,7 +120,7 @@ export function useLayoutData(sessionId: string | null): UseLayoutDataResult {
     const nextTool = enabledTools[nextIndex];
 
     await setSelectedToolWithPersist(nextTool);
-  }, [session, selectedTool, setSelectedToolWithPersist, settings.enabledProviders]);
+  }, [session, selectedTool, setSelectedToolWithPersist, enabledTools]);
 
   useEffect(() => {
     if (!sessionId) {
@@ -140,15 +148,7 @@ export function useLayoutData(sessionId: string | null): UseLayoutDataResult {
         if (requestId !== requestIdRef.current) return;
         if (response.success && response.data) {
           setSession(response.data);
-          setSelectedTool(
-            response.data.toolType === 'codex'
-              ? 'codex'
-              : response.data.toolType === 'gemini'
-                ? 'gemini'
-                : response.data.toolType === 'kimi'
-                  ? 'kimi'
-                  : 'claude'
-          );
+          setSelectedTool(toSelectedTool(response.data.toolType));
           setExecutionMode(response.data.executionMode === 'plan' ? 'plan' : 'execute');
           setIsProcessing(
             response.data.status === 'running' || response.data.status === 'initializing'
@@ -169,7 +169,7 @@ export function useLayoutData(sessionId: string | null): UseLayoutDataResult {
         if (panelsResponse?.success && panelsResponse.data) {
           const panels: ToolPanel[] = panelsResponse.data;
 
-          const ai = panels.find(p => ['claude', 'codex', 'gemini', 'kimi'].includes(p.type)) || null;
+          const ai = panels.find(p => isAgentPanelType(p.type)) || null;
           setAiPanel(ai);
           const terminal = panels.find(p => p.type === 'terminal') || null;
           setTerminalPanel(terminal);
@@ -189,6 +189,28 @@ export function useLayoutData(sessionId: string | null): UseLayoutDataResult {
 
   useEnsureTerminalPanel(session, terminalPanel, setTerminalPanel);
 
+  // A clicked notification names the agent panel to show; select it once the session has loaded.
+  const panelFocus = useSessionStore((state) => state.panelFocus);
+  const clearPanelFocus = useSessionStore((state) => state.clearPanelFocus);
+  useEffect(() => {
+    if (!panelFocus || panelFocus.sessionId !== sessionId || session?.id !== sessionId || isLoadingSession) return;
+    clearPanelFocus();
+    if (aiPanelRef.current?.id === panelFocus.panelId) return;
+
+    const requestId = requestIdRef.current;
+    window.electronAPI.panels.list(sessionId)
+      .then((response) => {
+        if (requestId !== requestIdRef.current || !response?.success || !response.data) return;
+        const panel = (response.data as ToolPanel[]).find((p) => p.id === panelFocus.panelId);
+        if (!panel || !isAgentPanelType(panel.type)) return;
+        setAiPanel(panel);
+        setSelectedTool(panel.type as CLITool);
+      })
+      .catch(() => {
+        // Keep the panel that is already shown.
+      });
+  }, [sessionId, session?.id, isLoadingSession, panelFocus, clearPanelFocus]);
+
   useEffect(() => {
     if (!sessionId) return;
 
@@ -248,15 +270,7 @@ export function useLayoutData(sessionId: string | null): UseLayoutDataResult {
     const handleSessionCreated = (createdSession: Session) => {
       if (createdSession.id !== sessionId) return;
       setSession(createdSession);
-      setSelectedTool(
-        createdSession.toolType === 'codex'
-          ? 'codex'
-          : createdSession.toolType === 'gemini'
-            ? 'gemini'
-            : createdSession.toolType === 'kimi'
-              ? 'kimi'
-              : 'claude'
-      );
+      setSelectedTool(toSelectedTool(createdSession.toolType));
       setIsProcessing(
         createdSession.status === 'running' || createdSession.status === 'initializing'
       );
@@ -267,6 +281,10 @@ export function useLayoutData(sessionId: string | null): UseLayoutDataResult {
     const handleSessionUpdate = (updatedSession: Session) => {
       if (updatedSession.id === sessionId) {
         setSession(updatedSession);
+        // Approving a plan switches the session to execute mode in the main process.
+        if (updatedSession.executionMode) {
+          setExecutionMode(updatedSession.executionMode === 'plan' ? 'plan' : 'execute');
+        }
         setIsProcessing(
           updatedSession.status === 'running' || updatedSession.status === 'initializing'
         );
@@ -284,7 +302,7 @@ export function useLayoutData(sessionId: string | null): UseLayoutDataResult {
     };
   }, [sessionId]);
 
-  const ensureAiPanel = useCallback(async (desiredPanelType: 'claude' | 'codex' | 'gemini' | 'kimi') => {
+  const ensureAiPanel = useCallback(async (desiredPanelType: CLITool) => {
     if (!session) return null;
 
     let panelToUse = aiPanel;
@@ -314,13 +332,7 @@ export function useLayoutData(sessionId: string | null): UseLayoutDataResult {
       const createResponse = await window.electronAPI.panels.create({
         sessionId: session.id,
         type: desiredPanelType,
-        name: desiredPanelType === 'codex'
-          ? 'Codex'
-          : desiredPanelType === 'gemini'
-            ? 'Gemini'
-            : desiredPanelType === 'kimi'
-              ? 'Kimi'
-              : 'Claude'
+        name: getExecutorDisplayName(executors, desiredPanelType)
       });
 
       if (createResponse?.success && createResponse.data) {
@@ -355,7 +367,7 @@ export function useLayoutData(sessionId: string | null): UseLayoutDataResult {
     }
 
     return panelToUse;
-  }, [session, aiPanel, executionMode]);
+  }, [session, aiPanel, executionMode, executors]);
 
   const sendMessage = useCallback(async (message: string, images?: ImageAttachment[], planMode?: boolean) => {
     if (!session) return;
@@ -363,14 +375,7 @@ export function useLayoutData(sessionId: string | null): UseLayoutDataResult {
     setIsProcessing(true);
 
     try {
-      const desiredPanelType = selectedTool === 'codex'
-        ? 'codex'
-        : selectedTool === 'gemini'
-          ? 'gemini'
-          : selectedTool === 'kimi'
-            ? 'kimi'
-            : 'claude';
-      const panelToUse = await ensureAiPanel(desiredPanelType);
+      const panelToUse = await ensureAiPanel(selectedTool);
 
       if (!panelToUse) {
         console.error('No AI panel available');
@@ -395,14 +400,7 @@ export function useLayoutData(sessionId: string | null): UseLayoutDataResult {
     setIsProcessing(true);
 
     try {
-      const desiredPanelType = tool === 'codex'
-        ? 'codex'
-        : tool === 'gemini'
-          ? 'gemini'
-          : tool === 'kimi'
-            ? 'kimi'
-            : 'claude';
-      const panelToUse = await ensureAiPanel(desiredPanelType);
+      const panelToUse = await ensureAiPanel(tool);
 
       if (!panelToUse) {
         console.error('No AI panel available');
@@ -436,28 +434,15 @@ export function useLayoutData(sessionId: string | null): UseLayoutDataResult {
   useEffect(() => {
     if (!session) return;
 
-    const isCurrentToolEnabled =
-      (selectedTool === 'claude' && settings.enabledProviders.claude) ||
-      (selectedTool === 'codex' && settings.enabledProviders.codex) ||
-      (selectedTool === 'gemini' && settings.enabledProviders.gemini) ||
-      (selectedTool === 'kimi' && settings.enabledProviders.kimi);
+    const isCurrentToolEnabled = isExecutorEnabled(executors, settings.enabledProviders, selectedTool);
 
     // If current tool is disabled, switch to first enabled tool
     if (!isCurrentToolEnabled) {
-      const allTools: CLITool[] = ['claude', 'codex', 'kimi', 'gemini'];
-      const enabledTools = allTools.filter(tool => {
-        if (tool === 'claude') return settings.enabledProviders.claude;
-        if (tool === 'codex') return settings.enabledProviders.codex;
-        if (tool === 'gemini') return settings.enabledProviders.gemini;
-        if (tool === 'kimi') return settings.enabledProviders.kimi;
-        return false;
-      });
-
       if (enabledTools.length > 0 && enabledTools[0] !== selectedTool) {
         void setSelectedToolWithPersist(enabledTools[0]);
       }
     }
-  }, [selectedTool, settings.enabledProviders, session, setSelectedToolWithPersist]);
+  }, [selectedTool, settings.enabledProviders, enabledTools, executors, session, setSelectedToolWithPersist]);
 
   return {
     session,
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from 'react';
+import { API } from '../../utils/api';
+import type { QueuedPromptDTO } from '../../types/electron';
+
+/**
+ * Follow-up prompts queued for a session. The main process owns the queue and
+ * sends the next prompt when the agent goes idle; this mirrors it for display.
+ */
+export const usePromptQueue = (sessionId: string | null) => {
+  const [items, setItems] = useState<QueuedPromptDTO[]>([]);
+
+  useEffect(() => {
+    setItems([]);
+    if (!sessionId) return;
+
+    let cancelled = false;
+    API.sessions.getPromptQueue(sessionId)
+      .then((res) => {
+        if (!cancelled && res.success && res.data) setItems(res.data);
+      })
+      .catch(() => {
+        // ignore
+      });
+
+    const subscribe = window.electronAPI?.events?.onPromptQueueUpdated;
+    const unsubscribe = subscribe?.((data) => {
+      if (data.sessionId === sessionId) setItems(data.items);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [sessionId]);
+
+  const enqueue = useCallback(async (panelId: string, prompt: string, planMode?: boolean) => {
+    if (!sessionId) return;
+    const res = await API.sessions.enqueuePrompt(sessionId, panelId, prompt, { planMode });
+    if (!res.success) throw new Error(res.error || 'Failed to queue prompt');
+  }, [sessionId]);
+
+  const remove = useCallback(async (id: number) => {
+    setItems((prev) => prev.filter((item) => item.id !== id));
+    await API.sessions.removeQueuedPrompt(id);
+  }, []);
+
+  const move = useCallback(async (id: number, offset: -1 | 1) => {
+    if (!sessionId) return;
+    const index = items.findIndex((item) => item.id === id);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= items.length) return;
+
+    const next = [...items];
+    [next[index], next[target]] = [next[target], next[index]];
+    setItems(next);
+    await API.sessions.reorderPromptQueue(sessionId, next.map((item) => item.id));
+  }, [sessionId, items]);
+
+  const runNext = useCallback(async () => {
+    if (!sessionId) return;
+    await API.sessions.runNextQueuedPrompt(sessionId);
+  }, [sessionId]);
+
+  return { items, enqueue, remove, move, runNext };
+};
@@ -475,7 +475,7 @@ export function useRightPanelData(sessionId: string | undefined): RightPanelData
       if (e.status !== 'finished' && e.status !== 'failed') return;
       const meta = (e.meta || {}) as Record<string, unknown>;
       const source = typeof meta.source === 'string' ? meta.source : '';
-      if (source !== 'agent') return;
+      if (source !== 'agent' && source !== 'gitWorkflow') return;
       const cmd = typeof e.command === 'string' ? e.command.trim() : '';
       if (!cmd || !/^(git|gh)\b/.test(cmd)) return;
       const affectsHistory = /^(git\s+(add|commit|reset|checkout|switch|merge|rebase|cherry-pick|revert|stash|am|apply|rm|mv|tag)\b|gh\s+pr\s+(create|edit)\b)/.test(cmd);
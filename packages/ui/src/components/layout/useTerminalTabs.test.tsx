@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import React from 'react';
+import { useTerminalTabs } from './useTerminalTabs';
+import { TERMINAL_LAYOUT_KEYS } from './terminalUtils';
+import { useSettingsStore } from '../../stores/settingsStore';
+
+vi.mock('../../utils/api', () => ({
+  API: {
+    sessions: {
+      listTerminals: vi.fn(),
+      createTerminal: vi.fn(),
+      closeTerminal: vi.fn(),
+      renameTerminal: vi.fn(),
+    },
+  },
+}));
+
+import { API } from '../../utils/api';
+
+const terminal = (id: string, title: string) => ({
+  id,
+  sessionId: 's1',
+  type: 'terminal',
+  title,
+  state: { isActive: false },
+  metadata: { createdAt: 'now', lastActiveAt: 'now', position: 0 },
+});
+
+function Harness() {
+  const { terminals, activePanelId, addTerminal, closeTerminal, renameTerminal, selectTerminal } = useTerminalTabs('s1', 'p1');
+  return (
+    <div>
+      <div data-testid="titles">{terminals.map((t) => t.title).join(',')}</div>
+      <div data-testid="active">{activePanelId}</div>
+      <button type="button" onClick={() => void addTerminal()}>add</button>
+      <button type="button" onClick={() => void closeTerminal(activePanelId)}>close</button>
+      <button type="button" onClick={() => void renameTerminal('p1', ' Build ')}>rename</button>
+      <button type="button" onClick={() => selectTerminal('p2')}>select</button>
+    </div>
+  );
+}
+
+describe('useTerminalTabs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    useSettingsStore.setState((state) => ({ settings: { ...state.settings, terminalTmux: true } }));
+    (API.sessions.listTerminals as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({
+      success: true,
+      data: [terminal('p1', 'Terminal'), terminal('p2', 'Terminal 2')],
+    });
+    (API.sessions.createTerminal as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ success: true, data: terminal('p3', 'Terminal 3') });
+    (API.sessions.closeTerminal as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ success: true });
+    (API.sessions.renameTerminal as unknown as ReturnType<typeof vi.fn>).mockResolvedValue({ success: true });
+  });
+
+  it('loads the terminals and remembers the active tab per session', async () => {
+    localStorage.setItem(`${TERMINAL_LAYOUT_KEYS.activeTab}:s1`, 'p2');
+    render(<Harness />);
+
+    await waitFor(() => expect(screen.getByTestId('titles').textContent).toBe('Terminal,Terminal 2'));
+    expect(screen.getByTestId('active').textContent).toBe('p2');
+  });
+
+  it('falls back to the first terminal when the remembered one is gone', async () => {
+    localStorage.setItem(`${TERMINAL_LAYOUT_KEYS.activeTab}:s1`, 'gone');
+    render(<Harness />);
+
+    await waitFor(() => expect(screen.getByTestId('active').textContent).toBe('p1'));
+  });
+
+  it('creates terminals with the tmux setting and selects them', async () => {
+    render(<Harness />);
+    await waitFor(() => expect(screen.getByTestId('titles').textContent).toBe('Terminal,Terminal 2'));
+
+    fireEvent.click(screen.getByText('add'));
+
+    await waitFor(() => expect(screen.getByTestId('active').textContent).toBe('p3'));
+    expect(API.sessions.createTerminal).toHaveBeenCalledWith('s1', { tmux: true });
+    expect(screen.getByTestId('titles').textContent).toBe('Terminal,Terminal 2,Terminal 3');
+    expect(localStorage.getItem(`${TERMINAL_LAYOUT_KEYS.activeTab}:s1`)).toBe('p3');
+  });
+
+  it('selects the previous tab when the active one is closed', async () => {
+    render(<Harness />);
+    await waitFor(() => expect(screen.getByTestId('titles').textContent).toBe('Terminal,Terminal 2'));
+
+    fireEvent.click(screen.getByText('select'));
+    fireEvent.click(screen.getByText('close'));
+
+    await waitFor(() => expect(screen.getByTestId('titles').textContent).toBe('Terminal'));
+    expect(API.sessions.closeTerminal).toHaveBeenCalledWith('s1', 'p2');
+    expect(screen.getByTestId('active').textContent).toBe('p1');
+  });
+
+  it('renames a terminal', async () => {
+    render(<Harness />);
+    await waitFor(() => expect(screen.getByTestId('titles').textContent).toBe('Terminal,Terminal 2'));
+
+    fireEvent.click(screen.getByText('rename'));
+
+    await waitFor(() => expect(screen.getByTestId('titles').textContent).toBe('Build,Terminal 2'));
+    expect(API.sessions.renameTerminal).toHaveBeenCalledWith('s1', 'p1', 'Build');
+  });
+});
@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { ToolPanel } from '@snowtree/core/types/panels';
+import { API } from '../../utils/api';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { TERMINAL_LAYOUT_KEYS } from './terminalUtils';
+
+const getActiveKey = (sessionId: string) => `${TERMINAL_LAYOUT_KEYS.activeTab}:${sessionId}`;
+
+/**
+ * The terminal tabs of a session. `fallbackPanelId` is the terminal the layout
+ * already ensured, shown until the full list has loaded.
+ */
+export const useTerminalTabs = (sessionId: string, fallbackPanelId: string) => {
+  const [terminals, setTerminals] = useState<ToolPanel[]>([]);
+  const [activeId, setActiveId] = useState<string>(() => localStorage.getItem(getActiveKey(sessionId)) || fallbackPanelId);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const res = await API.sessions.listTerminals(sessionId);
+      if (!res.success || !res.data) {
+        setError(res.error || 'Failed to load terminals');
+        return;
+      }
+      setError(null);
+      setTerminals(res.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load terminals');
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    setTerminals([]);
+    setActiveId(localStorage.getItem(getActiveKey(sessionId)) || fallbackPanelId);
+    void refresh();
+  }, [sessionId, fallbackPanelId, refresh]);
+
+  // Fall back to the first terminal when the remembered one is gone
+  const activePanelId = terminals.length === 0 || terminals.some((t) => t.id === activeId)
+    ? activeId
+    : terminals[0].id;
+
+  const selectTerminal = useCallback((panelId: string) => {
+    setActiveId(panelId);
+    localStorage.setItem(getActiveKey(sessionId), panelId);
+  }, [sessionId]);
+
+  const addTerminal = useCallback(async () => {
+    const tmux = useSettingsStore.getState().settings.terminalTmux;
+    const res = await API.sessions.createTerminal(sessionId, { tmux });
+    if (!res.success || !res.data) {
+      setError(res.error || 'Failed to create terminal');
+      return null;
+    }
+    const panel = res.data;
+    setTerminals((prev) => [...prev.filter((t) => t.id !== panel.id), panel]);
+    selectTerminal(panel.id);
+    return panel;
+  }, [sessionId, selectTerminal]);
+
+  const closeTerminal = useCallback(async (panelId: string) => {
+    const index = terminals.findIndex((t) => t.id === panelId);
+    const res = await API.sessions.closeTerminal(sessionId, panelId);
+    if (!res.success) {
+      setError(res.error || 'Failed to close terminal');
+      return;
+    }
+    const remaining = terminals.filter((t) => t.id !== panelId);
+    setTerminals(remaining);
+    if (panelId === activePanelId && remaining.length > 0) {
+      selectTerminal(remaining[Math.max(0, index - 1)].id);
+    }
+  }, [sessionId, terminals, activePanelId, selectTerminal]);
+
+  const renameTerminal = useCallback(async (panelId: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    const res = await API.sessions.renameTerminal(sessionId, panelId, trimmed);
+    if (!res.success) {
+      setError(res.error || 'Failed to rename terminal');
+      return;
+    }
+    setTerminals((prev) => prev.map((t) => (t.id === panelId ? { ...t, title: trimmed } : t)));
+  }, [sessionId]);
+
+  return {
+    terminals,
+    activePanelId,
+    error,
+    selectTerminal,
+    addTerminal,
+    closeTerminal,
+    renameTerminal,
+  };
+};
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { DiffCommentEditor, DiffCommentNote } from './DiffComments';
+import type { DiffCommentDTO } from '../../../types/electron';
+
+const comment = (overrides: Partial<DiffCommentDTO> = {}): DiffCommentDTO => ({
+  id: 1,
+  session_id: 's1',
+  file_path: 'src/app.ts',
+  side: 'additions',
+  start_line: 4,
+  end_line: 4,
+  anchor_text: 'const value = a();',
+  commit_hash: null,
+  body: 'Handle errors from a()',
+  status: 'pending',
+  outdated: false,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('DiffCommentEditor', () => {
+  it('submits the trimmed comment with Cmd+Enter', async () => {
+    const onSubmit = vi.fn(async () => {});
+    render(<DiffCommentEditor submitLabel="Comment" onSubmit={onSubmit} onCancel={vi.fn()} />);
+
+    const textarea = screen.getByPlaceholderText('Leave a comment for the agent');
+    fireEvent.change(textarea, { target: { value: '  Rename this  ' } });
+    fireEvent.keyDown(textarea, { key: 'Enter', metaKey: true });
+
+    await waitFor(() => expect(onSubmit).toHaveBeenCalledWith('Rename this'));
+  });
+
+  it('keeps the text and shows the error when saving fails', async () => {
+    render(
+      <DiffCommentEditor
+        submitLabel="Comment"
+        initialBody="Rename this"
+        onSubmit={vi.fn(async () => { throw new Error('Session worktree not found'); })}
+        onCancel={vi.fn()}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Comment'));
+
+    expect(await screen.findByText('Session worktree not found')).toBeInTheDocument();
+    expect(screen.getByDisplayValue('Rename this')).toBeInTheDocument();
+  });
+});
+
+describe('DiffCommentNote', () => {
+  it('edits and deletes pending comments', async () => {
+    const onUpdate = vi.fn(async () => {});
+    const onDelete = vi.fn(async () => {});
+    render(<DiffCommentNote comment={comment({ end_line: 6, outdated: true })} onUpdate={onUpdate} onDelete={onDelete} />);
+
+    expect(screen.getByText('lines 4-6')).toBeInTheDocument();
+    expect(screen.getByText('line changed')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByTitle('Delete comment'));
+    expect(onDelete).toHaveBeenCalledWith(1);
+
+    fireEvent.click(screen.getByTitle('Edit comment'));
+    fireEvent.change(screen.getByDisplayValue('Handle errors from a()'), { target: { value: 'Retry a() once' } });
+    fireEvent.click(screen.getByText('Save'));
+    await waitFor(() => expect(onUpdate).toHaveBeenCalledWith(1, 'Retry a() once'));
+    expect(await screen.findByTestId('diff-comment')).toBeInTheDocument();
+  });
+
+  it('does not offer editing once the comment was sent', () => {
+    render(<DiffCommentNote comment={comment({ status: 'sent' })} onUpdate={vi.fn()} onDelete={vi.fn()} />);
+
+    expect(screen.getByText('Sent to agent')).toBeInTheDocument();
+    expect(screen.queryByTitle('Edit comment')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { Pencil, Trash2 } from 'lucide-react';
+import type { DiffCommentDTO } from '../../../types/electron';
+
+export function DiffCommentEditor({
+  initialBody = '',
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  initialBody?: string;
+  submitLabel: string;
+  onSubmit: (body: string) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const [body, setBody] = useState(initialBody);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async () => {
+    if (!body.trim() || isSaving) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSubmit(body.trim());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save comment');
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="px-3 py-1.5" data-testid="diff-comment-editor">
+      <textarea
+        autoFocus
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            void submit();
+          } else if (e.key === 'Escape') {
+            e.preventDefault();
+            onCancel();
+          }
+        }}
+        rows={3}
+        placeholder="Leave a comment for the agent"
+        className="w-full resize-y rounded border px-2 py-1.5 text-xs st-focus-ring"
+        style={{ backgroundColor: 'var(--st-editor)', borderColor: 'var(--st-border-variant)', color: 'var(--st-text)', fontFamily: 'inherit' }}
+      />
+      {error && <div className="mt-1 text-[11px]" style={{ color: 'var(--st-danger)' }}>{error}</div>}
+      <div className="mt-1 flex items-center justify-end gap-1.5">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-2 py-1 rounded text-[11px] st-hoverable st-focus-ring"
+          style={{ color: 'var(--st-text-muted)' }}
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => void submit()}
+          disabled={!body.trim() || isSaving}
+          className="px-2 py-1 rounded text-[11px] font-medium st-focus-ring disabled:opacity-40"
+          style={{ backgroundColor: 'var(--st-accent)', color: '#000000' }}
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function DiffCommentNote({
+  comment,
+  onUpdate,
+  onDelete,
+}: {
+  comment: DiffCommentDTO;
+  onUpdate?: (id: number, body: string) => Promise<void>;
+  onDelete?: (id: number) => Promise<void>;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+
+  if (isEditing && onUpdate) {
+    return (
+      <DiffCommentEditor
+        initialBody={comment.body}
+        submitLabel="Save"
+        onSubmit={async (body) => {
+          await onUpdate(comment.id, body);
+          setIsEditing(false);
+        }}
+        onCancel={() => setIsEditing(false)}
+      />
+    );
+  }
+
+  const range = comment.end_line > comment.start_line ? `lines ${comment.start_line}-${comment.end_line}` : null;
+  const isPending = comment.status === 'pending';
+
+  return (
+    <div className="px-3 py-1">
+      <div
+        className="rounded border px-2 py-1.5 text-xs"
+        style={{
+          backgroundColor: 'color-mix(in srgb, var(--st-warning) 8%, var(--st-editor))',
+          borderColor: 'color-mix(in srgb, var(--st-warning) 30%, transparent)',
+          opacity: isPending ? 1 : 0.6,
+        }}
+        data-testid="diff-comment"
+      >
+        <div className="flex items-center gap-2 mb-0.5 text-[10px]" style={{ color: 'var(--st-text-faint)' }}>
+          <span className="font-medium" style={{ color: 'var(--st-text-muted)' }}>{isPending ? 'Pending' : 'Sent to agent'}</span>
+          {range && <span>{range}</span>}
+          {comment.outdated && <span style={{ color: 'var(--st-warning)' }}>line changed</span>}
+          <span className="flex-1" />
+          {isPending && onUpdate && (
+            <button type="button" onClick={() => setIsEditing(true)} className="p-0.5 rounded st-hoverable st-focus-ring" title="Edit comment">
+              <Pencil className="w-3 h-3" />
+            </button>
+          )}
+          {onDelete && (
+            <button
+              type="button"
+              onClick={() => {
+                onDelete(comment.id).catch((err) => console.error('[Diffs] Failed to delete comment', { id: comment.id, err }));
+              }}
+              className="p-0.5 rounded st-hoverable st-focus-ring"
+              title="Delete comment"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+        <div className="whitespace-pre-wrap break-words" style={{ color: 'var(--st-text)' }}>{comment.body}</div>
+      </div>
+    </div>
+  );
+}
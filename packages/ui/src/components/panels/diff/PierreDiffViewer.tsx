@@ -1,13 +1,15 @@
 import React, { memo, useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { Check, ChevronRight, Eye, EyeOff, Minus, Plus, RotateCcw, UnfoldVertical } from 'lucide-react';
+import { Check, ChevronRight, Eye, EyeOff, MessageSquarePlus, MessageSquareText, Minus, Plus, RotateCcw, UnfoldVertical } from 'lucide-react';
 import { FileDiff, WorkerPoolContextProvider } from '@pierre/diffs/react';
 import { parsePatchFiles, type DiffLineAnnotation, type FileDiffMetadata, type Hunk } from '@pierre/diffs';
 
 import { API } from '../../../utils/api';
 import { withTimeout } from '../../../utils/withTimeout';
+import type { DiffCommentDTO, DiffCommentInputDTO, ReviewCommentDTO } from '../../../types/electron';
 import { workerFactory } from '../../../utils/diffsWorker';
 import { useThemeStore } from '../../../stores/themeStore';
 
+import { DiffCommentEditor, DiffCommentNote } from './DiffComments';
 import { ImagePreview } from './ImagePreview';
 import { MarkdownPreview } from './MarkdownPreview';
 import { useFilePreviewState } from './useFilePreviewState';
@@ -201,6 +203,21 @@ type PierreDiffViewerProps = {
   fileOrder?: string[];
   className?: string;
   onChanged?: () => void;
+  /** PR review comments, shown below the line they were left on */
+  reviewComments?: ReviewCommentDTO[];
+  /** Local comments of the session; lines can be commented when onAddComment is set */
+  comments?: DiffCommentDTO[];
+  onAddComment?: (input: DiffCommentInputDTO) => Promise<void>;
+  onUpdateComment?: (id: number, body: string) => Promise<void>;
+  onDeleteComment?: (id: number) => Promise<void>;
+};
+
+type CommentSide = DiffCommentDTO['side'];
+
+type CommentDraft = {
+  side: CommentSide;
+  startLine: number;
+  endLine: number;
 };
 
 type HunkMeta = {
@@ -217,10 +234,52 @@ type HunkMeta = {
 };
 
 type HunkStatusAnnotation = {
+  kind: 'hunk';
   status: HunkMeta['status'];
   label: string;
 };
 
+type ReviewCommentAnnotation = {
+  kind: 'review';
+  comments: ReviewCommentDTO[];
+};
+
+type DiffCommentAnnotation = {
+  kind: 'comments';
+  comments: DiffCommentDTO[];
+};
+
+type DraftAnnotation = {
+  kind: 'draft';
+};
+
+type LineAnnotation = HunkStatusAnnotation | ReviewCommentAnnotation | DiffCommentAnnotation | DraftAnnotation;
+
+function ReviewCommentNote({ comment }: { comment: ReviewCommentDTO }) {
+  return (
+    <div
+      className="rounded border px-2 py-1.5 text-xs"
+      style={{
+        backgroundColor: 'color-mix(in srgb, var(--st-accent) 8%, var(--st-editor))',
+        borderColor: 'color-mix(in srgb, var(--st-accent) 30%, transparent)',
+        opacity: comment.status === 'sent' ? 0.7 : 1,
+      }}
+      data-testid="diff-review-comment"
+    >
+      <div className="flex items-center gap-2 mb-0.5 text-[10px]" style={{ color: 'var(--st-text-faint)' }}>
+        <span className="font-medium" style={{ color: 'var(--st-text-muted)' }}>@{comment.author}</span>
+        {comment.status === 'sent' && <span>sent to agent</span>}
+      </div>
+      <div className="whitespace-pre-wrap break-words" style={{ color: 'var(--st-text)' }}>{comment.body}</div>
+      {comment.replies.map((reply, index) => (
+        <div key={index} className="mt-1 pl-2 border-l whitespace-pre-wrap break-words" style={{ borderColor: 'var(--st-border-variant)', color: 'var(--st-text-muted)' }}>
+          <span className="font-medium">@{reply.author}</span> {reply.body}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function findHoveredHunk(hunks: HunkMeta[], lineNumber: number, side: 'deletions' | 'additions'): HunkMeta | null {
   if (!Number.isFinite(lineNumber)) return null;
   for (const hunk of hunks) {
@@ -271,6 +330,11 @@ const FileCard = memo(function FileCard({
   onToggleReviewed,
   isCollapsed,
   onToggleCollapsed,
+  reviewComments,
+  comments,
+  onAddComment,
+  onUpdateComment,
+  onDeleteComment,
 }: {
   fileDiff: FileDiffMetadata;
   stagedEntries: HunkHeaderEntry[] | undefined;
@@ -289,6 +353,11 @@ const FileCard = memo(function FileCard({
   onToggleReviewed: () => void;
   isCollapsed: boolean;
   onToggleCollapsed: () => void;
+  reviewComments?: ReviewCommentDTO[];
+  comments?: DiffCommentDTO[];
+  onAddComment?: (draft: CommentDraft, body: string) => Promise<void>;
+  onUpdateComment?: (id: number, body: string) => Promise<void>;
+  onDeleteComment?: (id: number) => Promise<void>;
 }) {
   const headerRef = useRef<HTMLDivElement>(null);
   useEffect(() => {
@@ -344,9 +413,9 @@ const FileCard = memo(function FileCard({
   const isFullyStaged = hasStaged && !hasUnstaged;
   const isFullyUnstaged = !hasStaged && hasUnstaged;
 
-  const hunkStatusAnnotations = useMemo<DiffLineAnnotation<HunkStatusAnnotation>[]>(() => {
+  const hunkStatusAnnotations = useMemo<DiffLineAnnotation<LineAnnotation>[]>(() => {
     if (isCommitView) return [];
-    const annotations: DiffLineAnnotation<HunkStatusAnnotation>[] = [];
+    const annotations: DiffLineAnnotation<LineAnnotation>[] = [];
     const seen = new Set<string>();
 
     for (const hunk of hunksMeta) {
@@ -360,6 +429,7 @@ const FileCard = memo(function FileCard({
         side: 'additions',
         lineNumber,
         metadata: {
+          kind: 'hunk',
           status: hunk.status,
           label: hunk.status === 'staged' ? 'Staged' : hunk.status === 'unstaged' ? 'Unstaged' : 'Untracked',
         },
@@ -369,9 +439,74 @@ const FileCard = memo(function FileCard({
     return annotations;
   }, [hunksMeta, isCommitView]);
 
-  const renderHunkStatusAnnotation = useCallback((annotation: DiffLineAnnotation<HunkStatusAnnotation>) => {
+  // Review comments are anchored on the new side, where forges report their line.
+  const fileReviewComments = useMemo(() => (reviewComments ?? []).filter((c) => c.line === null), [reviewComments]);
+  const [draft, setDraft] = useState<CommentDraft | null>(null);
+  const lineAnnotations = useMemo<DiffLineAnnotation<LineAnnotation>[]>(() => {
+    const byLine = new Map<number, ReviewCommentDTO[]>();
+    for (const comment of reviewComments ?? []) {
+      if (comment.line === null) continue;
+      byLine.set(comment.line, [...(byLine.get(comment.line) ?? []), comment]);
+    }
+    const reviewAnnotations: DiffLineAnnotation<LineAnnotation>[] = Array.from(byLine, ([lineNumber, comments]) => ({
+      side: 'additions',
+      lineNumber,
+      metadata: { kind: 'review', comments },
+    }));
+
+    // Local comments sit below the last line of their range, like a draft being written.
+    const bySideLine = new Map<string, DiffCommentDTO[]>();
+    for (const comment of comments ?? []) {
+      const key = `${comment.side}:${comment.end_line}`;
+      bySideLine.set(key, [...(bySideLine.get(key) ?? []), comment]);
+    }
+    const commentAnnotations: DiffLineAnnotation<LineAnnotation>[] = Array.from(bySideLine.values(), (group) => ({
+      side: group[0].side,
+      lineNumber: group[0].end_line,
+      metadata: { kind: 'comments', comments: group },
+    }));
+    const draftAnnotations: DiffLineAnnotation<LineAnnotation>[] = draft
+      ? [{ side: draft.side, lineNumber: draft.endLine, metadata: { kind: 'draft' } }]
+      : [];
+
+    if (reviewAnnotations.length === 0 && commentAnnotations.length === 0 && draftAnnotations.length === 0) {
+      return hunkStatusAnnotations;
+    }
+    return [...hunkStatusAnnotations, ...reviewAnnotations, ...commentAnnotations, ...draftAnnotations];
+  }, [comments, draft, hunkStatusAnnotations, reviewComments]);
+
+  const renderLineAnnotation = useCallback((annotation: DiffLineAnnotation<LineAnnotation>) => {
     const metadata = annotation.metadata;
     if (!metadata) return null;
+    if (metadata.kind === 'review') {
+      return (
+        <div className="px-3 py-1 space-y-1">
+          {metadata.comments.map((comment) => <ReviewCommentNote key={comment.id} comment={comment} />)}
+        </div>
+      );
+    }
+    if (metadata.kind === 'comments') {
+      return (
+        <div>
+          {metadata.comments.map((comment) => (
+            <DiffCommentNote key={comment.id} comment={comment} onUpdate={onUpdateComment} onDelete={onDeleteComment} />
+          ))}
+        </div>
+      );
+    }
+    if (metadata.kind === 'draft') {
+      if (!draft || !onAddComment) return null;
+      return (
+        <DiffCommentEditor
+          submitLabel={draft.endLine > draft.startLine ? `Comment on lines ${draft.startLine}-${draft.endLine}` : 'Comment'}
+          onSubmit={async (body) => {
+            await onAddComment(draft, body);
+            setDraft(null);
+          }}
+          onCancel={() => setDraft(null)}
+        />
+      );
+    }
 
     const tone =
       metadata.status === 'staged'
@@ -401,7 +536,7 @@ const FileCard = memo(function FileCard({
         {metadata.label}
       </span>
     );
-  }, []);
+  }, [draft, onAddComment, onDeleteComment, onUpdateComment]);
 
   const stageFile = useCallback(
     async (stage: boolean) => {
@@ -478,8 +613,10 @@ const FileCard = memo(function FileCard({
   );
 
   const [hoveredHunk, setHoveredHunk] = useState<HunkMeta | null>(null);
+  const [hoveredLine, setHoveredLine] = useState<{ lineNumber: number; side: CommentSide } | null>(null);
 
-  const enableHoverUtility = !isCommitView && Boolean(sessionId);
+  const canStage = !isCommitView && Boolean(sessionId);
+  const enableHoverUtility = canStage || Boolean(onAddComment);
 
   const targetKind = target?.kind;
   const targetHash = target?.kind === 'commit' ? target.hash : null;
@@ -562,9 +699,13 @@ const FileCard = memo(function FileCard({
       onLineEnter: (props: any) => {
         const h = findHoveredHunk(hunksMeta, props.lineNumber, props.annotationSide);
         setHoveredHunk(h);
+        setHoveredLine(Number.isFinite(props.lineNumber)
+          ? { lineNumber: props.lineNumber, side: props.annotationSide === 'deletions' ? 'deletions' : 'additions' }
+          : null);
       },
       onLineLeave: () => {
         setHoveredHunk(null);
+        setHoveredLine(null);
       },
     };
     if (!enableHoverUtility) {
@@ -591,7 +732,47 @@ const FileCard = memo(function FileCard({
   }, [contextLines, fileDiff]);
 
   const hoverUtility = useMemo(() => {
-    if (!enableHoverUtility || hoveredHunk == null) return null;
+    if (!enableHoverUtility) return null;
+
+    const commentButtons = onAddComment && (hoveredLine || hoveredHunk) ? (
+      <>
+        {hoveredLine && (
+          <button
+            type="button"
+            className="st-icon-button st-focus-ring !w-5 !h-5"
+            data-testid="diff-line-comment"
+            title="Comment on line"
+            onClick={(e) => {
+              e.stopPropagation();
+              setDraft({ side: hoveredLine.side, startLine: hoveredLine.lineNumber, endLine: hoveredLine.lineNumber });
+            }}
+          >
+            <MessageSquarePlus className="w-3.5 h-3.5" />
+          </button>
+        )}
+        {hoveredHunk && (hoveredHunk.newCount > 0 || hoveredHunk.oldCount > 0) && (
+          <button
+            type="button"
+            className="st-icon-button st-focus-ring !w-5 !h-5"
+            data-testid="diff-hunk-comment"
+            title="Comment on hunk"
+            onClick={(e) => {
+              e.stopPropagation();
+              // Pure deletions have no new lines to anchor on.
+              setDraft(hoveredHunk.newCount > 0
+                ? { side: 'additions', startLine: hoveredHunk.newStart, endLine: hoveredHunk.newStart + hoveredHunk.newCount - 1 }
+                : { side: 'deletions', startLine: hoveredHunk.oldStart, endLine: hoveredHunk.oldStart + hoveredHunk.oldCount - 1 });
+            }}
+          >
+            <MessageSquareText className="w-3.5 h-3.5" />
+          </button>
+        )}
+      </>
+    ) : null;
+
+    if (!canStage || hoveredHunk == null) {
+      return commentButtons ? <div className="flex h-full items-center gap-1 pr-1">{commentButtons}</div> : null;
+    }
 
     const canStageOrUnstage = Boolean(sessionId);
     const isPending = pendingKeys.has(`hunk:${fileDiff.name}:${hoveredHunk.index}`);
@@ -602,6 +783,7 @@ const FileCard = memo(function FileCard({
 
     return (
       <div className="flex h-full items-center gap-1 pr-1">
+        {commentButtons}
         <button
           type="button"
           className="st-icon-button st-focus-ring !w-5 !h-5 disabled:opacity-40"
@@ -633,7 +815,7 @@ const FileCard = memo(function FileCard({
         </button>
       </div>
     );
-  }, [enableHoverUtility, fileDiff.name, fileDiff.type, hoveredHunk, pendingKeys, restoreFile, restoreHunk, sessionId, stageFile, stageHunk]);
+  }, [canStage, enableHoverUtility, fileDiff.name, fileDiff.type, hoveredHunk, hoveredLine, onAddComment, pendingKeys, restoreFile, restoreHunk, sessionId, stageFile, stageHunk]);
 
   const containerStyle = useMemo(
     () =>
@@ -807,14 +989,21 @@ const FileCard = memo(function FileCard({
               {isImageFile(fileDiff.name) ? 'Binary file (image)' : isBinaryFile(fileDiff.name) ? 'Binary file' : 'Diff unavailable.'}
             </div>
           ) : (
-            <FileDiff<HunkStatusAnnotation>
-              fileDiff={fileDiffForRender}
-              options={diffOptions as any}
-              lineAnnotations={hunkStatusAnnotations}
-              renderAnnotation={renderHunkStatusAnnotation}
-              renderHoverUtility={() => hoverUtility}
-              style={{ width: '100%', maxWidth: '100%', minWidth: 0 }}
-            />
+            <>
+              {fileReviewComments.length > 0 && (
+                <div className="px-3 py-1.5 space-y-1">
+                  {fileReviewComments.map((comment) => <ReviewCommentNote key={comment.id} comment={comment} />)}
+                </div>
+              )}
+              <FileDiff<LineAnnotation>
+                fileDiff={fileDiffForRender}
+                options={diffOptions as any}
+                lineAnnotations={lineAnnotations}
+                renderAnnotation={renderLineAnnotation}
+                renderHoverUtility={() => hoverUtility}
+                style={{ width: '100%', maxWidth: '100%', minWidth: 0 }}
+              />
+            </>
           )}
         </div>
       )}
@@ -833,6 +1022,11 @@ export const PierreDiffViewer: React.FC<PierreDiffViewerProps> = memo(function P
   fileOrder,
   className,
   onChanged,
+  reviewComments,
+  comments,
+  onAddComment,
+  onUpdateComment,
+  onDeleteComment,
 }: PierreDiffViewerProps) {
   const theme = useThemeStore((s) => s.theme);
   const themeType = theme === 'light' ? 'light' : 'dark';
@@ -844,6 +1038,24 @@ export const PierreDiffViewer: React.FC<PierreDiffViewerProps> = memo(function P
   }, [diff, fileOrder]);
 
   const stagedEntriesByFile = useMemo(() => buildHunkHeaderEntries(stagedDiff), [stagedDiff]);
+  const reviewCommentsByFile = useMemo(() => {
+    const byFile = new Map<string, ReviewCommentDTO[]>();
+    for (const comment of reviewComments ?? []) {
+      byFile.set(comment.path, [...(byFile.get(comment.path) ?? []), comment]);
+    }
+    return byFile;
+  }, [reviewComments]);
+
+  // Working-tree comments show on working diffs; commit comments only on their commit.
+  const commentHash = target?.kind === 'commit' ? target.hash : null;
+  const commentsByFile = useMemo(() => {
+    const byFile = new Map<string, DiffCommentDTO[]>();
+    for (const comment of comments ?? []) {
+      if (comment.commit_hash !== commentHash) continue;
+      byFile.set(comment.file_path, [...(byFile.get(comment.file_path) ?? []), comment]);
+    }
+    return byFile;
+  }, [commentHash, comments]);
   const unstagedEntriesByFile = useMemo(() => buildHunkHeaderEntries(unstagedDiff), [unstagedDiff]);
 
   // --- Reviewed / collapsed file tracking ---
@@ -958,6 +1170,13 @@ export const PierreDiffViewer: React.FC<PierreDiffViewerProps> = memo(function P
               onToggleReviewed={() => toggleReviewed(file.name)}
               isCollapsed={collapsedFiles.has(file.name)}
               onToggleCollapsed={() => toggleCollapsed(file.name)}
+              reviewComments={reviewCommentsByFile.get(file.name)}
+              comments={commentsByFile.get(file.name)}
+              onAddComment={onAddComment
+                ? (draft, body) => onAddComment({ filePath: file.name, commitHash: commentHash, ...draft, body })
+                : undefined}
+              onUpdateComment={onUpdateComment}
+              onDeleteComment={onDeleteComment}
             />
           ))
         )}
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ApprovalRequestCard } from './ApprovalRequestCard';
+
+const timestamp = '2020-01-01T00:00:00.000Z';
+
+describe('ApprovalRequestCard', () => {
+  it('shows the command and passes the chosen decision', async () => {
+    const onResolve = vi.fn().mockResolvedValue(undefined);
+    render(
+      <ApprovalRequestCard
+        kind="command"
+        details={{ command: 'npm publish', cwd: '/repo' }}
+        status="pending"
+        timestamp={timestamp}
+        onResolve={onResolve}
+      />
+    );
+
+    expect(screen.getByText('Run command?')).toBeInTheDocument();
+    expect(screen.getByText('$ npm publish')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Approve for session'));
+    await waitFor(() => expect(onResolve).toHaveBeenCalledWith('approve_for_session'));
+  });
+
+  it('renders the patch and surfaces errors from answering', async () => {
+    const onResolve = vi.fn().mockRejectedValue(new Error('Approval request is no longer pending'));
+    render(
+      <ApprovalRequestCard
+        kind="file_change"
+        details={{ files: [{ path: 'src/a.ts', diff: '-old\n+new' }] }}
+        status="pending"
+        timestamp={timestamp}
+        onResolve={onResolve}
+      />
+    );
+
+    expect(screen.getByText('src/a.ts')).toBeInTheDocument();
+    expect(screen.getByText('+new')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Deny'));
+    expect(await screen.findByText('Approval request is no longer pending')).toBeInTheDocument();
+  });
+
+  it('shows the recorded decision without actions once answered', () => {
+    render(
+      <ApprovalRequestCard
+        kind="command"
+        details={{ command: 'ls' }}
+        status="answered"
+        decision="deny"
+        source="telegram"
+        timestamp={timestamp}
+        onResolve={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('Denied')).toBeInTheDocument();
+    expect(screen.getByText('via Telegram')).toBeInTheDocument();
+    expect(screen.queryByText('Approve')).not.toBeInTheDocument();
+  });
+});
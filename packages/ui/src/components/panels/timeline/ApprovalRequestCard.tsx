@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { Check, FileDiff, ShieldQuestion, Terminal, X } from 'lucide-react';
+import type { ToolApprovalDecisionDTO, ToolApprovalDetailsDTO } from '../../../types/electron';
+
+const colors = {
+  surface: 'var(--st-surface)',
+  border: 'var(--st-border-variant)',
+  accent: 'var(--st-accent)',
+  success: 'var(--st-success)',
+  danger: 'var(--st-danger)',
+  diffBg: 'var(--st-diff-bg)',
+  text: {
+    primary: 'var(--st-text)',
+    secondary: 'var(--st-text-muted)',
+    muted: 'var(--st-text-faint)',
+  },
+};
+
+const DECISION_LABELS: Record<string, string> = {
+  approve: 'Approved',
+  approve_for_session: 'Approved for session',
+  deny: 'Denied',
+  cancel: 'Cancelled',
+};
+
+const diffLineColor = (line: string): string => {
+  if (line.startsWith('+') && !line.startsWith('+++')) return colors.success;
+  if (line.startsWith('-') && !line.startsWith('---')) return colors.danger;
+  if (line.startsWith('@@')) return colors.accent;
+  return colors.text.secondary;
+};
+
+export interface ApprovalRequestCardProps {
+  kind: 'command' | 'file_change';
+  details: ToolApprovalDetailsDTO;
+  status: 'pending' | 'answered';
+  /** Recorded decision once answered ('cancel' when the agent went away first). */
+  decision?: string;
+  source?: string;
+  timestamp: string;
+  onResolve?: (decision: ToolApprovalDecisionDTO) => Promise<void>;
+}
+
+/**
+ * An agent asking before it runs a command or applies a patch. Pending requests
+ * are actionable; answered ones stay in the timeline with the recorded decision.
+ */
+export const ApprovalRequestCard: React.FC<ApprovalRequestCardProps> = ({
+  kind,
+  details,
+  status,
+  decision,
+  source,
+  timestamp,
+  onResolve,
+}) => {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const pending = status === 'pending';
+
+  const handleResolve = async (choice: ToolApprovalDecisionDTO) => {
+    if (!onResolve) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await onResolve(choice);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to answer approval');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const Icon = kind === 'file_change' ? FileDiff : Terminal;
+  const title = kind === 'file_change' ? 'Apply file changes?' : 'Run command?';
+
+  return (
+    <div
+      className="rounded-lg px-4 py-3 my-2 text-[12px] flex flex-col gap-2"
+      style={{
+        backgroundColor: colors.surface,
+        border: `1px solid ${pending ? colors.accent : colors.border}`,
+      }}
+      data-testid="approval-request"
+    >
+      <div className="flex items-center gap-2">
+        {pending
+          ? <ShieldQuestion className="w-3.5 h-3.5" style={{ color: colors.accent }} />
+          : <Icon className="w-3.5 h-3.5" style={{ color: colors.text.muted }} />}
+        <span style={{ color: colors.text.primary, fontWeight: 500 }}>
+          {pending ? title : kind === 'file_change' ? 'File changes' : 'Command'}
+        </span>
+        {!pending && decision && (
+          <span
+            className="flex items-center gap-1"
+            style={{ color: decision === 'deny' || decision === 'cancel' ? colors.danger : colors.success }}
+          >
+            {decision === 'deny' || decision === 'cancel' ? <X className="w-3 h-3" /> : <Check className="w-3 h-3" />}
+            {DECISION_LABELS[decision] ?? decision}
+            {source === 'telegram' && <span style={{ color: colors.text.muted }}>via Telegram</span>}
+          </span>
+        )}
+        <span className="ml-auto" style={{ color: colors.text.muted, fontSize: '0.85em' }}>
+          {new Date(timestamp).toLocaleTimeString('en-US', {
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+            hour12: false,
+          })}
+        </span>
+      </div>
+
+      {details.reason && <div style={{ color: colors.text.secondary }}>{details.reason}</div>}
+
+      {details.command && (
+        <pre
+          className="px-2 py-1.5 rounded font-mono text-[11px] whitespace-pre-wrap break-all"
+          style={{ backgroundColor: colors.diffBg, color: colors.text.primary }}
+        >
+          $ {details.command}
+        </pre>
+      )}
+      {details.cwd && (
+        <div className="font-mono text-[11px] truncate" style={{ color: colors.text.muted }}>in {details.cwd}</div>
+      )}
+
+      {(details.files ?? []).map((file) => (
+        <div key={file.path} className="flex flex-col gap-1">
+          <div className="font-mono text-[11px]" style={{ color: colors.text.primary }}>{file.path}</div>
+          {pending && file.diff && (
+            <pre
+              className="px-2 py-1.5 rounded font-mono text-[11px] leading-4 overflow-x-auto max-h-64"
+              style={{ backgroundColor: colors.diffBg }}
+            >
+              {file.diff.split('\n').map((line, i) => (
+                <div key={i} style={{ color: diffLineColor(line) }}>{line || ' '}</div>
+              ))}
+            </pre>
+          )}
+        </div>
+      ))}
+
+      {error && <div style={{ color: colors.danger }}>{error}</div>}
+
+      {pending && onResolve && (
+        <div className="flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={() => void handleResolve('deny')}
+            disabled={busy}
+            className="px-2 py-1 rounded st-hoverable st-focus-ring disabled:opacity-50"
+            style={{ color: colors.danger }}
+          >
+            Deny
+          </button>
+          <button
+            type="button"
+            onClick={() => void handleResolve('approve_for_session')}
+            disabled={busy}
+            className="px-2 py-1 rounded st-hoverable st-focus-ring disabled:opacity-50"
+            style={{ color: colors.accent }}
+            title="Approve this and similar requests for the rest of the session"
+          >
+            Approve for session
+          </button>
+          <button
+            type="button"
+            onClick={() => void handleResolve('approve')}
+            disabled={busy}
+            className="px-2 py-1 rounded st-focus-ring disabled:opacity-50"
+            style={{ backgroundColor: colors.accent, color: 'white' }}
+          >
+            Approve
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { RedoBanner, RoundRestoreAction } from './CheckpointControls';
+
+vi.mock('../../../utils/api', () => ({
+  API: {
+    checkpoints: {
+      list: vi.fn(),
+      restore: vi.fn(),
+      redo: vi.fn(),
+    },
+  },
+}));
+
+describe('RoundRestoreAction', () => {
+  it('asks for confirmation and passes the staged choice', async () => {
+    const onRestore = vi.fn().mockResolvedValue(undefined);
+    render(<RoundRestoreAction onRestore={onRestore} />);
+
+    fireEvent.click(screen.getByText('Restore to before this round'));
+    fireEvent.click(screen.getByLabelText('Also restore staged changes'));
+    fireEvent.click(screen.getByText('Restore'));
+
+    await waitFor(() => expect(onRestore).toHaveBeenCalledWith(true));
+    await waitFor(() => expect(screen.queryByTestId('checkpoint-confirm')).not.toBeInTheDocument());
+  });
+
+  it('keeps the confirmation open and shows the error when restoring fails', async () => {
+    const onRestore = vi.fn().mockRejectedValue(new Error('Stop the agent before restoring a checkpoint'));
+    render(<RoundRestoreAction onRestore={onRestore} />);
+
+    fireEvent.click(screen.getByText('Restore to before this round'));
+    fireEvent.click(screen.getByText('Restore'));
+
+    expect(await screen.findByText('Stop the agent before restoring a checkpoint')).toBeInTheDocument();
+    expect(onRestore).toHaveBeenCalledWith(false);
+  });
+
+  it('is disabled while the agent is running', () => {
+    render(<RoundRestoreAction disabled onRestore={vi.fn()} />);
+    expect(screen.getByText('Restore to before this round').closest('button')).toBeDisabled();
+  });
+});
+
+describe('RedoBanner', () => {
+  it('redoes with the staged choice', async () => {
+    const onRedo = vi.fn().mockResolvedValue(undefined);
+    render(<RedoBanner onRedo={onRedo} />);
+
+    fireEvent.click(screen.getByText('Redo'));
+
+    await waitFor(() => expect(onRedo).toHaveBeenCalledWith(false));
+  });
+});
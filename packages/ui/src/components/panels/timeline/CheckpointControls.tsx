@@ -0,0 +1,199 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Redo2, RotateCcw } from 'lucide-react';
+import { API } from '../../../utils/api';
+import type { SessionCheckpointDTO, SessionCheckpointsDTO } from '../../../types/electron';
+
+const colors = {
+  surface: 'var(--st-surface)',
+  border: 'var(--st-border-variant)',
+  accent: 'var(--st-accent)',
+  danger: 'var(--st-danger)',
+  text: {
+    primary: 'var(--st-text)',
+    secondary: 'var(--st-text-muted)',
+    muted: 'var(--st-text-faint)',
+  },
+};
+
+/**
+ * Checkpoints taken before each prompt round of a session, keyed by the seq of
+ * the prompt's timeline event. The main process pushes updates after every
+ * capture, restore and redo.
+ */
+export const useSessionCheckpoints = (sessionId: string) => {
+  const [state, setState] = useState<SessionCheckpointsDTO | null>(null);
+
+  useEffect(() => {
+    setState(null);
+    let cancelled = false;
+    API.checkpoints.list(sessionId)
+      .then((res) => {
+        if (!cancelled && res.success && res.data) setState(res.data);
+      })
+      .catch(() => {
+        // ignore
+      });
+
+    const subscribe = window.electronAPI?.events?.onCheckpointsUpdated;
+    const unsubscribe = subscribe?.((data) => {
+      if (data.sessionId === sessionId) setState(data);
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [sessionId]);
+
+  const bySeq = useMemo(() => {
+    const map = new Map<number, SessionCheckpointDTO>();
+    for (const checkpoint of state?.rounds ?? []) {
+      if (checkpoint.prompt_seq !== null) map.set(checkpoint.prompt_seq, checkpoint);
+    }
+    return map;
+  }, [state]);
+
+  const restore = useCallback(async (checkpointId: number, restoreStaged: boolean) => {
+    const res = await API.checkpoints.restore(sessionId, checkpointId, { restoreStaged });
+    if (!res.success) throw new Error(res.error || 'Failed to restore checkpoint');
+  }, [sessionId]);
+
+  const redo = useCallback(async (restoreStaged: boolean) => {
+    const res = await API.checkpoints.redo(sessionId, { restoreStaged });
+    if (!res.success) throw new Error(res.error || 'Failed to redo');
+  }, [sessionId]);
+
+  return { bySeq, redoCheckpoint: state?.redo ?? null, restore, redo };
+};
+
+const StagedToggle: React.FC<{ checked: boolean; onChange: (checked: boolean) => void }> = ({ checked, onChange }) => (
+  <label className="flex items-center gap-1.5 cursor-pointer select-none" style={{ color: colors.text.secondary }}>
+    <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} />
+    <span>Also restore staged changes</span>
+  </label>
+);
+
+/**
+ * "Restore to before this round" under a prompt, with an inline confirmation.
+ */
+export const RoundRestoreAction: React.FC<{
+  disabled?: boolean;
+  onRestore: (restoreStaged: boolean) => Promise<void>;
+}> = ({ disabled, onRestore }) => {
+  const [confirming, setConfirming] = useState(false);
+  const [restoreStaged, setRestoreStaged] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRestore = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await onRestore(restoreStaged);
+      setConfirming(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore checkpoint');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!confirming) {
+    return (
+      <div className="flex justify-end mt-1">
+        <button
+          type="button"
+          onClick={() => setConfirming(true)}
+          disabled={disabled}
+          className="flex items-center gap-1 text-[11px] px-1.5 py-0.5 rounded st-hoverable st-focus-ring disabled:opacity-40"
+          style={{ color: colors.text.muted }}
+          title={disabled ? 'Stop the agent before restoring' : 'Restore the worktree to before this round'}
+        >
+          <RotateCcw className="w-3 h-3" />
+          <span>Restore to before this round</span>
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="mt-1 rounded px-3 py-2 text-[11px] flex flex-col gap-2"
+      style={{ backgroundColor: colors.surface, border: `1px solid ${colors.border}` }}
+      data-testid="checkpoint-confirm"
+    >
+      <div style={{ color: colors.text.primary }}>
+        Files in the worktree and the branch will go back to how they were before this prompt. You can redo afterwards.
+      </div>
+      <StagedToggle checked={restoreStaged} onChange={setRestoreStaged} />
+      {error && <div style={{ color: colors.danger }}>{error}</div>}
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={() => setConfirming(false)}
+          className="px-2 py-1 rounded st-hoverable st-focus-ring"
+          style={{ color: colors.text.secondary }}
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => void handleRestore()}
+          disabled={busy || disabled}
+          className="px-2 py-1 rounded st-focus-ring disabled:opacity-50"
+          style={{ backgroundColor: colors.accent, color: 'white' }}
+        >
+          {busy ? 'Restoring…' : 'Restore'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Shown after a restore until redo is used or a new prompt is sent.
+ */
+export const RedoBanner: React.FC<{
+  disabled?: boolean;
+  onRedo: (restoreStaged: boolean) => Promise<void>;
+}> = ({ disabled, onRedo }) => {
+  const [restoreStaged, setRestoreStaged] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRedo = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await onRedo(restoreStaged);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to redo');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div
+      className="flex items-center gap-3 px-3 py-2 rounded text-[11px]"
+      style={{ backgroundColor: colors.surface, border: `1px solid ${colors.border}` }}
+      data-testid="checkpoint-redo"
+    >
+      <span className="flex-1" style={{ color: colors.text.primary }}>
+        Worktree restored to an earlier round.
+        {error && <span className="ml-2" style={{ color: colors.danger }}>{error}</span>}
+      </span>
+      <StagedToggle checked={restoreStaged} onChange={setRestoreStaged} />
+      <button
+        type="button"
+        onClick={() => void handleRedo()}
+        disabled={busy || disabled}
+        className="flex items-center gap-1 px-2 py-1 rounded st-hoverable st-focus-ring disabled:opacity-50"
+        style={{ color: colors.accent }}
+      >
+        <Redo2 className="w-3 h-3" />
+        <span>{busy ? 'Redoing…' : 'Redo'}</span>
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { PlanCard } from './PlanCard';
+
+describe('PlanCard', () => {
+  const timestamp = '2026-01-01T10:00:00.000Z';
+
+  it('approves the current draft as shown', async () => {
+    const onApprove = vi.fn(async () => undefined);
+    render(<PlanCard version={2} change="proposed" content="1. Add the form" timestamp={timestamp} current onSave={vi.fn()} onApprove={onApprove} />);
+
+    expect(screen.getByText('Plan proposed')).toBeInTheDocument();
+    expect(screen.getByText('v2')).toBeInTheDocument();
+    expect(screen.getByTestId('plan-content')).toHaveTextContent('Add the form');
+
+    fireEvent.click(screen.getByText('Approve & run'));
+    await waitFor(() => expect(onApprove).toHaveBeenCalledWith('1. Add the form'));
+  });
+
+  it('saves or approves the edited text', async () => {
+    const onSave = vi.fn(async () => undefined);
+    const onApprove = vi.fn(async () => {
+      throw new Error('Wait for the agent to finish before approving the plan');
+    });
+    render(<PlanCard version={1} change="proposed" content="Step one" timestamp={timestamp} current onSave={onSave} onApprove={onApprove} />);
+
+    fireEvent.click(screen.getByText('Edit'));
+    expect(screen.getByText('Save version')).toBeDisabled();
+    fireEvent.change(screen.getByLabelText('Plan'), { target: { value: 'Step one\nStep two' } });
+    fireEvent.click(screen.getByText('Save version'));
+    await waitFor(() => expect(onSave).toHaveBeenCalledWith('Step one\nStep two'));
+    await waitFor(() => expect(screen.queryByLabelText('Plan')).not.toBeInTheDocument());
+
+    fireEvent.click(screen.getByText('Edit'));
+    fireEvent.change(screen.getByLabelText('Plan'), { target: { value: 'Step three' } });
+    fireEvent.click(screen.getByText('Approve & run'));
+    expect(await screen.findByText('Wait for the agent to finish before approving the plan')).toBeInTheDocument();
+    expect(onApprove).toHaveBeenCalledWith('Step three');
+  });
+
+  it('keeps earlier versions collapsed and read-only', () => {
+    render(<PlanCard version={1} change="approved" content="Old plan" timestamp={timestamp} current={false} onSave={vi.fn()} onApprove={vi.fn()} />);
+
+    expect(screen.getByTestId('plan-card')).toHaveAttribute('data-change', 'approved');
+    expect(screen.queryByTestId('plan-content')).not.toBeInTheDocument();
+    expect(screen.queryByText('Approve & run')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Plan approved'));
+    expect(screen.getByTestId('plan-content')).toHaveTextContent('Old plan');
+    expect(screen.queryByText('Edit')).not.toBeInTheDocument();
+  });
+
+  it('holds approval while the agent is running', () => {
+    render(<PlanCard version={3} change="edited" content="Plan" timestamp={timestamp} current approveBlockedReason="Wait for the agent to finish" onApprove={vi.fn()} />);
+    expect(screen.getByText('Wait for the agent to finish')).toBeInTheDocument();
+    expect(screen.getByText('Approve & run')).toBeDisabled();
+  });
+});
@@ -0,0 +1,195 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle2, ChevronDown, ChevronRight, ClipboardList, Pencil } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+
+const colors = {
+  surface: 'var(--st-surface)',
+  border: 'var(--st-border-variant)',
+  accent: 'var(--st-accent)',
+  success: 'var(--st-success)',
+  danger: 'var(--st-danger)',
+  editor: 'var(--st-editor)',
+  text: {
+    primary: 'var(--st-text)',
+    secondary: 'var(--st-text-muted)',
+    muted: 'var(--st-text-faint)',
+  },
+};
+
+export type PlanChange = 'proposed' | 'edited' | 'approved';
+
+export interface PlanCardProps {
+  version: number;
+  change: PlanChange;
+  content: string;
+  timestamp: string;
+  /** The session's latest plan version and still a draft: it can be edited and approved. */
+  current: boolean;
+  /** Why approving is not possible right now (agent still running, read-only session). */
+  approveBlockedReason?: string;
+  onSave?: (content: string) => Promise<void>;
+  onApprove?: (content: string) => Promise<void>;
+}
+
+const CHANGE_LABELS: Record<PlanChange, string> = {
+  proposed: 'Plan proposed',
+  edited: 'Plan edited',
+  approved: 'Plan approved',
+};
+
+/**
+ * A version of the session's plan. The current draft is shown open and can be
+ * edited or approved, which sends it to the agent in execute mode; earlier
+ * versions stay in the timeline collapsed.
+ */
+export const PlanCard: React.FC<PlanCardProps> = ({
+  version,
+  change,
+  content,
+  timestamp,
+  current,
+  approveBlockedReason,
+  onSave,
+  onApprove,
+}) => {
+  const [expanded, setExpanded] = useState(current);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(content);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setExpanded(current);
+    if (!current) setEditing(false);
+  }, [current]);
+
+  useEffect(() => {
+    if (!editing) setDraft(content);
+  }, [content, editing]);
+
+  const run = async (action: (text: string) => Promise<void>, fallback: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action(editing ? draft : content);
+      setEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const approved = change === 'approved';
+  const Icon = approved ? CheckCircle2 : change === 'edited' ? Pencil : ClipboardList;
+  const canSave = editing && Boolean(draft.trim()) && draft.trim() !== content.trim();
+
+  return (
+    <div
+      className="rounded-lg px-4 py-3 my-2 text-[12px] flex flex-col gap-2"
+      style={{
+        backgroundColor: colors.surface,
+        border: `1px solid ${current ? colors.accent : colors.border}`,
+      }}
+      data-testid="plan-card"
+      data-change={change}
+    >
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-2 text-left st-focus-ring rounded"
+      >
+        {expanded ? <ChevronDown className="w-3 h-3" style={{ color: colors.text.muted }} /> : <ChevronRight className="w-3 h-3" style={{ color: colors.text.muted }} />}
+        <Icon className="w-3.5 h-3.5" style={{ color: approved ? colors.success : colors.accent }} />
+        <span style={{ color: colors.text.primary, fontWeight: 500 }}>{CHANGE_LABELS[change]}</span>
+        <span style={{ color: colors.text.muted }}>v{version}</span>
+        {current && <span style={{ color: colors.accent }}>awaiting approval</span>}
+        <span className="ml-auto" style={{ color: colors.text.muted, fontSize: '0.85em' }}>
+          {new Date(timestamp).toLocaleTimeString('en-US', {
+            hour: '2-digit',
+            minute: '2-digit',
+            second: '2-digit',
+            hour12: false,
+          })}
+        </span>
+      </button>
+
+      {expanded && (editing ? (
+        <textarea
+          aria-label="Plan"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          className="w-full min-h-[12rem] px-3 py-2 rounded border font-mono text-[12px] resize-y st-focus-ring"
+          style={{ backgroundColor: colors.editor, borderColor: colors.border, color: colors.text.primary }}
+        />
+      ) : (
+        <div className="markdown-content text-sm leading-relaxed" style={{ color: colors.text.primary }} data-testid="plan-content">
+          <ReactMarkdown remarkPlugins={[remarkGfm]}>{content}</ReactMarkdown>
+        </div>
+      ))}
+
+      {error && <div style={{ color: colors.danger }}>{error}</div>}
+
+      {current && expanded && (
+        <div className="flex items-center justify-end gap-2">
+          {approveBlockedReason && (
+            <span className="mr-auto" style={{ color: colors.text.muted }}>{approveBlockedReason}</span>
+          )}
+          {editing ? (
+            <>
+              <button
+                type="button"
+                onClick={() => {
+                  setEditing(false);
+                  setError(null);
+                }}
+                disabled={busy}
+                className="px-2 py-1 rounded st-hoverable st-focus-ring disabled:opacity-50"
+                style={{ color: colors.text.secondary }}
+              >
+                Cancel
+              </button>
+              {onSave && (
+                <button
+                  type="button"
+                  onClick={() => void run(onSave, 'Failed to save plan')}
+                  disabled={busy || !canSave}
+                  className="px-2 py-1 rounded st-hoverable st-focus-ring disabled:opacity-50"
+                  style={{ color: colors.accent }}
+                  title="Save as a new version without running it"
+                >
+                  Save version
+                </button>
+              )}
+            </>
+          ) : onSave && (
+            <button
+              type="button"
+              onClick={() => setEditing(true)}
+              disabled={busy}
+              className="px-2 py-1 rounded st-hoverable st-focus-ring disabled:opacity-50"
+              style={{ color: colors.accent }}
+            >
+              Edit
+            </button>
+          )}
+          {onApprove && (
+            <button
+              type="button"
+              onClick={() => void run(onApprove, 'Failed to approve plan')}
+              disabled={busy || Boolean(approveBlockedReason) || (editing && !draft.trim())}
+              className="px-2 py-1 rounded st-focus-ring disabled:opacity-50"
+              style={{ backgroundColor: colors.accent, color: 'white' }}
+              title="Switch to execute mode and send this plan to the agent"
+            >
+              Approve &amp; run
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlanCard;
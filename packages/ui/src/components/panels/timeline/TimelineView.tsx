@@ -1,17 +1,23 @@
 import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState, createContext, useContext } from 'react';
-import { Check, ChevronDown, ChevronRight, ChevronUp, Copy, Loader2, XCircle, Terminal, Edit3, File, Trash2, Circle, ChevronsUp } from 'lucide-react';
+import { Check, ChevronDown, ChevronRight, ChevronUp, Copy, Loader2, XCircle, Terminal, Edit3, File, Trash2, Circle, ChevronsUp, ShieldCheck, ShieldX } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import type { Components } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { API } from '../../../utils/api';
+import { useSessionStore } from '../../../stores/sessionStore';
 import { withTimeout } from '../../../utils/withTimeout';
-import type { TimelineEvent, UserQuestionEvent } from '../../../types/timeline';
+import type { ApprovalRequestEvent, TimelineEvent, UserQuestionEvent } from '../../../types/timeline';
+import type { ToolApprovalDetailsDTO } from '../../../types/electron';
 import type { Session } from '../../../types/session';
 import { formatDistanceToNow, parseTimestamp } from '../../../utils/timestampUtils';
 import { ThinkingMessage, setThinkingCollapseHook } from './ThinkingMessage';
 import { ToolCallMessage, getToolIcon, setToolCollapseHook } from './ToolCallMessage';
 import { UserQuestionDialog, type Question } from './UserQuestionDialog';
 import { InlineDiffViewer, setDiffCollapseHook } from './InlineDiffViewer';
+import { RedoBanner, RoundRestoreAction, useSessionCheckpoints } from './CheckpointControls';
+import { ApprovalRequestCard } from './ApprovalRequestCard';
+import { VerifyResultCard, type VerifyResultCardProps, type VerifyResultStatus } from './VerifyResultCard';
+import { PlanCard, type PlanChange } from './PlanCard';
 import { ClaudeIcon, CodexIcon, GeminiIcon, KimiIcon } from '../../icons/ProviderIcons';
 import './MessageStyles.css';
 
@@ -128,7 +134,39 @@ type TimelineItem =
   | { type: 'agentResponse'; seq: number; timestamp: string; endTimestamp: string; status: 'running' | 'done' | 'error' | 'interrupted'; messages: Array<{ content: string; timestamp: string; isStreaming?: boolean }>; commands: CommandInfo[] }
   | { type: 'thinking'; seq: number; timestamp: string; content: string; isStreaming?: boolean; tool?: string | null; thinkingId?: string }
   | { type: 'toolCall'; seq: number; timestamp: string; toolName: string; toolInput?: string; toolResult?: string; isError?: boolean; exitCode?: number }
-  | { type: 'userQuestion'; seq: number; timestamp: string; toolUseId: string; panelId?: string; questions: Question[]; status: 'pending' | 'answered'; answers?: Record<string, string | string[]> };
+  | { type: 'userQuestion'; seq: number; timestamp: string; toolUseId: string; panelId?: string; questions: Question[]; status: 'pending' | 'answered'; answers?: Record<string, string | string[]> }
+  | { type: 'approval'; seq: number; timestamp: string; approvalId: string; kind: 'command' | 'file_change'; details: ToolApprovalDetailsDTO; status: 'pending' | 'answered'; decision?: string; source?: string }
+  | { type: 'policy'; seq: number; timestamp: string; action: 'allow' | 'deny'; rule: string; subject: string; interrupted: boolean }
+  | PlanItem
+  | VerifyItem;
+
+type PlanItem = { type: 'plan'; seq: number; timestamp: string; planId: number; version: number; change: PlanChange; content: string };
+
+type VerifyItem = { type: 'verify'; seq: number; timestamp: string } & VerifyResultCardProps;
+
+const VERIFY_STATUSES = new Set<VerifyResultStatus>(['running', 'passed', 'failed', 'cancelled']);
+
+// A verify run is recorded as a started event and a finished one sharing an operation id.
+const toVerifyItem = (first: TimelineEvent, last: TimelineEvent): VerifyItem => {
+  const meta = { ...(first.meta || {}), ...(last.meta || {}) };
+  const status = VERIFY_STATUSES.has(meta.verifyStatus as VerifyResultStatus)
+    ? meta.verifyStatus as VerifyResultStatus
+    : last.status === 'failed' ? 'failed' : last.status === 'started' ? 'running' : 'passed';
+  return {
+    type: 'verify',
+    seq: first.seq,
+    timestamp: first.timestamp,
+    command: first.command || last.command || '',
+    status,
+    exitCode: last.exit_code,
+    durationMs: last.duration_ms,
+    output: typeof meta.output === 'string' ? meta.output : undefined,
+    iteration: typeof meta.iteration === 'number' ? meta.iteration : undefined,
+    maxIterations: typeof meta.maxIterations === 'number' ? meta.maxIterations : undefined,
+    followUp: meta.followUp === true,
+    limitReached: meta.limitReached === true,
+  };
+};
 
 const getOperationId = (event: TimelineEvent) => {
   const id = event.meta?.operationId;
@@ -295,13 +333,18 @@ const buildItems = (
     | { type: 'command'; seq: number; timestamp: string; kind: 'cli' | 'git' | 'worktree'; status?: TimelineEvent['status']; command: string; cwd?: string; durationMs?: number; exitCode?: number; tool?: string; meta?: Record<string, unknown> }
     | { type: 'thinking'; seq: number; timestamp: string; content: string; isStreaming?: boolean; tool?: string | null; thinkingId?: string }
     | { type: 'toolCall'; seq: number; timestamp: string; toolName: string; toolInput?: string; toolResult?: string; isError?: boolean; exitCode?: number }
-    | { type: 'userQuestion'; seq: number; timestamp: string; toolUseId: string; panelId?: string; questions: Question[]; status: 'pending' | 'answered'; answers?: Record<string, string | string[]> };
+    | { type: 'userQuestion'; seq: number; timestamp: string; toolUseId: string; panelId?: string; questions: Question[]; status: 'pending' | 'answered'; answers?: Record<string, string | string[]> }
+    | { type: 'approval'; seq: number; timestamp: string; approvalId: string; kind: 'command' | 'file_change'; details: ToolApprovalDetailsDTO; status: 'pending' | 'answered'; decision?: string; source?: string }
+  | { type: 'policy'; seq: number; timestamp: string; action: 'allow' | 'deny'; rule: string; subject: string; interrupted: boolean }
+  | PlanItem
+  | VerifyItem;
 
   const flat: FlatItem[] = [];
   const byOperation: Record<string, TimelineEvent[]> = {};
   const toolUsePairs = new Map<string, { useEvent?: TimelineEvent; resultEvent?: TimelineEvent }>();
   // Track user_question events by tool_use_id to deduplicate (keep latest/answered status)
   const userQuestionByToolUseId = new Map<string, UserQuestionEvent>();
+  const approvalById = new Map<string, ApprovalRequestEvent>();
 
   // First pass: collect events
   for (const event of events) {
@@ -353,6 +396,34 @@ const buildItems = (
       if (!existing || event.status === 'answered' || event.seq > existing.seq) {
         userQuestionByToolUseId.set(toolUseId, event);
       }
+    } else if (event.kind === 'policy_decision') {
+      flat.push({
+        type: 'policy',
+        seq: event.seq,
+        timestamp: event.timestamp,
+        action: event.action_type === 'allow' ? 'allow' : 'deny',
+        rule: event.tool_name || '',
+        subject: event.command || '',
+        interrupted: event.meta?.source === 'tool_use',
+      });
+    } else if (event.kind === 'verify_result') {
+      flat.push(toVerifyItem(event, event));
+    } else if (event.kind === 'plan') {
+      const change = event.meta?.planChange;
+      flat.push({
+        type: 'plan',
+        seq: event.seq,
+        timestamp: event.timestamp,
+        planId: Number(event.meta?.planId),
+        version: Number(event.meta?.version),
+        change: change === 'edited' || change === 'approved' ? change : 'proposed',
+        content: event.content || '',
+      });
+    } else if (event.kind === 'approval_request') {
+      const existing = approvalById.get(event.tool_use_id);
+      if (!existing || event.status === 'answered' || event.seq > existing.seq) {
+        approvalById.set(event.tool_use_id, event);
+      }
     } else if (event.kind === 'cli.command' || event.kind === 'git.command' || event.kind === 'worktree.command') {
       flat.push({
         type: 'command',
@@ -390,6 +461,25 @@ const buildItems = (
     }
   }
 
+  for (const event of approvalById.values()) {
+    try {
+      const answer = event.answers ? JSON.parse(event.answers) as { decision?: string; source?: string } : {};
+      flat.push({
+        type: 'approval',
+        seq: event.seq,
+        timestamp: event.timestamp,
+        approvalId: event.tool_use_id,
+        kind: event.action_type === 'file_change' ? 'file_change' : 'command',
+        details: event.tool_input ? JSON.parse(event.tool_input) : {},
+        status: event.status === 'answered' ? 'answered' : 'pending',
+        decision: answer.decision,
+        source: answer.source,
+      });
+    } catch {
+      // Ignore malformed approval_request events
+    }
+  }
+
   // Merge tool_use and tool_result pairs into toolCall items
   for (const pair of toolUsePairs.values()) {
     const { useEvent, resultEvent } = pair;
@@ -431,6 +521,8 @@ const buildItems = (
         tool: first.tool || last.tool,
         meta: { ...(first.meta || {}), ...(last.meta || {}) }
       });
+    } else if (first.kind === 'verify_result') {
+      flat.push(toVerifyItem(first, last));
     }
   }
 
@@ -476,6 +568,13 @@ const buildItems = (
       continue;
     }
 
+    // Approval request / policy decision / verify result / plan - standalone
+    if (current.type === 'approval' || current.type === 'policy' || current.type === 'verify' || current.type === 'plan') {
+      items.push(current);
+      cursor++;
+      continue;
+    }
+
     // Collect all non-user items into an agent response
     const startSeq = current.seq;
     const startTimestamp = current.timestamp;
@@ -486,7 +585,7 @@ const buildItems = (
     let hasError = false;
     let hasInterrupted = false;
 
-    while (cursor < flat.length && flat[cursor].type !== 'user' && flat[cursor].type !== 'thinking' && flat[cursor].type !== 'toolCall' && flat[cursor].type !== 'userQuestion') {
+    while (cursor < flat.length && flat[cursor].type !== 'user' && flat[cursor].type !== 'thinking' && flat[cursor].type !== 'toolCall' && flat[cursor].type !== 'userQuestion' && flat[cursor].type !== 'approval' && flat[cursor].type !== 'policy' && flat[cursor].type !== 'verify' && flat[cursor].type !== 'plan') {
       const item = flat[cursor];
       endTimestamp = item.timestamp;
 
@@ -1015,6 +1114,12 @@ export const TimelineView: React.FC<{
   const idsRef = useRef(new Set<number>());
   const requestIdRef = useRef(0);
   const [dismissedQuestionIds, setDismissedQuestionIds] = useState<Set<string>>(new Set());
+  const [loadedSessionId, setLoadedSessionId] = useState<string | null>(null);
+  const [highlightSeq, setHighlightSeq] = useState<number | null>(null);
+  const timelineFocus = useSessionStore((state) => state.timelineFocus);
+  const clearTimelineFocus = useSessionStore((state) => state.clearTimelineFocus);
+  const checkpoints = useSessionCheckpoints(sessionId);
+  const isAgentBusy = session.status === 'running' || session.status === 'initializing';
 
   // State for global diff collapse
   const [collapseAllTrigger, setCollapseAllTrigger] = useState(0);
@@ -1066,6 +1171,7 @@ export const TimelineView: React.FC<{
         const loaded = res.data as TimelineEvent[];
         idsRef.current = new Set(loaded.map(e => e.id));
         setEvents(loaded);
+        setLoadedSessionId(sessionId);
       } else if (!res.success) {
         setError(res.error || 'Failed to load timeline');
       }
@@ -1166,6 +1272,15 @@ export const TimelineView: React.FC<{
     return buildItems(events, session.toolType, session.status);
   }, [events, session.toolType, session.status]);
 
+  // Only the latest plan version, while unapproved, is the session's draft.
+  const draftPlanSeq = useMemo(() => {
+    for (let i = items.length - 1; i >= 0; i--) {
+      const item = items[i];
+      if (item.type === 'plan') return item.change === 'approved' ? null : item.seq;
+    }
+    return null;
+  }, [items]);
+
   // Group items by time for separators
   const itemsWithSeparators = useMemo(() => {
     const result: Array<{ type: 'separator'; time: string } | TimelineItem> = [];
@@ -1213,6 +1328,210 @@ export const TimelineView: React.FC<{
     return null;
   }, [items, dismissedQuestionIds]);
 
+  const renderItem = (timelineItem: TimelineItem): React.ReactNode => {
+    if (timelineItem.type === 'userMessage') {
+      const checkpoint = checkpoints.bySeq.get(timelineItem.seq);
+      return (
+        <>
+          <UserMessage
+            content={timelineItem.content}
+            timestamp={timelineItem.timestamp}
+          />
+          {checkpoint && (
+            <RoundRestoreAction
+              disabled={isAgentBusy}
+              onRestore={(restoreStaged) => checkpoints.restore(checkpoint.id, restoreStaged)}
+            />
+          )}
+        </>
+      );
+    }
+
+    if (timelineItem.type === 'thinking') {
+      return (
+        <ThinkingMessage
+          content={timelineItem.content}
+          timestamp={timelineItem.timestamp}
+          isStreaming={timelineItem.isStreaming}
+        />
+      );
+    }
+
+    if (timelineItem.type === 'toolCall') {
+      return (
+        <ToolCallMessage
+          toolName={timelineItem.toolName}
+          toolInput={timelineItem.toolInput}
+          toolResult={timelineItem.toolResult}
+          isError={timelineItem.isError}
+          timestamp={timelineItem.timestamp}
+          exitCode={timelineItem.exitCode}
+          sessionId={sessionId}
+          worktreePath={session.worktreePath}
+          toolCallSeq={timelineItem.seq}
+        />
+      );
+    }
+
+    if (timelineItem.type === 'policy') {
+      const denied = timelineItem.action === 'deny';
+      const Icon = denied ? ShieldX : ShieldCheck;
+      return (
+        <div
+          className="flex items-center gap-2 my-1 text-[12px] min-w-0"
+          style={{ color: colors.text.secondary }}
+          data-testid="policy-decision"
+        >
+          <Icon className="w-3.5 h-3.5 flex-shrink-0" style={{ color: denied ? colors.status.error : colors.status.done }} />
+          <span className="flex-shrink-0">
+            {denied ? (timelineItem.interrupted ? 'Interrupted by policy' : 'Denied by policy') : 'Allowed by policy'}
+          </span>
+          <code className="truncate font-mono" style={{ color: colors.text.primary }} title={timelineItem.subject}>
+            {timelineItem.subject}
+          </code>
+          <span className="flex-shrink-0" style={{ color: colors.text.muted }}>rule: {timelineItem.rule}</span>
+        </div>
+      );
+    }
+
+    if (timelineItem.type === 'verify') {
+      return (
+        <VerifyResultCard
+          command={timelineItem.command}
+          status={timelineItem.status}
+          exitCode={timelineItem.exitCode}
+          durationMs={timelineItem.durationMs}
+          output={timelineItem.output}
+          iteration={timelineItem.iteration}
+          maxIterations={timelineItem.maxIterations}
+          followUp={timelineItem.followUp}
+          limitReached={timelineItem.limitReached}
+        />
+      );
+    }
+
+    if (timelineItem.type === 'plan') {
+      const { planId } = timelineItem;
+      const current = timelineItem.seq === draftPlanSeq && !session.importedAt;
+      const busy = session.status === 'running' || session.status === 'initializing';
+      return (
+        <PlanCard
+          version={timelineItem.version}
+          change={timelineItem.change}
+          content={timelineItem.content}
+          timestamp={timelineItem.timestamp}
+          current={current}
+          approveBlockedReason={busy ? 'Wait for the agent to finish' : undefined}
+          onSave={async (content) => {
+            const res = await API.sessions.updatePlan(sessionId, planId, content);
+            if (!res.success) throw new Error(res.error || 'Failed to save plan');
+          }}
+          onApprove={async (content) => {
+            const res = await API.sessions.approvePlan(sessionId, planId, content);
+            if (!res.success) throw new Error(res.error || 'Failed to approve plan');
+          }}
+        />
+      );
+    }
+
+    if (timelineItem.type === 'approval') {
+      const { approvalId } = timelineItem;
+      return (
+        <ApprovalRequestCard
+          kind={timelineItem.kind}
+          details={timelineItem.details}
+          status={timelineItem.status}
+          decision={timelineItem.decision}
+          source={timelineItem.source}
+          timestamp={timelineItem.timestamp}
+          onResolve={async (decision) => {
+            const res = await API.approvals.resolve(approvalId, decision);
+            if (!res.success) throw new Error(res.error || 'Failed to answer approval');
+          }}
+        />
+      );
+    }
+
+    if (timelineItem.type === 'userQuestion') {
+      if (timelineItem.status === 'pending') {
+        // Skip pending questions - they are rendered outside scrollbox
+        return null;
+      } else {
+        // Answered question - display as historical record
+        return (
+          <div
+            className="rounded-lg px-4 py-3 my-2"
+            style={{
+              backgroundColor: colors.userCard.bg,
+              border: `1px solid ${colors.userCard.border}`,
+            }}
+          >
+            <div className="flex items-center gap-2 mb-2">
+              <Check className="question-answered-icon" size={12} />
+              <span style={{ color: colors.text.primary, fontWeight: 500 }}>
+                Question Answered
+              </span>
+              <span style={{ color: colors.text.muted, fontSize: '0.85em' }}>
+                {new Date(timelineItem.timestamp).toLocaleTimeString('en-US', {
+                  hour: '2-digit',
+                  minute: '2-digit',
+                  second: '2-digit',
+                  hour12: false,
+                })}
+              </span>
+            </div>
+            {Object.entries(timelineItem.answers || {}).map(([qIdx, answer]) => (
+              <div key={qIdx} style={{ color: colors.text.secondary, fontSize: '0.9em', marginLeft: '1.5rem' }}>
+                Question {Number(qIdx) + 1}: {Array.isArray(answer) ? answer.join(', ') : answer}
+              </div>
+            ))}
+          </div>
+        );
+      }
+    }
+
+    return (
+      <AgentResponse
+        messages={timelineItem.messages}
+        commands={timelineItem.commands}
+        status={timelineItem.status}
+        timestamp={timelineItem.timestamp}
+        endTimestamp={timelineItem.endTimestamp}
+        sessionId={sessionId}
+        worktreePath={session.worktreePath}
+      />
+    );
+  };
+
+  // Jump to an event requested from elsewhere (e.g. history search) once this session's timeline is loaded.
+  // Agent responses group several events, so land on the item that starts at or before the target seq.
+  useEffect(() => {
+    if (!timelineFocus || timelineFocus.sessionId !== sessionId || loadedSessionId !== sessionId) return;
+    clearTimelineFocus();
+    let target: TimelineItem | null = null;
+    for (const item of items) {
+      if (item.seq > timelineFocus.seq) break;
+      target = item;
+    }
+    if (!target) return;
+    const seq = target.seq;
+    // Queued after the load's scroll-to-bottom frame so it wins.
+    requestAnimationFrame(() => {
+      const node = contentRef.current?.querySelector(`[data-timeline-seq="${seq}"]`);
+      if (!node) return;
+      wasAtBottomRef.current = false;
+      setShowLatest(true);
+      node.scrollIntoView({ block: 'center', behavior: 'smooth' });
+      setHighlightSeq(seq);
+    });
+  }, [timelineFocus, sessionId, loadedSessionId, items, clearTimelineFocus]);
+
+  useEffect(() => {
+    if (highlightSeq === null) return;
+    const timer = window.setTimeout(() => setHighlightSeq(null), 2400);
+    return () => window.clearTimeout(timer);
+  }, [highlightSeq]);
+
   return (
     <DiffCollapseContext.Provider value={diffCollapseContextValue}>
     <ToolCollapseContext.Provider value={toolCollapseContextValue}>
@@ -1265,95 +1584,18 @@ export const TimelineView: React.FC<{
               }
 
               const timelineItem = item as TimelineItem;
-
-              if (timelineItem.type === 'userMessage') {
-                return (
-                  <UserMessage
-                    key={`user-${timelineItem.seq}`}
-                    content={timelineItem.content}
-                    timestamp={timelineItem.timestamp}
-                  />
-                );
-              }
-
-              if (timelineItem.type === 'thinking') {
-                return (
-                  <ThinkingMessage
-                    key={`thinking-${timelineItem.thinkingId || timelineItem.seq}`}
-                    content={timelineItem.content}
-                    timestamp={timelineItem.timestamp}
-                    isStreaming={timelineItem.isStreaming}
-                  />
-                );
-              }
-
-              if (timelineItem.type === 'toolCall') {
-                return (
-                  <ToolCallMessage
-                    key={`tool-${timelineItem.seq}`}
-                    toolName={timelineItem.toolName}
-                    toolInput={timelineItem.toolInput}
-                    toolResult={timelineItem.toolResult}
-                    isError={timelineItem.isError}
-                    timestamp={timelineItem.timestamp}
-                    exitCode={timelineItem.exitCode}
-                    sessionId={sessionId}
-                    worktreePath={session.worktreePath}
-                    toolCallSeq={timelineItem.seq}
-                  />
-                );
-              }
-
-              if (timelineItem.type === 'userQuestion') {
-                if (timelineItem.status === 'pending') {
-                  // Skip pending questions - they are rendered outside scrollbox
-                  return null;
-                } else {
-                  // Answered question - display as historical record
-                  return (
-                    <div
-                      key={`question-answered-${timelineItem.seq}`}
-                      className="rounded-lg px-4 py-3 my-2"
-                      style={{
-                        backgroundColor: colors.userCard.bg,
-                        border: `1px solid ${colors.userCard.border}`,
-                      }}
-                    >
-                      <div className="flex items-center gap-2 mb-2">
-                        <Check className="question-answered-icon" size={12} />
-                        <span style={{ color: colors.text.primary, fontWeight: 500 }}>
-                          Question Answered
-                        </span>
-                        <span style={{ color: colors.text.muted, fontSize: '0.85em' }}>
-                          {new Date(timelineItem.timestamp).toLocaleTimeString('en-US', {
-                            hour: '2-digit',
-                            minute: '2-digit',
-                            second: '2-digit',
-                            hour12: false,
-                          })}
-                        </span>
-                      </div>
-                      {Object.entries(timelineItem.answers || {}).map(([qIdx, answer]) => (
-                        <div key={qIdx} style={{ color: colors.text.secondary, fontSize: '0.9em', marginLeft: '1.5rem' }}>
-                          Question {Number(qIdx) + 1}: {Array.isArray(answer) ? answer.join(', ') : answer}
-                        </div>
-                      ))}
-                    </div>
-                  );
-                }
-              }
-
+              const content = renderItem(timelineItem);
+              if (!content) return null;
+              const isFocused = highlightSeq === timelineItem.seq;
               return (
-                <AgentResponse
-                  key={`agent-${timelineItem.seq}`}
-                  messages={timelineItem.messages}
-                  commands={timelineItem.commands}
-                  status={timelineItem.status}
-                  timestamp={timelineItem.timestamp}
-                  endTimestamp={timelineItem.endTimestamp}
-                  sessionId={sessionId}
-                  worktreePath={session.worktreePath}
-                />
+                <div
+                  key={`item-${timelineItem.type}-${timelineItem.seq}`}
+                  data-timeline-seq={timelineItem.seq}
+                  className="rounded-lg transition-shadow duration-500"
+                  style={isFocused ? { boxShadow: `0 0 0 2px ${colors.status.running}` } : undefined}
+                >
+                  {content}
+                </div>
               );
             })}
 
@@ -1404,6 +1646,12 @@ export const TimelineView: React.FC<{
         <div ref={endRef} />
       </div>
 
+      {checkpoints.redoCheckpoint && (
+        <div className="flex-shrink-0 px-6 pb-2">
+          <RedoBanner disabled={isAgentBusy} onRedo={checkpoints.redo} />
+        </div>
+      )}
+
       {/* Pending user question - rendered outside scrollbox for direct keyboard access */}
       {pendingQuestion && (
         <div className="flex-shrink-0 px-6">
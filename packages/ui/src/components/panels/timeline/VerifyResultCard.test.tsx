@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { VerifyResultCard } from './VerifyResultCard';
+
+describe('VerifyResultCard', () => {
+  it('shows a passing round without output controls', () => {
+    render(<VerifyResultCard command="pnpm test" status="passed" exitCode={0} durationMs={2300} output="" />);
+
+    expect(screen.getByTestId('verify-result')).toHaveAttribute('data-status', 'passed');
+    expect(screen.getByText('Verify passed')).toBeInTheDocument();
+    expect(screen.getByText('2.3s')).toBeInTheDocument();
+    expect(screen.queryByText('Output')).not.toBeInTheDocument();
+  });
+
+  it('shows the failure output and the follow-up state', () => {
+    render(
+      <VerifyResultCard
+        command="pnpm test"
+        status="failed"
+        exitCode={1}
+        durationMs={800}
+        output="FAIL src/a.test.ts"
+        iteration={2}
+        maxIterations={3}
+        followUp
+      />
+    );
+
+    expect(screen.getByText('Verify failed')).toBeInTheDocument();
+    expect(screen.getByText('exit 1 · 800ms · fix 2/3')).toBeInTheDocument();
+    expect(screen.getByText('Sent the failures back to the agent.')).toBeInTheDocument();
+    expect(screen.queryByTestId('verify-result-output')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Output'));
+    expect(screen.getByTestId('verify-result-output')).toHaveTextContent('FAIL src/a.test.ts');
+  });
+
+  it('notes when the iteration limit stopped automatic follow-ups', () => {
+    render(<VerifyResultCard command="pnpm lint" status="failed" exitCode={2} output="error" iteration={3} maxIterations={3} limitReached />);
+    expect(screen.getByText('Stopped sending failures back: iteration limit reached.')).toBeInTheDocument();
+  });
+});
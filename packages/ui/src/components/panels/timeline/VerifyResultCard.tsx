@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Ban, CheckCircle2, ChevronDown, ChevronRight, Loader2, XCircle } from 'lucide-react';
+
+const colors = {
+  border: 'var(--st-border-variant)',
+  success: 'var(--st-success)',
+  danger: 'var(--st-danger)',
+  accent: 'var(--st-accent)',
+  diffBg: 'var(--st-diff-bg)',
+  text: {
+    primary: 'var(--st-text)',
+    secondary: 'var(--st-text-muted)',
+    muted: 'var(--st-text-faint)',
+  },
+};
+
+export type VerifyResultStatus = 'running' | 'passed' | 'failed' | 'cancelled';
+
+export interface VerifyResultCardProps {
+  command: string;
+  status: VerifyResultStatus;
+  exitCode?: number;
+  durationMs?: number;
+  /** Trimmed output tail recorded for the round. */
+  output?: string;
+  /** Automatic follow-ups already sent before this run. */
+  iteration?: number;
+  /** Set when auto-fix is on. */
+  maxIterations?: number;
+  followUp?: boolean;
+  limitReached?: boolean;
+}
+
+const STATUS_LABELS: Record<VerifyResultStatus, string> = {
+  running: 'Verifying',
+  passed: 'Verify passed',
+  failed: 'Verify failed',
+  cancelled: 'Verify cancelled',
+};
+
+const formatDuration = (ms: number): string => (ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+/**
+ * The project's verify command checked the round above. Failed runs can show
+ * the output that was recorded and, with auto-fix, sent back to the agent.
+ */
+export const VerifyResultCard: React.FC<VerifyResultCardProps> = ({
+  command,
+  status,
+  exitCode,
+  durationMs,
+  output,
+  iteration,
+  maxIterations,
+  followUp,
+  limitReached,
+}) => {
+  const [showOutput, setShowOutput] = useState(false);
+
+  const Icon = status === 'running' ? Loader2 : status === 'passed' ? CheckCircle2 : status === 'failed' ? XCircle : Ban;
+  const iconColor = status === 'passed' ? colors.success : status === 'failed' ? colors.danger : status === 'running' ? colors.accent : colors.text.muted;
+  const hasOutput = Boolean(output?.trim()) && status !== 'running';
+
+  const notes: string[] = [];
+  if (status === 'failed' && typeof exitCode === 'number') notes.push(`exit ${exitCode}`);
+  if (typeof durationMs === 'number' && status !== 'running') notes.push(formatDuration(durationMs));
+  if (typeof maxIterations === 'number' && iteration) notes.push(`fix ${iteration}/${maxIterations}`);
+
+  return (
+    <div className="my-1 text-[12px] min-w-0" data-testid="verify-result" data-status={status}>
+      <div className="flex items-center gap-2 min-w-0" style={{ color: colors.text.secondary }}>
+        <Icon
+          className={`w-3.5 h-3.5 flex-shrink-0 ${status === 'running' ? 'animate-spin' : ''}`}
+          style={{ color: iconColor }}
+        />
+        <span className="flex-shrink-0" style={{ color: status === 'failed' ? colors.danger : undefined }}>
+          {STATUS_LABELS[status]}
+        </span>
+        <code className="truncate font-mono" style={{ color: colors.text.primary }} title={command}>
+          {command}
+        </code>
+        {notes.length > 0 && (
+          <span className="flex-shrink-0" style={{ color: colors.text.muted }}>{notes.join(' · ')}</span>
+        )}
+        {hasOutput && (
+          <button
+            type="button"
+            onClick={() => setShowOutput(!showOutput)}
+            className="flex items-center gap-0.5 flex-shrink-0 px-1 rounded st-hoverable st-focus-ring"
+            style={{ color: colors.text.muted }}
+          >
+            {showOutput ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+            Output
+          </button>
+        )}
+      </div>
+
+      {status === 'failed' && (followUp || limitReached) && (
+        <div className="ml-5 text-[11px]" style={{ color: colors.text.muted }}>
+          {followUp ? 'Sent the failures back to the agent.' : 'Stopped sending failures back: iteration limit reached.'}
+        </div>
+      )}
+
+      {showOutput && hasOutput && (
+        <pre
+          className="ml-5 mt-1 max-h-64 overflow-auto p-2 rounded font-mono text-[11px] whitespace-pre-wrap break-all"
+          style={{ backgroundColor: colors.diffBg, border: `1px solid ${colors.border}`, color: colors.text.secondary }}
+          data-testid="verify-result-output"
+        >
+          {output}
+        </pre>
+      )}
+    </div>
+  );
+};
+
+export default VerifyResultCard;
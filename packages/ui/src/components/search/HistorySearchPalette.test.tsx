@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { HistorySearchPalette, splitSnippet } from './HistorySearchPalette';
+import { API } from '../../utils/api';
+import { useSessionStore } from '../../stores/sessionStore';
+import type { HistorySearchHitDTO } from '../../types/electron';
+
+vi.mock('../../utils/api', () => ({
+  API: {
+    sessions: {
+      search: vi.fn(),
+    },
+  },
+}));
+
+const hit = (overrides: Partial<HistorySearchHitDTO>): HistorySearchHitDTO => ({
+  source: 'timeline',
+  id: 1,
+  session_id: 's1',
+  session_name: 'fix-scheduler',
+  project_id: 1,
+  archived: false,
+  kind: 'prompt',
+  event_kind: 'chat.user',
+  seq: 3,
+  panel_id: null,
+  timestamp: new Date().toISOString(),
+  snippet: 'Fix the flaky \u0002scheduler\u0003 test',
+  rank: -1,
+  ...overrides,
+});
+
+describe('HistorySearchPalette', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useSessionStore.setState({ activeSessionId: null, sessions: [], timelineFocus: null });
+  });
+
+  it('splits snippets into plain and matched parts', () => {
+    expect(splitSnippet('a \u0002b\u0003 c \u0002d\u0003')).toEqual([
+      { text: 'a ', match: false },
+      { text: 'b', match: true },
+      { text: ' c ', match: false },
+      { text: 'd', match: true },
+    ]);
+  });
+
+  it('searches with the selected filters and highlights matches', async () => {
+    vi.mocked(API.sessions.search).mockResolvedValue({
+      success: true,
+      data: [hit({}), hit({ id: 2, session_id: 's2', session_name: 'old-run', archived: true, kind: 'command' })],
+    });
+    render(<HistorySearchPalette isOpen onClose={vi.fn()} />);
+
+    fireEvent.click(screen.getByText('Commands'));
+    fireEvent.click(screen.getByLabelText('Archived'));
+    fireEvent.change(screen.getByLabelText('Search query'), { target: { value: 'scheduler' } });
+
+    await waitFor(() => expect(screen.getAllByTestId('history-search-hit')).toHaveLength(2));
+    expect(API.sessions.search).toHaveBeenLastCalledWith(expect.objectContaining({
+      query: 'scheduler',
+      kinds: ['command'],
+      includeArchived: false,
+    }));
+    expect(screen.getAllByText('scheduler')[0].tagName).toBe('MARK');
+  });
+
+  it('jumps to the selected hit and closes', async () => {
+    vi.mocked(API.sessions.search).mockResolvedValue({ success: true, data: [hit({}), hit({ id: 2, session_id: 's2', seq: 9 })] });
+    const onClose = vi.fn();
+    render(<HistorySearchPalette isOpen onClose={onClose} />);
+
+    const input = screen.getByLabelText('Search query');
+    fireEvent.change(input, { target: { value: 'sched' } });
+    await waitFor(() => expect(screen.getAllByTestId('history-search-hit')).toHaveLength(2));
+
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(useSessionStore.getState().timelineFocus).toEqual({ sessionId: 's2', seq: 9 });
+    expect(useSessionStore.getState().activeSessionId).toBe('s2');
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('shows the error when the search fails', async () => {
+    vi.mocked(API.sessions.search).mockResolvedValue({ success: false, error: 'fts5: syntax error' });
+    render(<HistorySearchPalette isOpen onClose={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Search query'), { target: { value: 'x' } });
+
+    expect(await screen.findByText('fts5: syntax error')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,275 @@
+import { useEffect, useMemo, useRef, useState, type KeyboardEvent } from 'react';
+import { Archive, Loader2, Search, X } from 'lucide-react';
+import { API } from '../../utils/api';
+import { useSessionStore } from '../../stores/sessionStore';
+import { formatDistanceToNow } from '../../utils/timestampUtils';
+import type { HistorySearchHitDTO, HistorySearchKindDTO } from '../../types/electron';
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+const KIND_LABELS: Record<HistorySearchKindDTO, string> = {
+  prompt: 'Prompts',
+  assistant: 'Replies',
+  command: 'Commands',
+  tool: 'Tools',
+  diff: 'Diffs',
+};
+
+const RANGES = [
+  { id: 'any', label: 'Any time', ms: null },
+  { id: 'day', label: '24h', ms: 24 * 60 * 60 * 1000 },
+  { id: 'week', label: '7d', ms: 7 * 24 * 60 * 60 * 1000 },
+  { id: 'month', label: '30d', ms: 30 * 24 * 60 * 60 * 1000 },
+] as const;
+
+type Scope = 'all' | 'project' | 'session';
+type RangeId = typeof RANGES[number]['id'];
+
+/** Split a search snippet into plain and matched parts (matches are wrapped in \u0002 ... \u0003). */
+export function splitSnippet(snippet: string): Array<{ text: string; match: boolean }> {
+  const parts: Array<{ text: string; match: boolean }> = [];
+  for (const chunk of snippet.split('\u0002')) {
+    const end = chunk.indexOf('\u0003');
+    if (end === -1) {
+      if (chunk) parts.push({ text: chunk, match: false });
+      continue;
+    }
+    if (end > 0) parts.push({ text: chunk.slice(0, end), match: true });
+    const rest = chunk.slice(end + 1);
+    if (rest) parts.push({ text: rest, match: false });
+  }
+  return parts;
+}
+
+interface HistorySearchPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function HistorySearchPalette({ isOpen, onClose }: HistorySearchPaletteProps) {
+  const activeSessionId = useSessionStore((state) => state.activeSessionId);
+  const sessions = useSessionStore((state) => state.sessions);
+  const focusTimelineEvent = useSessionStore((state) => state.focusTimelineEvent);
+  const activeProjectId = useMemo(
+    () => sessions.find((s) => s.id === activeSessionId)?.projectId,
+    [sessions, activeSessionId]
+  );
+
+  const [query, setQuery] = useState('');
+  const [kinds, setKinds] = useState<HistorySearchKindDTO[]>([]);
+  const [scope, setScope] = useState<Scope>('all');
+  const [range, setRange] = useState<RangeId>('any');
+  const [includeArchived, setIncludeArchived] = useState(true);
+  const [results, setResults] = useState<HistorySearchHitDTO[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestIdRef = useRef(0);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery('');
+    setResults([]);
+    setError(null);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const requestId = ++requestIdRef.current;
+    if (!query.trim()) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    const timer = window.setTimeout(async () => {
+      setIsSearching(true);
+      setError(null);
+      const rangeMs = RANGES.find((r) => r.id === range)?.ms ?? null;
+      try {
+        const res = await API.sessions.search({
+          query,
+          kinds: kinds.length > 0 ? kinds : undefined,
+          projectId: scope === 'project' ? activeProjectId : undefined,
+          sessionId: scope === 'session' && activeSessionId ? activeSessionId : undefined,
+          since: rangeMs ? new Date(Date.now() - rangeMs).toISOString() : undefined,
+          includeArchived,
+        });
+        if (requestId !== requestIdRef.current) return;
+        if (res.success && res.data) {
+          setResults(res.data);
+          setSelectedIndex(0);
+        } else {
+          setError(res.error || 'Search failed');
+        }
+      } catch (err) {
+        if (requestId !== requestIdRef.current) return;
+        setError(err instanceof Error ? err.message : 'Search failed');
+      } finally {
+        if (requestId === requestIdRef.current) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [isOpen, query, kinds, scope, range, includeArchived, activeProjectId, activeSessionId]);
+
+  if (!isOpen) return null;
+
+  const toggleKind = (kind: HistorySearchKindDTO) => {
+    setKinds((prev) => (prev.includes(kind) ? prev.filter((k) => k !== kind) : [...prev, kind]));
+  };
+
+  const openHit = (hit: HistorySearchHitDTO) => {
+    focusTimelineEvent(hit.session_id, hit.seq ?? 1);
+    onClose();
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      onClose();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelectedIndex((i) => Math.min(results.length - 1, i + 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelectedIndex((i) => Math.max(0, i - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const hit = results[selectedIndex];
+      if (hit) openHit(hit);
+    }
+  };
+
+  const chipStyle = (active: boolean) => ({
+    borderColor: active ? 'var(--st-accent)' : 'var(--st-border)',
+    color: active ? 'var(--st-text)' : 'var(--st-text-faint)',
+  });
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-black/60 p-6 pt-[12vh]"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Search history"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        className="w-full max-w-2xl rounded-xl border shadow-2xl overflow-hidden"
+        style={{
+          borderColor: 'color-mix(in srgb, var(--st-border) 70%, transparent)',
+          backgroundColor: 'var(--st-surface)',
+          color: 'var(--st-text)',
+        }}
+      >
+        <div
+          className="flex items-center gap-2 px-4 py-3 border-b"
+          style={{ borderColor: 'color-mix(in srgb, var(--st-border) 70%, transparent)' }}
+        >
+          <Search className="w-4 h-4 flex-shrink-0" style={{ color: 'var(--st-text-faint)' }} />
+          <input
+            aria-label="Search query"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search prompts, replies, commands, tool calls and diffs…"
+            autoFocus
+            className="flex-1 bg-transparent text-sm outline-none"
+            style={{ color: 'var(--st-text)' }}
+          />
+          {isSearching && <Loader2 className="w-4 h-4 animate-spin" style={{ color: 'var(--st-text-faint)' }} />}
+          <button type="button" onClick={onClose} className="p-1.5 rounded st-hoverable st-focus-ring" title="Close">
+            <X className="w-4 h-4" style={{ color: 'var(--st-text-faint)' }} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-1.5 px-4 py-2 text-xs border-b" style={{ borderColor: 'color-mix(in srgb, var(--st-border) 70%, transparent)' }}>
+          {(Object.keys(KIND_LABELS) as HistorySearchKindDTO[]).map((kind) => (
+            <button
+              key={kind}
+              type="button"
+              onClick={() => toggleKind(kind)}
+              aria-pressed={kinds.includes(kind)}
+              className="px-2 py-0.5 rounded-full border st-focus-ring"
+              style={chipStyle(kinds.includes(kind))}
+            >
+              {KIND_LABELS[kind]}
+            </button>
+          ))}
+          <span className="flex-1" />
+          <select
+            aria-label="Search scope"
+            value={scope}
+            onChange={(e) => setScope(e.target.value as Scope)}
+            className="px-1.5 py-0.5 rounded border bg-transparent st-focus-ring"
+            style={{ borderColor: 'var(--st-border)', color: 'var(--st-text)' }}
+          >
+            <option value="all">All projects</option>
+            <option value="project" disabled={activeProjectId === undefined}>This project</option>
+            <option value="session" disabled={!activeSessionId}>This workspace</option>
+          </select>
+          <select
+            aria-label="Date range"
+            value={range}
+            onChange={(e) => setRange(e.target.value as RangeId)}
+            className="px-1.5 py-0.5 rounded border bg-transparent st-focus-ring"
+            style={{ borderColor: 'var(--st-border)', color: 'var(--st-text)' }}
+          >
+            {RANGES.map((r) => (
+              <option key={r.id} value={r.id}>{r.label}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1" style={{ color: 'var(--st-text-faint)' }}>
+            <input type="checkbox" checked={includeArchived} onChange={(e) => setIncludeArchived(e.target.checked)} />
+            Archived
+          </label>
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto" role="listbox" aria-label="Search results">
+          {error && (
+            <div className="m-3 text-xs p-2 rounded" style={{ backgroundColor: 'var(--st-error-bg)', color: 'var(--st-error)' }}>
+              {error}
+            </div>
+          )}
+          {!error && query.trim() && !isSearching && results.length === 0 && (
+            <div className="px-4 py-6 text-center text-xs" style={{ color: 'var(--st-text-faint)' }}>No matches</div>
+          )}
+          {results.map((hit, index) => (
+            <button
+              key={`${hit.source}-${hit.id}`}
+              type="button"
+              role="option"
+              aria-selected={index === selectedIndex}
+              onMouseEnter={() => setSelectedIndex(index)}
+              onClick={() => openHit(hit)}
+              className="w-full text-left px-4 py-2 border-b last:border-b-0"
+              style={{
+                borderColor: 'color-mix(in srgb, var(--st-border) 40%, transparent)',
+                backgroundColor: index === selectedIndex ? 'color-mix(in srgb, var(--st-accent) 12%, transparent)' : undefined,
+              }}
+              data-testid="history-search-hit"
+            >
+              <div className="flex items-center gap-2 text-[11px]" style={{ color: 'var(--st-text-faint)' }}>
+                <span className="font-medium truncate" style={{ color: 'var(--st-text)' }}>{hit.session_name}</span>
+                {hit.archived && <Archive className="w-3 h-3 flex-shrink-0" aria-label="Archived" />}
+                <span>{KIND_LABELS[hit.kind]}</span>
+                <span className="ml-auto flex-shrink-0">{formatDistanceToNow(hit.timestamp)}</span>
+              </div>
+              <div className="mt-0.5 text-xs st-font-mono whitespace-pre-wrap break-words line-clamp-3" style={{ color: 'var(--st-text-muted)' }}>
+                {splitSnippet(hit.snippet).map((part, i) => (
+                  part.match
+                    ? <mark key={i} className="rounded px-0.5" style={{ backgroundColor: 'color-mix(in srgb, var(--st-accent) 35%, transparent)', color: 'var(--st-text)' }}>{part.text}</mark>
+                    : <span key={i}>{part.text}</span>
+                ))}
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default HistorySearchPalette;
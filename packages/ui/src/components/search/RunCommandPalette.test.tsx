@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { RunCommandPalette, filterRunCommands } from './RunCommandPalette';
+import { API } from '../../utils/api';
+import { useSessionStore } from '../../stores/sessionStore';
+import type { RunScriptDTO } from '../../types/electron';
+
+vi.mock('../../utils/api', () => ({
+  API: {
+    scripts: {
+      list: vi.fn(),
+      start: vi.fn(),
+      restart: vi.fn(),
+    },
+    sessions: {
+      sendTerminalInput: vi.fn(),
+    },
+    projects: {
+      getRunCommands: vi.fn(),
+      updateRunCommands: vi.fn(),
+    },
+  },
+}));
+
+const script = (overrides: Partial<RunScriptDTO>): RunScriptDTO => ({
+  id: '1',
+  sessionId: 's1',
+  name: 'test',
+  command: 'pnpm test',
+  status: 'idle',
+  pid: null,
+  port: null,
+  exitCode: null,
+  startedAt: null,
+  endedAt: null,
+  ...overrides,
+});
+
+describe('RunCommandPalette', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useSessionStore.setState({ activeSessionId: 's1', sessions: [{ id: 's1', projectId: 7 } as never] });
+    vi.mocked(API.scripts.list).mockResolvedValue({
+      success: true,
+      data: [script({}), script({ id: '2', name: 'dev', command: 'pnpm dev', status: 'running', port: 4101 })],
+    });
+  });
+
+  it('filters commands by name or command line', () => {
+    const scripts = [script({}), script({ id: '2', name: 'dev', command: 'vite --port $SNOWTREE_PORT' })];
+    expect(filterRunCommands(scripts, '  ')).toHaveLength(2);
+    expect(filterRunCommands(scripts, 'VITE').map((s) => s.id)).toEqual(['2']);
+  });
+
+  it('starts idle commands and restarts running ones', async () => {
+    vi.mocked(API.scripts.start).mockResolvedValue({ success: true });
+    vi.mocked(API.scripts.restart).mockResolvedValue({ success: true });
+    const onClose = vi.fn();
+    render(<RunCommandPalette isOpen onClose={onClose} />);
+
+    await waitFor(() => expect(screen.getAllByTestId('run-command-option')).toHaveLength(2));
+    fireEvent.keyDown(screen.getByLabelText('Command query'), { key: 'Enter' });
+    await waitFor(() => expect(API.scripts.start).toHaveBeenCalledWith('s1', '1'));
+    expect(onClose).toHaveBeenCalled();
+
+    fireEvent.click(screen.getByTitle('Restart'));
+    await waitFor(() => expect(API.scripts.restart).toHaveBeenCalledWith('s1', '2'));
+  });
+
+  it('sends the selected command to the terminal on Alt+Enter', async () => {
+    vi.mocked(API.sessions.sendTerminalInput).mockResolvedValue({ success: true });
+    render(<RunCommandPalette isOpen onClose={vi.fn()} />);
+
+    const input = screen.getByLabelText('Command query');
+    fireEvent.change(input, { target: { value: 'dev' } });
+    await waitFor(() => expect(screen.getAllByTestId('run-command-option')).toHaveLength(1));
+    fireEvent.keyDown(input, { key: 'Enter', altKey: true });
+
+    await waitFor(() => expect(API.sessions.sendTerminalInput).toHaveBeenCalledWith('s1', 'pnpm dev\r'));
+    expect(API.scripts.start).not.toHaveBeenCalled();
+  });
+
+  it('saves an unknown command before running it', async () => {
+    vi.mocked(API.projects.getRunCommands).mockResolvedValue({
+      success: true,
+      data: [{ id: 1, project_id: 7, command: 'pnpm test', display_name: 'test', order_index: 0 } as never],
+    });
+    vi.mocked(API.projects.updateRunCommands).mockResolvedValue({
+      success: true,
+      data: [
+        { id: 1, project_id: 7, command: 'pnpm test', display_name: 'test', order_index: 0 } as never,
+        { id: 9, project_id: 7, command: 'make lint', display_name: null, order_index: 1 } as never,
+      ],
+    });
+    vi.mocked(API.scripts.start).mockResolvedValue({ success: true });
+    render(<RunCommandPalette isOpen onClose={vi.fn()} />);
+
+    await waitFor(() => expect(screen.getAllByTestId('run-command-option')).toHaveLength(2));
+    fireEvent.change(screen.getByLabelText('Command query'), { target: { value: 'make lint' } });
+    fireEvent.keyDown(screen.getByLabelText('Command query'), { key: 'Enter' });
+
+    await waitFor(() => expect(API.scripts.start).toHaveBeenCalledWith('s1', '9'));
+    expect(API.projects.updateRunCommands).toHaveBeenCalledWith(7, [
+      { id: 1, command: 'pnpm test', display_name: 'test' },
+      { command: 'make lint' },
+    ]);
+  });
+});
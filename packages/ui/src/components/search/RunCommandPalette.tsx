@@ -0,0 +1,278 @@
+import { useEffect, useMemo, useState, type KeyboardEvent } from 'react';
+import { Play, Plus, RotateCw, Settings, TerminalSquare, X } from 'lucide-react';
+import { API } from '../../utils/api';
+import { useSessionStore } from '../../stores/sessionStore';
+import { useSettingsStore } from '../../stores/settingsStore';
+import type { RunScriptDTO } from '../../types/electron';
+
+/** Case-insensitive match on a command's name or command line. */
+export function filterRunCommands(scripts: RunScriptDTO[], query: string): RunScriptDTO[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return scripts;
+  return scripts.filter((s) => s.name.toLowerCase().includes(needle) || s.command.toLowerCase().includes(needle));
+}
+
+interface RunCommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function RunCommandPalette({ isOpen, onClose }: RunCommandPaletteProps) {
+  const activeSessionId = useSessionStore((state) => state.activeSessionId);
+  const sessions = useSessionStore((state) => state.sessions);
+  const openSettings = useSettingsStore((state) => state.openSettings);
+  const activeProjectId = useMemo(
+    () => sessions.find((s) => s.id === activeSessionId)?.projectId,
+    [sessions, activeSessionId]
+  );
+
+  const [query, setQuery] = useState('');
+  const [scripts, setScripts] = useState<RunScriptDTO[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuery('');
+    setScripts([]);
+    setSelectedIndex(0);
+    setError(null);
+    if (!activeSessionId) return;
+    let cancelled = false;
+    API.scripts.list(activeSessionId)
+      .then((res) => {
+        if (cancelled) return;
+        if (res.success && res.data) setScripts(res.data);
+        else setError(res.error || 'Failed to load run commands');
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load run commands');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, activeSessionId]);
+
+  const matches = useMemo(() => filterRunCommands(scripts, query), [scripts, query]);
+  const canSave = Boolean(query.trim()) && matches.length === 0 && activeProjectId !== undefined;
+
+  if (!isOpen) return null;
+
+  const perform = async (action: () => Promise<{ success: boolean; error?: string }>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const res = await action();
+      if (!res.success) {
+        setError(res.error || 'Command failed');
+        return;
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Command failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Runs go through the script runner so they get a port and a timeline record.
+  const runScript = (script: RunScriptDTO) => {
+    if (!activeSessionId) return;
+    const active = script.status === 'running' || script.status === 'stopping';
+    void perform(() => (active
+      ? API.scripts.restart(activeSessionId, script.id)
+      : API.scripts.start(activeSessionId, script.id)));
+  };
+
+  // The interactive terminal is for commands that need input; they are not recorded.
+  const runInTerminal = (command: string) => {
+    if (!activeSessionId) return;
+    void perform(() => API.sessions.sendTerminalInput(activeSessionId, `${command}\r`));
+  };
+
+  const saveAndRun = () => {
+    if (!activeSessionId || activeProjectId === undefined) return;
+    const command = query.trim();
+    void perform(async () => {
+      const current = await API.projects.getRunCommands(activeProjectId);
+      if (!current.success) return current;
+      const saved = await API.projects.updateRunCommands(activeProjectId, [
+        ...(current.data ?? []).map((c) => ({ id: c.id, command: c.command, display_name: c.display_name })),
+        { command },
+      ]);
+      if (!saved.success) return saved;
+      const created = saved.data?.[saved.data.length - 1];
+      if (!created) return { success: false, error: 'Failed to save command' };
+      return API.scripts.start(activeSessionId, String(created.id));
+    });
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      e.stopPropagation();
+      onClose();
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelectedIndex((i) => Math.min(matches.length - 1, i + 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelectedIndex((i) => Math.max(0, i - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (isBusy) return;
+      const script = matches[selectedIndex];
+      if (e.altKey) {
+        const command = script?.command ?? query.trim();
+        if (command) runInTerminal(command);
+      } else if (script) {
+        runScript(script);
+      } else if (canSave) {
+        saveAndRun();
+      }
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-black/60 p-6 pt-[12vh]"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Run command"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        className="w-full max-w-xl rounded-xl border shadow-2xl overflow-hidden"
+        style={{
+          borderColor: 'color-mix(in srgb, var(--st-border) 70%, transparent)',
+          backgroundColor: 'var(--st-surface)',
+          color: 'var(--st-text)',
+        }}
+      >
+        <div
+          className="flex items-center gap-2 px-4 py-3 border-b"
+          style={{ borderColor: 'color-mix(in srgb, var(--st-border) 70%, transparent)' }}
+        >
+          <Play className="w-4 h-4 flex-shrink-0" style={{ color: 'var(--st-text-faint)' }} />
+          <input
+            aria-label="Command query"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setSelectedIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder={activeSessionId ? 'Run a saved command…' : 'Select a workspace to run commands'}
+            disabled={!activeSessionId}
+            autoFocus
+            className="flex-1 bg-transparent text-sm outline-none"
+            style={{ color: 'var(--st-text)' }}
+          />
+          <button type="button" onClick={onClose} className="p-1.5 rounded st-hoverable st-focus-ring" title="Close">
+            <X className="w-4 h-4" style={{ color: 'var(--st-text-faint)' }} />
+          </button>
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto" role="listbox" aria-label="Run commands">
+          {error && (
+            <div className="m-3 text-xs p-2 rounded" style={{ backgroundColor: 'var(--st-error-bg)', color: 'var(--st-error)' }}>
+              {error}
+            </div>
+          )}
+          {matches.map((script, index) => {
+            const active = script.status === 'running' || script.status === 'stopping';
+            return (
+              <div
+                key={script.id}
+                role="option"
+                aria-selected={index === selectedIndex}
+                onMouseEnter={() => setSelectedIndex(index)}
+                className="flex items-center gap-2 px-4 py-2 border-b last:border-b-0"
+                style={{
+                  borderColor: 'color-mix(in srgb, var(--st-border) 40%, transparent)',
+                  backgroundColor: index === selectedIndex ? 'color-mix(in srgb, var(--st-accent) 12%, transparent)' : undefined,
+                }}
+                data-testid="run-command-option"
+              >
+                <button
+                  type="button"
+                  onClick={() => runScript(script)}
+                  disabled={isBusy}
+                  className="flex-1 min-w-0 text-left"
+                >
+                  <div className="text-sm truncate" style={{ color: 'var(--st-text)' }}>{script.name}</div>
+                  <div className="text-[11px] st-font-mono truncate" style={{ color: 'var(--st-text-faint)' }}>{script.command}</div>
+                </button>
+                {active && (
+                  <span className="text-[11px] font-mono" style={{ color: 'var(--st-success)' }}>
+                    {script.port ? `:${script.port}` : 'running'}
+                  </span>
+                )}
+                <button
+                  type="button"
+                  onClick={() => runScript(script)}
+                  disabled={isBusy}
+                  className="p-1 rounded st-hoverable st-focus-ring disabled:opacity-40"
+                  title={active ? 'Restart' : 'Run'}
+                >
+                  {active
+                    ? <RotateCw className="w-3.5 h-3.5" style={{ color: 'var(--st-text-muted)' }} />
+                    : <Play className="w-3.5 h-3.5" style={{ color: 'var(--st-accent)' }} />}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => runInTerminal(script.command)}
+                  disabled={isBusy}
+                  className="p-1 rounded st-hoverable st-focus-ring disabled:opacity-40"
+                  title="Run in terminal"
+                >
+                  <TerminalSquare className="w-3.5 h-3.5" style={{ color: 'var(--st-text-muted)' }} />
+                </button>
+              </div>
+            );
+          })}
+          {canSave && (
+            <button
+              type="button"
+              onClick={saveAndRun}
+              disabled={isBusy}
+              className="w-full flex items-center gap-2 px-4 py-2 text-left text-sm st-hoverable disabled:opacity-40"
+              style={{ color: 'var(--st-text)' }}
+            >
+              <Plus className="w-3.5 h-3.5" style={{ color: 'var(--st-accent)' }} />
+              Save and run <span className="st-font-mono">{query.trim()}</span>
+            </button>
+          )}
+          {!canSave && matches.length === 0 && !error && (
+            <div className="px-4 py-6 text-center text-xs" style={{ color: 'var(--st-text-faint)' }}>
+              {activeSessionId ? 'No saved commands. Type a command to save it.' : 'No workspace selected'}
+            </div>
+          )}
+        </div>
+
+        <div
+          className="flex items-center justify-between px-4 py-2 text-[11px] border-t"
+          style={{ borderColor: 'color-mix(in srgb, var(--st-border) 70%, transparent)', color: 'var(--st-text-faint)' }}
+        >
+          <span>Enter to run · Alt+Enter to run in terminal</span>
+          <button
+            type="button"
+            onClick={() => {
+              onClose();
+              openSettings();
+            }}
+            className="flex items-center gap-1 px-1.5 py-0.5 rounded st-hoverable st-focus-ring"
+          >
+            <Settings className="w-3 h-3" />
+            Edit commands
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default RunCommandPalette;
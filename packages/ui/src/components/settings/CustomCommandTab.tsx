@@ -0,0 +1,205 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { API } from '../../utils/api';
+import { useSessionStore } from '../../stores/sessionStore';
+import type { ProjectDTO } from '../../types/electron';
+
+const EXAMPLE_SPEC = `{
+  "command": "my-agent",
+  "args": ["run", "--output", "jsonl", "--prompt", "{{prompt}}"],
+  "resumeArgs": ["--resume", "{{resumeId}}"],
+  "sessionIdPath": "session_id",
+  "events": [
+    { "match": { "type": "message" }, "kind": "assistant", "text": "text" },
+    { "match": { "type": "reasoning" }, "kind": "thinking", "text": "text" },
+    { "match": { "type": "tool_call" }, "kind": "tool_use", "toolName": "name", "toolUseId": "id", "input": "arguments" },
+    { "match": { "type": "tool_output" }, "kind": "tool_result", "toolUseId": "id", "text": "output", "isError": "error" },
+    { "match": { "type": "ask" }, "kind": "question", "toolUseId": "id", "text": "question", "options": "choices" }
+  ],
+  "diffTools": { "edit_file": "edit", "write_file": "write", "shell": "shell" }
+}
+`;
+
+const FIELD_HELP: Array<{ name: string; description: string }> = [
+  { name: 'command', description: 'Executable in PATH, or ./path relative to the worktree' },
+  { name: 'args', description: 'Supports {{prompt}}, {{resumeId}}, {{model}}, {{worktreePath}}' },
+  { name: 'promptInput', description: '"arg" (default) appends the prompt; "stdin" pipes it' },
+  { name: 'resumeArgs', description: 'Added on follow-ups when a session id is known' },
+  { name: 'sessionIdPath', description: 'Event field holding the agent session id' },
+  { name: 'events', description: 'match → kind: assistant, thinking, tool_use, tool_result, question' },
+  { name: 'diffTools', description: 'Tool name → edit, write, replace, shell, fileChanges, command' },
+];
+
+export function CustomCommandTab() {
+  const sessions = useSessionStore((state) => state.sessions);
+  const activeSessionId = useSessionStore((state) => state.activeSessionId);
+  const activeProjectId = useMemo(
+    () => sessions.find((s) => s.id === activeSessionId)?.projectId ?? null,
+    [sessions, activeSessionId]
+  );
+
+  const [projects, setProjects] = useState<ProjectDTO[]>([]);
+  const [projectId, setProjectId] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+  const [saved, setSaved] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    API.projects.getAll()
+      .then((res) => {
+        if (cancelled || !res.success || !res.data) return;
+        setProjects(res.data);
+        const preferred = res.data.find((p) => p.id === activeProjectId)
+          || res.data.find((p) => p.active)
+          || res.data[0];
+        setProjectId((prev) => prev ?? preferred?.id ?? null);
+      })
+      .catch(() => {
+        // ignore
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeProjectId]);
+
+  useEffect(() => {
+    if (projectId == null) return;
+    let cancelled = false;
+    setError(null);
+    API.projects.getCustomExecutor(projectId)
+      .then((res) => {
+        if (cancelled) return;
+        if (!res.success) {
+          setError(res.error || 'Failed to load custom command');
+          return;
+        }
+        const spec = res.data ?? '';
+        setDraft(spec);
+        setSaved(spec);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load custom command');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const save = useCallback(async (next: string) => {
+    if (projectId == null) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await API.projects.updateCustomExecutor(projectId, next.trim() ? next : null);
+      if (!res.success) {
+        setError(res.error || 'Failed to save custom command');
+        return;
+      }
+      setDraft(next);
+      setSaved(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save custom command');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [projectId]);
+
+  const isDirty = draft !== saved;
+
+  if (projects.length === 0) {
+    return (
+      <div className="text-sm" style={{ color: 'var(--st-text-faint)' }}>
+        Add a repository to configure a custom command.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm" style={{ color: 'var(--st-text-muted)' }}>
+          Repository
+        </label>
+        <select
+          value={projectId ?? ''}
+          onChange={(e) => setProjectId(Number(e.target.value))}
+          className="px-3 py-1.5 rounded border text-sm w-64 st-focus-ring"
+          style={{
+            backgroundColor: 'var(--st-editor)',
+            borderColor: 'var(--st-border)',
+            color: 'var(--st-text)',
+          }}
+        >
+          {projects.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="text-xs" style={{ color: 'var(--st-text-faint)' }}>
+        Runs a CLI that prints one JSON event per line. Enable "Custom Command" under AI Providers to select it.
+      </div>
+
+      <textarea
+        aria-label="Custom command spec"
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        placeholder={EXAMPLE_SPEC}
+        spellCheck={false}
+        className="w-full px-3 py-2 rounded border text-xs font-mono h-72 resize-none st-focus-ring"
+        style={{
+          backgroundColor: 'var(--st-editor)',
+          borderColor: 'var(--st-border)',
+          color: 'var(--st-text)',
+        }}
+      />
+
+      {error && (
+        <div className="text-xs p-2 rounded" style={{ backgroundColor: 'var(--st-error-bg)', color: 'var(--st-error)' }}>
+          {error}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => setDraft(EXAMPLE_SPEC)}
+          disabled={isSaving}
+          className="px-3 py-1.5 rounded text-sm st-hoverable st-focus-ring disabled:opacity-50"
+          style={{ color: 'var(--st-text-muted)' }}
+        >
+          Insert Example
+        </button>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => void save('')}
+            disabled={!saved || isSaving}
+            className="px-3 py-1.5 rounded text-sm st-hoverable st-focus-ring disabled:opacity-50"
+            style={{ color: 'var(--st-text-muted)' }}
+          >
+            Remove
+          </button>
+          <button
+            type="button"
+            onClick={() => void save(draft)}
+            disabled={!isDirty || isSaving}
+            className="px-3 py-1.5 rounded text-sm font-medium st-focus-ring disabled:opacity-50"
+            style={{ backgroundColor: 'var(--st-accent)', color: 'white' }}
+          >
+            Save
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-0.5">
+        {FIELD_HELP.map((field) => (
+          <div key={field.name} className="text-xs truncate" title={field.description} style={{ color: 'var(--st-text-faint)' }}>
+            <code style={{ color: 'var(--st-text)' }}>{field.name}</code> {field.description}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
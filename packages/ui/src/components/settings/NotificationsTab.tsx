@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { API } from '../../utils/api';
+import { useSettingsStore, type NotificationEventKind, type NotificationSettings } from '../../stores/settingsStore';
+import type { ProjectDTO } from '../../types/electron';
+
+const EVENTS: Array<{ kind: NotificationEventKind; label: string }> = [
+  { kind: 'agentFinished', label: 'Agent finished' },
+  { kind: 'question', label: 'Agent asked a question' },
+  { kind: 'approval', label: 'Approval needed' },
+  { kind: 'runFailed', label: 'Run failed' },
+  { kind: 'ciChanged', label: 'CI passed or failed' },
+];
+
+const inputStyle = {
+  backgroundColor: 'var(--st-editor)',
+  borderColor: 'var(--st-border)',
+  color: 'var(--st-text)',
+};
+
+function Switch({ checked, label, onChange }: { checked: boolean; label: string; onChange: (checked: boolean) => void }) {
+  return (
+    <button
+      type="button"
+      onClick={() => onChange(!checked)}
+      className="flex-shrink-0 w-10 h-5 cursor-pointer rounded-full p-0.5"
+      role="switch"
+      aria-checked={checked}
+      aria-label={label}
+      style={{
+        backgroundColor: checked ? 'var(--st-accent)' : 'var(--st-border)',
+        transition: 'background-color 0.2s'
+      }}
+    >
+      <span
+        className="block h-4 w-4 bg-white rounded-full transition-transform"
+        style={{ transform: checked ? 'translateX(1.25rem)' : 'translateX(0)' }}
+      />
+    </button>
+  );
+}
+
+export function NotificationsTab() {
+  const { settings, updateSettings } = useSettingsStore();
+  const notifications = settings.notifications;
+  const [projects, setProjects] = useState<ProjectDTO[]>([]);
+  // '' edits the rules every project starts from
+  const [scope, setScope] = useState<string>('');
+
+  useEffect(() => {
+    let cancelled = false;
+    API.projects.getAll()
+      .then((res) => {
+        if (!cancelled && res.success && res.data) setProjects(res.data);
+      })
+      .catch(() => {
+        // ignore
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const update = (updates: Partial<NotificationSettings>) => {
+    updateSettings({ notifications: { ...notifications, ...updates } });
+  };
+
+  const projectOverrides = scope ? notifications.projectRules[scope] || {} : {};
+  const isEnabled = (kind: NotificationEventKind) => projectOverrides[kind] ?? notifications.rules[kind];
+
+  const toggleRule = (kind: NotificationEventKind, enabled: boolean) => {
+    if (!scope) {
+      update({ rules: { ...notifications.rules, [kind]: enabled } });
+      return;
+    }
+    // Only keep overrides that differ from the defaults.
+    const { [kind]: _previous, ...rest } = projectOverrides;
+    const next = enabled === notifications.rules[kind] ? rest : { ...rest, [kind]: enabled };
+    const { [scope]: _current, ...otherProjects } = notifications.projectRules;
+    update({ projectRules: Object.keys(next).length > 0 ? { ...otherProjects, [scope]: next } : otherProjects });
+  };
+
+  const resetProject = () => {
+    const { [scope]: _current, ...otherProjects } = notifications.projectRules;
+    update({ projectRules: otherProjects });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm" style={{ color: 'var(--st-text-muted)' }}>
+          Desktop notifications
+        </label>
+        <Switch checked={notifications.enabled} label="Desktop notifications" onChange={(enabled) => update({ enabled })} />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <label className="text-sm" style={{ color: 'var(--st-text-muted)' }}>
+          Only when snowtree is in the background
+        </label>
+        <Switch
+          checked={notifications.onlyWhenUnfocused}
+          label="Only when snowtree is in the background"
+          onChange={(onlyWhenUnfocused) => update({ onlyWhenUnfocused })}
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <label className="text-sm" style={{ color: 'var(--st-text-muted)' }}>
+            Badge count
+          </label>
+          <p className="text-xs mt-0.5" style={{ color: 'var(--st-text-faint)' }}>
+            Number of finished workspaces you haven't looked at yet
+          </p>
+        </div>
+        <Switch checked={notifications.showBadge} label="Badge count" onChange={(showBadge) => update({ showBadge })} />
+      </div>
+
+      <div className="pt-2 border-t space-y-2" style={{ borderColor: 'var(--st-border)' }}>
+        <div className="flex items-center justify-between">
+          <label className="text-sm" style={{ color: 'var(--st-text-muted)' }}>
+            Notify about
+          </label>
+          <select
+            aria-label="Project"
+            value={scope}
+            onChange={(e) => setScope(e.target.value)}
+            className="px-2 py-1 rounded border text-xs st-focus-ring"
+            style={inputStyle}
+          >
+            <option value="">All projects</option>
+            {projects.map((project) => (
+              <option key={project.id} value={String(project.id)}>{project.name}</option>
+            ))}
+          </select>
+        </div>
+        {EVENTS.map(({ kind, label }) => (
+          <label key={kind} className="flex items-center gap-2 text-sm" style={{ color: 'var(--st-text-muted)' }}>
+            <input
+              type="checkbox"
+              checked={isEnabled(kind)}
+              disabled={!notifications.enabled}
+              onChange={(e) => toggleRule(kind, e.target.checked)}
+            />
+            {label}
+            {scope && projectOverrides[kind] !== undefined && (
+              <span className="text-xs" style={{ color: 'var(--st-text-faint)' }}>(project)</span>
+            )}
+          </label>
+        ))}
+        {scope && Object.keys(projectOverrides).length > 0 && (
+          <button
+            type="button"
+            onClick={resetProject}
+            className="text-xs st-focus-ring rounded"
+            style={{ color: 'var(--st-accent)' }}
+          >
+            Use the defaults for this project
+          </button>
+        )}
+      </div>
+
+      <div className="pt-2 border-t space-y-2" style={{ borderColor: 'var(--st-border)' }}>
+        <div className="flex items-center justify-between">
+          <div>
+            <label className="text-sm" style={{ color: 'var(--st-text-muted)' }}>
+              Do not disturb
+            </label>
+            <p className="text-xs mt-0.5" style={{ color: 'var(--st-text-faint)' }}>
+              No notifications or sounds during these hours
+            </p>
+          </div>
+          <Switch
+            checked={notifications.doNotDisturb.enabled}
+            label="Do not disturb"
+            onChange={(enabled) => update({ doNotDisturb: { ...notifications.doNotDisturb, enabled } })}
+          />
+        </div>
+        <div className="flex items-center justify-end gap-2 text-sm" style={{ color: 'var(--st-text-muted)' }}>
+          <input
+            type="time"
+            aria-label="Do not disturb from"
+            value={notifications.doNotDisturb.start}
+            disabled={!notifications.doNotDisturb.enabled}
+            onChange={(e) => update({ doNotDisturb: { ...notifications.doNotDisturb, start: e.target.value } })}
+            className="px-2 py-1 rounded border text-sm st-focus-ring"
+            style={inputStyle}
+          />
+          <span>to</span>
+          <input
+            type="time"
+            aria-label="Do not disturb until"
+            value={notifications.doNotDisturb.end}
+            disabled={!notifications.doNotDisturb.enabled}
+            onChange={(e) => update({ doNotDisturb: { ...notifications.doNotDisturb, end: e.target.value } })}
+            className="px-2 py-1 rounded border text-sm st-focus-ring"
+            style={inputStyle}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { API } from '../../utils/api';
+import { useSessionStore } from '../../stores/sessionStore';
+import type { PolicyRuleInputDTO, ProjectDTO } from '../../types/electron';
+
+const NEW_RULE: PolicyRuleInputDTO = {
+  name: '',
+  action: 'deny',
+  target: 'command',
+  pattern_type: 'glob',
+  pattern: '',
+  enabled: true,
+};
+
+const PLACEHOLDERS: Record<PolicyRuleInputDTO['target'], string> = {
+  command: 'git push --force*',
+  path: 'migrations/',
+};
+
+const inputStyle = {
+  backgroundColor: 'var(--st-editor)',
+  borderColor: 'var(--st-border)',
+  color: 'var(--st-text)',
+};
+
+const toInput = (rule: PolicyRuleInputDTO): PolicyRuleInputDTO => ({
+  name: rule.name,
+  action: rule.action,
+  target: rule.target,
+  pattern_type: rule.pattern_type,
+  pattern: rule.pattern,
+  enabled: rule.enabled,
+});
+
+export function PolicyRulesTab() {
+  const sessions = useSessionStore((state) => state.sessions);
+  const activeSessionId = useSessionStore((state) => state.activeSessionId);
+  const activeProjectId = useMemo(
+    () => sessions.find((s) => s.id === activeSessionId)?.projectId ?? null,
+    [sessions, activeSessionId]
+  );
+
+  const [projects, setProjects] = useState<ProjectDTO[]>([]);
+  const [projectId, setProjectId] = useState<number | null>(null);
+  const [rules, setRules] = useState<PolicyRuleInputDTO[]>([]);
+  const [saved, setSaved] = useState<string>('[]');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    API.projects.getAll()
+      .then((res) => {
+        if (cancelled || !res.success || !res.data) return;
+        setProjects(res.data);
+        const preferred = res.data.find((p) => p.id === activeProjectId)
+          || res.data.find((p) => p.active)
+          || res.data[0];
+        setProjectId((prev) => prev ?? preferred?.id ?? null);
+      })
+      .catch(() => {
+        // ignore
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeProjectId]);
+
+  useEffect(() => {
+    if (projectId == null) return;
+    let cancelled = false;
+    setError(null);
+    API.projects.getPolicyRules(projectId)
+      .then((res) => {
+        if (cancelled) return;
+        if (!res.success) {
+          setError(res.error || 'Failed to load policy rules');
+          return;
+        }
+        const loaded = (res.data ?? []).map(toInput);
+        setRules(loaded);
+        setSaved(JSON.stringify(loaded));
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load policy rules');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const updateRule = (index: number, patch: Partial<PolicyRuleInputDTO>) => {
+    setRules((prev) => prev.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  };
+
+  const moveRule = (index: number, delta: -1 | 1) => {
+    setRules((prev) => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const save = useCallback(async () => {
+    if (projectId == null) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await API.projects.updatePolicyRules(projectId, rules);
+      if (!res.success) {
+        setError(res.error || 'Failed to save policy rules');
+        return;
+      }
+      const stored = (res.data ?? []).map(toInput);
+      setRules(stored);
+      setSaved(JSON.stringify(stored));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save policy rules');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [projectId, rules]);
+
+  const isDirty = JSON.stringify(rules) !== saved;
+
+  if (projects.length === 0) {
+    return (
+      <div className="text-sm" style={{ color: 'var(--st-text-faint)' }}>
+        Add a repository to configure policy rules.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm" style={{ color: 'var(--st-text-muted)' }}>
+          Repository
+        </label>
+        <select
+          value={projectId ?? ''}
+          onChange={(e) => setProjectId(Number(e.target.value))}
+          className="px-3 py-1.5 rounded border text-sm w-64 st-focus-ring"
+          style={inputStyle}
+        >
+          {projects.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="text-xs" style={{ color: 'var(--st-text-faint)' }}>
+        Checked top to bottom for every command and file in an approval request or agent action; the first match
+        decides it. A request is denied if any of its commands or files is denied, and allowed only if all of them are.
+        Deny rules interrupt agents that do not ask first. Globs on commands match each whole command, including those
+        inside <code>bash -c</code> scripts (<code>*</code> matches anything); path globs are relative to the worktree,
+        and <code>dir/</code> covers everything below it.
+      </div>
+
+      {rules.length === 0 && (
+        <div className="text-xs py-2" style={{ color: 'var(--st-text-faint)' }}>No rules yet.</div>
+      )}
+
+      <div className="space-y-2">
+        {rules.map((rule, index) => (
+          <div
+            key={index}
+            className="flex items-center gap-2 p-2 rounded border"
+            style={{ borderColor: 'var(--st-border)', opacity: rule.enabled ? 1 : 0.6 }}
+            data-testid="policy-rule"
+          >
+            <input
+              type="checkbox"
+              aria-label="Enabled"
+              checked={rule.enabled}
+              onChange={(e) => updateRule(index, { enabled: e.target.checked })}
+            />
+            <select
+              aria-label="Action"
+              value={rule.action}
+              onChange={(e) => updateRule(index, { action: e.target.value as PolicyRuleInputDTO['action'] })}
+              className="px-2 py-1 rounded border text-xs st-focus-ring"
+              style={{ ...inputStyle, color: rule.action === 'deny' ? 'var(--st-danger)' : 'var(--st-success)' }}
+            >
+              <option value="deny">Deny</option>
+              <option value="allow">Allow</option>
+            </select>
+            <select
+              aria-label="Target"
+              value={rule.target}
+              onChange={(e) => updateRule(index, { target: e.target.value as PolicyRuleInputDTO['target'] })}
+              className="px-2 py-1 rounded border text-xs st-focus-ring"
+              style={inputStyle}
+            >
+              <option value="command">Command</option>
+              <option value="path">File path</option>
+            </select>
+            <select
+              aria-label="Pattern type"
+              value={rule.pattern_type}
+              onChange={(e) => updateRule(index, { pattern_type: e.target.value as PolicyRuleInputDTO['pattern_type'] })}
+              className="px-2 py-1 rounded border text-xs st-focus-ring"
+              style={inputStyle}
+            >
+              <option value="glob">Glob</option>
+              <option value="regex">Regex</option>
+            </select>
+            <input
+              aria-label="Pattern"
+              value={rule.pattern}
+              onChange={(e) => updateRule(index, { pattern: e.target.value })}
+              placeholder={PLACEHOLDERS[rule.target]}
+              spellCheck={false}
+              className="flex-1 min-w-0 px-2 py-1 rounded border text-xs font-mono st-focus-ring"
+              style={inputStyle}
+            />
+            <input
+              aria-label="Rule name"
+              value={rule.name}
+              onChange={(e) => updateRule(index, { name: e.target.value })}
+              placeholder="Name"
+              className="w-32 px-2 py-1 rounded border text-xs st-focus-ring"
+              style={inputStyle}
+            />
+            <button
+              type="button"
+              onClick={() => moveRule(index, -1)}
+              disabled={index === 0}
+              className="p-1 rounded st-hoverable st-focus-ring disabled:opacity-30"
+              title="Move up"
+            >
+              <ArrowUp className="w-3 h-3" style={{ color: 'var(--st-text-muted)' }} />
+            </button>
+            <button
+              type="button"
+              onClick={() => moveRule(index, 1)}
+              disabled={index === rules.length - 1}
+              className="p-1 rounded st-hoverable st-focus-ring disabled:opacity-30"
+              title="Move down"
+            >
+              <ArrowDown className="w-3 h-3" style={{ color: 'var(--st-text-muted)' }} />
+            </button>
+            <button
+              type="button"
+              onClick={() => setRules((prev) => prev.filter((_, i) => i !== index))}
+              className="p-1 rounded st-hoverable st-focus-ring"
+              title="Remove rule"
+            >
+              <Trash2 className="w-3 h-3" style={{ color: 'var(--st-text-muted)' }} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <div className="text-xs p-2 rounded" style={{ backgroundColor: 'var(--st-error-bg)', color: 'var(--st-error)' }}>
+          {error}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => setRules((prev) => [...prev, { ...NEW_RULE }])}
+          disabled={isSaving}
+          className="flex items-center gap-1 px-3 py-1.5 rounded text-sm st-hoverable st-focus-ring disabled:opacity-50"
+          style={{ color: 'var(--st-text-muted)' }}
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add Rule
+        </button>
+        <button
+          type="button"
+          onClick={() => void save()}
+          disabled={!isDirty || isSaving}
+          className="px-3 py-1.5 rounded text-sm font-medium st-focus-ring disabled:opacity-50"
+          style={{ backgroundColor: 'var(--st-accent)', color: 'white' }}
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
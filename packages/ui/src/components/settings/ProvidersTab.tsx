@@ -1,31 +1,75 @@
-import { useState } from 'react';
-import { ChevronRight, Plus, Trash2 } from 'lucide-react';
+import { useState, type ComponentType } from 'react';
+import { Bot, ChevronRight, Plus, Trash2 } from 'lucide-react';
 import { useSettingsStore, type ProviderConfig } from '../../stores/settingsStore';
 import { ClaudeIcon, CodexIcon, GeminiIcon, KimiIcon } from '../icons/ProviderIcons';
+import { isExecutorEnabled, useExecutors, type ExecutorInfo, type ExecutorSettingField } from '../../features/executors';
 
 function isSensitiveKey(key: string): boolean {
   return /token|key|secret|password|credential/i.test(key);
 }
 
+const inputStyle = {
+  backgroundColor: 'var(--st-editor)',
+  borderColor: 'var(--st-border)',
+  color: 'var(--st-text)',
+};
+
+function ProviderSettingField({
+  field,
+  value,
+  onChange,
+}: {
+  field: ExecutorSettingField;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <label className="text-xs" style={{ color: 'var(--st-text-faint)' }}>
+        {field.label}
+      </label>
+      {field.type === 'select' ? (
+        <select
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-full px-2 py-1 rounded border text-xs st-focus-ring"
+          style={inputStyle}
+        >
+          {(field.options || []).map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      ) : (
+        <input
+          type={field.type === 'password' ? 'password' : 'text'}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.placeholder}
+          className="w-full px-2 py-1 rounded border text-xs st-focus-ring"
+          style={inputStyle}
+        />
+      )}
+      {field.description && (
+        <div className="text-[11px]" style={{ color: 'var(--st-text-faint)' }}>
+          {field.description}
+        </div>
+      )}
+    </div>
+  );
+}
+
 function ProviderAdvancedConfig({
-  provider,
+  executor,
   config,
   onChange,
 }: {
-  provider: string;
+  executor: ExecutorInfo;
   config: ProviderConfig;
   onChange: (config: ProviderConfig) => void;
 }) {
   const [newEnvKey, setNewEnvKey] = useState('');
   const [newEnvValue, setNewEnvValue] = useState('');
 
-  const placeholders: Record<string, string> = {
-    claude: 'e.g. --settings ~/.claude/settings.json --model sonnet',
-    codex: 'e.g. -c model="o3" -p my-profile',
-    gemini: 'e.g. --model gemini-2.5-pro --sandbox',
-    kimi: 'e.g. --config-file ~/.kimi/custom.toml --model k2',
-  };
-
   const addEnvVar = () => {
     const key = newEnvKey.trim();
     if (!key) return;
@@ -44,8 +88,21 @@ function ProviderAdvancedConfig({
     onChange({ ...config, envVars: { ...config.envVars, [key]: value } });
   };
 
+  const updateOption = (key: string, value: string) => {
+    onChange({ ...config, options: { ...config.options, [key]: value } });
+  };
+
   return (
     <div className="ml-6 mt-2 space-y-2 text-xs" style={{ color: 'var(--st-text-muted)' }}>
+      {(executor.settings.fields || []).map((field) => (
+        <ProviderSettingField
+          key={field.key}
+          field={field}
+          value={config.options?.[field.key] ?? field.defaultValue ?? ''}
+          onChange={(value) => updateOption(field.key, value)}
+        />
+      ))}
+
       <div className="space-y-1">
         <label className="text-xs" style={{ color: 'var(--st-text-faint)' }}>
           Extra CLI Arguments
@@ -54,7 +111,7 @@ function ProviderAdvancedConfig({
           type="text"
           value={config.extraArgs}
           onChange={(e) => onChange({ ...config, extraArgs: e.target.value })}
-          placeholder={placeholders[provider] || 'e.g. --flag value'}
+          placeholder={executor.settings.extraArgsPlaceholder || 'e.g. --flag value'}
           className="w-full px-2 py-1 rounded border text-xs st-focus-ring"
           style={{
             backgroundColor: 'var(--st-editor)',
@@ -147,72 +204,80 @@ function ProviderAdvancedConfig({
   );
 }
 
-const providers = [
-  { key: 'claude' as const, label: 'Claude', Icon: ClaudeIcon },
-  { key: 'codex' as const, label: 'Codex', Icon: CodexIcon },
-  { key: 'gemini' as const, label: 'Gemini', Icon: GeminiIcon },
-  { key: 'kimi' as const, label: 'Kimi', Icon: KimiIcon },
-];
+const providerIcons: Record<string, ComponentType<{ className?: string }>> = {
+  claude: ClaudeIcon,
+  codex: CodexIcon,
+  gemini: GeminiIcon,
+  kimi: KimiIcon,
+};
+
+const EMPTY_PROVIDER_CONFIG: ProviderConfig = { envVars: {}, extraArgs: '' };
 
 export function ProvidersTab() {
   const { settings, updateSettings } = useSettingsStore();
+  const executors = useExecutors();
   const [expandedProvider, setExpandedProvider] = useState<string | null>(null);
 
   return (
     <div className="space-y-3">
-      {providers.map(({ key, label, Icon }) => (
-        <div key={key}>
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <Icon className="w-4 h-4 flex-shrink-0" />
-              <label className="text-sm" style={{ color: 'var(--st-text-muted)' }}>
-                {label}
-              </label>
+      {executors.map((executor) => {
+        const { id: key, displayName: label } = executor;
+        const Icon = providerIcons[key] || Bot;
+        const enabled = isExecutorEnabled(executors, settings.enabledProviders, key);
+        return (
+          <div key={key}>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Icon className="w-4 h-4 flex-shrink-0" />
+                <label className="text-sm" style={{ color: 'var(--st-text-muted)' }}>
+                  {label}
+                </label>
+                <button
+                  type="button"
+                  onClick={() => setExpandedProvider(expandedProvider === key ? null : key)}
+                  className="p-0.5 rounded st-hoverable"
+                  title="Advanced configuration"
+                >
+                  <ChevronRight
+                    className="w-3 h-3 transition-transform"
+                    style={{
+                      color: 'var(--st-text-faint)',
+                      transform: expandedProvider === key ? 'rotate(90deg)' : 'rotate(0deg)',
+                    }}
+                  />
+                </button>
+              </div>
               <button
                 type="button"
-                onClick={() => setExpandedProvider(expandedProvider === key ? null : key)}
-                className="p-0.5 rounded st-hoverable"
-                title="Advanced configuration"
+                onClick={() => updateSettings({
+                  enabledProviders: { ...settings.enabledProviders, [key]: !enabled }
+                })}
+                className="flex-shrink-0 w-10 h-5 cursor-pointer rounded-full p-0.5"
+                role="switch"
+                aria-checked={enabled}
+                style={{
+                  backgroundColor: enabled ? 'var(--st-accent)' : 'var(--st-border)',
+                  transition: 'background-color 0.2s'
+                }}
               >
-                <ChevronRight
-                  className="w-3 h-3 transition-transform"
-                  style={{
-                    color: 'var(--st-text-faint)',
-                    transform: expandedProvider === key ? 'rotate(90deg)' : 'rotate(0deg)',
-                  }}
+                <span
+                  className="block h-4 w-4 bg-white rounded-full transition-transform"
+                  style={{ transform: enabled ? 'translateX(1.25rem)' : 'translateX(0)' }}
                 />
               </button>
             </div>
-            <button
-              type="button"
-              onClick={() => updateSettings({
-                enabledProviders: { ...settings.enabledProviders, [key]: !settings.enabledProviders[key] }
-              })}
-              className="flex-shrink-0 w-10 h-5 cursor-pointer rounded-full p-0.5"
-              role="switch"
-              aria-checked={settings.enabledProviders[key]}
-              style={{
-                backgroundColor: settings.enabledProviders[key] ? 'var(--st-accent)' : 'var(--st-border)',
-                transition: 'background-color 0.2s'
-              }}
-            >
-              <span
-                className="block h-4 w-4 bg-white rounded-full transition-transform"
-                style={{ transform: settings.enabledProviders[key] ? 'translateX(1.25rem)' : 'translateX(0)' }}
+            {expandedProvider === key && (
+              <ProviderAdvancedConfig
+                executor={executor}
+                config={settings.providerConfigs[key] ?? EMPTY_PROVIDER_CONFIG}
+                onChange={(cfg) => updateSettings({
+                  providerConfigs: { ...settings.providerConfigs, [key]: cfg }
+                })}
               />
-            </button>
+            )}
           </div>
-          {expandedProvider === key && (
-            <ProviderAdvancedConfig
-              provider={key}
-              config={settings.providerConfigs[key]}
-              onChange={(cfg) => updateSettings({
-                providerConfigs: { ...settings.providerConfigs, [key]: cfg }
-              })}
-            />
-          )}
-        </div>
-      ))}
+        );
+      })}
 
       <div className="flex items-center justify-between">
         <label className="text-sm" style={{ color: 'var(--st-text-muted)' }}>
@@ -221,7 +286,7 @@ export function ProvidersTab() {
         <select
           value={settings.defaultToolType}
           onChange={(e) => updateSettings({
-            defaultToolType: e.target.value as typeof settings.defaultToolType
+            defaultToolType: e.target.value
           })}
           className="px-3 py-1.5 rounded border text-sm w-40 st-focus-ring"
           style={{
@@ -230,10 +295,9 @@ export function ProvidersTab() {
             color: 'var(--st-text)',
           }}
         >
-          <option value="claude">Claude</option>
-          <option value="codex">Codex</option>
-          <option value="gemini">Gemini</option>
-          <option value="kimi">Kimi</option>
+          {executors.map((executor) => (
+            <option key={executor.id} value={executor.id}>{executor.displayName}</option>
+          ))}
           <option value="none">None</option>
         </select>
       </div>
@@ -0,0 +1,232 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { API } from '../../utils/api';
+import { useSessionStore } from '../../stores/sessionStore';
+import type { ProjectDTO, RunCommandDTO, RunCommandInputDTO } from '../../types/electron';
+
+const inputStyle = {
+  backgroundColor: 'var(--st-editor)',
+  borderColor: 'var(--st-border)',
+  color: 'var(--st-text)',
+};
+
+const toInput = (command: RunCommandDTO): RunCommandInputDTO => ({
+  id: command.id,
+  command: command.command,
+  display_name: command.display_name ?? '',
+});
+
+export function RunCommandsTab() {
+  const sessions = useSessionStore((state) => state.sessions);
+  const activeSessionId = useSessionStore((state) => state.activeSessionId);
+  const activeProjectId = useMemo(
+    () => sessions.find((s) => s.id === activeSessionId)?.projectId ?? null,
+    [sessions, activeSessionId]
+  );
+
+  const [projects, setProjects] = useState<ProjectDTO[]>([]);
+  const [projectId, setProjectId] = useState<number | null>(null);
+  const [commands, setCommands] = useState<RunCommandInputDTO[]>([]);
+  const [saved, setSaved] = useState<string>('[]');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    API.projects.getAll()
+      .then((res) => {
+        if (cancelled || !res.success || !res.data) return;
+        setProjects(res.data);
+        const preferred = res.data.find((p) => p.id === activeProjectId)
+          || res.data.find((p) => p.active)
+          || res.data[0];
+        setProjectId((prev) => prev ?? preferred?.id ?? null);
+      })
+      .catch(() => {
+        // ignore
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeProjectId]);
+
+  useEffect(() => {
+    if (projectId == null) return;
+    let cancelled = false;
+    setError(null);
+    API.projects.getRunCommands(projectId)
+      .then((res) => {
+        if (cancelled) return;
+        if (!res.success) {
+          setError(res.error || 'Failed to load run commands');
+          return;
+        }
+        const loaded = (res.data ?? []).map(toInput);
+        setCommands(loaded);
+        setSaved(JSON.stringify(loaded));
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load run commands');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const updateCommand = (index: number, patch: Partial<RunCommandInputDTO>) => {
+    setCommands((prev) => prev.map((command, i) => (i === index ? { ...command, ...patch } : command)));
+  };
+
+  const moveCommand = (index: number, delta: -1 | 1) => {
+    setCommands((prev) => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const save = useCallback(async () => {
+    if (projectId == null) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await API.projects.updateRunCommands(projectId, commands);
+      if (!res.success) {
+        setError(res.error || 'Failed to save run commands');
+        return;
+      }
+      const stored = (res.data ?? []).map(toInput);
+      setCommands(stored);
+      setSaved(JSON.stringify(stored));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save run commands');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [projectId, commands]);
+
+  const isDirty = JSON.stringify(commands) !== saved;
+
+  if (projects.length === 0) {
+    return (
+      <div className="text-sm" style={{ color: 'var(--st-text-faint)' }}>
+        Add a repository to configure run commands.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm" style={{ color: 'var(--st-text-muted)' }}>
+          Repository
+        </label>
+        <select
+          value={projectId ?? ''}
+          onChange={(e) => setProjectId(Number(e.target.value))}
+          className="px-3 py-1.5 rounded border text-sm w-64 st-focus-ring"
+          style={inputStyle}
+        >
+          {projects.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="text-xs" style={{ color: 'var(--st-text-faint)' }}>
+        Saved commands run in the selected workspace from the command launcher (Cmd/Ctrl+Shift+P) or the Scripts
+        section of the right panel. Each run gets a free port in <code>$SNOWTREE_PORT</code> and is recorded in the
+        timeline with its exit code.
+      </div>
+
+      {commands.length === 0 && (
+        <div className="text-xs py-2" style={{ color: 'var(--st-text-faint)' }}>No commands yet.</div>
+      )}
+
+      <div className="space-y-2">
+        {commands.map((command, index) => (
+          <div
+            key={command.id ?? `new-${index}`}
+            className="flex items-center gap-2 p-2 rounded border"
+            style={{ borderColor: 'var(--st-border)' }}
+            data-testid="run-command"
+          >
+            <input
+              aria-label="Name"
+              value={command.display_name ?? ''}
+              onChange={(e) => updateCommand(index, { display_name: e.target.value })}
+              placeholder="Name"
+              className="w-32 px-2 py-1 rounded border text-xs st-focus-ring"
+              style={inputStyle}
+            />
+            <input
+              aria-label="Command"
+              value={command.command}
+              onChange={(e) => updateCommand(index, { command: e.target.value })}
+              placeholder="pnpm test"
+              spellCheck={false}
+              className="flex-1 min-w-0 px-2 py-1 rounded border text-xs font-mono st-focus-ring"
+              style={inputStyle}
+            />
+            <button
+              type="button"
+              onClick={() => moveCommand(index, -1)}
+              disabled={index === 0}
+              className="p-1 rounded st-hoverable st-focus-ring disabled:opacity-30"
+              title="Move up"
+            >
+              <ArrowUp className="w-3 h-3" style={{ color: 'var(--st-text-muted)' }} />
+            </button>
+            <button
+              type="button"
+              onClick={() => moveCommand(index, 1)}
+              disabled={index === commands.length - 1}
+              className="p-1 rounded st-hoverable st-focus-ring disabled:opacity-30"
+              title="Move down"
+            >
+              <ArrowDown className="w-3 h-3" style={{ color: 'var(--st-text-muted)' }} />
+            </button>
+            <button
+              type="button"
+              onClick={() => setCommands((prev) => prev.filter((_, i) => i !== index))}
+              className="p-1 rounded st-hoverable st-focus-ring"
+              title="Remove command"
+            >
+              <Trash2 className="w-3 h-3" style={{ color: 'var(--st-text-muted)' }} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <div className="text-xs p-2 rounded" style={{ backgroundColor: 'var(--st-error-bg)', color: 'var(--st-error)' }}>
+          {error}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => setCommands((prev) => [...prev, { command: '', display_name: '' }])}
+          disabled={isSaving}
+          className="flex items-center gap-1 px-3 py-1.5 rounded text-sm st-hoverable st-focus-ring disabled:opacity-50"
+          style={{ color: 'var(--st-text-muted)' }}
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add Command
+        </button>
+        <button
+          type="button"
+          onClick={() => void save()}
+          disabled={!isDirty || isSaving}
+          className="px-3 py-1.5 rounded text-sm font-medium st-focus-ring disabled:opacity-50"
+          style={{ backgroundColor: 'var(--st-accent)', color: 'white' }}
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,373 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { API } from '../../utils/api';
+import { useSessionStore } from '../../stores/sessionStore';
+import { useSettingsStore } from '../../stores/settingsStore';
+import { useExecutors } from '../../features/executors';
+import type { ProjectDTO, SessionTemplateInputDTO } from '../../types/electron';
+
+const NEW_TEMPLATE: SessionTemplateInputDTO = {
+  name: '',
+  prompt: '',
+  tool_type: 'claude',
+  model: null,
+  approval_mode: null,
+  thinking_level: null,
+  plan_mode: false,
+  commit_mode: null,
+  base_branch: null,
+};
+
+// Approval choices per built-in agent; plugins take their defaults
+const APPROVAL_OPTIONS: Record<string, Array<{ value: string; label: string }>> = {
+  claude: [
+    { value: 'approve', label: 'Ask before edits' },
+    { value: 'ignore', label: 'Skip permissions' },
+  ],
+  codex: [
+    { value: 'manual', label: 'Ask before edits' },
+    { value: 'auto', label: 'Auto-approve' },
+  ],
+  gemini: [
+    { value: 'default', label: 'Ask before edits' },
+    { value: 'auto_edit', label: 'Auto-edit' },
+    { value: 'yolo', label: 'YOLO' },
+  ],
+  kimi: [
+    { value: 'default', label: 'Ask before edits' },
+    { value: 'yolo', label: 'YOLO' },
+  ],
+};
+
+const inputStyle = {
+  backgroundColor: 'var(--st-editor)',
+  borderColor: 'var(--st-border)',
+  color: 'var(--st-text)',
+};
+
+const toInput = (template: SessionTemplateInputDTO): SessionTemplateInputDTO => ({
+  name: template.name,
+  prompt: template.prompt,
+  tool_type: template.tool_type,
+  model: template.model,
+  approval_mode: template.approval_mode,
+  thinking_level: template.thinking_level,
+  plan_mode: template.plan_mode,
+  commit_mode: template.commit_mode,
+  base_branch: template.base_branch,
+});
+
+export function SessionTemplatesTab() {
+  const sessions = useSessionStore((state) => state.sessions);
+  const activeSessionId = useSessionStore((state) => state.activeSessionId);
+  const defaultToolType = useSettingsStore((state) => state.settings.defaultToolType);
+  const executors = useExecutors();
+  const activeProjectId = useMemo(
+    () => sessions.find((s) => s.id === activeSessionId)?.projectId ?? null,
+    [sessions, activeSessionId]
+  );
+
+  const [projects, setProjects] = useState<ProjectDTO[]>([]);
+  const [projectId, setProjectId] = useState<number | null>(null);
+  const [templates, setTemplates] = useState<SessionTemplateInputDTO[]>([]);
+  const [saved, setSaved] = useState<string>('[]');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    API.projects.getAll()
+      .then((res) => {
+        if (cancelled || !res.success || !res.data) return;
+        setProjects(res.data);
+        const preferred = res.data.find((p) => p.id === activeProjectId)
+          || res.data.find((p) => p.active)
+          || res.data[0];
+        setProjectId((prev) => prev ?? preferred?.id ?? null);
+      })
+      .catch(() => {
+        // ignore
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeProjectId]);
+
+  useEffect(() => {
+    if (projectId == null) return;
+    let cancelled = false;
+    setError(null);
+    API.projects.getSessionTemplates(projectId)
+      .then((res) => {
+        if (cancelled) return;
+        if (!res.success) {
+          setError(res.error || 'Failed to load session templates');
+          return;
+        }
+        const loaded = (res.data ?? []).map(toInput);
+        setTemplates(loaded);
+        setSaved(JSON.stringify(loaded));
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load session templates');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const updateTemplate = (index: number, patch: Partial<SessionTemplateInputDTO>) => {
+    setTemplates((prev) => prev.map((template, i) => (i === index ? { ...template, ...patch } : template)));
+  };
+
+  const moveTemplate = (index: number, delta: -1 | 1) => {
+    setTemplates((prev) => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const save = useCallback(async () => {
+    if (projectId == null) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await API.projects.updateSessionTemplates(projectId, templates);
+      if (!res.success) {
+        setError(res.error || 'Failed to save session templates');
+        return;
+      }
+      const stored = (res.data ?? []).map(toInput);
+      setTemplates(stored);
+      setSaved(JSON.stringify(stored));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save session templates');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [projectId, templates]);
+
+  const isDirty = JSON.stringify(templates) !== saved;
+
+  if (projects.length === 0) {
+    return (
+      <div className="text-sm" style={{ color: 'var(--st-text-faint)' }}>
+        Add a repository to configure session templates.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm" style={{ color: 'var(--st-text-muted)' }}>
+          Repository
+        </label>
+        <select
+          value={projectId ?? ''}
+          onChange={(e) => setProjectId(Number(e.target.value))}
+          className="px-3 py-1.5 rounded border text-sm w-64 st-focus-ring"
+          style={inputStyle}
+        >
+          {projects.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="text-xs" style={{ color: 'var(--st-text-faint)' }}>
+        Templates pre-fill new workspaces with an agent, its modes and a starting prompt. Pick one with the template
+        button next to a repository, or from Telegram with <code>/new #name key=value text</code>. In the prompt
+        each <code>{'{{name}}'}</code> is asked for when the workspace is created, while <code>{'{{project}}'}</code>
+        and <code>{'{{date}}'}</code> are filled in for you. Text after a Telegram command fills <code>{'{{input}}'}</code>.
+      </div>
+
+      {templates.length === 0 && (
+        <div className="text-xs py-2" style={{ color: 'var(--st-text-faint)' }}>No session templates yet.</div>
+      )}
+
+      <div className="space-y-2">
+        {templates.map((template, index) => {
+          const approvalOptions = APPROVAL_OPTIONS[template.tool_type] ?? [];
+          return (
+            <div
+              key={index}
+              className="p-2 rounded border space-y-2"
+              style={{ borderColor: 'var(--st-border)' }}
+              data-testid="session-template"
+            >
+              <div className="flex items-center gap-2">
+                <input
+                  aria-label="Name"
+                  value={template.name}
+                  onChange={(e) => updateTemplate(index, { name: e.target.value })}
+                  placeholder="Name, e.g. Bugfix"
+                  className="flex-1 min-w-0 px-2 py-1 rounded border text-xs st-focus-ring"
+                  style={inputStyle}
+                />
+                <select
+                  aria-label="Agent"
+                  value={template.tool_type}
+                  onChange={(e) => updateTemplate(index, { tool_type: e.target.value, approval_mode: null, thinking_level: null })}
+                  className="px-2 py-1 rounded border text-xs st-focus-ring"
+                  style={inputStyle}
+                >
+                  {executors.map((executor) => (
+                    <option key={executor.id} value={executor.id}>{executor.displayName}</option>
+                  ))}
+                  <option value="none">No agent</option>
+                </select>
+                <button
+                  type="button"
+                  onClick={() => moveTemplate(index, -1)}
+                  disabled={index === 0}
+                  className="p-1 rounded st-hoverable st-focus-ring disabled:opacity-30"
+                  title="Move up"
+                >
+                  <ArrowUp className="w-3 h-3" style={{ color: 'var(--st-text-muted)' }} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => moveTemplate(index, 1)}
+                  disabled={index === templates.length - 1}
+                  className="p-1 rounded st-hoverable st-focus-ring disabled:opacity-30"
+                  title="Move down"
+                >
+                  <ArrowDown className="w-3 h-3" style={{ color: 'var(--st-text-muted)' }} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setTemplates((prev) => prev.filter((_, i) => i !== index))}
+                  className="p-1 rounded st-hoverable st-focus-ring"
+                  title="Remove template"
+                >
+                  <Trash2 className="w-3 h-3" style={{ color: 'var(--st-text-muted)' }} />
+                </button>
+              </div>
+
+              {template.tool_type !== 'none' && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    aria-label="Model"
+                    value={template.model ?? ''}
+                    onChange={(e) => updateTemplate(index, { model: e.target.value || null })}
+                    placeholder="Default model"
+                    className="w-32 px-2 py-1 rounded border text-xs st-focus-ring"
+                    style={inputStyle}
+                  />
+                  {approvalOptions.length > 0 && (
+                    <select
+                      aria-label="Approvals"
+                      value={template.approval_mode ?? ''}
+                      onChange={(e) => updateTemplate(index, { approval_mode: e.target.value || null })}
+                      className="px-2 py-1 rounded border text-xs st-focus-ring"
+                      style={inputStyle}
+                    >
+                      <option value="">Default approvals</option>
+                      {approvalOptions.map((option) => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  )}
+                  {template.tool_type === 'codex' && (
+                    <select
+                      aria-label="Reasoning"
+                      value={template.thinking_level ?? ''}
+                      onChange={(e) => updateTemplate(index, {
+                        thinking_level: (e.target.value || null) as SessionTemplateInputDTO['thinking_level'],
+                      })}
+                      className="px-2 py-1 rounded border text-xs st-focus-ring"
+                      style={inputStyle}
+                    >
+                      <option value="">Default reasoning</option>
+                      <option value="low">Low reasoning</option>
+                      <option value="medium">Medium reasoning</option>
+                      <option value="high">High reasoning</option>
+                    </select>
+                  )}
+                  <label className="flex items-center gap-1 text-xs" style={{ color: 'var(--st-text-muted)' }}>
+                    <input
+                      type="checkbox"
+                      checked={template.plan_mode}
+                      onChange={(e) => updateTemplate(index, { plan_mode: e.target.checked })}
+                    />
+                    Plan first
+                  </label>
+                </div>
+              )}
+
+              <div className="flex flex-wrap items-center gap-2">
+                <select
+                  aria-label="Commit mode"
+                  value={template.commit_mode ?? ''}
+                  onChange={(e) => updateTemplate(index, {
+                    commit_mode: (e.target.value || null) as SessionTemplateInputDTO['commit_mode'],
+                  })}
+                  className="px-2 py-1 rounded border text-xs st-focus-ring"
+                  style={inputStyle}
+                >
+                  <option value="">Default commits</option>
+                  <option value="checkpoint">Checkpoint commits</option>
+                  <option value="structured">Structured commits</option>
+                  <option value="disabled">No auto-commits</option>
+                </select>
+                <input
+                  aria-label="Base branch"
+                  value={template.base_branch ?? ''}
+                  onChange={(e) => updateTemplate(index, { base_branch: e.target.value || null })}
+                  placeholder="Base branch (default)"
+                  className="w-40 px-2 py-1 rounded border text-xs font-mono st-focus-ring"
+                  style={inputStyle}
+                />
+              </div>
+
+              <textarea
+                aria-label="Prompt"
+                value={template.prompt}
+                onChange={(e) => updateTemplate(index, { prompt: e.target.value })}
+                placeholder={'Fix {{issue}}. Reproduce it with a failing test first, then fix it.\n\n{{input}}'}
+                rows={3}
+                className="w-full px-2 py-1 rounded border text-xs font-mono st-focus-ring resize-y"
+                style={inputStyle}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      {error && (
+        <div className="text-xs p-2 rounded" style={{ backgroundColor: 'var(--st-error-bg)', color: 'var(--st-error)' }}>
+          {error}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => setTemplates((prev) => [
+            ...prev,
+            { ...NEW_TEMPLATE, tool_type: defaultToolType === 'none' ? 'claude' : defaultToolType },
+          ])}
+          disabled={isSaving}
+          className="flex items-center gap-1 px-3 py-1.5 rounded text-sm st-hoverable st-focus-ring disabled:opacity-50"
+          style={{ color: 'var(--st-text-muted)' }}
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add Template
+        </button>
+        <button
+          type="button"
+          onClick={() => void save()}
+          disabled={!isDirty || isSaving}
+          className="px-3 py-1.5 rounded text-sm font-medium st-focus-ring disabled:opacity-50"
+          style={{ backgroundColor: 'var(--st-accent)', color: 'white' }}
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { API } from '../../utils/api';
+import { useSessionStore } from '../../stores/sessionStore';
+import type { ProjectDTO, SetupStepInputDTO } from '../../types/electron';
+
+const NEW_STEP: SetupStepInputDTO = {
+  name: '',
+  kind: 'command',
+  value: '',
+  enabled: true,
+};
+
+const PLACEHOLDERS: Record<SetupStepInputDTO['kind'], string> = {
+  copy: '.env*\nconfig/local.json',
+  symlink: 'node_modules',
+  command: 'pnpm install --frozen-lockfile',
+};
+
+const inputStyle = {
+  backgroundColor: 'var(--st-editor)',
+  borderColor: 'var(--st-border)',
+  color: 'var(--st-text)',
+};
+
+const toInput = (step: SetupStepInputDTO): SetupStepInputDTO => ({
+  name: step.name,
+  kind: step.kind,
+  value: step.value,
+  enabled: step.enabled,
+});
+
+export function SetupStepsTab() {
+  const sessions = useSessionStore((state) => state.sessions);
+  const activeSessionId = useSessionStore((state) => state.activeSessionId);
+  const activeProjectId = useMemo(
+    () => sessions.find((s) => s.id === activeSessionId)?.projectId ?? null,
+    [sessions, activeSessionId]
+  );
+
+  const [projects, setProjects] = useState<ProjectDTO[]>([]);
+  const [projectId, setProjectId] = useState<number | null>(null);
+  const [steps, setSteps] = useState<SetupStepInputDTO[]>([]);
+  const [saved, setSaved] = useState<string>('[]');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    API.projects.getAll()
+      .then((res) => {
+        if (cancelled || !res.success || !res.data) return;
+        setProjects(res.data);
+        const preferred = res.data.find((p) => p.id === activeProjectId)
+          || res.data.find((p) => p.active)
+          || res.data[0];
+        setProjectId((prev) => prev ?? preferred?.id ?? null);
+      })
+      .catch(() => {
+        // ignore
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeProjectId]);
+
+  useEffect(() => {
+    if (projectId == null) return;
+    let cancelled = false;
+    setError(null);
+    API.projects.getSetupSteps(projectId)
+      .then((res) => {
+        if (cancelled) return;
+        if (!res.success) {
+          setError(res.error || 'Failed to load setup steps');
+          return;
+        }
+        const loaded = (res.data ?? []).map(toInput);
+        setSteps(loaded);
+        setSaved(JSON.stringify(loaded));
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load setup steps');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const updateStep = (index: number, patch: Partial<SetupStepInputDTO>) => {
+    setSteps((prev) => prev.map((step, i) => (i === index ? { ...step, ...patch } : step)));
+  };
+
+  const moveStep = (index: number, delta: -1 | 1) => {
+    setSteps((prev) => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const save = useCallback(async () => {
+    if (projectId == null) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const res = await API.projects.updateSetupSteps(projectId, steps);
+      if (!res.success) {
+        setError(res.error || 'Failed to save setup steps');
+        return;
+      }
+      const stored = (res.data ?? []).map(toInput);
+      setSteps(stored);
+      setSaved(JSON.stringify(stored));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save setup steps');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [projectId, steps]);
+
+  const isDirty = JSON.stringify(steps) !== saved;
+
+  if (projects.length === 0) {
+    return (
+      <div className="text-sm" style={{ color: 'var(--st-text-faint)' }}>
+        Add a repository to configure setup steps.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm" style={{ color: 'var(--st-text-muted)' }}>
+          Repository
+        </label>
+        <select
+          value={projectId ?? ''}
+          onChange={(e) => setProjectId(Number(e.target.value))}
+          className="px-3 py-1.5 rounded border text-sm w-64 st-focus-ring"
+          style={inputStyle}
+        >
+          {projects.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="text-xs" style={{ color: 'var(--st-text-faint)' }}>
+        Steps run in order in every new workspace before the agent starts. Copy and link take paths relative to the
+        repository, one per line (<code>*</code> matches within a folder). If a step fails the agent waits until you
+        retry or skip it from the Setup section of the right panel. Without steps the build script runs instead.
+      </div>
+
+      {steps.length === 0 && (
+        <div className="text-xs py-2" style={{ color: 'var(--st-text-faint)' }}>No setup steps yet.</div>
+      )}
+
+      <div className="space-y-2">
+        {steps.map((step, index) => (
+          <div
+            key={index}
+            className="p-2 rounded border space-y-2"
+            style={{ borderColor: 'var(--st-border)', opacity: step.enabled ? 1 : 0.6 }}
+            data-testid="setup-step"
+          >
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                aria-label="Enabled"
+                checked={step.enabled}
+                onChange={(e) => updateStep(index, { enabled: e.target.checked })}
+              />
+              <select
+                aria-label="Kind"
+                value={step.kind}
+                onChange={(e) => updateStep(index, { kind: e.target.value as SetupStepInputDTO['kind'] })}
+                className="px-2 py-1 rounded border text-xs st-focus-ring"
+                style={inputStyle}
+              >
+                <option value="copy">Copy</option>
+                <option value="symlink">Link</option>
+                <option value="command">Run</option>
+              </select>
+              <input
+                aria-label="Name"
+                value={step.name}
+                onChange={(e) => updateStep(index, { name: e.target.value })}
+                placeholder="Name"
+                className="flex-1 min-w-0 px-2 py-1 rounded border text-xs st-focus-ring"
+                style={inputStyle}
+              />
+              <button
+                type="button"
+                onClick={() => moveStep(index, -1)}
+                disabled={index === 0}
+                className="p-1 rounded st-hoverable st-focus-ring disabled:opacity-30"
+                title="Move up"
+              >
+                <ArrowUp className="w-3 h-3" style={{ color: 'var(--st-text-muted)' }} />
+              </button>
+              <button
+                type="button"
+                onClick={() => moveStep(index, 1)}
+                disabled={index === steps.length - 1}
+                className="p-1 rounded st-hoverable st-focus-ring disabled:opacity-30"
+                title="Move down"
+              >
+                <ArrowDown className="w-3 h-3" style={{ color: 'var(--st-text-muted)' }} />
+              </button>
+              <button
+                type="button"
+                onClick={() => setSteps((prev) => prev.filter((_, i) => i !== index))}
+                className="p-1 rounded st-hoverable st-focus-ring"
+                title="Remove step"
+              >
+                <Trash2 className="w-3 h-3" style={{ color: 'var(--st-text-muted)' }} />
+              </button>
+            </div>
+            <textarea
+              aria-label={step.kind === 'command' ? 'Command' : 'Paths'}
+              value={step.value}
+              onChange={(e) => updateStep(index, { value: e.target.value })}
+              placeholder={PLACEHOLDERS[step.kind]}
+              rows={step.kind === 'command' ? 1 : 2}
+              spellCheck={false}
+              className="w-full px-2 py-1 rounded border text-xs font-mono st-focus-ring resize-y"
+              style={inputStyle}
+            />
+          </div>
+        ))}
+      </div>
+
+      {error && (
+        <div className="text-xs p-2 rounded" style={{ backgroundColor: 'var(--st-error-bg)', color: 'var(--st-error)' }}>
+          {error}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => setSteps((prev) => [...prev, { ...NEW_STEP }])}
+          disabled={isSaving}
+          className="flex items-center gap-1 px-3 py-1.5 rounded text-sm st-hoverable st-focus-ring disabled:opacity-50"
+          style={{ color: 'var(--st-text-muted)' }}
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add Step
+        </button>
+        <button
+          type="button"
+          onClick={() => void save()}
+          disabled={!isDirty || isSaving}
+          className="px-3 py-1.5 rounded text-sm font-medium st-focus-ring disabled:opacity-50"
+          style={{ backgroundColor: 'var(--st-accent)', color: 'white' }}
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -72,6 +72,33 @@ export function TerminalTab() {
           }}
         />
       </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <label className="text-sm" style={{ color: 'var(--st-text-muted)' }}>
+            Keep terminals running with tmux
+          </label>
+          <p className="text-xs mt-0.5" style={{ color: 'var(--st-text-faint)' }}>
+            New terminals start inside tmux, so long-running processes survive an app restart
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => updateSettings({ terminalTmux: !settings.terminalTmux })}
+          className="flex-shrink-0 w-10 h-5 cursor-pointer rounded-full p-0.5"
+          role="switch"
+          aria-checked={settings.terminalTmux}
+          style={{
+            backgroundColor: settings.terminalTmux ? 'var(--st-accent)' : 'var(--st-border)',
+            transition: 'background-color 0.2s'
+          }}
+        >
+          <span
+            className="block h-4 w-4 bg-white rounded-full transition-transform"
+            style={{ transform: settings.terminalTmux ? 'translateX(1.25rem)' : 'translateX(0)' }}
+          />
+        </button>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,189 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { API } from '../../utils/api';
+import { useSessionStore } from '../../stores/sessionStore';
+import type { ProjectDTO, VerifySettingsDTO } from '../../types/electron';
+
+const MAX_ITERATIONS = 10;
+
+const EMPTY_SETTINGS: VerifySettingsDTO = {
+  command: null,
+  autoFix: false,
+  maxIterations: 3,
+};
+
+const inputStyle = {
+  backgroundColor: 'var(--st-editor)',
+  borderColor: 'var(--st-border)',
+  color: 'var(--st-text)',
+};
+
+export function VerifyTab() {
+  const sessions = useSessionStore((state) => state.sessions);
+  const activeSessionId = useSessionStore((state) => state.activeSessionId);
+  const activeProjectId = useMemo(
+    () => sessions.find((s) => s.id === activeSessionId)?.projectId ?? null,
+    [sessions, activeSessionId]
+  );
+
+  const [projects, setProjects] = useState<ProjectDTO[]>([]);
+  const [projectId, setProjectId] = useState<number | null>(null);
+  const [settings, setSettings] = useState<VerifySettingsDTO>(EMPTY_SETTINGS);
+  const [saved, setSaved] = useState<string>(JSON.stringify(EMPTY_SETTINGS));
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    API.projects.getAll()
+      .then((res) => {
+        if (cancelled || !res.success || !res.data) return;
+        setProjects(res.data);
+        const preferred = res.data.find((p) => p.id === activeProjectId)
+          || res.data.find((p) => p.active)
+          || res.data[0];
+        setProjectId((prev) => prev ?? preferred?.id ?? null);
+      })
+      .catch(() => {
+        // ignore
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeProjectId]);
+
+  useEffect(() => {
+    if (projectId == null) return;
+    let cancelled = false;
+    setError(null);
+    API.projects.getVerifySettings(projectId)
+      .then((res) => {
+        if (cancelled) return;
+        if (!res.success || !res.data) {
+          setError(res.error || 'Failed to load verify settings');
+          return;
+        }
+        setSettings(res.data);
+        setSaved(JSON.stringify(res.data));
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load verify settings');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const save = useCallback(async () => {
+    if (projectId == null) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const next = { ...settings, command: settings.command?.trim() || null };
+      const res = await API.projects.updateVerifySettings(projectId, next);
+      if (!res.success) {
+        setError(res.error || 'Failed to save verify settings');
+        return;
+      }
+      setSettings(next);
+      setSaved(JSON.stringify(next));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save verify settings');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [projectId, settings]);
+
+  const isDirty = JSON.stringify(settings) !== saved;
+  const hasCommand = Boolean(settings.command?.trim());
+
+  if (projects.length === 0) {
+    return (
+      <div className="text-sm" style={{ color: 'var(--st-text-faint)' }}>
+        Add a repository to configure verification.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm" style={{ color: 'var(--st-text-muted)' }}>
+          Repository
+        </label>
+        <select
+          value={projectId ?? ''}
+          onChange={(e) => setProjectId(Number(e.target.value))}
+          className="px-3 py-1.5 rounded border text-sm w-64 st-focus-ring"
+          style={inputStyle}
+        >
+          {projects.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="text-xs" style={{ color: 'var(--st-text-faint)' }}>
+        Runs in the workspace every time the agent finishes a round. The result shows in the timeline; leave the
+        command empty to turn verification off.
+      </div>
+
+      <input
+        aria-label="Verify command"
+        value={settings.command ?? ''}
+        onChange={(e) => setSettings((prev) => ({ ...prev, command: e.target.value }))}
+        placeholder="pnpm typecheck && pnpm test"
+        spellCheck={false}
+        className="w-full px-3 py-1.5 rounded border text-sm font-mono st-focus-ring"
+        style={inputStyle}
+      />
+
+      <label className="flex items-center gap-2 text-sm" style={{ color: 'var(--st-text)', opacity: hasCommand ? 1 : 0.6 }}>
+        <input
+          type="checkbox"
+          checked={settings.autoFix}
+          disabled={!hasCommand}
+          onChange={(e) => setSettings((prev) => ({ ...prev, autoFix: e.target.checked }))}
+        />
+        Send failures back to the agent
+      </label>
+
+      <div className="flex items-center justify-between" style={{ opacity: hasCommand && settings.autoFix ? 1 : 0.6 }}>
+        <label htmlFor="verify-max-iterations" className="text-sm" style={{ color: 'var(--st-text-muted)' }}>
+          Max automatic follow-ups in a row
+        </label>
+        <input
+          id="verify-max-iterations"
+          type="number"
+          min={0}
+          max={MAX_ITERATIONS}
+          value={settings.maxIterations}
+          disabled={!hasCommand || !settings.autoFix}
+          onChange={(e) => {
+            const value = Math.round(Number(e.target.value));
+            setSettings((prev) => ({ ...prev, maxIterations: Number.isFinite(value) ? Math.min(Math.max(value, 0), MAX_ITERATIONS) : prev.maxIterations }));
+          }}
+          className="px-3 py-1.5 rounded border text-sm w-24 st-focus-ring"
+          style={inputStyle}
+        />
+      </div>
+
+      {error && (
+        <div className="text-xs p-2 rounded" style={{ backgroundColor: 'var(--st-error-bg)', color: 'var(--st-error)' }}>
+          {error}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end">
+        <button
+          type="button"
+          onClick={() => void save()}
+          disabled={!isDirty || isSaving}
+          className="px-3 py-1.5 rounded text-sm font-medium st-focus-ring disabled:opacity-50"
+          style={{ backgroundColor: 'var(--st-accent)', color: 'white' }}
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { API } from '../../utils/api';
+import { useSessionStore } from '../../stores/sessionStore';
+import type { ProjectDTO } from '../../types/electron';
+import {
+  DEFAULT_WORKFLOW_PROMPTS,
+  WORKFLOW_PROMPT_KINDS,
+  WORKFLOW_PROMPT_LABELS,
+  WORKFLOW_PROMPT_VARIABLES,
+  getWorkflowPromptTemplates,
+  getWorkflowPromptVariables,
+  renderWorkflowPrompt,
+  type WorkflowPromptKind,
+  type WorkflowPromptVariables,
+} from '../../features/workflow-prompts';
+
+// Used for preview when no session of the selected project is active.
+const SAMPLE_VARIABLES: WorkflowPromptVariables = {
+  baseBranch: 'main',
+  headBranch: 'feature/example',
+  ownerRepo: 'owner/repo',
+  isFork: 'no',
+  originOwnerRepo: '',
+  remoteName: 'origin',
+  prRef: 'feature/example',
+  prHead: 'feature/example',
+  stagedStat: ' src/index.ts | 4 ++--\n 1 file changed, 2 insertions(+), 2 deletions(-)',
+  gitStatus: 'M  src/index.ts',
+  recentLog: 'abc1234 Add example feature',
+  prNumber: '',
+  prUrl: '',
+  prTemplate: '## Summary\n\n## Testing',
+  prTemplatePath: '.github/PULL_REQUEST_TEMPLATE.md',
+};
+
+type Drafts = Record<WorkflowPromptKind, string>;
+
+export function WorkflowPromptsTab() {
+  const sessions = useSessionStore((state) => state.sessions);
+  const activeSessionId = useSessionStore((state) => state.activeSessionId);
+  const activeSession = useMemo(
+    () => sessions.find((s) => s.id === activeSessionId) || null,
+    [sessions, activeSessionId]
+  );
+
+  const [projects, setProjects] = useState<ProjectDTO[]>([]);
+  const [projectId, setProjectId] = useState<number | null>(null);
+  const [kind, setKind] = useState<WorkflowPromptKind>('commit');
+  const [drafts, setDrafts] = useState<Drafts>({ ...DEFAULT_WORKFLOW_PROMPTS });
+  const [saved, setSaved] = useState<Drafts>({ ...DEFAULT_WORKFLOW_PROMPTS });
+  const [showPreview, setShowPreview] = useState(false);
+  const [preview, setPreview] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    API.projects.getAll()
+      .then((res) => {
+        if (cancelled || !res.success || !res.data) return;
+        setProjects(res.data);
+        const preferred = res.data.find((p) => p.id === activeSession?.projectId)
+          || res.data.find((p) => p.active)
+          || res.data[0];
+        setProjectId((prev) => prev ?? preferred?.id ?? null);
+      })
+      .catch(() => {
+        // ignore
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeSession?.projectId]);
+
+  useEffect(() => {
+    if (projectId == null) return;
+    let cancelled = false;
+    setError(null);
+    getWorkflowPromptTemplates(projectId)
+      .then((templates) => {
+        if (cancelled) return;
+        const resolved = WORKFLOW_PROMPT_KINDS.reduce((acc, k) => {
+          acc[k] = templates[k] ?? DEFAULT_WORKFLOW_PROMPTS[k];
+          return acc;
+        }, {} as Drafts);
+        setDrafts(resolved);
+        setSaved(resolved);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load workflow prompts');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId]);
+
+  const draft = drafts[kind];
+
+  useEffect(() => {
+    if (!showPreview) return;
+    let cancelled = false;
+    const useSession = activeSession && activeSession.projectId === projectId;
+    const variablesPromise = useSession
+      ? getWorkflowPromptVariables(activeSession, activeSession.currentBranch, draft).catch(() => SAMPLE_VARIABLES)
+      : Promise.resolve(SAMPLE_VARIABLES);
+    variablesPromise.then((variables) => {
+      if (!cancelled) setPreview(renderWorkflowPrompt(draft, variables));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [showPreview, draft, activeSession, projectId]);
+
+  const save = useCallback(async (next: Drafts) => {
+    if (projectId == null) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      // Templates equal to the built-in default are stored as null so future default updates apply.
+      const updates = WORKFLOW_PROMPT_KINDS.reduce((acc, k) => {
+        acc[k] = next[k] === DEFAULT_WORKFLOW_PROMPTS[k] ? null : next[k];
+        return acc;
+      }, {} as Record<WorkflowPromptKind, string | null>);
+      const res = await API.projects.updateWorkflowPrompts(projectId, updates);
+      if (!res.success) {
+        setError(res.error || 'Failed to save workflow prompts');
+        return;
+      }
+      setSaved(next);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save workflow prompts');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [projectId]);
+
+  const handleReset = useCallback(() => {
+    const next = { ...drafts, [kind]: DEFAULT_WORKFLOW_PROMPTS[kind] };
+    setDrafts(next);
+    void save(next);
+  }, [drafts, kind, save]);
+
+  const isDirty = drafts[kind] !== saved[kind];
+  const isDefault = drafts[kind] === DEFAULT_WORKFLOW_PROMPTS[kind];
+
+  if (projects.length === 0) {
+    return (
+      <div className="text-sm" style={{ color: 'var(--st-text-faint)' }}>
+        Add a repository to customize its workflow prompts.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-sm" style={{ color: 'var(--st-text-muted)' }}>
+          Repository
+        </label>
+        <select
+          value={projectId ?? ''}
+          onChange={(e) => setProjectId(Number(e.target.value))}
+          className="px-3 py-1.5 rounded border text-sm w-64 st-focus-ring"
+          style={{
+            backgroundColor: 'var(--st-editor)',
+            borderColor: 'var(--st-border)',
+            color: 'var(--st-text)',
+          }}
+        >
+          {projects.map((p) => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-1">
+        {WORKFLOW_PROMPT_KINDS.map((k) => (
+          <button
+            key={k}
+            type="button"
+            onClick={() => setKind(k)}
+            className="px-2.5 py-1 rounded text-xs st-hoverable st-focus-ring"
+            aria-pressed={kind === k}
+            style={{
+              color: kind === k ? 'var(--st-accent)' : 'var(--st-text-muted)',
+              backgroundColor: kind === k ? 'color-mix(in srgb, var(--st-accent) 12%, transparent)' : undefined,
+            }}
+          >
+            {WORKFLOW_PROMPT_LABELS[k]}
+            {drafts[k] !== DEFAULT_WORKFLOW_PROMPTS[k] && ' •'}
+          </button>
+        ))}
+      </div>
+
+      {showPreview ? (
+        <pre
+          data-testid="workflow-prompt-preview"
+          className="px-3 py-2 rounded border text-xs font-mono whitespace-pre-wrap h-72 overflow-y-auto"
+          style={{
+            backgroundColor: 'var(--st-editor)',
+            borderColor: 'var(--st-border)',
+            color: 'var(--st-text)',
+          }}
+        >
+          {preview}
+        </pre>
+      ) : (
+        <textarea
+          aria-label={`${WORKFLOW_PROMPT_LABELS[kind]} prompt template`}
+          value={draft}
+          onChange={(e) => setDrafts((prev) => ({ ...prev, [kind]: e.target.value }))}
+          spellCheck={false}
+          className="w-full px-3 py-2 rounded border text-xs font-mono h-72 resize-none st-focus-ring"
+          style={{
+            backgroundColor: 'var(--st-editor)',
+            borderColor: 'var(--st-border)',
+            color: 'var(--st-text)',
+          }}
+        />
+      )}
+
+      {error && (
+        <div className="text-xs p-2 rounded" style={{ backgroundColor: 'var(--st-error-bg)', color: 'var(--st-error)' }}>
+          {error}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={handleReset}
+          disabled={isDefault || isSaving}
+          className="px-3 py-1.5 rounded text-sm st-hoverable st-focus-ring disabled:opacity-50"
+          style={{ color: 'var(--st-text-muted)' }}
+        >
+          Reset to Default
+        </button>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setShowPreview((prev) => !prev)}
+            className="px-3 py-1.5 rounded text-sm st-hoverable st-focus-ring"
+            style={{ color: 'var(--st-text-muted)' }}
+          >
+            {showPreview ? 'Edit' : 'Preview'}
+          </button>
+          <button
+            type="button"
+            onClick={() => void save(drafts)}
+            disabled={!isDirty || isSaving}
+            className="px-3 py-1.5 rounded text-sm font-medium st-focus-ring disabled:opacity-50"
+            style={{ backgroundColor: 'var(--st-accent)', color: 'white' }}
+          >
+            Save
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-xs" style={{ color: 'var(--st-text-muted)' }}>
+          Variables (use <code>{'{{name}}'}</code>, or <code>{'{{#if name}}…{{/if}}'}</code> for optional sections)
+        </div>
+        <div className="grid grid-cols-2 gap-x-4 gap-y-0.5">
+          {WORKFLOW_PROMPT_VARIABLES.map((v) => (
+            <div key={v.name} className="text-xs truncate" title={v.description} style={{ color: 'var(--st-text-faint)' }}>
+              <code style={{ color: 'var(--st-text)' }}>{`{{${v.name}}}`}</code> {v.description}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
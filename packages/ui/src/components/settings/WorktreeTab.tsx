@@ -1,7 +1,21 @@
-import { useSettingsStore } from '../../stores/settingsStore';
+import { Plus, Trash2 } from 'lucide-react';
+import { useSettingsStore, type ForgeHostSettings } from '../../stores/settingsStore';
+
+const inputStyle = {
+  backgroundColor: 'var(--st-editor)',
+  borderColor: 'var(--st-border)',
+  color: 'var(--st-text)',
+};
 
 export function WorktreeTab() {
   const { settings, updateSettings } = useSettingsStore();
+  const workspaceActions = settings.workspaceActions;
+  const isDirect = workspaceActions.mode === 'direct';
+  const forgeHosts = settings.forgeHosts;
+
+  const updateForgeHost = (index: number, updates: Partial<ForgeHostSettings>) => {
+    updateSettings({ forgeHosts: forgeHosts.map((h, i) => (i === index ? { ...h, ...updates } : h)) });
+  };
 
   return (
     <div className="space-y-3">
@@ -28,6 +42,217 @@ export function WorktreeTab() {
           />
         </button>
       </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <label className="text-sm" style={{ color: 'var(--st-text-muted)' }}>
+            Archive instead of delete
+          </label>
+          <p className="text-xs mt-0.5" style={{ color: 'var(--st-text-faint)' }}>
+            Removes the worktree but keeps the branch and timeline; restore from Archived
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => updateSettings({ archiveOnDelete: !settings.archiveOnDelete })}
+          className="flex-shrink-0 w-10 h-5 cursor-pointer rounded-full p-0.5"
+          role="switch"
+          aria-checked={settings.archiveOnDelete}
+          aria-label="Archive instead of delete"
+          style={{
+            backgroundColor: settings.archiveOnDelete ? 'var(--st-accent)' : 'var(--st-border)',
+            transition: 'background-color 0.2s'
+          }}
+        >
+          <span
+            className="block h-4 w-4 bg-white rounded-full transition-transform"
+            style={{ transform: settings.archiveOnDelete ? 'translateX(1.25rem)' : 'translateX(0)' }}
+          />
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <label className="text-sm" style={{ color: 'var(--st-text-muted)' }}>
+            Check base branch for new commits every
+          </label>
+          <p className="text-xs mt-0.5" style={{ color: 'var(--st-text-faint)' }}>
+            Minutes between background fetches; 0 turns them off
+          </p>
+        </div>
+        <input
+          type="number"
+          value={settings.upstreamFetchIntervalMinutes}
+          onChange={(e) => updateSettings({ upstreamFetchIntervalMinutes: Math.max(0, parseInt(e.target.value) || 0) })}
+          min="0"
+          max="1440"
+          step="5"
+          aria-label="Upstream fetch interval in minutes"
+          className="px-3 py-1.5 rounded border text-sm w-24 st-focus-ring"
+          style={{
+            backgroundColor: 'var(--st-editor)',
+            borderColor: 'var(--st-border)',
+            color: 'var(--st-text)',
+          }}
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <label className="text-sm" style={{ color: 'var(--st-text-muted)' }}>
+            Run Commit / Push / Update directly
+          </label>
+          <p className="text-xs mt-0.5" style={{ color: 'var(--st-text-faint)' }}>
+            Uses git without an agent; the agent is only asked to resolve conflicts
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => updateSettings({
+            workspaceActions: {
+              ...workspaceActions,
+              mode: isDirect ? 'agent' : 'direct',
+            }
+          })}
+          className="flex-shrink-0 w-10 h-5 cursor-pointer rounded-full p-0.5"
+          role="switch"
+          aria-checked={isDirect}
+          aria-label="Run workspace actions directly"
+          style={{
+            backgroundColor: isDirect ? 'var(--st-accent)' : 'var(--st-border)',
+            transition: 'background-color 0.2s'
+          }}
+        >
+          <span
+            className="block h-4 w-4 bg-white rounded-full transition-transform"
+            style={{ transform: isDirect ? 'translateX(1.25rem)' : 'translateX(0)' }}
+          />
+        </button>
+      </div>
+
+      {isDirect && (
+        <>
+          <div className="flex items-center justify-between">
+            <div>
+              <label className="text-sm" style={{ color: 'var(--st-text-muted)' }}>
+                Commit message template
+              </label>
+              <p className="text-xs mt-0.5" style={{ color: 'var(--st-text-faint)' }}>
+                {'{{files}}, {{fileCount}}, {{branch}}'}
+              </p>
+            </div>
+            <input
+              type="text"
+              value={workspaceActions.commitMessageTemplate}
+              onChange={(e) => updateSettings({
+                workspaceActions: { ...workspaceActions, commitMessageTemplate: e.target.value }
+              })}
+              placeholder="Update {{files}}"
+              className="px-3 py-1.5 rounded border text-sm w-64 st-focus-ring"
+              style={{
+                backgroundColor: 'var(--st-editor)',
+                borderColor: 'var(--st-border)',
+                color: 'var(--st-text)',
+              }}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="text-sm" style={{ color: 'var(--st-text-muted)' }}>
+              Update from base branch using
+            </label>
+            <select
+              value={workspaceActions.updateStrategy}
+              onChange={(e) => updateSettings({
+                workspaceActions: { ...workspaceActions, updateStrategy: e.target.value === 'merge' ? 'merge' : 'rebase' }
+              })}
+              className="px-3 py-1.5 rounded border text-sm w-40 st-focus-ring"
+              style={{
+                backgroundColor: 'var(--st-editor)',
+                borderColor: 'var(--st-border)',
+                color: 'var(--st-text)',
+              }}
+            >
+              <option value="rebase">Rebase</option>
+              <option value="merge">Merge</option>
+            </select>
+          </div>
+        </>
+      )}
+
+      <div className="space-y-2">
+        <div>
+          <label className="text-sm" style={{ color: 'var(--st-text-muted)' }}>
+            Self-hosted forges
+          </label>
+          <p className="text-xs mt-0.5" style={{ color: 'var(--st-text-faint)' }}>
+            Hosts not recognized from the remote URL; GitLab uses glab, Gitea the REST API
+          </p>
+        </div>
+        {forgeHosts.map((forgeHost, index) => (
+          <div key={index} className="flex items-center gap-1">
+            <input
+              type="text"
+              value={forgeHost.host}
+              onChange={(e) => updateForgeHost(index, { host: e.target.value.trim() })}
+              placeholder="git.example.com"
+              aria-label="Forge host"
+              className="flex-1 px-2 py-1 rounded border text-xs st-focus-ring"
+              style={inputStyle}
+            />
+            <select
+              value={forgeHost.kind}
+              onChange={(e) => updateForgeHost(index, { kind: e.target.value as ForgeHostSettings['kind'] })}
+              aria-label="Forge type"
+              className="px-2 py-1 rounded border text-xs st-focus-ring"
+              style={inputStyle}
+            >
+              <option value="github">GitHub</option>
+              <option value="gitlab">GitLab</option>
+              <option value="gitea">Gitea</option>
+            </select>
+            {forgeHost.kind === 'gitea' && (
+              <>
+                <input
+                  type="text"
+                  value={forgeHost.apiUrl || ''}
+                  onChange={(e) => updateForgeHost(index, { apiUrl: e.target.value.trim() || undefined })}
+                  placeholder="https://host/api/v1"
+                  aria-label="Gitea API URL"
+                  className="flex-1 px-2 py-1 rounded border text-xs st-focus-ring"
+                  style={inputStyle}
+                />
+                <input
+                  type="password"
+                  value={forgeHost.token || ''}
+                  onChange={(e) => updateForgeHost(index, { token: e.target.value || undefined })}
+                  placeholder="Token"
+                  aria-label="Gitea token"
+                  className="w-28 px-2 py-1 rounded border text-xs st-focus-ring"
+                  style={inputStyle}
+                />
+              </>
+            )}
+            <button
+              type="button"
+              onClick={() => updateSettings({ forgeHosts: forgeHosts.filter((_, i) => i !== index) })}
+              className="p-1 rounded st-hoverable st-focus-ring"
+              title="Remove forge"
+            >
+              <Trash2 className="w-3 h-3" style={{ color: 'var(--st-text-muted)' }} />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => updateSettings({ forgeHosts: [...forgeHosts, { host: '', kind: 'gitlab' }] })}
+          className="flex items-center gap-1 px-3 py-1.5 rounded text-sm st-hoverable st-focus-ring"
+          style={{ color: 'var(--st-text-muted)' }}
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add Forge
+        </button>
+      </div>
     </div>
   );
 }
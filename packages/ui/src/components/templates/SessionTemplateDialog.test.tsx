@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { SessionTemplateDialog, getTemplatePlaceholders } from './SessionTemplateDialog';
+import { API } from '../../utils/api';
+
+vi.mock('../../utils/api', () => ({
+  API: {
+    projects: {
+      getSessionTemplates: vi.fn(),
+    },
+    sessions: {
+      create: vi.fn(),
+    },
+  },
+}));
+
+const template = (id: number, name: string, prompt: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  project_id: 7,
+  name,
+  prompt,
+  tool_type: 'codex',
+  model: 'gpt-5',
+  approval_mode: null,
+  thinking_level: 'high' as const,
+  plan_mode: true,
+  commit_mode: null,
+  base_branch: null,
+  order_index: 0,
+  created_at: 'now',
+  ...overrides,
+});
+
+describe('SessionTemplateDialog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(API.projects.getSessionTemplates).mockResolvedValue({
+      success: true,
+      data: [
+        template(1, 'Bugfix', 'Fix {{issue}} in {{project}}.\n\n{{input}}'),
+        template(2, 'Docs update', 'Update the docs for {{date}}', { tool_type: 'gemini', model: null, thinking_level: null, plan_mode: false }),
+      ],
+    });
+  });
+
+  it('asks for the placeholders and creates the workspace from the template', async () => {
+    vi.mocked(API.sessions.create).mockResolvedValue({ success: true, data: { id: 'session-1' } });
+    const onCreated = vi.fn();
+    render(<SessionTemplateDialog isOpen projectId={7} projectName="shop" onClose={vi.fn()} onCreated={onCreated} />);
+
+    await waitFor(() => expect(screen.getAllByTestId('session-template')).toHaveLength(2));
+    expect(screen.getAllByTestId('session-template')[0].textContent).toContain('Codex · gpt-5 · high reasoning · plan first');
+    expect(screen.getByText('Create')).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('issue'), { target: { value: '#42' } });
+    fireEvent.change(screen.getByLabelText('input'), { target: { value: 'Checkout crashes' } });
+    fireEvent.click(screen.getByText('Create'));
+
+    await waitFor(() => expect(onCreated).toHaveBeenCalledWith('session-1'));
+    expect(API.sessions.create).toHaveBeenCalledWith({
+      projectId: 7,
+      prompt: '',
+      toolType: 'codex',
+      templateId: 1,
+      variables: { issue: '#42', input: 'Checkout crashes' },
+    });
+  });
+
+  it('creates right away when the template has nothing to fill in', async () => {
+    vi.mocked(API.sessions.create).mockResolvedValue({ success: false, error: 'Session template not found' });
+    render(<SessionTemplateDialog isOpen projectId={7} projectName="shop" onClose={vi.fn()} onCreated={vi.fn()} />);
+
+    await waitFor(() => expect(screen.getAllByTestId('session-template')).toHaveLength(2));
+    fireEvent.click(screen.getByText('Docs update'));
+    expect(screen.queryByLabelText('issue')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Create'));
+    expect(await screen.findByText('Session template not found')).toBeInTheDocument();
+  });
+
+  it('points to the settings when the project has no templates', async () => {
+    vi.mocked(API.projects.getSessionTemplates).mockResolvedValue({ success: true, data: [] });
+    render(<SessionTemplateDialog isOpen projectId={7} projectName="shop" onClose={vi.fn()} onCreated={vi.fn()} />);
+
+    expect(await screen.findByText(/Add them in Settings → Templates/)).toBeInTheDocument();
+    expect(screen.getByText('Create')).toBeDisabled();
+  });
+
+  it('lists placeholders once, without the built-ins', () => {
+    expect(getTemplatePlaceholders('{{ issue }} {{project}} {{date}} {{input}} {{issue}}')).toEqual(['issue', 'input']);
+  });
+});
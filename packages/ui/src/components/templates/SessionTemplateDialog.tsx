@@ -0,0 +1,213 @@
+import { useEffect, useMemo, useState } from 'react';
+import { LayoutTemplate, X } from 'lucide-react';
+import { API } from '../../utils/api';
+import { getExecutorDisplayName, useExecutors } from '../../features/executors';
+import type { SessionTemplateDTO } from '../../types/electron';
+
+// Mirrors the desktop template renderer; {{project}} and {{date}} are filled in by the main process
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const BUILTIN_VARIABLES = ['project', 'date'];
+
+export function getTemplatePlaceholders(prompt: string): string[] {
+  const names: string[] = [];
+  for (const match of prompt.matchAll(PLACEHOLDER_PATTERN)) {
+    const name = match[1];
+    if (!names.includes(name) && !BUILTIN_VARIABLES.includes(name)) names.push(name);
+  }
+  return names;
+}
+
+const inputStyle = {
+  backgroundColor: 'var(--st-editor)',
+  borderColor: 'var(--st-border)',
+  color: 'var(--st-text)',
+};
+
+interface SessionTemplateDialogProps {
+  isOpen: boolean;
+  projectId: number;
+  projectName: string;
+  onClose: () => void;
+  onCreated: (sessionId: string) => void;
+}
+
+export function SessionTemplateDialog({ isOpen, projectId, projectName, onClose, onCreated }: SessionTemplateDialogProps) {
+  const executors = useExecutors();
+  const [templates, setTemplates] = useState<SessionTemplateDTO[] | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setTemplates(null);
+    setValues({});
+    setError(null);
+    API.projects.getSessionTemplates(projectId)
+      .then((res) => {
+        if (cancelled) return;
+        if (!res.success) {
+          setError(res.error || 'Failed to load templates');
+          setTemplates([]);
+          return;
+        }
+        const loaded = res.data ?? [];
+        setTemplates(loaded);
+        setSelectedId(loaded[0]?.id ?? null);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load templates');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, projectId]);
+
+  const selected = templates?.find((t) => t.id === selectedId) ?? null;
+  const placeholders = useMemo(() => (selected ? getTemplatePlaceholders(selected.prompt) : []), [selected]);
+
+  if (!isOpen) return null;
+
+  const summarize = (template: SessionTemplateDTO) =>
+    [
+      getExecutorDisplayName(executors, template.tool_type),
+      template.model,
+      template.thinking_level && `${template.thinking_level} reasoning`,
+      template.plan_mode && 'plan first',
+    ].filter(Boolean).join(' · ');
+
+  const canCreate = Boolean(selected) && placeholders.every((name) => values[name]?.trim()) && !isCreating;
+
+  const handleCreate = async () => {
+    if (!selected || !canCreate) return;
+    setIsCreating(true);
+    setError(null);
+    try {
+      const variables = Object.fromEntries(placeholders.map((name) => [name, values[name] ?? '']));
+      const res = await API.sessions.create({
+        projectId,
+        prompt: '',
+        toolType: selected.tool_type,
+        templateId: selected.id,
+        variables,
+      });
+      if (!res.success || !res.data?.id) {
+        setError(res.error || 'Failed to create workspace');
+        return;
+      }
+      onCreated(res.data.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create workspace');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-6" role="dialog" aria-modal="true" aria-label="New workspace from template">
+      <div
+        className="w-full max-w-lg rounded-xl border shadow-2xl overflow-hidden"
+        style={{
+          borderColor: 'color-mix(in srgb, var(--st-border) 70%, transparent)',
+          backgroundColor: 'var(--st-surface)',
+          color: 'var(--st-text)',
+        }}
+      >
+        <div
+          className="flex items-center justify-between gap-3 px-4 py-3 border-b"
+          style={{ borderColor: 'color-mix(in srgb, var(--st-border) 70%, transparent)' }}
+        >
+          <div className="flex items-center gap-2 min-w-0">
+            <LayoutTemplate className="w-4 h-4 flex-shrink-0" style={{ color: 'var(--st-accent)' }} />
+            <div className="text-sm font-medium truncate">New from template · {projectName}</div>
+          </div>
+          <button type="button" onClick={onClose} className="p-1.5 rounded st-hoverable st-focus-ring" title="Close">
+            <X className="w-4 h-4" style={{ color: 'var(--st-text-faint)' }} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          {templates === null && !error && (
+            <div className="text-xs" style={{ color: 'var(--st-text-faint)' }}>Loading…</div>
+          )}
+
+          {templates?.length === 0 && !error && (
+            <div className="text-xs" style={{ color: 'var(--st-text-faint)' }}>
+              No templates for this repository yet. Add them in Settings → Templates.
+            </div>
+          )}
+
+          {templates && templates.length > 0 && (
+            <div className="space-y-1 max-h-48 overflow-y-auto" role="listbox" aria-label="Templates">
+              {templates.map((template) => {
+                const isSelected = template.id === selectedId;
+                return (
+                  <button
+                    key={template.id}
+                    type="button"
+                    role="option"
+                    aria-selected={isSelected}
+                    onClick={() => setSelectedId(template.id)}
+                    className="w-full text-left px-3 py-2 rounded border st-hoverable st-focus-ring"
+                    style={{
+                      borderColor: isSelected ? 'var(--st-accent)' : 'var(--st-border)',
+                    }}
+                    data-testid="session-template"
+                  >
+                    <div className="text-sm truncate">{template.name}</div>
+                    <div className="text-[11px] truncate" style={{ color: 'var(--st-text-faint)' }}>{summarize(template)}</div>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {selected && placeholders.map((name) => (
+            <label key={name} className="block space-y-1">
+              <span className="text-xs font-mono" style={{ color: 'var(--st-text-muted)' }}>{name}</span>
+              {name === 'input' ? (
+                <textarea
+                  aria-label={name}
+                  value={values[name] ?? ''}
+                  onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                  className="w-full px-3 py-2 rounded border text-sm h-20 resize-none st-focus-ring"
+                  style={inputStyle}
+                />
+              ) : (
+                <input
+                  aria-label={name}
+                  value={values[name] ?? ''}
+                  onChange={(e) => setValues((prev) => ({ ...prev, [name]: e.target.value }))}
+                  className="w-full px-3 py-1.5 rounded border text-sm st-focus-ring"
+                  style={inputStyle}
+                />
+              )}
+            </label>
+          ))}
+
+          {error && (
+            <div className="text-xs p-2 rounded" style={{ backgroundColor: 'var(--st-error-bg)', color: 'var(--st-error)' }}>
+              {error}
+            </div>
+          )}
+
+          <div className="flex items-center justify-end">
+            <button
+              type="button"
+              onClick={() => void handleCreate()}
+              disabled={!canCreate}
+              className="px-3 py-1.5 rounded text-sm font-medium st-focus-ring disabled:opacity-50"
+              style={{ backgroundColor: 'var(--st-accent)', color: 'white' }}
+            >
+              {isCreating ? 'Creating…' : 'Create'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SessionTemplateDialog;
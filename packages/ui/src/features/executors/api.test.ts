@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { listExecutors, resetExecutorsCache } from './api';
+import { BUILTIN_EXECUTORS, getExecutorDisplayName, isAgentPanelType, isExecutorEnabled } from './defaults';
+
+const aider = {
+  id: 'aider',
+  displayName: 'Aider',
+  command: 'aider',
+  builtIn: false,
+  enabledByDefault: true,
+  settings: { fields: [{ key: 'model', label: 'Model', type: 'text' as const }] },
+};
+
+describe('listExecutors', () => {
+  const originalApi = window.electronAPI;
+
+  beforeEach(() => {
+    resetExecutorsCache();
+  });
+
+  afterEach(() => {
+    (window as any).electronAPI = originalApi;
+  });
+
+  it('falls back to the built-ins without the executors API', async () => {
+    (window as any).electronAPI = {};
+    await expect(listExecutors()).resolves.toEqual(BUILTIN_EXECUTORS);
+  });
+
+  it('returns the registered executors and caches them', async () => {
+    const list = vi.fn().mockResolvedValue({ success: true, data: [...BUILTIN_EXECUTORS, aider] });
+    (window as any).electronAPI = { executors: { list } };
+
+    const first = await listExecutors();
+    await listExecutors();
+
+    expect(first.map((e) => e.id)).toEqual(['claude', 'codex', 'gemini', 'kimi', 'aider']);
+    expect(list).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to the built-ins when the call fails', async () => {
+    (window as any).electronAPI = { executors: { list: vi.fn().mockRejectedValue(new Error('boom')) } };
+    await expect(listExecutors()).resolves.toEqual(BUILTIN_EXECUTORS);
+  });
+});
+
+describe('executor helpers', () => {
+  it('resolves display names, falling back to the id', () => {
+    expect(getExecutorDisplayName([aider], 'aider')).toBe('Aider');
+    expect(getExecutorDisplayName([], 'codex')).toBe('Codex');
+    expect(getExecutorDisplayName([], 'opencode')).toBe('opencode');
+  });
+
+  it('uses the executor default for providers never toggled', () => {
+    const custom = { ...aider, id: 'custom', enabledByDefault: false };
+    expect(isExecutorEnabled([aider, custom], {}, 'aider')).toBe(true);
+    expect(isExecutorEnabled([aider, custom], {}, 'custom')).toBe(false);
+    expect(isExecutorEnabled([aider, custom], { custom: true }, 'custom')).toBe(true);
+    expect(isExecutorEnabled([], { claude: false }, 'claude')).toBe(false);
+  });
+
+  it('treats every non-utility panel as an agent panel', () => {
+    expect(isAgentPanelType('claude')).toBe(true);
+    expect(isAgentPanelType('aider')).toBe(true);
+    expect(isAgentPanelType('terminal')).toBe(false);
+    expect(isAgentPanelType('diff')).toBe(false);
+  });
+});
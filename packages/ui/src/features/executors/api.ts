@@ -0,0 +1,35 @@
+import { BUILTIN_EXECUTORS } from './defaults';
+import type { ExecutorInfo } from './types';
+
+let cached: Promise<ExecutorInfo[]> | null = null;
+
+/**
+ * Load the registered executors from the main process.
+ * Falls back to the built-ins when the call is unavailable or fails, so the
+ * provider lists never come up empty.
+ */
+export function listExecutors(): Promise<ExecutorInfo[]> {
+  if (cached) return cached;
+
+  cached = (async () => {
+    const api = window.electronAPI?.executors;
+    if (!api?.list) return BUILTIN_EXECUTORS;
+
+    try {
+      const result = await api.list();
+      if (!result.success || !Array.isArray(result.data) || result.data.length === 0) {
+        return BUILTIN_EXECUTORS;
+      }
+      return result.data;
+    } catch {
+      return BUILTIN_EXECUTORS;
+    }
+  })();
+
+  return cached;
+}
+
+/** Drop the cached list (tests). */
+export function resetExecutorsCache(): void {
+  cached = null;
+}
@@ -0,0 +1,75 @@
+import type { ExecutorInfo } from './types';
+
+export const BUILTIN_EXECUTOR_IDS = ['claude', 'codex', 'gemini', 'kimi'] as const;
+
+/**
+ * Built-in agents, used until the main process answers (and in tests/browser previews).
+ * Mirrors the built-in descriptors registered in the desktop executor registry.
+ */
+export const BUILTIN_EXECUTORS: ExecutorInfo[] = [
+  {
+    id: 'claude',
+    displayName: 'Claude',
+    command: 'claude',
+    builtIn: true,
+    enabledByDefault: true,
+    settings: { extraArgsPlaceholder: 'e.g. --settings ~/.claude/settings.json --model sonnet' },
+  },
+  {
+    id: 'codex',
+    displayName: 'Codex',
+    command: 'codex',
+    builtIn: true,
+    enabledByDefault: true,
+    settings: { extraArgsPlaceholder: 'e.g. -c model="o3" -p my-profile' },
+  },
+  {
+    id: 'gemini',
+    displayName: 'Gemini',
+    command: 'gemini',
+    builtIn: true,
+    enabledByDefault: true,
+    settings: { extraArgsPlaceholder: 'e.g. --model gemini-2.5-pro --sandbox' },
+  },
+  {
+    id: 'kimi',
+    displayName: 'Kimi',
+    command: 'kimi',
+    builtIn: true,
+    enabledByDefault: true,
+    settings: { extraArgsPlaceholder: 'e.g. --config-file ~/.kimi/custom.toml --model k2' },
+  },
+];
+
+export function isBuiltinExecutorId(id: string): id is (typeof BUILTIN_EXECUTOR_IDS)[number] {
+  return (BUILTIN_EXECUTOR_IDS as readonly string[]).includes(id);
+}
+
+/** Display name for an executor id, falling back to the id itself */
+export function getExecutorDisplayName(executors: ExecutorInfo[], id: string): string {
+  return executors.find((executor) => executor.id === id)?.displayName
+    ?? BUILTIN_EXECUTORS.find((executor) => executor.id === id)?.displayName
+    ?? id;
+}
+
+/** Provider toggle state, falling back to the executor's default for unset plugins */
+export function isExecutorEnabled(
+  executors: ExecutorInfo[],
+  enabledProviders: Record<string, boolean>,
+  id: string
+): boolean {
+  return enabledProviders[id] ?? executors.find((executor) => executor.id === id)?.enabledByDefault ?? true;
+}
+
+// Panel types that are never agent panels (mirrors ToolPanelType in core)
+const NON_AGENT_PANEL_TYPES = new Set(['terminal', 'diff', 'editor', 'logs', 'dashboard', 'setup-tasks']);
+
+/** True for panels driven by an executor (built-in or plugin) */
+export function isAgentPanelType(type: string): boolean {
+  return !NON_AGENT_PANEL_TYPES.has(type);
+}
+
+/** True when a session runs an agent at all (built-in or plugin) */
+export function isAgentToolType(toolType: string | undefined): boolean {
+  return Boolean(toolType) && toolType !== 'none';
+}
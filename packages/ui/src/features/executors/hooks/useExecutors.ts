@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { listExecutors } from '../api';
+import { BUILTIN_EXECUTORS } from '../defaults';
+import type { ExecutorInfo } from '../types';
+
+/**
+ * Registered executors, starting with the built-ins until the main process answers.
+ */
+export function useExecutors(): ExecutorInfo[] {
+  const [executors, setExecutors] = useState<ExecutorInfo[]>(BUILTIN_EXECUTORS);
+
+  useEffect(() => {
+    let mounted = true;
+    void listExecutors().then((list) => {
+      if (mounted) setExecutors(list);
+    });
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  return executors;
+}
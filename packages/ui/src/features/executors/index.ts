@@ -0,0 +1,19 @@
+// Types
+export type { ExecutorInfo, ExecutorSettingField } from './types';
+
+// Defaults
+export {
+  BUILTIN_EXECUTOR_IDS,
+  BUILTIN_EXECUTORS,
+  getExecutorDisplayName,
+  isAgentPanelType,
+  isAgentToolType,
+  isBuiltinExecutorId,
+  isExecutorEnabled,
+} from './defaults';
+
+// API
+export { listExecutors, resetExecutorsCache } from './api';
+
+// Hooks
+export { useExecutors } from './hooks/useExecutors';
@@ -0,0 +1,7 @@
+import type { ExecutorInfoDTO, ExecutorSettingFieldDTO } from '../../types/electron';
+
+/** A CLI agent the main process can run (built-in or plugin) */
+export type ExecutorInfo = ExecutorInfoDTO;
+
+/** A plugin-specific setting rendered in Settings → Providers */
+export type ExecutorSettingField = ExecutorSettingFieldDTO;
@@ -0,0 +1,92 @@
+import { API } from '../../utils/api';
+import type { Session } from '../../types/session';
+import { DEFAULT_WORKFLOW_PROMPTS, EMPTY_WORKFLOW_PROMPT_TEMPLATES } from './defaults';
+import { getTemplateVariableNames, renderWorkflowPrompt } from './render';
+import type { WorkflowPromptKind, WorkflowPromptTemplates, WorkflowPromptVariables } from './types';
+
+const SYNC_CONTEXT_VARIABLES = ['stagedStat', 'gitStatus', 'recentLog', 'prNumber', 'prUrl'];
+const PR_TEMPLATE_VARIABLES = ['prTemplate', 'prTemplatePath'];
+
+/**
+ * Load the per-project template overrides.
+ * Falls back to "all defaults" when the project is unknown or the call fails.
+ */
+export async function getWorkflowPromptTemplates(projectId: number | null | undefined): Promise<WorkflowPromptTemplates> {
+  if (projectId == null || !window.electronAPI?.projects?.getWorkflowPrompts) {
+    return { ...EMPTY_WORKFLOW_PROMPT_TEMPLATES };
+  }
+
+  const result = await window.electronAPI.projects.getWorkflowPrompts(projectId);
+  if (!result.success || !result.data) {
+    return { ...EMPTY_WORKFLOW_PROMPT_TEMPLATES };
+  }
+
+  return { ...EMPTY_WORKFLOW_PROMPT_TEMPLATES, ...result.data };
+}
+
+/** Variables derivable from the session record alone (no IPC). */
+export function getSessionWorkflowPromptVariables(
+  session: Pick<Session, 'baseBranch' | 'ownerRepo' | 'isFork' | 'originOwnerRepo'>,
+  branchName: string | null | undefined
+): WorkflowPromptVariables {
+  const headBranch = branchName || 'HEAD';
+  const isFork = session.isFork || false;
+  const originOwnerRepo = isFork ? session.originOwnerRepo || '' : '';
+  const originOwner = originOwnerRepo ? originOwnerRepo.split('/')[0] : null;
+
+  // For forks, gh needs the "<owner>:<branch>" form to find the PR head.
+  const prRef = isFork && originOwner ? `${originOwner}:${headBranch}` : headBranch;
+
+  return {
+    baseBranch: session.baseBranch || 'main',
+    headBranch,
+    ownerRepo: session.ownerRepo || 'UNKNOWN',
+    isFork: isFork ? 'yes' : 'no',
+    originOwnerRepo,
+    remoteName: isFork ? 'upstream' : 'origin',
+    prRef,
+    prHead: prRef,
+  };
+}
+
+/**
+ * Collect variables for a template. Git/PR context is only fetched when the
+ * template actually references it, so the defaults stay free of extra IPC.
+ */
+export async function getWorkflowPromptVariables(
+  session: Session,
+  branchName: string | null | undefined,
+  template: string
+): Promise<WorkflowPromptVariables> {
+  const variables = getSessionWorkflowPromptVariables(session, branchName);
+  const used = getTemplateVariableNames(template);
+
+  if (SYNC_CONTEXT_VARIABLES.some((name) => used.has(name))) {
+    const context = await API.sessions.getSyncContext(session.id).catch(() => null);
+    variables.stagedStat = context?.diffStat?.trim() ?? '';
+    variables.gitStatus = context?.status?.trim() ?? '';
+    variables.recentLog = context?.log?.trim() ?? '';
+    variables.prNumber = context?.prInfo ? String(context.prInfo.number) : '';
+    variables.prUrl = context?.prInfo?.url ?? '';
+  }
+
+  if (PR_TEMPLATE_VARIABLES.some((name) => used.has(name))) {
+    const prTemplate = await API.sessions.getPrTemplate(session.id).catch(() => null);
+    variables.prTemplate = prTemplate?.template?.trim() ?? '';
+    variables.prTemplatePath = prTemplate?.path ?? '';
+  }
+
+  return variables;
+}
+
+/** Resolve the project's template for an action and render it for the session. */
+export async function buildWorkflowPrompt(
+  kind: WorkflowPromptKind,
+  session: Session,
+  branchName: string | null | undefined
+): Promise<string> {
+  const templates = await getWorkflowPromptTemplates(session.projectId).catch(() => EMPTY_WORKFLOW_PROMPT_TEMPLATES);
+  const template = templates[kind] ?? DEFAULT_WORKFLOW_PROMPTS[kind];
+  const variables = await getWorkflowPromptVariables(session, branchName, template);
+  return renderWorkflowPrompt(template, variables);
+}
@@ -0,0 +1,167 @@
+import type { WorkflowPromptKind, WorkflowPromptTemplates, WorkflowPromptVariableInfo } from './types';
+
+export const WORKFLOW_PROMPT_KINDS: WorkflowPromptKind[] = ['commit', 'push', 'update', 'sync'];
+
+export const WORKFLOW_PROMPT_LABELS: Record<WorkflowPromptKind, string> = {
+  commit: 'Commit',
+  push: 'Push / PR',
+  update: 'Update branch',
+  sync: 'Sync PR',
+};
+
+const DEFAULT_COMMIT_PROMPT = [
+  'Create a git commit from what is currently STAGED (index) in this session.',
+  '',
+  'Do (show the exact commands you run):',
+  '- git status',
+  '- git diff --cached --stat',
+  '- git commit -m "<message>"',
+  '',
+  'Guidelines:',
+  '- Use a clear, short commit message',
+  '- Do NOT mention the CLI/AI tool or add any generated-by/co-author signatures',
+  '- Do NOT stage additional files; only commit what is already staged',
+  '- Use `git diff --cached --stat` as the authoritative check for staged content; if empty, nothing is staged',
+  '- If nothing is staged: stop and ask me to stage hunks/files first',
+  '- If a command fails: paste the exact error and ask me what to do next',
+].join('\n');
+
+const DEFAULT_PUSH_PROMPT = [
+  'Push the current branch and update/create a GitHub PR based on committed changes (using `gh`).',
+  '',
+  'Base branch: {{baseBranch}}',
+  'Current branch: {{headBranch}}',
+  'Repository: {{ownerRepo}}',
+  'Fork workflow: {{isFork}}{{#if originOwnerRepo}}',
+  'Origin repository: {{originOwnerRepo}}{{/if}}',
+  '',
+  'Do (show the exact commands you run):',
+  '1. Check status:',
+  '   - git status',
+  '   - git log -1 --oneline',
+  '',
+  '2. Check for PR template:',
+  '   - Only look for: .github/PULL_REQUEST_TEMPLATE.md',
+  '   - If found, read it with: cat .github/PULL_REQUEST_TEMPLATE.md',
+  '   - Use the template structure for PR body',
+  '',
+  '3. Push branch:',
+  '   - git push origin <branch>',
+  '   - If push fails, show the exact error and ask me what to do next',
+  '',
+  '4. Create or update PR:',
+  '   - Check existing: gh pr view --repo {{ownerRepo}} {{prRef}} --json number,url,state',
+  '   - If no PR exists: gh pr create --repo {{ownerRepo}} --draft --base {{baseBranch}} --head {{prHead}} --title "<title>" --body "<body>"',
+  '   - If PR exists: gh pr edit --repo {{ownerRepo}} {{prRef}} --title "<title>" --body "<body>" (only if needed)',
+  '',
+  'Guidelines:',
+  '- ALWAYS use --draft flag when creating new PRs',
+  '- Avoid commands that persist git config (e.g. `git push -u`, `git branch --set-upstream-to`, `git config ...`); in worktrees these may write outside the worktree directory and fail under restricted sandboxes',
+  '- If you need SSH options for a single push, use `GIT_SSH_COMMAND="ssh -p 22" git push origin <branch>` or `git -c core.sshCommand="ssh -p 22" push origin <branch>` (do not persist config)',
+  '- Do NOT mention the CLI/AI tool or add any generated-by/co-author signatures',
+  '- If there are staged/unstaged changes: stop and tell me to commit first',
+  '- If PR template exists: follow its structure exactly',
+  '- If no template: write a clear summary with: What changed, Why, Testing notes',
+  '- If a command fails: paste the exact error and ask me what to do next',
+].join('\n');
+
+const DEFAULT_UPDATE_PROMPT = [
+  'Update the current branch with the latest changes from the upstream base branch.',
+  '',
+  'Base branch: {{baseBranch}}',
+  'Remote: {{remoteName}}',
+  'Fork workflow: {{isFork}}',
+  '',
+  'Do (show the exact commands you run):',
+  '1. Check current state:',
+  '   - git status  # Ensure working tree is clean',
+  '',
+  '2. Fetch and rebase:',
+  '   - git fetch {{remoteName}} {{baseBranch}}',
+  '   - git rebase {{remoteName}}/{{baseBranch}}',
+  '',
+  '3. If conflicts occur:',
+  '   - List conflicted files: git status',
+  '   - For each conflicted file:',
+  '     a. Read the file content to see conflict markers (<<<<<<< ======= >>>>>>>)',
+  '     b. Analyze both sides (HEAD vs incoming)',
+  '     c. Resolve by keeping the best code or merging both',
+  '     d. git add <file>  # Stage the resolved file',
+  '   - git rebase --continue',
+  '   - Repeat until all conflicts are resolved',
+  '',
+  'Guidelines:',
+  '- If working tree is dirty: stop and tell me to commit/stash changes first',
+  '- If rebase succeeds: report success',
+  '- If conflicts occur: analyze and resolve them intelligently',
+  '- Preserve functionality from both sides when possible',
+  '- If a command fails: paste the exact error and ask me what to do next',
+].join('\n');
+
+const DEFAULT_SYNC_PROMPT = [
+  'Sync local branch with the latest changes from the remote PR branch (origin/{{headBranch}}).',
+  '',
+  'Current branch: {{headBranch}}',
+  '',
+  'Do (show the exact commands you run):',
+  '1. Check current state:',
+  '   - git status  # Ensure working tree is clean',
+  '',
+  '2. Fetch and check divergence:',
+  '   - git fetch origin {{headBranch}}',
+  '   - git log --oneline HEAD..origin/{{headBranch}}  # Remote commits to pull',
+  '   - git log --oneline origin/{{headBranch}}..HEAD  # Local commits not pushed',
+  '',
+  '3. Pull with rebase:',
+  '   - git pull --rebase origin {{headBranch}}',
+  '',
+  '4. If conflicts occur:',
+  '   - git status  # List conflicted files',
+  '   - For each conflicted file:',
+  '     a. Read the file content to see conflict markers (<<<<<<< ======= >>>>>>>)',
+  '     b. Analyze both sides (local vs remote)',
+  '     c. Resolve by keeping the best code or merging both',
+  '     d. git add <file>  # Stage the resolved file',
+  '   - git rebase --continue',
+  '   - Repeat until all conflicts are resolved',
+  '',
+  'Guidelines:',
+  '- If working tree is dirty: stop and tell me to commit/stash changes first',
+  '- If pull succeeds: report success',
+  '- If local has unpushed commits and remote has new commits: warn about divergence',
+  '- If conflicts occur: analyze and resolve them intelligently',
+  '- Preserve functionality from both sides when possible',
+  '- If a command fails: paste the exact error and ask me what to do next',
+].join('\n');
+
+export const DEFAULT_WORKFLOW_PROMPTS: Record<WorkflowPromptKind, string> = {
+  commit: DEFAULT_COMMIT_PROMPT,
+  push: DEFAULT_PUSH_PROMPT,
+  update: DEFAULT_UPDATE_PROMPT,
+  sync: DEFAULT_SYNC_PROMPT,
+};
+
+export const EMPTY_WORKFLOW_PROMPT_TEMPLATES: WorkflowPromptTemplates = {
+  commit: null,
+  push: null,
+  update: null,
+  sync: null,
+};
+
+export const WORKFLOW_PROMPT_VARIABLES: WorkflowPromptVariableInfo[] = [
+  { name: 'baseBranch', description: 'Base branch of the workspace (e.g. main)' },
+  { name: 'headBranch', description: 'Current workspace branch' },
+  { name: 'ownerRepo', description: 'Repository the PR targets (owner/repo on github.com, host/owner/repo elsewhere)' },
+  { name: 'isFork', description: '"yes" for fork workflows, otherwise "no"' },
+  { name: 'originOwnerRepo', description: 'Fork owner/repo (empty when not a fork)' },
+  { name: 'remoteName', description: 'Remote holding the base branch (upstream for forks, origin otherwise)' },
+  { name: 'prRef', description: 'Ref used with gh pr view/edit' },
+  { name: 'prHead', description: 'Head used with gh pr create' },
+  { name: 'stagedStat', description: 'Output of git diff --cached --stat' },
+  { name: 'gitStatus', description: 'Output of git status --porcelain' },
+  { name: 'recentLog', description: 'Last 10 commits (git log --oneline)' },
+  { name: 'prNumber', description: 'Existing PR number (empty if none)' },
+  { name: 'prUrl', description: 'Existing PR URL (empty if none)' },
+  { name: 'prTemplate', description: 'Contents of the repository PR template (empty if none)' },
+  { name: 'prTemplatePath', description: 'Path of the PR template file' },
+];
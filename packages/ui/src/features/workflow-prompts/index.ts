@@ -0,0 +1,27 @@
+// Types
+export type {
+  WorkflowPromptKind,
+  WorkflowPromptTemplates,
+  WorkflowPromptVariableInfo,
+  WorkflowPromptVariables,
+} from './types';
+
+// Defaults
+export {
+  DEFAULT_WORKFLOW_PROMPTS,
+  EMPTY_WORKFLOW_PROMPT_TEMPLATES,
+  WORKFLOW_PROMPT_KINDS,
+  WORKFLOW_PROMPT_LABELS,
+  WORKFLOW_PROMPT_VARIABLES,
+} from './defaults';
+
+// Rendering
+export { getTemplateVariableNames, renderWorkflowPrompt } from './render';
+
+// API
+export {
+  buildWorkflowPrompt,
+  getSessionWorkflowPromptVariables,
+  getWorkflowPromptTemplates,
+  getWorkflowPromptVariables,
+} from './api';
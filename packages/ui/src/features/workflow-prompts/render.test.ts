@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { getTemplateVariableNames, renderWorkflowPrompt } from './render';
+import { getSessionWorkflowPromptVariables } from './api';
+import { DEFAULT_WORKFLOW_PROMPTS } from './defaults';
+
+describe('renderWorkflowPrompt', () => {
+  it('substitutes known variables', () => {
+    expect(renderWorkflowPrompt('git rebase {{remoteName}}/{{ baseBranch }}', { remoteName: 'origin', baseBranch: 'main' }))
+      .toBe('git rebase origin/main');
+  });
+
+  it('leaves unknown placeholders untouched', () => {
+    expect(renderWorkflowPrompt('Base: {{baseBranch}} {{typo}}', { baseBranch: 'dev' })).toBe('Base: dev {{typo}}');
+  });
+
+  it('keeps #if blocks only when the variable is non-empty', () => {
+    const template = 'PR{{#if prTemplate}}\nTemplate:\n{{prTemplate}}{{/if}}';
+    expect(renderWorkflowPrompt(template, { prTemplate: '' })).toBe('PR');
+    expect(renderWorkflowPrompt(template, { prTemplate: '## Summary' })).toBe('PR\nTemplate:\n## Summary');
+  });
+
+  it('collects referenced variable names', () => {
+    const names = getTemplateVariableNames('{{#if stagedStat}}{{stagedStat}}{{/if}} {{baseBranch}}');
+    expect([...names].sort()).toEqual(['baseBranch', 'stagedStat']);
+  });
+});
+
+describe('default workflow prompts', () => {
+  it('render the fork push prompt with origin repository and owner-qualified head', () => {
+    const variables = getSessionWorkflowPromptVariables(
+      { baseBranch: 'main', ownerRepo: 'upstream/repo', isFork: true, originOwnerRepo: 'me/repo' },
+      'feature'
+    );
+    const prompt = renderWorkflowPrompt(DEFAULT_WORKFLOW_PROMPTS.push, variables);
+
+    expect(prompt).toContain('Fork workflow: yes\nOrigin repository: me/repo');
+    expect(prompt).toContain('gh pr create --repo upstream/repo --draft --base main --head me:feature');
+    expect(prompt).not.toMatch(/\{\{/);
+  });
+
+  it('render the update prompt against origin for non-forks', () => {
+    const variables = getSessionWorkflowPromptVariables({ baseBranch: 'dev' }, 'feature');
+    const prompt = renderWorkflowPrompt(DEFAULT_WORKFLOW_PROMPTS.update, variables);
+
+    expect(prompt).toContain('Fork workflow: no');
+    expect(prompt).toContain('git rebase origin/dev');
+    expect(prompt).not.toMatch(/\{\{/);
+  });
+});
@@ -0,0 +1,27 @@
+import type { WorkflowPromptVariables } from './types';
+
+const IF_BLOCK_PATTERN = /\{\{#if\s+(\w+)\s*\}\}([\s\S]*?)\{\{\/if\}\}/g;
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Render a workflow prompt template.
+ *
+ * Supports `{{name}}` substitution and `{{#if name}}...{{/if}}` blocks that are
+ * kept only when the variable is non-empty. Unknown placeholders are left as-is
+ * so typos stay visible in the preview.
+ */
+export function renderWorkflowPrompt(template: string, variables: WorkflowPromptVariables): string {
+  return template
+    .replace(IF_BLOCK_PATTERN, (_match, name: string, body: string) => (variables[name] ? body : ''))
+    .replace(VARIABLE_PATTERN, (match, name: string) =>
+      Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match
+    );
+}
+
+/** Names of all variables referenced by a template (including `#if` conditions). */
+export function getTemplateVariableNames(template: string): Set<string> {
+  const names = new Set<string>();
+  for (const match of template.matchAll(IF_BLOCK_PATTERN)) names.add(match[1]);
+  for (const match of template.matchAll(VARIABLE_PATTERN)) names.add(match[1]);
+  return names;
+}
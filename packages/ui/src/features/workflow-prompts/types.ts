@@ -0,0 +1,14 @@
+/** Workspace actions whose prompts can be customized per project */
+export type WorkflowPromptKind = 'commit' | 'push' | 'update' | 'sync';
+
+/** Per-project overrides; null means "use the built-in default" */
+export type WorkflowPromptTemplates = Record<WorkflowPromptKind, string | null>;
+
+/** Values substituted into `{{name}}` placeholders */
+export type WorkflowPromptVariables = Record<string, string>;
+
+/** Documentation entry for a template variable (shown in Settings) */
+export interface WorkflowPromptVariableInfo {
+  name: string;
+  description: string;
+}
@@ -0,0 +1,66 @@
+import { useCallback, useEffect, useState } from 'react';
+import { API } from '../utils/api';
+import type { Session } from '../types/session';
+
+type ArchivedSessions = {
+  archivedByProjectId: Record<number, Session[]>;
+  restore: (sessionId: string) => Promise<Session>;
+};
+
+/**
+ * Archived sessions per project. Reloaded whenever a session is created or
+ * removed, since archiving and restoring show up as those events.
+ */
+export function useArchivedSessions(projectIds: number[]): ArchivedSessions {
+  const [archivedByProjectId, setArchivedByProjectId] = useState<Record<number, Session[]>>({});
+  const key = projectIds.join(',');
+
+  const load = useCallback(async (isCancelled: () => boolean = () => false) => {
+    const ids = key ? key.split(',').map(Number) : [];
+    await Promise.all(ids.map(async (projectId) => {
+      try {
+        const res = await API.sessions.getArchived(projectId);
+        if (!isCancelled() && res.success && res.data) {
+          const sessions = res.data;
+          setArchivedByProjectId((prev) => ({ ...prev, [projectId]: sessions }));
+        }
+      } catch {
+        // Keep the last list.
+      }
+    }));
+  }, [key]);
+
+  useEffect(() => {
+    let cancelled = false;
+    void load(() => cancelled);
+    return () => {
+      cancelled = true;
+    };
+  }, [load]);
+
+  useEffect(() => {
+    const reload = () => void load();
+    const unsubscribeCreated = window.electronAPI?.events?.onSessionCreated?.(reload);
+    const unsubscribeDeleted = window.electronAPI?.events?.onSessionDeleted?.(reload);
+    return () => {
+      unsubscribeCreated?.();
+      unsubscribeDeleted?.();
+    };
+  }, [load]);
+
+  const restore = useCallback(async (sessionId: string) => {
+    const res = await API.sessions.restore(sessionId);
+    if (!res.success || !res.data) throw new Error(res.error || 'Failed to restore session');
+    const restored = res.data;
+    setArchivedByProjectId((prev) => {
+      const next: Record<number, Session[]> = {};
+      for (const [projectId, sessions] of Object.entries(prev)) {
+        next[Number(projectId)] = sessions.filter((s) => s.id !== restored.id);
+      }
+      return next;
+    });
+    return restored;
+  }, []);
+
+  return { archivedByProjectId, restore };
+}
@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { API } from '../utils/api';
+import type { DiffCommentDTO, DiffCommentInputDTO } from '../types/electron';
+
+export type DiffCommentsState = {
+  comments: DiffCommentDTO[];
+  add: (input: DiffCommentInputDTO) => Promise<void>;
+  update: (id: number, body: string) => Promise<void>;
+  remove: (id: number) => Promise<void>;
+};
+
+const unwrap = (res: { success: boolean; data?: DiffCommentDTO[]; error?: string }, fallback: string): DiffCommentDTO[] => {
+  if (!res.success || !res.data) throw new Error(res.error || fallback);
+  return res.data;
+};
+
+/**
+ * Review comments left on the session's diffs. Listed again whenever the
+ * worktree changes so pending comments follow their lines.
+ */
+export function useDiffComments(sessionId: string | undefined): DiffCommentsState {
+  const [comments, setComments] = useState<DiffCommentDTO[]>([]);
+
+  const load = useCallback(async () => {
+    if (!sessionId) return;
+    try {
+      const res = await API.diffComments.list(sessionId);
+      if (res.success && res.data) setComments(res.data);
+    } catch {
+      // Keep the last list.
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    setComments([]);
+    void load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    const unsubscribeComments = window.electronAPI?.events?.onDiffCommentsUpdated?.((data) => {
+      if (data.sessionId === sessionId) setComments(data.comments);
+    });
+    const unsubscribeGit = window.electronAPI?.events?.onGitStatusUpdated?.((data) => {
+      if (data.sessionId === sessionId) void load();
+    });
+    return () => {
+      unsubscribeComments?.();
+      unsubscribeGit?.();
+    };
+  }, [sessionId, load]);
+
+  const add = useCallback(async (input: DiffCommentInputDTO) => {
+    if (!sessionId) return;
+    setComments(unwrap(await API.diffComments.add(sessionId, input), 'Failed to add comment'));
+  }, [sessionId]);
+
+  const update = useCallback(async (id: number, body: string) => {
+    if (!sessionId) return;
+    setComments(unwrap(await API.diffComments.update(sessionId, id, body), 'Failed to update comment'));
+  }, [sessionId]);
+
+  const remove = useCallback(async (id: number) => {
+    if (!sessionId) return;
+    setComments(unwrap(await API.diffComments.delete(sessionId, id), 'Failed to delete comment'));
+  }, [sessionId]);
+
+  return useMemo(() => ({ comments, add, update, remove }), [comments, add, update, remove]);
+}
@@ -6,7 +6,7 @@ import type { GitStatus, Session } from '../types/session';
 import notificationSound from '../assets/sounds/notification.wav';
 
 export function useIPCEvents() {
-  const { loadSessions, addSession, updateSession, deleteSession, setGitStatusLoading, updateSessionGitStatus, updateSessionTodos } = useSessionStore();
+  const { loadSessions, addSession, updateSession, deleteSession, setGitStatusLoading, updateSessionGitStatus, updateSessionTodos, focusPanel } = useSessionStore();
   const { showError } = useErrorStore();
 
   useEffect(() => {
@@ -70,8 +70,10 @@ export function useIPCEvents() {
 
     const maybeOnAgentCompleted = window.electronAPI.events.onAgentCompleted;
     if (maybeOnAgentCompleted) {
-      unsubscribes.push(maybeOnAgentCompleted((data: { sessionId: string }) => {
+      unsubscribes.push(maybeOnAgentCompleted((data: { sessionId: string; muted?: boolean }) => {
         console.log('[useIPCEvents] Agent completed event received for session:', data.sessionId);
+        // Muted during do-not-disturb and when a desktop notification is shown instead.
+        if (data.muted) return;
         const audio = new Audio(notificationSound);
         audio.volume = 0.3;
         audio.play().catch((err) => {
@@ -80,6 +82,13 @@ export function useIPCEvents() {
       }));
     }
 
+    const maybeOnNotificationFocus = window.electronAPI.events.onNotificationFocus;
+    if (maybeOnNotificationFocus) {
+      unsubscribes.push(maybeOnNotificationFocus((data: { sessionId: string; panelId: string | null }) => {
+        focusPanel(data.sessionId, data.panelId);
+      }));
+    }
+
     const maybeOnSessionTodosUpdate = window.electronAPI.events.onSessionTodosUpdate;
     if (maybeOnSessionTodosUpdate) {
       unsubscribes.push(maybeOnSessionTodosUpdate((data) => {
@@ -89,6 +98,6 @@ export function useIPCEvents() {
     }
 
     return () => unsubscribes.forEach((u) => u());
-  }, [loadSessions, addSession, updateSession, deleteSession, setGitStatusLoading, updateSessionGitStatus, updateSessionTodos]);
+  }, [loadSessions, addSession, updateSession, deleteSession, setGitStatusLoading, updateSessionGitStatus, updateSessionTodos, focusPanel]);
 }
 
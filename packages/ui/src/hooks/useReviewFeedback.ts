@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { API } from '../utils/api';
+import type { ReviewFeedbackDTO } from '../types/electron';
+
+export type ReviewFeedbackState = {
+  feedback: ReviewFeedbackDTO | null;
+  isRefreshing: boolean;
+  /** Fetch the pull request's unresolved review threads again */
+  refresh: () => Promise<void>;
+  setStatus: (commentIds: string[], status: 'open' | 'addressed') => Promise<void>;
+};
+
+/**
+ * Review comments of the session's pull request, with the send/addressed state
+ * kept by the main process. Fetched from the forge the first time a session is
+ * shown; afterwards only on refresh.
+ */
+export function useReviewFeedback(sessionId: string | undefined): ReviewFeedbackState {
+  const [feedback, setFeedback] = useState<ReviewFeedbackDTO | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!sessionId) return;
+    setIsRefreshing(true);
+    try {
+      const res = await API.review.refresh(sessionId);
+      if (res.success && res.data) {
+        setFeedback(res.data);
+      } else if (res.error) {
+        const error = res.error;
+        setFeedback((prev) => (prev ? { ...prev, error } : prev));
+      }
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    setFeedback(null);
+    if (!sessionId) return;
+    let cancelled = false;
+    API.review.getFeedback(sessionId)
+      .then((res) => {
+        if (cancelled || !res.success || !res.data) return;
+        setFeedback(res.data);
+        if (!res.data.fetchedAt) void refresh();
+      })
+      .catch(() => {
+        // Updates arrive through review:updated as well.
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, refresh]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    const unsubscribe = window.electronAPI?.events?.onReviewFeedbackUpdated?.((data) => {
+      if (data.sessionId === sessionId) setFeedback(data);
+    });
+    return () => unsubscribe?.();
+  }, [sessionId]);
+
+  const setStatus = useCallback(async (commentIds: string[], status: 'open' | 'addressed') => {
+    if (!sessionId) return;
+    const res = await API.review.setStatus(sessionId, commentIds, status);
+    if (res.success && res.data) setFeedback(res.data);
+  }, [sessionId]);
+
+  return useMemo(() => ({ feedback, isRefreshing, refresh, setStatus }), [feedback, isRefreshing, refresh, setStatus]);
+}
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { API } from '../utils/api';
+import type { SessionFolderDTO } from '../types/electron';
+
+export type SessionFoldersState = {
+  foldersByProjectId: Record<number, SessionFolderDTO[]>;
+  create: (projectId: number, name: string, parentFolderId?: string | null) => Promise<SessionFolderDTO[]>;
+  rename: (folderId: string, name: string) => Promise<void>;
+  move: (folderId: string, parentFolderId: string | null) => Promise<void>;
+  remove: (folderId: string) => Promise<void>;
+};
+
+const unwrap = (res: { success: boolean; data?: SessionFolderDTO[]; error?: string }, fallback: string): SessionFolderDTO[] => {
+  if (!res.success || !res.data) throw new Error(res.error || fallback);
+  return res.data;
+};
+
+/**
+ * Sidebar folders of each project. Changes made elsewhere (e.g. a fan-out
+ * creating its folder) arrive through folders:updated.
+ */
+export function useSessionFolders(projectIds: number[]): SessionFoldersState {
+  const [foldersByProjectId, setFoldersByProjectId] = useState<Record<number, SessionFolderDTO[]>>({});
+  const key = projectIds.join(',');
+
+  const store = useCallback((projectId: number, folders: SessionFolderDTO[]) => {
+    setFoldersByProjectId((prev) => ({ ...prev, [projectId]: folders }));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const ids = key ? key.split(',').map(Number) : [];
+    for (const projectId of ids) {
+      API.folders.list(projectId)
+        .then((res) => {
+          if (!cancelled && res.success && res.data) store(projectId, res.data);
+        })
+        .catch(() => {
+          // Keep the project unfiled until folders:updated arrives.
+        });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [key, store]);
+
+  useEffect(() => {
+    const unsubscribe = window.electronAPI?.events?.onFoldersUpdated?.((data) => store(data.projectId, data.folders));
+    return () => unsubscribe?.();
+  }, [store]);
+
+  const projectOf = useCallback((folderId: string): number | null => {
+    for (const [projectId, folders] of Object.entries(foldersByProjectId)) {
+      if (folders.some((f) => f.id === folderId)) return Number(projectId);
+    }
+    return null;
+  }, [foldersByProjectId]);
+
+  const create = useCallback(async (projectId: number, name: string, parentFolderId?: string | null) => {
+    const folders = unwrap(await API.folders.create(projectId, name, parentFolderId), 'Failed to create folder');
+    store(projectId, folders);
+    return folders;
+  }, [store]);
+
+  const rename = useCallback(async (folderId: string, name: string) => {
+    const projectId = projectOf(folderId);
+    const folders = unwrap(await API.folders.rename(folderId, name), 'Failed to rename folder');
+    if (projectId !== null) store(projectId, folders);
+  }, [projectOf, store]);
+
+  const move = useCallback(async (folderId: string, parentFolderId: string | null) => {
+    const projectId = projectOf(folderId);
+    const folders = unwrap(await API.folders.move(folderId, parentFolderId), 'Failed to move folder');
+    if (projectId !== null) store(projectId, folders);
+  }, [projectOf, store]);
+
+  const remove = useCallback(async (folderId: string) => {
+    const projectId = projectOf(folderId);
+    const folders = unwrap(await API.folders.delete(folderId), 'Failed to delete folder');
+    if (projectId !== null) store(projectId, folders);
+  }, [projectOf, store]);
+
+  return useMemo(
+    () => ({ foldersByProjectId, create, rename, move, remove }),
+    [foldersByProjectId, create, rename, move, remove]
+  );
+}
@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from 'react';
+import { API } from '../utils/api';
+import type { ProjectUpstreamStatusDTO } from '../types/electron';
+
+type UpstreamStatus = {
+  statuses: Record<number, ProjectUpstreamStatusDTO>;
+  /** Fetch now instead of waiting for the next background check */
+  check: (projectId: number) => Promise<void>;
+};
+
+/**
+ * Latest upstream check per project: how far each session's worktree is
+ * behind its remote base branch and whether a rebase would conflict.
+ */
+export function useUpstreamStatus(projectIds: number[]): UpstreamStatus {
+  const [statuses, setStatuses] = useState<Record<number, ProjectUpstreamStatusDTO>>({});
+  const key = projectIds.join(',');
+
+  const store = useCallback((status: ProjectUpstreamStatusDTO) => {
+    setStatuses((prev) => ({ ...prev, [status.projectId]: status }));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const ids = key ? key.split(',').map(Number) : [];
+    for (const projectId of ids) {
+      API.upstream.getStatus(projectId)
+        .then((res) => {
+          if (!cancelled && res.success && res.data) store(res.data);
+        })
+        .catch(() => {
+          // Results arrive through upstream:updated as well.
+        });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [key, store]);
+
+  useEffect(() => {
+    const unsubscribe = window.electronAPI?.events?.onUpstreamUpdated?.(store);
+    return () => unsubscribe?.();
+  }, [store]);
+
+  const check = useCallback(async (projectId: number) => {
+    const res = await API.upstream.check(projectId);
+    if (res.success && res.data) store(res.data);
+  }, [store]);
+
+  return { statuses, check };
+}
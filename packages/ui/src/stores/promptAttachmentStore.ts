@@ -0,0 +1,53 @@
+import { create } from 'zustand';
+
+/** Text (such as failing command output) sent along with a session's next prompt. */
+export interface PromptTextAttachment {
+  id: string;
+  label: string;
+  content: string;
+}
+
+const EMPTY: PromptTextAttachment[] = [];
+
+interface PromptAttachmentStore {
+  attachmentsBySession: Record<string, PromptTextAttachment[]>;
+  addAttachment: (sessionId: string, attachment: PromptTextAttachment) => void;
+  removeAttachment: (sessionId: string, id: string) => void;
+  clearAttachments: (sessionId: string) => void;
+}
+
+export const usePromptAttachmentStore = create<PromptAttachmentStore>((set) => ({
+  attachmentsBySession: {},
+
+  // Attaching the same id again replaces the earlier copy.
+  addAttachment: (sessionId, attachment) => set((state) => ({
+    attachmentsBySession: {
+      ...state.attachmentsBySession,
+      [sessionId]: [...(state.attachmentsBySession[sessionId] ?? []).filter((a) => a.id !== attachment.id), attachment],
+    },
+  })),
+
+  removeAttachment: (sessionId, id) => set((state) => ({
+    attachmentsBySession: {
+      ...state.attachmentsBySession,
+      [sessionId]: (state.attachmentsBySession[sessionId] ?? []).filter((a) => a.id !== id),
+    },
+  })),
+
+  clearAttachments: (sessionId) => set((state) => {
+    if (!state.attachmentsBySession[sessionId]) return state;
+    const next = { ...state.attachmentsBySession };
+    delete next[sessionId];
+    return { attachmentsBySession: next };
+  }),
+}));
+
+export const selectSessionAttachments = (sessionId: string) =>
+  (state: PromptAttachmentStore) => state.attachmentsBySession[sessionId] ?? EMPTY;
+
+/** Append attachments to a prompt as fenced blocks. */
+export function withPromptAttachments(prompt: string, attachments: PromptTextAttachment[]): string {
+  if (attachments.length === 0) return prompt;
+  const blocks = attachments.map((a) => `${a.label}:\n\`\`\`\n${a.content.replace(/```/g, '` ` `')}\n\`\`\``);
+  return [prompt, ...blocks].filter(Boolean).join('\n\n');
+}
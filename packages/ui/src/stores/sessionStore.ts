@@ -14,6 +14,8 @@ interface SessionStore {
   gitStatusLoading: Set<string>;
   isLoaded: boolean;
   sessionTodos: Record<string, TodoItem[]>; // sessionId -> todos
+  timelineFocus: { sessionId: string; seq: number } | null; // event to scroll to once the timeline loads
+  panelFocus: { sessionId: string; panelId: string } | null; // agent panel to select once the session loads
 
   loadSessions: (sessions: Session[]) => void;
   addSession: (session: Session) => void;
@@ -24,6 +26,10 @@ interface SessionStore {
   setGitStatusLoading: (sessionId: string, loading: boolean) => void;
   updateWorkspaceStage: (sessionId: string, data: WorkspaceStageInput) => void;
   updateSessionTodos: (sessionId: string, todos: TodoItem[]) => void;
+  focusTimelineEvent: (sessionId: string, seq: number) => void;
+  clearTimelineFocus: () => void;
+  focusPanel: (sessionId: string, panelId: string | null) => void;
+  clearPanelFocus: () => void;
 }
 
 export const useSessionStore = create<SessionStore>((set, get) => ({
@@ -36,6 +42,8 @@ export const useSessionStore = create<SessionStore>((set, get) => ({
   gitStatusLoading: new Set(),
   isLoaded: false,
   sessionTodos: {},
+  timelineFocus: null,
+  panelFocus: null,
 
   loadSessions: (sessions) => {
     const state = get();
@@ -103,6 +111,20 @@ export const useSessionStore = create<SessionStore>((set, get) => ({
     set((state) => ({
       sessionTodos: { ...state.sessionTodos, [sessionId]: todos },
     })),
+
+  focusTimelineEvent: (sessionId, seq) => {
+    set({ timelineFocus: { sessionId, seq } });
+    if (get().activeSessionId !== sessionId) get().setActiveSession(sessionId);
+  },
+
+  clearTimelineFocus: () => set({ timelineFocus: null }),
+
+  focusPanel: (sessionId, panelId) => {
+    set({ panelFocus: panelId ? { sessionId, panelId } : null });
+    if (get().activeSessionId !== sessionId) get().setActiveSession(sessionId);
+  },
+
+  clearPanelFocus: () => set({ panelFocus: null }),
 }));
 
 // Expose store for E2E testing
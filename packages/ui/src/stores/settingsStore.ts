@@ -9,6 +9,41 @@ export interface TelegramSettings {
 export interface ProviderConfig {
   envVars: Record<string, string>;
   extraArgs: string;
+  // Values for the executor's settings schema fields
+  options?: Record<string, string>;
+}
+
+type BuiltinProvider = 'claude' | 'codex' | 'gemini' | 'kimi';
+
+export interface WorkspaceActionSettings {
+  // 'direct' runs Commit / Push / Update through git instead of an agent prompt
+  mode: 'agent' | 'direct';
+  commitMessageTemplate: string;
+  updateStrategy: 'rebase' | 'merge';
+}
+
+export interface ForgeHostSettings {
+  // Host as it appears in remote URLs, with the port for HTTP remotes
+  host: string;
+  kind: 'github' | 'gitlab' | 'gitea';
+  // Gitea only: API base URL (defaults to https://<host>/api/v1) and access token
+  apiUrl?: string;
+  token?: string;
+}
+
+export type NotificationEventKind = 'agentFinished' | 'question' | 'approval' | 'runFailed' | 'ciChanged';
+
+export interface NotificationSettings {
+  enabled: boolean;
+  // Skip desktop notifications while the snowtree window has focus
+  onlyWhenUnfocused: boolean;
+  // Dock / taskbar badge with the number of finished, unviewed workspaces
+  showBadge: boolean;
+  rules: Record<NotificationEventKind, boolean>;
+  // Per-project overrides of `rules`, keyed by project id
+  projectRules: Record<string, Partial<Record<NotificationEventKind, boolean>>>;
+  // Local HH:MM times; the window may wrap past midnight
+  doNotDisturb: { enabled: boolean; start: string; end: string };
 }
 
 export interface AppSettings {
@@ -18,32 +53,38 @@ export interface AppSettings {
   fontFamily: string;
 
   // AI Tool Settings
-  defaultToolType: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none';
-  enabledProviders: {
-    claude: boolean;
-    codex: boolean;
-    gemini: boolean;
-    kimi: boolean;
-  };
+  // Built-in provider, executor plugin id, or 'none'
+  defaultToolType: BuiltinProvider | 'none' | (string & {});
+  // Plugins missing from the map are treated as enabled
+  enabledProviders: Record<BuiltinProvider, boolean> & Record<string, boolean>;
 
   // Terminal
   terminalFontSize: number;
   terminalFontFamily: string;
   terminalScrollback: number;
+  // Start new terminals inside tmux so their processes outlive the app
+  terminalTmux: boolean;
 
   // Worktree
   autoDeleteBranchOnWorktreeRemove: boolean;
+  // Deleting a workspace archives it instead: the worktree goes, the branch and timeline stay
+  archiveOnDelete: boolean;
+  // Minutes between background fetches of each project's base branch; 0 turns them off
+  upstreamFetchIntervalMinutes: number;
+  // Self-hosted GitHub Enterprise, GitLab and Gitea instances for PR and CI features
+  forgeHosts: ForgeHostSettings[];
+
+  // Workspace actions (Commit / Push / Update)
+  workspaceActions: WorkspaceActionSettings;
+
+  // Desktop notifications
+  notifications: NotificationSettings;
 
   // Telegram Remote Control
   telegram: TelegramSettings;
 
-  // Per-provider custom configuration
-  providerConfigs: {
-    claude: ProviderConfig;
-    codex: ProviderConfig;
-    gemini: ProviderConfig;
-    kimi: ProviderConfig;
-  };
+  // Per-provider custom configuration (keyed by executor id)
+  providerConfigs: Record<BuiltinProvider, ProviderConfig> & Record<string, ProviderConfig>;
 }
 
 const DEFAULT_SETTINGS: AppSettings = {
@@ -60,7 +101,24 @@ const DEFAULT_SETTINGS: AppSettings = {
   terminalFontSize: 13,
   terminalFontFamily: '',
   terminalScrollback: 1000,
+  terminalTmux: false,
   autoDeleteBranchOnWorktreeRemove: false,
+  archiveOnDelete: false,
+  upstreamFetchIntervalMinutes: 10,
+  forgeHosts: [],
+  workspaceActions: {
+    mode: 'agent',
+    commitMessageTemplate: 'Update {{files}}',
+    updateStrategy: 'rebase',
+  },
+  notifications: {
+    enabled: true,
+    onlyWhenUnfocused: true,
+    showBadge: true,
+    rules: { agentFinished: true, question: true, approval: true, runFailed: true, ciChanged: true },
+    projectRules: {},
+    doNotDisturb: { enabled: false, start: '22:00', end: '08:00' },
+  },
   telegram: {
     enabled: false,
     botToken: '',
@@ -85,25 +143,25 @@ interface SettingsStore {
   loadSettings: () => Promise<void>;
 }
 
+const EMPTY_PROVIDER_CONFIG: ProviderConfig = { envVars: {}, extraArgs: '' };
+
+const TOOL_TYPE_PATTERN = /^[a-z][a-z0-9-]*$/;
+
 function mergeSettings(stored: Partial<AppSettings> | null): AppSettings {
   if (!stored) return DEFAULT_SETTINGS;
 
+  // Plugin ids can't be checked here (the registry lives in the main process),
+  // so accept anything shaped like an executor id.
   const resolvedDefaultToolType =
-    stored.defaultToolType === 'codex'
-    || stored.defaultToolType === 'gemini'
-    || stored.defaultToolType === 'kimi'
-    || stored.defaultToolType === 'none'
-    || stored.defaultToolType === 'claude'
+    typeof stored.defaultToolType === 'string' && TOOL_TYPE_PATTERN.test(stored.defaultToolType)
       ? stored.defaultToolType
       : DEFAULT_SETTINGS.defaultToolType;
 
   const storedPC = stored.providerConfigs as Partial<AppSettings['providerConfigs']> | undefined;
-  const mergedProviderConfigs = {
-    claude: { ...DEFAULT_SETTINGS.providerConfigs.claude, ...storedPC?.claude },
-    codex: { ...DEFAULT_SETTINGS.providerConfigs.codex, ...storedPC?.codex },
-    gemini: { ...DEFAULT_SETTINGS.providerConfigs.gemini, ...storedPC?.gemini },
-    kimi: { ...DEFAULT_SETTINGS.providerConfigs.kimi, ...storedPC?.kimi },
-  };
+  const mergedProviderConfigs: AppSettings['providerConfigs'] = { ...DEFAULT_SETTINGS.providerConfigs };
+  for (const [key, config] of Object.entries(storedPC || {})) {
+    mergedProviderConfigs[key] = { ...(DEFAULT_SETTINGS.providerConfigs[key] ?? EMPTY_PROVIDER_CONFIG), ...config };
+  }
 
   return {
     ...DEFAULT_SETTINGS,
@@ -113,10 +171,27 @@ function mergeSettings(stored: Partial<AppSettings> | null): AppSettings {
       ...DEFAULT_SETTINGS.enabledProviders,
       ...(stored.enabledProviders || {}),
     },
+    workspaceActions: {
+      ...DEFAULT_SETTINGS.workspaceActions,
+      ...(stored.workspaceActions || {}),
+    },
+    notifications: {
+      ...DEFAULT_SETTINGS.notifications,
+      ...(stored.notifications || {}),
+      rules: {
+        ...DEFAULT_SETTINGS.notifications.rules,
+        ...(stored.notifications?.rules || {}),
+      },
+      doNotDisturb: {
+        ...DEFAULT_SETTINGS.notifications.doNotDisturb,
+        ...(stored.notifications?.doNotDisturb || {}),
+      },
+    },
     telegram: {
       ...DEFAULT_SETTINGS.telegram,
       ...(stored.telegram || {}),
     },
+    forgeHosts: Array.isArray(stored.forgeHosts) ? stored.forgeHosts : DEFAULT_SETTINGS.forgeHosts,
     providerConfigs: mergedProviderConfigs,
   };
 }
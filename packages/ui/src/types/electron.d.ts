@@ -3,6 +3,7 @@ import type { TimelineEvent } from './timeline';
 import type { DiffTarget } from './diff';
 import type { ToolPanel } from '@snowtree/core/types/panels';
 import type { TodoItem } from '../stores/sessionStore';
+import type { NotificationSettings } from '../stores/settingsStore';
 
 export interface IPCResponse<T = unknown> {
   success: boolean;
@@ -19,6 +20,349 @@ export type ProjectDTO = {
   active?: boolean;
 };
 
+export type WorkflowPromptTemplatesDTO = {
+  commit: string | null;
+  push: string | null;
+  update: string | null;
+  sync: string | null;
+};
+
+export type HistorySearchKindDTO = 'prompt' | 'assistant' | 'command' | 'tool' | 'diff';
+
+export type HistorySearchOptionsDTO = {
+  query: string;
+  projectId?: number;
+  sessionId?: string;
+  kinds?: HistorySearchKindDTO[];
+  since?: string;
+  until?: string;
+  includeArchived?: boolean;
+  limit?: number;
+};
+
+export type HistorySearchHitDTO = {
+  source: 'timeline' | 'diff';
+  id: number;
+  session_id: string;
+  session_name: string;
+  project_id: number;
+  archived: boolean;
+  kind: HistorySearchKindDTO;
+  event_kind: string | null;
+  seq: number | null;
+  panel_id: string | null;
+  timestamp: string;
+  /** Matched text with hits wrapped in \u0002 ... \u0003. */
+  snippet: string;
+  rank: number;
+};
+
+export type SessionExportFormat = 'bundle' | 'markdown' | 'html';
+
+export type SessionImportDTO = {
+  session_id: string;
+  source_session_id: string;
+  source_project_name: string | null;
+  exported_at: string;
+  imported_at: string;
+  base_ref: string | null;
+  final_diff: string;
+  commits: Array<{ hash: string; message: string; author: string; date: string }>;
+};
+
+export type FanOutCreateResultDTO = {
+  folderId: string;
+  baseCommit: string;
+  sessionIds: string[];
+};
+
+export type FanOutDiffStatsDTO = {
+  additions: number;
+  deletions: number;
+  filesChanged: number;
+};
+
+export type FanOutSiblingDTO = {
+  sessionId: string;
+  name: string;
+  toolType?: string;
+  status: Session['status'];
+  stats: FanOutDiffStatsDTO;
+  files: string[];
+  error?: string;
+};
+
+export type FanOutComparisonDTO = {
+  folderId: string;
+  baseCommit: string | null;
+  siblings: FanOutSiblingDTO[];
+  pairs: Array<{ a: string; b: string; stats: FanOutDiffStatsDTO }>;
+};
+
+export type UsageTotalsDTO = {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd: number;
+  samples: number;
+};
+
+export type UsageBudgetStatusDTO = {
+  scope: 'session' | 'project';
+  scopeId: string;
+  tokenLimit: number | null;
+  costLimitUsd: number | null;
+  warnRatio: number;
+  tokensUsed: number;
+  costUsd: number;
+  ratio: number;
+  state: 'ok' | 'warning' | 'exceeded';
+};
+
+export type UsageReportDTO = {
+  sessionId: string;
+  projectId: number | null;
+  session: UsageTotalsDTO;
+  project: UsageTotalsDTO | null;
+  panels: Array<{ panelId: string; toolType: string | null; title: string | null; totals: UsageTotalsDTO }>;
+  budgets: {
+    session: UsageBudgetStatusDTO | null;
+    project: UsageBudgetStatusDTO | null;
+  };
+};
+
+export type UsageBudgetInputDTO = {
+  tokenLimit?: number | null;
+  costLimitUsd?: number | null;
+  warnRatio?: number;
+};
+
+export type SessionCheckpointDTO = {
+  id: number;
+  session_id: string;
+  panel_id: string | null;
+  kind: 'round' | 'redo';
+  prompt_seq: number | null;
+  head_commit: string;
+  snapshot_commit: string;
+  ref_name: string;
+  created_at: string;
+};
+
+export type SessionCheckpointsDTO = {
+  sessionId: string;
+  rounds: SessionCheckpointDTO[];
+  redo: SessionCheckpointDTO | null;
+};
+
+export type RestoreCheckpointOptionsDTO = {
+  restoreStaged?: boolean;
+};
+
+export type PolicyRuleInputDTO = {
+  name: string;
+  action: 'allow' | 'deny';
+  target: 'command' | 'path';
+  pattern_type: 'glob' | 'regex';
+  pattern: string;
+  enabled: boolean;
+};
+
+export type PolicyRuleDTO = PolicyRuleInputDTO & {
+  id: number;
+  project_id: number;
+  order_index: number;
+  created_at: string;
+};
+
+export type ToolApprovalKindDTO = 'command' | 'file_change';
+
+export type ToolApprovalDecisionDTO = 'approve' | 'approve_for_session' | 'deny';
+
+export type ToolApprovalDetailsDTO = {
+  command?: string;
+  cwd?: string;
+  reason?: string;
+  files?: Array<{ path: string; diff?: string }>;
+};
+
+export type PendingApprovalDTO = {
+  id: string;
+  sessionId: string;
+  panelId: string;
+  kind: ToolApprovalKindDTO;
+  details: ToolApprovalDetailsDTO;
+  requestedAt: string;
+};
+
+export type RunCommandInputDTO = {
+  id?: number;
+  command: string;
+  display_name?: string | null;
+};
+
+export type RunCommandDTO = {
+  id: number;
+  project_id: number;
+  command: string;
+  display_name?: string | null;
+  order_index: number;
+  created_at: string;
+};
+
+export type RunScriptStatusDTO = 'idle' | 'running' | 'stopping' | 'exited' | 'failed';
+
+export type RunScriptDTO = {
+  id: string;
+  sessionId: string;
+  name: string;
+  command: string;
+  status: RunScriptStatusDTO;
+  pid: number | null;
+  port: number | null;
+  exitCode: number | null;
+  startedAt: string | null;
+  endedAt: string | null;
+};
+
+export type RunScriptLogLineDTO = {
+  stream: 'stdout' | 'stderr' | 'system';
+  text: string;
+  timestamp: string;
+};
+
+export type SetupStepKindDTO = 'copy' | 'symlink' | 'command';
+
+export type SetupStepInputDTO = {
+  name: string;
+  kind: SetupStepKindDTO;
+  value: string;
+  enabled: boolean;
+};
+
+export type SetupStepDTO = SetupStepInputDTO & {
+  id: number;
+  project_id: number;
+  order_index: number;
+  created_at: string;
+};
+
+export type SessionTemplateInputDTO = {
+  name: string;
+  // {{name}} placeholders are asked for when a session is created
+  prompt: string;
+  tool_type: string;
+  model: string | null;
+  // claude 'approve' | 'ignore', codex 'auto' | 'manual', gemini/kimi approval mode
+  approval_mode: string | null;
+  thinking_level: 'low' | 'medium' | 'high' | null;
+  plan_mode: boolean;
+  commit_mode: 'structured' | 'checkpoint' | 'disabled' | null;
+  base_branch: string | null;
+};
+
+export type SessionTemplateDTO = SessionTemplateInputDTO & {
+  id: number;
+  project_id: number;
+  order_index: number;
+  created_at: string;
+};
+
+export type SetupTaskStatusDTO = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+export type SetupTaskDTO = {
+  id: string;
+  name: string;
+  kind: SetupStepKindDTO;
+  value: string;
+  status: SetupTaskStatusDTO;
+  exitCode: number | null;
+  error: string | null;
+  startedAt: string | null;
+  endedAt: string | null;
+};
+
+export type SetupStateDTO = {
+  sessionId: string;
+  status: 'idle' | 'running' | 'succeeded' | 'failed';
+  tasks: SetupTaskDTO[];
+};
+
+export type SessionUpstreamStatusDTO = {
+  sessionId: string;
+  baseRef: string;
+  behind: number;
+  clean: boolean;
+  // Files a merge with baseRef would conflict in; null when git could not tell
+  conflicts: string[] | null;
+};
+
+export type ProjectUpstreamStatusDTO = {
+  projectId: number;
+  checkedAt: string | null;
+  error: string | null;
+  heads: Record<string, string>;
+  sessions: SessionUpstreamStatusDTO[];
+};
+
+export type UpstreamRebaseResultDTO = {
+  sessionId: string;
+  success: boolean;
+  error?: string;
+  conflict?: boolean;
+};
+
+export type VerifySettingsDTO = {
+  command: string | null;
+  autoFix: boolean;
+  maxIterations: number;
+};
+
+export type ExecutorSettingFieldDTO = {
+  key: string;
+  label: string;
+  type: 'text' | 'password' | 'select';
+  placeholder?: string;
+  description?: string;
+  defaultValue?: string;
+  options?: Array<{ value: string; label: string }>;
+};
+
+export type ExecutorInfoDTO = {
+  id: string;
+  displayName: string;
+  command: string;
+  builtIn: boolean;
+  enabledByDefault: boolean;
+  settings: {
+    extraArgsPlaceholder?: string;
+    fields?: ExecutorSettingFieldDTO[];
+  };
+};
+
+export type QueuedPromptDTO = {
+  id: number;
+  session_id: string;
+  panel_id: string;
+  prompt: string;
+  plan_mode: boolean;
+  order_index: number;
+  created_at: string;
+};
+
+export type SessionPlanDTO = {
+  id: number;
+  session_id: string;
+  panel_id: string;
+  version: number;
+  content: string;
+  source: 'agent' | 'user';
+  status: 'draft' | 'approved' | 'superseded';
+  created_at: string;
+  approved_at: string | null;
+};
+
 export type GitDiffStatsDTO = {
   additions: number;
   deletions: number;
@@ -56,6 +400,71 @@ export type RemotePullRequestDTO = {
   state: 'draft' | 'open' | 'merged';
 };
 
+export type ForgePullRequestDTO = RemotePullRequestDTO & {
+  title: string;
+  body: string;
+};
+
+export type ReviewCommentStatusDTO = 'open' | 'sent' | 'addressed';
+
+export type ReviewCommentDTO = {
+  id: string;
+  path: string;
+  /** Line in the new version of the file; null for file-level comments */
+  line: number | null;
+  author: string;
+  body: string;
+  url: string | null;
+  createdAt: string | null;
+  replies: Array<{ author: string; body: string }>;
+  status: ReviewCommentStatusDTO;
+};
+
+export type ReviewFeedbackDTO = {
+  sessionId: string;
+  pullRequest: { number: number; url: string } | null;
+  comments: ReviewCommentDTO[];
+  fetchedAt: string | null;
+  error: string | null;
+};
+
+export type DiffCommentDTO = {
+  id: number;
+  session_id: string;
+  file_path: string;
+  side: 'additions' | 'deletions';
+  start_line: number;
+  end_line: number;
+  anchor_text: string | null;
+  /** Commit whose diff was commented; null for the working tree */
+  commit_hash: string | null;
+  body: string;
+  status: 'pending' | 'sent';
+  /** The commented line is no longer in the file */
+  outdated: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type DiffCommentInputDTO = {
+  filePath: string;
+  side?: 'additions' | 'deletions';
+  startLine: number;
+  endLine?: number;
+  commitHash?: string | null;
+  body: string;
+};
+
+export type SessionFolderDTO = {
+  id: string;
+  name: string;
+  project_id: number;
+  parent_folder_id: string | null;
+  display_order: number;
+  created_at: string;
+  updated_at: string;
+};
+
 export type UpdateAvailableInfo = {
   version: string;
   releaseNotes?: string;
@@ -69,6 +478,10 @@ export interface ElectronAPI {
     getSettings: () => Promise<IPCResponse<unknown>>;
   };
 
+  executors: {
+    list: () => Promise<IPCResponse<ExecutorInfoDTO[]>>;
+  };
+
   preferences: {
     get: (key: string) => Promise<IPCResponse<string | null>>;
     set: (key: string, value: string) => Promise<IPCResponse<unknown>>;
@@ -88,6 +501,20 @@ export interface ElectronAPI {
     getAll: () => Promise<IPCResponse<ProjectDTO[]>>;
     create: (request: { name: string; path: string; active: boolean }) => Promise<IPCResponse<unknown>>;
     delete: (projectId: number) => Promise<IPCResponse<unknown>>;
+    getWorkflowPrompts: (projectId: number) => Promise<IPCResponse<WorkflowPromptTemplatesDTO>>;
+    updateWorkflowPrompts: (projectId: number, updates: Partial<WorkflowPromptTemplatesDTO>) => Promise<IPCResponse<unknown>>;
+    getCustomExecutor: (projectId: number) => Promise<IPCResponse<string | null>>;
+    updateCustomExecutor: (projectId: number, spec: string | null) => Promise<IPCResponse<unknown>>;
+    getPolicyRules: (projectId: number) => Promise<IPCResponse<PolicyRuleDTO[]>>;
+    updatePolicyRules: (projectId: number, rules: PolicyRuleInputDTO[]) => Promise<IPCResponse<PolicyRuleDTO[]>>;
+    getRunCommands: (projectId: number) => Promise<IPCResponse<RunCommandDTO[]>>;
+    updateRunCommands: (projectId: number, commands: RunCommandInputDTO[]) => Promise<IPCResponse<RunCommandDTO[]>>;
+    getSetupSteps: (projectId: number) => Promise<IPCResponse<SetupStepDTO[]>>;
+    updateSetupSteps: (projectId: number, steps: SetupStepInputDTO[]) => Promise<IPCResponse<SetupStepDTO[]>>;
+    getSessionTemplates: (projectId: number) => Promise<IPCResponse<SessionTemplateDTO[]>>;
+    updateSessionTemplates: (projectId: number, templates: SessionTemplateInputDTO[]) => Promise<IPCResponse<SessionTemplateDTO[]>>;
+    getVerifySettings: (projectId: number) => Promise<IPCResponse<VerifySettingsDTO>>;
+    updateVerifySettings: (projectId: number, settings: Partial<VerifySettingsDTO>) => Promise<IPCResponse<unknown>>;
     getWorktrees: (projectId: number, sessionId?: string | null) => Promise<IPCResponse<Array<{
       path: string;
       head: string;
@@ -110,12 +537,29 @@ export interface ElectronAPI {
   sessions: {
     getAll: () => Promise<IPCResponse<Session[]>>;
     get: (sessionId: string) => Promise<IPCResponse<Session>>;
-    create: (request: { projectId: number; prompt?: string; toolType?: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none'; baseBranch?: string }) => Promise<IPCResponse<{ id: string }>>;
-    update: (sessionId: string, updates: { toolType?: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none'; executionMode?: 'plan' | 'execute' }) => Promise<IPCResponse<unknown>>;
+    create: (request: { projectId: number; prompt?: string; toolType?: string; baseBranch?: string; templateId?: number; variables?: Record<string, string> }) => Promise<IPCResponse<{ id: string }>>;
+    update: (sessionId: string, updates: { toolType?: string; executionMode?: 'plan' | 'execute' }) => Promise<IPCResponse<unknown>>;
     stop: (sessionId: string) => Promise<IPCResponse<unknown>>;
     delete: (sessionId: string) => Promise<IPCResponse<unknown>>;
+    archive: (sessionId: string) => Promise<IPCResponse<unknown>>;
+    getArchived: (projectId: number) => Promise<IPCResponse<Session[]>>;
+    restore: (sessionId: string) => Promise<IPCResponse<Session>>;
+    setFavorite: (sessionId: string, isFavorite: boolean) => Promise<IPCResponse<unknown>>;
+    moveToFolder: (sessionId: string, folderId: string | null) => Promise<IPCResponse<unknown>>;
     openWorktree: (request: { projectId: number; worktreePath: string; branch?: string | null }) => Promise<IPCResponse<{ id: string }>>;
     getTimeline: (sessionId: string) => Promise<IPCResponse<TimelineEvent[]>>;
+    search: (options: HistorySearchOptionsDTO) => Promise<IPCResponse<HistorySearchHitDTO[]>>;
+    exportBundle: (sessionId: string, format: SessionExportFormat) => Promise<IPCResponse<{ path: string } | null>>;
+    importBundle: (projectId: number) => Promise<IPCResponse<{ sessionId: string } | null>>;
+    getImport: (sessionId: string) => Promise<IPCResponse<SessionImportDTO | null>>;
+    getPromptQueue: (sessionId: string) => Promise<IPCResponse<QueuedPromptDTO[]>>;
+    enqueuePrompt: (sessionId: string, panelId: string, prompt: string, options?: { planMode?: boolean }) => Promise<IPCResponse<QueuedPromptDTO>>;
+    removeQueuedPrompt: (id: number) => Promise<IPCResponse<unknown>>;
+    reorderPromptQueue: (sessionId: string, orderedIds: number[]) => Promise<IPCResponse<unknown>>;
+    runNextQueuedPrompt: (sessionId: string) => Promise<IPCResponse<boolean>>;
+    getPlans: (sessionId: string) => Promise<IPCResponse<SessionPlanDTO[]>>;
+    updatePlan: (sessionId: string, planId: number, content: string) => Promise<IPCResponse<SessionPlanDTO>>;
+    approvePlan: (sessionId: string, planId: number, content?: string) => Promise<IPCResponse<SessionPlanDTO>>;
     getExecutions: (sessionId: string) => Promise<IPCResponse<ExecutionDTO[]>>;
     getDiff: (sessionId: string, target: DiffTarget) => Promise<IPCResponse<GitDiffResultDTO>>;
     getGitCommands: (sessionId: string) => Promise<IPCResponse<{ currentBranch: string; remoteName: string | null }>>;
@@ -146,6 +590,10 @@ export interface ElectronAPI {
       baseBranch: string;
       ownerRepo: string | null;
     }>>;
+    // Direct (non-AI) workspace actions
+    directCommit: (sessionId: string, options?: { messageTemplate?: string }) => Promise<IPCResponse<{ message?: string; commitHash?: string }>>;
+    directPush: (sessionId: string) => Promise<IPCResponse<unknown>>;
+    directUpdate: (sessionId: string, options?: { strategy?: 'rebase' | 'merge' }) => Promise<IPCResponse<{ conflict: boolean; conflictedFiles: string[] }>>;
     // Branch sync status helpers
     getCommitsBehindMain: (sessionId: string) => Promise<IPCResponse<{ behind: number; baseBranch: string }>>;
     getPrRemoteCommits: (sessionId: string) => Promise<IPCResponse<{ ahead: number; behind: number; branch: string | null }>>;
@@ -167,11 +615,16 @@ export interface ElectronAPI {
       pendingCount: number;
     } | null>>;
     markPRReady: (sessionId: string) => Promise<IPCResponse<unknown>>;
+    createPullRequest: (sessionId: string, options: { title: string; body?: string; draft?: boolean }) => Promise<IPCResponse<ForgePullRequestDTO>>;
     // Terminal helpers
-    ensureTerminalPanel: (sessionId: string) => Promise<IPCResponse<ToolPanel>>;
-    preCreateTerminal: (sessionId: string) => Promise<IPCResponse<unknown>>;
-    sendTerminalInput: (sessionId: string, data: string) => Promise<IPCResponse<unknown>>;
-    resizeTerminal: (sessionId: string, cols: number, rows: number) => Promise<IPCResponse<unknown>>;
+    ensureTerminalPanel: (sessionId: string, options?: { tmux?: boolean }) => Promise<IPCResponse<ToolPanel>>;
+    listTerminals: (sessionId: string) => Promise<IPCResponse<ToolPanel[]>>;
+    createTerminal: (sessionId: string, options?: { title?: string; tmux?: boolean }) => Promise<IPCResponse<ToolPanel>>;
+    renameTerminal: (sessionId: string, panelId: string, title: string) => Promise<IPCResponse<unknown>>;
+    closeTerminal: (sessionId: string, panelId: string) => Promise<IPCResponse<unknown>>;
+    preCreateTerminal: (sessionId: string, panelId?: string) => Promise<IPCResponse<unknown>>;
+    sendTerminalInput: (sessionId: string, data: string, panelId?: string) => Promise<IPCResponse<unknown>>;
+    resizeTerminal: (sessionId: string, cols: number, rows: number, panelId?: string) => Promise<IPCResponse<unknown>>;
     getTerminalOutputs: (panelId: string, limit?: number) => Promise<IPCResponse<Array<{
       id?: number;
       sessionId?: string;
@@ -183,11 +636,11 @@ export interface ElectronAPI {
   };
 
   panels: {
-    create: (request: { sessionId: string; type: 'claude' | 'codex' | 'gemini' | 'kimi' | 'terminal'; name?: string }) => Promise<IPCResponse<ToolPanel>>;
+    create: (request: { sessionId: string; type: string; name?: string }) => Promise<IPCResponse<ToolPanel>>;
     list: (sessionId: string) => Promise<IPCResponse<ToolPanel[]>>;
     update: (panelId: string, updates: { state?: unknown; title?: string; metadata?: unknown }) => Promise<IPCResponse<unknown>>;
     continue: (panelId: string, input: string, model?: string, options?: { skipCheckpointAutoCommit?: boolean; planMode?: boolean }, images?: Array<{ id: string; filename: string; mime: string; dataUrl: string }>) => Promise<IPCResponse<unknown>>;
-    answerQuestion: (panelId: string, panelType: 'claude' | 'codex' | 'gemini' | 'kimi', answers: Record<string, string | string[]>) => Promise<IPCResponse<unknown>>;
+    answerQuestion: (panelId: string, panelType: string, answers: Record<string, string | string[]>) => Promise<IPCResponse<unknown>>;
   };
 
   updater: {
@@ -202,6 +655,80 @@ export interface ElectronAPI {
     restart: (settings: { enabled: boolean; botToken: string; allowedChatId: string }) => Promise<IPCResponse<unknown>>;
   };
 
+  fanOut: {
+    create: (request: { projectId: number; prompt: string; runs: string[]; baseBranch?: string }) => Promise<IPCResponse<FanOutCreateResultDTO>>;
+    compare: (folderId: string) => Promise<IPCResponse<FanOutComparisonDTO>>;
+    diff: (folderId: string, fromSessionId: string | null, toSessionId: string) => Promise<IPCResponse<string>>;
+    promote: (folderId: string, winnerSessionId: string) => Promise<IPCResponse<{ archivedSessionIds: string[] }>>;
+  };
+
+  usage: {
+    getReport: (sessionId: string) => Promise<IPCResponse<UsageReportDTO>>;
+    setBudget: (scope: 'session' | 'project', scopeId: string | number, budget: UsageBudgetInputDTO) => Promise<IPCResponse<unknown>>;
+  };
+
+  checkpoints: {
+    list: (sessionId: string) => Promise<IPCResponse<SessionCheckpointsDTO>>;
+    restore: (sessionId: string, checkpointId: number, options?: RestoreCheckpointOptionsDTO) => Promise<IPCResponse<unknown>>;
+    redo: (sessionId: string, options?: RestoreCheckpointOptionsDTO) => Promise<IPCResponse<unknown>>;
+  };
+
+  approvals: {
+    listPending: (sessionId?: string) => Promise<IPCResponse<PendingApprovalDTO[]>>;
+    resolve: (id: string, decision: ToolApprovalDecisionDTO) => Promise<IPCResponse<unknown>>;
+  };
+
+  scripts: {
+    list: (sessionId: string) => Promise<IPCResponse<RunScriptDTO[]>>;
+    start: (sessionId: string, scriptId: string) => Promise<IPCResponse<RunScriptDTO>>;
+    stop: (sessionId: string, scriptId: string) => Promise<IPCResponse<unknown>>;
+    restart: (sessionId: string, scriptId: string) => Promise<IPCResponse<RunScriptDTO>>;
+    getLogs: (sessionId: string, scriptId: string) => Promise<IPCResponse<RunScriptLogLineDTO[]>>;
+  };
+
+  setup: {
+    getState: (sessionId: string) => Promise<IPCResponse<SetupStateDTO>>;
+    run: (sessionId: string) => Promise<IPCResponse<SetupStateDTO>>;
+    retry: (sessionId: string, taskId?: string) => Promise<IPCResponse<SetupStateDTO>>;
+    skip: (sessionId: string, taskId: string) => Promise<IPCResponse<SetupStateDTO>>;
+    getLogs: (sessionId: string, taskId: string) => Promise<IPCResponse<RunScriptLogLineDTO[]>>;
+  };
+
+  upstream: {
+    configure: (settings: { intervalMinutes: number }) => Promise<IPCResponse<void>>;
+    getStatus: (projectId: number) => Promise<IPCResponse<ProjectUpstreamStatusDTO>>;
+    check: (projectId: number) => Promise<IPCResponse<ProjectUpstreamStatusDTO>>;
+    rebaseClean: (projectId: number) => Promise<IPCResponse<UpstreamRebaseResultDTO[]>>;
+  };
+
+  notifications: {
+    configure: (settings: NotificationSettings) => Promise<IPCResponse<void>>;
+  };
+
+  review: {
+    getFeedback: (sessionId: string) => Promise<IPCResponse<ReviewFeedbackDTO>>;
+    refresh: (sessionId: string) => Promise<IPCResponse<ReviewFeedbackDTO>>;
+    send: (sessionId: string, panelId: string, commentIds: string[]) => Promise<IPCResponse<ReviewFeedbackDTO>>;
+    setStatus: (sessionId: string, commentIds: string[], status: 'open' | 'addressed') => Promise<IPCResponse<ReviewFeedbackDTO>>;
+  };
+
+  diffComments: {
+    list: (sessionId: string) => Promise<IPCResponse<DiffCommentDTO[]>>;
+    add: (sessionId: string, input: DiffCommentInputDTO) => Promise<IPCResponse<DiffCommentDTO[]>>;
+    update: (sessionId: string, id: number, body: string) => Promise<IPCResponse<DiffCommentDTO[]>>;
+    delete: (sessionId: string, id: number) => Promise<IPCResponse<DiffCommentDTO[]>>;
+    send: (sessionId: string, panelId: string) => Promise<IPCResponse<DiffCommentDTO[]>>;
+  };
+
+  folders: {
+    list: (projectId: number) => Promise<IPCResponse<SessionFolderDTO[]>>;
+    create: (projectId: number, name: string, parentFolderId?: string | null) => Promise<IPCResponse<SessionFolderDTO[]>>;
+    rename: (folderId: string, name: string) => Promise<IPCResponse<SessionFolderDTO[]>>;
+    move: (folderId: string, parentFolderId: string | null) => Promise<IPCResponse<SessionFolderDTO[]>>;
+    reorder: (projectId: number, orderedIds: string[]) => Promise<IPCResponse<SessionFolderDTO[]>>;
+    delete: (folderId: string) => Promise<IPCResponse<SessionFolderDTO[]>>;
+  };
+
   events: {
     onSessionsLoaded: (callback: (sessions: Session[]) => void) => () => void;
     onSessionCreated: (callback: (session: Session) => void) => () => void;
@@ -211,11 +738,23 @@ export interface ElectronAPI {
     onGitStatusLoading: (callback: (data: { sessionId: string }) => void) => () => void;
     onTimelineEvent: (callback: (data: { sessionId: string; event: TimelineEvent }) => void) => () => void;
     onTerminalOutput: (callback: (data: { sessionId: string; panelId?: string; id?: number; type: string; data: string; timestamp?: string }) => void) => () => void;
-    onTerminalExit: (callback: (data: { sessionId: string; exitCode: number; signal?: number }) => void) => () => void;
+    onTerminalExit: (callback: (data: { sessionId: string; panelId?: string; exitCode: number; signal?: number }) => void) => () => void;
     onAssistantStream: (callback: (data: { sessionId: string; panelId: string; content: string }) => void) => () => void;
     onUpdateAvailable: (callback: (info: UpdateAvailableInfo) => void) => () => void;
     onUpdateDownloaded: (callback: () => void) => () => void;
-    onAgentCompleted: (callback: (data: { sessionId: string }) => void) => () => void;
+    onAgentCompleted: (callback: (data: { sessionId: string; muted?: boolean }) => void) => () => void;
+    onNotificationFocus: (callback: (data: { sessionId: string; panelId: string | null }) => void) => () => void;
+    onPromptQueueUpdated: (callback: (data: { sessionId: string; items: QueuedPromptDTO[] }) => void) => () => void;
+    onUsageUpdated: (callback: (data: { sessionId: string | null; projectId: number | null }) => void) => () => void;
+    onCheckpointsUpdated: (callback: (data: SessionCheckpointsDTO) => void) => () => void;
+    onScriptsUpdated: (callback: (data: { sessionId: string; scripts: RunScriptDTO[] }) => void) => () => void;
+    onScriptOutput: (callback: (data: { sessionId: string; scriptId: string; lines: RunScriptLogLineDTO[] }) => void) => () => void;
+    onSetupUpdated: (callback: (data: SetupStateDTO) => void) => () => void;
+    onSetupOutput: (callback: (data: { sessionId: string; taskId: string; lines: RunScriptLogLineDTO[] }) => void) => () => void;
+    onUpstreamUpdated: (callback: (data: ProjectUpstreamStatusDTO) => void) => () => void;
+    onReviewFeedbackUpdated: (callback: (data: ReviewFeedbackDTO) => void) => () => void;
+    onDiffCommentsUpdated: (callback: (data: { sessionId: string; comments: DiffCommentDTO[] }) => void) => () => void;
+    onFoldersUpdated: (callback: (data: { projectId: number; folders: SessionFolderDTO[] }) => void) => () => void;
     onSessionTodosUpdate: (callback: (data: { sessionId: string; todos: TodoItem[] }) => void) => () => void;
   };
 }
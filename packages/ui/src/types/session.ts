@@ -19,11 +19,13 @@ export interface Session {
   worktreePath?: string;
   projectId?: number;
   folderId?: string;
+  isFavorite?: boolean;
   baseCommit?: string;
   baseBranch?: string;
   archived?: boolean;
   displayOrder?: number;
-  toolType?: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none';
+  // Executor plugins use their own ids
+  toolType?: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none' | (string & {});
   executionMode?: 'plan' | 'execute';
   gitStatus?: GitStatus;
   workspaceStage?: import('./workspace').WorkspaceStage;
@@ -31,4 +33,5 @@ export interface Session {
   ownerRepo?: string;
   isFork?: boolean;
   originOwnerRepo?: string;
+  importedAt?: string;
 }
@@ -5,6 +5,10 @@ export type TimelineEventKind =
   | 'tool_use'
   | 'tool_result'
   | 'user_question'
+  | 'approval_request'
+  | 'policy_decision'
+  | 'verify_result'
+  | 'plan'
   | 'cli.command'
   | 'git.command'
   | 'worktree.command';
@@ -77,6 +81,36 @@ export interface UserQuestionEvent extends BaseTimelineEvent {
   answers?: string; // JSON string
 }
 
+// Tool approval requested by the agent; tool_use_id is the approval id
+export interface ApprovalRequestEvent extends BaseTimelineEvent {
+  kind: 'approval_request';
+  tool_use_id: string;
+  action_type?: 'command' | 'file_change';
+  tool_input?: string; // JSON string of the approval details
+  status: 'pending' | 'answered';
+  answers?: string; // JSON string: { decision, source }
+}
+
+// A policy rule answered an approval or interrupted a tool call
+export interface PolicyDecisionEvent extends BaseTimelineEvent {
+  kind: 'policy_decision';
+  command: string; // matched command or path
+  tool_name: string; // rule name
+  action_type: 'allow' | 'deny';
+}
+
+// The project's verify command ran after an agent round
+export interface VerifyResultEvent extends BaseTimelineEvent {
+  kind: 'verify_result';
+  command: string;
+}
+
+// A version of the session's plan was proposed, edited or approved
+export interface PlanEvent extends BaseTimelineEvent {
+  kind: 'plan';
+  content: string;
+}
+
 // Command events
 export interface CommandEvent extends BaseTimelineEvent {
   kind: 'cli.command' | 'git.command' | 'worktree.command';
@@ -97,4 +131,8 @@ export type TimelineEvent =
   | ToolUseEvent
   | ToolResultEvent
   | UserQuestionEvent
+  | ApprovalRequestEvent
+  | PolicyDecisionEvent
+  | VerifyResultEvent
+  | PlanEvent
   | CommandEvent;
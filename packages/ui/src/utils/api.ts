@@ -24,12 +24,12 @@ export class API {
       return window.electronAPI.sessions.get(sessionId);
     },
 
-    async create(request: { projectId: number; prompt: string; toolType: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none' }) {
+    async create(request: { projectId: number; prompt: string; toolType: string; templateId?: number; variables?: Record<string, string> }) {
       requireElectron();
       return window.electronAPI.sessions.create(request);
     },
 
-    async update(sessionId: string, updates: { toolType?: 'claude' | 'codex' | 'gemini' | 'kimi' | 'none'; executionMode?: 'plan' | 'execute' }) {
+    async update(sessionId: string, updates: { toolType?: string; executionMode?: 'plan' | 'execute' }) {
       requireElectron();
       return window.electronAPI.sessions.update(sessionId, updates);
     },
@@ -44,6 +44,31 @@ export class API {
       return window.electronAPI.sessions.delete(sessionId);
     },
 
+    async archive(sessionId: string) {
+      requireElectron();
+      return window.electronAPI.sessions.archive(sessionId);
+    },
+
+    async getArchived(projectId: number) {
+      requireElectron();
+      return window.electronAPI.sessions.getArchived(projectId);
+    },
+
+    async restore(sessionId: string) {
+      requireElectron();
+      return window.electronAPI.sessions.restore(sessionId);
+    },
+
+    async setFavorite(sessionId: string, isFavorite: boolean) {
+      requireElectron();
+      return window.electronAPI.sessions.setFavorite(sessionId, isFavorite);
+    },
+
+    async moveToFolder(sessionId: string, folderId: string | null) {
+      requireElectron();
+      return window.electronAPI.sessions.moveToFolder(sessionId, folderId);
+    },
+
     async openWorktree(request: { projectId: number; worktreePath: string; branch?: string | null }) {
       requireElectron();
       return window.electronAPI.sessions.openWorktree(request);
@@ -54,6 +79,66 @@ export class API {
       return window.electronAPI.sessions.getTimeline(sessionId);
     },
 
+    async search(options: import('../types/electron').HistorySearchOptionsDTO) {
+      requireElectron();
+      return window.electronAPI.sessions.search(options);
+    },
+
+    async exportBundle(sessionId: string, format: import('../types/electron').SessionExportFormat) {
+      requireElectron();
+      return window.electronAPI.sessions.exportBundle(sessionId, format);
+    },
+
+    async importBundle(projectId: number) {
+      requireElectron();
+      return window.electronAPI.sessions.importBundle(projectId);
+    },
+
+    async getImport(sessionId: string) {
+      requireElectron();
+      return window.electronAPI.sessions.getImport(sessionId);
+    },
+
+    async getPromptQueue(sessionId: string) {
+      requireElectron();
+      return window.electronAPI.sessions.getPromptQueue(sessionId);
+    },
+
+    async enqueuePrompt(sessionId: string, panelId: string, prompt: string, options?: { planMode?: boolean }) {
+      requireElectron();
+      return window.electronAPI.sessions.enqueuePrompt(sessionId, panelId, prompt, options);
+    },
+
+    async removeQueuedPrompt(id: number) {
+      requireElectron();
+      return window.electronAPI.sessions.removeQueuedPrompt(id);
+    },
+
+    async reorderPromptQueue(sessionId: string, orderedIds: number[]) {
+      requireElectron();
+      return window.electronAPI.sessions.reorderPromptQueue(sessionId, orderedIds);
+    },
+
+    async runNextQueuedPrompt(sessionId: string) {
+      requireElectron();
+      return window.electronAPI.sessions.runNextQueuedPrompt(sessionId);
+    },
+
+    async getPlans(sessionId: string) {
+      requireElectron();
+      return window.electronAPI.sessions.getPlans(sessionId);
+    },
+
+    async updatePlan(sessionId: string, planId: number, content: string) {
+      requireElectron();
+      return window.electronAPI.sessions.updatePlan(sessionId, planId, content);
+    },
+
+    async approvePlan(sessionId: string, planId: number, content?: string) {
+      requireElectron();
+      return window.electronAPI.sessions.approvePlan(sessionId, planId, content);
+    },
+
     async getExecutions(sessionId: string) {
       requireElectron();
       return window.electronAPI.sessions.getExecutions(sessionId);
@@ -74,6 +159,11 @@ export class API {
       return window.electronAPI.sessions.getRemotePullRequest(sessionId);
     },
 
+    async createPullRequest(sessionId: string, options: { title: string; body?: string; draft?: boolean }) {
+      requireElectron();
+      return window.electronAPI.sessions.createPullRequest(sessionId, options);
+    },
+
     async getFileContent(sessionId: string, options: { filePath: string; ref: 'HEAD' | 'INDEX' | 'WORKTREE' | string; maxBytes?: number }) {
       requireElectron();
       return window.electronAPI.sessions.getFileContent(sessionId, options);
@@ -178,6 +268,22 @@ export class API {
       return result.data;
     },
 
+    // Direct (non-AI) workspace actions; raw responses so callers can inspect conflict details
+    async directCommit(sessionId: string, options?: { messageTemplate?: string }) {
+      requireElectron();
+      return window.electronAPI.sessions.directCommit(sessionId, options);
+    },
+
+    async directPush(sessionId: string) {
+      requireElectron();
+      return window.electronAPI.sessions.directPush(sessionId);
+    },
+
+    async directUpdate(sessionId: string, options?: { strategy?: 'rebase' | 'merge' }) {
+      requireElectron();
+      return window.electronAPI.sessions.directUpdate(sessionId, options);
+    },
+
     // Branch sync: get commits behind main
     async getCommitsBehindMain(sessionId: string): Promise<{ behind: number; baseBranch: string } | null> {
       requireElectron();
@@ -199,24 +305,44 @@ export class API {
     },
 
     // Terminal helpers
-    async ensureTerminalPanel(sessionId: string) {
+    async ensureTerminalPanel(sessionId: string, options?: { tmux?: boolean }) {
+      requireElectron();
+      return window.electronAPI.sessions.ensureTerminalPanel(sessionId, options);
+    },
+
+    async listTerminals(sessionId: string) {
+      requireElectron();
+      return window.electronAPI.sessions.listTerminals(sessionId);
+    },
+
+    async createTerminal(sessionId: string, options?: { title?: string; tmux?: boolean }) {
       requireElectron();
-      return window.electronAPI.sessions.ensureTerminalPanel(sessionId);
+      return window.electronAPI.sessions.createTerminal(sessionId, options);
     },
 
-    async preCreateTerminal(sessionId: string) {
+    async renameTerminal(sessionId: string, panelId: string, title: string) {
       requireElectron();
-      return window.electronAPI.sessions.preCreateTerminal(sessionId);
+      return window.electronAPI.sessions.renameTerminal(sessionId, panelId, title);
     },
 
-    async sendTerminalInput(sessionId: string, data: string) {
+    async closeTerminal(sessionId: string, panelId: string) {
       requireElectron();
-      return window.electronAPI.sessions.sendTerminalInput(sessionId, data);
+      return window.electronAPI.sessions.closeTerminal(sessionId, panelId);
     },
 
-    async resizeTerminal(sessionId: string, cols: number, rows: number) {
+    async preCreateTerminal(sessionId: string, panelId?: string) {
       requireElectron();
-      return window.electronAPI.sessions.resizeTerminal(sessionId, cols, rows);
+      return window.electronAPI.sessions.preCreateTerminal(sessionId, panelId);
+    },
+
+    async sendTerminalInput(sessionId: string, data: string, panelId?: string) {
+      requireElectron();
+      return window.electronAPI.sessions.sendTerminalInput(sessionId, data, panelId);
+    },
+
+    async resizeTerminal(sessionId: string, cols: number, rows: number, panelId?: string) {
+      requireElectron();
+      return window.electronAPI.sessions.resizeTerminal(sessionId, cols, rows, panelId);
     },
 
     async getTerminalOutputs(panelId: string, limit?: number) {
@@ -241,6 +367,76 @@ export class API {
       return window.electronAPI.projects.delete(projectId);
     },
 
+    async getWorkflowPrompts(projectId: number) {
+      requireElectron();
+      return window.electronAPI.projects.getWorkflowPrompts(projectId);
+    },
+
+    async updateWorkflowPrompts(projectId: number, updates: Partial<import('../types/electron').WorkflowPromptTemplatesDTO>) {
+      requireElectron();
+      return window.electronAPI.projects.updateWorkflowPrompts(projectId, updates);
+    },
+
+    async getCustomExecutor(projectId: number) {
+      requireElectron();
+      return window.electronAPI.projects.getCustomExecutor(projectId);
+    },
+
+    async updateCustomExecutor(projectId: number, spec: string | null) {
+      requireElectron();
+      return window.electronAPI.projects.updateCustomExecutor(projectId, spec);
+    },
+
+    async getPolicyRules(projectId: number) {
+      requireElectron();
+      return window.electronAPI.projects.getPolicyRules(projectId);
+    },
+
+    async updatePolicyRules(projectId: number, rules: import('../types/electron').PolicyRuleInputDTO[]) {
+      requireElectron();
+      return window.electronAPI.projects.updatePolicyRules(projectId, rules);
+    },
+
+    async getRunCommands(projectId: number) {
+      requireElectron();
+      return window.electronAPI.projects.getRunCommands(projectId);
+    },
+
+    async updateRunCommands(projectId: number, commands: import('../types/electron').RunCommandInputDTO[]) {
+      requireElectron();
+      return window.electronAPI.projects.updateRunCommands(projectId, commands);
+    },
+
+    async getSetupSteps(projectId: number) {
+      requireElectron();
+      return window.electronAPI.projects.getSetupSteps(projectId);
+    },
+
+    async updateSetupSteps(projectId: number, steps: import('../types/electron').SetupStepInputDTO[]) {
+      requireElectron();
+      return window.electronAPI.projects.updateSetupSteps(projectId, steps);
+    },
+
+    async getSessionTemplates(projectId: number) {
+      requireElectron();
+      return window.electronAPI.projects.getSessionTemplates(projectId);
+    },
+
+    async updateSessionTemplates(projectId: number, templates: import('../types/electron').SessionTemplateInputDTO[]) {
+      requireElectron();
+      return window.electronAPI.projects.updateSessionTemplates(projectId, templates);
+    },
+
+    async getVerifySettings(projectId: number) {
+      requireElectron();
+      return window.electronAPI.projects.getVerifySettings(projectId);
+    },
+
+    async updateVerifySettings(projectId: number, settings: Partial<import('../types/electron').VerifySettingsDTO>) {
+      requireElectron();
+      return window.electronAPI.projects.updateVerifySettings(projectId, settings);
+    },
+
     async getWorktrees(projectId: number, sessionId?: string | null) {
       requireElectron();
       return window.electronAPI.projects.getWorktrees(projectId, sessionId);
@@ -274,4 +470,197 @@ export class API {
       return window.electronAPI.aiTools.getSettings();
     },
   };
+
+  static executors = {
+    async list() {
+      requireElectron();
+      return window.electronAPI.executors.list();
+    },
+  };
+
+  static fanOut = {
+    async create(request: { projectId: number; prompt: string; runs: string[]; baseBranch?: string }) {
+      requireElectron();
+      return window.electronAPI.fanOut.create(request);
+    },
+    async compare(folderId: string) {
+      requireElectron();
+      return window.electronAPI.fanOut.compare(folderId);
+    },
+    async diff(folderId: string, fromSessionId: string | null, toSessionId: string) {
+      requireElectron();
+      return window.electronAPI.fanOut.diff(folderId, fromSessionId, toSessionId);
+    },
+    async promote(folderId: string, winnerSessionId: string) {
+      requireElectron();
+      return window.electronAPI.fanOut.promote(folderId, winnerSessionId);
+    },
+  };
+
+  static usage = {
+    async getReport(sessionId: string) {
+      requireElectron();
+      return window.electronAPI.usage.getReport(sessionId);
+    },
+    async setBudget(scope: 'session' | 'project', scopeId: string | number, budget: import('../types/electron').UsageBudgetInputDTO) {
+      requireElectron();
+      return window.electronAPI.usage.setBudget(scope, scopeId, budget);
+    },
+  };
+
+  static checkpoints = {
+    async list(sessionId: string) {
+      requireElectron();
+      return window.electronAPI.checkpoints.list(sessionId);
+    },
+    async restore(sessionId: string, checkpointId: number, options?: import('../types/electron').RestoreCheckpointOptionsDTO) {
+      requireElectron();
+      return window.electronAPI.checkpoints.restore(sessionId, checkpointId, options);
+    },
+    async redo(sessionId: string, options?: import('../types/electron').RestoreCheckpointOptionsDTO) {
+      requireElectron();
+      return window.electronAPI.checkpoints.redo(sessionId, options);
+    },
+  };
+
+  static approvals = {
+    async listPending(sessionId?: string) {
+      requireElectron();
+      return window.electronAPI.approvals.listPending(sessionId);
+    },
+    async resolve(id: string, decision: import('../types/electron').ToolApprovalDecisionDTO) {
+      requireElectron();
+      return window.electronAPI.approvals.resolve(id, decision);
+    },
+  };
+
+  static scripts = {
+    async list(sessionId: string) {
+      requireElectron();
+      return window.electronAPI.scripts.list(sessionId);
+    },
+    async start(sessionId: string, scriptId: string) {
+      requireElectron();
+      return window.electronAPI.scripts.start(sessionId, scriptId);
+    },
+    async stop(sessionId: string, scriptId: string) {
+      requireElectron();
+      return window.electronAPI.scripts.stop(sessionId, scriptId);
+    },
+    async restart(sessionId: string, scriptId: string) {
+      requireElectron();
+      return window.electronAPI.scripts.restart(sessionId, scriptId);
+    },
+    async getLogs(sessionId: string, scriptId: string) {
+      requireElectron();
+      return window.electronAPI.scripts.getLogs(sessionId, scriptId);
+    },
+  };
+
+  static setup = {
+    async getState(sessionId: string) {
+      requireElectron();
+      return window.electronAPI.setup.getState(sessionId);
+    },
+    async run(sessionId: string) {
+      requireElectron();
+      return window.electronAPI.setup.run(sessionId);
+    },
+    async retry(sessionId: string, taskId?: string) {
+      requireElectron();
+      return window.electronAPI.setup.retry(sessionId, taskId);
+    },
+    async skip(sessionId: string, taskId: string) {
+      requireElectron();
+      return window.electronAPI.setup.skip(sessionId, taskId);
+    },
+    async getLogs(sessionId: string, taskId: string) {
+      requireElectron();
+      return window.electronAPI.setup.getLogs(sessionId, taskId);
+    },
+  };
+
+  static upstream = {
+    async getStatus(projectId: number) {
+      requireElectron();
+      return window.electronAPI.upstream.getStatus(projectId);
+    },
+    async check(projectId: number) {
+      requireElectron();
+      return window.electronAPI.upstream.check(projectId);
+    },
+    async rebaseClean(projectId: number) {
+      requireElectron();
+      return window.electronAPI.upstream.rebaseClean(projectId);
+    },
+  };
+
+  static review = {
+    async getFeedback(sessionId: string) {
+      requireElectron();
+      return window.electronAPI.review.getFeedback(sessionId);
+    },
+    async refresh(sessionId: string) {
+      requireElectron();
+      return window.electronAPI.review.refresh(sessionId);
+    },
+    async send(sessionId: string, panelId: string, commentIds: string[]) {
+      requireElectron();
+      return window.electronAPI.review.send(sessionId, panelId, commentIds);
+    },
+    async setStatus(sessionId: string, commentIds: string[], status: 'open' | 'addressed') {
+      requireElectron();
+      return window.electronAPI.review.setStatus(sessionId, commentIds, status);
+    },
+  };
+
+  static diffComments = {
+    async list(sessionId: string) {
+      requireElectron();
+      return window.electronAPI.diffComments.list(sessionId);
+    },
+    async add(sessionId: string, input: import('../types/electron').DiffCommentInputDTO) {
+      requireElectron();
+      return window.electronAPI.diffComments.add(sessionId, input);
+    },
+    async update(sessionId: string, id: number, body: string) {
+      requireElectron();
+      return window.electronAPI.diffComments.update(sessionId, id, body);
+    },
+    async delete(sessionId: string, id: number) {
+      requireElectron();
+      return window.electronAPI.diffComments.delete(sessionId, id);
+    },
+    async send(sessionId: string, panelId: string) {
+      requireElectron();
+      return window.electronAPI.diffComments.send(sessionId, panelId);
+    },
+  };
+
+  static folders = {
+    async list(projectId: number) {
+      requireElectron();
+      return window.electronAPI.folders.list(projectId);
+    },
+    async create(projectId: number, name: string, parentFolderId?: string | null) {
+      requireElectron();
+      return window.electronAPI.folders.create(projectId, name, parentFolderId);
+    },
+    async rename(folderId: string, name: string) {
+      requireElectron();
+      return window.electronAPI.folders.rename(folderId, name);
+    },
+    async move(folderId: string, parentFolderId: string | null) {
+      requireElectron();
+      return window.electronAPI.folders.move(folderId, parentFolderId);
+    },
+    async reorder(projectId: number, orderedIds: string[]) {
+      requireElectron();
+      return window.electronAPI.folders.reorder(projectId, orderedIds);
+    },
+    async delete(folderId: string) {
+      requireElectron();
+      return window.electronAPI.folders.delete(folderId);
+    },
+  };
 }